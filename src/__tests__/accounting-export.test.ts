@@ -0,0 +1,111 @@
+import Booking from '../models/Booking';
+import { AccountingExportService, JOURNAL_COLUMNS, LEDGER_COLUMNS } from '../services/accounting-export.service';
+import { XlsxWriter } from '../utils/xlsx';
+
+const stadium = { _id: 'stadium1', name: 'Test Stadium', serviceFeePercentage: 10 };
+const window = { from: new Date('2026-03-01T00:00:00Z'), until: new Date('2026-03-31T23:59:59Z') };
+
+const booking: any = {
+  _id: 'booking1',
+  bookingNumber: 'BK1',
+  bookingDate: new Date('2026-03-10T00:00:00Z'),
+  stadiumId: 'stadium1',
+  status: 'cancelled',
+  pricing: {
+    totalAmount: 220000,
+    taxes: 20000,
+    currency: 'LAK',
+    taxDetails: { name: 'VAT', rate: 10, inclusive: true },
+    discounts: [{ type: 'fixed', code: 'SPRING', amount: 22000, fundedBy: 'platform' }]
+  },
+  payments: [
+    { _id: 'payment1', paymentMethod: 'qrcode', amount: 220000, currency: 'LAK', status: 'completed', processedAt: new Date('2026-03-02T00:00:00Z') },
+    { _id: 'payment2', paymentMethod: 'cash', amount: 50000, currency: 'LAK', status: 'pending', createdAt: new Date('2026-03-02T00:00:00Z') },
+    { _id: 'refund1', paymentMethod: 'qrcode', amount: -110000, currency: 'LAK', status: 'refunded', refundId: 'r1', processedAt: new Date('2026-03-05T00:00:00Z') },
+    { _id: 'refund2', paymentMethod: 'qrcode', amount: -55000, currency: 'LAK', status: 'refunded', refundId: 'r2', processedAt: new Date('2026-04-05T00:00:00Z') }
+  ],
+  refunds: [{ _id: 'r1', amount: 110000, reason: 'Rain' }],
+  cancellation: { cancelledAt: new Date('2026-03-04T00:00:00Z'), cancellationFee: 110000, reason: 'Weather' }
+};
+
+describe('Accounting export', () => {
+  it('should build ledger rows for settled payments and refunds in the window', () => {
+    const rows = AccountingExportService.buildLedgerRows(booking, stadium, window);
+
+    expect(rows.map(row => row.entryId)).toEqual(['payment1', 'refund1']);
+    expect(rows[0].taxAmount).toBe(20000);
+    expect(rows[0].serviceFee).toBe(20000);
+    expect(rows[0].promoCredit).toBe(22000);
+    expect(rows[0].ownerNet).toBe(222000);
+    expect(rows[1].entryType).toBe('refund');
+    expect(rows[1].revenueAmount).toBe(-100000);
+    expect(rows[1].serviceFee).toBe(-10000);
+    expect(rows[1].reason).toBe('Rain');
+  });
+
+  it('should produce balanced journal entries', () => {
+    const lines = AccountingExportService.buildJournalLines(AccountingExportService.buildLedgerRows(booking, stadium, window));
+
+    for (const journalId of ['payment1', 'refund1']) {
+      const entry = lines.filter(line => line.journalId === journalId);
+      const debit = entry.reduce((sum, line) => sum + line.debit, 0);
+      const credit = entry.reduce((sum, line) => sum + line.credit, 0);
+      expect(debit).toBe(credit);
+    }
+
+    const refundRevenue = lines.find(line => line.journalId === 'refund1' && line.accountCode === '4100');
+    expect(refundRevenue?.debit).toBe(111000);
+    const taxPayable = lines.find(line => line.journalId === 'refund1' && line.accountCode === '2100');
+    expect(taxPayable?.debit).toBe(10000);
+  });
+
+  it('should keep the CSV header in schema order', () => {
+    const csv = AccountingExportService.toCSV(LEDGER_COLUMNS, AccountingExportService.buildLedgerRows(booking, stadium, window));
+    const [header, first] = csv.trim().split('\n');
+
+    expect(header).toBe(LEDGER_COLUMNS.map(column => column.header).join(','));
+    expect(first.split(',')[1]).toBe('2026-03-02T07:00:00+07:00');
+    expect(first.split(',')[5]).toBe('2026-03-10');
+  });
+
+  it('should start an incremental export right after the previous cursor', async () => {
+    const cursor = new Date('2026-03-02T00:00:00Z');
+    const incremental = { from: cursor, until: window.until, fromExclusive: true };
+
+    expect(AccountingExportService.buildLedgerRows(booking, stadium, incremental).map(row => row.entryId)).toEqual(['refund1']);
+    expect(AccountingExportService.buildLedgerRows(booking, stadium, { ...incremental, fromExclusive: false }).map(row => row.entryId))
+      .toEqual(['payment1', 'refund1']);
+
+    const find = jest.spyOn(Booking, 'find').mockReturnValue({ sort: jest.fn().mockResolvedValue([]) } as any);
+    await AccountingExportService.findBookings(['stadium1'], incremental);
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({
+      payments: { $elemMatch: { $or: [{ processedAt: { $gt: cursor, $lte: window.until } }, expect.anything()] } }
+    }));
+    find.mockRestore();
+  });
+
+  it('should keep text cells from running as spreadsheet formulas', () => {
+    const columns = [{ key: 'reason', header: 'Reason' }, { key: 'amount', header: 'Amount' }] as any;
+    const rows = ['=HYPERLINK("http://x")', '+1', '-2', '@SUM(A1)', 'Rain'].map(reason => ({ reason, amount: -110000 }));
+
+    const [, ...lines] = AccountingExportService.toCSV(columns, rows).trim().split('\n');
+
+    expect(lines).toEqual([
+      '"\'=HYPERLINK(""http://x"")",-110000',
+      "'+1,-110000",
+      "'-2,-110000",
+      "'@SUM(A1),-110000",
+      'Rain,-110000'
+    ]);
+  });
+
+  it('should write an XLSX package', () => {
+    const rows = AccountingExportService.buildJournalLines(AccountingExportService.buildLedgerRows(booking, stadium, window));
+    const workbook = AccountingExportService.toWorkbook('Journal', JOURNAL_COLUMNS, rows);
+
+    expect(workbook.subarray(0, 2).toString()).toBe('PK');
+    expect(XlsxWriter.crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(XlsxWriter.columnName(0)).toBe('A');
+    expect(XlsxWriter.columnName(27)).toBe('AB');
+  });
+});
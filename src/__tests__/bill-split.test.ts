@@ -0,0 +1,83 @@
+import { Types } from 'mongoose';
+import { BillSplitService } from '../services/bill-split.service';
+import { PaymentGatewayService } from '../services/payment-gateway.service';
+
+const organizerId = new Types.ObjectId();
+const teammateId = new Types.ObjectId();
+
+const participant = (_id: Types.ObjectId, isOrganizer: boolean, shareAmount: number): any => ({
+  _id,
+  phone: isOrganizer ? '+8562055551111' : '+8562055552222',
+  isOrganizer,
+  shareAmount,
+  paidAmount: 0,
+  status: 'pending',
+  token: isOrganizer ? 'organizer-token' : 'teammate-token',
+  invitedAt: new Date()
+});
+
+const buildBooking = (payments: any[]): any => ({
+  userId: new Types.ObjectId(),
+  status: 'pending',
+  paymentStatus: 'pending',
+  pricing: { totalAmount: 200001, currency: 'LAK' },
+  payments,
+  history: [],
+  billSplit: {
+    mode: 'even',
+    createdBy: new Types.ObjectId(),
+    createdAt: new Date(),
+    participants: [participant(organizerId, true, 100001), participant(teammateId, false, 100000)]
+  }
+});
+
+const completed = (amount: number, participantId?: Types.ObjectId): any => ({
+  paymentMethod: 'qrcode',
+  amount,
+  currency: 'LAK',
+  status: 'completed',
+  participantId,
+  createdAt: new Date()
+});
+
+describe('BillSplitService', () => {
+  it('should split evenly in whole units and give the remainder to the organizer', () => {
+    expect(BillSplitService.calculateShares(200001, 3, 'even')).toEqual([50001, 50000, 50000, 50000]);
+    expect(BillSplitService.calculateShares(200000, 2, 'custom', [50000, 70000])).toEqual([80000, 50000, 70000]);
+    expect(() => BillSplitService.calculateShares(200000, 2, 'custom', [150000, 70000])).toThrow('Shares exceed the booking total');
+    expect(() => BillSplitService.calculateShares(200000, 0, 'even')).toThrow('Invite at least one teammate');
+  });
+
+  it('should credit tagged payments to their participant and the rest to the organizer', () => {
+    const booking = buildBooking([completed(40000, teammateId), completed(100001)]);
+    BillSplitService.syncParticipants(booking);
+
+    const [organizer, teammate] = booking.billSplit.participants;
+    expect(organizer.status).toBe('paid');
+    expect(organizer.paidAt).toBeDefined();
+    expect(teammate.paidAmount).toBe(40000);
+    expect(teammate.status).toBe('partially_paid');
+    expect(BillSplitService.getAmountDue(booking, teammate)).toBe(60000);
+  });
+
+  it('should confirm a pending booking once the split is fully funded', () => {
+    const booking = buildBooking([completed(100001)]);
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('partially_paid');
+    expect(booking.status).toBe('pending');
+
+    booking.payments.push(completed(100000, teammateId));
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('paid');
+    expect(booking.status).toBe('confirmed');
+    expect(booking.billSplit.participants.every((p: any) => p.status === 'paid')).toBe(true);
+  });
+
+  it('should not let a split be removed after a teammate has paid', () => {
+    const booking = buildBooking([completed(100000, teammateId)]);
+
+    expect(() => BillSplitService.removeSplit(booking, String(organizerId))).toThrow('Cannot remove the split after teammates have paid');
+  });
+});
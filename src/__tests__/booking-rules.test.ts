@@ -0,0 +1,63 @@
+import { Types } from 'mongoose';
+import { IField, IFieldBookingRules } from '../models/Stadium';
+import { BookingRulesService } from '../services/booking-rules.service';
+
+const buildField = (bookingRules: IFieldBookingRules): IField => ({
+  _id: new Types.ObjectId(),
+  name: 'Field A',
+  fieldType: '7v7',
+  surfaceType: 'artificial_grass',
+  pricing: { baseHourlyRate: 100000, currency: 'LAK' },
+  bookingRules
+} as IField);
+
+// 2026-03-02 10:00 in Vientiane
+const now = new Date('2026-03-02T03:00:00Z');
+
+describe('BookingRulesService', () => {
+  it('should enforce duration limits and slot granularity', () => {
+    const field = buildField({ minDurationMinutes: 60, maxDurationMinutes: 120, slotGranularityMinutes: 30 });
+
+    expect(() => BookingRulesService.validate(field, '2026-03-05', '18:00', '18:30', now)).toThrow('at least 60 minutes');
+    expect(() => BookingRulesService.validate(field, '2026-03-05', '18:00', '21:00', now)).toThrow('at most 120 minutes');
+    expect(() => BookingRulesService.validate(field, '2026-03-05', '18:15', '19:15', now)).toThrow('30-minute steps');
+    expect(() => BookingRulesService.validate(field, '2026-03-05', '18:30', '20:00', now)).not.toThrow();
+  });
+
+  it('should enforce lead time and how far ahead bookings can be made', () => {
+    const field = buildField({ minLeadHours: 2, maxAdvanceDays: 30 });
+
+    expect(() => BookingRulesService.validate(field, '2026-03-02', '11:00', '12:00', now)).toThrow('at least 2 hours ahead');
+    expect(() => BookingRulesService.validate(field, '2026-03-02', '12:00', '13:00', now)).not.toThrow();
+    expect(() => BookingRulesService.validate(field, '2026-04-15', '12:00', '13:00', now)).toThrow('at most 30 days ahead');
+  });
+
+  it('should recognise its own errors', () => {
+    const field = buildField({ minDurationMinutes: 60 });
+
+    try {
+      BookingRulesService.validate(field, '2026-03-05', '18:00', '18:30', now);
+    } catch (error) {
+      expect(BookingRulesService.isViolation(error)).toBe(true);
+    }
+    expect(BookingRulesService.isViolation(new Error('Field not found'))).toBe(false);
+  });
+
+  it('should keep buffers around bookings free', () => {
+    const field = buildField({ bufferBeforeMinutes: 15, bufferAfterMinutes: 15 });
+    const fieldIds = [(field as any)._id];
+    const booked = { fieldIds, startTime: '18:00', endTime: '19:00' };
+
+    expect(BookingRulesService.getOccupiedRange([field], booked)).toEqual({ start: 17 * 60 + 45, end: 19 * 60 + 15 });
+    expect(BookingRulesService.conflicts([field], booked, { fieldIds, startTime: '19:15', endTime: '20:15' })).toBe(true);
+    expect(BookingRulesService.conflicts([field], booked, { fieldIds, startTime: '19:30', endTime: '20:30' })).toBe(false);
+  });
+
+  it('should treat a booking ending at 00:00 as running until midnight', () => {
+    const field = buildField({ maxDurationMinutes: 60, bufferAfterMinutes: 15 });
+    const booked = { fieldIds: [(field as any)._id], startTime: '23:00', endTime: '00:00' };
+
+    expect(() => BookingRulesService.validate(field, '2026-03-05', '23:00', '00:00', now)).not.toThrow();
+    expect(BookingRulesService.getOccupiedRange([field], booked)).toEqual({ start: 23 * 60, end: 24 * 60 });
+  });
+});
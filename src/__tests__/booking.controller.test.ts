@@ -0,0 +1,159 @@
+import moment from 'moment-timezone';
+import { Types } from 'mongoose';
+import { BookingController } from '../controllers/booking.controller';
+import { SlotHoldController } from '../controllers/slot-hold.controller';
+import Booking from '../models/Booking';
+import Stadium from '../models/Stadium';
+import { HolidayService } from '../services/holiday.service';
+import { InvoiceRegistryService } from '../services/invoice-registry.service';
+import { PromoCodeService } from '../services/promo-code.service';
+import { WaitlistService } from '../services/waitlist.service';
+import AvailabilityService from '../utils/availability';
+
+const fieldId = new Types.ObjectId();
+
+// Open 16:00-24:00 on Fridays, closed for a tournament on 27 November
+const buildStadium = () => ({
+  _id: new Types.ObjectId(),
+  closedOnPublicHolidays: false,
+  fields: [{
+    _id: fieldId,
+    name: 'Field 1',
+    pricing: { baseRate: 100000, currency: 'LAK' },
+    openingHours: [{ dayOfWeek: 5, openTime: '16:00', closeTime: '24:00' }],
+    specialDates: [{ date: new Date('2026-11-27'), isClosed: true, reason: 'Tournament' }]
+  }]
+});
+
+describe('BookingController.createBooking', () => {
+  let mockResponse: any;
+  let checkAvailability: jest.SpyInstance;
+
+  const book = (body: Record<string, any>) => BookingController.createBooking(
+    { body: { stadiumId: 'stadium1', fieldId: fieldId.toString(), ...body }, user: { userId: 'user1' } } as any,
+    mockResponse,
+    jest.fn()
+  );
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis()
+    };
+    jest.spyOn(Stadium, 'findById').mockResolvedValue(buildStadium() as any);
+    jest.spyOn(HolidayService, 'findEntries').mockResolvedValue([]);
+    checkAvailability = jest.spyOn(AvailabilityService, 'checkFieldAvailability').mockResolvedValue(false);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should refuse a booking outside the field opening hours', async () => {
+    await book({ bookingDate: '2026-11-20', startTime: '14:00', endTime: '16:00' });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(mockResponse.json).toHaveBeenCalledWith({ success: false, message: 'Requested time is outside field operating hours' });
+    expect(checkAvailability).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a booking on a date the field is closed', async () => {
+    await book({ bookingDate: '2026-11-27', startTime: '18:00', endTime: '19:00' });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(checkAvailability).not.toHaveBeenCalled();
+  });
+
+  it('should go on to check availability for a slot running until midnight', async () => {
+    const sendConflict = jest.spyOn(SlotHoldController, 'sendConflict').mockResolvedValue();
+
+    await book({ bookingDate: '2026-11-20', startTime: '23:00', endTime: '24:00' });
+
+    expect(checkAvailability).toHaveBeenCalledWith([fieldId.toString()], '2026-11-20', '23:00', '24:00', null, { userId: 'user1', holdId: undefined });
+    expect(sendConflict).toHaveBeenCalled();
+  });
+});
+
+describe('BookingController.cancelBooking', () => {
+  const customerId = new Types.ObjectId().toString();
+  const ownerId = new Types.ObjectId().toString();
+  let mockResponse: any;
+
+  // By default kicks off in three hours, well inside the default 24-hour notice window
+  const buildBooking = (hoursAhead = 3, overrides: Record<string, any> = {}) => {
+    const start = moment.tz('Asia/Vientiane').add(hoursAhead, 'hours');
+    const booking = new Booking({
+      bookingNumber: 'BK-200',
+      userId: customerId,
+      stadiumId: new Types.ObjectId(),
+      fieldId: new Types.ObjectId(),
+      bookingDate: new Date(start.format('YYYY-MM-DD')),
+      startTime: start.format('HH:00'),
+      endTime: start.clone().add(1, 'hour').format('HH:00'),
+      durationHours: 1,
+      pricing: { baseRate: 100000, totalAmount: 100000, currency: 'LAK' },
+      status: 'confirmed',
+      ...overrides
+    });
+    jest.spyOn(booking, 'save').mockResolvedValue(booking);
+    jest.spyOn(Booking, 'findById').mockResolvedValue(booking);
+    return booking;
+  };
+
+  const cancel = (user: { userId: string; role: string }) => BookingController.cancelBooking(
+    { params: { bookingId: 'booking1' }, body: {}, user } as any,
+    mockResponse,
+    jest.fn()
+  );
+
+  beforeEach(() => {
+    mockResponse = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis()
+    };
+    jest.spyOn(Stadium, 'findById').mockImplementation(() => ({ select: jest.fn().mockResolvedValue({ ownerId }) }) as any);
+    jest.spyOn(PromoCodeService, 'releaseRedemption').mockResolvedValue();
+    jest.spyOn(InvoiceRegistryService, 'issueCreditNote').mockResolvedValue(null);
+    jest.spyOn(WaitlistService, 'offerFreedSlot').mockResolvedValue(0);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should not let the owner of another stadium cancel the booking', async () => {
+    const booking = buildBooking();
+
+    await cancel({ userId: new Types.ObjectId().toString(), role: 'stadium_owner' });
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(booking.status).toBe('confirmed');
+    expect(booking.save).not.toHaveBeenCalled();
+  });
+
+  it('should let the stadium owner cancel inside the notice window the customer is held to', async () => {
+    const booking = buildBooking();
+
+    await cancel({ userId: customerId, role: 'general_user' });
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+
+    await cancel({ userId: ownerId, role: 'stadium_owner' });
+    expect(booking.status).toBe('cancelled');
+    expect(mockResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({ success: true, message: 'Booking cancelled successfully' }));
+  });
+
+  it('should only refund what is left after earlier refunds', async () => {
+    const refundId = new Types.ObjectId();
+    const booking = buildBooking(72, {
+      paymentStatus: 'partially_refunded',
+      payments: [
+        { paymentMethod: 'bank_transfer', amount: 100000, currency: 'LAK', status: 'completed' },
+        { paymentMethod: 'bank_transfer', amount: -30000, currency: 'LAK', status: 'refunded', refundId }
+      ],
+      refunds: [{ _id: refundId, amount: 30000, currency: 'LAK', status: 'paid_out', requestedBy: new Types.ObjectId(customerId), requestedAt: new Date() }]
+    });
+
+    await cancel({ userId: customerId, role: 'general_user' });
+
+    expect(mockResponse.json).toHaveBeenLastCalledWith(expect.objectContaining({ success: true }));
+    expect(booking.cancellation).toMatchObject({ refundAmount: 70000, cancellationFee: 0, refundStatus: 'requested' });
+    expect(booking.refunds![1]).toMatchObject({ amount: 70000, status: 'requested' });
+  });
+});
+
@@ -0,0 +1,135 @@
+import moment from 'moment-timezone';
+import {
+  CancellationPolicyService,
+  DEFAULT_CANCELLATION_POLICY
+} from '../services/cancellation-policy.service';
+
+const now = moment.tz('2026-03-01 10:00', 'YYYY-MM-DD HH:mm', 'Asia/Vientiane');
+
+// Build a paid booking starting the given number of hours after `now`
+const buildBooking = (hoursAhead: number, overrides: any = {}): any => {
+  const start = now.clone().add(hoursAhead, 'hours');
+  return {
+    bookingDate: new Date(`${start.format('YYYY-MM-DD')}T00:00:00.000Z`),
+    startTime: start.format('HH:mm'),
+    status: 'confirmed',
+    paymentStatus: 'paid',
+    bookingType: 'regular',
+    pricing: { totalAmount: 100000, currency: 'LAK' },
+    payments: [],
+    ...overrides
+  };
+};
+
+describe('CancellationPolicyService', () => {
+  describe('evaluatePolicy with the default policy', () => {
+    it('should give a full refund 48 hours or more ahead', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(72), DEFAULT_CANCELLATION_POLICY, 'default', { now }
+      );
+
+      expect(quote.allowed).toBe(true);
+      expect(quote.refundAmount).toBe(100000);
+      expect(quote.feeAmount).toBe(0);
+    });
+
+    it('should give a 50% refund between 24 and 48 hours ahead', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(30), DEFAULT_CANCELLATION_POLICY, 'default', { now }
+      );
+
+      expect(quote.allowed).toBe(true);
+      expect(quote.refundAmount).toBe(50000);
+    });
+
+    it('should block customers inside 24 hours but allow stadium owners', () => {
+      const customerQuote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(10), DEFAULT_CANCELLATION_POLICY, 'default', { now }
+      );
+      const ownerQuote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(10), DEFAULT_CANCELLATION_POLICY, 'default', { now, userRole: 'stadium_owner' }
+      );
+
+      expect(customerQuote.allowed).toBe(false);
+      expect(customerQuote.reason).toBe('Bookings can only be cancelled 24 hours in advance');
+      expect(ownerQuote.allowed).toBe(true);
+      expect(ownerQuote.refundAmount).toBe(0);
+    });
+
+    it('should not refund more than is left after earlier refunds', () => {
+      const refundId = 'refund1';
+      const booking = buildBooking(72, {
+        payments: [
+          { amount: 100000, status: 'completed' },
+          { amount: -30000, status: 'refunded', refundId }
+        ],
+        refunds: [{ _id: refundId, amount: 30000, status: 'paid_out' }, { amount: 50000, status: 'requested' }]
+      });
+
+      const quote = CancellationPolicyService.evaluatePolicy(booking, DEFAULT_CANCELLATION_POLICY, 'default', { now });
+
+      expect(quote.paidAmount).toBe(100000);
+      expect(quote.refundAmount).toBe(20000);
+    });
+
+    it('should not refund unpaid bookings', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(72, { paymentStatus: 'pending' }), DEFAULT_CANCELLATION_POLICY, 'default', { now }
+      );
+
+      expect(quote.allowed).toBe(true);
+      expect(quote.refundAmount).toBe(0);
+    });
+  });
+
+  describe('evaluatePolicy with a custom policy', () => {
+    const policy: any = {
+      allowCancellation: true,
+      minHoursBefore: 2,
+      tiers: [
+        { minHoursBefore: 12, feeType: 'fixed', feeAmount: 20000 },
+        { minHoursBefore: 2, feeType: 'percentage', feeAmount: 75 }
+      ],
+      noRefundForMembership: true,
+      loyaltyOverrides: [{ tier: 'Gold', waiveFees: true }]
+    };
+
+    it('should apply a fixed fee tier', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(buildBooking(24), policy, 'stadium', { now });
+
+      expect(quote.feeAmount).toBe(20000);
+      expect(quote.refundAmount).toBe(80000);
+      expect(quote.appliedTier?.feeType).toBe('fixed');
+    });
+
+    it('should refund nothing for membership bookings', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(24, { bookingType: 'membership' }), policy, 'stadium', { now }
+      );
+
+      expect(quote.refundAmount).toBe(0);
+      expect(quote.feeAmount).toBe(100000);
+    });
+
+    it('should waive fees for loyalty tiers with an override', () => {
+      const quote = CancellationPolicyService.evaluatePolicy(
+        buildBooking(4), policy, 'stadium', { now, loyaltyTier: 'Gold' }
+      );
+
+      expect(quote.feesWaived).toBe(true);
+      expect(quote.refundAmount).toBe(100000);
+    });
+  });
+
+  describe('resolvePolicy', () => {
+    it('should prefer booking type overrides on the field over the stadium policy', () => {
+      const fieldOverride = { bookingType: 'tournament', minHoursBefore: 72, tiers: [] };
+      const stadium: any = { cancellationPolicy: { minHoursBefore: 12, tiers: [{ minHoursBefore: 12, feeType: 'percentage', feeAmount: 0 }] } };
+      const field: any = { cancellationPolicy: { minHoursBefore: 24, tiers: [], bookingTypeOverrides: [fieldOverride] } };
+
+      expect(CancellationPolicyService.resolvePolicy(stadium, field, 'tournament').source).toBe('field_booking_type');
+      expect(CancellationPolicyService.resolvePolicy(stadium, field, 'regular').source).toBe('stadium');
+      expect(CancellationPolicyService.resolvePolicy(null, null, 'regular').source).toBe('default');
+    });
+  });
+});
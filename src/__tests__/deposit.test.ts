@@ -0,0 +1,73 @@
+import { DepositService } from '../services/deposit.service';
+
+const policy: any = {
+  enabled: true,
+  type: 'percentage',
+  amount: 30,
+  balanceDue: 'before_kickoff',
+  balanceDueHoursBefore: 2,
+  holdMinutes: 60
+};
+
+const now = new Date('2026-03-01T03:00:00Z');
+const kickoff = DepositService.getBookingStart('2026-03-02', '18:00');
+
+const buildBooking = (payments: any[], overrides: any = {}): any => ({
+  userId: '64b000000000000000000001',
+  status: 'pending',
+  paymentStatus: 'pending',
+  pricing: { totalAmount: 200000, currency: 'LAK' },
+  payments,
+  refunds: [],
+  history: [],
+  deposit: DepositService.calculateDeposit(policy, 200000, kickoff, now),
+  ...overrides
+});
+
+describe('DepositService', () => {
+  it('should calculate percentage and capped fixed deposits', () => {
+    const deposit = DepositService.calculateDeposit(policy, 200000, kickoff, now);
+
+    expect(kickoff).toEqual(new Date('2026-03-02T11:00:00Z'));
+    expect(deposit?.requiredAmount).toBe(60000);
+    expect(deposit?.holdExpiresAt).toEqual(new Date('2026-03-01T04:00:00Z'));
+    expect(deposit?.balanceDueAt).toEqual(new Date('2026-03-02T09:00:00Z'));
+    expect(DepositService.calculateDeposit({ ...policy, type: 'fixed', amount: 500000 }, 200000, kickoff, now)?.requiredAmount).toBe(200000);
+    expect(DepositService.calculateDeposit({ ...policy, enabled: false }, 200000, kickoff, now)).toBeUndefined();
+  });
+
+  it('should never hold a slot past kickoff', () => {
+    const soon = new Date(kickoff.getTime() - 10 * 60 * 1000);
+
+    expect(DepositService.calculateDeposit(policy, 200000, kickoff, soon)?.holdExpiresAt).toEqual(kickoff);
+  });
+
+  it('should confirm the booking once the deposit is covered', () => {
+    const booking = buildBooking([]);
+
+    expect(DepositService.markReceived(booking, 50000, now)).toBe(false);
+    expect(DepositService.markReceived(booking, 60000, now)).toBe(true);
+    expect(booking.status).toBe('confirmed');
+    expect(booking.deposit.receivedAt).toEqual(now);
+    expect(DepositService.getDepositStatus(booking, 60000)?.depositDue).toBe(0);
+  });
+
+  it('should keep bookings with a slip awaiting review past the hold', () => {
+    const later = new Date('2026-03-01T05:00:00Z');
+
+    expect(DepositService.isHoldExpired(buildBooking([]), later)).toBe(true);
+    expect(DepositService.isHoldExpired(buildBooking([]), now)).toBe(false);
+    expect(DepositService.isHoldExpired(buildBooking([{ amount: 60000, status: 'pending', slip: { reviewStatus: 'pending' } }]), later)).toBe(false);
+  });
+
+  it('should cancel and refund partial payments when the hold expires', () => {
+    const booking = buildBooking([{ amount: 20000, status: 'completed', paymentMethod: 'qrcode' }], { paymentStatus: 'partially_paid' });
+
+    DepositService.releaseHold(booking, new Date('2026-03-01T05:00:00Z'));
+
+    expect(booking.status).toBe('cancelled');
+    expect(booking.cancellation.refundAmount).toBe(20000);
+    expect(booking.refunds).toHaveLength(1);
+    expect(booking.refunds[0].amount).toBe(20000);
+  });
+});
@@ -0,0 +1,56 @@
+import { Types } from 'mongoose';
+import { IField } from '../models/Stadium';
+import { FieldRelationService } from '../services/field-relation.service';
+
+const buildField = (name: string, composedOf: Types.ObjectId[] = []): IField => ({
+  _id: new Types.ObjectId(),
+  name,
+  fieldType: '5v5',
+  surfaceType: 'artificial_grass',
+  pricing: { baseHourlyRate: 100000, currency: 'LAK' },
+  composedOf
+} as IField);
+
+const idOf = (field: IField) => String((field as any)._id);
+
+// A full pitch made of two 7v7 fields, each made of two 5v5 fields, plus an unrelated futsal court
+const fiveA = buildField('5v5 A');
+const fiveB = buildField('5v5 B');
+const fiveC = buildField('5v5 C');
+const fiveD = buildField('5v5 D');
+const sevenWest = buildField('7v7 West', [(fiveA as any)._id, (fiveB as any)._id]);
+const sevenEast = buildField('7v7 East', [(fiveC as any)._id, (fiveD as any)._id]);
+const full = buildField('11v11', [(sevenWest as any)._id, (sevenEast as any)._id]);
+const futsal = buildField('Futsal');
+const fields = [fiveA, fiveB, fiveC, fiveD, sevenWest, sevenEast, full, futsal];
+
+describe('FieldRelationService', () => {
+  it('should cover every nested field in a footprint', () => {
+    expect(FieldRelationService.getFootprint(fields, [idOf(full)]).sort())
+      .toEqual([full, sevenWest, sevenEast, fiveA, fiveB, fiveC, fiveD].map(idOf).sort());
+    expect(FieldRelationService.getFootprint(fields, [idOf(futsal)])).toEqual([idOf(futsal)]);
+  });
+
+  it('should relate a field to its parts and to the fields built on it, but not to its siblings', () => {
+    const related = FieldRelationService.getRelatedIds(fields, [idOf(fiveA)]);
+
+    expect(related.sort()).toEqual([fiveA, sevenWest, full].map(idOf).sort());
+    expect(FieldRelationService.getRelatedIds(fields, [idOf(sevenEast)])).not.toContain(idOf(sevenWest));
+  });
+
+  it('should only allow combining fields that do not share ground', () => {
+    expect(FieldRelationService.overlap(fields, [idOf(sevenWest), idOf(sevenEast)])).toBe(false);
+    expect(FieldRelationService.overlap(fields, [idOf(sevenWest), idOf(fiveB)])).toBe(true);
+  });
+
+  it('should reject compositions that are circular or point outside the stadium', () => {
+    expect(FieldRelationService.validateComposition(fields)).toBe(true);
+    expect(() => FieldRelationService.validateComposition([...fields, buildField('Ghost', [new Types.ObjectId()])]))
+      .toThrow('does not exist in this stadium');
+
+    const loopA = buildField('Loop A');
+    const loopB = buildField('Loop B', [(loopA as any)._id]);
+    loopA.composedOf = [(loopB as any)._id];
+    expect(() => FieldRelationService.validateComposition([loopA, loopB])).toThrow('circular composition');
+  });
+});
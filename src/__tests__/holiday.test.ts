@@ -0,0 +1,96 @@
+import mongoose from 'mongoose';
+import { IHoliday } from '../models/Holiday';
+import { IField } from '../models/Stadium';
+import { CalendarStadium, HolidayService } from '../services/holiday.service';
+import { SlotGeneratorService } from '../services/slot-generator.service';
+
+const fullPitch = new mongoose.Types.ObjectId();
+const halves = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+const otherField = new mongoose.Types.ObjectId();
+
+const buildStadium = (extra: Partial<CalendarStadium> = {}): CalendarStadium => ({
+  _id: new mongoose.Types.ObjectId(),
+  address: { city: 'Vientiane' },
+  fields: [
+    { _id: fullPitch, name: 'Full pitch', composedOf: halves },
+    ...halves.map(_id => ({ _id, name: 'Half' })),
+    { _id: otherField, name: 'Court' }
+  ],
+  ...extra
+} as unknown as CalendarStadium);
+
+const entry = (values: Partial<IHoliday>): IHoliday => ({
+  startDate: new Date('2026-04-14'),
+  endDate: new Date('2026-04-16'),
+  ...values
+} as IHoliday);
+
+describe('HolidayService', () => {
+  it('should read all-day events from an iCalendar file', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:lao-new-year-2026',
+      'DTSTART;VALUE=DATE:20260414',
+      'DTEND;VALUE=DATE:20260417',
+      'SUMMARY:Lao New Year\\, Pi Mai',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261202',
+      'SUMMARY:National',
+      '  Day',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    expect(HolidayService.parseIcs(ics)).toEqual([
+      { name: 'Lao New Year, Pi Mai', startDate: '2026-04-14', endDate: '2026-04-16', externalId: 'lao-new-year-2026' },
+      { name: 'National Day', startDate: '2026-12-02', endDate: '2026-12-02' }
+    ]);
+    expect(HolidayService.parseJson([{ name: 'That Luang', date: '2026-11-24' }]))
+      .toEqual([{ name: 'That Luang', startDate: '2026-11-24', endDate: '2026-11-24' }]);
+    expect(() => HolidayService.parseJson([{ name: 'Undated' }])).toThrow('Holiday 1 needs a name and a valid date');
+  });
+
+  it('should keep stadiums open on public holidays unless they close on them', () => {
+    const holidays = [entry({ type: 'holiday', name: 'Lao New Year', country: 'laos' })];
+
+    expect(HolidayService.describeDay(holidays, buildStadium(), '2026-04-15'))
+      .toEqual({ date: '2026-04-15', isClosed: false, holiday: 'Lao New Year' });
+    expect(HolidayService.describeDay(holidays, buildStadium({ closedOnPublicHolidays: true }), '2026-04-15'))
+      .toEqual({ date: '2026-04-15', isClosed: true, reason: 'Lao New Year (public holiday)', holiday: 'Lao New Year' });
+    expect(HolidayService.describeDay(holidays, buildStadium({ address: { country: 'Thailand' } } as any), '2026-04-15').holiday)
+      .toBeUndefined();
+    expect(HolidayService.describeDay(holidays, buildStadium(), '2026-04-17').holiday).toBeUndefined();
+  });
+
+  it('should close on blackouts and on closures of the field or the ground it shares', () => {
+    const stadium = buildStadium();
+    const blackout = entry({ type: 'blackout', name: 'National election' });
+    const closure = entry({ type: 'closure', name: 'Pitch resurfacing', stadiumId: stadium._id as any, fieldIds: [halves[0]] });
+
+    expect(HolidayService.describeDay([blackout], stadium, '2026-04-14').reason).toBe('National election (platform closure)');
+    expect(HolidayService.describeDay([closure], stadium, '2026-04-14', halves[0]).isClosed).toBe(true);
+    expect(HolidayService.describeDay([closure], stadium, '2026-04-14', fullPitch).isClosed).toBe(true);
+    expect(HolidayService.describeDay([closure], stadium, '2026-04-14', halves[1]).isClosed).toBe(false);
+    expect(HolidayService.describeDay([closure], stadium, '2026-04-14', otherField).isClosed).toBe(false);
+    expect(HolidayService.describeDay([closure], buildStadium(), '2026-04-14', halves[0]).isClosed).toBe(false);
+  });
+
+  it('should generate no slots on a closed day and price holiday slots at the holiday tier', () => {
+    const field = {
+      name: 'Court',
+      pricing: {
+        baseHourlyRate: 100000,
+        currency: 'LAK',
+        pricingTiers: [{ name: 'holiday', startTime: '00:00', endTime: '23:59', daysOfWeek: [], hourlyRate: 150000, isActive: true }]
+      },
+      openingHours: [{ dayOfWeek: 3, openTime: '18:00', closeTime: '20:00' }]
+    } as unknown as IField;
+
+    expect(SlotGeneratorService.generateSlots(field, '2026-04-15', {}, { date: '2026-04-15', isClosed: true, reason: 'Closed' })).toEqual([]);
+    expect(SlotGeneratorService.generateSlots(field, '2026-04-15', {}, { date: '2026-04-15', isClosed: false, holiday: 'Lao New Year' })
+      .map(slot => slot.rate)).toEqual([150000, 150000]);
+    expect(SlotGeneratorService.generateSlots(field, '2026-04-15').map(slot => slot.rate)).toEqual([100000, 100000]);
+  });
+});
@@ -0,0 +1,72 @@
+import { InvoiceRegistryService } from '../services/invoice-registry.service';
+import { InvoiceService } from '../services/invoice.service';
+
+const booking: any = {
+  bookingNumber: 'BK1',
+  bookingDate: new Date('2026-03-02T00:00:00Z'),
+  startTime: '18:00',
+  endTime: '20:00',
+  durationHours: 2,
+  fieldId: 'field1',
+  paymentStatus: 'paid',
+  status: 'cancelled',
+  pricing: {
+    baseRate: 110000,
+    totalAmount: 220000,
+    currency: 'LAK',
+    taxes: 20000,
+    taxDetails: { name: 'VAT', rate: 10, inclusive: true, sellerTaxId: '987-654' }
+  },
+  payments: []
+};
+const stadium: any = { _id: 'stadium1', name: 'Test Stadium', address: { city: 'Vientiane' }, ownerId: 'owner1', fields: [] };
+const customer: any = { _id: 'customer1', firstName: 'John', lastName: 'Doe' };
+
+describe('Invoice numbering', () => {
+  it('should format zero-padded numbers per document type', () => {
+    expect(InvoiceRegistryService.formatNumber('invoice', 2026, 123)).toBe('INV-2026-000123');
+    expect(InvoiceRegistryService.formatNumber('credit_note', 2026, 4)).toBe('CN-2026-000004');
+  });
+
+  it('should keep separate sequences per owner, document type and year', () => {
+    const keys = new Set([
+      InvoiceRegistryService.counterKey('invoice', 'owner1', 2026),
+      InvoiceRegistryService.counterKey('invoice', 'owner2', 2026),
+      InvoiceRegistryService.counterKey('credit_note', 'owner1', 2026),
+      InvoiceRegistryService.counterKey('invoice', 'owner1', 2027)
+    ]);
+    expect(keys.size).toBe(4);
+  });
+
+  it('should replace the draft number with the issued one', () => {
+    const issuedAt = new Date('2026-03-01T09:00:00Z');
+    const invoice = InvoiceService.applyIssuedNumber(
+      InvoiceService.generateInvoiceData(booking, stadium, customer),
+      { invoiceNumber: 'INV-2026-000123', issuedAt }
+    );
+
+    expect(invoice.invoiceNumber).toBe('INV-2026-000123');
+    expect(invoice.invoiceDate).toEqual(issuedAt);
+    expect(invoice.dueDate).toEqual(new Date('2026-03-08T09:00:00Z'));
+  });
+
+  it('should build a credit note that references the original invoice', () => {
+    const creditNote = InvoiceService.buildCreditNoteData(InvoiceService.generateInvoiceData(booking, stadium, customer), {
+      invoiceNumber: 'CN-2026-000004',
+      issuedAt: new Date('2026-03-02T09:00:00Z'),
+      originalInvoiceNumber: 'INV-2026-000123',
+      reason: 'Booking cancelled',
+      items: [{ description: 'Credit for invoice INV-2026-000123', quantity: 1, unitPrice: -110000, total: -110000 }],
+      subtotal: -110000,
+      taxes: -10000,
+      totalAmount: -110000
+    });
+
+    expect(creditNote.documentType).toBe('credit_note');
+    expect(creditNote.creditNote?.originalInvoiceNumber).toBe('INV-2026-000123');
+    expect(creditNote.totalAmount).toBe(-110000);
+    expect(creditNote.tax?.taxableAmount).toBe(-100000);
+    expect(creditNote.stadium.taxId).toBe('987-654');
+    expect(creditNote.qrCodePayment).toBeUndefined();
+  });
+});
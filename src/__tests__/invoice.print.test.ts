@@ -1,5 +1,4 @@
 import { InvoiceService } from '../services/invoice.service';
-import mongoose from 'mongoose';
 
 // Mock mongoose
 jest.mock('mongoose', () => {
@@ -0,0 +1,73 @@
+import { QRCodeGenerator } from '../utils/qrCodeGenerator';
+
+// Split a flat EMVCo TLV string into its top-level fields
+const parseTLV = (payload: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  let i = 0;
+  while (i < payload.length) {
+    const id = payload.substring(i, i + 2);
+    const length = parseInt(payload.substring(i + 2, i + 4), 10);
+    fields[id] = payload.substring(i + 4, i + 4 + length);
+    i += 4 + length;
+  }
+  return fields;
+};
+
+describe('QRCodeGenerator LAO QR payloads', () => {
+  it('should compute CRC-16/CCITT-FALSE', () => {
+    expect(QRCodeGenerator.crc16('123456789')).toBe('29B1');
+  });
+
+  it('should encode TLV fields with a two-digit length', () => {
+    expect(QRCodeGenerator.formatTLV('59', 'Champa Stadium')).toBe('5914Champa Stadium');
+  });
+
+  it('should build a dynamic payload with amount and bill reference', () => {
+    const payload = QRCodeGenerator.buildLaoQRPayload({
+      accountNumber: '0101000123456',
+      merchantName: 'Champa Stadium',
+      bankCode: '70030418',
+      amount: 150000,
+      currency: 'LAK',
+      billNumber: 'BK17000000000001'
+    });
+    const fields = parseTLV(payload);
+
+    expect(fields['00']).toBe('01');
+    expect(fields['01']).toBe('12');
+    expect(parseTLV(fields['38'])['02']).toBe('0101000123456');
+    expect(fields['53']).toBe('418');
+    expect(fields['54']).toBe('150000');
+    expect(fields['58']).toBe('LA');
+    expect(parseTLV(fields['62'])['01']).toBe('BK17000000000001');
+    expect(fields['63']).toBe(QRCodeGenerator.crc16(payload.slice(0, -4)));
+  });
+
+  it('should build a static payload when no amount is given', () => {
+    const fields = parseTLV(QRCodeGenerator.buildLaoQRPayload({
+      accountNumber: '0101000123456',
+      merchantName: 'Champa Stadium'
+    }));
+
+    expect(fields['01']).toBe('11');
+    expect(fields['54']).toBeUndefined();
+  });
+
+  it('should move Lao merchant names into the language template', () => {
+    const fields = parseTLV(QRCodeGenerator.buildLaoQRPayload({
+      accountNumber: '0101000123456',
+      merchantName: 'ເດີ່ນບານ ຈຳປາ'
+    }));
+
+    expect(fields['59']).toBe('STADIUM');
+    expect(parseTLV(fields['64'])['01']).toBe('ເດີ່ນບານ ຈຳປາ');
+  });
+
+  it('should reject unsupported currencies', () => {
+    expect(() => QRCodeGenerator.buildLaoQRPayload({
+      accountNumber: '1',
+      merchantName: 'Test',
+      currency: 'EUR'
+    })).toThrow('Unsupported QR payment currency: EUR');
+  });
+});
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import { MembershipService } from '../services/membership.service';
+import { MembershipBillingService } from '../services/membership-billing.service';
+import { IBillingCycle, ISeriesBilling } from '../models/MembershipSeries';
+
+describe('MembershipService.planDates', () => {
+  it('should start on the first matching weekday and repeat weekly', () => {
+    // 2026-03-04 is a Wednesday
+    const dates = MembershipService.planDates('2026-03-04', 6, 'weekly', { count: 3 });
+
+    expect(dates).toEqual(['2026-03-07', '2026-03-14', '2026-03-21']);
+  });
+
+  it('should repeat every other week for biweekly series', () => {
+    const dates = MembershipService.planDates('2026-03-07', 6, 'biweekly', { count: 3 });
+
+    expect(dates).toEqual(['2026-03-07', '2026-03-21', '2026-04-04']);
+  });
+
+  it('should stop at the end date, including it', () => {
+    const dates = MembershipService.planDates('2026-03-07', 6, 'weekly', { endDate: '2026-03-28', count: 10 });
+
+    expect(dates).toEqual(['2026-03-07', '2026-03-14', '2026-03-21', '2026-03-28']);
+  });
+
+  it('should plan a year of dates when no limit is given', () => {
+    expect(MembershipService.planDates('2026-03-07', 6, 'weekly')).toHaveLength(52);
+  });
+});
+
+describe('MembershipBillingService', () => {
+  const billing = (overrides: Partial<ISeriesBilling> = {}): ISeriesBilling => ({
+    planId: new mongoose.Types.ObjectId(),
+    planName: 'Members',
+    billingCycle: 'monthly',
+    dueDaysBefore: 3,
+    reminderDays: [1, 3],
+    suspendAfterDays: 7,
+    ...overrides
+  });
+
+  const occurrences = ['2026-03-07', '2026-03-14', '2026-03-28', '2026-04-04', '2026-04-11'].map(date => ({
+    date: new Date(`${date}T12:00:00Z`),
+    bookingId: new mongoose.Types.ObjectId()
+  }));
+
+  it('should bill monthly plans per calendar month', () => {
+    const groups = MembershipBillingService.groupOccurrences(occurrences, billing());
+
+    expect(groups.map(group => group.bookingIds.length)).toEqual([3, 2]);
+    expect(groups[1].periodStart).toEqual(occurrences[3].date);
+  });
+
+  it('should bill term plans per number of occurrences and upfront plans at once', () => {
+    const terms = MembershipBillingService.groupOccurrences(occurrences, billing({ billingCycle: 'term', occurrencesPerTerm: 2 }));
+    const upfront = MembershipBillingService.groupOccurrences(occurrences, billing({ billingCycle: 'upfront' }));
+
+    expect(terms.map(group => group.bookingIds.length)).toEqual([2, 2, 1]);
+    expect(upfront).toHaveLength(1);
+    expect(upfront[0].periodEnd).toEqual(occurrences[4].date);
+  });
+
+  it('should not make a cycle due before it was billed', () => {
+    const dueDate = MembershipBillingService.getDueDate(occurrences[0].date, billing(), new Date('2026-03-06T12:00:00Z'));
+
+    expect(dueDate.toISOString()).toBe(new Date('2026-03-06T00:00:00+07:00').toISOString());
+  });
+
+  it('should send each reminder once its day overdue is reached', () => {
+    const cycle = {
+      status: 'overdue',
+      dueDate: new Date('2026-03-04T00:00:00+07:00'),
+      remindersSent: 1
+    } as IBillingCycle;
+
+    expect(MembershipBillingService.isReminderDue(cycle, billing(), new Date('2026-03-06T12:00:00+07:00'))).toBe(false);
+    expect(MembershipBillingService.isReminderDue(cycle, billing(), new Date('2026-03-07T12:00:00+07:00'))).toBe(true);
+    expect(MembershipBillingService.isSuspensionDue(cycle, billing(), new Date('2026-03-11T12:00:00+07:00'))).toBe(true);
+  });
+});
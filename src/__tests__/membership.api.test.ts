@@ -6,7 +6,7 @@ import Stadium from '../models/Stadium';
 
 // Mock authentication middleware for testing
 jest.mock('../middleware/auth', () => ({
-  authenticateToken: (req: any, res: any, next: any) => {
+  authenticateToken: (req: any, _res: any, next: any) => {
     req.user = { userId: 'test-user-id' };
     next();
   }
@@ -0,0 +1,144 @@
+import { Types } from 'mongoose';
+import Booking from '../models/Booking';
+import User from '../models/User';
+import { BillSplitService } from '../services/bill-split.service';
+import { OpenMatchService } from '../services/open-match.service';
+import { IOpenMatchRequest } from '../types/booking.types';
+
+describe('OpenMatchService', () => {
+  const request = (players: number, status: IOpenMatchRequest['status']): IOpenMatchRequest => ({
+    userId: new Types.ObjectId(),
+    players,
+    status,
+    requestedAt: new Date('2026-03-01')
+  });
+
+  it('should count spots left from approved players only', () => {
+    const requests = [request(2, 'approved'), request(3, 'pending'), request(1, 'withdrawn')];
+
+    expect(OpenMatchService.getSpotsLeft({ type: 'players', playersNeeded: 4, requests })).toBe(2);
+    expect(OpenMatchService.getSpotsLeft({ type: 'players', playersNeeded: 2, requests })).toBe(0);
+  });
+
+  it('should take a single opponent team', () => {
+    expect(OpenMatchService.getSpotsLeft({ type: 'opponent', requests: [request(7, 'pending')] })).toBe(1);
+    expect(OpenMatchService.getSpotsLeft({ type: 'opponent', requests: [request(7, 'approved')] })).toBe(0);
+  });
+
+  it('should share the booking with the opponent or per player', () => {
+    const booking = { pricing: { totalAmount: 300000 }, teamInfo: { numberOfPlayers: 8 } } as any;
+
+    expect(OpenMatchService.getDefaultShare(booking, 'opponent')).toBe(150000);
+    expect(OpenMatchService.getDefaultShare(booking, 'players', 2)).toBe(30000);
+    expect(OpenMatchService.getShare({ type: 'players', pricePerPlayer: 30000 }, 3)).toBe(90000);
+  });
+
+  it('should round shares down to whole units by default and prices per player to cents', () => {
+    const booking = { pricing: { totalAmount: 100000 }, teamInfo: { numberOfPlayers: 7 } } as any;
+
+    expect(OpenMatchService.getDefaultShare(booking, 'players', 2)).toBe(11111);
+    expect(OpenMatchService.getDefaultShare({ ...booking, pricing: { totalAmount: 100001 } }, 'opponent')).toBe(50000);
+    expect(OpenMatchService.getShare({ type: 'players', pricePerPlayer: 33333.333 }, 3)).toBe(100000);
+    expect(OpenMatchService.getShare({ type: 'players', pricePerPlayer: 0.335 }, 3)).toBe(1.01);
+  });
+
+  describe('joining and leaving', () => {
+    const now = new Date('2026-03-01T03:00:00Z');
+    const organizerId = new Types.ObjectId().toString();
+    const playerId = new Types.ObjectId().toString();
+    const otherId = new Types.ObjectId().toString();
+
+    // A 7-player team looking for 3 more players on 7 March
+    const publishedBooking = () => {
+      const booking = new Booking({
+        userId: organizerId,
+        stadiumId: new Types.ObjectId(),
+        fieldId: new Types.ObjectId(),
+        bookingDate: new Date('2026-03-07'),
+        startTime: '18:00',
+        endTime: '20:00',
+        durationHours: 2,
+        pricing: { baseRate: 100000, totalAmount: 200000, currency: 'LAK' },
+        teamInfo: { teamName: 'Vientiane FC', numberOfPlayers: 7 },
+        status: 'confirmed'
+      });
+      OpenMatchService.publish(booking, { type: 'players', playersNeeded: 3 }, organizerId, now);
+      return booking;
+    };
+
+    let addParticipant: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(User, 'findById').mockImplementation((id: any) => ({
+        select: jest.fn().mockResolvedValue({ _id: id, firstName: 'Noy', lastName: 'Vong', phone: '+8562055512345' })
+      }) as any);
+      addParticipant = jest.spyOn(BillSplitService, 'addParticipant')
+        .mockImplementation(async () => ({ _id: new Types.ObjectId() }) as any);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should add an approved player to the bill split with their share', async () => {
+      const booking = publishedBooking();
+      const request = OpenMatchService.requestToJoin(booking, playerId, { players: 2 }, now);
+
+      expect(() => OpenMatchService.requestToJoin(booking, playerId, {}, now)).toThrow('Already asked to join this match');
+      expect(() => OpenMatchService.requestToJoin(booking, organizerId, {}, now)).toThrow('Cannot join your own match');
+
+      const participant = await OpenMatchService.approve(booking, String(request._id), organizerId, now);
+
+      expect(booking.openMatch?.pricePerPlayer).toBe(20000);
+      expect(addParticipant).toHaveBeenCalledWith(booking, {
+        phone: '+8562055512345',
+        name: 'Noy Vong',
+        userId: playerId,
+        shareAmount: 40000
+      }, organizerId);
+      expect(request).toMatchObject({ status: 'approved', participantId: participant._id });
+      expect(OpenMatchService.getSpotsLeft(booking.openMatch!)).toBe(1);
+      expect(booking.openMatch?.status).toBe('open');
+    });
+
+    it('should fill up at capacity and turn away the requests that no longer fit', async () => {
+      const booking = publishedBooking();
+      const first = OpenMatchService.requestToJoin(booking, playerId, { players: 2 }, now);
+      const second = OpenMatchService.requestToJoin(booking, otherId, { players: 2 }, now);
+
+      expect(() => OpenMatchService.requestToJoin(booking, new Types.ObjectId().toString(), { players: 4 }, now))
+        .toThrow('Only 3 spots left');
+
+      await OpenMatchService.approve(booking, String(first._id), organizerId, now);
+      await expect(OpenMatchService.approve(booking, String(second._id), organizerId, now)).rejects.toThrow('Not enough spots left');
+
+      const last = OpenMatchService.requestToJoin(booking, new Types.ObjectId().toString(), { players: 1 }, now);
+      await OpenMatchService.approve(booking, String(last._id), organizerId, now);
+
+      expect(booking.openMatch?.status).toBe('full');
+      expect(second).toMatchObject({ status: 'rejected', respondedAt: now });
+      expect(() => OpenMatchService.requestToJoin(booking, new Types.ObjectId().toString(), {}, now)).toThrow('Open match is full');
+    });
+
+    it('should reopen a full match when an approved player leaves the bill split', async () => {
+      const booking = publishedBooking();
+      const request = OpenMatchService.requestToJoin(booking, playerId, { players: 3 }, now);
+      const participant = await OpenMatchService.approve(booking, String(request._id), organizerId, now);
+      const removeParticipant = jest.spyOn(BillSplitService, 'removeParticipant').mockReturnValue();
+      expect(booking.openMatch?.status).toBe('full');
+
+      OpenMatchService.leave(booking, playerId, now);
+
+      expect(removeParticipant).toHaveBeenCalledWith(booking, String(participant._id), playerId);
+      expect(request.status).toBe('withdrawn');
+      expect(booking.openMatch?.status).toBe('open');
+      expect(OpenMatchService.getSpotsLeft(booking.openMatch!)).toBe(3);
+      expect(() => OpenMatchService.leave(booking, playerId, now)).toThrow('Open match request not found');
+    });
+
+    it('should refuse player prices above the booking total', () => {
+      const booking = publishedBooking();
+
+      expect(() => OpenMatchService.publish(booking, { type: 'players', playersNeeded: 3, pricePerPlayer: 70000 }, organizerId, now))
+        .toThrow('Player prices exceed the booking total');
+    });
+  });
+});
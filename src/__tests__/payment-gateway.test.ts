@@ -0,0 +1,191 @@
+import { Types } from 'mongoose';
+import Booking from '../models/Booking';
+import PaymentWebhookEvent from '../models/PaymentWebhookEvent';
+import { PAYMENT_MISMATCH, PaymentGatewayService } from '../services/payment-gateway.service';
+import { MockPaymentProvider, MOCK_SIGNATURE_HEADER } from '../services/payment-providers/mock.provider';
+
+const buildBooking = (payments: any[], overrides: any = {}): any => ({
+  paymentStatus: 'pending',
+  pricing: { totalAmount: 100000, currency: 'LAK' },
+  payments,
+  ...overrides
+});
+
+describe('MockPaymentProvider', () => {
+  const provider = new MockPaymentProvider('test-secret');
+  const rawBody = JSON.stringify({ id: 'evt_1', type: 'payment.completed', data: { intentId: 'mock_pi_1' } });
+
+  it('should accept webhooks signed with the shared secret', () => {
+    const headers = { [MOCK_SIGNATURE_HEADER]: provider.sign(rawBody) };
+
+    expect(provider.verifyWebhookSignature(rawBody, headers)).toBe(true);
+  });
+
+  it('should reject missing or tampered signatures', () => {
+    const tampered = rawBody.replace('completed', 'failed');
+
+    expect(provider.verifyWebhookSignature(rawBody, {})).toBe(false);
+    expect(provider.verifyWebhookSignature(tampered, { [MOCK_SIGNATURE_HEADER]: provider.sign(rawBody) })).toBe(false);
+  });
+
+  it('should parse webhook payloads into events', () => {
+    const event = provider.parseWebhook(JSON.parse(rawBody));
+
+    expect(event.eventId).toBe('evt_1');
+    expect(event.type).toBe('payment.completed');
+    expect(event.intentId).toBe('mock_pi_1');
+    expect(() => provider.parseWebhook({ id: 'evt_2' })).toThrow('Invalid webhook payload');
+  });
+});
+
+describe('PaymentGatewayService.updateBookingPaymentStatus', () => {
+  it('should mark bookings paid once completed payments cover the total', () => {
+    const booking = buildBooking([
+      { amount: 40000, status: 'completed' },
+      { amount: 60000, status: 'completed' }
+    ]);
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('paid');
+  });
+
+  it('should not count pending payments', () => {
+    const booking = buildBooking([{ amount: 100000, status: 'pending' }]);
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('pending');
+  });
+
+  it('should mark bookings partially paid while a balance remains', () => {
+    const booking = buildBooking([{ amount: 30000, status: 'completed' }]);
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+    expect(booking.paymentStatus).toBe('partially_paid');
+
+    booking.payments.push({ amount: 70000, status: 'completed' });
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+    expect(booking.paymentStatus).toBe('paid');
+  });
+
+  it('should mark bookings failed when every attempt failed', () => {
+    const booking = buildBooking([
+      { amount: 100000, status: 'failed' },
+      { amount: 100000, status: 'cancelled' }
+    ]);
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('failed');
+  });
+
+  it('should leave refunded bookings alone', () => {
+    const booking = buildBooking([{ amount: 100000, status: 'completed' }], { paymentStatus: 'refunded' });
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    expect(booking.paymentStatus).toBe('refunded');
+  });
+});
+
+describe('PaymentGatewayService settlement', () => {
+  const provider = new MockPaymentProvider('test-secret');
+  PaymentGatewayService.registerProvider(provider);
+
+  const withIntent = async () => {
+    const booking = buildBooking([], { _id: new Types.ObjectId(), bookingNumber: 'BK-1', userId: new Types.ObjectId(), history: [] });
+    const { payment } = await PaymentGatewayService.createIntent(booking, {
+      provider: 'mock',
+      paymentMethod: 'bank_transfer',
+      createdBy: new Types.ObjectId().toString()
+    });
+    return { booking, payment };
+  };
+
+  const webhook = (intentId: string, amount: number, currency = 'LAK') => {
+    const payload = { id: `evt_${intentId}_${amount}`, type: 'payment.completed', data: { intentId, amount, currency, transactionId: 'tx_1' } };
+    const rawBody = JSON.stringify(payload);
+    return { payload, rawBody, headers: { [MOCK_SIGNATURE_HEADER]: provider.sign(rawBody) } };
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should not open an intent for more than the outstanding balance', async () => {
+    const { booking } = await withIntent();
+    booking.payments![0].status = 'completed';
+    booking.payments![0].amount = 40000;
+    const params = { provider: 'mock', paymentMethod: 'bank_transfer' as const, createdBy: new Types.ObjectId().toString() };
+
+    await expect(PaymentGatewayService.createIntent(booking, { ...params, amount: 100000 }))
+      .rejects.toThrow('Payment amount exceeds the outstanding balance of 60000');
+    const { payment } = await PaymentGatewayService.createIntent(booking, { ...params, amount: 60000 });
+    expect(payment.amount).toBe(60000);
+  });
+
+  it('should only offer the mock provider outside production with a webhook secret configured', () => {
+    const env = { ...process.env };
+    const providersWith = (nodeEnv: string, secret?: string): string[] => {
+      process.env.NODE_ENV = nodeEnv;
+      if (secret) process.env.MOCK_PAYMENT_WEBHOOK_SECRET = secret;
+      else delete process.env.MOCK_PAYMENT_WEBHOOK_SECRET;
+
+      let providers: string[] = [];
+      jest.isolateModules(() => {
+        providers = require('../services/payment-gateway.service').PaymentGatewayService.listProviders();
+      });
+      return providers;
+    };
+
+    try {
+      expect(providersWith('development', 'dev-secret')).toContain('mock');
+      expect(providersWith('development')).not.toContain('mock');
+      expect(providersWith('production', 'dev-secret')).not.toContain('mock');
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('should complete a payment when the webhook settles the intent amount', async () => {
+    const { booking, payment } = await withIntent();
+    const { payload, rawBody, headers } = webhook(payment.intentId!, 100000);
+    const record = { _id: new Types.ObjectId(), save: jest.fn() };
+    jest.spyOn(PaymentWebhookEvent, 'create').mockResolvedValue(record as any);
+    jest.spyOn(Booking, 'findOne').mockResolvedValue(Object.assign(booking, { save: jest.fn() }));
+
+    const result = await PaymentGatewayService.handleWebhook('mock', rawBody, headers, payload);
+
+    expect(result.paymentStatus).toBe('paid');
+    expect(payment.status).toBe('completed');
+  });
+
+  it('should reject webhooks settling a different amount or currency', async () => {
+    const { booking, payment } = await withIntent();
+    jest.spyOn(PaymentWebhookEvent, 'create').mockResolvedValue({ _id: new Types.ObjectId(), save: jest.fn() } as any);
+    const release = jest.spyOn(PaymentWebhookEvent, 'deleteOne').mockResolvedValue({} as any);
+    jest.spyOn(Booking, 'findOne').mockResolvedValue(Object.assign(booking, { save: jest.fn() }));
+
+    for (const [amount, currency] of [[1000, 'LAK'], [100000, 'THB']] as const) {
+      const { payload, rawBody, headers } = webhook(payment.intentId!, amount, currency);
+      await expect(PaymentGatewayService.handleWebhook('mock', rawBody, headers, payload)).rejects.toThrow(PAYMENT_MISMATCH);
+    }
+
+    expect(release).toHaveBeenCalledTimes(2);
+    expect(payment.status).toBe('pending');
+    expect(booking.paymentStatus).toBe('pending');
+
+    // Nor can the provider's own record of the intent be completed by such an event
+    await PaymentGatewayService.verifyIntent(booking, payment.intentId!);
+    expect(payment.status).toBe('pending');
+  });
+
+  it('should reject verifications settling a different amount', async () => {
+    const { booking, payment } = await withIntent();
+    jest.spyOn(provider, 'verifyPayment').mockResolvedValue({
+      intentId: payment.intentId!, status: 'completed', amount: 1000, currency: 'LAK'
+    });
+
+    await expect(PaymentGatewayService.verifyIntent(booking, payment.intentId!)).rejects.toThrow(PAYMENT_MISMATCH);
+    expect(payment.status).toBe('pending');
+  });
+});
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Types } from 'mongoose';
+import Booking from '../models/Booking';
+import NotificationService from '../services/notificationService';
+import { PaymentSlipService } from '../services/payment-slip.service';
+
+const customerId = new Types.ObjectId().toString();
+const ownerId = new Types.ObjectId().toString();
+
+const buildBooking = () => new Booking({
+  bookingNumber: 'BK-100',
+  userId: customerId,
+  stadiumId: new Types.ObjectId(),
+  fieldId: new Types.ObjectId(),
+  bookingDate: new Date('2026-11-20'),
+  startTime: '18:00',
+  endTime: '19:00',
+  durationHours: 1,
+  pricing: { baseRate: 100000, totalAmount: 100000, currency: 'LAK' },
+  status: 'pending',
+  paymentStatus: 'pending'
+});
+
+// Stand in for Booking.findOne(...).select(...)
+const mockFindOne = (result: any) =>
+  jest.spyOn(Booking, 'findOne').mockReturnValue({ select: jest.fn().mockResolvedValue(result) } as any);
+
+describe('PaymentSlipService', () => {
+  let dir: string;
+  let slipPath: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'slips-'));
+    slipPath = path.join(dir, 'slip.jpg');
+    fs.writeFileSync(slipPath, 'transfer receipt');
+  });
+
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const submit = (booking: ReturnType<typeof buildBooking>, overrides: Record<string, any> = {}) =>
+    PaymentSlipService.submitSlip(booking, {
+      filePath: slipPath,
+      imageUrl: '/uploads/slips/slip.jpg',
+      amount: 100000,
+      submittedBy: customerId,
+      ...overrides
+    });
+
+  it('should attach an uploaded slip as a pending payment', async () => {
+    mockFindOne(null);
+    const booking = buildBooking();
+
+    const payment = await submit(booking, { transactionReference: 'BCEL-1' });
+
+    expect(payment).toMatchObject({ amount: 100000, currency: 'LAK', status: 'pending', transactionId: 'BCEL-1' });
+    expect(payment.slip).toMatchObject({
+      imageUrl: '/uploads/slips/slip.jpg',
+      imageHash: PaymentSlipService.hashFile(slipPath),
+      reviewStatus: 'pending'
+    });
+    expect(booking.paymentStatus).toBe('pending');
+    expect(booking.history).toHaveLength(1);
+  });
+
+  it('should refuse an image already used for a slip that was not rejected', async () => {
+    const findOne = mockFindOne({ bookingNumber: 'BK-099' });
+
+    await expect(submit(buildBooking())).rejects.toThrow('This payment slip was already submitted for booking BK-099');
+    expect(findOne).toHaveBeenCalledWith({
+      payments: { $elemMatch: { 'slip.imageHash': PaymentSlipService.hashFile(slipPath), 'slip.reviewStatus': { $ne: 'rejected' } } }
+    });
+  });
+
+  it('should flag a transfer of the same amount at the same time as a possible duplicate', async () => {
+    const transferredAt = new Date('2026-11-18T10:00:00Z');
+    const earlier = buildBooking();
+    earlier.payments!.push({
+      paymentMethod: 'bank_transfer', amount: 100000, currency: 'LAK', status: 'pending', createdAt: new Date(),
+      slip: { imageUrl: '/a.jpg', imageHash: 'other', transferredAt: new Date('2026-11-18T10:03:00Z'), reviewStatus: 'pending', submittedBy: new Types.ObjectId(), submittedAt: new Date() }
+    } as any);
+    jest.spyOn(Booking, 'findOne')
+      .mockReturnValueOnce({ select: jest.fn().mockResolvedValue(null) } as any)
+      .mockReturnValueOnce({ select: jest.fn().mockResolvedValue(earlier) } as any);
+
+    const payment = await submit(buildBooking(), { transferredAt });
+
+    expect(payment.slip?.possibleDuplicateOf?.toString()).toBe((earlier.payments![0] as any)._id.toString());
+  });
+
+  describe('reviewSlip', () => {
+    const withSlip = async () => {
+      mockFindOne(null);
+      const booking = buildBooking();
+      const payment = await submit(booking);
+      jest.restoreAllMocks();
+      jest.spyOn(booking, 'save').mockResolvedValue(booking);
+      const notify = jest.spyOn(NotificationService, 'sendPaymentSlipReviewed').mockResolvedValue();
+      return { booking, paymentId: (payment as any)._id.toString(), notify };
+    };
+
+    it('should mark the booking paid once the owner approves the slip', async () => {
+      const { booking, paymentId, notify } = await withSlip();
+
+      const payment = await PaymentSlipService.reviewSlip(booking, paymentId, { approve: true, reviewedBy: ownerId });
+
+      expect(payment.status).toBe('completed');
+      expect(payment.slip?.reviewStatus).toBe('approved');
+      expect(booking.paymentStatus).toBe('paid');
+      expect(booking.save).toHaveBeenCalled();
+      expect(notify).toHaveBeenCalledWith(booking, true, 100000, undefined);
+    });
+
+    it('should fail the payment when the slip is rejected, and only review it once', async () => {
+      const { booking, paymentId, notify } = await withSlip();
+
+      const payment = await PaymentSlipService.reviewSlip(booking, paymentId, { approve: false, reviewedBy: ownerId, reason: 'Unreadable' });
+
+      expect(payment.status).toBe('failed');
+      expect(payment.slip).toMatchObject({ reviewStatus: 'rejected', rejectionReason: 'Unreadable' });
+      expect(booking.paymentStatus).toBe('failed');
+      expect(notify).toHaveBeenCalledWith(booking, false, 100000, 'Unreadable');
+      await expect(PaymentSlipService.reviewSlip(booking, paymentId, { approve: true, reviewedBy: ownerId }))
+        .rejects.toThrow('Payment slip has already been reviewed. Current status: rejected');
+      await expect(PaymentSlipService.reviewSlip(booking, new Types.ObjectId().toString(), { approve: true, reviewedBy: ownerId }))
+        .rejects.toThrow('Payment slip not found');
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('should page through the stadium slips with the requested status', async () => {
+      const aggregate = jest.spyOn(Booking, 'aggregate').mockResolvedValue([{ slips: [{ bookingNumber: 'BK-100' }], total: [{ count: 41 }] }] as any);
+      const stadiumId = new Types.ObjectId().toString();
+
+      const queue = await PaymentSlipService.getReviewQueue(stadiumId, { status: 'pending', page: 2 });
+
+      expect(queue.slips).toEqual([{ bookingNumber: 'BK-100' }]);
+      expect(queue.pagination).toEqual({ page: 2, limit: 20, total: 41, pages: 3 });
+      const pipeline = aggregate.mock.calls[0][0] as any[];
+      expect(pipeline[0].$match.stadiumId.toString()).toBe(stadiumId);
+      expect(pipeline[2].$match['payments.slip.reviewStatus']).toBe('pending');
+      expect(pipeline[4].$facet.slips.slice(0, 2)).toEqual([{ $skip: 20 }, { $limit: 20 }]);
+    });
+
+    it('should answer an empty queue', async () => {
+      jest.spyOn(Booking, 'aggregate').mockResolvedValue([{ slips: [], total: [] }] as any);
+
+      const queue = await PaymentSlipService.getReviewQueue(new Types.ObjectId().toString());
+
+      expect(queue).toEqual({ slips: [], pagination: { page: 1, limit: 20, total: 0, pages: 0 } });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { PayoutService } from '../services/payout.service';
+
+const period = PayoutService.getMonthlyPeriod('2026-03');
+const stadium = { name: 'Test Stadium', serviceFeePercentage: 10 };
+
+const booking: any = {
+  _id: 'booking1',
+  bookingNumber: 'BK1',
+  bookingDate: new Date('2026-03-10T00:00:00Z'),
+  stadiumId: 'stadium1',
+  paymentStatus: 'partially_refunded',
+  pricing: {
+    totalAmount: 220000,
+    taxes: 20000,
+    currency: 'LAK',
+    discounts: [{ type: 'promo', code: 'SPRING', amount: 22000, fundedBy: 'platform' }]
+  },
+  payments: [
+    { amount: 220000, status: 'completed', processedAt: new Date('2026-03-01T00:00:00Z') },
+    { amount: -110000, status: 'completed', refundId: 'refund1', processedAt: new Date('2026-03-05T00:00:00Z') },
+    { amount: -55000, status: 'completed', refundId: 'refund2', processedAt: new Date('2026-04-05T00:00:00Z') }
+  ]
+};
+
+describe('Payout settlement', () => {
+  it('should default to the previous calendar month in local time', () => {
+    const previous = PayoutService.getMonthlyPeriod(undefined, new Date('2026-04-01T03:00:00Z'));
+    expect(previous.start).toEqual(new Date('2026-02-28T17:00:00Z'));
+    expect(previous.end).toEqual(new Date('2026-03-31T16:59:59.999Z'));
+  });
+
+  it('should charge the service fee on the retained amount excluding tax', () => {
+    const line = PayoutService.buildBookingLine(booking, stadium, period);
+
+    expect(line.paidAmount).toBe(220000);
+    expect(line.refundedAmount).toBe(110000);
+    expect(line.taxAmount).toBe(10000);
+    expect(line.serviceFee).toBe(10000);
+    expect(line.promoCredit).toBe(11000);
+    expect(line.netAmount).toBe(111000);
+  });
+
+  it('should settle late refunds as a negative adjustment', () => {
+    const line = PayoutService.buildAdjustmentLine(booking, stadium, PayoutService.getMonthlyPeriod('2026-04'));
+
+    expect(line?.type).toBe('refund_adjustment');
+    expect(line?.refundedAmount).toBe(55000);
+    expect(line?.serviceFee).toBe(-5000);
+    expect(line?.netAmount).toBe(-55500);
+    expect(PayoutService.buildAdjustmentLine(booking, stadium, PayoutService.getMonthlyPeriod('2026-05'))).toBeNull();
+  });
+
+  it('should export lines and totals as CSV', () => {
+    const lines = [PayoutService.buildBookingLine({ ...booking, bookingNumber: 'BK "1", late' }, stadium, period)];
+    const csv = PayoutService.toCSV({ lines, totals: PayoutService.summarize(lines), currency: 'LAK' });
+    const rows = csv.trim().split('\n');
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toContain('"BK ""1"", late"');
+    expect(rows[2]).toBe('total,,,,220000,110000,10000,,10000,11000,111000,LAK');
+  });
+});
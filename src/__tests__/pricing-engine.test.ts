@@ -0,0 +1,161 @@
+import { PricingEngine } from '../services/pricing-engine.service';
+import { IField } from '../models/Stadium';
+
+// 2025-06-02 is a Monday
+const buildField = (overrides: Partial<IField['pricing']> = {}, extra: Partial<IField> = {}): IField => ({
+  name: 'Field A',
+  fieldType: '11v11',
+  surfaceType: 'artificial_grass',
+  capacity: 22,
+  dimensions: { length: 100, width: 60 },
+  facilities: {} as IField['facilities'],
+  pricing: {
+    baseHourlyRate: 100000,
+    currency: 'LAK',
+    ...overrides
+  },
+  availabilitySchedule: [],
+  ...extra
+} as IField);
+
+describe('PricingEngine', () => {
+  it('should price at the base rate when no rules apply', () => {
+    const { durationHours, pricing } = PricingEngine.calculate({
+      field: buildField(),
+      bookingDate: '2025-06-02',
+      startTime: '10:00',
+      endTime: '12:00'
+    });
+
+    expect(durationHours).toBe(2);
+    expect(pricing.totalAmount).toBe(200000);
+    expect(pricing.baseRate).toBe(100000);
+    expect(pricing.lineItems?.length).toBe(1);
+    expect(pricing.lineItems?.[0].rateSource).toBe('base');
+  });
+
+  it('should split a booking that crosses into a pricing tier', () => {
+    const field = buildField({
+      pricingTiers: [{
+        name: 'Evening',
+        startTime: '18:00',
+        endTime: '22:00',
+        daysOfWeek: [1],
+        hourlyRate: 150000,
+        isActive: true
+      }]
+    });
+
+    const { pricing } = PricingEngine.calculate({ field, bookingDate: '2025-06-02', startTime: '17:00', endTime: '19:30' });
+    const fieldItems = pricing.lineItems?.filter(item => item.type === 'field') || [];
+
+    expect(fieldItems.length).toBe(2);
+    expect(fieldItems[0].total).toBe(100000);
+    expect(fieldItems[1].rateSource).toBe('pricing_tier');
+    expect(fieldItems[1].total).toBe(225000);
+    expect(pricing.totalAmount).toBe(325000);
+    expect(pricing.baseRate * 2.5).toBe(325000);
+  });
+
+  it('should prefer special dates over slot, tier and seasonal rates', () => {
+    const field = buildField({
+      seasonalRates: [{ season: 'Rainy', startDate: new Date('2025-05-01'), endDate: new Date('2025-09-30'), rate: 80000 }]
+    }, {
+      availabilitySchedule: [{
+        dayOfWeek: 1,
+        timeSlots: [{ startTime: '08:00', endTime: '22:00', isAvailable: true, hourlyRate: 90000 }]
+      }],
+      specialDates: [{
+        date: new Date('2025-06-02'),
+        reason: 'Final',
+        timeSlots: [{ startTime: '08:00', endTime: '22:00', isAvailable: true, specialRate: 200000 }]
+      }]
+    });
+
+    expect(PricingEngine.resolveRate(field, '2025-06-02', 600).source).toBe('special_date');
+    expect(PricingEngine.resolveRate(field, '2025-06-09', 600)).toEqual({ rate: 90000, source: 'time_slot' });
+    expect(PricingEngine.resolveRate(buildField(field.pricing), '2025-06-09', 600).source).toBe('seasonal');
+    expect(PricingEngine.resolveRate(buildField(field.pricing), '2025-10-06', 600).source).toBe('base');
+  });
+
+  it('should charge the holiday tier only on public holidays', () => {
+    const field = buildField({
+      pricingTiers: [
+        { name: 'holiday', startTime: '00:00', endTime: '23:59', daysOfWeek: [], hourlyRate: 180000, isActive: true },
+        { name: 'evening', startTime: '18:00', endTime: '22:00', daysOfWeek: [1], hourlyRate: 150000, isActive: true }
+      ]
+    });
+
+    const holiday = PricingEngine.calculate({ field, bookingDate: '2025-06-02', startTime: '18:00', endTime: '20:00', holiday: 'Children\'s Day' });
+    const regular = PricingEngine.calculate({ field, bookingDate: '2025-06-02', startTime: '18:00', endTime: '20:00' });
+
+    expect(holiday.pricing.lineItems?.[0].rateSource).toBe('holiday');
+    expect(holiday.pricing.lineItems?.[0].description).toContain('Children\'s Day');
+    expect(holiday.pricing.totalAmount).toBe(360000);
+    expect(regular.pricing.lineItems?.[0].rateSource).toBe('pricing_tier');
+    expect(regular.pricing.totalAmount).toBe(300000);
+  });
+
+  it('should apply referee charges, discounts, loyalty and exclusive tax in order', () => {
+    const { pricing } = PricingEngine.calculate({
+      field: buildField(),
+      bookingDate: '2025-06-02',
+      startTime: '10:00',
+      endTime: '11:00',
+      refereeCharges: [{ refereeName: 'Somchai', hours: 1, rate: 50000, total: 50000 } as any],
+      discounts: [{ type: 'fixed', value: 30000, description: 'Promo' }],
+      loyalty: { tier: 'Gold', discountPercentage: 10 },
+      tax: { rate: 10 }
+    });
+
+    expect(pricing.subtotal).toBe(150000);
+    expect(pricing.discounts?.map(d => d.amount)).toEqual([30000, 12000]);
+    expect(pricing.taxes).toBe(10800);
+    expect(pricing.totalAmount).toBe(118800);
+  });
+
+  it('should charge every field of a combined booking on its own line', () => {
+    const { durationHours, pricing } = PricingEngine.calculate({
+      field: buildField(),
+      additionalFields: [buildField({ baseHourlyRate: 80000 }, { name: 'Field B' })],
+      bookingDate: '2025-06-02',
+      startTime: '10:00',
+      endTime: '12:00'
+    });
+
+    expect(durationHours).toBe(2);
+    expect(pricing.lineItems?.map(item => item.total)).toEqual([200000, 160000]);
+    expect(pricing.lineItems?.[1].description).toContain('Field B');
+    expect(pricing.totalAmount).toBe(360000);
+    expect(pricing.baseRate * durationHours).toBe(360000);
+  });
+
+  it('should price a booking that ends at midnight', () => {
+    const field = buildField({
+      pricingTiers: [{
+        name: 'Late',
+        startTime: '23:00',
+        endTime: '24:00',
+        daysOfWeek: [1],
+        hourlyRate: 80000,
+        isActive: true
+      }]
+    });
+
+    const { durationHours, pricing } = PricingEngine.calculate({ field, bookingDate: '2025-06-02', startTime: '22:00', endTime: '00:00' });
+
+    expect(durationHours).toBe(2);
+    expect(pricing.lineItems?.map(item => item.total)).toEqual([100000, 80000]);
+    expect(pricing.totalAmount).toBe(180000);
+    expect(PricingEngine.getDurationHours('22:00', '00:00')).toBe(2);
+  });
+
+  it('should reject an end time before the start time', () => {
+    expect(() => PricingEngine.calculate({
+      field: buildField(),
+      bookingDate: '2025-06-02',
+      startTime: '12:00',
+      endTime: '10:00'
+    })).toThrow('End time must be after start time');
+  });
+});
@@ -0,0 +1,120 @@
+import { PricingEngine } from '../services/pricing-engine.service';
+import { PricingSuggestionService } from '../services/pricing-suggestion.service';
+import { IField } from '../models/Stadium';
+
+const FIELD_ID = '64b000000000000000000001';
+
+const buildField = (): IField => ({
+  _id: FIELD_ID,
+  name: 'Field A',
+  fieldType: '7v7',
+  surfaceType: 'artificial_grass',
+  pricing: { baseHourlyRate: 100000, currency: 'LAK', pricingTiers: [] },
+  availabilitySchedule: [1, 2].map(dayOfWeek => ({
+    dayOfWeek,
+    timeSlots: [{ startTime: '16:00', endTime: '22:00', isAvailable: true }]
+  }))
+} as any);
+
+// Four Mondays and Tuesdays, every week fully booked from 19:00 to 21:00
+const bookings = ['2025-06-02', '2025-06-03', '2025-06-09', '2025-06-10', '2025-06-16', '2025-06-17', '2025-06-23', '2025-06-24']
+  .map(date => ({ bookingDate: new Date(`${date}T00:00:00Z`), startTime: '19:00', endTime: '21:00' }));
+
+describe('PricingSuggestionService', () => {
+  it('should measure occupancy per open hour of the week', () => {
+    const cells = PricingSuggestionService.buildOccupancyGrid(buildField(), bookings, 4);
+
+    expect(cells.length).toBe(12);
+    expect(cells.find(c => c.dayOfWeek === 1 && c.hour === 19)?.occupancy).toBe(1);
+    expect(cells.find(c => c.dayOfWeek === 1 && c.hour === 16)?.occupancy).toBe(0);
+    expect(cells.find(c => c.dayOfWeek === 3)).toBeUndefined();
+  });
+
+  it('should raise busy hours and discount empty ones across matching days', () => {
+    const field = buildField();
+    const cells = PricingSuggestionService.buildOccupancyGrid(field, bookings, 4);
+    const suggestions = PricingSuggestionService.suggestForField(FIELD_ID, field, cells, new Date('2025-07-01T00:00:00Z'));
+
+    const peak = suggestions.find(s => s.type === 'peak');
+    expect(peak?.daysOfWeek).toEqual([1, 2]);
+    expect(peak?.startTime).toBe('19:00');
+    expect(peak?.endTime).toBe('21:00');
+    expect(peak?.suggestedRate).toBe(115000);
+    expect(peak?.revenueImpact.weeklyChange).toBeGreaterThan(0);
+
+    const offPeak = suggestions.filter(s => s.type === 'off_peak');
+    expect(offPeak.map(s => `${s.startTime}-${s.endTime}`)).toEqual(['16:00-19:00', '21:00-22:00']);
+    expect(offPeak[0].suggestedRate).toBe(85000);
+  });
+
+  it('should end a late evening tier at midnight in a form the pricing engine charges', () => {
+    const field = buildField();
+    field.availabilitySchedule?.forEach(schedule => { schedule.timeSlots[0].endTime = '24:00'; });
+    const lateBookings = bookings.map(booking => ({ ...booking, startTime: '22:00', endTime: '00:00' }));
+    const cells = PricingSuggestionService.buildOccupancyGrid(field, lateBookings, 4);
+    const suggestions = PricingSuggestionService.suggestForField(FIELD_ID, field, cells, new Date('2025-07-01T00:00:00Z'));
+
+    const peak = suggestions.find(s => s.type === 'peak');
+    expect(peak).toMatchObject({ startTime: '22:00', endTime: '00:00' });
+
+    field.pricing.pricingTiers = [{ name: 'custom', startTime: '22:00', endTime: '00:00', daysOfWeek: [1], hourlyRate: 115000, isActive: true }];
+    const { pricing } = PricingEngine.calculate({ field, bookingDate: '2025-06-02', startTime: '23:00', endTime: '00:00' });
+    expect(pricing.totalAmount).toBe(115000);
+    expect(pricing.lineItems?.[0].rateSource).toBe('pricing_tier');
+  });
+
+  it('should only measure the hours the field opens', () => {
+    const field = {
+      ...buildField(),
+      availabilitySchedule: [],
+      openingHours: [{ dayOfWeek: 3, openTime: '08:00', closeTime: '12:00', breaks: [{ startTime: '10:00', endTime: '11:00' }] }]
+    } as any;
+
+    const cells = PricingSuggestionService.buildOccupancyGrid(field, [], 4, new Date('2025-07-01T00:00:00Z'));
+
+    expect(cells.map(c => `${c.dayOfWeek}:${c.hour}`)).toEqual(['3:8', '3:9', '3:11']);
+  });
+
+  it('should assume default hours for fields without any schedule', () => {
+    const cells = PricingSuggestionService.buildOccupancyGrid({ ...buildField(), availabilitySchedule: [] } as any, [], 4);
+
+    expect(cells).toHaveLength(7 * 14);
+    expect(cells[0]).toMatchObject({ dayOfWeek: 0, hour: 8 });
+  });
+
+  it('should replace earlier suggested tiers for the same days and times and keep the rest', () => {
+    const field = buildField();
+    field.pricing.pricingTiers = [
+      { name: 'evening', startTime: '18:00', endTime: '22:00', daysOfWeek: [5], hourlyRate: 120000, isActive: true, source: 'manual' },
+      { name: 'custom', startTime: '16:00', endTime: '18:00', daysOfWeek: [1], hourlyRate: 90000, isActive: true, source: 'demand_suggestion' },
+      { name: 'custom', startTime: '19:00', endTime: '21:00', daysOfWeek: [1, 3], hourlyRate: 110000, isActive: true, source: 'demand_suggestion' },
+      { name: 'custom', startTime: '19:00', endTime: '21:00', daysOfWeek: [2], hourlyRate: 105000, isActive: true, source: 'demand_suggestion' }
+    ];
+
+    const updated = PricingSuggestionService.applySuggestions({ fields: [field] } as any, [{
+      fieldId: FIELD_ID,
+      daysOfWeek: [1, 2],
+      startTime: '19:00',
+      endTime: '21:00',
+      hourlyRate: 115000
+    }]);
+
+    expect(updated[FIELD_ID].map(t => [t.startTime, t.daysOfWeek, t.hourlyRate])).toEqual([
+      ['19:00', [1, 2], 115000],
+      ['16:00', [1], 90000],
+      ['19:00', [3], 110000],
+      ['18:00', [5], 120000]
+    ]);
+    expect(updated[FIELD_ID][0].source).toBe('demand_suggestion');
+  });
+
+  it('should reject suggestions for unknown fields', () => {
+    expect(() => PricingSuggestionService.applySuggestions({ fields: [buildField()] } as any, [{
+      fieldId: '64b000000000000000000099',
+      daysOfWeek: [1],
+      startTime: '19:00',
+      endTime: '21:00',
+      hourlyRate: 115000
+    }])).toThrow('Field not found');
+  });
+});
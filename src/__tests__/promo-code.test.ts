@@ -0,0 +1,77 @@
+import mongoose from 'mongoose';
+import { PromoCodeService } from '../services/promo-code.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+
+const stadiumId = new mongoose.Types.ObjectId();
+
+const buildPromo = (overrides: Record<string, any> = {}): any => ({
+  code: 'RAINY20',
+  discountType: 'percentage',
+  discountValue: 20,
+  fundedBy: 'stadium',
+  isActive: true,
+  validFrom: new Date('2025-06-01T00:00:00Z'),
+  validUntil: new Date('2025-06-30T23:59:59Z'),
+  usageCount: 0,
+  ...overrides
+});
+
+// 2025-06-02 is a Monday
+const context = {
+  stadiumId: stadiumId.toString(),
+  fieldType: '7v7',
+  bookingDate: '2025-06-02',
+  subtotal: 200000,
+  now: new Date('2025-06-02T08:00:00Z')
+};
+
+describe('PromoCodeService eligibility', () => {
+  it('should accept a code that meets every restriction', () => {
+    expect(() => PromoCodeService.assertEligible(buildPromo({
+      stadiumId,
+      minSpend: 150000,
+      fieldTypes: ['7v7'],
+      daysOfWeek: [1],
+      usageLimit: 10,
+      usageCount: 9
+    }), context)).not.toThrow();
+  });
+
+  it('should reject expired and inactive codes', () => {
+    expect(() => PromoCodeService.assertEligible(buildPromo(), { ...context, now: new Date('2025-07-01T00:00:00Z') }))
+      .toThrow('Promo code has expired');
+    expect(() => PromoCodeService.assertEligible(buildPromo({ isActive: false }), context))
+      .toThrow('Promo code is not active');
+  });
+
+  it('should reject codes for another stadium', () => {
+    expect(() => PromoCodeService.assertEligible(buildPromo({ stadiumId: new mongoose.Types.ObjectId() }), context))
+      .toThrow('Promo code is not valid for this stadium');
+  });
+
+  it('should enforce minimum spend, field type, day of week and usage cap', () => {
+    expect(() => PromoCodeService.assertEligible(buildPromo({ minSpend: 250000 }), context))
+      .toThrow('Promo code requires a minimum spend of 250000 LAK');
+    expect(() => PromoCodeService.assertEligible(buildPromo({ fieldTypes: ['11v11'] }), context))
+      .toThrow('Promo code is not valid for this field type');
+    expect(() => PromoCodeService.assertEligible(buildPromo({ daysOfWeek: [0, 6] }), context))
+      .toThrow('Promo code is not valid on this day');
+    expect(() => PromoCodeService.assertEligible(buildPromo({ usageLimit: 5, usageCount: 5 }), context))
+      .toThrow('Promo code usage limit reached');
+  });
+
+  it('should cap percentage discounts and record who funded them', () => {
+    const promo = buildPromo({ _id: new mongoose.Types.ObjectId(), maxDiscountAmount: 30000, fundedBy: 'platform' });
+    const { pricing } = PricingEngine.calculate({
+      field: { name: 'Field A', fieldType: '7v7', pricing: { baseHourlyRate: 100000, currency: 'LAK' } } as any,
+      bookingDate: '2025-06-02',
+      startTime: '18:00',
+      endTime: '20:00',
+      discounts: [PromoCodeService.toDiscountInput(promo)]
+    });
+
+    expect(pricing.totalAmount).toBe(170000);
+    expect(pricing.discounts?.[0].code).toBe('RAINY20');
+    expect(pricing.discounts?.[0].fundedBy).toBe('platform');
+  });
+});
@@ -0,0 +1,105 @@
+import { Types } from 'mongoose';
+import { RefundService } from '../services/refund.service';
+import { PaymentLedgerService } from '../services/payment-ledger.service';
+
+const customerId = new Types.ObjectId().toString();
+const ownerId = new Types.ObjectId().toString();
+
+// A cancelled booking paid in full by bank transfer
+const buildBooking = (overrides: any = {}): any => ({
+  status: 'cancelled',
+  paymentStatus: 'paid',
+  pricing: { totalAmount: 100000, currency: 'LAK' },
+  payments: [{ paymentMethod: 'bank_transfer', amount: 100000, currency: 'LAK', status: 'completed', createdAt: new Date() }],
+  refunds: [],
+  history: [],
+  cancellation: { cancelledAt: new Date(), refundAmount: 100000, refundStatus: 'not_applicable' },
+  ...overrides
+});
+
+describe('RefundService', () => {
+  it('should take a refund from request through approval to payout', () => {
+    const booking = buildBooking();
+
+    const refund = RefundService.requestRefund(booking, { amount: 40000, requestedBy: customerId });
+    expect(refund).toMatchObject({ amount: 40000, currency: 'LAK', status: 'requested' });
+    expect(booking.cancellation.refundStatus).toBe('requested');
+    expect(RefundService.getTotals(booking)).toEqual({ totalPaid: 100000, totalRefunded: 0, pendingRefunds: 40000, netPaid: 100000 });
+
+    RefundService.approveRefund(booking, refund._id!.toString(), ownerId);
+    expect(refund.status).toBe('approved');
+    expect(booking.cancellation.refundStatus).toBe('approved');
+    expect(booking.paymentStatus).toBe('paid');
+
+    RefundService.markPaidOut(booking, refund._id!.toString(), { transactionReference: 'TRX-1', processedBy: ownerId });
+    expect(refund).toMatchObject({ status: 'paid_out', paymentMethod: 'bank_transfer', transactionReference: 'TRX-1' });
+    expect(booking.payments[1]).toMatchObject({ amount: -40000, status: 'refunded', refundId: refund._id });
+    expect(booking.paymentStatus).toBe('partially_refunded');
+    expect(RefundService.getTotals(booking)).toEqual({ totalPaid: 100000, totalRefunded: 40000, pendingRefunds: 0, netPaid: 60000 });
+    expect(booking.history).toHaveLength(3);
+  });
+
+  it('should mark the booking refunded once the whole payment is paid back', () => {
+    const booking = buildBooking();
+
+    // Without an amount the refund quoted at cancellation is requested
+    const refund = RefundService.requestRefund(booking, { requestedBy: customerId });
+    RefundService.approveRefund(booking, refund._id!.toString(), ownerId);
+    RefundService.markPaidOut(booking, refund._id!.toString(), { paymentMethod: 'cash', processedBy: ownerId });
+
+    expect(refund.amount).toBe(100000);
+    expect(booking.paymentStatus).toBe('refunded');
+    expect(booking.cancellation.refundStatus).toBe('paid_out');
+  });
+
+  it('should release a rejected refund and only pay out approved ones', () => {
+    const booking = buildBooking();
+    const refund = RefundService.requestRefund(booking, { amount: 100000, requestedBy: customerId });
+    const refundId = refund._id!.toString();
+
+    expect(() => RefundService.markPaidOut(booking, refundId, { processedBy: ownerId }))
+      .toThrow('Only approved refunds can be paid out. Current status: requested');
+
+    RefundService.rejectRefund(booking, refundId, ownerId, 'Played the match');
+    expect(refund).toMatchObject({ status: 'rejected', rejectionReason: 'Played the match' });
+    expect(booking.cancellation.refundStatus).toBe('rejected');
+    expect(booking.paymentStatus).toBe('paid');
+    expect(() => RefundService.approveRefund(booking, refundId, ownerId)).toThrow('Current status: rejected');
+
+    // The rejected amount no longer counts against the refundable balance
+    expect(RefundService.requestRefund(booking, { amount: 100000, requestedBy: customerId }).status).toBe('requested');
+  });
+
+  it('should not refund more than was paid', () => {
+    const booking = buildBooking();
+
+    RefundService.requestRefund(booking, { amount: 70000, requestedBy: customerId });
+    expect(() => RefundService.requestRefund(booking, { amount: 40000, requestedBy: customerId }))
+      .toThrow('Refund amount exceeds the refundable balance of 30000');
+    expect(() => RefundService.requestRefund(booking, { amount: 0, requestedBy: customerId }))
+      .toThrow('Refund amount must be greater than zero');
+    expect(() => RefundService.requestRefund(buildBooking({ paymentStatus: 'pending', payments: [] }), { amount: 1, requestedBy: customerId }))
+      .toThrow('Refund amount exceeds the refundable balance of 0');
+    expect(() => RefundService.approveRefund(booking, new Types.ObjectId().toString(), ownerId)).toThrow('Refund not found');
+  });
+});
+
+describe('PaymentLedgerService', () => {
+  it('should only count completed payments towards the amount paid', () => {
+    const booking = buildBooking({
+      paymentStatus: 'partially_paid',
+      payments: [
+        { paymentMethod: 'bank_transfer', amount: 30000, status: 'completed' },
+        { paymentMethod: 'bank_transfer', amount: 70000, status: 'pending' }
+      ]
+    });
+
+    expect(PaymentLedgerService.getPaidAmount(booking)).toBe(30000);
+  });
+
+  it('should treat bookings marked paid without payment records as paid in full', () => {
+    expect(PaymentLedgerService.getPaidAmount(buildBooking({ payments: [] }))).toBe(100000);
+    expect(PaymentLedgerService.getPaidAmount(buildBooking({ payments: [], paymentStatus: 'partially_refunded' }))).toBe(100000);
+    expect(PaymentLedgerService.getPaidAmount(buildBooking({ payments: [], paymentStatus: 'pending' }))).toBe(0);
+  });
+});
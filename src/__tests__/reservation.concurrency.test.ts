@@ -0,0 +1,168 @@
+import mongoose from 'mongoose';
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import Booking from '../models/Booking';
+import SlotReservation from '../models/SlotReservation';
+import Stadium from '../models/Stadium';
+import { ReservationService } from '../services/reservation.service';
+import { SLOT_UNAVAILABLE } from '../services/slot-hold.service';
+
+jest.setTimeout(60000);
+
+const stadiumId = new mongoose.Types.ObjectId();
+const fieldId = new mongoose.Types.ObjectId();
+const bookingDate = new Date('2026-11-20');
+
+const buildBooking = (startTime: string, endTime: string, overrides: Record<string, any> = {}) => new Booking({
+  userId: new mongoose.Types.ObjectId(),
+  stadiumId,
+  fieldId,
+  bookingDate,
+  startTime,
+  endTime,
+  durationHours: 1,
+  pricing: { baseRate: 100000, totalAmount: 100000, currency: 'LAK' },
+  status: 'pending',
+  ...overrides
+});
+
+const fulfilled = (results: PromiseSettledResult<unknown>[]) => results.filter(r => r.status === 'fulfilled').length;
+
+describe('ReservationService.getMinutes', () => {
+  it('should cover a range up to, not including, its end', () => {
+    expect(ReservationService.getMinutes('18:00', '18:03')).toEqual([1080, 1081, 1082]);
+    expect(ReservationService.getMinutes('9:00', '9:02')).toEqual([540, 541]);
+  });
+
+  it('should run a range ending at 00:00 until midnight', () => {
+    const minutes = ReservationService.getMinutes('23:00', '00:00');
+
+    expect(minutes).toHaveLength(60);
+    expect(minutes[59]).toBe(1439);
+    expect(ReservationService.getMinutes('23:00', '24:00')).toEqual(minutes);
+  });
+});
+
+describe('Booking reservations under concurrency', () => {
+  let mongo: MongoMemoryServer;
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create();
+    await mongoose.connect(mongo.getUri());
+    // The guarantees rest on the unique indexes, so make sure they exist before racing
+    await Promise.all([Booking.init(), SlotReservation.init()]);
+  });
+
+  afterEach(async () => {
+    await Booking.deleteMany({});
+    await SlotReservation.deleteMany({});
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+  });
+
+  it('should let exactly one of many overlapping bookings through', async () => {
+    // Every range covers 19:15-19:20, none is identical to another
+    const ranges = [
+      ['18:00', '20:00'], ['19:00', '21:00'], ['17:00', '19:30'], ['19:15', '19:45'],
+      ['18:30', '19:20'], ['19:10', '22:00'], ['16:00', '23:00'], ['19:15', '19:20']
+    ];
+
+    const results = await Promise.allSettled(ranges.map(([start, end]) => buildBooking(start, end).save()));
+
+    expect(fulfilled(results)).toBe(1);
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        expect(result.reason.message).toBe(SLOT_UNAVAILABLE);
+      }
+    }
+
+    const winner = await Booking.findOne({ fieldId });
+    expect(await Booking.countDocuments({ fieldId })).toBe(1);
+    expect(await SlotReservation.countDocuments({ fieldId }))
+      .toBe(ReservationService.getMinutes(winner!.startTime, winner!.endTime).length);
+  });
+
+  it('should keep bookings on other fields and back-to-back slots independent', async () => {
+    const otherFieldId = new mongoose.Types.ObjectId();
+
+    const results = await Promise.allSettled([
+      buildBooking('18:00', '19:00').save(),
+      buildBooking('19:00', '20:00').save(),
+      buildBooking('17:00', '18:00').save(),
+      buildBooking('18:00', '19:00', { fieldId: otherFieldId }).save()
+    ]);
+
+    expect(fulfilled(results)).toBe(4);
+  });
+
+  it('should let only one of two concurrent reschedules into the same slot win', async () => {
+    const first = await buildBooking('16:00', '17:00').save();
+    const second = await buildBooking('21:00', '22:00').save();
+
+    first.startTime = '18:00';
+    first.endTime = '19:30';
+    second.startTime = '19:00';
+    second.endTime = '20:00';
+
+    const results = await Promise.allSettled([first.save(), second.save()]);
+    expect(fulfilled(results)).toBe(1);
+
+    // The loser keeps its original slot, both in the database and in its reservations
+    const loser = results[0].status === 'rejected' ? first : second;
+    const stored = await Booking.findById(loser._id);
+    const original = loser === first ? ['16:00', '17:00'] : ['21:00', '22:00'];
+    expect([stored!.startTime, stored!.endTime]).toEqual(original);
+    expect(await ReservationService.isAvailable(fieldId, bookingDate, original[0], original[1])).toBe(false);
+  });
+
+  it('should not let a full pitch and one of its halves be booked at the same time', async () => {
+    const halves = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+    const stadium = await Stadium.create({
+      ownerId: new mongoose.Types.ObjectId(),
+      name: 'Composed Stadium',
+      address: { city: 'Vientiane', coordinates: { type: 'Point', coordinates: [102.6, 17.97] } },
+      capacity: 100,
+      fields: [
+        { _id: fieldId, name: 'Full pitch', fieldType: '11v11', surfaceType: 'artificial_grass', pricing: { baseHourlyRate: 300000 }, composedOf: halves },
+        ...halves.map((_id, i) => ({ _id, name: `Half ${i + 1}`, fieldType: '7v7', surfaceType: 'artificial_grass', pricing: { baseHourlyRate: 150000 } }))
+      ]
+    });
+
+    const results = await Promise.allSettled([
+      buildBooking('18:00', '20:00', { stadiumId: stadium._id }).save(),
+      buildBooking('19:00', '20:00', { stadiumId: stadium._id, fieldId: halves[1] }).save()
+    ]);
+    expect(fulfilled(results)).toBe(1);
+
+    // The halves on their own, or booked together, do not overlap each other
+    await Booking.deleteMany({});
+    await SlotReservation.deleteMany({});
+    const together = await buildBooking('18:00', '20:00', { stadiumId: stadium._id, fieldId: halves[0], additionalFieldIds: [halves[1]] }).save();
+    expect(together.additionalFieldIds?.length).toBe(1);
+    expect(await ReservationService.isAvailable(fieldId, bookingDate, '19:00', '19:30')).toBe(false);
+
+    await Stadium.deleteMany({});
+  });
+
+  it('should free the slot once a booking is cancelled or deleted', async () => {
+    const cancelled = await buildBooking('18:00', '20:00').save();
+    const deleted = await buildBooking('20:00', '21:00').save();
+
+    expect(await ReservationService.isAvailable(fieldId, bookingDate, '19:00', '20:30')).toBe(false);
+
+    cancelled.status = 'cancelled';
+    await cancelled.save();
+    await Booking.findByIdAndDelete(deleted._id);
+
+    expect(await ReservationService.isAvailable(fieldId, bookingDate, '19:00', '20:30')).toBe(true);
+    expect(await SlotReservation.countDocuments({})).toBe(0);
+
+    const results = await Promise.allSettled([
+      buildBooking('18:30', '20:30').save(),
+      buildBooking('19:00', '21:00').save()
+    ]);
+    expect(fulfilled(results)).toBe(1);
+  });
+});
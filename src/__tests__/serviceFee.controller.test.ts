@@ -2,7 +2,6 @@ import { ServiceFeeController } from '../controllers/serviceFee.controller';
 import Booking from '../models/Booking';
 import Stadium from '../models/Stadium';
 import User from '../models/User';
-import moment from 'moment-timezone';
 
 // Mock the models
 jest.mock('../models/Booking');
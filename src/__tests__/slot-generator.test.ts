@@ -0,0 +1,64 @@
+import { IField } from '../models/Stadium';
+import { SlotGeneratorService } from '../services/slot-generator.service';
+
+// 2026-03-02 is a Monday
+const buildField = (extra: Partial<IField> = {}): IField => ({
+  name: 'Field A',
+  fieldType: '7v7',
+  surfaceType: 'artificial_grass',
+  pricing: { baseHourlyRate: 100000, currency: 'LAK' },
+  openingHours: [{
+    dayOfWeek: 1,
+    openTime: '08:00',
+    closeTime: '14:00',
+    breaks: [{ startTime: '11:00', endTime: '12:00' }]
+  }],
+  ...extra
+} as IField);
+
+const times = (slots: { startTime: string; endTime: string }[]) => slots.map(slot => `${slot.startTime}-${slot.endTime}`);
+
+describe('SlotGeneratorService', () => {
+  it('should cut opening hours into slots around breaks', () => {
+    const slots = SlotGeneratorService.generateSlots(buildField(), '2026-03-02');
+
+    expect(times(slots)).toEqual(['08:00-09:00', '09:00-10:00', '10:00-11:00', '12:00-13:00', '13:00-14:00']);
+    expect(slots[0].rate).toBe(100000);
+  });
+
+  it('should follow the requested duration and granularity', () => {
+    const slots = SlotGeneratorService.generateSlots(buildField(), '2026-03-02', { durationMinutes: 90, granularityMinutes: 30 });
+
+    expect(times(slots)).toEqual(['08:00-09:30', '08:30-10:00', '09:00-10:30', '09:30-11:00', '12:00-13:30', '12:30-14:00']);
+  });
+
+  it('should let special dates close the field or change its hours', () => {
+    const closed = buildField({ specialDates: [{ date: new Date('2026-03-02'), timeSlots: [], isClosed: true, reason: 'Holiday' }] });
+    const shortened = buildField({ specialDates: [{ date: new Date('2026-03-02'), timeSlots: [], openTime: '10:00', closeTime: '12:00' }] });
+
+    expect(SlotGeneratorService.generateSlots(closed, '2026-03-02')).toEqual([]);
+    expect(times(SlotGeneratorService.generateSlots(shortened, '2026-03-02'))).toEqual(['10:00-11:00', '11:00-12:00']);
+    expect(SlotGeneratorService.generateSlots(closed, '2026-03-09').length).toBe(5);
+  });
+
+  it('should fall back to hand-entered slots and check ranges against open periods', () => {
+    const field = buildField({
+      openingHours: [],
+      availabilitySchedule: [{
+        dayOfWeek: 1,
+        timeSlots: [
+          { startTime: '18:00', endTime: '20:00', isAvailable: true },
+          { startTime: '20:00', endTime: '22:00', isAvailable: false }
+        ]
+      }]
+    });
+
+    const slots = SlotGeneratorService.generateSlots(field, '2026-03-02');
+    expect(times(slots)).toEqual(['18:00-20:00', '20:00-22:00']);
+    expect(slots[1].isAvailable).toBe(false);
+
+    expect(SlotGeneratorService.isOpen(field, '2026-03-02', '18:30', '19:30')).toBe(true);
+    expect(SlotGeneratorService.isOpen(field, '2026-03-02', '19:30', '20:30')).toBe(false);
+    expect(SlotGeneratorService.isOpen(buildField(), '2026-03-02', '10:30', '11:30')).toBe(false);
+  });
+});
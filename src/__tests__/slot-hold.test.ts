@@ -0,0 +1,127 @@
+import { Types } from 'mongoose';
+import SlotHold from '../models/SlotHold';
+import { FieldRelationService } from '../services/field-relation.service';
+import { ReservationService } from '../services/reservation.service';
+import { SLOT_UNAVAILABLE, SlotHoldService } from '../services/slot-hold.service';
+
+const now = new Date('2026-03-02T03:00:00Z');
+const userId = new Types.ObjectId().toString();
+const fieldId = new Types.ObjectId().toString();
+
+const buildHold = (startTime: string, endTime: string, owner?: string) => ({
+  _id: new Types.ObjectId(),
+  startTime,
+  endTime,
+  userId: owner ? new Types.ObjectId(owner) : undefined,
+  expiresAt: new Date(now.getTime() + 5 * 60 * 1000)
+});
+
+// Stand in for SlotHold.find(...).select(...)
+const mockFind = (...results: any[][]) => {
+  const find = jest.spyOn(SlotHold, 'find');
+  for (const result of results) {
+    find.mockReturnValueOnce({ select: jest.fn().mockResolvedValue(result) } as any);
+  }
+  return find;
+};
+
+describe('SlotHoldService', () => {
+  it('should treat touching slots as free and partial overlaps as taken', () => {
+    const held = { startTime: '18:00', endTime: '20:00' };
+
+    expect(SlotHoldService.overlaps(held, { startTime: '19:00', endTime: '21:00' })).toBe(true);
+    expect(SlotHoldService.overlaps(held, { startTime: '17:00', endTime: '22:00' })).toBe(true);
+    expect(SlotHoldService.overlaps(held, { startTime: '20:00', endTime: '21:00' })).toBe(false);
+    expect(SlotHoldService.overlaps(held, { startTime: '16:00', endTime: '18:00' })).toBe(false);
+  });
+
+  it('should compare times by the minute, with or without a leading zero', () => {
+    expect(SlotHoldService.overlaps({ startTime: '9:00', endTime: '10:00' }, { startTime: '09:30', endTime: '11:00' })).toBe(true);
+    expect(SlotHoldService.overlaps({ startTime: '9:00', endTime: '10:00' }, { startTime: '10:00', endTime: '11:00' })).toBe(false);
+    expect(SlotHoldService.overlaps({ startTime: '8:00', endTime: '9:30' }, { startTime: '10:00', endTime: '12:00' })).toBe(false);
+    expect(SlotHoldService.overlaps({ startTime: '23:00', endTime: '00:00' }, { startTime: '23:30', endTime: '23:45' })).toBe(true);
+  });
+
+  it('should recognise a hold by its user or by its id', () => {
+    const userId = new Types.ObjectId();
+    const userHold: any = { _id: new Types.ObjectId(), userId };
+    const anonymousHold: any = { _id: new Types.ObjectId() };
+
+    expect(SlotHoldService.isOwnedBy(userHold, { userId: userId.toString() })).toBe(true);
+    expect(SlotHoldService.isOwnedBy(userHold, { userId: new Types.ObjectId().toString() })).toBe(false);
+    expect(SlotHoldService.isOwnedBy(anonymousHold, { holdId: anonymousHold._id.toString() })).toBe(true);
+    expect(SlotHoldService.isOwnedBy(anonymousHold, {})).toBe(false);
+  });
+
+  describe('holding slots', () => {
+    beforeEach(() => {
+      jest.spyOn(FieldRelationService, 'resolveRelatedIds').mockResolvedValue([fieldId]);
+      jest.spyOn(ReservationService, 'isAvailable').mockResolvedValue(true);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    const params = { stadiumId: new Types.ObjectId().toString(), fieldId, bookingDate: '2026-03-05', startTime: '9:00', endTime: '10:00', userId };
+
+    it('should hold a free slot until it expires, sweeping expired holds first', async () => {
+      const deleteMany = jest.spyOn(SlotHold, 'deleteMany').mockResolvedValue({} as any);
+      const create = jest.spyOn(SlotHold, 'create').mockImplementation(async (doc: any) => ({ _id: new Types.ObjectId(), ...doc }));
+      mockFind([], []);
+
+      const hold = await SlotHoldService.createHold(params, now);
+
+      expect(deleteMany).toHaveBeenCalledWith({ fieldId, bookingDate: new Date('2026-03-05'), expiresAt: { $lte: now } });
+      expect(create).toHaveBeenCalled();
+      expect(hold.expiresAt).toEqual(new Date(now.getTime() + 10 * 60 * 1000));
+    });
+
+    it('should only count unexpired holds of other customers as active', async () => {
+      const find = mockFind([buildHold('9:00', '10:00', userId), buildHold('10:00', '11:00')]);
+
+      const holds = await SlotHoldService.getActiveHolds(fieldId, '2026-03-05', { userId }, now);
+
+      expect(find).toHaveBeenCalledWith(expect.objectContaining({ expiresAt: { $gt: now } }));
+      expect(holds.map(hold => hold.startTime)).toEqual(['10:00']);
+    });
+
+    it('should refuse a slot that is booked, or held in part by someone else', async () => {
+      jest.spyOn(SlotHold, 'deleteMany').mockResolvedValue({} as any);
+      const create = jest.spyOn(SlotHold, 'create').mockImplementation(async (doc: any) => ({ _id: new Types.ObjectId(), ...doc }));
+      const deleteOne = jest.spyOn(SlotHold, 'deleteOne').mockResolvedValue({} as any);
+
+      // Held 09:30-10:30 by another customer
+      mockFind([], [buildHold('09:30', '10:30')]);
+      await expect(SlotHoldService.createHold(params, now)).rejects.toThrow(SLOT_UNAVAILABLE);
+      expect(deleteOne).toHaveBeenCalledTimes(1);
+
+      (ReservationService.isAvailable as jest.Mock).mockResolvedValue(false);
+      await expect(SlotHoldService.createHold(params, now)).rejects.toThrow(SLOT_UNAVAILABLE);
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up the customer\'s overlapping hold when they pick another slot', async () => {
+      const replaced = buildHold('8:30', '9:30', userId);
+      const deleteMany = jest.spyOn(SlotHold, 'deleteMany').mockResolvedValue({} as any);
+      jest.spyOn(SlotHold, 'create').mockImplementation(async (doc: any) => ({ _id: new Types.ObjectId(), ...doc }));
+      mockFind([replaced, buildHold('11:00', '12:00', userId)], []);
+
+      await SlotHoldService.createHold(params, now);
+
+      expect(deleteMany).toHaveBeenLastCalledWith({ _id: { $in: [replaced._id] } });
+    });
+
+    it('should remove the holds a new booking covers, and only the caller\'s', async () => {
+      const covered = buildHold('9:00', '10:00', userId);
+      const deleteMany = jest.spyOn(SlotHold, 'deleteMany').mockResolvedValue({} as any);
+      const find = mockFind([covered, buildHold('10:00', '11:00', userId)]);
+
+      await SlotHoldService.convertHolds(fieldId, '2026-03-05', '09:00', '10:00', { userId });
+
+      expect(find).toHaveBeenCalledWith({ fieldId: { $in: [fieldId] }, bookingDate: new Date('2026-03-05'), $or: [{ userId }] });
+      expect(deleteMany).toHaveBeenCalledWith({ _id: { $in: [covered._id] } });
+
+      await SlotHoldService.convertHolds(fieldId, '2026-03-05', '09:00', '10:00', {});
+      expect(find).toHaveBeenCalledTimes(1);
+    });
+  });
+});
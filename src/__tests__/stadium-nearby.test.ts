@@ -22,19 +22,14 @@ describe('StadiumController.getNearbyStadiums', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
   let mockNext: NextFunction;
-  let jsonResponse: any;
 
   beforeEach(() => {
-    jsonResponse = {};
     mockRequest = {
       query: {},
     };
     mockResponse = {
       status: jest.fn().mockReturnThis(),
-      json: jest.fn().mockImplementation((result) => {
-        jsonResponse = result;
-        return mockResponse;
-      }),
+      json: jest.fn().mockReturnThis(),
     };
     mockNext = jest.fn();
   });
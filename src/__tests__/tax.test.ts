@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { TaxService } from '../services/tax.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { InvoiceService } from '../services/invoice.service';
+
+const buildConfig = (overrides: Record<string, any> = {}): any => ({
+  _id: new mongoose.Types.ObjectId(),
+  scope: 'country',
+  country: 'laos',
+  name: 'VAT',
+  rate: 10,
+  inclusive: true,
+  exemptions: [],
+  isActive: true,
+  ...overrides
+});
+
+const field: any = { name: 'Field A', fieldType: '7v7', pricing: { baseHourlyRate: 110000, currency: 'LAK' } };
+
+describe('TaxService', () => {
+  it('should prefer an active stadium configuration over the country one', () => {
+    const resolved = TaxService.resolveTax({
+      stadium: buildConfig({ scope: 'stadium', rate: 7, inclusive: false }),
+      country: buildConfig()
+    });
+
+    expect(resolved.source).toBe('stadium');
+    expect(resolved.tax?.rate).toBe(7);
+    expect(resolved.tax?.inclusive).toBe(false);
+
+    const fallback = TaxService.resolveTax({ stadium: buildConfig({ scope: 'stadium', isActive: false }), country: buildConfig() });
+    expect(fallback.source).toBe('country');
+  });
+
+  it('should exempt owners whose tax ID is listed until the exemption expires', () => {
+    const country = buildConfig({
+      exemptions: [{ taxId: '123-456', reason: 'Small business', validUntil: new Date('2026-12-31T00:00:00Z') }]
+    });
+    const owner: any = { taxId: '123-456', businessName: 'Vientiane Sports' };
+
+    const exempt = TaxService.resolveTax({ country }, owner, new Date('2026-06-01T00:00:00Z'));
+    expect(exempt.tax?.rate).toBe(0);
+    expect(exempt.tax?.exemptionReason).toBe('Small business');
+    expect(exempt.tax?.sellerTaxId).toBe('123-456');
+
+    const expired = TaxService.resolveTax({ country }, owner, new Date('2027-01-01T00:00:00Z'));
+    expect(expired.tax?.rate).toBe(10);
+    expect(expired.tax?.exemptionReason).toBeUndefined();
+  });
+
+  it('should not charge tax without a configuration', () => {
+    expect(TaxService.resolveTax({}).tax).toBeUndefined();
+  });
+
+  it('should keep tax-inclusive totals unchanged on the invoice', () => {
+    const { tax } = TaxService.resolveTax({ country: buildConfig() }, { taxId: '987-654' } as any);
+    const { durationHours, pricing } = PricingEngine.calculate({
+      field,
+      bookingDate: '2025-06-02',
+      startTime: '18:00',
+      endTime: '20:00',
+      tax
+    });
+
+    expect(pricing.totalAmount).toBe(220000);
+    expect(pricing.taxes).toBe(20000);
+
+    const invoice = InvoiceService.generateInvoiceData(
+      { bookingNumber: 'B001', durationHours, pricing, fieldId: 'field1', payments: [] } as any,
+      { _id: 'stadium1', name: 'Test Stadium', address: { city: 'Vientiane' }, ownerId: 'owner1', fields: [] } as any,
+      { _id: 'customer1', firstName: 'John', lastName: 'Doe' } as any
+    );
+
+    expect(invoice.totalAmount).toBe(220000);
+    expect(invoice.tax?.taxableAmount).toBe(200000);
+    expect(invoice.stadium.taxId).toBe('987-654');
+  });
+});
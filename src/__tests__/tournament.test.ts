@@ -0,0 +1,277 @@
+import { Types } from 'mongoose';
+import Booking from '../models/Booking';
+import Stadium from '../models/Stadium';
+import Tournament from '../models/Tournament';
+import { HolidayService } from '../services/holiday.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { SLOT_UNAVAILABLE } from '../services/slot-hold.service';
+import { TaxService } from '../services/tax.service';
+import { TournamentBracketService } from '../services/tournament-bracket.service';
+import { TournamentService } from '../services/tournament.service';
+import AvailabilityService from '../utils/availability';
+
+describe('TournamentBracketService', () => {
+  const teams = (count: number) => Array.from({ length: count }, (_, i) => `t${i + 1}`);
+
+  it('should pair every team once per round-robin, with a bye for odd numbers', () => {
+    const fixtures = TournamentBracketService.roundRobin(teams(5));
+    const pairs = new Set(fixtures.map(f => [f.home, f.away].sort().join('-')));
+
+    expect(fixtures).toHaveLength(10);
+    expect(pairs.size).toBe(10);
+    expect(Math.max(...fixtures.map(f => f.round))).toBe(5);
+    expect(fixtures.map(f => f.matchNumber)).toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+  });
+
+  it('should swap home and away in the second leg', () => {
+    const fixtures = TournamentBracketService.roundRobin(teams(4), 2);
+
+    expect(fixtures).toHaveLength(12);
+    expect(fixtures[6]).toMatchObject({ round: 4, home: fixtures[0].away, away: fixtures[0].home });
+  });
+
+  it('should give the top seeds byes in a knockout bracket', () => {
+    const fixtures = TournamentBracketService.knockout(teams(6).map(teamId => ({ teamId })));
+
+    expect(fixtures).toHaveLength(5);
+    expect(fixtures.filter(f => f.round === 1).map(f => [f.home, f.away])).toEqual([['t4', 't5'], ['t3', 't6']]);
+    expect(fixtures.filter(f => f.round === 2)).toEqual([
+      expect.objectContaining({ home: 't1', awayFrom: 'W1' }),
+      expect.objectContaining({ home: 't2', awayFrom: 'W2' })
+    ]);
+    expect(fixtures[4]).toMatchObject({ round: 3, homeFrom: 'W3', awayFrom: 'W4' });
+  });
+
+  it('should keep group winners apart until the final', () => {
+    const { fixtures, groups } = TournamentBracketService.generate('groups_knockout', teams(8), { groupCount: 2, advancePerGroup: 2 });
+    const knockout = fixtures.filter(f => f.stage === 'knockout');
+
+    expect(groups).toEqual({ A: ['t1', 't4', 't5', 't8'], B: ['t2', 't3', 't6', 't7'] });
+    expect(fixtures.filter(f => f.stage === 'group')).toHaveLength(12);
+    expect(knockout.map(f => [f.homeFrom, f.awayFrom])).toEqual([['A1', 'B2'], ['B1', 'A2'], ['W13', 'W14']]);
+  });
+
+  it('should rank teams by points, goal difference and goals scored', () => {
+    const [a, b, c] = [new Types.ObjectId(), new Types.ObjectId(), new Types.ObjectId()];
+    const result = (home: Types.ObjectId, away: Types.ObjectId, homeScore: number, awayScore: number) =>
+      ({ matchNumber: 0, stage: 'league' as const, status: 'completed' as const, homeTeamId: home, awayTeamId: away, homeScore, awayScore });
+
+    const table = TournamentBracketService.getStandings(
+      [{ _id: a, name: 'Alpha', pointsAdjustment: 0 }, { _id: b, name: 'Bravo', pointsAdjustment: -3 }, { _id: c, name: 'Charlie', pointsAdjustment: 0 }],
+      [result(a, b, 1, 1), result(b, c, 3, 0), result(c, a, 2, 2)],
+      { win: 3, draw: 1, loss: 0 }
+    );
+
+    expect(table.map(row => [row.name, row.points])).toEqual([['Alpha', 2], ['Bravo', 1], ['Charlie', 1]]);
+    expect(table[1]).toMatchObject({ played: 2, won: 1, drawn: 1, goalDifference: 3 });
+  });
+
+  it('should settle level knockout matches on penalties', () => {
+    expect(TournamentBracketService.getWinner({ homeScore: 1, awayScore: 1, homePenalties: 3, awayPenalties: 4 })).toBe('away');
+    expect(TournamentBracketService.getWinner({ homeScore: 1, awayScore: 1 })).toBeNull();
+  });
+});
+
+describe('TournamentService', () => {
+  const now = new Date('2026-03-01T03:00:00Z');
+  const organizerId = new Types.ObjectId().toString();
+  const fieldId = new Types.ObjectId();
+
+  // Confirmed teams named after their seed, drawn in that order
+  const buildTournament = (format: 'league' | 'knockout', names: string[], overrides: Record<string, any> = {}) => {
+    const tournament = new Tournament({
+      name: 'Spring Cup',
+      stadiumId: new Types.ObjectId(),
+      organizerId,
+      format,
+      fieldIds: [fieldId],
+      startDate: new Date('2026-03-07'),
+      endDate: new Date('2026-03-07'),
+      teams: names.map(name => ({ name, captainId: new Types.ObjectId(), status: 'confirmed' })),
+      ...overrides
+    });
+    jest.spyOn(tournament, 'save').mockResolvedValue(tournament);
+    jest.spyOn(TournamentService, 'get').mockResolvedValue(tournament);
+    return tournament;
+  };
+
+  const teamName = (tournament: any, teamId?: Types.ObjectId) =>
+    tournament.teams.find((team: any) => String(team._id) === String(teamId))?.name;
+
+  const fixtureId = (tournament: any, matchNumber: number) =>
+    String(tournament.fixtures.find((fixture: any) => fixture.matchNumber === matchNumber)._id);
+
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('generateFixtures', () => {
+    it('should give every confirmed team one bye in a league of five', async () => {
+      const tournament = buildTournament('league', ['t1', 't2', 't3', 't4', 't5']);
+      tournament.teams.push({ name: 'late', captainId: new Types.ObjectId(), status: 'registered' } as any);
+
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+
+      expect(tournament.status).toBe('in_progress');
+      expect(tournament.fixtures).toHaveLength(10);
+      for (let round = 1; round <= 5; round++) {
+        const playing = tournament.fixtures
+          .filter(fixture => fixture.round === round)
+          .flatMap(fixture => [teamName(tournament, fixture.homeTeamId), teamName(tournament, fixture.awayTeamId)]);
+        expect(playing).toHaveLength(4);
+        expect(new Set(playing).size).toBe(4);
+      }
+      expect(tournament.fixtures.some(fixture => teamName(tournament, fixture.homeTeamId) === 'late' || teamName(tournament, fixture.awayTeamId) === 'late')).toBe(false);
+    });
+
+    it('should let the top seeds of an odd knockout skip the first round', async () => {
+      const tournament = buildTournament('knockout', ['t1', 't2', 't3', 't4', 't5']);
+
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+
+      const [first, ...later] = tournament.fixtures;
+      expect(tournament.fixtures).toHaveLength(4);
+      expect([teamName(tournament, first.homeTeamId), teamName(tournament, first.awayTeamId)]).toEqual(['t4', 't5']);
+      expect(later.map(fixture => [fixture.round, teamName(tournament, fixture.homeTeamId) || fixture.homeFrom, teamName(tournament, fixture.awayTeamId) || fixture.awayFrom]))
+        .toEqual([[2, 't1', 'W1'], [2, 't2', 't3'], [3, 'W2', 'W3']]);
+      await expect(TournamentService.generateFixtures(String(tournament._id), organizerId)).rejects.toThrow('Tournament is in progress');
+    });
+  });
+
+  describe('scheduleFixtures', () => {
+    // Open 18:00-21:00 on Saturdays, in one-hour matches
+    const stadium = {
+      _id: new Types.ObjectId(),
+      fields: [{ _id: fieldId, name: 'Field 1', pricing: { baseRate: 100000, currency: 'LAK' }, openingHours: [{ dayOfWeek: 6, openTime: '18:00', closeTime: '21:00' }] }]
+    };
+
+    beforeEach(() => {
+      jest.spyOn(Stadium, 'findById').mockResolvedValue(stadium as any);
+      jest.spyOn(TaxService, 'getTaxForStadium').mockResolvedValue({ tax: undefined } as any);
+      jest.spyOn(HolidayService, 'getCalendarDay').mockResolvedValue({ isClosed: false } as any);
+      jest.spyOn(PricingEngine, 'calculate').mockReturnValue({ pricing: { baseRate: 100000, totalAmount: 100000, currency: 'LAK' } } as any);
+    });
+
+    it('should skip slots taken by other bookings and leave what does not fit unscheduled', async () => {
+      const tournament = buildTournament('league', ['t1', 't2', 't3', 't4']);
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+      // 18:00 is already booked; 19:00 looks free but is taken by the time the booking is saved
+      const taken = new Set(['18:00']);
+      jest.spyOn(AvailabilityService, 'checkFieldAvailability').mockImplementation(async (_fieldId: any, _date: any, startTime: string) => !taken.has(startTime));
+      const save = jest.spyOn(Booking.prototype, 'save').mockImplementation(function (this: any) {
+        const raced = !taken.has('19:00');
+        taken.add(this.startTime);
+        return raced ? Promise.reject(new Error(SLOT_UNAVAILABLE)) : Promise.resolve(this);
+      });
+
+      const result = await TournamentService.scheduleFixtures(String(tournament._id), organizerId, undefined, now);
+
+      expect(save).toHaveBeenCalledTimes(2);
+      expect(result.scheduled).toHaveLength(1);
+      expect(result.scheduled[0]).toMatchObject({ matchNumber: 1, status: 'scheduled', startTime: '20:00', endTime: '21:00', fieldId });
+      expect(result.unscheduled).toEqual([
+        { matchNumber: 2, reason: 'No free slot before the tournament ends' },
+        ...[3, 4, 5, 6].map(matchNumber => ({ matchNumber, reason: 'Earlier round is not scheduled yet' }))
+      ]);
+    });
+  });
+
+  describe('recordResult', () => {
+    it('should send winners through the bracket and complete the tournament with the final', async () => {
+      const tournament = buildTournament('knockout', ['t1', 't2', 't3', 't4']);
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+      const record = (matchNumber: number, result: any) =>
+        TournamentService.recordResult(String(tournament._id), fixtureId(tournament, matchNumber), result, organizerId, undefined, now);
+
+      await expect(record(3, { homeScore: 1, awayScore: 0 })).rejects.toThrow('Match teams are not decided yet');
+      await expect(record(1, { homeScore: 2, awayScore: 2 })).rejects.toThrow('Knockout matches need a winner: enter the penalty shoot-out');
+
+      await record(1, { homeScore: 2, awayScore: 2, homePenalties: 3, awayPenalties: 5 });
+      await record(2, { homeScore: 0, awayScore: 1 });
+      const final = tournament.fixtures[2];
+      expect([teamName(tournament, final.homeTeamId), teamName(tournament, final.awayTeamId)]).toEqual(['t4', 't3']);
+      expect(tournament.status).toBe('in_progress');
+
+      const { fixture } = await record(3, { homeScore: 1, awayScore: 0 });
+      expect(teamName(tournament, fixture.winnerTeamId)).toBe('t4');
+      expect(fixture).toMatchObject({ status: 'completed', resultEnteredAt: now });
+      expect(tournament.status).toBe('completed');
+      await expect(record(1, { homeScore: 3, awayScore: 0 })).rejects.toThrow('Cannot change a result later matches depend on');
+    });
+
+    it('should not take a result before the match starts', async () => {
+      const tournament = buildTournament('league', ['t1', 't2']);
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+      Object.assign(tournament.fixtures[0], { status: 'scheduled', date: new Date('2026-03-07'), startTime: '18:00', endTime: '19:00' });
+
+      await expect(TournamentService.recordResult(String(tournament._id), fixtureId(tournament, 1), { homeScore: 1, awayScore: 0 }, organizerId, undefined, now))
+        .rejects.toThrow('Match has not started yet');
+    });
+  });
+
+  it('should rank level teams by goal difference, then goals scored, then name', async () => {
+    const tournament = buildTournament('league', ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Foxtrot', 'Echo']);
+    const teamId = (name: string) => tournament.teams.find(team => team.name === name)!._id;
+    const result = (matchNumber: number, home: string, away: string, homeScore: number, awayScore: number) =>
+      ({ matchNumber, stage: 'league', round: 1, status: 'completed', homeTeamId: teamId(home), awayTeamId: teamId(away), homeScore, awayScore });
+    tournament.status = 'in_progress';
+    tournament.fixtures.push(result(1, 'Alpha', 'Charlie', 3, 2) as any, result(2, 'Bravo', 'Delta', 1, 0) as any, result(3, 'Charlie', 'Delta', 0, 0) as any);
+
+    const { table } = TournamentService.getStandings(tournament);
+
+    expect(table!.map(row => [row.position, row.name, row.points, row.goalDifference, row.goalsFor])).toEqual([
+      [1, 'Alpha', 3, 1, 3],
+      [2, 'Bravo', 3, 1, 1],
+      [3, 'Charlie', 1, -1, 2],
+      [4, 'Delta', 1, -1, 0],
+      [5, 'Echo', 0, 0, 0],
+      [6, 'Foxtrot', 0, 0, 0]
+    ]);
+  });
+
+  describe('assignReferee', () => {
+    const bookingId = new Types.ObjectId();
+    const referee = (name: string, available: boolean) => ({
+      _id: new Types.ObjectId(),
+      name,
+      role: 'referee',
+      status: 'active',
+      rates: { hourlyRate: 50000 },
+      availability: [{ dayOfWeek: 6, startTime: '17:00', endTime: '22:00', isAvailable: available }]
+    });
+    const [somsak, khamla] = [referee('Somsak', true), referee('Khamla', false)];
+
+    const scheduled = async () => {
+      const tournament = buildTournament('league', ['t1', 't2']);
+      await TournamentService.generateFixtures(String(tournament._id), organizerId);
+      Object.assign(tournament.fixtures[0], { status: 'scheduled', bookingId, date: new Date('2026-03-07'), startTime: '18:00', endTime: '19:00' });
+
+      const booking = new Booking({ _id: bookingId, assignedStaff: [{ staffId: khamla._id, staffName: 'Khamla', role: 'referee' }] });
+      jest.spyOn(booking, 'save').mockResolvedValue(booking);
+      jest.spyOn(Booking, 'findById').mockResolvedValue(booking);
+      jest.spyOn(Stadium, 'findById').mockReturnValue({ select: jest.fn().mockResolvedValue({ staff: [somsak, khamla] }) } as any);
+      const assign = (staffId: Types.ObjectId | string) =>
+        TournamentService.assignReferee(String(tournament._id), fixtureId(tournament, 1), String(staffId), organizerId);
+      return { tournament, booking, assign };
+    };
+
+    it('should put an available referee on the match booking in place of the previous one', async () => {
+      const { booking, assign } = await scheduled();
+      const exists = jest.spyOn(Booking, 'exists').mockResolvedValue(null);
+
+      const fixture = await assign(somsak._id);
+
+      expect(fixture.referee).toMatchObject({ staffId: somsak._id, name: 'Somsak' });
+      expect(booking.assignedStaff).toHaveLength(1);
+      expect(booking.assignedStaff![0]).toMatchObject({ staffId: somsak._id, staffName: 'Somsak', role: 'referee' });
+      expect(exists).toHaveBeenCalledWith(expect.objectContaining({ _id: { $ne: bookingId }, 'assignedStaff.staffId': somsak._id, startTime: { $lt: '19:00' }, endTime: { $gt: '18:00' } }));
+    });
+
+    it('should refuse referees who are off, busy elsewhere or unknown', async () => {
+      const { assign } = await scheduled();
+      jest.spyOn(Booking, 'exists').mockResolvedValue({ _id: new Types.ObjectId() } as any);
+
+      await expect(assign(khamla._id)).rejects.toThrow('Referee is not available at that time');
+      await expect(assign(somsak._id)).rejects.toThrow('Referee is already assigned at that time');
+      await expect(assign(new Types.ObjectId())).rejects.toThrow('Referee not found');
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { Types } from 'mongoose';
+import Booking from '../models/Booking';
+import SlotHold from '../models/SlotHold';
+import Stadium from '../models/Stadium';
+import Waitlist from '../models/Waitlist';
+import { WaitlistService } from '../services/waitlist.service';
+import { SLOT_UNAVAILABLE, SlotHoldService } from '../services/slot-hold.service';
+import { HolidayService } from '../services/holiday.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { TaxService } from '../services/tax.service';
+import NotificationService from '../services/notificationService';
+import AvailabilityService from '../utils/availability';
+
+// The push service needs VAPID keys as soon as it is imported
+jest.mock('../services/push-notification.service', () => ({
+  PushNotificationService: { sendNotificationToUser: jest.fn() }
+}));
+
+const now = new Date('2026-03-07T03:00:00Z');
+const fieldId = new Types.ObjectId();
+const stadium = {
+  _id: new Types.ObjectId(),
+  name: 'Riverside',
+  fields: [{ _id: fieldId, name: 'Field 1', fieldType: '7v7', pricing: { baseRate: 100000, currency: 'LAK' } }]
+};
+
+const buildEntry = (userId = new Types.ObjectId()) => {
+  const entry = new Waitlist({
+    userId,
+    stadiumId: stadium._id,
+    fieldId,
+    bookingDate: new Date('2026-03-07'),
+    startTime: '18:00',
+    endTime: '20:00'
+  });
+  jest.spyOn(entry, 'save').mockResolvedValue(entry);
+  return entry;
+};
+
+// Stand in for Waitlist.find(...).sort(...)
+const sorted = (entries: any[]) => ({ sort: jest.fn().mockResolvedValue(entries) }) as any;
+
+describe('WaitlistService', () => {
+  let createHold: jest.SpyInstance;
+  let notify: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(Stadium, 'findById').mockResolvedValue(stadium as any);
+    jest.spyOn(HolidayService, 'findEntries').mockResolvedValue([]);
+    jest.spyOn(AvailabilityService, 'checkFieldAvailability').mockResolvedValue(true);
+    createHold = jest.spyOn(SlotHoldService, 'createHold')
+      .mockImplementation(async () => ({ _id: new Types.ObjectId(), expiresAt: new Date(now.getTime() + 30 * 60000) }) as any);
+    notify = jest.spyOn(NotificationService, 'sendWaitlistOffer').mockResolvedValue();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should only put users in line for a slot that is taken', async () => {
+    const params = { userId: new Types.ObjectId().toString(), stadiumId: stadium._id.toString(), fieldId: fieldId.toString(), bookingDate: '2026-03-07', startTime: '18:00', endTime: '20:00' };
+    jest.spyOn(Waitlist, 'exists').mockResolvedValue(null);
+    jest.spyOn(Waitlist, 'countDocuments').mockResolvedValue(2 as any);
+    const save = jest.spyOn(Waitlist.prototype, 'save').mockImplementation(function (this: any) { return Promise.resolve(this); });
+
+    await expect(WaitlistService.join(params, now)).rejects.toThrow('Time slot is available; book it directly');
+    expect(save).not.toHaveBeenCalled();
+
+    jest.spyOn(AvailabilityService, 'checkFieldAvailability').mockResolvedValue(false);
+    const { entry, position } = await WaitlistService.join(params, now);
+    expect(entry.status).toBe('waiting');
+    expect(position).toBe(3);
+  });
+
+  it('should store times zero-padded and a slot ending at midnight as 24:00', async () => {
+    const params = { userId: new Types.ObjectId().toString(), stadiumId: stadium._id.toString(), fieldId: fieldId.toString() };
+    jest.spyOn(AvailabilityService, 'checkFieldAvailability').mockResolvedValue(false);
+    const exists = jest.spyOn(Waitlist, 'exists').mockResolvedValue(null);
+    jest.spyOn(Waitlist, 'countDocuments').mockResolvedValue(0 as any);
+    jest.spyOn(Waitlist.prototype, 'save').mockImplementation(function (this: any) { return Promise.resolve(this); });
+
+    const morning = await WaitlistService.join({ ...params, bookingDate: '2026-03-08', startTime: '9:00', endTime: '10:00' }, now);
+    expect(morning.entry).toMatchObject({ startTime: '09:00', endTime: '10:00' });
+    expect(exists).toHaveBeenLastCalledWith(expect.objectContaining({ startTime: '09:00', endTime: '10:00' }));
+
+    const late = await WaitlistService.join({ ...params, bookingDate: '2026-03-07', startTime: '23:00', endTime: '00:00' }, now);
+    expect(late.entry).toMatchObject({ startTime: '23:00', endTime: '24:00' });
+
+    await expect(WaitlistService.join({ ...params, bookingDate: '2026-03-08', startTime: '10:00', endTime: '9:00' }, now))
+      .rejects.toThrow('End time must be after start time');
+  });
+
+  it('should look for entries overlapping a freed slot that ends at midnight', async () => {
+    const find = jest.spyOn(Waitlist, 'find').mockReturnValue(sorted([]));
+
+    await WaitlistService.offerFreedSlot({ stadiumId: stadium._id, fieldId, bookingDate: new Date('2026-03-07'), startTime: '23:00', endTime: '00:00' }, now);
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ startTime: { $lt: '24:00' }, endTime: { $gt: '23:00' } }));
+  });
+
+  it('should hold a freed slot for the first in line and tell them', async () => {
+    const first = buildEntry();
+    const second = buildEntry();
+    jest.spyOn(Waitlist, 'find').mockReturnValue(sorted([first, second]));
+    // The hold made for the first user takes the slot
+    createHold.mockImplementationOnce(async () => ({ _id: new Types.ObjectId(), expiresAt: new Date(now.getTime() + 30 * 60000) }) as any)
+      .mockRejectedValueOnce(new Error(SLOT_UNAVAILABLE));
+
+    const offered = await WaitlistService.offerFreedSlot({ stadiumId: stadium._id, fieldId, bookingDate: first.bookingDate, startTime: '18:00', endTime: '20:00' }, now);
+
+    expect(offered).toBe(1);
+    expect(first.status).toBe('offered');
+    expect(first.offers[0]).toMatchObject({ fieldId, status: 'pending', expiresAt: new Date(now.getTime() + 30 * 60000) });
+    expect(createHold).toHaveBeenCalledWith(expect.objectContaining({ fieldId: fieldId.toString(), userId: first.userId.toString(), holdMinutes: 30 }), now);
+    expect(notify).toHaveBeenCalledWith(first, expect.objectContaining({ token: first.offers[0].token }), 'Riverside', 'Field 1', expect.stringContaining(first.offers[0].token));
+    expect(second.status).toBe('waiting');
+  });
+
+  it('should pass an expired offer on to the next in line', async () => {
+    const holdId = new Types.ObjectId();
+    const lapsed = buildEntry();
+    lapsed.status = 'offered';
+    lapsed.offers.push({ fieldId, holdId, token: 'lapsed', offeredAt: new Date(now.getTime() - 40 * 60000), expiresAt: new Date(now.getTime() - 10 * 60000), status: 'pending' });
+    const next = buildEntry();
+    jest.spyOn(Waitlist, 'find')
+      .mockReturnValueOnce(Promise.resolve([lapsed]) as any)
+      .mockReturnValueOnce(sorted([next]))
+      .mockReturnValueOnce(Promise.resolve([]) as any);
+    const deleteHold = jest.spyOn(SlotHold, 'deleteOne').mockResolvedValue({} as any);
+
+    const result = await WaitlistService.sweep(now);
+
+    expect(result).toEqual({ expired: 1, offered: 1 });
+    expect(lapsed.status).toBe('expired');
+    expect(lapsed.offers[0]).toMatchObject({ status: 'expired', respondedAt: now });
+    expect(deleteHold).toHaveBeenCalledWith({ _id: holdId });
+    expect(next.status).toBe('offered');
+  });
+
+  describe('claimOffer', () => {
+    const holdId = new Types.ObjectId();
+
+    const withOffer = () => {
+      const entry = buildEntry();
+      entry.status = 'offered';
+      entry.offers.push({ fieldId, holdId, token: 'offer-token', offeredAt: now, expiresAt: new Date(now.getTime() + 30 * 60000), status: 'pending' });
+      jest.spyOn(Waitlist, 'findOne').mockResolvedValue(entry);
+      jest.spyOn(PricingEngine, 'getLoyaltyDiscount').mockResolvedValue(undefined);
+      jest.spyOn(TaxService, 'getTaxForStadium').mockResolvedValue({ tax: undefined } as any);
+      jest.spyOn(HolidayService, 'getCalendarDay').mockResolvedValue({ isClosed: false } as any);
+      jest.spyOn(PricingEngine, 'calculate').mockReturnValue({ durationHours: 2, pricing: { baseRate: 100000, totalAmount: 200000, currency: 'LAK' } } as any);
+      return entry;
+    };
+
+    it('should book the held slot for the user and only once', async () => {
+      const entry = withOffer();
+      jest.spyOn(Booking.prototype, 'save').mockImplementation(function (this: any) { return Promise.resolve(this); });
+      const convertHolds = jest.spyOn(SlotHoldService, 'convertHolds').mockResolvedValue();
+      const userId = entry.userId.toString();
+
+      const { booking } = await WaitlistService.claimOffer('offer-token', userId, now);
+
+      expect(booking).toMatchObject({ fieldId, startTime: '18:00', endTime: '20:00', durationHours: 2 });
+      expect(booking.pricing.totalAmount).toBe(200000);
+      expect(convertHolds).toHaveBeenCalledWith(fieldId, '2026-03-07', '18:00', '20:00', { userId, holdId: holdId.toString() });
+      expect(entry.status).toBe('booked');
+      expect(entry.bookingId).toBe(booking._id);
+      expect(entry.offers[0].status).toBe('claimed');
+      await expect(WaitlistService.claimOffer('offer-token', userId, now)).rejects.toThrow('Waitlist offer is claimed');
+    });
+
+    it('should refuse a claim once the slot is booked by someone else', async () => {
+      const entry = withOffer();
+      jest.spyOn(Booking.prototype, 'save').mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+
+      await expect(WaitlistService.claimOffer('offer-token', entry.userId.toString(), now)).rejects.toThrow(SLOT_UNAVAILABLE);
+      expect(entry.status).toBe('offered');
+    });
+
+    it('should refuse expired offers and other users', async () => {
+      const entry = withOffer();
+
+      await expect(WaitlistService.claimOffer('offer-token', entry.userId.toString(), new Date(now.getTime() + 31 * 60000)))
+        .rejects.toThrow('Waitlist offer is expired');
+      await expect(WaitlistService.claimOffer('offer-token', new Types.ObjectId().toString(), now))
+        .rejects.toThrow('Not authorized to claim this waitlist offer');
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import mongoose from 'mongoose';
+import { ReservationService } from '../services/reservation.service';
 
 const connectDB = async (): Promise<void> => {
   try {
@@ -27,6 +28,9 @@ const connectDB = async (): Promise<void> => {
 
     // Set up indexes after connection is established
     await createIndexes();
+
+    // Reserve upcoming bookings made before slot reservations existed
+    await backfillReservations();
     
     // Update monitoring service with connection info
   
@@ -188,6 +192,18 @@ const createIndexes = async (): Promise<void> => {
   }
 };
 
+const backfillReservations = async (): Promise<void> => {
+  try {
+    const { reserved, conflicts } = await ReservationService.backfill();
+    console.log(`📅 Slot reservations checked for ${reserved} upcoming bookings`);
+    if (conflicts.length > 0) {
+      console.warn(`⚠️ Overlapping bookings need attention: ${conflicts.join(', ')}`);
+    }
+  } catch (error: any) {
+    console.error('❌ Failed to backfill slot reservations:', error.message);
+  }
+};
+
 // Connection event handlers
 mongoose.connection.on('connected', () => {
   console.log('🔗 Mongoose connected to MongoDB Atlas');
@@ -151,6 +151,61 @@ const options: swaggerJsdoc.Options = {
                       currency: { type: 'string', default: 'LAK' },
                     },
                   },
+                  composedOf: {
+                    type: 'array',
+                    items: { type: 'string', format: 'ObjectId' },
+                    description: 'IDs of smaller fields on the same ground, e.g. an 11v11 pitch made of two 7v7 fields. Booking this field blocks them and booking any of them blocks this field.',
+                  },
+                  openingHours: {
+                    type: 'array',
+                    description: 'Weekly opening hours; bookable slots are generated from them. Days without an entry fall back to the hand-entered availabilitySchedule.',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        dayOfWeek: { type: 'integer', minimum: 0, maximum: 6 },
+                        openTime: { type: 'string', example: '08:00' },
+                        closeTime: { type: 'string', example: '23:00' },
+                        breaks: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              startTime: { type: 'string', example: '12:00' },
+                              endTime: { type: 'string', example: '13:00' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  specialDates: {
+                    type: 'array',
+                    description: 'Closures, holidays and other dates overriding the weekly hours',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        date: { type: 'string', format: 'date' },
+                        reason: { type: 'string' },
+                        isClosed: { type: 'boolean' },
+                        openTime: { type: 'string' },
+                        closeTime: { type: 'string' },
+                        breaks: { type: 'array', items: { type: 'object' } },
+                      },
+                    },
+                  },
+                  bookingRules: {
+                    type: 'object',
+                    description: 'Limits enforced on every booking of the field. Buffers are kept free around bookings in all availability results.',
+                    properties: {
+                      bufferBeforeMinutes: { type: 'integer', minimum: 0, default: 0 },
+                      bufferAfterMinutes: { type: 'integer', minimum: 0, default: 0 },
+                      minDurationMinutes: { type: 'integer', minimum: 1 },
+                      maxDurationMinutes: { type: 'integer', minimum: 1 },
+                      slotGranularityMinutes: { type: 'integer', minimum: 1, description: 'Bookings start and end on multiples of this, counted from midnight' },
+                      minLeadHours: { type: 'number', minimum: 0, description: 'Minimum hours between booking and kickoff' },
+                      maxAdvanceDays: { type: 'integer', minimum: 1, description: 'How many days ahead bookings can be made' },
+                    },
+                  },
                 },
               },
             },
@@ -184,6 +239,11 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
+            closedOnPublicHolidays: {
+              type: 'boolean',
+              default: false,
+              description: 'Close on the public holidays of the stadium\'s country; otherwise fields stay open at their holiday tier',
+            },
             ownerId: { type: 'string', format: 'ObjectId' },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' },
@@ -272,6 +332,11 @@ const options: swaggerJsdoc.Options = {
                   revenue: { type: 'number' }
                 }
               }
+            },
+            specialDays: {
+              type: 'array',
+              description: 'Holidays, blackouts and closures of the stadiums shown, one entry per day and stadium',
+              items: { $ref: '#/components/schemas/SpecialDay' }
             }
           }
         },
@@ -428,6 +493,11 @@ const options: swaggerJsdoc.Options = {
             userId: { type: 'string', format: 'ObjectId' },
             stadiumId: { type: 'string', format: 'ObjectId' },
             fieldId: { type: 'string', format: 'ObjectId' },
+            additionalFieldIds: {
+              type: 'array',
+              items: { type: 'string', format: 'ObjectId' },
+              description: 'Further fields booked together with fieldId',
+            },
             bookingDate: { type: 'string', format: 'date' },
             startTime: {
               type: 'string',
@@ -448,7 +518,7 @@ const options: swaggerJsdoc.Options = {
             },
             paymentStatus: {
               type: 'string',
-              enum: ['pending', 'paid', 'failed', 'refunded'],
+              enum: ['pending', 'partially_paid', 'paid', 'failed', 'refunded', 'partially_refunded'],
               default: 'pending',
             },
             bookingType: {
@@ -0,0 +1,159 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import moment from 'moment-timezone';
+import Stadium from '../models/Stadium';
+import {
+  ACCOUNTING_SCHEMA_VERSION,
+  ACCOUNTS,
+  AccountingExportService,
+  AccountingFormat,
+  AccountingReport,
+  AccountingWindow,
+  JOURNAL_COLUMNS,
+  LEDGER_COLUMNS
+} from '../services/accounting-export.service';
+
+export class AccountingController {
+  /**
+   * Column layouts and chart of accounts used by the exports
+   */
+  static async getSchemas(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: {
+          schemaVersion: ACCOUNTING_SCHEMA_VERSION,
+          accounts: Object.values(ACCOUNTS),
+          ledger: LEDGER_COLUMNS,
+          journal: JOURNAL_COLUMNS
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Double-entry journal of payments and refunds
+   */
+  static async exportJournal(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await AccountingController.exportReport(req, res, next, 'journal');
+  }
+
+  /**
+   * Flat ledger with one row per payment or refund
+   */
+  static async exportLedger(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await AccountingController.exportReport(req, res, next, 'ledger');
+  }
+
+  private static async exportReport(req: Request, res: Response, next: NextFunction, report: AccountingReport): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const userId = req.user?.userId as string;
+      const stadiumId = req.query.stadiumId as string | undefined;
+      const format = (req.query.format as AccountingFormat) || 'json';
+      const since = req.query.since as string | undefined;
+
+      if (since && (req.query.from || req.query.to)) {
+        res.status(400).json({ success: false, message: 'Use either since or from/to, not both' });
+        return;
+      }
+
+      const stadiumFilter: Record<string, unknown> = {};
+      if (req.user?.role !== 'superadmin') {
+        stadiumFilter.ownerId = userId;
+      }
+      if (stadiumId) {
+        stadiumFilter._id = stadiumId;
+      }
+      const stadiums = await Stadium.find(stadiumFilter).select('name serviceFeePercentage');
+
+      if (stadiumId && stadiums.length === 0) {
+        res.status(404).json({ success: false, message: 'Stadium not found' });
+        return;
+      }
+
+      let window: AccountingWindow;
+      if (since) {
+        // Incremental export: everything booked after the cursor of the previous run
+        const cursor = since === 'last'
+          ? await AccountingExportService.getLastCursor(userId, report, stadiumId)
+          : new Date(since);
+        const until = AccountingExportService.getIncrementalUntil();
+        window = {
+          from: cursor || undefined,
+          fromExclusive: true,
+          // A run right after the previous one exports nothing and keeps the cursor
+          until: cursor && cursor > until ? cursor : until
+        };
+      } else {
+        window = {
+          from: req.query.from ? moment.tz(req.query.from as string, 'Asia/Vientiane').toDate() : moment().tz('Asia/Vientiane').subtract(30, 'days').startOf('day').toDate(),
+          until: req.query.to ? moment.tz(req.query.to as string, 'Asia/Vientiane').endOf('day').toDate() : new Date()
+        };
+
+        if (window.from && window.from > window.until) {
+          res.status(400).json({ success: false, message: 'from must be before to' });
+          return;
+        }
+      }
+
+      const ledger = await AccountingExportService.buildLedger(stadiums, window);
+      const journal = report === 'journal' ? AccountingExportService.buildJournalLines(ledger) : [];
+      const rows = report === 'journal' ? journal : ledger;
+
+      await AccountingExportService.recordExport({
+        userId,
+        report,
+        stadiumId,
+        format,
+        window,
+        incremental: Boolean(since),
+        rowCount: rows.length
+      });
+
+      const cursor = window.until.toISOString();
+      const filename = `${report}-${moment(window.until).tz('Asia/Vientiane').format('YYYYMMDD-HHmmss')}`;
+      res.setHeader('X-Export-Cursor', cursor);
+      res.setHeader('X-Schema-Version', String(ACCOUNTING_SCHEMA_VERSION));
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.csv`);
+        res.send(report === 'journal'
+          ? AccountingExportService.toCSV(JOURNAL_COLUMNS, journal)
+          : AccountingExportService.toCSV(LEDGER_COLUMNS, ledger));
+        return;
+      }
+
+      if (format === 'xlsx') {
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.xlsx`);
+        res.send(report === 'journal'
+          ? AccountingExportService.toWorkbook('Journal', JOURNAL_COLUMNS, journal)
+          : AccountingExportService.toWorkbook('Ledger', LEDGER_COLUMNS, ledger));
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          schemaVersion: ACCOUNTING_SCHEMA_VERSION,
+          report,
+          from: window.from,
+          until: window.until,
+          cursor,
+          rows
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
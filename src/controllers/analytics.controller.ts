@@ -5,6 +5,7 @@ import Stadium from '../models/Stadium';
 import User from '../models/User';
 import moment from 'moment-timezone';
 import mongoose from 'mongoose';
+import { PricingSuggestionService } from '../services/pricing-suggestion.service';
 
 export class AnalyticsController {
   /**
@@ -1714,4 +1715,112 @@ export class AnalyticsController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Demand-based pricing tier suggestions for a stadium's fields
+   */
+  static async getPricingSuggestions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+        return;
+      }
+
+      const { stadiumId } = req.params;
+
+      const stadium = await Stadium.findById(stadiumId);
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found'
+        });
+        return;
+      }
+
+      if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to view pricing suggestions for this stadium'
+        });
+        return;
+      }
+
+      const suggestions = await PricingSuggestionService.getSuggestions(stadium, {
+        weeks: req.query.weeks ? parseInt(req.query.weeks as string, 10) : undefined,
+        fieldId: req.query.fieldId as string | undefined
+      });
+
+      res.json({
+        success: true,
+        data: {
+          stadiumId,
+          stadiumName: stadium.name,
+          ...suggestions
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Write accepted pricing suggestions into the fields' pricing tiers
+   */
+  static async applyPricingSuggestions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+        return;
+      }
+
+      const { stadiumId } = req.params;
+
+      const stadium = await Stadium.findById(stadiumId);
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found'
+        });
+        return;
+      }
+
+      if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to change pricing for this stadium'
+        });
+        return;
+      }
+
+      const pricingTiers = PricingSuggestionService.applySuggestions(stadium, req.body.suggestions);
+      stadium.markModified('fields');
+      await stadium.save();
+
+      res.json({
+        success: true,
+        message: 'Pricing suggestions applied',
+        data: {
+          stadiumId,
+          pricingTiers
+        }
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Field not found')) {
+        res.status(404).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+}
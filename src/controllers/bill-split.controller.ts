@@ -0,0 +1,270 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import { BillSplitService } from '../services/bill-split.service';
+import NotificationService from '../services/notificationService';
+import { AMOUNT_EXCEEDS_OUTSTANDING, PaymentGatewayService } from '../services/payment-gateway.service';
+
+// Errors from BillSplitService that are the caller's fault
+const SPLIT_CLIENT_ERRORS = [
+  'Invite at least one teammate',
+  'Every teammate needs a share amount',
+  'Shares exceed the booking total',
+  'Booking is already paid',
+  'Cannot change the split after teammates have paid',
+  'Cannot remove the split after teammates have paid',
+  'Booking has no bill split',
+  'Each teammate can only be invited once',
+  'Amount already paid exceeds the organizer\'s share'
+];
+
+const isSplitClientError = (message?: string): boolean =>
+  !!message && (
+    SPLIT_CLIENT_ERRORS.includes(message) ||
+    message.startsWith('Invalid phone number') ||
+    message.startsWith('Cannot split a') ||
+    message.startsWith('The team has only')
+  );
+
+export class BillSplitController {
+  /**
+   * Get the bill split of a booking. The organizer and staff see every participant's
+   * payment link; an invited player with an account sees their own share.
+   */
+  static async getSplit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const participant = booking.billSplit?.participants.find(p => p.userId?.toString() === req.user?.userId);
+      const isOrganizerOrStaff =
+        booking.userId.toString() === req.user?.userId ||
+        req.user?.role === 'superadmin' ||
+        req.user?.role === 'stadium_owner';
+
+      if (!isOrganizerOrStaff && !participant) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      if (!booking.billSplit) {
+        res.status(404).json({ success: false, message: 'Booking has no bill split' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: isOrganizerOrStaff
+          ? BillSplitService.getSplitView(booking)
+          : {
+            ...BillSplitService.getParticipantView(booking, participant!),
+            paymentLink: BillSplitService.getPaymentLink(participant!.token)
+          }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Split a booking between the organizer and invited teammates, replacing any
+   * previous split. New invitees are sent their payment link.
+   */
+  static async saveSplit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { bookingId } = req.params;
+      const { mode, participants } = req.body;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      if (booking.userId.toString() !== req.user?.userId && req.user?.role !== 'superadmin') {
+        res.status(403).json({ success: false, message: 'Only the organizer can split this booking' });
+        return;
+      }
+
+      const invited = await BillSplitService.saveSplit(booking, {
+        mode: mode || 'even',
+        invitees: participants.map((p: any) => ({
+          phone: String(p.phone),
+          name: p.name,
+          shareAmount: p.shareAmount !== undefined ? Number(p.shareAmount) : undefined
+        })),
+        createdBy: req.user?.userId as string
+      });
+      await booking.save();
+
+      for (const participant of invited) {
+        await NotificationService.sendBillSplitInvite(booking, participant, BillSplitService.getPaymentLink(participant.token));
+      }
+
+      res.json({
+        success: true,
+        message: 'Bill split saved',
+        data: BillSplitService.getSplitView(booking)
+      });
+    } catch (error: any) {
+      if (isSplitClientError(error.message)) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Remove the bill split of a booking while no teammate has paid
+   */
+  static async removeSplit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      if (booking.userId.toString() !== req.user?.userId && req.user?.role !== 'superadmin') {
+        res.status(403).json({ success: false, message: 'Only the organizer can remove the split' });
+        return;
+      }
+
+      BillSplitService.removeSplit(booking, req.user?.userId as string);
+      await booking.save();
+
+      res.json({ success: true, message: 'Bill split removed' });
+    } catch (error: any) {
+      if (isSplitClientError(error.message)) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * A participant's share, status and LAO QR, opened from their payment link.
+   * Unauthenticated; the token in the link is the credential.
+   */
+  static async getByToken(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const found = await BillSplitService.findByToken(req.params.token);
+      if (!found) {
+        res.status(404).json({ success: false, message: 'Payment link not found' });
+        return;
+      }
+
+      const { booking, participant } = found;
+
+      res.json({
+        success: true,
+        data: {
+          ...BillSplitService.getParticipantView(booking, participant),
+          qrCode: await BillSplitService.buildPaymentQR(booking, participant)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a gateway payment intent for a participant's outstanding share.
+   * Unauthenticated; the token in the link is the credential.
+   */
+  static async createIntent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const found = await BillSplitService.findByToken(req.params.token);
+      if (!found) {
+        res.status(404).json({ success: false, message: 'Payment link not found' });
+        return;
+      }
+
+      const { booking, participant } = found;
+      const { provider, paymentMethod, returnUrl } = req.body;
+
+      if (booking.status === 'cancelled') {
+        res.status(400).json({ success: false, message: 'Cannot pay for a cancelled booking' });
+        return;
+      }
+
+      const amount = BillSplitService.getAmountDue(booking, participant);
+      if (amount <= 0) {
+        res.status(400).json({ success: false, message: 'Your share is already paid' });
+        return;
+      }
+
+      const result = await PaymentGatewayService.createIntent(booking, {
+        provider,
+        paymentMethod,
+        amount,
+        idempotencyKey: req.get('Idempotency-Key') || undefined,
+        returnUrl,
+        participantId: String(participant._id),
+        createdBy: String(participant.userId || booking.userId)
+      });
+
+      if (!result.reused) {
+        await booking.save();
+      }
+
+      res.status(result.reused ? 200 : 201).json({
+        success: true,
+        message: result.reused ? 'Existing payment intent returned' : 'Payment intent created',
+        data: {
+          payment: result.payment,
+          checkoutUrl: result.intent?.checkoutUrl,
+          expiresAt: result.intent?.expiresAt,
+          amountDue: amount
+        }
+      });
+    } catch (error: any) {
+      if (
+        error.message?.startsWith('Unknown payment provider') ||
+        error.message?.startsWith(AMOUNT_EXCEEDS_OUTSTANDING) ||
+        error.message === 'Booking has no outstanding balance'
+      ) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+}
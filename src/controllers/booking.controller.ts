@@ -3,7 +3,7 @@ import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import Booking from '../models/Booking';
 
-import Stadium from '../models/Stadium';
+import Stadium, { IField } from '../models/Stadium';
 
 
 import moment from 'moment-timezone';
@@ -13,6 +13,22 @@ import AvailabilityService from '../utils/availability';
 import { InvoiceService } from '../services/invoice.service';
 import { QRCodeGenerator } from '../utils/qrCodeGenerator';
 import { MembershipService, MembershipBookingParams } from '../services/membership.service';
+import { CancellationPolicyService } from '../services/cancellation-policy.service';
+import { RefundService } from '../services/refund.service';
+import { PaymentGatewayService } from '../services/payment-gateway.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { PromoCodeService } from '../services/promo-code.service';
+import { TaxService } from '../services/tax.service';
+import { InvoiceRegistryService } from '../services/invoice-registry.service';
+import { DepositService } from '../services/deposit.service';
+import { BillSplitService } from '../services/bill-split.service';
+import { FieldRelationService } from '../services/field-relation.service';
+import { SlotGeneratorService } from '../services/slot-generator.service';
+import { HolidayService } from '../services/holiday.service';
+import { BookingRulesService } from '../services/booking-rules.service';
+import { SLOT_UNAVAILABLE, SlotHoldService } from '../services/slot-hold.service';
+import { SlotHoldController } from './slot-hold.controller';
+import { WaitlistService } from '../services/waitlist.service';
 
 export class BookingController {
   /**
@@ -29,7 +45,8 @@ export class BookingController {
         return;
       }
 
-      const { stadiumId, fieldId, bookingDate, startTime, endTime, teamInfo, specialRequests, bookingType } = req.body;
+      const { stadiumId, fieldId, bookingDate, startTime, endTime, teamInfo, specialRequests, bookingType, promoCode, holdId } = req.body;
+      const additionalFieldIds: string[] = req.body.additionalFieldIds || [];
 
       // Handle membership bookings differently
       if (bookingType === 'membership') {
@@ -58,7 +75,8 @@ export class BookingController {
       }
 
       const field = stadium.fields.find((f: any) => f._id?.toString() === fieldId);
-      if (!field) {
+      const additionalFields = additionalFieldIds.map(id => stadium.fields?.find((f: any) => f._id?.toString() === id));
+      if (!field || additionalFields.some(f => !f)) {
         res.status(404).json({
           success: false,
           message: 'Field not found'
@@ -66,37 +84,54 @@ export class BookingController {
         return;
       }
 
-      // Check availability
-      const existingBooking = await Booking.findOne({
-        fieldId,
-        bookingDate: new Date(bookingDate),
-        $or: [
-          {
-            $and: [
-              { startTime: { $lt: endTime } },
-              { endTime: { $gt: startTime } }
-            ]
-          }
-        ],
-        status: { $in: ['pending', 'confirmed'] }
+      // Fields booked together must cover separate ground, e.g. two 7v7 fields but not a pitch and its halves
+      const bookedFieldIds = [fieldId, ...additionalFieldIds];
+      if (new Set(bookedFieldIds).size !== bookedFieldIds.length || FieldRelationService.overlap(stadium.fields, bookedFieldIds)) {
+        res.status(400).json({
+          success: false,
+          message: 'Fields booked together must not overlap'
+        });
+        return;
+      }
+
+      // Every booked field's duration and lead time rules apply
+      [field, ...additionalFields].forEach(bookedField => {
+        BookingRulesService.validate(bookedField as IField, bookingDate, startTime, endTime);
       });
 
-      const isAvailable = !existingBooking;
+      // Holidays the stadium closes on, platform blackouts and the stadium's closures rule out the day
+      const holidays = await HolidayService.findEntries([stadium], bookingDate, bookingDate);
+      const calendarDays = bookedFieldIds.map(id => HolidayService.describeDay(holidays, stadium, bookingDate, id));
+      const closedDay = calendarDays.find(day => day.isClosed);
+      if (closedDay) {
+        res.status(400).json({
+          success: false,
+          message: `Field is closed on this day (${closedDay.reason})`
+        });
+        return;
+      }
 
-      if (!isAvailable) {
+      // Every booked field must be open for the whole time, as check-slot reports it
+      const closedField = [field, ...additionalFields].some((bookedField, i) =>
+        !SlotGeneratorService.isOpen(bookedField as IField, bookingDate, startTime, endTime, calendarDays[i]));
+      if (closedField) {
         res.status(400).json({
           success: false,
-          message: 'Time slot is already booked'
+          message: 'Requested time is outside field operating hours'
         });
         return;
       }
 
-      // Calculate pricing
-      const startMoment = moment(startTime, 'HH:mm');
-      const endMoment = moment(endTime, 'HH:mm');
-      const durationHours = endMoment.diff(startMoment, 'hours', true);
-      const baseRate = field.pricing?.baseHourlyRate || 0;
-      const baseAmount = baseRate * durationHours;
+      // Check availability; the reservation taken on save settles any race after this check
+      const holdOwner = { userId: req.user?.userId, holdId };
+      const isAvailable = await AvailabilityService.checkFieldAvailability(bookedFieldIds, bookingDate, startTime, endTime, null, holdOwner);
+
+      if (!isAvailable) {
+        await SlotHoldController.sendConflict(res, { stadium, fieldId, bookingDate, startTime, endTime, holdOwner });
+        return;
+      }
+
+      const durationHours = PricingEngine.getDurationHours(startTime, endTime);
 
       // Auto-assign referee if needed and available
       const assignedStaff = [];
@@ -136,30 +171,47 @@ export class BookingController {
         }
       }
 
-      const totalRefereeCharges = refereeCharges.reduce((sum: number, charge: any) => sum + charge.total, 0);
-      const totalAmount = baseAmount + totalRefereeCharges;
+      // Calculate pricing
+      const pricingParams = {
+        field,
+        additionalFields: additionalFields as IField[],
+        bookingDate,
+        startTime,
+        endTime,
+        refereeCharges,
+        loyalty: await PricingEngine.getLoyaltyDiscount(req.user?.userId as string),
+        tax: (await TaxService.getTaxForStadium(stadium)).tax,
+        holiday: calendarDays[0].holiday
+      };
 
-      // Generate booking number without using countDocuments
-      const timestamp = Date.now();
-      const randomSuffix = Math.floor(1000 + Math.random() * 9000);
-      const bookingNumber = `BK${timestamp}${randomSuffix}`;
+      // Promo code restrictions such as minimum spend are checked against the undiscounted price
+      const promo = promoCode
+        ? await PromoCodeService.resolve(promoCode, req.user?.userId as string, {
+            stadiumId,
+            fieldType: field.fieldType,
+            bookingDate,
+            subtotal: PricingEngine.calculate(pricingParams).pricing.subtotal || 0,
+            currency: field.pricing.currency
+          })
+        : null;
+
+      const { pricing } = PricingEngine.calculate({
+        ...pricingParams,
+        discounts: promo ? [PromoCodeService.toDiscountInput(promo)] : []
+      });
 
-      // Create booking
+      // Create booking; the booking number is assigned on save
       const booking = new Booking({
-        bookingNumber,
         userId: new mongoose.Types.ObjectId(req.user?.userId),
         stadiumId,
         fieldId,
+        ...(additionalFieldIds.length > 0 ? { additionalFieldIds } : {}),
         bookingDate: new Date(bookingDate),
         startTime,
         endTime,
         durationHours,
-        pricing: {
-          baseRate: baseRate,
-          totalAmount,
-          currency: 'LAK',
-          refereeCharges
-        },
+        pricing,
+        deposit: DepositService.calculateDeposit(stadium.depositPolicy, pricing.totalAmount, DepositService.getBookingStart(bookingDate, startTime)),
         bookingType: bookingType || 'regular',
         teamInfo,
         specialRequests: specialRequests || [],
@@ -172,7 +224,21 @@ export class BookingController {
         }]
       });
 
-      await booking.save();
+      if (promo) {
+        await PromoCodeService.redeem(promo, booking);
+      }
+
+      try {
+        await booking.save();
+      } catch (error) {
+        if (promo) {
+          await PromoCodeService.releaseRedemption(booking._id as mongoose.Types.ObjectId);
+        }
+        throw error;
+      }
+
+      // The customer's hold turns into the booking
+      await SlotHoldService.convertHolds(bookedFieldIds, bookingDate, startTime, endTime, holdOwner);
 
       res.status(201).json({
         success: true,
@@ -180,10 +246,26 @@ export class BookingController {
         data: booking
       });
     } catch (error: any) {
-      if (error.code === 11000) {
+      if (error.code === 11000 || error.message === SLOT_UNAVAILABLE) {
+        const { stadiumId, fieldId, bookingDate, startTime, endTime, holdId } = req.body;
+        const stadium = await Stadium.findById(stadiumId);
+        if (stadium) {
+          await SlotHoldController.sendConflict(res, {
+            stadium, fieldId, bookingDate, startTime, endTime,
+            holdOwner: { userId: req.user?.userId, holdId }
+          });
+          return;
+        }
+        res.status(409).json({
+          success: false,
+          message: SLOT_UNAVAILABLE
+        });
+        return;
+      }
+      if (error.message?.startsWith('Promo code') || BookingRulesService.isViolation(error)) {
         res.status(400).json({
           success: false,
-          message: 'Time slot is already booked'
+          message: error.message
         });
         return;
       }
@@ -216,7 +298,8 @@ export class BookingController {
         teamInfo, 
         specialRequests,
         recurrencePattern,
-        totalOccurrences
+        totalOccurrences,
+        planId
       } = req.body;
 
       // Validate required fields for membership booking
@@ -240,19 +323,29 @@ export class BookingController {
         userId: req.user?.userId || '',
         recurrencePattern,
         totalOccurrences,
+        planId,
         teamInfo,
         specialRequests
       };
 
-      // Create the membership bookings
-      const bookings = await MembershipService.createMembershipBookings(membershipParams);
+      // Create the membership series and book its free dates
+      const { series, bookings, conflicts } = await MembershipService.createSeries(membershipParams);
 
       res.status(201).json({
         success: true,
         message: `Membership bookings created successfully (${bookings.length} bookings)`,
-        data: bookings
+        data: bookings,
+        series,
+        conflicts
       });
     } catch (error: any) {
+      if (BookingRulesService.isViolation(error)) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
       next(error);
     }
   }
@@ -453,12 +546,11 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
       return;
     }
 
-    // Check ownership - allow general users to cancel their own bookings
+    // Customers cancel their own bookings; the stadium's owner and superadmins any booking of the stadium
     const isOwner = booking.userId.toString() === req.user?.userId;
-    const isSuperAdmin = req.user?.role === 'superadmin';
-    const isStadiumOwner = req.user?.role === 'stadium_owner';
-    
-    if (!isOwner && !isSuperAdmin && !isStadiumOwner) {
+    const canManage = await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role);
+
+    if (!isOwner && !canManage) {
       res.status(403).json({
         success: false,
         message: 'Not authorized to cancel this booking'
@@ -466,36 +558,18 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
       return;
     }
 
-    // Check if cancellation is allowed
-    const bookingDateTime = moment.tz(
-      `${booking.bookingDate.toISOString().split('T')[0]} ${booking.startTime}`,
-      'YYYY-MM-DD HH:mm',
-      'Asia/Vientiane'
-    );
-    const now = moment.tz('Asia/Vientiane');
-    const hoursUntilBooking = bookingDateTime.diff(now, 'hours');
-
-    // Allow stadium owners and superadmins to cancel anytime
-    const isPrivilegedUser = isStadiumOwner || isSuperAdmin;
-    
-    if (hoursUntilBooking < 24 && !isPrivilegedUser) {
+    // Evaluate the stadium's cancellation policy; only those managing the stadium skip its notice window
+    const quote = await CancellationPolicyService.getQuote(booking, { userRole: canManage ? req.user?.role : undefined });
+
+    if (!quote.allowed) {
       res.status(400).json({
         success: false,
-        message: 'Bookings can only be cancelled 24 hours in advance'
+        message: quote.reason
       });
       return;
     }
 
-    // Calculate refund
-    let refundAmount = 0;
-    if (booking.paymentStatus === 'paid') {
-      if (hoursUntilBooking >= 48) {
-        refundAmount = booking.pricing.totalAmount; // Full refund
-      } else if (hoursUntilBooking >= 24) {
-        refundAmount = booking.pricing.totalAmount * 0.5; // 50% refund
-      }
-      // No refund if less than 24 hours (for regular users)
-    }
+    const refundAmount = quote.refundAmount;
 
     // Update booking
     booking.status = 'cancelled';
@@ -504,9 +578,19 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
       cancelledBy: new mongoose.Types.ObjectId(req.user?.userId),
       reason: req.body.reason || 'User cancellation',
       refundAmount,
-      refundStatus: refundAmount > 0 ? 'pending' : 'not_applicable'
+      cancellationFee: quote.feeAmount,
+      refundStatus: refundAmount > 0 ? 'requested' : 'not_applicable'
     };
 
+    // Open a refund request for the owner to review
+    if (refundAmount > 0) {
+      RefundService.requestRefund(booking, {
+        amount: refundAmount,
+        reason: req.body.reason || 'Booking cancelled',
+        requestedBy: req.user?.userId as string
+      });
+    }
+
     booking.history.push({
       action: 'cancelled',
       changedBy: new mongoose.Types.ObjectId(req.user?.userId),
@@ -517,18 +601,70 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
 
     await booking.save();
 
+    // Give the promo code use back to the customer
+    await PromoCodeService.releaseRedemption(booking._id as mongoose.Types.ObjectId);
+
+    // Reverse the invoiced amount, less any cancellation fee the stadium keeps
+    const creditNote = await InvoiceRegistryService.issueCreditNote(booking, {
+      trigger: 'cancellation',
+      amount: booking.pricing.totalAmount - quote.feeAmount,
+      reason: req.body.reason || 'Booking cancelled',
+      issuedBy: req.user?.userId
+    });
+
+    // Offer the freed slot to users waiting for it
+    await WaitlistService.offerFreedSlot(booking);
+
     res.json({
       success: true,
       message: 'Booking cancelled successfully',
       data: {
         booking,
-        refundAmount
+        refundAmount,
+        cancellationFee: quote.feeAmount,
+        creditNote
       }
     });
   } catch (error) {
     next(error);
   }
 }
+
+  /**
+   * Preview the refund a cancellation would produce
+   */
+  static async getCancellationQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const isCustomer = booking.userId.toString() === req.user?.userId;
+      const canManage = await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role);
+      if (!isCustomer && !canManage) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      const quote = await CancellationPolicyService.getQuote(booking, { userRole: canManage ? req.user?.role : undefined });
+
+      res.json({
+        success: true,
+        data: quote
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
   /**
    * Confirm a booking (Admin only)
    */
@@ -611,7 +747,7 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
 
       const { bookingId } = req.params;
       const { paymentMethod, amount, transactionId, gatewayResponse, 
-              qrCodeData, accountNumber, accountName, generateQRCode } = req.body;
+              qrCodeData, accountNumber, accountName, generateQRCode, participantId } = req.body;
 
       if (!mongoose.isValidObjectId(bookingId)) {
         res.status(400).json({ success: false, message: 'Invalid booking ID' });
@@ -634,33 +770,56 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
         return;
       }
 
+      if (participantId && !BillSplitService.findParticipant(booking, participantId)) {
+        res.status(400).json({ success: false, message: 'Participant not found in the bill split' });
+        return;
+      }
+
       // Generate QR code if requested and payment method is QR code
+      // Falls back to the stadium's own bank account when none is given
       let finalQRCodeData = qrCodeData;
-      if (paymentMethod === 'qrcode' && generateQRCode && accountNumber) {
-        try {
-          finalQRCodeData = await QRCodeGenerator.generateBankTransferQR({
-            accountNumber,
-            accountName: accountName || '',
-            amount,
-            currency: booking.pricing.currency || 'LAK'
-          });
-        } catch (qrError) {
-          console.error('Failed to generate QR code:', qrError);
-          // Continue without QR code if generation fails
+      let qrAccountNumber = accountNumber;
+      let qrAccountName = accountName;
+      if (paymentMethod === 'qrcode' && generateQRCode) {
+        const qrStadium = await Stadium.findById(booking.stadiumId).select('bankAccountNumber bankAccountName bankCode address.city');
+        const useStadiumAccount = !accountNumber;
+        qrAccountNumber = accountNumber || qrStadium?.bankAccountNumber;
+        qrAccountName = accountName || (useStadiumAccount ? qrStadium?.bankAccountName : '') || '';
+
+        if (qrAccountNumber) {
+          try {
+            finalQRCodeData = await QRCodeGenerator.generateBankTransferQR({
+              accountNumber: qrAccountNumber,
+              accountName: qrAccountName || '',
+              bankCode: useStadiumAccount ? qrStadium?.bankCode : undefined,
+              amount,
+              currency: booking.pricing.currency || 'LAK',
+              reference: booking.bookingNumber,
+              merchantCity: qrStadium?.address?.city
+            });
+          } catch (qrError) {
+            console.error('Failed to generate QR code:', qrError);
+            // Continue without QR code if generation fails
+          }
         }
       }
 
+      // Only staff can record a settled payment directly; customer-submitted payments
+      // stay pending until a gateway webhook or the stadium owner confirms them
+      const isStaff = req.user?.role === 'superadmin' || req.user?.role === 'stadium_owner';
+
       const payment: IPayment = {
         paymentMethod,
         amount,
         currency: booking.pricing.currency || 'LAK',
-        status: 'completed',
+        status: isStaff ? 'completed' : 'pending',
         transactionId,
-        gatewayResponse,
+        gatewayResponse: isStaff ? gatewayResponse : undefined,
         // QR Code specific fields
         qrCodeData: finalQRCodeData || undefined,
-        accountNumber: accountNumber || undefined,
-        accountName: accountName || undefined,
+        accountNumber: qrAccountNumber || undefined,
+        accountName: qrAccountName || undefined,
+        participantId: participantId ? new mongoose.Types.ObjectId(participantId) : undefined,
         processedAt: new Date(),
         createdAt: new Date()
       };
@@ -671,12 +830,7 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
       booking.payments.push(payment);
 
       // Update payment status
-      const totalPaid = booking.payments.reduce((sum, p) => sum + p.amount, 0);
-      if (totalPaid >= booking.pricing.totalAmount) {
-        booking.paymentStatus = 'paid';
-      } else {
-        booking.paymentStatus = 'pending';
-      }
+      PaymentGatewayService.updateBookingPaymentStatus(booking);
 
       // Debug logging to understand the user object
       console.log('req.user:', req.user);
@@ -718,7 +872,9 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
         action: 'updated' as const,
         changedBy: changedByObjectId,
         newValues: { paymentStatus: booking.paymentStatus },
-        notes: `Payment of ${amount} ${booking.pricing.currency} received via ${paymentMethod}`,
+        notes: isStaff
+          ? `Payment of ${amount} ${booking.pricing.currency} received via ${paymentMethod}`
+          : `Payment of ${amount} ${booking.pricing.currency} via ${paymentMethod} submitted for confirmation`,
         timestamp: new Date()
       };
       
@@ -735,7 +891,7 @@ static async getAllBookings(req: Request, res: Response, next: NextFunction): Pr
 
       res.json({
         success: true,
-        message: 'Payment added successfully',
+        message: isStaff ? 'Payment added successfully' : 'Payment submitted and awaiting confirmation',
         data: booking
       });
     } catch (error) {
@@ -776,12 +932,19 @@ if (
 
 
       const payments = booking.payments || [];
-      const totalPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+      const { totalPaid, totalRefunded, pendingRefunds, netPaid } = RefundService.getTotals(booking);
+      // Balance still owed by the customer; nothing is due once the booking is cancelled
+      const amountDue = booking.status === 'cancelled' ? 0 : PaymentGatewayService.getOutstandingAmount(booking);
 
       res.json({
         success: true,
         data: payments,
-        totalPaid
+        totalPaid,
+        totalRefunded,
+        pendingRefunds,
+        netPaid,
+        amountDue,
+        deposit: DepositService.getDepositStatus(booking, totalPaid)
       });
     } catch (error) {
       next(error);
@@ -974,19 +1137,28 @@ if (
       }
 
       const dayOfWeek = requestedDate.day();
-      
-      // Get field schedule for the day
-      const daySchedule = field.availabilitySchedule?.find((schedule: any) => 
-        schedule.dayOfWeek === dayOfWeek
+      const specialDate = SlotGeneratorService.findSpecialDate(field, date);
+
+      // Slots come from the field's opening hours or hand-entered schedule for the day
+      const { availableSlots, unavailableSlots, calendarDay, summary } = await AvailabilityService.getComprehensiveAvailability(
+        fieldId,
+        date,
+        field,
+        { userId: req.user?.userId }
       );
 
-      if (!daySchedule) {
+      if (summary.totalSlots === 0) {
+        // Calendar closures explain the day before the field's own special dates
+        const closedReason = calendarDay.isClosed ? calendarDay.reason : specialDate?.isClosed ? specialDate.reason : undefined;
         res.json({
           success: true,
-          message: 'No schedule available for this day of the week',
+          message: calendarDay.isClosed || specialDate?.isClosed
+            ? `Field is closed on this day${closedReason ? ` (${closedReason})` : ''}`
+            : 'No schedule available for this day of the week',
           data: {
             date: date,
             dayOfWeek: dayOfWeek,
+            calendarDay,
             fieldInfo: {
               name: field.name,
               type: field.fieldType,
@@ -1000,62 +1172,6 @@ if (
         return;
       }
 
-      // Check for special dates
-      const specialDate = field.specialDates?.find((special: any) => 
-        moment(special.date).isSame(requestedDate, 'day')
-      );
-
-      const timeSlots = specialDate ? specialDate.timeSlots : daySchedule.timeSlots;
-
-      // Get existing bookings for the date
-      const existingBookings = await Booking.find({
-        fieldId,
-        bookingDate: new Date(date),
-        status: { $in: ['pending', 'confirmed'] }
-      }).select('startTime endTime status');
-
-      const availableSlots: any[] = [];
-      const unavailableSlots: any[] = [];
-
-      // Process each time slot
-      for (const slot of timeSlots) {
-        const slotData = {
-          startTime: slot.startTime,
-          endTime: slot.endTime,
-          rate: (slot as any).specialRate || field.pricing.baseHourlyRate,
-          currency: field.pricing.currency || 'LAK'
-        };
-
-        // Check if slot is marked as unavailable in schedule
-        if (!slot.isAvailable) {
-          unavailableSlots.push({
-            ...slotData,
-            reason: 'Not available in schedule',
-            status: 'schedule_unavailable'
-          });
-          continue;
-        }
-
-        // Check for booking conflicts
-        const conflictingBooking = existingBookings.find(booking => 
-          (booking.startTime < slot.endTime && booking.endTime > slot.startTime)
-        );
-
-        if (conflictingBooking) {
-          unavailableSlots.push({
-            ...slotData,
-            reason: `Already booked (${conflictingBooking.status})`,
-            status: 'booked',
-            bookingStatus: conflictingBooking.status
-          });
-        } else {
-          availableSlots.push({
-            ...slotData,
-            status: 'available'
-          });
-        }
-      }
-
       // Get available referees for this time
       const availableReferees = stadium.staff ? await AvailabilityService.getAvailableReferees(
         stadium.staff,
@@ -1084,11 +1200,8 @@ if (
           },
           availableSlots: availableSlots,
           unavailableSlots: unavailableSlots,
-          summary: {
-            totalSlots: timeSlots.length,
-            availableCount: availableSlots.length,
-            unavailableCount: unavailableSlots.length
-          },
+          summary,
+          calendarDay,
           availableReferees: availableReferees,
           specialDateInfo: specialDate ? {
             isSpecialDate: true,
@@ -1169,8 +1282,10 @@ if (
         stadium = booking.stadiumId as any;
       }
 
-      // Generate invoice data using the InvoiceService
-      const invoiceData = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      // Generate invoice data using the InvoiceService, numbered on first issue
+      const draft = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      const issued = await InvoiceRegistryService.issueInvoice(booking as any, stadium.ownerId.toString(), draft);
+      const invoiceData = await InvoiceService.renderPaymentQR(InvoiceService.applyIssuedNumber(draft, issued));
 
       res.json({
         success: true,
@@ -1257,8 +1372,10 @@ if (
         stadium = booking.stadiumId as any;
       }
 
-      // Generate invoice data using the InvoiceService
-      const invoiceData = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      // Generate invoice data using the InvoiceService, numbered on first issue
+      const draft = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      const issued = await InvoiceRegistryService.issueInvoice(booking as any, stadium.ownerId.toString(), draft);
+      const invoiceData = await InvoiceService.renderPaymentQR(InvoiceService.applyIssuedNumber(draft, issued));
 
       // Send invoice via email
       const notificationService = require('../services/notificationService').default;
@@ -1291,10 +1408,9 @@ if (
       }
 
       // Validate that end time is after start time
-      const startMoment = moment(startTime as string, 'HH:mm');
-      const endMoment = moment(endTime as string, 'HH:mm');
-      
-      if (!endMoment.isAfter(startMoment)) {
+      const duration = PricingEngine.getDurationHours(startTime as string, endTime as string);
+
+      if (duration <= 0) {
         res.status(400).json({
           success: false,
           message: 'End time must be after start time'
@@ -1338,10 +1454,11 @@ if (
         fieldId,
         date as string,
         startTime as string,
-        endTime as string
+        endTime as string,
+        null,
+        { userId: req.user?.userId }
       );
 
-      const duration = endMoment.diff(startMoment, 'hours', true);
       const rate = field.pricing.baseHourlyRate;
       const total = rate * duration;
 
@@ -1367,7 +1484,7 @@ if (
             isAvailable: false,
             reason: conflictingBooking 
               ? `Time slot conflicts with existing ${conflictingBooking.status} booking` 
-              : 'Time slot is not available',
+              : 'Time slot is temporarily held by another customer',
             pricing: {
               rate,
               duration,
@@ -1379,18 +1496,14 @@ if (
         return;
       }
 
-      // Check if slot is within field's operating hours
-      const dayOfWeek = moment(date as string).day();
-      const daySchedule = field.availabilitySchedule?.find((schedule: any) => 
-        schedule.dayOfWeek === dayOfWeek
-      );
-
-      if (!daySchedule) {
+      // Check if slot is within the field's opening hours, closures and holidays included
+      const calendarDay = await HolidayService.getCalendarDay(stadium, date as string, fieldId as string);
+      if (SlotGeneratorService.getOpenPeriods(field, date as string, calendarDay).length === 0) {
         res.json({
           success: true,
           data: {
             isAvailable: false,
-            reason: 'Field is not open on this day',
+            reason: calendarDay.isClosed ? `Field is closed on this day (${calendarDay.reason})` : 'Field is not open on this day',
             pricing: {
               rate,
               duration,
@@ -1402,14 +1515,8 @@ if (
         return;
       }
 
-      // Check if the requested time falls within any available slot
-      const isWithinOperatingHours = daySchedule.timeSlots.some((slot: any) => 
-        slot.isAvailable &&
-        slot.startTime <= (startTime as string) &&
-        slot.endTime >= (endTime as string)
-      );
-
-      if (!isWithinOperatingHours) {
+      // Check if the requested time falls within one open period
+      if (!SlotGeneratorService.isOpen(field, date as string, startTime as string, endTime as string, calendarDay)) {
         res.json({
           success: true,
           data: {
@@ -1529,6 +1636,11 @@ if (
       // Delete the booking permanently
       await Booking.findByIdAndDelete(bookingId);
 
+      // Offer the freed slot to users waiting for it
+      if (booking.status !== 'cancelled') {
+        await WaitlistService.offerFreedSlot(booking);
+      }
+
       res.json({
         success: true,
         message: 'Booking deleted successfully'
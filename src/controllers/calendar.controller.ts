@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import { CalendarService } from '../services/calendar.service';
+import { BookingRulesService } from '../services/booking-rules.service';
 import moment from 'moment';
 import mongoose from 'mongoose';
 
@@ -365,7 +366,8 @@ static async getAdminCalendarEvents(req: Request, res: Response, next: NextFunct
         date.toDate(),
         newStartTime as string,
         newEndTime as string,
-        req.user?.userId as string
+        req.user?.userId as string,
+        req.user?.role
       );
       
       res.json({
@@ -390,6 +392,22 @@ static async getAdminCalendarEvents(req: Request, res: Response, next: NextFunct
         return;
       }
       
+      if (BookingRulesService.isViolation(error)) {
+        res.status(400).json({
+          success: false,
+          message: error.message
+        });
+        return;
+      }
+
+      if (error.message.includes('Field is closed on this day')) {
+        res.status(400).json({
+          success: false,
+          message: error.message.slice(error.message.indexOf('Field is closed'))
+        });
+        return;
+      }
+
       if (error.message === 'Time slot is already booked') {
         res.status(400).json({
           success: false,
@@ -0,0 +1,272 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Holiday, { IHoliday } from '../models/Holiday';
+import Stadium from '../models/Stadium';
+import { HolidayInput, HolidayService } from '../services/holiday.service';
+import { TaxService } from '../services/tax.service';
+
+const EDITABLE_FIELDS = ['name', 'startDate', 'endDate', 'isActive'] as const;
+
+// Longest range of calendar days returned at once
+const MAX_RANGE_DAYS = 366;
+
+export class HolidayController {
+  /**
+   * List holidays, blackouts and closures, optionally of one type, country or stadium and overlapping a range
+   */
+  static async getHolidays(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { type, country, stadiumId, from, to } = req.query;
+      const filter: Record<string, any> = { isActive: true };
+      if (type) filter.type = type;
+      if (country) filter.country = TaxService.normalizeCountry(country as string);
+      if (stadiumId) filter.stadiumId = stadiumId;
+      if (from) filter.endDate = { $gte: new Date(from as string) };
+      if (to) filter.startDate = { $lte: new Date(to as string) };
+
+      const holidays = await Holiday.find(filter).sort({ startDate: 1 });
+
+      res.json({ success: true, data: holidays });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Days in a range on which a stadium has a holiday, blackout or closure, and why
+   */
+  static async getStadiumDays(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const from = moment.utc(req.query.from as string);
+      const to = moment.utc(req.query.to as string);
+      if (to.isBefore(from) || to.diff(from, 'days') > MAX_RANGE_DAYS) {
+        res.status(400).json({ success: false, message: `Date range must cover at most ${MAX_RANGE_DAYS} days` });
+        return;
+      }
+
+      const stadium = await Stadium.findById(req.params.stadiumId)
+        .select('name address closedOnPublicHolidays fields._id fields.composedOf');
+      if (!stadium) {
+        res.status(404).json({ success: false, message: 'Stadium not found' });
+        return;
+      }
+
+      const days = await HolidayService.getSpecialDays([stadium], from.toDate(), to.toDate());
+
+      res.json({ success: true, data: days });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Import a country's public holidays from an iCalendar file or a JSON list
+   */
+  static async importHolidays(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { format, content, holidays } = req.body;
+      let inputs: HolidayInput[];
+      try {
+        inputs = format === 'ics' ? HolidayService.parseIcs(content) : HolidayService.parseJson(holidays);
+      } catch (error: any) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+
+      if (inputs.length === 0) {
+        res.status(400).json({ success: false, message: 'No holidays found to import' });
+        return;
+      }
+
+      const result = await HolidayService.importHolidays(req.params.country, inputs, format, req.user?.userId);
+
+      res.status(201).json({
+        success: true,
+        message: `Imported ${result.created} new and ${result.updated} updated holidays`,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add a public holiday or a platform blackout (superadmins), or a stadium closure (its owner)
+   */
+  static async createHoliday(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { type, country, stadiumId, fieldIds } = req.body;
+      if (type !== 'closure' && req.user?.role !== 'superadmin') {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+      if (type === 'closure' && !(await HolidayController.canManageStadium(req, res, stadiumId, fieldIds))) {
+        return;
+      }
+
+      const holiday = new Holiday({
+        type,
+        ...(type === 'closure' ? { stadiumId, fieldIds: fieldIds?.length ? fieldIds : undefined } : {}),
+        ...(type !== 'closure' && country ? { country: TaxService.normalizeCountry(country) } : {}),
+        source: 'manual',
+        createdBy: new mongoose.Types.ObjectId(req.user?.userId)
+      });
+      HolidayController.applyChanges(holiday, { endDate: req.body.startDate, ...req.body });
+      await holiday.save();
+
+      res.status(201).json({ success: true, message: 'Holiday created successfully', data: holiday });
+    } catch (error: any) {
+      if (HolidayController.isValidationError(error)) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Update a holiday, blackout or closure
+   */
+  static async updateHoliday(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const holiday = await HolidayController.findManageable(req, res, req.body.fieldIds);
+      if (!holiday) {
+        return;
+      }
+
+      HolidayController.applyChanges(holiday, req.body);
+      if (holiday.type === 'closure' && req.body.fieldIds !== undefined) {
+        holiday.fieldIds = req.body.fieldIds.length ? req.body.fieldIds : undefined;
+      }
+      await holiday.save();
+
+      res.json({ success: true, message: 'Holiday updated successfully', data: holiday });
+    } catch (error: any) {
+      if (HolidayController.isValidationError(error)) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a holiday, blackout or closure
+   */
+  static async deleteHoliday(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const holiday = await HolidayController.findManageable(req, res);
+      if (!holiday) {
+        return;
+      }
+
+      await holiday.deleteOne();
+      res.json({ success: true, message: 'Holiday deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private static applyChanges(holiday: IHoliday, body: Record<string, any>): void {
+    for (const key of EDITABLE_FIELDS) {
+      if (body[key] !== undefined) {
+        (holiday as any)[key] = key === 'startDate' || key === 'endDate'
+          ? moment.utc(String(body[key]).split('T')[0], 'YYYY-MM-DD').toDate()
+          : body[key];
+      }
+    }
+  }
+
+  private static isValidationError(error: any): boolean {
+    return error?.name === 'ValidationError' ||
+      ['End date must', 'Public holidays need', 'Closures need'].some(prefix => error?.message?.startsWith(prefix));
+  }
+
+  /**
+   * The holiday from the request if the current user can change it: superadmins any, owners their stadiums' closures
+   */
+  private static async findManageable(req: Request, res: Response, fieldIds?: string[]): Promise<IHoliday | null> {
+    const { holidayId } = req.params;
+    if (!mongoose.isValidObjectId(holidayId)) {
+      res.status(400).json({ success: false, message: 'Invalid holiday ID' });
+      return null;
+    }
+
+    const holiday = await Holiday.findById(holidayId);
+    if (!holiday) {
+      res.status(404).json({ success: false, message: 'Holiday not found' });
+      return null;
+    }
+
+    if (holiday.type !== 'closure') {
+      if (req.user?.role !== 'superadmin') {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return null;
+      }
+      return holiday;
+    }
+
+    return (await HolidayController.canManageStadium(req, res, String(holiday.stadiumId), fieldIds)) ? holiday : null;
+  }
+
+  /**
+   * Only the stadium's owner or a superadmin can close it, and only fields it has
+   */
+  private static async canManageStadium(req: Request, res: Response, stadiumId: string, fieldIds?: string[]): Promise<boolean> {
+    if (!mongoose.isValidObjectId(stadiumId)) {
+      res.status(400).json({ success: false, message: 'Invalid stadium ID' });
+      return false;
+    }
+
+    const stadium = await Stadium.findById(stadiumId).select('ownerId fields._id');
+    if (!stadium) {
+      res.status(404).json({ success: false, message: 'Stadium not found' });
+      return false;
+    }
+
+    if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return false;
+    }
+
+    const known = new Set((stadium.fields || []).map((field: any) => String(field._id)));
+    if (fieldIds?.some(fieldId => !known.has(String(fieldId)))) {
+      res.status(400).json({ success: false, message: 'Closed fields must belong to the stadium' });
+      return false;
+    }
+
+    return true;
+  }
+}
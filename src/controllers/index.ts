@@ -8,4 +8,11 @@ export { ReviewController } from './review.controller';
 export { LoyaltyController } from './loyalty.controller';
 export { FaqController } from './faq.controller';
 export { FavoriteController } from './favorite.controller';
-export { ServiceFeeController } from './serviceFee.controller'; // ✅ Export ServiceFeeController
\ No newline at end of file
+export { ServiceFeeController } from './serviceFee.controller'; // ✅ Export ServiceFeeController
+export { RefundController } from './refund.controller';
+export { PaymentController } from './payment.controller';
+export { PaymentSlipController } from './payment-slip.controller';
+export { PromoCodeController } from './promo-code.controller';
+export { TaxConfigController } from './tax-config.controller';
+export { PayoutController } from './payout.controller';
+export { AccountingController } from './accounting.controller';
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import Booking from '../models/Booking';
-import { InvoiceService } from '../services/invoice.service';
+import Invoice from '../models/Invoice';
+import { IInvoiceData, InvoiceService } from '../services/invoice.service';
+import { InvoiceRegistryService } from '../services/invoice-registry.service';
 import mongoose from 'mongoose';
 import { IStadium } from '../models/Stadium';
 import { IUser } from '../models/User';
@@ -26,7 +28,7 @@ export class InvoiceController {
       // Build query filters
       const filters: any = {
         userId: new mongoose.Types.ObjectId(userId),
-        paymentStatus: { $in: ['paid', 'completed'] }
+        paymentStatus: { $in: ['paid', 'completed', 'partially_refunded', 'refunded'] }
       };
 
       // Add date filters if provided
@@ -56,7 +58,8 @@ export class InvoiceController {
         Booking.countDocuments(filters)
       ]);
 
-      // Generate invoice data for each booking
+      // Generate invoice data for each booking, with the numbers of invoices already issued
+      const issuedInvoices = await InvoiceRegistryService.findIssuedInvoices(bookings.map((booking: any) => booking._id));
       const invoices = await Promise.all(
         bookings.map(async (booking: any) => {
           // Get customer data
@@ -71,7 +74,9 @@ export class InvoiceController {
             stadium = booking.stadiumId as IStadium;
           }
 
-          return InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const invoiceData = InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const issued = issuedInvoices.get(booking._id.toString());
+          return issued ? InvoiceService.applyIssuedNumber(invoiceData, issued) : invoiceData;
         })
       );
 
@@ -132,7 +137,7 @@ export class InvoiceController {
       // Build query filters
       const filters: any = {
         stadiumId: { $in: stadiumIds },
-        paymentStatus: { $in: ['paid', 'completed'] }
+        paymentStatus: { $in: ['paid', 'completed', 'partially_refunded', 'refunded'] }
       };
 
       // Add date filters if provided
@@ -162,7 +167,8 @@ export class InvoiceController {
         Booking.countDocuments(filters)
       ]);
 
-      // Generate invoice data for each booking
+      // Generate invoice data for each booking, with the numbers of invoices already issued
+      const issuedInvoices = await InvoiceRegistryService.findIssuedInvoices(bookings.map((booking: any) => booking._id));
       const invoices = await Promise.all(
         bookings.map(async (booking: any) => {
           // Get customer data
@@ -177,7 +183,9 @@ export class InvoiceController {
             stadium = booking.stadiumId as IStadium;
           }
 
-          return InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const invoiceData = InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const issued = issuedInvoices.get(booking._id.toString());
+          return issued ? InvoiceService.applyIssuedNumber(invoiceData, issued) : invoiceData;
         })
       );
 
@@ -205,7 +213,7 @@ export class InvoiceController {
 
       // Build query filters
       const filters: any = {
-        paymentStatus: { $in: ['paid', 'completed'] }
+        paymentStatus: { $in: ['paid', 'completed', 'partially_refunded', 'refunded'] }
       };
 
       // Add optional filters
@@ -244,7 +252,8 @@ export class InvoiceController {
         Booking.countDocuments(filters)
       ]);
 
-      // Generate invoice data for each booking
+      // Generate invoice data for each booking, with the numbers of invoices already issued
+      const issuedInvoices = await InvoiceRegistryService.findIssuedInvoices(bookings.map((booking: any) => booking._id));
       const invoices = await Promise.all(
         bookings.map(async (booking: any) => {
           // Get customer data
@@ -259,7 +268,9 @@ export class InvoiceController {
             stadium = booking.stadiumId as IStadium;
           }
 
-          return InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const invoiceData = InvoiceService.generateInvoiceData(booking, stadium!, customer!);
+          const issued = issuedInvoices.get(booking._id.toString());
+          return issued ? InvoiceService.applyIssuedNumber(invoiceData, issued) : invoiceData;
         })
       );
 
@@ -352,11 +363,124 @@ export class InvoiceController {
         stadium = booking.stadiumId as any;
       }
 
-      // Generate invoice data using the InvoiceService
-      const invoiceData = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      // Generate invoice data using the InvoiceService, numbered on first issue
+      const draft = InvoiceService.generateInvoiceData(booking, stadium, customer);
+      const issued = await InvoiceRegistryService.issueInvoice(booking as any, stadium.ownerId.toString(), draft);
+      const invoiceData = await InvoiceService.renderPaymentQR(InvoiceService.applyIssuedNumber(draft, issued));
 
-      // Generate HTML for PDF
-      const html = `
+      InvoiceController.sendPDF(res, next, InvoiceController.renderDocumentHTML(invoiceData), `invoice-${invoiceData.invoiceNumber}.pdf`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a credit note as PDF
+   */
+  static async downloadCreditNotePDF(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { creditNoteId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(creditNoteId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid credit note ID format'
+        });
+        return;
+      }
+
+      const creditNote = await Invoice.findOne({ _id: creditNoteId, documentType: 'credit_note', status: 'issued' });
+      const booking = creditNote && await Booking.findById(creditNote.bookingId)
+        .populate('userId', 'firstName lastName email phone')
+        .populate('stadiumId')
+        .lean();
+
+      if (!creditNote || !booking) {
+        res.status(404).json({
+          success: false,
+          message: 'Credit note not found'
+        });
+        return;
+      }
+
+      if (!InvoiceController.canAccessBooking(booking, req)) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to download this credit note'
+        });
+        return;
+      }
+
+      const invoiceData = InvoiceService.buildCreditNoteData(
+        InvoiceService.generateInvoiceData(booking as any, booking.stadiumId as any, booking.userId as any),
+        creditNote
+      );
+
+      InvoiceController.sendPDF(res, next, InvoiceController.renderDocumentHTML(invoiceData), `credit-note-${invoiceData.invoiceNumber}.pdf`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List the credit notes issued against a booking's invoice
+   */
+  static async getBookingCreditNotes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(bookingId)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid booking ID format'
+        });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId).populate('stadiumId', 'ownerId').lean();
+      if (!booking) {
+        res.status(404).json({
+          success: false,
+          message: 'Booking not found'
+        });
+        return;
+      }
+
+      if (!InvoiceController.canAccessBooking(booking, req)) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to view credit notes for this booking'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: await InvoiceRegistryService.getCreditNotes(bookingId)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Only the customer, the stadium owner or a superadmin can see a booking's invoices
+   */
+  private static canAccessBooking(booking: any, req: Request): boolean {
+    if (req.user?.role === 'superadmin') {
+      return true;
+    }
+
+    const customerId = booking.userId?._id ?? booking.userId;
+    if (customerId?.toString() === req.user?.userId) {
+      return true;
+    }
+
+    return booking.stadiumId?.ownerId?.toString() === req.user?.userId;
+  }
+
+  private static renderDocumentHTML(invoiceData: IInvoiceData): string {
+    const isCreditNote = invoiceData.documentType === 'credit_note';
+
+    return `
         <!DOCTYPE html>
         <html>
         <head>
@@ -403,8 +527,9 @@ export class InvoiceController {
                 <p>Professional Sports Facility Booking</p>
               </div>
               <div class="invoice-header">
-                <h2>INVOICE</h2>
+                <h2>${isCreditNote ? 'CREDIT NOTE' : invoiceData.tax && invoiceData.stadium.taxId ? 'TAX INVOICE' : 'INVOICE'}</h2>
                 <p>#${invoiceData.invoiceNumber}</p>
+                ${invoiceData.creditNote?.originalInvoiceNumber ? `<p>For invoice #${invoiceData.creditNote.originalInvoiceNumber}</p>` : ''}
                 <p>${new Date(invoiceData.invoiceDate).toLocaleDateString()}</p>
               </div>
             </div>
@@ -423,6 +548,8 @@ export class InvoiceController {
                 <p>${invoiceData.stadium.name}</p>
                 <p>${invoiceData.stadium.address}</p>
                 ${invoiceData.stadium.ownerName ? `<p>Owner: ${invoiceData.stadium.ownerName}</p>` : ''}
+                ${invoiceData.stadium.businessName ? `<p>${invoiceData.stadium.businessName}</p>` : ''}
+                ${invoiceData.stadium.taxId ? `<p>Tax ID: ${invoiceData.stadium.taxId}</p>` : ''}
               </div>
             </div>
           </div>
@@ -470,16 +597,36 @@ export class InvoiceController {
               <span class="total-label">Subtotal:</span>
               <span class="total-amount">${invoiceData.currency} ${invoiceData.subtotal.toFixed(2)}</span>
             </div>
-            ${invoiceData.taxes > 0 ? `
+            ${invoiceData.tax && invoiceData.taxes > 0 ? `
+            <div class="total-row">
+              <span class="total-label">Taxable amount:</span>
+              <span class="total-amount">${invoiceData.currency} ${invoiceData.tax.taxableAmount.toFixed(2)}</span>
+            </div>
+            <div class="total-row">
+              <span class="total-label">${invoiceData.tax.name} ${invoiceData.tax.rate}%${invoiceData.tax.inclusive ? ' (included)' : ''}:</span>
+              <span class="total-amount">${invoiceData.currency} ${invoiceData.taxes.toFixed(2)}</span>
+            </div>
+            ` : invoiceData.taxes > 0 ? `
             <div class="total-row">
               <span class="total-label">Taxes:</span>
               <span class="total-amount">${invoiceData.currency} ${invoiceData.taxes.toFixed(2)}</span>
             </div>
             ` : ''}
+            ${invoiceData.tax?.exemptionReason ? `
+            <div class="total-row">
+              <span class="total-label">${invoiceData.tax.name} exempt: ${invoiceData.tax.exemptionReason}</span>
+            </div>
+            ` : ''}
             <div class="total-row grand-total">
               <span class="total-label">Total:</span>
               <span class="total-amount">${invoiceData.currency} ${invoiceData.totalAmount.toFixed(2)}</span>
             </div>
+            ${invoiceData.amountRefunded && invoiceData.amountRefunded > 0 ? `
+            <div class="total-row">
+              <span class="total-label">Refunded:</span>
+              <span class="total-amount">${invoiceData.currency} -${invoiceData.amountRefunded.toFixed(2)}</span>
+            </div>
+            ` : ''}
           </div>
           
           <div class="payment-info">
@@ -488,10 +635,19 @@ export class InvoiceController {
                 ${invoiceData.paymentStatus.charAt(0).toUpperCase() + invoiceData.paymentStatus.slice(1)}
               </span>
               <div>
-                <p><strong>Due Date:</strong> ${new Date(invoiceData.dueDate).toLocaleDateString()}</p>
+                ${isCreditNote
+                  ? `<p><strong>Reason:</strong> ${invoiceData.creditNote?.reason || 'Adjustment'}</p>`
+                  : `<p><strong>Due Date:</strong> ${new Date(invoiceData.dueDate).toLocaleDateString()}</p>`}
               </div>
             </div>
             
+            ${invoiceData.qrCodePayment?.qrCodeData ? `
+            <div style="text-align: center; margin-bottom: 20px;">
+              <img src="data:image/png;base64,${invoiceData.qrCodePayment.qrCodeData}" width="${invoiceData.qrCodeDimensions?.width || 192}" height="${invoiceData.qrCodeDimensions?.height || 192}" alt="LAO QR" />
+              <p>Scan with your banking app to pay</p>
+            </div>
+            ` : ''}
+            
             ${(invoiceData.stadium.bankAccountName || invoiceData.stadium.bankAccountNumber) ? `
             <div class="payment-grid">
               ${invoiceData.stadium.bankAccountName ? `
@@ -512,27 +668,26 @@ export class InvoiceController {
           
           <div class="footer">
             <p>Thank you for your business!</p>
-            <p>Please keep this invoice for your records.</p>
+            <p>Please keep this ${isCreditNote ? 'credit note' : 'invoice'} for your records.</p>
           </div>
         </body>
         </html>
       `;
+  }
 
-      pdf.create(html, { format: 'A4', orientation: 'portrait' }).toBuffer((err: Error, buffer: Buffer) => {
-        if (err) {
-          next(err);
-          return;
-        }
-        
-        // Set headers for PDF download
-        res.setHeader('Content-Type', 'application/pdf');
-        res.setHeader('Content-Disposition', `attachment; filename=invoice-${invoiceData.invoiceNumber}.pdf`);
-        
-        // Send PDF buffer
-        res.send(buffer);
-      });
-    } catch (error) {
-      next(error);
-    }
+  private static sendPDF(res: Response, next: NextFunction, html: string, filename: string): void {
+    pdf.create(html, { format: 'A4', orientation: 'portrait' }).toBuffer((err: Error, buffer: Buffer) => {
+      if (err) {
+        next(err);
+        return;
+      }
+      
+      // Set headers for PDF download
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+      
+      // Send PDF buffer
+      res.send(buffer);
+    });
   }
-}
\ No newline at end of file
+}
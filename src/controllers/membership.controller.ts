@@ -0,0 +1,291 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { MembershipBookingParams, MembershipService } from '../services/membership.service';
+import { BookingRulesService } from '../services/booking-rules.service';
+
+export class MembershipController {
+  /**
+   * Dates a membership series would book, with conflicts and alternatives, without booking anything
+   */
+  static async previewSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const preview = await MembershipService.previewSeries(MembershipController.toParams(req));
+
+      res.json({ success: true, data: preview });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Create a membership series and book its free dates
+   */
+  static async createSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const result = await MembershipService.createSeries(MembershipController.toParams(req));
+
+      res.status(201).json({
+        success: true,
+        message: `Membership series created (${result.bookings.length} bookings, ${result.conflicts.length} not booked)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Current user's membership series
+   */
+  static async getMySeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const series = await MembershipService.getUserSeries(req.user?.userId || '');
+
+      res.json({ success: true, data: series });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const series = await MembershipService.getSeries(req.params.seriesId, req.user?.userId || '', req.user?.role);
+
+      res.json({ success: true, data: series });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async pauseSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const result = await MembershipService.pauseSeries(req.params.seriesId, req.user?.userId || '', req.user?.role);
+
+      res.json({
+        success: true,
+        message: `Membership series paused (${result.changed} occurrences released, ${result.kept.length} kept)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async resumeSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const result = await MembershipService.resumeSeries(req.params.seriesId, req.user?.userId || '', req.user?.role);
+
+      res.json({
+        success: true,
+        message: `Membership series resumed (${result.bookings.length} bookings, ${result.conflicts.length} not booked)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async skipOccurrence(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const series = await MembershipService.skipOccurrence(
+        req.params.seriesId,
+        req.params.occurrenceId,
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({ success: true, message: 'Occurrence skipped', data: series });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Add occurrences to a series, or renew one that has run out
+   */
+  static async extendSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const { endDate, additionalOccurrences } = req.body;
+      const result = await MembershipService.extendSeries(
+        req.params.seriesId,
+        { endDate: endDate ? new Date(endDate) : undefined, additionalOccurrences },
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({
+        success: true,
+        message: `Membership series extended (${result.bookings.length} bookings, ${result.conflicts.length} not booked)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Move the upcoming occurrences of a series to a new time; nothing moves when any would conflict
+   */
+  static async changeSeriesTime(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const { startTime, endTime } = req.body;
+      const result = await MembershipService.changeSeriesTime(
+        req.params.seriesId,
+        { startTime, endTime },
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      if (result.changed === 0 && result.conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: 'The new time is not available on every date of the series',
+          data: result
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: `Membership series time changed (${result.changed} occurrences moved, ${result.kept.length} kept)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async cancelSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const result = await MembershipService.cancelSeries(req.params.seriesId, req.user?.userId || '', req.user?.role);
+
+      res.json({
+        success: true,
+        message: `Membership series cancelled (${result.changed} occurrences cancelled, ${result.kept.length} kept)`,
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Record a payment the stadium received for a billing cycle
+   */
+  static async recordCyclePayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const { amount, paymentMethod, transactionId } = req.body;
+      const result = await MembershipService.recordCyclePayment(
+        req.params.seriesId,
+        req.params.cycleId,
+        { amount: Number(amount), paymentMethod, transactionId },
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({
+        success: true,
+        message: result.reinstated
+          ? `Payment recorded; membership series reinstated (${result.reinstated.bookings.length} bookings, ${result.reinstated.conflicts.length} not booked)`
+          : 'Payment recorded',
+        data: result
+      });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async getCycleInvoice(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!MembershipController.isValid(req, res)) return;
+
+      const invoice = await MembershipService.getCycleInvoice(req.params.seriesId, req.params.cycleId, req.user?.userId || '', req.user?.role);
+
+      res.json({ success: true, data: invoice });
+    } catch (error) {
+      if (MembershipController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  private static isValid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return false;
+    }
+    return true;
+  }
+
+  private static toParams(req: Request): MembershipBookingParams {
+    const { stadiumId, fieldId, startDate, endDate, dayOfWeek, startTime, endTime, recurrencePattern, totalOccurrences, planId, teamInfo, specialRequests } = req.body;
+    return {
+      stadiumId,
+      fieldId,
+      startDate: new Date(startDate),
+      endDate: endDate ? new Date(endDate) : undefined,
+      dayOfWeek: Number(dayOfWeek),
+      startTime,
+      endTime,
+      userId: req.user?.userId || '',
+      recurrencePattern,
+      totalOccurrences: totalOccurrences ? Number(totalOccurrences) : undefined,
+      planId,
+      teamInfo,
+      specialRequests
+    };
+  }
+
+  /**
+   * Answer the errors the membership service raises for bad requests; false for anything else
+   */
+  private static handleError(error: any, res: Response): boolean {
+    const message: string = error?.message || '';
+    if (message.endsWith('not found')) {
+      res.status(404).json({ success: false, message });
+      return true;
+    }
+    if (message.startsWith('Not authorized')) {
+      res.status(403).json({ success: false, message });
+      return true;
+    }
+    if (
+      BookingRulesService.isViolation(error) ||
+      ['Membership series', 'Only upcoming', 'Occurrence is inside', 'Billing cycle is', 'Payment exceeds'].some(prefix => message.startsWith(prefix))
+    ) {
+      res.status(400).json({ success: false, message });
+      return true;
+    }
+    return false;
+  }
+}
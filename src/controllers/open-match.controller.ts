@@ -0,0 +1,289 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import Booking, { IBooking } from '../models/Booking';
+import { BillSplitService } from '../services/bill-split.service';
+import NotificationService from '../services/notificationService';
+import { OpenMatchService } from '../services/open-match.service';
+
+// Errors from OpenMatchService and BillSplitService that are the caller's fault
+const OPEN_MATCH_CLIENT_ERRORS = [
+  'Booking is not an open match',
+  'Cannot join your own match',
+  'Not enough spots left',
+  'More players were already approved',
+  'Player prices exceed the booking total',
+  'Requester has no phone number to share the cost with',
+  'Shares exceed the booking total',
+  'Amount already paid exceeds the organizer\'s share',
+  'Cannot remove a teammate who has paid',
+  'Cannot change the match type after requests were approved'
+];
+
+export class OpenMatchController {
+  /**
+   * Open matches around a location, looking for an opponent or for players
+   */
+  static async search(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const { lat, lng, radius = 10, type, skillLevel, from, to, page = 1, limit = 10 } = req.query;
+      const params = {
+        lat: parseFloat(lat as string),
+        lng: parseFloat(lng as string),
+        radius: parseFloat(radius as string),
+        type: type as any,
+        skillLevel: skillLevel as any,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined,
+        page: parseInt(page as string),
+        limit: parseInt(limit as string)
+      };
+
+      const { matches, total } = await OpenMatchService.search(params);
+
+      res.json({
+        success: true,
+        data: matches,
+        pagination: {
+          page: params.page,
+          limit: params.limit,
+          total,
+          pages: Math.ceil(total / params.limit)
+        },
+        location: {
+          latitude: params.lat,
+          longitude: params.lng,
+          radius: params.radius
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * An open match. The organizer and staff see every request; other users see the
+   * listing and their own request.
+   */
+  static async getMatch(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking) return;
+
+      if (!booking.openMatch) {
+        res.status(404).json({ success: false, message: 'Booking is not an open match' });
+        return;
+      }
+
+      if (OpenMatchController.isOrganizerOrStaff(req, booking)) {
+        res.json({ success: true, data: { ...OpenMatchService.getListing(booking), requests: booking.openMatch.requests } });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          ...OpenMatchService.getListing(booking),
+          myRequest: OpenMatchService.findActiveRequest(booking.openMatch, req.user?.userId || '') || null
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Publish a booking as looking for an opponent team or for players, or update the listing
+   */
+  static async publish(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking || !OpenMatchController.assertOrganizer(req, res, booking)) return;
+
+      const { type, playersNeeded, pricePerPlayer, description } = req.body;
+      OpenMatchService.publish(booking, {
+        type,
+        playersNeeded: playersNeeded !== undefined ? Number(playersNeeded) : undefined,
+        pricePerPlayer: pricePerPlayer !== undefined ? Number(pricePerPlayer) : undefined,
+        description
+      }, req.user?.userId as string);
+      await booking.save();
+
+      res.json({
+        success: true,
+        message: 'Open match published',
+        data: { ...OpenMatchService.getListing(booking), requests: booking.openMatch!.requests }
+      });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async close(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking || !OpenMatchController.assertOrganizer(req, res, booking)) return;
+
+      OpenMatchService.close(booking, req.user?.userId as string);
+      await booking.save();
+
+      res.json({ success: true, message: 'Open match closed', data: OpenMatchService.getListing(booking) });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async requestToJoin(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking) return;
+
+      const { players, teamName, experience, message } = req.body;
+      const request = OpenMatchService.requestToJoin(booking, req.user?.userId || '', {
+        players: players !== undefined ? Number(players) : undefined,
+        teamName,
+        experience,
+        message
+      });
+      await booking.save();
+
+      res.status(201).json({ success: true, message: 'Request sent to the organizer', data: request });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Withdraw the current user's request, leaving the match if it was approved
+   */
+  static async leave(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking) return;
+
+      const request = OpenMatchService.leave(booking, req.user?.userId || '');
+      await booking.save();
+
+      res.json({ success: true, message: 'Left the open match', data: request });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a request. The requester joins the bill split and is sent their payment link.
+   */
+  static async approve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking || !OpenMatchController.assertOrganizer(req, res, booking)) return;
+
+      const participant = await OpenMatchService.approve(booking, req.params.requestId, req.user?.userId as string);
+      await booking.save();
+
+      await NotificationService.sendBillSplitInvite(booking, participant, BillSplitService.getPaymentLink(participant.token));
+
+      res.json({
+        success: true,
+        message: 'Request approved',
+        data: { ...OpenMatchService.getListing(booking), requests: booking.openMatch!.requests }
+      });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!OpenMatchController.isValid(req, res)) return;
+
+      const booking = await OpenMatchController.loadBooking(req, res);
+      if (!booking || !OpenMatchController.assertOrganizer(req, res, booking)) return;
+
+      const request = OpenMatchService.reject(booking, req.params.requestId);
+      await booking.save();
+
+      res.json({ success: true, message: 'Request rejected', data: request });
+    } catch (error) {
+      if (OpenMatchController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  private static async loadBooking(req: Request, res: Response): Promise<IBooking | null> {
+    const booking = await Booking.findById(req.params.bookingId);
+    if (!booking) {
+      res.status(404).json({ success: false, message: 'Booking not found' });
+      return null;
+    }
+    return booking;
+  }
+
+  private static isOrganizerOrStaff(req: Request, booking: IBooking): boolean {
+    return booking.userId.toString() === req.user?.userId ||
+      req.user?.role === 'superadmin' ||
+      req.user?.role === 'stadium_owner';
+  }
+
+  private static assertOrganizer(req: Request, res: Response, booking: IBooking): boolean {
+    if (booking.userId.toString() !== req.user?.userId && req.user?.role !== 'superadmin') {
+      res.status(403).json({ success: false, message: 'Only the organizer can manage this open match' });
+      return false;
+    }
+    return true;
+  }
+
+  private static isValid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Answer the errors the open match service raises for bad requests; false for anything else
+   */
+  private static handleError(error: any, res: Response): boolean {
+    const message: string = error?.message || '';
+    if (message === 'Open match request not found') {
+      res.status(404).json({ success: false, message });
+      return true;
+    }
+    if (message === 'Already asked to join this match' || message === 'Each teammate can only be invited once') {
+      res.status(409).json({ success: false, message });
+      return true;
+    }
+    if (
+      OPEN_MATCH_CLIENT_ERRORS.includes(message) ||
+      message.startsWith('Open match') ||
+      message.startsWith('Only ') ||
+      message.startsWith('Cannot open a') ||
+      message.startsWith('Cannot split a') ||
+      message.startsWith('Invalid phone number')
+    ) {
+      res.status(400).json({ success: false, message });
+      return true;
+    }
+    return false;
+  }
+}
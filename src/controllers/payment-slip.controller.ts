@@ -0,0 +1,212 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import Stadium from '../models/Stadium';
+import { PaymentSlipService } from '../services/payment-slip.service';
+
+export class PaymentSlipController {
+  /**
+   * Upload a bank transfer slip for a booking
+   */
+  static async uploadSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const file = req.file;
+
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        PaymentSlipController.discardUpload(file);
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { bookingId } = req.params;
+
+      if (!file) {
+        res.status(400).json({ success: false, message: 'Payment slip image is required' });
+        return;
+      }
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        PaymentSlipController.discardUpload(file);
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        PaymentSlipController.discardUpload(file);
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      if (booking.userId.toString() !== req.user?.userId) {
+        PaymentSlipController.discardUpload(file);
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      if (booking.status === 'cancelled') {
+        PaymentSlipController.discardUpload(file);
+        res.status(400).json({ success: false, message: 'Cannot pay for a cancelled booking' });
+        return;
+      }
+
+      const payment = await PaymentSlipService.submitSlip(booking, {
+        filePath: file.path,
+        imageUrl: `/uploads/payment-slips/${file.filename}`,
+        amount: Number(req.body.amount),
+        paymentMethod: req.body.paymentMethod,
+        transferredAt: req.body.transferredAt ? new Date(req.body.transferredAt) : undefined,
+        transactionReference: req.body.transactionReference,
+        submittedBy: req.user?.userId as string
+      });
+
+      await booking.save();
+
+      res.status(201).json({
+        success: true,
+        message: 'Payment slip submitted and awaiting review',
+        data: {
+          payment,
+          paymentStatus: booking.paymentStatus
+        }
+      });
+    } catch (error: any) {
+      PaymentSlipController.discardUpload(file);
+      if (error.message?.startsWith('This payment slip was already submitted')) {
+        res.status(409).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Review queue of payment slips for a stadium
+   */
+  static async getStadiumSlips(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { stadiumId } = req.params;
+      if (!(await PaymentSlipController.canReview(req, res, stadiumId))) {
+        return;
+      }
+
+      const { slips, pagination } = await PaymentSlipService.getReviewQueue(stadiumId, {
+        status: req.query.status as 'pending' | 'approved' | 'rejected' | undefined,
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: slips,
+        pagination
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a payment slip
+   */
+  static async approveSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await PaymentSlipController.reviewSlip(req, res, next, true);
+  }
+
+  /**
+   * Reject a payment slip
+   */
+  static async rejectSlip(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await PaymentSlipController.reviewSlip(req, res, next, false);
+  }
+
+  private static async reviewSlip(req: Request, res: Response, next: NextFunction, approve: boolean): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { stadiumId, paymentId } = req.params;
+      if (!mongoose.isValidObjectId(paymentId)) {
+        res.status(400).json({ success: false, message: 'Invalid payment ID' });
+        return;
+      }
+
+      if (!(await PaymentSlipController.canReview(req, res, stadiumId))) {
+        return;
+      }
+
+      const booking = await PaymentSlipService.findBookingForSlip(stadiumId, paymentId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Payment slip not found' });
+        return;
+      }
+
+      const payment = await PaymentSlipService.reviewSlip(booking, paymentId, {
+        approve,
+        reviewedBy: req.user?.userId as string,
+        reason: req.body.reason
+      });
+
+      res.json({
+        success: true,
+        message: approve ? 'Payment slip approved' : 'Payment slip rejected',
+        data: {
+          bookingId: booking._id,
+          payment,
+          paymentStatus: booking.paymentStatus
+        }
+      });
+    } catch (error: any) {
+      if (error.message === 'Payment slip not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+      if (error.message?.startsWith('Payment slip has already been reviewed')) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Only the stadium's owner or a superadmin can review its slips
+   */
+  private static async canReview(req: Request, res: Response, stadiumId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(stadiumId)) {
+      res.status(400).json({ success: false, message: 'Invalid stadium ID' });
+      return false;
+    }
+
+    const stadium = await Stadium.findById(stadiumId).select('ownerId');
+    if (!stadium) {
+      res.status(404).json({ success: false, message: 'Stadium not found' });
+      return false;
+    }
+
+    if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return false;
+    }
+
+    return true;
+  }
+
+  private static discardUpload(file?: Express.Multer.File): void {
+    if (file?.path) {
+      fs.unlink(file.path, () => undefined);
+    }
+  }
+}
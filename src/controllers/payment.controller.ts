@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import { AMOUNT_EXCEEDS_OUTSTANDING, PAYMENT_MISMATCH, PaymentGatewayService } from '../services/payment-gateway.service';
+import { RefundService } from '../services/refund.service';
+
+export class PaymentController {
+  /**
+   * List the registered payment providers
+   */
+  static async getProviders(_req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      res.json({
+        success: true,
+        data: PaymentGatewayService.listProviders()
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a gateway payment intent for a booking
+   */
+  static async createIntent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { bookingId, provider, paymentMethod, amount, returnUrl } = req.body;
+      const idempotencyKey = req.get('Idempotency-Key') || undefined;
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const isCustomer = booking.userId.toString() === req.user?.userId;
+      if (!isCustomer && !(await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role))) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      if (booking.status === 'cancelled') {
+        res.status(400).json({ success: false, message: 'Cannot pay for a cancelled booking' });
+        return;
+      }
+
+      const result = await PaymentGatewayService.createIntent(booking, {
+        provider,
+        paymentMethod,
+        amount: amount !== undefined ? Number(amount) : undefined,
+        idempotencyKey,
+        returnUrl,
+        createdBy: req.user?.userId as string
+      });
+
+      if (!result.reused) {
+        await booking.save();
+      }
+
+      res.status(result.reused ? 200 : 201).json({
+        success: true,
+        message: result.reused ? 'Existing payment intent returned' : 'Payment intent created',
+        data: {
+          payment: result.payment,
+          checkoutUrl: result.intent?.checkoutUrl,
+          expiresAt: result.intent?.expiresAt,
+          paymentStatus: booking.paymentStatus
+        }
+      });
+    } catch (error: any) {
+      if (
+        error.message?.startsWith('Unknown payment provider') ||
+        error.message?.startsWith(AMOUNT_EXCEEDS_OUTSTANDING) ||
+        error.message === 'Booking has no outstanding balance' ||
+        error.message === 'Payment amount must be greater than zero'
+      ) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Re-check an intent with its provider and update the booking
+   */
+  static async verifyIntent(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId, intentId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const isCustomer = booking.userId.toString() === req.user?.userId;
+      if (!isCustomer && !(await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role))) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      const payment = await PaymentGatewayService.verifyIntent(booking, intentId);
+      await booking.save();
+
+      res.json({
+        success: true,
+        data: {
+          payment,
+          paymentStatus: booking.paymentStatus
+        }
+      });
+    } catch (error: any) {
+      if (error.message === 'Payment intent not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+      if (error.message === PAYMENT_MISMATCH) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Receive a provider webhook. Unauthenticated; trust comes from the signature.
+   */
+  static async handleWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider } = req.params;
+      const rawBody = req.rawBody ?? JSON.stringify(req.body ?? {});
+
+      const result = await PaymentGatewayService.handleWebhook(provider, rawBody, req.headers, req.body);
+
+      res.json({
+        success: true,
+        message: result.duplicate ? 'Event already processed' : result.ignored ? 'Event ignored' : 'Event processed',
+        data: {
+          eventId: result.event.eventId,
+          duplicate: result.duplicate,
+          bookingId: result.bookingId,
+          paymentStatus: result.paymentStatus
+        }
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Unknown payment provider')) {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+      if (error.message === 'Invalid webhook signature') {
+        res.status(401).json({ success: false, message: error.message });
+        return;
+      }
+      if (error.message === 'Invalid webhook payload' || error.message === PAYMENT_MISMATCH) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+}
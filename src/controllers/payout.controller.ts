@@ -0,0 +1,334 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Payout, { IPayout } from '../models/Payout';
+import User from '../models/User';
+import { PayoutService } from '../services/payout.service';
+import pdf = require('html-pdf');
+
+export class PayoutController {
+  /**
+   * Payout statements of the current stadium owner
+   */
+  static async getMyPayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await PayoutController.listPayouts(req, res, next, req.user?.userId);
+  }
+
+  /**
+   * Payout statements of every owner
+   */
+  static async getPayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await PayoutController.listPayouts(req, res, next);
+  }
+
+  /**
+   * Get a payout statement
+   */
+  static async getPayout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const payout = await PayoutController.findAccessible(req, res);
+      if (!payout) return;
+
+      res.json({ success: true, data: payout });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Download a payout statement as PDF or CSV
+   */
+  static async downloadStatement(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const payout = await PayoutController.findAccessible(req, res);
+      if (!payout) return;
+
+      const filename = `payout-${moment(payout.periodStart).tz('Asia/Vientiane').format('YYYY-MM')}-${payout._id}`;
+
+      if (req.query.format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.csv`);
+        res.send(PayoutService.toCSV(payout));
+        return;
+      }
+
+      const owner = await User.findById(payout.ownerId).select('firstName lastName email ownerProfile');
+      const html = PayoutController.renderStatementHTML(payout, owner);
+
+      pdf.create(html, { format: 'A4', orientation: 'landscape' }).toBuffer((err: Error, buffer: Buffer) => {
+        if (err) {
+          next(err);
+          return;
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.pdf`);
+        res.send(buffer);
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Record that a payout was transferred to the owner's bank account
+   */
+  static async markTransferred(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const payout = await PayoutController.findAccessible(req, res);
+      if (!payout) return;
+
+      if (payout.status === 'transferred') {
+        res.status(400).json({ success: false, message: 'Payout has already been transferred' });
+        return;
+      }
+
+      if (payout.totals.netAmount <= 0) {
+        res.status(400).json({ success: false, message: 'Payout has no amount to transfer' });
+        return;
+      }
+
+      const owner = await User.findById(payout.ownerId).select('ownerProfile');
+      const bankAccount = owner?.ownerProfile?.bankAccountDetails;
+      if (!bankAccount?.accountNumber) {
+        res.status(400).json({ success: false, message: 'Owner has no bank account details' });
+        return;
+      }
+
+      payout.set({
+        status: 'transferred',
+        bankAccount: {
+          bankName: bankAccount.bankName,
+          accountNumber: bankAccount.accountNumber,
+          routingNumber: bankAccount.routingNumber,
+          accountHolderName: bankAccount.accountHolderName
+        },
+        transferredAt: new Date(),
+        transferredBy: new mongoose.Types.ObjectId(req.user?.userId),
+        transferReference: req.body.transferReference,
+        notes: req.body.notes
+      });
+      await payout.save();
+
+      res.json({
+        success: true,
+        message: 'Payout marked as transferred',
+        data: payout
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Run the settlement for a month now instead of waiting for the scheduler
+   */
+  static async settlePayouts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const period = PayoutService.getMonthlyPeriod(req.body.month);
+      if (period.end > new Date()) {
+        res.status(400).json({ success: false, message: 'Only months that have ended can be settled' });
+        return;
+      }
+
+      const result = req.body.ownerId
+        ? await PayoutService.settleOwner(req.body.ownerId, period).then(({ action }) => ({
+            period,
+            created: action === 'created' ? 1 : 0,
+            updated: action === 'updated' ? 1 : 0,
+            skipped: action === 'skipped' ? 1 : 0
+          }))
+        : await PayoutService.settlePeriod(period);
+
+      res.json({
+        success: true,
+        message: 'Payouts settled',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private static async listPayouts(req: Request, res: Response, next: NextFunction, ownerOnly?: string): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { status, year } = req.query;
+      const ownerId = ownerOnly || req.query.ownerId;
+      const pageNumber = parseInt(req.query.page as string) || 1;
+      const limitNumber = parseInt(req.query.limit as string) || 12;
+
+      const filters: Record<string, any> = {};
+      if (ownerId) {
+        filters.ownerId = new mongoose.Types.ObjectId(ownerId as string);
+      }
+      if (status) {
+        filters.status = status;
+      }
+      if (year) {
+        const start = moment.tz(`${year}-01-01`, 'Asia/Vientiane');
+        filters.periodStart = { $gte: start.toDate(), $lt: start.clone().add(1, 'year').toDate() };
+      }
+
+      const [payouts, total] = await Promise.all([
+        Payout.find(filters)
+          .select('-lines')
+          .sort({ periodStart: -1 })
+          .skip((pageNumber - 1) * limitNumber)
+          .limit(limitNumber)
+          .populate('ownerId', 'firstName lastName email ownerProfile.businessName'),
+        Payout.countDocuments(filters)
+      ]);
+
+      // Outstanding balance helps owners reconcile what is still owed to them
+      const outstanding = await Payout.aggregate([
+        { $match: { ...filters, status: 'pending' } },
+        { $group: { _id: null, amount: { $sum: '$totals.netAmount' } } }
+      ]);
+
+      res.json({
+        success: true,
+        data: {
+          payouts,
+          outstandingAmount: outstanding[0]?.amount || 0
+        },
+        pagination: {
+          page: pageNumber,
+          limit: limitNumber,
+          total,
+          pages: Math.ceil(total / limitNumber)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Load a payout the current user may see, responding when they may not
+   */
+  private static async findAccessible(req: Request, res: Response): Promise<IPayout | null> {
+    const { payoutId } = req.params;
+    if (!mongoose.isValidObjectId(payoutId)) {
+      res.status(400).json({ success: false, message: 'Invalid payout ID' });
+      return null;
+    }
+
+    const payout = await Payout.findById(payoutId);
+    if (!payout) {
+      res.status(404).json({ success: false, message: 'Payout not found' });
+      return null;
+    }
+
+    if (req.user?.role !== 'superadmin' && payout.ownerId.toString() !== req.user?.userId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return null;
+    }
+
+    return payout;
+  }
+
+  private static renderStatementHTML(payout: IPayout, owner: any): string {
+    const money = (amount: number) => `${payout.currency} ${amount.toFixed(2)}`;
+    const period = `${moment(payout.periodStart).tz('Asia/Vientiane').format('YYYY-MM-DD')} - ${moment(payout.periodEnd).tz('Asia/Vientiane').format('YYYY-MM-DD')}`;
+    const ownerName = owner?.ownerProfile?.businessName || `${owner?.firstName || ''} ${owner?.lastName || ''}`.trim();
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: Arial, sans-serif; margin: 0 auto; padding: 20px; font-size: 11px; }
+          h1 { font-size: 20px; color: #1f2937; margin-bottom: 4px; }
+          p { color: #6b7280; margin: 2px 0; }
+          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+          th { text-align: left; padding: 6px; border-bottom: 1px solid #e5e7eb; color: #1f2937; }
+          td { padding: 6px; border-bottom: 1px solid #e5e7eb; color: #6b7280; }
+          td.amount, th.amount { text-align: right; }
+          .totals td { font-weight: bold; color: #1f2937; }
+          .status { display: inline-block; padding: 4px 8px; border-radius: 4px; font-weight: bold; }
+          .status-pending { background-color: #fef3c7; color: #92400e; }
+          .status-transferred { background-color: #dcfce7; color: #166534; }
+        </style>
+      </head>
+      <body>
+        <h1>Payout Statement</h1>
+        <p>${ownerName}</p>
+        ${owner?.ownerProfile?.taxId ? `<p>Tax ID: ${owner.ownerProfile.taxId}</p>` : ''}
+        <p>Period: ${period}</p>
+        <p><span class="status status-${payout.status}">${payout.status === 'transferred' ? 'Transferred' : 'Pending'}</span></p>
+        ${payout.status === 'transferred' ? `
+        <p>Transferred ${moment(payout.transferredAt).tz('Asia/Vientiane').format('YYYY-MM-DD')} to ${payout.bankAccount?.bankName || ''} ${payout.bankAccount?.accountNumber || ''}${payout.transferReference ? ` (ref. ${payout.transferReference})` : ''}</p>
+        ` : ''}
+
+        <table>
+          <thead>
+            <tr>
+              <th>Booking</th>
+              <th>Date</th>
+              <th>Stadium</th>
+              <th class="amount">Paid</th>
+              <th class="amount">Refunded</th>
+              <th class="amount">Tax</th>
+              <th class="amount">Service Fee</th>
+              <th class="amount">Promo Credit</th>
+              <th class="amount">Net</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${payout.lines.map(line => `
+              <tr>
+                <td>${line.bookingNumber || ''}${line.type === 'refund_adjustment' ? ' (late refund)' : ''}</td>
+                <td>${moment(line.bookingDate).tz('Asia/Vientiane').format('YYYY-MM-DD')}</td>
+                <td>${line.stadiumName || ''}</td>
+                <td class="amount">${money(line.paidAmount)}</td>
+                <td class="amount">${money(line.refundedAmount)}</td>
+                <td class="amount">${money(line.taxAmount)}</td>
+                <td class="amount">${money(line.serviceFee)} (${line.serviceFeePercentage}%)</td>
+                <td class="amount">${money(line.promoCredit)}</td>
+                <td class="amount">${money(line.netAmount)}</td>
+              </tr>
+            `).join('')}
+            <tr class="totals">
+              <td colspan="3">Total (${payout.totals.bookings} bookings)</td>
+              <td class="amount">${money(payout.totals.grossAmount)}</td>
+              <td class="amount">${money(payout.totals.refundedAmount)}</td>
+              <td class="amount">${money(payout.totals.taxAmount)}</td>
+              <td class="amount">${money(payout.totals.serviceFee)}</td>
+              <td class="amount">${money(payout.totals.promoCredit)}</td>
+              <td class="amount">${money(payout.totals.netAmount)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <p>Tax shown is collected on your behalf and included in the payout; it remains yours to declare.</p>
+      </body>
+      </html>
+    `;
+  }
+}
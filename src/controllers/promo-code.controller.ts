@@ -0,0 +1,336 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import PromoCode, { IPromoCode } from '../models/PromoCode';
+import PromoRedemption from '../models/PromoRedemption';
+import Stadium from '../models/Stadium';
+import { PromoCodeService } from '../services/promo-code.service';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { TaxService } from '../services/tax.service';
+
+const EDITABLE_FIELDS = [
+  'description',
+  'discountType',
+  'discountValue',
+  'maxDiscountAmount',
+  'validFrom',
+  'validUntil',
+  'usageLimit',
+  'perUserLimit',
+  'minSpend',
+  'fieldTypes',
+  'daysOfWeek',
+  'isActive'
+] as const;
+
+export class PromoCodeController {
+  /**
+   * Create a promo code
+   */
+  static async createPromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const isSuperAdmin = req.user?.role === 'superadmin';
+      const { stadiumId } = req.body;
+
+      // Owners can only create codes for their own stadiums, and always fund them
+      if (!isSuperAdmin && !stadiumId) {
+        res.status(400).json({ success: false, message: 'Stadium ID is required' });
+        return;
+      }
+
+      if (stadiumId && !(await PromoCodeController.canManageStadium(req, res, stadiumId))) {
+        return;
+      }
+
+      const code = PromoCodeService.normalizeCode(req.body.code);
+      if (await PromoCode.exists({ code })) {
+        res.status(409).json({ success: false, message: 'Promo code already exists' });
+        return;
+      }
+
+      const promoCode = new PromoCode({
+        code,
+        stadiumId: stadiumId || undefined,
+        fundedBy: isSuperAdmin ? (req.body.fundedBy || (stadiumId ? 'stadium' : 'platform')) : 'stadium',
+        createdBy: new mongoose.Types.ObjectId(req.user?.userId)
+      });
+      PromoCodeController.applyChanges(promoCode, req.body);
+
+      await promoCode.save();
+
+      res.status(201).json({
+        success: true,
+        message: 'Promo code created successfully',
+        data: promoCode
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * List promo codes the current user can manage
+   */
+  static async getPromoCodes(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const requestedStadium = req.query.stadiumId as string | undefined;
+      let stadiumId: string | string[] | undefined = requestedStadium;
+
+      if (req.user?.role !== 'superadmin') {
+        const stadiums = await Stadium.find({ ownerId: req.user?.userId }).select('_id');
+        const ownedIds = stadiums.map(stadium => String(stadium._id));
+
+        if (requestedStadium && !ownedIds.includes(requestedStadium)) {
+          res.status(403).json({ success: false, message: 'Access denied' });
+          return;
+        }
+        stadiumId = requestedStadium || ownedIds;
+      }
+
+      const { promoCodes, pagination } = await PromoCodeService.list({
+        stadiumId,
+        isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined
+      });
+
+      res.json({
+        success: true,
+        data: promoCodes,
+        pagination
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a promo code
+   */
+  static async getPromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promoCode = await PromoCodeController.findManageable(req, res);
+      if (!promoCode) return;
+
+      res.json({ success: true, data: promoCode });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a promo code
+   */
+  static async updatePromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const promoCode = await PromoCodeController.findManageable(req, res);
+      if (!promoCode) return;
+
+      PromoCodeController.applyChanges(promoCode, req.body);
+      if (req.user?.role === 'superadmin' && req.body.fundedBy) {
+        promoCode.fundedBy = req.body.fundedBy;
+      }
+
+      if (promoCode.validUntil <= promoCode.validFrom) {
+        res.status(400).json({ success: false, message: 'validUntil must be after validFrom' });
+        return;
+      }
+
+      await promoCode.save();
+
+      res.json({
+        success: true,
+        message: 'Promo code updated successfully',
+        data: promoCode
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a promo code, or deactivate it once it has been redeemed
+   */
+  static async deletePromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promoCode = await PromoCodeController.findManageable(req, res);
+      if (!promoCode) return;
+
+      // Redeemed codes are kept so service fee reports can still explain the discount
+      if (await PromoRedemption.exists({ promoCodeId: promoCode._id })) {
+        promoCode.isActive = false;
+        await promoCode.save();
+        res.json({ success: true, message: 'Promo code has redemptions and was deactivated', data: promoCode });
+        return;
+      }
+
+      await promoCode.deleteOne();
+      res.json({ success: true, message: 'Promo code deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Redemption history for a promo code
+   */
+  static async getRedemptions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const promoCode = await PromoCodeController.findManageable(req, res);
+      if (!promoCode) return;
+
+      const { redemptions, summary } = await PromoCodeService.getRedemptions(String(promoCode._id));
+
+      res.json({
+        success: true,
+        data: {
+          promoCode,
+          redemptions,
+          summary
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Preview the price of a booking with a promo code applied
+   */
+  static async validatePromoCode(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { code, stadiumId, fieldId, bookingDate, startTime, endTime } = req.body;
+
+      const stadium = await Stadium.findById(stadiumId);
+      const field = stadium?.fields?.find((f: any) => f._id?.toString() === fieldId);
+      if (!stadium || !field) {
+        res.status(404).json({ success: false, message: 'Stadium or field not found' });
+        return;
+      }
+
+      const pricingParams = {
+        field,
+        bookingDate,
+        startTime,
+        endTime,
+        loyalty: await PricingEngine.getLoyaltyDiscount(req.user?.userId as string),
+        tax: (await TaxService.getTaxForStadium(stadium)).tax
+      };
+      const { pricing: basePricing } = PricingEngine.calculate(pricingParams);
+
+      const promoCode = await PromoCodeService.resolve(code, req.user?.userId as string, {
+        stadiumId,
+        fieldType: field.fieldType,
+        bookingDate,
+        subtotal: basePricing.subtotal || basePricing.totalAmount,
+        currency: basePricing.currency
+      });
+
+      const { pricing } = PricingEngine.calculate({
+        ...pricingParams,
+        discounts: [PromoCodeService.toDiscountInput(promoCode)]
+      });
+
+      res.json({
+        success: true,
+        message: 'Promo code applied',
+        data: {
+          code: promoCode.code,
+          description: promoCode.description,
+          discountAmount: pricing.discounts?.find(d => d.code === promoCode.code)?.amount || 0,
+          pricing
+        }
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Promo code')) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  private static applyChanges(promoCode: IPromoCode, body: Record<string, any>): void {
+    for (const key of EDITABLE_FIELDS) {
+      if (body[key] !== undefined) {
+        (promoCode as any)[key] = body[key];
+      }
+    }
+  }
+
+  /**
+   * Load a promo code the current user may manage, responding when they may not
+   */
+  private static async findManageable(req: Request, res: Response): Promise<IPromoCode | null> {
+    const { promoCodeId } = req.params;
+    if (!mongoose.isValidObjectId(promoCodeId)) {
+      res.status(400).json({ success: false, message: 'Invalid promo code ID' });
+      return null;
+    }
+
+    const promoCode = await PromoCode.findById(promoCodeId);
+    if (!promoCode) {
+      res.status(404).json({ success: false, message: 'Promo code not found' });
+      return null;
+    }
+
+    if (req.user?.role === 'superadmin') {
+      return promoCode;
+    }
+
+    // Platform-wide codes belong to superadmins
+    if (!promoCode.stadiumId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return null;
+    }
+
+    return (await PromoCodeController.canManageStadium(req, res, promoCode.stadiumId.toString())) ? promoCode : null;
+  }
+
+  /**
+   * Only the stadium's owner or a superadmin can manage its codes
+   */
+  private static async canManageStadium(req: Request, res: Response, stadiumId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(stadiumId)) {
+      res.status(400).json({ success: false, message: 'Invalid stadium ID' });
+      return false;
+    }
+
+    const stadium = await Stadium.findById(stadiumId).select('ownerId');
+    if (!stadium) {
+      res.status(404).json({ success: false, message: 'Stadium not found' });
+      return false;
+    }
+
+    if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,226 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import Booking from '../models/Booking';
+import { RefundService } from '../services/refund.service';
+import { PaymentGatewayService } from '../services/payment-gateway.service';
+import { InvoiceRegistryService } from '../services/invoice-registry.service';
+
+export class RefundController {
+  /**
+   * Get all refunds for a booking
+   */
+  static async getBookingRefunds(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const isCustomer = booking.userId.toString() === req.user?.userId;
+      if (!isCustomer && !(await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role))) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: booking.refunds || [],
+        totals: RefundService.getTotals(booking)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Request a refund for a booking
+   */
+  static async requestRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { bookingId } = req.params;
+      const { amount, reason } = req.body;
+
+      if (!mongoose.isValidObjectId(bookingId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      const isCustomer = booking.userId.toString() === req.user?.userId;
+      const canManage = await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role);
+
+      if (!isCustomer && !canManage) {
+        res.status(403).json({ success: false, message: 'Access denied' });
+        return;
+      }
+
+      // Customers can only ask for refunds on cancelled bookings; owners may issue goodwill refunds
+      if (!canManage && booking.status !== 'cancelled') {
+        res.status(400).json({ success: false, message: 'Refunds can only be requested for cancelled bookings' });
+        return;
+      }
+
+      const refund = RefundService.requestRefund(booking, {
+        amount: amount !== undefined ? Number(amount) : undefined,
+        reason,
+        requestedBy: req.user?.userId as string
+      });
+
+      await booking.save();
+
+      res.status(201).json({
+        success: true,
+        message: 'Refund requested successfully',
+        data: refund
+      });
+    } catch (error: any) {
+      if (error.message?.startsWith('Refund amount')) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * Approve a refund (stadium owner or superadmin)
+   */
+  static async approveRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await RefundController.reviewRefund(req, res, next, 'approve');
+  }
+
+  /**
+   * Reject a refund (stadium owner or superadmin)
+   */
+  static async rejectRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await RefundController.reviewRefund(req, res, next, 'reject');
+  }
+
+  /**
+   * Mark an approved refund as paid out (stadium owner or superadmin)
+   */
+  static async payOutRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    await RefundController.reviewRefund(req, res, next, 'pay_out');
+  }
+
+  private static async reviewRefund(
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    action: 'approve' | 'reject' | 'pay_out'
+  ): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { bookingId, refundId } = req.params;
+
+      if (!mongoose.isValidObjectId(bookingId) || !mongoose.isValidObjectId(refundId)) {
+        res.status(400).json({ success: false, message: 'Invalid booking or refund ID' });
+        return;
+      }
+
+      const booking = await Booking.findById(bookingId);
+      if (!booking) {
+        res.status(404).json({ success: false, message: 'Booking not found' });
+        return;
+      }
+
+      if (!(await RefundService.canManageRefunds(booking, req.user?.userId, req.user?.role))) {
+        res.status(403).json({ success: false, message: 'Only the stadium owner or a superadmin can review refunds' });
+        return;
+      }
+
+      const userId = req.user?.userId as string;
+      let refund;
+      let message;
+
+      if (action === 'approve') {
+        refund = RefundService.approveRefund(booking, refundId, userId);
+        message = 'Refund approved';
+      } else if (action === 'reject') {
+        refund = RefundService.rejectRefund(booking, refundId, userId, req.body.reason);
+        message = 'Refund rejected';
+      } else {
+        let transactionReference = req.body.transactionReference;
+        // Card and e-wallet payments taken through a gateway are refunded through the same gateway
+        if (!transactionReference) {
+          const pendingRefund = (booking.refunds || []).find(r => r._id?.toString() === refundId);
+          if (pendingRefund?.status === 'approved') {
+            const gatewayRefund = await PaymentGatewayService.refundThroughGateway(booking, pendingRefund.amount, pendingRefund.reason);
+            if (gatewayRefund?.status === 'failed') {
+              res.status(502).json({ success: false, message: 'Payment provider rejected the refund' });
+              return;
+            }
+            transactionReference = gatewayRefund?.refundReference;
+          }
+        }
+
+        refund = RefundService.markPaidOut(booking, refundId, {
+          paymentMethod: req.body.paymentMethod,
+          transactionReference,
+          processedBy: userId
+        });
+        message = 'Refund marked as paid out';
+      }
+
+      await booking.save();
+
+      // Refunds on bookings that stay active reduce the invoice; cancellations were credited when cancelled
+      let creditNote = null;
+      if (action === 'pay_out' && booking.status !== 'cancelled') {
+        creditNote = await InvoiceRegistryService.issueCreditNote(booking, {
+          trigger: 'refund',
+          amount: refund.amount,
+          reason: refund.reason || 'Refund',
+          refundId: refund._id,
+          issuedBy: userId
+        });
+      }
+
+      res.json({
+        success: true,
+        message,
+        data: {
+          refund,
+          creditNote,
+          paymentStatus: booking.paymentStatus,
+          totals: RefundService.getTotals(booking)
+        }
+      });
+    } catch (error: any) {
+      if (error.message === 'Refund not found') {
+        res.status(404).json({ success: false, message: error.message });
+        return;
+      }
+      if (error.message?.includes('Current status')) {
+        res.status(400).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import Booking from '../models/Booking';
+import Booking, { IBooking } from '../models/Booking';
 import Stadium from '../models/Stadium';
 import User from '../models/User';
 import moment from 'moment-timezone';
@@ -26,6 +26,8 @@ export class ServiceFeeController {
       // Calculate service fees for each owner
       const serviceFeeReport = [];
       let totalServiceFee = 0;
+      let totalPlatformFunded = 0;
+      let totalTaxCollected = 0;
 
       for (const owner of stadiumOwners) {
         // Find all stadiums owned by this user
@@ -43,6 +45,8 @@ export class ServiceFeeController {
         // Calculate total revenue and service fee (using stadium-specific percentage)
         let totalRevenue = 0;
         let totalServiceFeeAmount = 0;
+        const promoDiscounts = ServiceFeeController.sumPromoDiscounts(bookings);
+        const totalTax = bookings.reduce((sum, booking) => sum + (booking.pricing.taxes || 0), 0);
         
         // Group bookings by stadium to calculate service fee per stadium
         const stadiumBookings: { [key: string]: { bookings: any[], revenue: number, serviceFee: number, percentage: number } } = {};
@@ -63,7 +67,7 @@ export class ServiceFeeController {
           stadiumBookings[stadiumId].bookings.push(booking);
           const bookingRevenue = booking.pricing.totalAmount;
           stadiumBookings[stadiumId].revenue += bookingRevenue;
-          stadiumBookings[stadiumId].serviceFee += (bookingRevenue * stadiumPercentage / 100);
+          stadiumBookings[stadiumId].serviceFee += (ServiceFeeController.getNetRevenue(booking) * stadiumPercentage / 100);
         }
         
         // Sum up revenue and service fees across all stadiums
@@ -73,6 +77,8 @@ export class ServiceFeeController {
         }
 
         totalServiceFee += totalServiceFeeAmount;
+        totalPlatformFunded += promoDiscounts.platformFunded;
+        totalTaxCollected += totalTax;
 
         if (totalServiceFeeAmount > 0) {
           serviceFeeReport.push({
@@ -86,7 +92,11 @@ export class ServiceFeeController {
             })),
             totalBookings: bookings.length,
             totalRevenue: parseFloat(totalRevenue.toFixed(2)),
+            totalTax: parseFloat(totalTax.toFixed(2)),
             serviceFee: parseFloat(totalServiceFeeAmount.toFixed(2)),
+            promoDiscounts,
+            // Platform-funded promo discounts are credited back to the owner
+            netServiceFee: parseFloat((totalServiceFeeAmount - promoDiscounts.platformFunded).toFixed(2)),
             period: {
               startDate,
               endDate
@@ -105,6 +115,9 @@ export class ServiceFeeController {
           summary: {
             totalOwners: serviceFeeReport.length,
             totalServiceFee: parseFloat(totalServiceFee.toFixed(2)),
+            totalTax: parseFloat(totalTaxCollected.toFixed(2)),
+            totalPlatformFundedDiscounts: parseFloat(totalPlatformFunded.toFixed(2)),
+            netServiceFee: parseFloat((totalServiceFee - totalPlatformFunded).toFixed(2)),
             period: {
               startDate,
               endDate
@@ -166,6 +179,7 @@ export class ServiceFeeController {
       // Calculate total revenue and service fee (using stadium-specific percentage)
       let totalRevenue = 0;
       let totalServiceFeeAmount = 0;
+      const promoDiscounts = ServiceFeeController.sumPromoDiscounts(bookings);
       
       // Group bookings by stadium to calculate service fee per stadium
       const stadiumBookings: { [key: string]: { bookings: any[], revenue: number, serviceFee: number, percentage: number, name: string } } = {};
@@ -188,7 +202,7 @@ export class ServiceFeeController {
         stadiumBookings[stadiumId].bookings.push(booking);
         const bookingRevenue = booking.pricing.totalAmount;
         stadiumBookings[stadiumId].revenue += bookingRevenue;
-        stadiumBookings[stadiumId].serviceFee += (bookingRevenue * stadiumPercentage / 100);
+        stadiumBookings[stadiumId].serviceFee += (ServiceFeeController.getNetRevenue(booking) * stadiumPercentage / 100);
       }
       
       // Sum up revenue and service fees across all stadiums
@@ -200,7 +214,8 @@ export class ServiceFeeController {
       // Format booking details with stadium-specific service fee percentages
       const bookingDetails = bookings.map(booking => {
         const stadiumPercentage = (booking.stadiumId as any).serviceFeePercentage || 10;
-        const serviceFeeAmount = booking.pricing.totalAmount * stadiumPercentage / 100;
+        const serviceFeeAmount = ServiceFeeController.getNetRevenue(booking) * stadiumPercentage / 100;
+        const promoDiscount = booking.pricing.discounts?.find(discount => discount.code);
         
         return {
           bookingId: booking._id,
@@ -211,7 +226,13 @@ export class ServiceFeeController {
           customerName: `${(booking.userId as any).firstName} ${(booking.userId as any).lastName}`,
           customerEmail: (booking.userId as any).email,
           amount: booking.pricing.totalAmount,
-          serviceFee: parseFloat(serviceFeeAmount.toFixed(2))
+          tax: booking.pricing.taxes || 0,
+          serviceFee: parseFloat(serviceFeeAmount.toFixed(2)),
+          promoDiscount: promoDiscount ? {
+            code: promoDiscount.code,
+            amount: promoDiscount.amount,
+            fundedBy: promoDiscount.fundedBy
+          } : undefined
         };
       });
 
@@ -236,7 +257,10 @@ export class ServiceFeeController {
           summary: {
             totalBookings: bookings.length,
             totalRevenue: parseFloat(totalRevenue.toFixed(2)),
-            serviceFee: parseFloat(totalServiceFeeAmount.toFixed(2))
+            totalTax: parseFloat(bookings.reduce((sum, booking) => sum + (booking.pricing.taxes || 0), 0).toFixed(2)),
+            serviceFee: parseFloat(totalServiceFeeAmount.toFixed(2)),
+            promoDiscounts,
+            netServiceFee: parseFloat((totalServiceFeeAmount - promoDiscounts.platformFunded).toFixed(2))
           }
         }
       });
@@ -244,4 +268,35 @@ export class ServiceFeeController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Booking revenue without the tax collected on behalf of the authorities, which carries no service fee
+   */
+  private static getNetRevenue(booking: IBooking): number {
+    return booking.pricing.totalAmount - (booking.pricing.taxes || 0);
+  }
+
+  /**
+   * Promo code discounts on bookings, split by who funded them
+   */
+  private static sumPromoDiscounts(bookings: IBooking[]): { platformFunded: number; stadiumFunded: number } {
+    let platformFunded = 0;
+    let stadiumFunded = 0;
+
+    for (const booking of bookings) {
+      for (const discount of booking.pricing?.discounts || []) {
+        if (!discount.code) continue;
+        if (discount.fundedBy === 'platform') {
+          platformFunded += discount.amount;
+        } else {
+          stadiumFunded += discount.amount;
+        }
+      }
+    }
+
+    return {
+      platformFunded: parseFloat(platformFunded.toFixed(2)),
+      stadiumFunded: parseFloat(stadiumFunded.toFixed(2))
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Stadium, { IStadium } from '../models/Stadium';
+import { HoldOwner, SLOT_UNAVAILABLE, SlotHoldService } from '../services/slot-hold.service';
+import AvailabilityService from '../utils/availability';
+
+export interface SlotConflictParams {
+  stadium: IStadium;
+  fieldId: string;
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+  holdOwner?: HoldOwner;
+}
+
+export class SlotHoldController {
+  /**
+   * Reserve a slot while the customer checks out. Pass the hold id when creating the booking.
+   */
+  static async createHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { stadiumId, fieldId, bookingDate, startTime, endTime } = req.body;
+
+      if (!moment(endTime, 'HH:mm').isAfter(moment(startTime, 'HH:mm'))) {
+        res.status(400).json({ success: false, message: 'End time must be after start time' });
+        return;
+      }
+
+      const stadium = await Stadium.findById(stadiumId);
+      if (!stadium) {
+        res.status(404).json({ success: false, message: 'Stadium not found' });
+        return;
+      }
+
+      const field = stadium.fields?.find((f: any) => f._id?.toString() === fieldId);
+      if (!field) {
+        res.status(404).json({ success: false, message: 'Field not found' });
+        return;
+      }
+
+      if (field.status !== 'active') {
+        res.status(400).json({ success: false, message: `Field is currently ${field.status}` });
+        return;
+      }
+
+      try {
+        const hold = await SlotHoldService.createHold({
+          stadiumId,
+          fieldId,
+          bookingDate,
+          startTime,
+          endTime,
+          userId: req.user?.userId
+        });
+
+        res.status(201).json({
+          success: true,
+          message: 'Time slot held',
+          data: hold
+        });
+      } catch (error: any) {
+        if (error.message !== SLOT_UNAVAILABLE) {
+          throw error;
+        }
+        await SlotHoldController.sendConflict(res, {
+          stadium,
+          fieldId,
+          bookingDate,
+          startTime,
+          endTime,
+          holdOwner: { userId: req.user?.userId }
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Give a held slot back before the hold expires
+   */
+  static async releaseHold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { holdId } = req.params;
+
+      if (!mongoose.isValidObjectId(holdId)) {
+        res.status(400).json({ success: false, message: 'Invalid hold ID' });
+        return;
+      }
+
+      const released = await SlotHoldService.releaseHold(holdId, req.user?.userId);
+      if (!released) {
+        res.status(404).json({ success: false, message: 'Hold not found or already expired' });
+        return;
+      }
+
+      res.json({ success: true, message: 'Time slot released' });
+    } catch (error: any) {
+      if (error.message === 'Access denied') {
+        res.status(403).json({ success: false, message: error.message });
+        return;
+      }
+      next(error);
+    }
+  }
+
+  /**
+   * 409 response for a slot that is booked or held, with free slots to choose instead
+   */
+  static async sendConflict(res: Response, params: SlotConflictParams): Promise<void> {
+    const alternatives = await AvailabilityService.findAlternatives(
+      params.stadium,
+      params.fieldId,
+      params.bookingDate,
+      params.startTime,
+      params.endTime,
+      params.holdOwner
+    );
+
+    res.status(409).json({
+      success: false,
+      message: SLOT_UNAVAILABLE,
+      data: {
+        requested: {
+          fieldId: params.fieldId,
+          bookingDate: params.bookingDate,
+          startTime: params.startTime,
+          endTime: params.endTime
+        },
+        alternatives
+      }
+    });
+  }
+}
@@ -4,7 +4,12 @@ import Stadium from '../models/Stadium';
 import User from '../models/User';
 import Booking from '../models/Booking';
 import AvailabilityService from '../utils/availability';
-import { Types } from 'mongoose';
+import { PricingEngine } from '../services/pricing-engine.service';
+import { TaxService } from '../services/tax.service';
+import { FieldRelationService } from '../services/field-relation.service';
+import { ReservationService } from '../services/reservation.service';
+import { SlotGeneratorService } from '../services/slot-generator.service';
+import { HolidayService } from '../services/holiday.service';
 
 export class StadiumController {
   /**
@@ -268,6 +273,14 @@ export class StadiumController {
         { new: true, runValidators: true }
       ).populate('ownerId', 'firstName lastName email');
 
+      // Upcoming bookings re-reserve their ground in case field compositions changed
+      if (req.body.fields) {
+        const { conflicts } = await ReservationService.backfill(new Date(), req.params.stadiumId);
+        if (conflicts.length > 0) {
+          console.warn(`Bookings overlapping after field changes at stadium ${req.params.stadiumId}: ${conflicts.join(', ')}`);
+        }
+      }
+
       res.json({
         success: true,
         message: 'Stadium updated successfully',
@@ -721,6 +734,7 @@ export class StadiumController {
 
       const duration = endMoment.diff(startMoment, 'hours', true);
       const fieldsData: any[] = [];
+      const holidays = await HolidayService.findEntries([stadium], date as string, date as string);
 
       // Check each field in the stadium
       if (stadium.fields && Array.isArray(stadium.fields)) {
@@ -755,16 +769,10 @@ export class StadiumController {
           if (!isAvailable) {
             // Find the conflicting booking
             const conflictingBooking = await Booking.findOne({
-              fieldId: new Types.ObjectId(fieldId),
+              ...FieldRelationService.bookingFilter(FieldRelationService.getRelatedIds(stadium.fields || [], [fieldId])),
               bookingDate: new Date(date as string),
-              $or: [
-                {
-                  $and: [
-                    { startTime: { $lt: endTime } },
-                    { endTime: { $gt: startTime } }
-                  ]
-                }
-              ],
+              startTime: { $lt: endTime },
+              endTime: { $gt: startTime },
               status: { $in: ['pending', 'confirmed'] }
             });
 
@@ -786,19 +794,15 @@ export class StadiumController {
             continue;
           }
 
-          // Check if slot is within field's operating hours
-          const dayOfWeek = moment(date as string).day();
-          const daySchedule = field.availabilitySchedule?.find((schedule: any) => 
-            schedule.dayOfWeek === dayOfWeek
-          );
-
-          if (!daySchedule) {
+          // Check if slot is within the field's opening hours, closures and holidays included
+          const calendarDay = HolidayService.describeDay(holidays, stadium, date as string, fieldId);
+          if (SlotGeneratorService.getOpenPeriods(field, date as string, calendarDay).length === 0) {
             fieldsData.push({
               id: fieldId,
               name: field.name,
               type: field.fieldType,
               isAvailable: false,
-              reason: 'Field is not open on this day',
+              reason: calendarDay.isClosed ? `Field is closed on this day (${calendarDay.reason})` : 'Field is not open on this day',
               pricing: {
                 rate,
                 duration,
@@ -809,14 +813,8 @@ export class StadiumController {
             continue;
           }
 
-          // Check if the requested time falls within any available slot
-          const isWithinOperatingHours = daySchedule.timeSlots.some((slot: any) => 
-            slot.isAvailable &&
-            slot.startTime <= (startTime as string) &&
-            slot.endTime >= (endTime as string)
-          );
-
-          if (!isWithinOperatingHours) {
+          // Check if the requested time falls within one open period
+          if (!SlotGeneratorService.isOpen(field, date as string, startTime as string, endTime as string, calendarDay)) {
             fieldsData.push({
               id: fieldId,
               name: field.name,
@@ -1073,23 +1071,25 @@ export class StadiumController {
         endTime as string
       );
 
-      const duration = endMoment.diff(startMoment, 'hours', true);
-      const rate = field.pricing.baseHourlyRate;
-      const total = rate * duration;
+      const calendarDay = await HolidayService.getCalendarDay(stadium, date as string, fieldId);
+      const { durationHours: duration, pricing: quote } = PricingEngine.calculate({
+        field,
+        bookingDate: date as string,
+        startTime: startTime as string,
+        endTime: endTime as string,
+        tax: (await TaxService.getTaxForStadium(stadium)).tax,
+        holiday: calendarDay.holiday
+      });
+      const rate = quote.baseRate;
+      const total = quote.totalAmount;
 
       if (!isAvailable) {
         // Find the conflicting booking
         const conflictingBooking = await Booking.findOne({
-          fieldId: new Types.ObjectId(fieldId),
+          ...FieldRelationService.bookingFilter(FieldRelationService.getRelatedIds(stadium.fields || [], [fieldId])),
           bookingDate: new Date(date as string),
-          $or: [
-            {
-              $and: [
-                { startTime: { $lt: endTime } },
-                { endTime: { $gt: startTime } }
-              ]
-            }
-          ],
+          startTime: { $lt: endTime },
+          endTime: { $gt: startTime },
           status: { $in: ['pending', 'confirmed'] }
         });
 
@@ -1111,52 +1111,41 @@ export class StadiumController {
         return;
       }
 
-      // Check if slot is within field's operating hours
-      // const dayOfWeek = moment(date as string).day();
-      // const daySchedule = field.availabilitySchedule?.find((schedule: any) => 
-      //   schedule.dayOfWeek === dayOfWeek
-      // );
-
-      // if (!daySchedule) {
-      //   res.json({
-      //     success: true,
-      //     data: {
-      //       isAvailable: false,
-      //       reason: 'Field is not open on this day',
-      //       pricing: {
-      //         rate,
-      //         duration,
-      //         total,
-      //         currency: field.pricing.currency || 'LAK'
-      //       }
-      //     }
-      //   });
-      //   return;
-      // }
-
-      // Check if the requested time falls within any available slot
-      // const isWithinOperatingHours = daySchedule.timeSlots.some((slot: any) => 
-      //   slot.isAvailable &&
-      //   slot.startTime <= (startTime as string) &&
-      //   slot.endTime >= (endTime as string)
-      // );
-
-      // if (!isWithinOperatingHours) {
-      //   res.json({
-      //     success: true,
-      //     data: {
-      //       isAvailable: false,
-      //       reason: 'Requested time is outside field operating hours',
-      //       pricing: {
-      //         rate,
-      //         duration,
-      //         total,
-      //         currency: field.pricing.currency || 'LAK'
-      //       }
-      //     }
-      //   });
-      //   return;
-      // }
+      // Check if slot is within the field's opening hours, closures and holidays included
+      if (SlotGeneratorService.getOpenPeriods(field, date as string, calendarDay).length === 0) {
+        res.json({
+          success: true,
+          data: {
+            isAvailable: false,
+            reason: calendarDay.isClosed ? `Field is closed on this day (${calendarDay.reason})` : 'Field is not open on this day',
+            pricing: {
+              rate,
+              duration,
+              total,
+              currency: field.pricing.currency || 'LAK'
+            }
+          }
+        });
+        return;
+      }
+
+      // Check if the requested time falls within one open period
+      if (!SlotGeneratorService.isOpen(field, date as string, startTime as string, endTime as string, calendarDay)) {
+        res.json({
+          success: true,
+          data: {
+            isAvailable: false,
+            reason: 'Requested time is outside field operating hours',
+            pricing: {
+              rate,
+              duration,
+              total,
+              currency: field.pricing.currency || 'LAK'
+            }
+          }
+        });
+        return;
+      }
 
       // Get available referees for this time slot
       const availableReferees = stadium.staff ? await AvailabilityService.getAvailableReferees(
@@ -1190,6 +1179,77 @@ export class StadiumController {
     }
   }
 
+
+  /**
+   * Price quote for a field and time range (public)
+   */
+  static async getFieldQuote(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+        return;
+      }
+
+      const { stadiumId, fieldId } = req.params;
+      const { date, startTime, endTime } = req.query;
+
+      const stadium = await Stadium.findById(stadiumId);
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found',
+        });
+        return;
+      }
+
+      const field = stadium.fields?.find((f: any) => 
+        f._id && f._id.toString() === fieldId
+      );
+
+      if (!field) {
+        res.status(404).json({
+          success: false,
+          message: 'Field not found',
+        });
+        return;
+      }
+
+      const { durationHours, pricing } = PricingEngine.calculate({
+        field,
+        bookingDate: date as string,
+        startTime: startTime as string,
+        endTime: endTime as string,
+        tax: (await TaxService.getTaxForStadium(stadium)).tax,
+        holiday: (await HolidayService.getCalendarDay(stadium, date as string, fieldId)).holiday
+      });
+
+      res.json({
+        success: true,
+        data: {
+          stadiumId,
+          fieldId,
+          date,
+          startTime,
+          endTime,
+          durationHours,
+          ...pricing
+        }
+      });
+    } catch (error: any) {
+      if (error.message === 'End time must be after start time') {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+      next(error);
+    }
+  }
   /**
    * Get nearby stadiums based on user's location
    */
@@ -1278,4 +1338,158 @@ export class StadiumController {
       next(error);
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the deposit customers must pay to confirm a booking
+   */
+  static async getDepositPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const stadium = await Stadium.findById(req.params.stadiumId).select('depositPolicy');
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: stadium.depositPolicy || { enabled: false },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update the deposit rule applied to new bookings
+   */
+  static async updateDepositPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+        return;
+      }
+
+      const stadium = await Stadium.findById(req.params.stadiumId);
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found',
+        });
+        return;
+      }
+
+      // Check ownership
+      if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to manage this stadium',
+        });
+        return;
+      }
+
+      const { enabled, type, amount, balanceDue, balanceDueHoursBefore, holdMinutes } = req.body;
+      stadium.set('depositPolicy', {
+        enabled,
+        type,
+        amount,
+        balanceDue,
+        balanceDueHoursBefore,
+        holdMinutes,
+      });
+      await stadium.save();
+
+      res.json({
+        success: true,
+        message: 'Deposit policy updated successfully',
+        data: stadium.depositPolicy,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the plans members can subscribe a membership series to
+   */
+  static async getMembershipPlans(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const stadium = await Stadium.findById(req.params.stadiumId).select('membershipPlans');
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: stadium.membershipPlans || [],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the stadium's membership plans; series already created keep the plan they were billed under
+   */
+  static async updateMembershipPlans(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({
+          success: false,
+          errors: errors.array(),
+        });
+        return;
+      }
+
+      const stadium = await Stadium.findById(req.params.stadiumId);
+      if (!stadium) {
+        res.status(404).json({
+          success: false,
+          message: 'Stadium not found',
+        });
+        return;
+      }
+
+      // Check ownership
+      if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+        res.status(403).json({
+          success: false,
+          message: 'Not authorized to manage this stadium',
+        });
+        return;
+      }
+
+      stadium.set('membershipPlans', req.body.plans.map((plan: any) => ({
+        _id: plan._id,
+        name: plan.name,
+        billingCycle: plan.billingCycle,
+        occurrencesPerTerm: plan.billingCycle === 'term' ? plan.occurrencesPerTerm : undefined,
+        upfrontDiscountPercent: plan.billingCycle === 'upfront' ? plan.upfrontDiscountPercent : undefined,
+        dueDaysBefore: plan.dueDaysBefore,
+        reminderDays: plan.reminderDays,
+        suspendAfterDays: plan.suspendAfterDays,
+        isActive: plan.isActive,
+      })));
+      await stadium.save();
+
+      res.json({
+        success: true,
+        message: 'Membership plans updated successfully',
+        data: stadium.membershipPlans,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import TaxConfig, { ITaxConfig } from '../models/TaxConfig';
+import Stadium from '../models/Stadium';
+import { TaxService } from '../services/tax.service';
+
+const EDITABLE_FIELDS = ['name', 'rate', 'inclusive', 'isActive'] as const;
+
+export class TaxConfigController {
+  /**
+   * List tax configurations the current user can see
+   */
+  static async getTaxConfigs(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      let filter: Record<string, any> = {};
+
+      // Owners see their stadiums' configurations and the country rates that apply to them
+      if (req.user?.role !== 'superadmin') {
+        const stadiums = await Stadium.find({ ownerId: req.user?.userId }).select('_id address.country');
+        const countries = [...new Set(stadiums.map(stadium => TaxService.normalizeCountry(stadium.address?.country)))];
+        filter = {
+          $or: [
+            { scope: 'stadium', stadiumId: { $in: stadiums.map(stadium => stadium._id) } },
+            { scope: 'country', country: { $in: countries } }
+          ]
+        };
+      }
+
+      const taxConfigs = await TaxConfig.find(filter).sort({ scope: 1, country: 1 });
+
+      res.json({ success: true, data: taxConfigs });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create or update the tax configuration for a country
+   */
+  static async upsertCountryTaxConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const country = TaxService.normalizeCountry(req.params.country);
+      const existing = await TaxConfig.findOne({ scope: 'country', country });
+      const taxConfig = existing || new TaxConfig({ scope: 'country', country });
+
+      TaxConfigController.applyChanges(taxConfig, req.body, true);
+      taxConfig.updatedBy = new mongoose.Types.ObjectId(req.user?.userId);
+      await taxConfig.save();
+
+      res.status(existing ? 200 : 201).json({
+        success: true,
+        message: existing ? 'Tax configuration updated successfully' : 'Tax configuration created successfully',
+        data: taxConfig
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create or update a stadium's own tax configuration, which overrides its country's
+   */
+  static async upsertStadiumTaxConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const { stadiumId } = req.params;
+      if (!(await TaxConfigController.canManageStadium(req, res, stadiumId))) {
+        return;
+      }
+
+      const existing = await TaxConfig.findOne({ scope: 'stadium', stadiumId });
+      const taxConfig = existing || new TaxConfig({ scope: 'stadium', stadiumId });
+
+      // Exemptions are granted by the platform, not by owners themselves
+      TaxConfigController.applyChanges(taxConfig, req.body, req.user?.role === 'superadmin');
+      taxConfig.updatedBy = new mongoose.Types.ObjectId(req.user?.userId);
+      await taxConfig.save();
+
+      res.status(existing ? 200 : 201).json({
+        success: true,
+        message: existing ? 'Tax configuration updated successfully' : 'Tax configuration created successfully',
+        data: taxConfig
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Tax that new bookings at a stadium will be charged
+   */
+  static async getStadiumTax(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { stadiumId } = req.params;
+      if (!(await TaxConfigController.canManageStadium(req, res, stadiumId))) {
+        return;
+      }
+
+      const stadium = await Stadium.findById(stadiumId).select('ownerId address');
+      const resolved = await TaxService.getTaxForStadium(stadium!);
+
+      res.json({ success: true, data: resolved });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a tax configuration
+   */
+  static async deleteTaxConfig(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { taxConfigId } = req.params;
+      if (!mongoose.isValidObjectId(taxConfigId)) {
+        res.status(400).json({ success: false, message: 'Invalid tax configuration ID' });
+        return;
+      }
+
+      const taxConfig = await TaxConfig.findById(taxConfigId);
+      if (!taxConfig) {
+        res.status(404).json({ success: false, message: 'Tax configuration not found' });
+        return;
+      }
+
+      // Country rates belong to superadmins
+      if (req.user?.role !== 'superadmin') {
+        if (taxConfig.scope !== 'stadium' || !taxConfig.stadiumId) {
+          res.status(403).json({ success: false, message: 'Access denied' });
+          return;
+        }
+        if (!(await TaxConfigController.canManageStadium(req, res, taxConfig.stadiumId.toString()))) {
+          return;
+        }
+      }
+
+      await taxConfig.deleteOne();
+      res.json({ success: true, message: 'Tax configuration deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private static applyChanges(taxConfig: ITaxConfig, body: Record<string, any>, canEditExemptions: boolean): void {
+    for (const key of EDITABLE_FIELDS) {
+      if (body[key] !== undefined) {
+        (taxConfig as any)[key] = body[key];
+      }
+    }
+    if (canEditExemptions && body.exemptions !== undefined) {
+      taxConfig.exemptions = body.exemptions;
+    }
+  }
+
+  /**
+   * Only the stadium's owner or a superadmin can manage its tax configuration
+   */
+  private static async canManageStadium(req: Request, res: Response, stadiumId: string): Promise<boolean> {
+    if (!mongoose.isValidObjectId(stadiumId)) {
+      res.status(400).json({ success: false, message: 'Invalid stadium ID' });
+      return false;
+    }
+
+    const stadium = await Stadium.findById(stadiumId).select('ownerId');
+    if (!stadium) {
+      res.status(404).json({ success: false, message: 'Stadium not found' });
+      return false;
+    }
+
+    if (req.user?.role !== 'superadmin' && stadium.ownerId.toString() !== req.user?.userId) {
+      res.status(403).json({ success: false, message: 'Access denied' });
+      return false;
+    }
+
+    return true;
+  }
+}
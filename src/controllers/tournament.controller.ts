@@ -0,0 +1,344 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { TournamentParams, TournamentService } from '../services/tournament.service';
+
+export class TournamentController {
+  /**
+   * Tournaments open for registration, in progress or completed, soonest first
+   */
+  static async list(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const { stadiumId, status, page = 1, limit = 10 } = req.query;
+      const pageNumber = parseInt(page as string);
+      const limitNumber = parseInt(limit as string);
+      const { tournaments, total } = await TournamentService.list(
+        { stadiumId: stadiumId as string | undefined, status: status as any },
+        pageNumber,
+        limitNumber
+      );
+
+      res.json({
+        success: true,
+        data: tournaments,
+        pagination: {
+          page: pageNumber,
+          limit: limitNumber,
+          total,
+          pages: Math.ceil(total / limitNumber)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getTournament(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tournament = await TournamentService.get(req.params.tournamentId);
+
+      res.json({ success: true, data: TournamentService.getPublicView(tournament) });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async getFixtures(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tournament = await TournamentService.get(req.params.tournamentId);
+      const fixtures = [...tournament.fixtures].sort((a, b) => a.matchNumber - b.matchNumber);
+
+      res.json({ success: true, data: fixtures });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async getStandings(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tournament = await TournamentService.get(req.params.tournamentId);
+
+      res.json({ success: true, data: TournamentService.getStandings(tournament) });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Teams with their captain's contact and registration fee payments, for the organizer
+   */
+  static async getTeams(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const tournament = await TournamentService.getManageable(req.params.tournamentId, req.user?.userId || '', req.user?.role);
+
+      res.json({ success: true, data: tournament.teams });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const tournament = await TournamentService.create(TournamentController.toParams(req), req.user?.userId || '');
+
+      res.status(201).json({ success: true, message: 'Tournament created', data: tournament });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Cancel a tournament with the bookings of its unplayed matches
+   */
+  static async cancel(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const result = await TournamentService.cancel(
+        req.params.tournamentId,
+        req.body?.reason || 'Tournament cancelled',
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({
+        success: true,
+        message: result.kept.length
+          ? `Tournament cancelled (${result.kept.length} bookings kept under the cancellation policy)`
+          : 'Tournament cancelled',
+        data: result
+      });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async registerTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const { name, contactPhone, players } = req.body;
+      const { team } = await TournamentService.registerTeam(req.params.tournamentId, req.user?.userId || '', {
+        name,
+        contactPhone,
+        players: players !== undefined ? Number(players) : undefined
+      });
+
+      res.status(201).json({
+        success: true,
+        message: team.status === 'confirmed' ? 'Team registered' : 'Team registered, pending the registration fee',
+        data: team
+      });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async withdrawTeam(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const team = await TournamentService.withdrawTeam(req.params.tournamentId, req.params.teamId, req.user?.userId || '', req.user?.role);
+
+      res.json({ success: true, message: 'Team withdrawn', data: team });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async recordFeePayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const { amount, paymentMethod, transactionId } = req.body;
+      const team = await TournamentService.recordFeePayment(
+        req.params.tournamentId,
+        req.params.teamId,
+        { amount: Number(amount), paymentMethod, transactionId },
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({ success: true, message: 'Registration fee payment recorded', data: team });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async adjustPoints(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const { points, reason } = req.body;
+      const team = await TournamentService.adjustPoints(
+        req.params.tournamentId,
+        req.params.teamId,
+        Number(points),
+        reason,
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({ success: true, message: 'Points adjusted', data: team });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async generateFixtures(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const tournament = await TournamentService.generateFixtures(req.params.tournamentId, req.user?.userId || '', req.user?.role);
+
+      res.json({
+        success: true,
+        message: `${tournament.fixtures.length} fixtures drawn`,
+        data: tournament.fixtures
+      });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Book free field slots for the fixtures not scheduled yet
+   */
+  static async scheduleFixtures(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const result = await TournamentService.scheduleFixtures(req.params.tournamentId, req.user?.userId || '', req.user?.role);
+
+      res.json({
+        success: true,
+        message: `${result.scheduled.length} fixtures scheduled, ${result.unscheduled.length} not scheduled`,
+        data: result
+      });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async recordResult(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const { homeScore, awayScore, homePenalties, awayPenalties } = req.body;
+      const { fixture } = await TournamentService.recordResult(
+        req.params.tournamentId,
+        req.params.fixtureId,
+        {
+          homeScore: Number(homeScore),
+          awayScore: Number(awayScore),
+          homePenalties: homePenalties !== undefined ? Number(homePenalties) : undefined,
+          awayPenalties: awayPenalties !== undefined ? Number(awayPenalties) : undefined
+        },
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({ success: true, message: 'Result recorded', data: fixture });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async assignReferee(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!TournamentController.isValid(req, res)) return;
+
+      const fixture = await TournamentService.assignReferee(
+        req.params.tournamentId,
+        req.params.fixtureId,
+        req.body.staffId,
+        req.user?.userId || '',
+        req.user?.role
+      );
+
+      res.json({ success: true, message: `Referee ${fixture.referee?.name} assigned`, data: fixture });
+    } catch (error) {
+      if (TournamentController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  private static isValid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return false;
+    }
+    return true;
+  }
+
+  private static toParams(req: Request): TournamentParams {
+    const {
+      name, description, stadiumId, format, fieldType, fieldIds, startDate, endDate, registrationDeadline,
+      maxTeams, registrationFee, matchDurationMinutes, legs, groupCount, advancePerGroup, points
+    } = req.body;
+    return {
+      name,
+      description,
+      stadiumId,
+      format,
+      fieldType,
+      fieldIds,
+      startDate,
+      endDate,
+      registrationDeadline,
+      maxTeams: maxTeams !== undefined ? Number(maxTeams) : undefined,
+      registrationFee: registrationFee !== undefined ? Number(registrationFee) : undefined,
+      matchDurationMinutes: matchDurationMinutes !== undefined ? Number(matchDurationMinutes) : undefined,
+      legs: legs !== undefined ? Number(legs) as 1 | 2 : undefined,
+      groupCount: groupCount !== undefined ? Number(groupCount) : undefined,
+      advancePerGroup: advancePerGroup !== undefined ? Number(advancePerGroup) : undefined,
+      points
+    };
+  }
+
+  /**
+   * Answer the errors the tournament service raises for bad requests; false for anything else
+   */
+  private static handleError(error: any, res: Response): boolean {
+    const message: string = error?.message || '';
+    if (message.endsWith('not found')) {
+      res.status(404).json({ success: false, message });
+      return true;
+    }
+    if (message.startsWith('Not authorized')) {
+      res.status(403).json({ success: false, message });
+      return true;
+    }
+    if (['A team with this name', 'You have already registered', 'Referee is already assigned', 'Tournament is full'].some(prefix => message.startsWith(prefix))) {
+      res.status(409).json({ success: false, message });
+      return true;
+    }
+    if (
+      ['Tournament', 'Team', 'Match', 'Knockout', 'Cannot change', 'Payment exceeds', 'Referee is not available', 'Stadium has no', 'Invalid phone number']
+        .some(prefix => message.startsWith(prefix))
+    ) {
+      res.status(400).json({ success: false, message });
+      return true;
+    }
+    return false;
+  }
+}
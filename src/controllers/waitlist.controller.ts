@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { SLOT_UNAVAILABLE } from '../services/slot-hold.service';
+import { WaitlistService } from '../services/waitlist.service';
+
+export class WaitlistController {
+  /**
+   * Join the waitlist for a taken slot on a field, or on any field of a type
+   */
+  static async join(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!WaitlistController.isValid(req, res)) return;
+
+      const { stadiumId, fieldId, fieldType, bookingDate, startTime, endTime } = req.body;
+      const result = await WaitlistService.join({
+        userId: req.user?.userId || '',
+        stadiumId,
+        fieldId,
+        fieldType: fieldId ? undefined : fieldType,
+        bookingDate,
+        startTime,
+        endTime
+      });
+
+      res.status(201).json({
+        success: true,
+        message: `Added to the waitlist (position ${result.position})`,
+        data: result
+      });
+    } catch (error) {
+      if (WaitlistController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Current user's waitlist entries for upcoming dates, with their place in line
+   */
+  static async getMyEntries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entries = await WaitlistService.getUserEntries(req.user?.userId || '');
+      const data = await Promise.all(entries.map(async entry => ({
+        ...entry.toObject(),
+        position: await WaitlistService.getPosition(entry)
+      })));
+
+      res.json({ success: true, data });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async leave(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!WaitlistController.isValid(req, res)) return;
+
+      const entry = await WaitlistService.leave(req.params.entryId, req.user?.userId || '');
+
+      res.json({ success: true, message: 'Removed from the waitlist', data: entry });
+    } catch (error) {
+      if (WaitlistController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * The offer behind a claim link
+   */
+  static async getOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entry, offer } = await WaitlistService.getOffer(req.params.token, req.user?.userId || '');
+      await entry.populate('stadiumId', 'name address');
+
+      res.json({ success: true, data: { entry, offer } });
+    } catch (error) {
+      if (WaitlistController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  /**
+   * Book the slot held by an offer
+   */
+  static async claimOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await WaitlistService.claimOffer(req.params.token, req.user?.userId || '');
+
+      res.status(201).json({
+        success: true,
+        message: 'Booking created successfully',
+        data: result
+      });
+    } catch (error) {
+      if (WaitlistController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  static async declineOffer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entry = await WaitlistService.declineOffer(req.params.token, req.user?.userId || '');
+
+      res.json({ success: true, message: 'Offer declined', data: entry });
+    } catch (error) {
+      if (WaitlistController.handleError(error, res)) return;
+      next(error);
+    }
+  }
+
+  private static isValid(req: Request, res: Response): boolean {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, errors: errors.array() });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Answer the errors the waitlist service raises for bad requests; false for anything else
+   */
+  private static handleError(error: any, res: Response): boolean {
+    const message: string = error?.message || '';
+    if (message.endsWith('not found')) {
+      res.status(404).json({ success: false, message });
+      return true;
+    }
+    if (message.startsWith('Not authorized')) {
+      res.status(403).json({ success: false, message });
+      return true;
+    }
+    if (message === SLOT_UNAVAILABLE || message.startsWith('Already on the waitlist') || message.startsWith('Time slot is available')) {
+      res.status(409).json({ success: false, message });
+      return true;
+    }
+    if (message.startsWith('Waitlist') || message.startsWith('End time')) {
+      res.status(400).json({ success: false, message });
+      return true;
+    }
+    return false;
+  }
+}
@@ -39,3 +39,40 @@ export const uploadStadiumImages = multer({
     }
   },
 });
+
+const slipDir = path.join(__dirname, '../../uploads/payment-slips');
+if (!fs.existsSync(slipDir)) {
+  fs.mkdirSync(slipDir, { recursive: true });
+}
+
+const slipStorage = multer.diskStorage({
+  destination: (
+    _req: Express.Request | any,
+    _file: Express.Multer.File,
+    cb: (error: Error | null, destination: string) => void
+  ) => {
+    cb(null, slipDir);
+  },
+  filename: (
+    _req: Express.Request | any,
+    file: Express.Multer.File,
+    cb: (error: Error | null, filename: string) => void
+  ) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+    cb(null, 'slip-' + uniqueSuffix + path.extname(file.originalname));
+  },
+});
+
+export const uploadPaymentSlip = multer({
+  storage: slipStorage,
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB max
+  fileFilter: (_req: Express.Request | any, file, cb) => {
+    const allowed = /jpeg|jpg|png|webp/;
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (allowed.test(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only images (jpeg, jpg, png, webp) are allowed'));
+    }
+  },
+});
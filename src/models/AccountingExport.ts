@@ -0,0 +1,59 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IAccountingExport extends Document {
+  userId: mongoose.Types.ObjectId;
+  report: 'journal' | 'ledger';
+  stadiumId?: mongoose.Types.ObjectId | null; // Null when the export covers every stadium the user can see
+  format: 'json' | 'csv' | 'xlsx';
+  from?: Date;
+  until: Date; // Cursor for the next incremental export
+  incremental: boolean;
+  rowCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const accountingExportSchema: Schema<IAccountingExport> = new mongoose.Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  report: {
+    type: String,
+    enum: ['journal', 'ledger'],
+    required: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    default: null
+  },
+  format: {
+    type: String,
+    enum: ['json', 'csv', 'xlsx'],
+    required: true
+  },
+  from: Date,
+  until: {
+    type: Date,
+    required: true
+  },
+  incremental: {
+    type: Boolean,
+    default: false
+  },
+  rowCount: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Latest incremental export per user, report and stadium
+accountingExportSchema.index({ userId: 1, report: 1, stadiumId: 1, incremental: 1, until: -1 });
+
+const AccountingExport: Model<IAccountingExport> = mongoose.model<IAccountingExport>('AccountingExport', accountingExportSchema);
+
+export default AccountingExport;
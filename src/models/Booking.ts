@@ -1,5 +1,7 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
-import { IRefereeCharge, IDiscount, IPayment } from '../types/booking.types';
+import { CounterService } from '../services/counter.service';
+import { ReservationService } from '../services/reservation.service';
+import { IBillSplit, IBillSplitParticipant, IBookingDeposit, IRefereeCharge, IDiscount, IOpenMatch, IOpenMatchRequest, IPayment, IPaymentSlip, IPricingLineItem, IRefund, ITaxDetails } from '../types/booking.types';
 
 interface IAssignedStaff {
   staffId: mongoose.Types.ObjectId;
@@ -22,6 +24,7 @@ interface ICancellation {
   cancelledBy: mongoose.Types.ObjectId;
   reason?: string;
   refundAmount?: number;
+  cancellationFee?: number;
   refundStatus?: string;
 }
 
@@ -35,6 +38,8 @@ interface IHistoryItem {
 }
 
 interface IMembershipDetails {
+  seriesId?: mongoose.Types.ObjectId; // MembershipSeries the occurrence belongs to
+  billingCycleId?: mongoose.Types.ObjectId; // Billing cycle of the series the occurrence is invoiced and paid with
   membershipStartDate: Date;
   membershipEndDate?: Date;
   recurrencePattern: 'weekly' | 'biweekly' | 'monthly';
@@ -45,13 +50,22 @@ interface IMembershipDetails {
   isActive: boolean;
 }
 
+interface ITournamentDetails {
+  tournamentId: mongoose.Types.ObjectId;
+  fixtureId: mongoose.Types.ObjectId; // Fixture of the tournament played in the booking
+  matchNumber: number;
+}
+
 interface IPricing {
   baseRate: number;
+  subtotal?: number;
   totalAmount: number;
   currency: string;
   taxes?: number;
+  taxDetails?: ITaxDetails;
   refereeCharges?: IRefereeCharge[];
   discounts?: IDiscount[];
+  lineItems?: IPricingLineItem[];
 }
 
 export interface IBooking extends Document {
@@ -59,21 +73,27 @@ export interface IBooking extends Document {
   userId: mongoose.Types.ObjectId;
   stadiumId: mongoose.Types.ObjectId;
   fieldId: mongoose.Types.ObjectId;
+  additionalFieldIds?: mongoose.Types.ObjectId[]; // Further fields booked together with fieldId
   bookingDate: Date;
   startTime: string;
   endTime: string;
   durationHours: number;
   pricing: IPricing;
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  paymentStatus: 'pending' | 'partially_paid' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
   bookingType: 'regular' | 'tournament' | 'training' | 'event' | 'membership';
   teamInfo?: ITeamInfo;
   notes?: string;
   specialRequests?: string[];
   assignedStaff?: IAssignedStaff[];
   payments?: import('../types/booking.types').IPayment[];
+  refunds?: IRefund[];
   cancellation?: ICancellation;
+  deposit?: IBookingDeposit;
+  billSplit?: IBillSplit;
+  openMatch?: IOpenMatch; // Published for other users to join as opponents or players
   membershipDetails?: IMembershipDetails;
+  tournamentDetails?: ITournamentDetails;
   history: IHistoryItem[];
 }
 
@@ -88,9 +108,48 @@ const refereeChargeSchema = new Schema<IRefereeCharge>({
 const discountSchema = new Schema<IDiscount>({
   type: { type: String, required: true },
   amount: { type: Number, required: true },
-  description: { type: String }
+  description: { type: String },
+  promoCodeId: { type: Schema.Types.ObjectId, ref: 'PromoCode' },
+  code: { type: String },
+  fundedBy: { type: String, enum: ['platform', 'stadium'] }
 });
 
+const pricingLineItemSchema = new Schema<IPricingLineItem>({
+  type: {
+    type: String,
+    enum: ['field', 'referee', 'discount', 'loyalty_discount', 'tax'],
+    required: true
+  },
+  description: { type: String, required: true },
+  quantity: { type: Number, default: 1 },
+  unitPrice: { type: Number, required: true },
+  total: { type: Number, required: true },
+  rateSource: {
+    type: String,
+    enum: ['special_date', 'time_slot', 'pricing_tier', 'seasonal', 'holiday', 'base']
+  },
+  startTime: String,
+  endTime: String
+}, { _id: false });
+
+const paymentSlipSchema = new Schema<IPaymentSlip>({
+  imageUrl: { type: String, required: true },
+  imageHash: { type: String, required: true },
+  transferredAt: Date,
+  transactionReference: String,
+  reviewStatus: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  submittedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  submittedAt: { type: Date, default: Date.now },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: Date,
+  rejectionReason: String,
+  possibleDuplicateOf: { type: Schema.Types.ObjectId }
+}, { _id: false });
+
 const paymentSchema = new Schema<IPayment>({
   paymentMethod: {
     type: String,
@@ -110,10 +169,38 @@ const paymentSchema = new Schema<IPayment>({
   accountName: { type: String }, // Account holder name
   transactionId: String,
   gatewayResponse: Schema.Types.Mixed,
+  refundId: { type: Schema.Types.ObjectId },
+  provider: String,
+  intentId: String,
+  idempotencyKey: String,
+  slip: paymentSlipSchema,
+  participantId: { type: Schema.Types.ObjectId },
   processedAt: Date,
   createdAt: { type: Date, default: Date.now }
 });
 
+const refundSchema = new Schema<IRefund>({
+  amount: { type: Number, required: true, min: 0 },
+  currency: { type: String, default: 'LAK' },
+  status: {
+    type: String,
+    enum: ['requested', 'approved', 'paid_out', 'rejected'],
+    default: 'requested'
+  },
+  reason: String,
+  requestedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  requestedAt: { type: Date, default: Date.now },
+  reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  reviewedAt: Date,
+  rejectionReason: String,
+  paymentMethod: {
+    type: String,
+    enum: ['credit_card', 'qrcode', 'bank_transfer', 'digital_wallet', 'cash']
+  },
+  transactionReference: String,
+  paidOutAt: Date
+});
+
 const assignedStaffSchema = new Schema<IAssignedStaff>({
   staffId: { type: Schema.Types.ObjectId, required: true },
   staffName: { type: String, required: true },
@@ -142,9 +229,92 @@ const cancellationSchema = new Schema<ICancellation>({
   cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
   reason: String,
   refundAmount: Number,
+  cancellationFee: Number,
   refundStatus: String
 });
 
+const depositSchema = new Schema<IBookingDeposit>({
+  requiredAmount: { type: Number, required: true, min: 0 },
+  balanceDue: {
+    type: String,
+    enum: ['at_venue', 'before_kickoff'],
+    default: 'at_venue'
+  },
+  balanceDueAt: Date,
+  holdExpiresAt: { type: Date, required: true },
+  receivedAt: Date
+}, { _id: false });
+
+const billSplitParticipantSchema = new Schema<IBillSplitParticipant>({
+  phone: { type: String, required: true },
+  name: String,
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  isOrganizer: { type: Boolean, default: false },
+  shareAmount: { type: Number, required: true, min: 0 },
+  paidAmount: { type: Number, default: 0 },
+  status: {
+    type: String,
+    enum: ['pending', 'partially_paid', 'paid'],
+    default: 'pending'
+  },
+  token: { type: String, required: true },
+  invitedAt: { type: Date, default: Date.now },
+  paidAt: Date
+});
+
+const billSplitSchema = new Schema<IBillSplit>({
+  mode: {
+    type: String,
+    enum: ['even', 'custom'],
+    default: 'even'
+  },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  createdAt: { type: Date, default: Date.now },
+  participants: [billSplitParticipantSchema]
+}, { _id: false });
+
+const openMatchRequestSchema = new Schema<IOpenMatchRequest>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  players: { type: Number, required: true, min: 1 },
+  teamName: String,
+  experience: {
+    type: String,
+    enum: ['beginner', 'intermediate', 'advanced']
+  },
+  message: String,
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected', 'withdrawn'],
+    default: 'pending'
+  },
+  participantId: Schema.Types.ObjectId,
+  requestedAt: { type: Date, default: Date.now },
+  respondedAt: Date
+});
+
+const openMatchSchema = new Schema<IOpenMatch>({
+  type: {
+    type: String,
+    enum: ['opponent', 'players'],
+    required: true
+  },
+  skillLevel: {
+    type: String,
+    enum: ['beginner', 'intermediate', 'advanced']
+  },
+  playersNeeded: { type: Number, min: 1 },
+  pricePerPlayer: { type: Number, min: 0 },
+  opponentShare: { type: Number, min: 0 },
+  description: String,
+  status: {
+    type: String,
+    enum: ['open', 'full', 'closed'],
+    default: 'open'
+  },
+  publishedAt: { type: Date, default: Date.now },
+  requests: [openMatchRequestSchema]
+}, { _id: false });
+
 const historyItemSchema = new Schema<IHistoryItem>({
   action: {
     type: String,
@@ -181,6 +351,10 @@ const bookingSchema = new Schema<IBooking>({
     required: true
     // Removed index: true to prevent duplicate index warning
   },
+  additionalFieldIds: {
+    type: [Schema.Types.ObjectId],
+    default: undefined
+  },
   bookingDate: {
     type: Date,
     required: true
@@ -208,9 +382,19 @@ const bookingSchema = new Schema<IBooking>({
       type: String,
       default: 'LAK'
     },
+    subtotal: Number,
     taxes: Number,
+    taxDetails: {
+      name: String,
+      rate: Number,
+      inclusive: Boolean,
+      sellerTaxId: String,
+      sellerName: String,
+      exemptionReason: String
+    },
     refereeCharges: [refereeChargeSchema],
-    discounts: [discountSchema]
+    discounts: [discountSchema],
+    lineItems: [pricingLineItemSchema]
   },
   status: {
     type: String,
@@ -220,7 +404,7 @@ const bookingSchema = new Schema<IBooking>({
   },
   paymentStatus: {
     type: String,
-    enum: ['pending', 'paid', 'failed', 'refunded'],
+    enum: ['pending', 'partially_paid', 'paid', 'failed', 'refunded', 'partially_refunded'],
     default: 'pending'
     // Removed index: true to prevent duplicate index warning
   },
@@ -235,8 +419,17 @@ const bookingSchema = new Schema<IBooking>({
   specialRequests: [String],
   assignedStaff: [assignedStaffSchema],
   payments: [paymentSchema],
+  refunds: [refundSchema],
   cancellation: cancellationSchema,
+  deposit: depositSchema,
+  billSplit: billSplitSchema,
+  openMatch: openMatchSchema,
   membershipDetails: {
+    seriesId: {
+      type: Schema.Types.ObjectId,
+      ref: 'MembershipSeries'
+    },
+    billingCycleId: Schema.Types.ObjectId,
     membershipStartDate: Date,
     membershipEndDate: Date,
     recurrencePattern: {
@@ -252,6 +445,14 @@ const bookingSchema = new Schema<IBooking>({
       default: true
     }
   },
+  tournamentDetails: {
+    type: new Schema<ITournamentDetails>({
+      tournamentId: { type: Schema.Types.ObjectId, ref: 'Tournament', required: true },
+      fixtureId: { type: Schema.Types.ObjectId, required: true },
+      matchNumber: { type: Number, required: true }
+    }, { _id: false }),
+    default: undefined
+  },
   history: [historyItemSchema]
 }, {
   timestamps: true
@@ -269,20 +470,58 @@ bookingSchema.index({
 // Note: userId index is created manually in database config to avoid conflicts
 bookingSchema.index({ stadiumId: 1 });
 bookingSchema.index({ fieldId: 1 });
+bookingSchema.index({ additionalFieldIds: 1 }, { sparse: true });
 bookingSchema.index({ bookingDate: 1 });
 bookingSchema.index({ status: 1 });
 bookingSchema.index({ paymentStatus: 1 });
+bookingSchema.index({ status: 1, 'deposit.holdExpiresAt': 1 });
 bookingSchema.index({ bookingType: 1 });
+bookingSchema.index({ 'membershipDetails.seriesId': 1 }, { sparse: true });
+bookingSchema.index({ 'tournamentDetails.tournamentId': 1 }, { sparse: true });
+bookingSchema.index({ 'payments.provider': 1, 'payments.intentId': 1 });
+bookingSchema.index({ 'payments.slip.imageHash': 1 });
+bookingSchema.index({ 'billSplit.participants.token': 1 }, { sparse: true });
+bookingSchema.index({ 'openMatch.status': 1, stadiumId: 1, bookingDate: 1 }, { sparse: true });
+bookingSchema.index({ stadiumId: 1, 'payments.slip.reviewStatus': 1 });
 
-// Generate booking number
+// Generate booking number from an atomic sequence so concurrent saves never collide
 bookingSchema.pre<IBooking>('save', async function(next) {
   if (!this.bookingNumber) {
-    const count = await mongoose.model('Booking').countDocuments();
-    this.bookingNumber = `BK${Date.now()}${String(count + 1).padStart(4, '0')}`;
+    const sequence = await CounterService.next('booking');
+    this.bookingNumber = `BK${Date.now()}${String(sequence).padStart(4, '0')}`;
   }
   next();
 });
 
+// Claim the booking's minutes on its field; an overlapping booking makes the save fail
+bookingSchema.pre<IBooking>('save', async function(next) {
+  if (this.isNew || this.isModified('fieldId additionalFieldIds bookingDate startTime endTime status')) {
+    await ReservationService.sync(this);
+  }
+  next();
+});
+
+// A failed save leaves the reservations matching what is actually stored
+bookingSchema.post('save', async function(error: any, doc: IBooking, next: (err?: any) => void) {
+  try {
+    const saved = await Booking.findById(doc._id).select('stadiumId fieldId additionalFieldIds bookingDate startTime endTime status');
+    if (saved) {
+      await ReservationService.sync(saved);
+    } else {
+      await ReservationService.release(doc._id as mongoose.Types.ObjectId);
+    }
+  } catch (syncError) {
+    console.error(`Failed to restore reservations for booking ${doc._id}:`, syncError);
+  }
+  next(error);
+});
+
+bookingSchema.post('findOneAndDelete', async function(doc: IBooking | null) {
+  if (doc) {
+    await ReservationService.release(doc._id as mongoose.Types.ObjectId);
+  }
+});
+
 const Booking: Model<IBooking> = mongoose.model<IBooking>('Booking', bookingSchema);
 
 export default Booking;
\ No newline at end of file
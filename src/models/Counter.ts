@@ -0,0 +1,26 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ICounter extends Document {
+  key: string; // e.g. invoice:<ownerId>:2026
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const counterSchema: Schema<ICounter> = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  seq: {
+    type: Number,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+const Counter: Model<ICounter> = mongoose.model<ICounter>('Counter', counterSchema);
+
+export default Counter;
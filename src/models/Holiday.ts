@@ -0,0 +1,97 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type HolidayType = 'holiday' | 'blackout' | 'closure';
+
+export interface IHoliday extends Document {
+  // holiday: public holiday of a country, imported by superadmins
+  // blackout: platform-wide closure set by superadmins, optionally for one country
+  // closure: a stadium closing some or all of its fields
+  type: HolidayType;
+  name: string; // Holiday name or the reason for the closure, shown to customers
+  startDate: Date;
+  endDate: Date; // Last day, inclusive
+  country?: string; // Matched case-insensitively against stadium.address.country
+  stadiumId?: mongoose.Types.ObjectId;
+  fieldIds?: mongoose.Types.ObjectId[]; // Closed fields; the whole stadium when empty
+  source: 'manual' | 'ics' | 'json';
+  externalId?: string; // UID of an imported event, so re-importing a set updates it
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const holidaySchema: Schema<IHoliday> = new mongoose.Schema({
+  type: {
+    type: String,
+    enum: ['holiday', 'blackout', 'closure'],
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    required: true
+  },
+  country: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium'
+  },
+  fieldIds: {
+    type: [Schema.Types.ObjectId],
+    default: undefined
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'ics', 'json'],
+    default: 'manual'
+  },
+  externalId: {
+    type: String,
+    trim: true
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+holidaySchema.pre<IHoliday>('validate', function(next) {
+  if (this.endDate < this.startDate) {
+    return next(new Error('End date must not be before start date'));
+  }
+  if (this.type === 'holiday' && !this.country) {
+    return next(new Error('Public holidays need a country'));
+  }
+  if (this.type === 'closure' && !this.stadiumId) {
+    return next(new Error('Closures need a stadium'));
+  }
+  next();
+});
+
+holidaySchema.index({ type: 1, country: 1, startDate: 1, endDate: 1 });
+holidaySchema.index({ stadiumId: 1, startDate: 1, endDate: 1 });
+// An imported event is stored once per country
+holidaySchema.index({ country: 1, externalId: 1 }, { unique: true, partialFilterExpression: { type: 'holiday', externalId: { $exists: true } } });
+
+const Holiday: Model<IHoliday> = mongoose.model<IHoliday>('Holiday', holidaySchema);
+
+export default Holiday;
@@ -0,0 +1,146 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IIssuedInvoiceItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+export interface IInvoice extends Document {
+  documentType: 'invoice' | 'credit_note';
+  status: 'pending' | 'issued'; // Pending while the number is being allocated
+  invoiceNumber?: string; // INV-2026-000123 or CN-2026-000004
+  sequence?: number;
+  year: number;
+  ownerId: mongoose.Types.ObjectId;
+  stadiumId: mongoose.Types.ObjectId;
+  bookingId?: mongoose.Types.ObjectId; // Unset on membership billing cycle invoices, which cover bookingIds
+  customerId?: mongoose.Types.ObjectId;
+  issuedAt?: Date;
+  items: IIssuedInvoiceItem[];
+  subtotal: number;
+  taxes: number;
+  totalAmount: number;
+  currency: string;
+  // Credit notes only
+  originalInvoiceId?: mongoose.Types.ObjectId;
+  originalInvoiceNumber?: string;
+  reason?: string;
+  trigger?: 'cancellation' | 'refund';
+  refundId?: mongoose.Types.ObjectId;
+  issuedBy?: mongoose.Types.ObjectId;
+  // Membership billing cycle invoices only
+  membershipSeriesId?: mongoose.Types.ObjectId;
+  billingCycleId?: mongoose.Types.ObjectId;
+  bookingIds?: mongoose.Types.ObjectId[];
+  dueDate?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const issuedInvoiceItemSchema = new Schema<IIssuedInvoiceItem>({
+  description: { type: String, required: true },
+  quantity: { type: Number, required: true },
+  unitPrice: { type: Number, required: true },
+  total: { type: Number, required: true }
+}, { _id: false });
+
+const invoiceSchema: Schema<IInvoice> = new mongoose.Schema({
+  documentType: {
+    type: String,
+    enum: ['invoice', 'credit_note'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'issued'],
+    default: 'pending'
+  },
+  invoiceNumber: String,
+  sequence: Number,
+  year: {
+    type: Number,
+    required: true
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: function (this: IInvoice) {
+      return !this.billingCycleId;
+    }
+  },
+  customerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  issuedAt: Date,
+  items: [issuedInvoiceItemSchema],
+  subtotal: {
+    type: Number,
+    default: 0
+  },
+  taxes: {
+    type: Number,
+    default: 0
+  },
+  totalAmount: {
+    type: Number,
+    default: 0
+  },
+  currency: {
+    type: String,
+    default: 'LAK'
+  },
+  originalInvoiceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Invoice'
+  },
+  originalInvoiceNumber: String,
+  reason: String,
+  trigger: {
+    type: String,
+    enum: ['cancellation', 'refund']
+  },
+  refundId: Schema.Types.ObjectId,
+  issuedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  membershipSeriesId: {
+    type: Schema.Types.ObjectId,
+    ref: 'MembershipSeries'
+  },
+  billingCycleId: Schema.Types.ObjectId,
+  bookingIds: {
+    type: [{ type: Schema.Types.ObjectId, ref: 'Booking' }],
+    default: undefined
+  },
+  dueDate: Date
+}, {
+  timestamps: true
+});
+
+// Numbers are never reused
+invoiceSchema.index({ invoiceNumber: 1 }, { unique: true, partialFilterExpression: { invoiceNumber: { $type: 'string' } } });
+// One invoice per booking or billing cycle, one cancellation credit note per booking and one credit note per refund
+invoiceSchema.index({ bookingId: 1 }, { unique: true, partialFilterExpression: { documentType: 'invoice', bookingId: { $exists: true } } });
+invoiceSchema.index({ billingCycleId: 1 }, { unique: true, partialFilterExpression: { documentType: 'invoice', billingCycleId: { $exists: true } } });
+invoiceSchema.index({ bookingIds: 1 }, { sparse: true });
+invoiceSchema.index({ bookingId: 1, trigger: 1 }, { unique: true, partialFilterExpression: { trigger: 'cancellation' } });
+invoiceSchema.index({ refundId: 1 }, { unique: true, partialFilterExpression: { trigger: 'refund' } });
+invoiceSchema.index({ ownerId: 1, documentType: 1, year: 1, sequence: 1 });
+
+const Invoice: Model<IInvoice> = mongoose.model<IInvoice>('Invoice', invoiceSchema);
+
+export default Invoice;
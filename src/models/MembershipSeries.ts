@@ -0,0 +1,203 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { IMembershipPlan } from './Stadium';
+
+export type RecurrencePattern = 'weekly' | 'biweekly' | 'monthly';
+
+export interface ISeriesOccurrence {
+  _id?: mongoose.Types.ObjectId;
+  date: Date;
+  // booked: has an active booking; conflict: the slot was taken or held; closed: holiday, blackout
+  // or closure; skipped: left out by the member; paused: released while the series was paused;
+  // suspended: released while a billing cycle was overdue; cancelled: released when the series was cancelled
+  status: 'booked' | 'conflict' | 'closed' | 'skipped' | 'paused' | 'suspended' | 'cancelled';
+  bookingId?: mongoose.Types.ObjectId;
+  reason?: string;
+}
+
+// The plan's terms when the series was created; later changes to the plan do not apply
+export type ISeriesBilling = Omit<IMembershipPlan, '_id' | 'name' | 'isActive'> & {
+  planId: mongoose.Types.ObjectId;
+  planName: string;
+};
+
+export interface IBillingCycle {
+  _id?: mongoose.Types.ObjectId;
+  sequence: number;
+  periodStart: Date; // First and last occurrence billed
+  periodEnd: Date;
+  bookingIds: mongoose.Types.ObjectId[];
+  amount: number;
+  paidAmount: number;
+  currency: string;
+  dueDate: Date;
+  // scheduled: invoice not issued yet; void: every occurrence was released before invoicing
+  status: 'scheduled' | 'invoiced' | 'overdue' | 'paid' | 'void';
+  invoiceId?: mongoose.Types.ObjectId;
+  invoiceNumber?: string;
+  paidAt?: Date;
+  remindersSent: number;
+  lastReminderAt?: Date;
+}
+
+interface ISeriesHistoryItem {
+  action: 'created' | 'paused' | 'resumed' | 'skipped' | 'extended' | 'rescheduled' | 'cancelled' |
+    'payment_received' | 'suspended' | 'reinstated';
+  changedBy: mongoose.Types.ObjectId;
+  notes?: string;
+  timestamp: Date;
+}
+
+export interface IMembershipSeries extends Document {
+  userId: mongoose.Types.ObjectId;
+  stadiumId: mongoose.Types.ObjectId;
+  fieldId: mongoose.Types.ObjectId;
+  dayOfWeek: number; // 0 = Sunday, 1 = Monday, etc.
+  startTime: string;
+  endTime: string;
+  recurrencePattern: RecurrencePattern;
+  startDate: Date;
+  endDate?: Date;
+  totalOccurrences?: number;
+  status: 'active' | 'paused' | 'suspended' | 'cancelled';
+  pausedAt?: Date;
+  suspendedAt?: Date;
+  teamInfo?: any;
+  specialRequests?: string[];
+  occurrences: ISeriesOccurrence[];
+  billing?: ISeriesBilling; // Unset for series whose occurrences are paid one by one
+  billingCycles: IBillingCycle[];
+  history: ISeriesHistoryItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const occurrenceSchema = new Schema<ISeriesOccurrence>({
+  date: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['booked', 'conflict', 'closed', 'skipped', 'paused', 'suspended', 'cancelled'],
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  reason: String
+});
+
+const seriesBillingSchema = new Schema<ISeriesBilling>({
+  planId: { type: Schema.Types.ObjectId, required: true },
+  planName: { type: String, required: true },
+  billingCycle: {
+    type: String,
+    enum: ['monthly', 'term', 'upfront'],
+    required: true
+  },
+  occurrencesPerTerm: Number,
+  upfrontDiscountPercent: { type: Number, default: 0 },
+  dueDaysBefore: { type: Number, default: 0 },
+  reminderDays: [Number],
+  suspendAfterDays: { type: Number, default: 0 }
+}, { _id: false });
+
+const billingCycleSchema = new Schema<IBillingCycle>({
+  sequence: { type: Number, required: true },
+  periodStart: { type: Date, required: true },
+  periodEnd: { type: Date, required: true },
+  bookingIds: [{ type: Schema.Types.ObjectId, ref: 'Booking' }],
+  amount: { type: Number, default: 0 },
+  paidAmount: { type: Number, default: 0 },
+  currency: { type: String, default: 'LAK' },
+  dueDate: { type: Date, required: true },
+  status: {
+    type: String,
+    enum: ['scheduled', 'invoiced', 'overdue', 'paid', 'void'],
+    default: 'scheduled'
+  },
+  invoiceId: { type: Schema.Types.ObjectId, ref: 'Invoice' },
+  invoiceNumber: String,
+  paidAt: Date,
+  remindersSent: { type: Number, default: 0 },
+  lastReminderAt: Date
+});
+
+const seriesHistoryItemSchema = new Schema<ISeriesHistoryItem>({
+  action: {
+    type: String,
+    enum: ['created', 'paused', 'resumed', 'skipped', 'extended', 'rescheduled', 'cancelled', 'payment_received', 'suspended', 'reinstated'],
+    required: true
+  },
+  changedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  notes: String,
+  timestamp: { type: Date, default: Date.now }
+}, { _id: false });
+
+const membershipSeriesSchema: Schema<IMembershipSeries> = new mongoose.Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  fieldId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  dayOfWeek: {
+    type: Number,
+    min: 0,
+    max: 6,
+    required: true
+  },
+  startTime: {
+    type: String,
+    required: true,
+    match: /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/
+  },
+  endTime: {
+    type: String,
+    required: true,
+    match: /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/
+  },
+  recurrencePattern: {
+    type: String,
+    enum: ['weekly', 'biweekly', 'monthly'],
+    required: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: Date,
+  totalOccurrences: Number,
+  status: {
+    type: String,
+    enum: ['active', 'paused', 'suspended', 'cancelled'],
+    default: 'active'
+  },
+  pausedAt: Date,
+  suspendedAt: Date,
+  teamInfo: Schema.Types.Mixed,
+  specialRequests: [String],
+  occurrences: [occurrenceSchema],
+  billing: seriesBillingSchema,
+  billingCycles: [billingCycleSchema],
+  history: [seriesHistoryItemSchema]
+}, {
+  timestamps: true
+});
+
+membershipSeriesSchema.index({ userId: 1, status: 1 });
+membershipSeriesSchema.index({ stadiumId: 1, status: 1 });
+membershipSeriesSchema.index({ 'billingCycles.status': 1 });
+
+const MembershipSeries: Model<IMembershipSeries> = mongoose.model<IMembershipSeries>('MembershipSeries', membershipSeriesSchema);
+
+export default MembershipSeries;
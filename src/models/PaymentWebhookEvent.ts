@@ -0,0 +1,50 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IPaymentWebhookEvent extends Document {
+  provider: string;
+  eventId: string;
+  type: string;
+  intentId?: string;
+  bookingId?: mongoose.Types.ObjectId;
+  status: 'processing' | 'processed' | 'ignored';
+  payload: any;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const paymentWebhookEventSchema: Schema<IPaymentWebhookEvent> = new mongoose.Schema({
+  provider: {
+    type: String,
+    required: true
+  },
+  eventId: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  intentId: String,
+  bookingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking'
+  },
+  status: {
+    type: String,
+    enum: ['processing', 'processed', 'ignored'],
+    default: 'processing'
+  },
+  payload: mongoose.Schema.Types.Mixed,
+  processedAt: Date
+}, {
+  timestamps: true
+});
+
+// Each provider event is applied at most once
+paymentWebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+
+const PaymentWebhookEvent: Model<IPaymentWebhookEvent> = mongoose.model<IPaymentWebhookEvent>('PaymentWebhookEvent', paymentWebhookEventSchema);
+
+export default PaymentWebhookEvent;
@@ -0,0 +1,141 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IPayoutLine {
+  type: 'booking' | 'refund_adjustment'; // Adjustments are refunds paid out after the booking was settled
+  bookingId: mongoose.Types.ObjectId;
+  bookingNumber?: string;
+  bookingDate: Date;
+  stadiumId: mongoose.Types.ObjectId;
+  stadiumName?: string;
+  paidAmount: number;
+  refundedAmount: number;
+  taxAmount: number; // Collected by the owner, included in the payout
+  serviceFeePercentage: number;
+  serviceFee: number;
+  promoCredit: number; // Platform-funded promo discounts paid back to the owner
+  netAmount: number;
+}
+
+export interface IPayoutTotals {
+  bookings: number;
+  grossAmount: number;
+  refundedAmount: number;
+  taxAmount: number;
+  serviceFee: number;
+  promoCredit: number;
+  netAmount: number;
+}
+
+export interface IPayoutBankAccount {
+  bankName?: string;
+  accountNumber?: string;
+  routingNumber?: string;
+  accountHolderName?: string;
+}
+
+export interface IPayout extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  status: 'pending' | 'transferred';
+  lines: IPayoutLine[];
+  totals: IPayoutTotals;
+  bankAccount?: IPayoutBankAccount; // Snapshot of the account the payout was sent to
+  transferredAt?: Date;
+  transferredBy?: mongoose.Types.ObjectId;
+  transferReference?: string;
+  notes?: string;
+  generatedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const payoutLineSchema = new Schema<IPayoutLine>({
+  type: {
+    type: String,
+    enum: ['booking', 'refund_adjustment'],
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  bookingNumber: String,
+  bookingDate: Date,
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium'
+  },
+  stadiumName: String,
+  paidAmount: { type: Number, default: 0 },
+  refundedAmount: { type: Number, default: 0 },
+  taxAmount: { type: Number, default: 0 },
+  serviceFeePercentage: Number,
+  serviceFee: { type: Number, default: 0 },
+  promoCredit: { type: Number, default: 0 },
+  netAmount: { type: Number, default: 0 }
+}, { _id: false });
+
+const payoutSchema: Schema<IPayout> = new mongoose.Schema({
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  periodStart: {
+    type: Date,
+    required: true
+  },
+  periodEnd: {
+    type: Date,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: 'LAK'
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'transferred'],
+    default: 'pending'
+  },
+  lines: [payoutLineSchema],
+  totals: {
+    bookings: { type: Number, default: 0 },
+    grossAmount: { type: Number, default: 0 },
+    refundedAmount: { type: Number, default: 0 },
+    taxAmount: { type: Number, default: 0 },
+    serviceFee: { type: Number, default: 0 },
+    promoCredit: { type: Number, default: 0 },
+    netAmount: { type: Number, default: 0 }
+  },
+  bankAccount: {
+    bankName: String,
+    accountNumber: String,
+    routingNumber: String,
+    accountHolderName: String
+  },
+  transferredAt: Date,
+  transferredBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  transferReference: String,
+  notes: String,
+  generatedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// One statement per owner and period
+payoutSchema.index({ ownerId: 1, periodStart: 1, periodEnd: 1 }, { unique: true });
+payoutSchema.index({ status: 1, periodStart: -1 });
+
+const Payout: Model<IPayout> = mongoose.model<IPayout>('Payout', payoutSchema);
+
+export default Payout;
@@ -0,0 +1,112 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IPromoCode extends Document {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  maxDiscountAmount?: number; // Cap for percentage codes
+  stadiumId?: mongoose.Types.ObjectId; // Platform-wide when empty
+  fundedBy: 'platform' | 'stadium';
+  validFrom: Date;
+  validUntil: Date;
+  usageLimit?: number;
+  perUserLimit?: number;
+  usageCount: number;
+  minSpend?: number;
+  fieldTypes?: string[];
+  daysOfWeek?: number[]; // 0 = Sunday, 1 = Monday, etc.
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promoCodeSchema: Schema<IPromoCode> = new mongoose.Schema({
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true,
+    maxlength: 30
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 200
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: true
+  },
+  discountValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  maxDiscountAmount: {
+    type: Number,
+    min: 0
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium'
+  },
+  fundedBy: {
+    type: String,
+    enum: ['platform', 'stadium'],
+    required: true
+  },
+  validFrom: {
+    type: Date,
+    required: true
+  },
+  validUntil: {
+    type: Date,
+    required: true
+  },
+  usageLimit: {
+    type: Number,
+    min: 1
+  },
+  perUserLimit: {
+    type: Number,
+    min: 1
+  },
+  usageCount: {
+    type: Number,
+    default: 0
+  },
+  minSpend: {
+    type: Number,
+    min: 0
+  },
+  fieldTypes: [{
+    type: String
+  }],
+  daysOfWeek: [{
+    type: Number,
+    min: 0,
+    max: 6
+  }],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+promoCodeSchema.index({ stadiumId: 1, isActive: 1 });
+promoCodeSchema.index({ validUntil: 1 });
+
+const PromoCode: Model<IPromoCode> = mongoose.model<IPromoCode>('PromoCode', promoCodeSchema);
+
+export default PromoCode;
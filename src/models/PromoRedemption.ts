@@ -0,0 +1,73 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IPromoRedemption extends Document {
+  promoCodeId: mongoose.Types.ObjectId;
+  code: string;
+  userId: mongoose.Types.ObjectId;
+  bookingId: mongoose.Types.ObjectId;
+  stadiumId: mongoose.Types.ObjectId;
+  discountAmount: number;
+  currency: string;
+  fundedBy: 'platform' | 'stadium';
+  status: 'applied' | 'voided';
+  voidedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const promoRedemptionSchema: Schema<IPromoRedemption> = new mongoose.Schema({
+  promoCodeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'PromoCode',
+    required: true
+  },
+  code: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  discountAmount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: 'LAK'
+  },
+  fundedBy: {
+    type: String,
+    enum: ['platform', 'stadium'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['applied', 'voided'],
+    default: 'applied'
+  },
+  voidedAt: Date
+}, {
+  timestamps: true
+});
+
+// A code can only be redeemed once per booking
+promoRedemptionSchema.index({ promoCodeId: 1, bookingId: 1 }, { unique: true });
+promoRedemptionSchema.index({ promoCodeId: 1, userId: 1, status: 1 });
+promoRedemptionSchema.index({ stadiumId: 1, createdAt: -1 });
+
+const PromoRedemption: Model<IPromoRedemption> = mongoose.model<IPromoRedemption>('PromoRedemption', promoRedemptionSchema);
+
+export default PromoRedemption;
@@ -0,0 +1,56 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ISlotHold extends Document {
+  stadiumId: mongoose.Types.ObjectId;
+  fieldId: mongoose.Types.ObjectId;
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+  userId?: mongoose.Types.ObjectId; // Widget customers hold anonymously and check out with the hold id
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const slotHoldSchema: Schema<ISlotHold> = new mongoose.Schema({
+  stadiumId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  fieldId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  bookingDate: {
+    type: Date,
+    required: true
+  },
+  startTime: {
+    type: String,
+    required: true
+  },
+  endTime: {
+    type: String,
+    required: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+// MongoDB removes holds shortly after they expire; reads still filter on expiresAt
+slotHoldSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+// Two customers can never hold exactly the same slot
+slotHoldSchema.index({ fieldId: 1, bookingDate: 1, startTime: 1, endTime: 1 }, { unique: true });
+
+const SlotHold: Model<ISlotHold> = mongoose.model<ISlotHold>('SlotHold', slotHoldSchema);
+
+export default SlotHold;
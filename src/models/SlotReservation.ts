@@ -0,0 +1,48 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+/**
+ * One minute of a field's day claimed by a pending or confirmed booking. The unique
+ * index makes overlapping bookings impossible without needing transactions.
+ */
+export interface ISlotReservation extends Document {
+  fieldId: mongoose.Types.ObjectId;
+  day: string; // YYYY-MM-DD of the booking date
+  minute: number; // Minutes since midnight
+  bookingId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+}
+
+const slotReservationSchema: Schema<ISlotReservation> = new mongoose.Schema({
+  fieldId: {
+    type: mongoose.Schema.Types.ObjectId,
+    required: true
+  },
+  day: {
+    type: String,
+    required: true
+  },
+  minute: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 1439
+  },
+  bookingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Booking',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+slotReservationSchema.index({ fieldId: 1, day: 1, minute: 1 }, { unique: true });
+slotReservationSchema.index({ bookingId: 1 });
+// Past days can no longer be double booked, so their reservations are dropped
+slotReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const SlotReservation: Model<ISlotReservation> = mongoose.model<ISlotReservation>('SlotReservation', slotReservationSchema);
+
+export default SlotReservation;
@@ -1,4 +1,5 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import { FieldRelationService } from '../services/field-relation.service';
 
 interface IStaffAvailability {
   dayOfWeek: number;
@@ -41,21 +42,22 @@ interface IFieldFacilities {
   floodlights?: boolean;
 }
 
-interface ISeasonalRate {
+export interface ISeasonalRate {
   season: string;
   startDate: Date;
   endDate: Date;
   rate: number;
 }
 
-interface IPricingTier {
+export interface IPricingTier {
   name: string;
   description?: string;
   startTime: string;
   endTime: string;
-  daysOfWeek: number[];
+  daysOfWeek: number[]; // Ignored by the holiday tier, which applies on every public holiday
   hourlyRate: number;
   isActive: boolean;
+  source?: 'manual' | 'demand_suggestion';
 }
 
 interface IFieldPricing {
@@ -65,12 +67,13 @@ interface IFieldPricing {
   seasonalRates?: ISeasonalRate[];
 }
 
-interface ITimeSlot {
+export interface ITimeSlot {
   startTime: string;
   endTime: string;
   isAvailable?: boolean;
   pricingTier?: string;
   hourlyRate?: number;
+  specialRate?: number; // Legacy name for hourlyRate
 }
 
 interface IDaySchedule {
@@ -78,10 +81,87 @@ interface IDaySchedule {
   timeSlots: ITimeSlot[];
 }
 
-interface ISpecialDate {
+export interface ITimeRange {
+  startTime: string;
+  endTime: string;
+}
+
+export interface IOpeningHours {
+  dayOfWeek: number;
+  openTime: string;
+  closeTime: string; // 24:00 for fields open until midnight
+  breaks?: ITimeRange[]; // Times inside opening hours when the field cannot be booked
+}
+
+export interface ISpecialDate {
   date: Date;
   timeSlots: ITimeSlot[];
   reason?: string;
+  isClosed?: boolean; // Closure or holiday, nothing can be booked
+  openTime?: string; // Opening hours replacing the weekday's on this date
+  closeTime?: string;
+  breaks?: ITimeRange[];
+}
+
+interface ICancellationTier {
+  minHoursBefore: number; // Tier applies when cancelling at least this many hours ahead
+  feeType: 'percentage' | 'fixed';
+  feeAmount: number; // Percentage of the paid amount or fixed amount kept by the owner
+}
+
+interface ILoyaltyCancellationOverride {
+  tier: string; // Loyalty tier name, e.g. Gold
+  waiveFees?: boolean;
+  minHoursBefore?: number;
+}
+
+interface IBookingTypeCancellationOverride {
+  bookingType: 'regular' | 'tournament' | 'training' | 'event' | 'membership';
+  allowCancellation?: boolean;
+  minHoursBefore: number;
+  tiers: ICancellationTier[];
+  noRefundForMembership?: boolean;
+  loyaltyOverrides?: ILoyaltyCancellationOverride[];
+}
+
+export interface ICancellationPolicy {
+  allowCancellation?: boolean;
+  minHoursBefore: number; // Customers cannot cancel inside this window
+  tiers: ICancellationTier[];
+  noRefundForMembership?: boolean;
+  loyaltyOverrides?: ILoyaltyCancellationOverride[];
+  bookingTypeOverrides?: IBookingTypeCancellationOverride[];
+}
+
+export interface IDepositPolicy {
+  enabled: boolean;
+  type: 'percentage' | 'fixed';
+  amount: number; // Percentage of the booking total or fixed amount required to confirm
+  balanceDue: 'at_venue' | 'before_kickoff';
+  balanceDueHoursBefore?: number; // How long before kickoff the balance is due when paid in advance
+  holdMinutes: number; // Pending bookings are released when the deposit is not received in time
+}
+
+export interface IMembershipPlan {
+  _id?: mongoose.Types.ObjectId;
+  name: string;
+  billingCycle: 'monthly' | 'term' | 'upfront'; // Calendar month, a number of occurrences, or the whole series at once
+  occurrencesPerTerm?: number; // Occurrences billed together on term plans
+  upfrontDiscountPercent?: number; // Taken off every occurrence of series paid upfront
+  dueDaysBefore: number; // A cycle is due this many days before its first occurrence
+  reminderDays: number[]; // Days after the due date a reminder goes out while a cycle is unpaid
+  suspendAfterDays: number; // Unpaid upcoming occurrences are released once a cycle is this many days overdue
+  isActive: boolean;
+}
+
+export interface IFieldBookingRules {
+  bufferBeforeMinutes?: number; // Turnover time blocked before every booking
+  bufferAfterMinutes?: number; // Cleanup time blocked after every booking
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  slotGranularityMinutes?: number; // Bookings start and end on multiples of this from midnight
+  minLeadHours?: number; // How long before kickoff a booking must be made
+  maxAdvanceDays?: number; // How far ahead a booking can be made
 }
 
 export  interface IField {
@@ -93,11 +173,15 @@ export  interface IField {
   facilities?: IFieldFacilities;
   pricing: IFieldPricing;
   status?: 'active' | 'inactive' | 'maintenance';
-  availabilitySchedule?: IDaySchedule[];
+  availabilitySchedule?: IDaySchedule[]; // Hand-entered slots, used when openingHours are not set for the day
+  openingHours?: IOpeningHours[];
   specialDates?: ISpecialDate[];
+  cancellationPolicy?: ICancellationPolicy;
+  composedOf?: mongoose.Types.ObjectId[]; // Smaller fields sharing this field's ground, e.g. a full pitch made of two 7v7 fields
+  bookingRules?: IFieldBookingRules;
 }
 
-interface IAddress {
+export interface IAddress {
   street?: string;
   city: string;
   state?: string;
@@ -163,14 +247,19 @@ export interface IStadium extends Document {
   // Add new fields for bank account information
   bankAccountName?: string;
   bankAccountNumber?: string;
+  bankCode?: string; // LAPNet acquirer IIN used in generated LAO QR payloads
   bankQRCodeImage?: string;
+  cancellationPolicy?: ICancellationPolicy;
+  depositPolicy?: IDepositPolicy;
+  membershipPlans?: IMembershipPlan[];
+  closedOnPublicHolidays?: boolean; // Close on the public holidays of the stadium's country
 }
 
 const pricingTierSchema = new Schema<IPricingTier>({
   name: {
     type: String,
     required: true,
-    enum: ['morning', 'afternoon', 'evening', 'weekend', 'custom']
+    enum: ['morning', 'afternoon', 'evening', 'weekend', 'holiday', 'custom']
   },
   description: String,
   startTime: {
@@ -193,6 +282,199 @@ const pricingTierSchema = new Schema<IPricingTier>({
     type: Number,
     required: true
   },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'demand_suggestion'],
+    default: 'manual'
+  }
+});
+
+const cancellationTierSchema = new Schema<ICancellationTier>({
+  minHoursBefore: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  feeType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    default: 'percentage'
+  },
+  feeAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+});
+
+const loyaltyCancellationOverrideSchema = new Schema<ILoyaltyCancellationOverride>({
+  tier: {
+    type: String,
+    required: true
+  },
+  waiveFees: {
+    type: Boolean,
+    default: false
+  },
+  minHoursBefore: {
+    type: Number,
+    min: 0
+  }
+});
+
+const cancellationPolicyFields = {
+  allowCancellation: {
+    type: Boolean,
+    default: true
+  },
+  minHoursBefore: {
+    type: Number,
+    default: 24,
+    min: 0
+  },
+  tiers: [cancellationTierSchema],
+  noRefundForMembership: {
+    type: Boolean,
+    default: false
+  },
+  loyaltyOverrides: [loyaltyCancellationOverrideSchema]
+};
+
+const cancellationPolicySchema = new Schema<ICancellationPolicy>({
+  ...cancellationPolicyFields,
+  bookingTypeOverrides: [{
+    bookingType: {
+      type: String,
+      enum: ['regular', 'tournament', 'training', 'event', 'membership'],
+      required: true
+    },
+    ...cancellationPolicyFields
+  }]
+});
+
+// HH:mm, with 24:00 allowed for closing at midnight
+const TIME_PATTERN = /^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
+const timeRangeSchema = new Schema<ITimeRange>({
+  startTime: {
+    type: String,
+    match: TIME_PATTERN,
+    required: true
+  },
+  endTime: {
+    type: String,
+    match: TIME_PATTERN,
+    required: true
+  }
+}, { _id: false });
+
+const fieldBookingRulesSchema = new Schema<IFieldBookingRules>({
+  bufferBeforeMinutes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  bufferAfterMinutes: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  minDurationMinutes: {
+    type: Number,
+    min: 1
+  },
+  maxDurationMinutes: {
+    type: Number,
+    min: 1
+  },
+  slotGranularityMinutes: {
+    type: Number,
+    min: 1
+  },
+  minLeadHours: {
+    type: Number,
+    min: 0
+  },
+  maxAdvanceDays: {
+    type: Number,
+    min: 1
+  }
+}, { _id: false });
+
+const depositPolicySchema = new Schema<IDepositPolicy>({
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  type: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    default: 'percentage'
+  },
+  amount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  balanceDue: {
+    type: String,
+    enum: ['at_venue', 'before_kickoff'],
+    default: 'at_venue'
+  },
+  balanceDueHoursBefore: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  holdMinutes: {
+    type: Number,
+    default: 60,
+    min: 5
+  }
+}, { _id: false });
+
+const membershipPlanSchema = new Schema<IMembershipPlan>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  billingCycle: {
+    type: String,
+    enum: ['monthly', 'term', 'upfront'],
+    required: true
+  },
+  occurrencesPerTerm: {
+    type: Number,
+    min: 1,
+    required: function (this: IMembershipPlan) {
+      return this.billingCycle === 'term';
+    }
+  },
+  upfrontDiscountPercent: {
+    type: Number,
+    default: 0,
+    min: 0,
+    max: 100
+  },
+  dueDaysBefore: {
+    type: Number,
+    default: 3,
+    min: 0
+  },
+  reminderDays: {
+    type: [Number],
+    default: [1, 3]
+  },
+  suspendAfterDays: {
+    type: Number,
+    default: 7,
+    min: 0
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -312,19 +594,59 @@ const fieldSchema = new Schema<IField>({
         type: Boolean,
         default: true
       },
+      hourlyRate: Number,
       specialRate: Number
     }]
   }],
+  openingHours: [{
+    dayOfWeek: {
+      type: Number,
+      min: 0,
+      max: 6,
+      required: true
+    },
+    openTime: {
+      type: String,
+      match: TIME_PATTERN,
+      required: true
+    },
+    closeTime: {
+      type: String,
+      match: TIME_PATTERN,
+      required: true
+    },
+    breaks: [timeRangeSchema]
+  }],
   specialDates: [{
     date: Date,
     timeSlots: [{
       startTime: String,
       endTime: String,
       isAvailable: Boolean,
+      hourlyRate: Number,
       specialRate: Number,
       reason: String
-    }]
-  }]
+    }],
+    reason: String,
+    isClosed: {
+      type: Boolean,
+      default: false
+    },
+    openTime: {
+      type: String,
+      match: TIME_PATTERN
+    },
+    closeTime: {
+      type: String,
+      match: TIME_PATTERN
+    },
+    breaks: [timeRangeSchema]
+  }],
+  cancellationPolicy: cancellationPolicySchema,
+  composedOf: [{
+    type: mongoose.Schema.Types.ObjectId
+  }],
+  bookingRules: fieldBookingRulesSchema
 });
 
 const stadiumSchema: Schema<IStadium> = new mongoose.Schema({
@@ -385,7 +707,12 @@ const stadiumSchema: Schema<IStadium> = new mongoose.Schema({
     default: 'active'
   },
   staff: [stadiumStaffSchema],
-  fields: [fieldSchema],
+  fields: {
+    type: [fieldSchema],
+    validate: {
+      validator: (fields: IField[]) => FieldRelationService.validateComposition(fields)
+    }
+  },
   stats: {
     totalFields: Number,
     averageRating: Number,
@@ -445,7 +772,15 @@ const stadiumSchema: Schema<IStadium> = new mongoose.Schema({
   // Add new fields for bank account information
   bankAccountName: String,
   bankAccountNumber: String,
-  bankQRCodeImage: String
+  bankCode: { type: String, trim: true },
+  bankQRCodeImage: String,
+  cancellationPolicy: cancellationPolicySchema,
+  depositPolicy: depositPolicySchema,
+  membershipPlans: [membershipPlanSchema],
+  closedOnPublicHolidays: {
+    type: Boolean,
+    default: false
+  }
 }, {
   timestamps: true
 });
@@ -0,0 +1,82 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface ITaxExemption {
+  taxId: string; // Matched against the stadium owner's ownerProfile.taxId
+  reason?: string;
+  validUntil?: Date;
+}
+
+export interface ITaxConfig extends Document {
+  scope: 'country' | 'stadium';
+  country?: string; // Matched case-insensitively against stadium.address.country
+  stadiumId?: mongoose.Types.ObjectId;
+  name: string; // Printed on invoices, e.g. VAT
+  rate: number; // Percentage, e.g. 10 for 10%
+  inclusive: boolean; // Whether field prices already include the tax
+  exemptions: ITaxExemption[];
+  isActive: boolean;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taxExemptionSchema = new Schema<ITaxExemption>({
+  taxId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  reason: String,
+  validUntil: Date
+}, { _id: false });
+
+const taxConfigSchema: Schema<ITaxConfig> = new mongoose.Schema({
+  scope: {
+    type: String,
+    enum: ['country', 'stadium'],
+    required: true
+  },
+  country: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium'
+  },
+  name: {
+    type: String,
+    default: 'VAT',
+    trim: true
+  },
+  rate: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  },
+  inclusive: {
+    type: Boolean,
+    default: true
+  },
+  exemptions: [taxExemptionSchema],
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// One configuration per country and per stadium
+taxConfigSchema.index({ country: 1 }, { unique: true, partialFilterExpression: { scope: 'country' } });
+taxConfigSchema.index({ stadiumId: 1 }, { unique: true, partialFilterExpression: { scope: 'stadium' } });
+
+const TaxConfig: Model<ITaxConfig> = mongoose.model<ITaxConfig>('TaxConfig', taxConfigSchema);
+
+export default TaxConfig;
@@ -0,0 +1,248 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { IPayment } from '../types/booking.types';
+
+// league: round-robin; knockout: single elimination; groups_knockout: round-robin groups, then the best of each group play knockout
+export type TournamentFormat = 'league' | 'knockout' | 'groups_knockout';
+
+export interface ITournamentFeePayment {
+  amount: number;
+  paymentMethod: IPayment['paymentMethod'];
+  transactionId?: string;
+  receivedBy: mongoose.Types.ObjectId;
+  receivedAt: Date;
+}
+
+export interface ITournamentTeam {
+  _id?: mongoose.Types.ObjectId;
+  name: string;
+  captainId: mongoose.Types.ObjectId; // User who registered the team
+  contactPhone?: string;
+  players?: number;
+  // registered: waiting for the registration fee; confirmed: fee paid or none due, drawn into the fixtures
+  status: 'registered' | 'confirmed' | 'withdrawn';
+  group?: string; // 'A', 'B', ... once groups are drawn
+  feeAmount: number;
+  paidAmount: number;
+  payments: ITournamentFeePayment[];
+  pointsAdjustment: number; // Points the organizer added or deducted, e.g. for a forfeit
+  adjustmentReason?: string;
+  registeredAt: Date;
+}
+
+export interface ITournamentFixture {
+  _id?: mongoose.Types.ObjectId;
+  matchNumber: number; // Order in the tournament, referenced by later knockout matches
+  stage: 'league' | 'group' | 'knockout';
+  round: number; // Matchday for leagues and groups; knockout round, 1 first
+  group?: string;
+  homeTeamId?: mongoose.Types.ObjectId; // Unset while a knockout match waits for earlier results
+  awayTeamId?: mongoose.Types.ObjectId;
+  // Where a knockout team comes from: 'W3' the winner of match 3, 'B2' the runner-up of group B
+  homeFrom?: string;
+  awayFrom?: string;
+  // pending: no slot yet; scheduled: booked on a field; completed: result entered
+  status: 'pending' | 'scheduled' | 'completed' | 'cancelled';
+  fieldId?: mongoose.Types.ObjectId;
+  bookingId?: mongoose.Types.ObjectId;
+  date?: Date;
+  startTime?: string;
+  endTime?: string;
+  referee?: {
+    staffId: mongoose.Types.ObjectId;
+    name: string;
+  };
+  homeScore?: number;
+  awayScore?: number;
+  homePenalties?: number; // Knockout matches level after play
+  awayPenalties?: number;
+  winnerTeamId?: mongoose.Types.ObjectId; // Unset for a draw
+  resultEnteredBy?: mongoose.Types.ObjectId;
+  resultEnteredAt?: Date;
+}
+
+export interface ITournamentPoints {
+  win: number;
+  draw: number;
+  loss: number;
+}
+
+export interface ITournament extends Document {
+  name: string;
+  description?: string;
+  stadiumId: mongoose.Types.ObjectId;
+  organizerId: mongoose.Types.ObjectId;
+  format: TournamentFormat;
+  fieldType?: '11v11' | '7v7' | '5v5' | 'futsal' | 'training'; // Fixtures go on any active field of the type
+  fieldIds: mongoose.Types.ObjectId[]; // Or on these fields only
+  startDate: Date;
+  endDate?: Date;
+  registrationDeadline?: Date;
+  maxTeams: number;
+  registrationFee: number;
+  currency: string;
+  matchDurationMinutes: number;
+  legs: 1 | 2; // Round-robin: each pair plays once, or home and away
+  groupCount?: number; // groups_knockout
+  advancePerGroup?: number; // groups_knockout: teams of each group going through to the knockout stage
+  points: ITournamentPoints;
+  status: 'registration' | 'in_progress' | 'completed' | 'cancelled';
+  teams: ITournamentTeam[];
+  fixtures: ITournamentFixture[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const feePaymentSchema = new Schema<ITournamentFeePayment>({
+  amount: { type: Number, required: true, min: 0 },
+  paymentMethod: {
+    type: String,
+    enum: ['credit_card', 'debit_card', 'bank_transfer', 'digital_wallet', 'cash', 'qrcode'],
+    required: true
+  },
+  transactionId: String,
+  receivedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  receivedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const teamSchema = new Schema<ITournamentTeam>({
+  name: { type: String, required: true, trim: true },
+  captainId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  contactPhone: String,
+  players: Number,
+  status: {
+    type: String,
+    enum: ['registered', 'confirmed', 'withdrawn'],
+    default: 'registered'
+  },
+  group: String,
+  feeAmount: { type: Number, default: 0 },
+  paidAmount: { type: Number, default: 0 },
+  payments: [feePaymentSchema],
+  pointsAdjustment: { type: Number, default: 0 },
+  adjustmentReason: String,
+  registeredAt: { type: Date, default: Date.now }
+});
+
+const fixtureSchema = new Schema<ITournamentFixture>({
+  matchNumber: { type: Number, required: true },
+  stage: {
+    type: String,
+    enum: ['league', 'group', 'knockout'],
+    required: true
+  },
+  round: { type: Number, required: true },
+  group: String,
+  homeTeamId: Schema.Types.ObjectId,
+  awayTeamId: Schema.Types.ObjectId,
+  homeFrom: String,
+  awayFrom: String,
+  status: {
+    type: String,
+    enum: ['pending', 'scheduled', 'completed', 'cancelled'],
+    default: 'pending'
+  },
+  fieldId: Schema.Types.ObjectId,
+  bookingId: { type: Schema.Types.ObjectId, ref: 'Booking' },
+  date: Date,
+  startTime: { type: String, match: TIME_PATTERN },
+  endTime: { type: String, match: TIME_PATTERN },
+  referee: {
+    type: new Schema({
+      staffId: { type: Schema.Types.ObjectId, required: true },
+      name: { type: String, required: true }
+    }, { _id: false }),
+    default: undefined
+  },
+  homeScore: { type: Number, min: 0 },
+  awayScore: { type: Number, min: 0 },
+  homePenalties: { type: Number, min: 0 },
+  awayPenalties: { type: Number, min: 0 },
+  winnerTeamId: Schema.Types.ObjectId,
+  resultEnteredBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  resultEnteredAt: Date
+});
+
+const tournamentSchema: Schema<ITournament> = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: String,
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  organizerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  format: {
+    type: String,
+    enum: ['league', 'knockout', 'groups_knockout'],
+    required: true
+  },
+  fieldType: {
+    type: String,
+    enum: ['11v11', '7v7', '5v5', 'futsal', 'training']
+  },
+  fieldIds: [Schema.Types.ObjectId],
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: Date,
+  registrationDeadline: Date,
+  maxTeams: {
+    type: Number,
+    min: 2,
+    default: 16
+  },
+  registrationFee: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  currency: {
+    type: String,
+    default: 'LAK'
+  },
+  matchDurationMinutes: {
+    type: Number,
+    min: 15,
+    default: 60
+  },
+  legs: {
+    type: Number,
+    enum: [1, 2],
+    default: 1
+  },
+  groupCount: Number,
+  advancePerGroup: Number,
+  points: {
+    win: { type: Number, default: 3 },
+    draw: { type: Number, default: 1 },
+    loss: { type: Number, default: 0 }
+  },
+  status: {
+    type: String,
+    enum: ['registration', 'in_progress', 'completed', 'cancelled'],
+    default: 'registration'
+  },
+  teams: [teamSchema],
+  fixtures: [fixtureSchema]
+}, {
+  timestamps: true
+});
+
+tournamentSchema.index({ stadiumId: 1, status: 1 });
+tournamentSchema.index({ organizerId: 1 });
+tournamentSchema.index({ status: 1, startDate: 1 });
+
+const Tournament: Model<ITournament> = mongoose.model<ITournament>('Tournament', tournamentSchema);
+
+export default Tournament;
@@ -24,7 +24,7 @@ interface IBankAccountDetails {
   accountHolderName?: string;
 }
 
-interface IOwnerProfile {
+export interface IOwnerProfile {
   businessName?: string;
   businessRegistrationNumber?: string;
   taxId?: string;
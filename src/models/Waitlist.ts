@@ -0,0 +1,115 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { IField } from './Stadium';
+
+export interface IWaitlistOffer {
+  _id?: mongoose.Types.ObjectId;
+  fieldId: mongoose.Types.ObjectId;
+  holdId: mongoose.Types.ObjectId; // Keeps the slot for the user until the offer expires
+  token: string; // Identifies the offer in the claim link
+  offeredAt: Date;
+  expiresAt: Date;
+  status: 'pending' | 'claimed' | 'declined' | 'expired';
+  respondedAt?: Date;
+}
+
+export interface IWaitlist extends Document {
+  userId: mongoose.Types.ObjectId;
+  stadiumId: mongoose.Types.ObjectId;
+  fieldId?: mongoose.Types.ObjectId; // A specific field, or else any field of fieldType
+  fieldType?: IField['fieldType'];
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+  // waiting: in line; offered: a slot is held for the user; booked: the offer was claimed;
+  // declined and expired: the offer was turned down or not claimed in time, or the date passed
+  status: 'waiting' | 'offered' | 'booked' | 'declined' | 'expired' | 'cancelled';
+  offers: IWaitlistOffer[];
+  bookingId?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const waitlistOfferSchema = new Schema<IWaitlistOffer>({
+  fieldId: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  holdId: {
+    type: Schema.Types.ObjectId,
+    ref: 'SlotHold',
+    required: true
+  },
+  token: {
+    type: String,
+    required: true
+  },
+  offeredAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'claimed', 'declined', 'expired'],
+    default: 'pending'
+  },
+  respondedAt: Date
+});
+
+const waitlistSchema: Schema<IWaitlist> = new mongoose.Schema({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  stadiumId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Stadium',
+    required: true
+  },
+  fieldId: {
+    type: Schema.Types.ObjectId,
+    required: function(this: IWaitlist) { return !this.fieldType; }
+  },
+  fieldType: {
+    type: String,
+    enum: ['11v11', '7v7', '5v5', 'futsal', 'training']
+  },
+  bookingDate: {
+    type: Date,
+    required: true
+  },
+  startTime: {
+    type: String,
+    required: true
+  },
+  endTime: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['waiting', 'offered', 'booked', 'declined', 'expired', 'cancelled'],
+    default: 'waiting'
+  },
+  offers: [waitlistOfferSchema],
+  bookingId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Booking'
+  }
+}, {
+  timestamps: true
+});
+
+// Users waiting for a slot of a stadium on a day, first come first served
+waitlistSchema.index({ stadiumId: 1, bookingDate: 1, status: 1, createdAt: 1 });
+waitlistSchema.index({ userId: 1, status: 1 });
+waitlistSchema.index({ 'offers.token': 1 }, { sparse: true });
+waitlistSchema.index({ status: 1, 'offers.expiresAt': 1 });
+
+const Waitlist: Model<IWaitlist> = mongoose.model<IWaitlist>('Waitlist', waitlistSchema);
+
+export default Waitlist;
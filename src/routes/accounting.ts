@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { AccountingController } from '../controllers/accounting.controller';
+
+const router = Router();
+
+const exportRules = [
+  query('format').optional().isIn(['json', 'csv', 'xlsx']),
+  query('stadiumId').optional().isMongoId(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('since').optional().custom(value => {
+    if (value !== 'last' && isNaN(Date.parse(value))) {
+      throw new Error('since must be "last" or a cursor returned by a previous export');
+    }
+    return true;
+  })
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Accounting
+ *   description: Ledger and double-entry journal exports for accounting software
+ *
+ * components:
+ *   parameters:
+ *     AccountingFormat:
+ *       in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [json, csv, xlsx]
+ *         default: json
+ *     AccountingStadium:
+ *       in: query
+ *       name: stadiumId
+ *       schema:
+ *         type: string
+ *       description: Limit the export to one stadium; defaults to every stadium you can access
+ *     AccountingFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: First day of entries (defaults to 30 days ago)
+ *     AccountingTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date
+ *       description: Last day of entries (defaults to now)
+ *     AccountingSince:
+ *       in: query
+ *       name: since
+ *       schema:
+ *         type: string
+ *       description: Incremental export after a cursor. Pass the cursor of a previous export, or "last" to continue from your previous incremental export of the same report and stadium. Cannot be combined with from/to.
+ */
+
+/**
+ * @swagger
+ * /api/accounting/schemas:
+ *   get:
+ *     summary: Column layouts and chart of accounts of the exports
+ *     description: Columns are only ever appended within a schema version, so imports can map them by header.
+ *     tags: [Accounting]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Schema version, accounts and the ledger and journal columns
+ */
+router.get('/schemas', AccountingController.getSchemas);
+
+/**
+ * @swagger
+ * /api/accounting/ledger:
+ *   get:
+ *     summary: Export the payment ledger
+ *     description: One row per settled payment or paid-out refund, with tax, service fee and promo credit. Refunds have negative amounts.
+ *     tags: [Accounting]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AccountingFormat'
+ *       - $ref: '#/components/parameters/AccountingStadium'
+ *       - $ref: '#/components/parameters/AccountingFrom'
+ *       - $ref: '#/components/parameters/AccountingTo'
+ *       - $ref: '#/components/parameters/AccountingSince'
+ *     responses:
+ *       200:
+ *         description: Ledger rows. The X-Export-Cursor header holds the cursor for the next incremental export.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     schemaVersion:
+ *                       type: integer
+ *                     cursor:
+ *                       type: string
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Stadium not found
+ */
+router.get('/ledger', exportRules, AccountingController.exportLedger);
+
+/**
+ * @swagger
+ * /api/accounting/journal:
+ *   get:
+ *     summary: Export the double-entry journal
+ *     description: Balanced journal entries for each payment and refund across cash, revenue, refunds, tax payable, service fee expense, platform fees payable and promo credit receivable.
+ *     tags: [Accounting]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AccountingFormat'
+ *       - $ref: '#/components/parameters/AccountingStadium'
+ *       - $ref: '#/components/parameters/AccountingFrom'
+ *       - $ref: '#/components/parameters/AccountingTo'
+ *       - $ref: '#/components/parameters/AccountingSince'
+ *     responses:
+ *       200:
+ *         description: Journal lines. The X-Export-Cursor header holds the cursor for the next incremental export.
+ *       404:
+ *         description: Stadium not found
+ */
+router.get('/journal', exportRules, AccountingController.exportJournal);
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { body, param, query } from 'express-validator';
 import { AnalyticsController } from '../controllers/analytics.controller';
 import { authenticateToken, authorizeRoles } from '../middleware/auth';
 
@@ -352,4 +353,180 @@ router.get('/export', authenticateToken, authorizeRoles(['superadmin', 'stadium_
  */
 router.get('/stadiums/:stadiumId', authenticateToken, authorizeRoles(['superadmin', 'stadium_owner']), AnalyticsController.getStadiumAnalytics);
 
-export default router;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/analytics/pricing-suggestions/{stadiumId}:
+ *   get:
+ *     summary: Get demand-based pricing suggestions for a stadium
+ *     description: Measures how often each hour of the week was booked and proposes pricing tiers that raise prices in peak hours and discount hours that are usually empty, with the expected revenue impact.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Stadium ID
+ *       - in: query
+ *         name: weeks
+ *         schema:
+ *           type: integer
+ *           minimum: 4
+ *           maximum: 52
+ *           default: 12
+ *         description: Number of past weeks to analyse
+ *       - in: query
+ *         name: fieldId
+ *         schema:
+ *           type: string
+ *         description: Only analyse this field
+ *     responses:
+ *       200:
+ *         description: Occupancy and suggestions per field
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fields:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           fieldId:
+ *                             type: string
+ *                           bookingsAnalyzed:
+ *                             type: number
+ *                           averageOccupancy:
+ *                             type: number
+ *                           suggestions:
+ *                             type: array
+ *                             items:
+ *                               type: object
+ *                               properties:
+ *                                 type:
+ *                                   type: string
+ *                                   enum: [peak, off_peak]
+ *                                 daysOfWeek:
+ *                                   type: array
+ *                                   items:
+ *                                     type: integer
+ *                                 startTime:
+ *                                   type: string
+ *                                 endTime:
+ *                                   type: string
+ *                                 averageOccupancy:
+ *                                   type: number
+ *                                 currentRate:
+ *                                   type: number
+ *                                 suggestedRate:
+ *                                   type: number
+ *                                 changePercentage:
+ *                                   type: number
+ *                                 revenueImpact:
+ *                                   type: object
+ *                                   properties:
+ *                                     currentWeekly:
+ *                                       type: number
+ *                                     projectedWeekly:
+ *                                       type: number
+ *                                     weeklyChange:
+ *                                       type: number
+ *                                     monthlyChange:
+ *                                       type: number
+ *                           projectedMonthlyChange:
+ *                             type: number
+ *                     projectedMonthlyChange:
+ *                       type: number
+ *       403:
+ *         description: Not authorized to view this stadium
+ *       404:
+ *         description: Stadium not found
+ */
+router.get('/pricing-suggestions/:stadiumId', [
+  authenticateToken,
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  param('stadiumId').isMongoId(),
+  query('weeks').optional().isInt({ min: 4, max: 52 }),
+  query('fieldId').optional().isMongoId()
+], AnalyticsController.getPricingSuggestions);
+
+/**
+ * @swagger
+ * /api/analytics/pricing-suggestions/{stadiumId}/apply:
+ *   post:
+ *     summary: Apply pricing suggestions to a stadium's fields
+ *     description: Writes the accepted suggestions into each field's pricing tiers. Earlier suggested tiers are replaced on the days the new tiers cover for the same time window; other tiers are kept, but the new tiers take precedence where they overlap.
+ *     tags: [Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Stadium ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [suggestions]
+ *             properties:
+ *               suggestions:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [fieldId, daysOfWeek, startTime, endTime, hourlyRate]
+ *                   properties:
+ *                     fieldId:
+ *                       type: string
+ *                     daysOfWeek:
+ *                       type: array
+ *                       items:
+ *                         type: integer
+ *                     startTime:
+ *                       type: string
+ *                       example: "18:00"
+ *                     endTime:
+ *                       type: string
+ *                       example: "21:00"
+ *                     hourlyRate:
+ *                       type: number
+ *                       description: Usually the suggestedRate, but owners may adjust it
+ *                     description:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Updated pricing tiers per field
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not authorized to change this stadium
+ *       404:
+ *         description: Stadium or field not found
+ */
+router.post('/pricing-suggestions/:stadiumId/apply', [
+  authenticateToken,
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  param('stadiumId').isMongoId(),
+  body('suggestions').isArray({ min: 1 }),
+  body('suggestions.*.fieldId').isMongoId(),
+  body('suggestions.*.daysOfWeek').isArray({ min: 1 }),
+  body('suggestions.*.daysOfWeek.*').isInt({ min: 0, max: 6 }),
+  body('suggestions.*.startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  body('suggestions.*.endTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  body('suggestions.*.hourlyRate').isFloat({ gt: 0 }),
+  body('suggestions.*.description').optional().isString().trim()
+], AnalyticsController.applyPricingSuggestions);
+
+export default router;
@@ -0,0 +1,246 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { BillSplitController } from '../controllers/bill-split.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Bill Splits
+ *   description: Splitting a booking between teammates, each paying their own share
+ *
+ * components:
+ *   schemas:
+ *     BillSplitParticipant:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         phone:
+ *           type: string
+ *           example: "+8562012345678"
+ *         name:
+ *           type: string
+ *         isOrganizer:
+ *           type: boolean
+ *         shareAmount:
+ *           type: number
+ *         paidAmount:
+ *           type: number
+ *         amountDue:
+ *           type: number
+ *         status:
+ *           type: string
+ *           enum: [pending, partially_paid, paid]
+ *         paymentLink:
+ *           type: string
+ *           description: Personal link the participant pays through; only shown to the organizer and staff
+ */
+
+/**
+ * @swagger
+ * /api/bill-splits/bookings/{bookingId}:
+ *   get:
+ *     summary: Get the bill split of a booking
+ *     description: The organizer and staff see every participant with their payment link. Invited players with an account see their own share.
+ *     tags: [Bill Splits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bill split with each participant's share and payment status
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found or not split
+ */
+router.get('/bookings/:bookingId', authenticateToken, BillSplitController.getSplit);
+
+/**
+ * @swagger
+ * /api/bill-splits/bookings/{bookingId}:
+ *   put:
+ *     summary: Split a booking between teammates
+ *     description: |
+ *       Invites teammates by phone and splits the booking total evenly or by custom shares. The organizer
+ *       pays the remainder, and payments made without a participant count toward the organizer's share.
+ *       Replaces any previous split; existing participants keep their payment link and new ones are sent theirs.
+ *       The split can no longer change once a teammate has paid. A pending booking is confirmed once fully funded.
+ *     tags: [Bill Splits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - participants
+ *             properties:
+ *               mode:
+ *                 type: string
+ *                 enum: [even, custom]
+ *                 default: even
+ *               participants:
+ *                 type: array
+ *                 description: Teammates to invite, not including the organizer. Capped by teamInfo.numberOfPlayers.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - phone
+ *                   properties:
+ *                     phone:
+ *                       type: string
+ *                       example: "02012345678"
+ *                     name:
+ *                       type: string
+ *                     shareAmount:
+ *                       type: number
+ *                       description: Required in custom mode
+ *     responses:
+ *       200:
+ *         description: Bill split saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     mode:
+ *                       type: string
+ *                     totalAmount:
+ *                       type: number
+ *                     participants:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BillSplitParticipant'
+ *       400:
+ *         description: Validation error, invalid phone, shares that do not add up, or teammates already paid
+ *       403:
+ *         description: Only the organizer can split the booking
+ *       404:
+ *         description: Booking not found
+ *   delete:
+ *     summary: Remove the bill split of a booking
+ *     tags: [Bill Splits]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Bill split removed
+ *       400:
+ *         description: Not split, or teammates already paid
+ *       403:
+ *         description: Only the organizer can remove the split
+ *       404:
+ *         description: Booking not found
+ */
+router.put('/bookings/:bookingId', [
+  authenticateToken,
+  body('mode').optional().isIn(['even', 'custom']),
+  body('participants').isArray({ min: 1, max: 50 }),
+  body('participants.*.phone').trim().notEmpty(),
+  body('participants.*.name').optional().trim().isLength({ max: 100 }),
+  body('participants.*.shareAmount').optional().isFloat({ gt: 0 })
+], BillSplitController.saveSplit);
+
+router.delete('/bookings/:bookingId', authenticateToken, BillSplitController.removeSplit);
+
+/**
+ * @swagger
+ * /api/bill-splits/{token}:
+ *   get:
+ *     summary: Open a participant's payment link
+ *     description: Public; the token from the link is the credential. Returns the participant's share, the team's payment progress with masked phones, and a LAO QR for the amount still due when the stadium has a bank account.
+ *     tags: [Bill Splits]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Participant share and payment QR
+ *       404:
+ *         description: Payment link not found
+ */
+router.get('/:token', BillSplitController.getByToken);
+
+/**
+ * @swagger
+ * /api/bill-splits/{token}/intents:
+ *   post:
+ *     summary: Pay a participant's share through a payment gateway
+ *     description: Public; the token from the link is the credential. Creates an intent for the participant's outstanding share.
+ *     tags: [Bill Splits]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - provider
+ *               - paymentMethod
+ *             properties:
+ *               provider:
+ *                 type: string
+ *                 example: mock
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [credit_card, qrcode, bank_transfer, digital_wallet]
+ *               returnUrl:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment intent created
+ *       200:
+ *         description: Existing intent returned for a repeated idempotency key
+ *       400:
+ *         description: Validation error, unknown provider, cancelled booking or share already paid
+ *       404:
+ *         description: Payment link not found
+ */
+router.post('/:token/intents', [
+  body('provider').trim().notEmpty(),
+  body('paymentMethod').isIn(['credit_card', 'qrcode', 'bank_transfer', 'digital_wallet']),
+  body('returnUrl').optional().isURL({ require_tld: false })
+], BillSplitController.createIntent);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { BookingWidgetService } from '../services/booking-widget.service';
+import { SLOT_UNAVAILABLE } from '../services/slot-hold.service';
+import { BookingRulesService } from '../services/booking-rules.service';
 
 const router = Router();
 
@@ -72,7 +74,7 @@ router.put('/stadiums/:stadiumId/widget-config', async (req: Request, res: Respo
 router.get('/stadiums/:stadiumId/availability', async (req: Request, res: Response): Promise<void> => {
   try {
     const { stadiumId } = req.params;
-    const { date } = req.query;
+    const { date, fieldId, holdId } = req.query;
     
     if (!stadiumId) {
       res.status(400).json({ 
@@ -90,7 +92,12 @@ router.get('/stadiums/:stadiumId/availability', async (req: Request, res: Respon
       return;
     }
     
-    const availability = await BookingWidgetService.getAvailability(stadiumId, date);
+    const availability = await BookingWidgetService.getAvailability(
+      stadiumId,
+      date,
+      typeof fieldId === 'string' ? fieldId : undefined,
+      typeof holdId === 'string' ? holdId : undefined
+    );
     
     res.json({ 
       success: true, 
@@ -105,6 +112,39 @@ router.get('/stadiums/:stadiumId/availability', async (req: Request, res: Respon
   }
 });
 
+// Hold a time slot while the customer fills in their details (public endpoint)
+router.post('/stadiums/:stadiumId/holds', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { stadiumId } = req.params;
+    const { date, fieldId, startTime, endTime } = req.body || {};
+
+    if (!date || !startTime || !endTime) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Missing required hold information' 
+      });
+      return;
+    }
+
+    const hold = await BookingWidgetService.holdSlot(stadiumId, { date, fieldId, startTime, endTime });
+
+    res.status(201).json({ 
+      success: true, 
+      data: hold 
+    });
+  } catch (error: any) {
+    if (error.message === SLOT_UNAVAILABLE) {
+      await sendWidgetConflict(req, res);
+      return;
+    }
+    console.error('Error holding slot:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: error.message || 'Failed to hold time slot' 
+    });
+  }
+});
+
 // Create booking through widget (public endpoint)
 router.post('/stadiums/:stadiumId/bookings', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -143,6 +183,17 @@ router.post('/stadiums/:stadiumId/bookings', async (req: Request, res: Response)
       data: booking 
     });
   } catch (error: any) {
+    if (error.message === SLOT_UNAVAILABLE || error.code === 11000) {
+      await sendWidgetConflict(req, res);
+      return;
+    }
+    if (BookingRulesService.isViolation(error)) {
+      res.status(400).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
     console.error('Error creating booking:', error);
     res.status(500).json({ 
       success: false, 
@@ -151,4 +202,18 @@ router.post('/stadiums/:stadiumId/bookings', async (req: Request, res: Response)
   }
 });
 
+// 409 for a taken slot, listing the slots that are still free that day
+async function sendWidgetConflict(req: Request, res: Response): Promise<void> {
+  const { date, fieldId, holdId } = req.body || {};
+  const availability = await BookingWidgetService.getAvailability(req.params.stadiumId, date, fieldId, holdId);
+
+  res.status(409).json({
+    success: false,
+    error: SLOT_UNAVAILABLE,
+    data: {
+      alternatives: availability.filter(slot => slot.available)
+    }
+  });
+}
+
 export default router;
\ No newline at end of file
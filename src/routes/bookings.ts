@@ -2,10 +2,17 @@
 import { Router } from 'express';
 import { body, query } from 'express-validator';
 import { BookingController } from '../controllers/booking.controller';
+import { RefundController } from '../controllers/refund.controller';
+import { PaymentSlipController } from '../controllers/payment-slip.controller';
+import { SlotHoldController } from '../controllers/slot-hold.controller';
 import { authenticateToken } from '../middleware/auth';
+import { uploadPaymentSlip } from '../middleware/upload';
 
 const router = Router();
 
+// Slots can run until midnight, which generated slots and opening hours write as 24:00
+const END_TIME_PATTERN = /^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
 /**
  * @swagger
  * tags:
@@ -82,6 +89,14 @@ const router = Router();
  *           type: number
  *         description:
  *           type: string
+ *         promoCodeId:
+ *           type: string
+ *         code:
+ *           type: string
+ *           description: Promo code that produced the discount
+ *         fundedBy:
+ *           type: string
+ *           enum: [platform, stadium]
  *     
  *     RefereeCharge:
  *       type: object
@@ -98,17 +113,62 @@ const router = Router();
  *         total:
  *           type: number
  *     
+ *     PricingLineItem:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [field, referee, discount, loyalty_discount, tax]
+ *         description:
+ *           type: string
+ *         quantity:
+ *           type: number
+ *         unitPrice:
+ *           type: number
+ *         total:
+ *           type: number
+ *         rateSource:
+ *           type: string
+ *           enum: [special_date, time_slot, pricing_tier, seasonal, holiday, base]
+ *         startTime:
+ *           type: string
+ *         endTime:
+ *           type: string
+ *     
  *     Pricing:
  *       type: object
  *       properties:
  *         baseRate:
  *           type: number
+ *           description: Effective hourly field rate
+ *         subtotal:
+ *           type: number
+ *           description: Field and referee charges before discounts and taxes
  *         totalAmount:
  *           type: number
  *         currency:
  *           type: string
  *         taxes:
  *           type: number
+ *         taxDetails:
+ *           type: object
+ *           description: Tax configuration applied when the booking was priced
+ *           properties:
+ *             name:
+ *               type: string
+ *               example: VAT
+ *             rate:
+ *               type: number
+ *               example: 10
+ *             inclusive:
+ *               type: boolean
+ *               description: Whether taxes are already included in totalAmount
+ *             sellerTaxId:
+ *               type: string
+ *             sellerName:
+ *               type: string
+ *             exemptionReason:
+ *               type: string
  *         refereeCharges:
  *           type: array
  *           items:
@@ -117,6 +177,10 @@ const router = Router();
  *           type: array
  *           items:
  *             $ref: '#/components/schemas/Discount'
+ *         lineItems:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PricingLineItem'
  *     
  *     Cancellation:
  *       type: object
@@ -131,9 +195,94 @@ const router = Router();
  *           type: string
  *         refundAmount:
  *           type: number
+ *         cancellationFee:
+ *           type: number
  *         refundStatus:
  *           type: string
  *     
+ *     Refund:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         amount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [requested, approved, paid_out, rejected]
+ *         reason:
+ *           type: string
+ *         requestedBy:
+ *           type: string
+ *           format: ObjectId
+ *         requestedAt:
+ *           type: string
+ *           format: date-time
+ *         reviewedBy:
+ *           type: string
+ *           format: ObjectId
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *         rejectionReason:
+ *           type: string
+ *         paymentMethod:
+ *           type: string
+ *         transactionReference:
+ *           type: string
+ *         paidOutAt:
+ *           type: string
+ *           format: date-time
+ *     
+ *     RefundTotals:
+ *       type: object
+ *       properties:
+ *         totalPaid:
+ *           type: number
+ *         totalRefunded:
+ *           type: number
+ *         pendingRefunds:
+ *           type: number
+ *         netPaid:
+ *           type: number
+ *     
+ *     CancellationQuote:
+ *       type: object
+ *       properties:
+ *         allowed:
+ *           type: boolean
+ *         reason:
+ *           type: string
+ *         hoursUntilBooking:
+ *           type: number
+ *         paidAmount:
+ *           type: number
+ *         feeAmount:
+ *           type: number
+ *         refundAmount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         policySource:
+ *           type: string
+ *           enum: [field_booking_type, field, stadium_booking_type, stadium, default]
+ *         appliedTier:
+ *           type: object
+ *           properties:
+ *             minHoursBefore:
+ *               type: number
+ *             feeType:
+ *               type: string
+ *               enum: [percentage, fixed]
+ *             feeAmount:
+ *               type: number
+ *         loyaltyTier:
+ *           type: string
+ *         feesWaived:
+ *           type: boolean
+ *     
  *     HistoryItem:
  *       type: object
  *       properties:
@@ -156,6 +305,12 @@ const router = Router();
  *     MembershipDetails:
  *       type: object
  *       properties:
+ *         seriesId:
+ *           type: string
+ *           description: Membership series the booking is an occurrence of
+ *         billingCycleId:
+ *           type: string
+ *           description: Billing cycle of the series the occurrence is invoiced and paid with, for series billed under a membership plan
  *         membershipStartDate:
  *           type: string
  *           format: date-time
@@ -282,7 +437,7 @@ const router = Router();
  *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
  *         endTime:
  *           type: string
- *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
  *         durationHours:
  *           type: number
  *         pricing:
@@ -321,6 +476,44 @@ const router = Router();
  *         # ✅ Added membershipDetails property
  *         membershipDetails:
  *           $ref: '#/components/schemas/MembershipDetails'
+ *         tournamentDetails:
+ *           type: object
+ *           description: Set on bookings of tournament fixtures, see /api/tournaments
+ *           properties:
+ *             tournamentId:
+ *               type: string
+ *             fixtureId:
+ *               type: string
+ *             matchNumber:
+ *               type: integer
+ *         openMatch:
+ *           type: object
+ *           description: Set when the booking is published as an open match, see /api/open-matches
+ *           properties:
+ *             type:
+ *               type: string
+ *               enum: [opponent, players]
+ *             skillLevel:
+ *               type: string
+ *               enum: [beginner, intermediate, advanced]
+ *             playersNeeded:
+ *               type: integer
+ *             pricePerPlayer:
+ *               type: number
+ *             opponentShare:
+ *               type: number
+ *             description:
+ *               type: string
+ *             status:
+ *               type: string
+ *               enum: [open, full, closed]
+ *             publishedAt:
+ *               type: string
+ *               format: date-time
+ *             requests:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/OpenMatchRequest'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -374,6 +567,12 @@ const router = Router();
  *                 type: string
  *                 format: ObjectId
  *                 description: ID of the field
+ *               additionalFieldIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: ObjectId
+ *                 description: Further fields booked together with fieldId for the same time, e.g. two 7v7 fields for a tournament. They are priced together on one booking and one invoice and must not overlap each other.
  *               bookingDate:
  *                 type: string
  *                 format: date
@@ -384,7 +583,7 @@ const router = Router();
  *                 description: Start time in 24-hour format (HH:mm)
  *               endTime:
  *                 type: string
- *                 pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *                 pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
  *                 description: End time in 24-hour format (HH:mm)
  *               startDate:
  *                 type: string
@@ -407,6 +606,9 @@ const router = Router();
  *                 type: integer
  *                 minimum: 1
  *                 description: Optional total number of occurrences for membership booking
+ *               planId:
+ *                 type: string
+ *                 description: Stadium membership plan the series is billed under, for membership bookings
  *               teamInfo:
  *                 $ref: '#/components/schemas/TeamInfo'
  *               specialRequests:
@@ -421,6 +623,12 @@ const router = Router();
  *                 type: string
  *                 enum: [regular, tournament, training, event, membership]
  *                 description: Type of booking
+ *               promoCode:
+ *                 type: string
+ *                 description: Promo code to apply to a regular booking
+ *               holdId:
+ *                 type: string
+ *                 description: Slot hold to convert into this booking (see POST /api/bookings/holds)
  *     responses:
  *       201:
  *         description: Booking created successfully
@@ -435,10 +643,19 @@ const router = Router();
  *                   type: string
  *                 data:
  *                   $ref: '#/components/schemas/Booking'
+ *                 series:
+ *                   $ref: '#/components/schemas/MembershipSeries'
+ *                 conflicts:
+ *                   type: array
+ *                   description: Membership dates that could not be booked, with the reason
+ *                   items:
+ *                     $ref: '#/components/schemas/SeriesOccurrence'
  *       400:
- *         description: Validation error or time slot already booked
+ *         description: Validation error, promo code cannot be used, combined fields overlap or the field's booking rules are not met
  *       404:
  *         description: Stadium or field not found
+ *       409:
+ *         $ref: '#/components/responses/SlotConflict'
  *       500:
  *         description: Failed to create booking
  */
@@ -487,7 +704,7 @@ router.post('/', [
       return true;
     }),
   body('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
-  body('endTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  body('endTime').matches(END_TIME_PATTERN),
   body('recurrencePattern')
     .custom((value, { req }) => {
       // Only validate recurrence pattern for membership bookings
@@ -501,9 +718,126 @@ router.post('/', [
       }
       return true;
     }),
-  body('teamInfo.teamName').optional().trim()
+  body('planId').optional().isMongoId(),
+  body('teamInfo.teamName').optional().trim(),
+  body('promoCode').optional().isString().trim().notEmpty(),
+  body('holdId').optional().isMongoId(),
+  body('additionalFieldIds').optional().isArray({ max: 10 }),
+  body('additionalFieldIds.*').isMongoId()
 ], BookingController.createBooking);
 
+/**
+ * @swagger
+ * components:
+ *   responses:
+ *     SlotConflict:
+ *       description: The time slot is booked or held by another customer
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               success:
+ *                 type: boolean
+ *                 example: false
+ *               message:
+ *                 type: string
+ *                 example: Time slot is no longer available
+ *               data:
+ *                 type: object
+ *                 properties:
+ *                   requested:
+ *                     type: object
+ *                   alternatives:
+ *                     type: object
+ *                     properties:
+ *                       sameField:
+ *                         type: array
+ *                         description: Free slots on the same field that day, closest to the requested time first
+ *                         items:
+ *                           type: object
+ *                       otherFields:
+ *                         type: array
+ *                         description: The requested time on the stadium's other fields
+ *                         items:
+ *                           type: object
+ *
+ * /api/bookings/holds:
+ *   post:
+ *     summary: Hold a time slot during checkout
+ *     description: Reserves the slot for a few minutes (10 by default) so nobody else can book it. Holding another overlapping slot on the same field replaces your previous hold. Pass the hold id as holdId when creating the booking; unconverted holds expire on their own.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - stadiumId
+ *               - fieldId
+ *               - bookingDate
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               stadiumId:
+ *                 type: string
+ *               fieldId:
+ *                 type: string
+ *               bookingDate:
+ *                 type: string
+ *                 format: date
+ *               startTime:
+ *                 type: string
+ *                 example: "18:00"
+ *               endTime:
+ *                 type: string
+ *                 example: "20:00"
+ *     responses:
+ *       201:
+ *         description: Slot held; expiresAt tells when the hold lapses
+ *       400:
+ *         description: Validation error or field not active
+ *       404:
+ *         description: Stadium or field not found
+ *       409:
+ *         $ref: '#/components/responses/SlotConflict'
+ */
+router.post('/holds', [
+  authenticateToken,
+  body('stadiumId').isMongoId(),
+  body('fieldId').isMongoId(),
+  body('bookingDate').isISO8601(),
+  body('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+  body('endTime').matches(END_TIME_PATTERN)
+], SlotHoldController.createHold);
+
+/**
+ * @swagger
+ * /api/bookings/holds/{holdId}:
+ *   delete:
+ *     summary: Release a held time slot
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Time slot released
+ *       403:
+ *         description: The hold belongs to someone else
+ *       404:
+ *         description: Hold not found or already expired
+ */
+router.delete('/holds/:holdId', authenticateToken, SlotHoldController.releaseHold);
+
 /**
  * @swagger
  * /api/bookings/my-bookings:
@@ -745,6 +1079,43 @@ router.put('/:bookingId/cancel', [
   body('reason').optional().trim()
 ], BookingController.cancelBooking);
 
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/cancellation-quote:
+ *   get:
+ *     summary: Preview the refund for cancelling a booking
+ *     description: Evaluates the stadium, field or booking type cancellation policy without cancelling the booking.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         schema:
+ *           type: string
+ *         required: true
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: Cancellation quote
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/CancellationQuote'
+ *       400:
+ *         description: Invalid booking ID
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/:bookingId/cancellation-quote', authenticateToken, BookingController.getCancellationQuote);
+
 /**
  * @swagger
  * /api/bookings/{bookingId}:
@@ -830,6 +1201,7 @@ router.put('/:bookingId/confirm', authenticateToken, BookingController.confirmBo
  * /api/bookings/{bookingId}/payment:
  *   post:
  *     summary: Add a payment to a booking
+ *     description: Payments recorded by stadium owners or superadmins are completed immediately. Payments submitted by customers stay pending until confirmed; use /api/payments/intents for gateway payments.
  *     tags: [Bookings]
  *     security:
  *       - bearerAuth: []
@@ -859,6 +1231,9 @@ router.put('/:bookingId/confirm', authenticateToken, BookingController.confirmBo
  *                 type: string
  *               gatewayResponse:
  *                 type: object
+ *               participantId:
+ *                 type: string
+ *                 description: Bill-split participant whose share this pays
  *     responses:
  *       200:
  *         description: Payment added successfully
@@ -885,7 +1260,8 @@ router.post('/:bookingId/payment', [
   body('paymentMethod').isIn(['credit_card', 'debit_card', 'bank_transfer', 'digital_wallet', 'cash', 'qrcode']),
   body('amount').isFloat({ min: 0.01 }),
   body('currency').optional().trim(),
-  body('transactionId').optional().trim()
+  body('transactionId').optional().trim(),
+  body('participantId').optional().isMongoId()
 ], BookingController.addPayment);
 
 /**
@@ -919,6 +1295,36 @@ router.post('/:bookingId/payment', [
  *                     $ref: '#/components/schemas/Payment'
  *                 totalPaid:
  *                   type: number
+ *                 totalRefunded:
+ *                   type: number
+ *                 pendingRefunds:
+ *                   type: number
+ *                 netPaid:
+ *                   type: number
+ *                 amountDue:
+ *                   type: number
+ *                   description: Balance the customer still owes
+ *                 deposit:
+ *                   type: object
+ *                   nullable: true
+ *                   description: Deposit terms when the stadium requires one
+ *                   properties:
+ *                     requiredAmount:
+ *                       type: number
+ *                     depositDue:
+ *                       type: number
+ *                     balanceDue:
+ *                       type: string
+ *                       enum: [at_venue, before_kickoff]
+ *                     balanceDueAt:
+ *                       type: string
+ *                       format: date-time
+ *                     holdExpiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                     receivedAt:
+ *                       type: string
+ *                       format: date-time
  *       400:
  *         description: Invalid booking ID
  *       403:
@@ -928,6 +1334,262 @@ router.post('/:bookingId/payment', [
  */
 router.get('/:bookingId/payments', authenticateToken, BookingController.getBookingPayments);
 
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/refunds:
+ *   get:
+ *     summary: Get refunds for a booking
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: Refunds and ledger totals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Refund'
+ *                 totals:
+ *                   $ref: '#/components/schemas/RefundTotals'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found
+ *   post:
+ *     summary: Request a refund
+ *     description: Customers can request refunds for cancelled bookings. Stadium owners and superadmins can issue refunds at any time.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the refund amount calculated at cancellation
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Refund requested
+ *       400:
+ *         description: Invalid amount or booking not cancelled
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/:bookingId/refunds', authenticateToken, RefundController.getBookingRefunds);
+
+router.post('/:bookingId/refunds', [
+  authenticateToken,
+  body('amount').optional().isFloat({ gt: 0 }),
+  body('reason').optional().trim()
+], RefundController.requestRefund);
+
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/refunds/{refundId}/approve:
+ *   put:
+ *     summary: Approve a requested refund
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Refund approved
+ *       400:
+ *         description: Refund is not in requested status
+ *       403:
+ *         description: Only the stadium owner or a superadmin can review refunds
+ *       404:
+ *         description: Booking or refund not found
+ */
+router.put('/:bookingId/refunds/:refundId/approve', authenticateToken, RefundController.approveRefund);
+
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/refunds/{refundId}/reject:
+ *   put:
+ *     summary: Reject a refund
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund rejected
+ *       400:
+ *         description: Refund can no longer be rejected
+ *       403:
+ *         description: Only the stadium owner or a superadmin can review refunds
+ *       404:
+ *         description: Booking or refund not found
+ */
+router.put('/:bookingId/refunds/:refundId/reject', [
+  authenticateToken,
+  body('reason').optional().trim()
+], RefundController.rejectRefund);
+
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/refunds/{refundId}/pay-out:
+ *   put:
+ *     summary: Mark an approved refund as paid out
+ *     description: Records a negative payment entry and moves the booking to refunded or partially_refunded.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [credit_card, qrcode, bank_transfer, digital_wallet, cash]
+ *               transactionReference:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Refund paid out
+ *       400:
+ *         description: Refund is not approved
+ *       403:
+ *         description: Only the stadium owner or a superadmin can review refunds
+ *       404:
+ *         description: Booking or refund not found
+ */
+router.put('/:bookingId/refunds/:refundId/pay-out', [
+  authenticateToken,
+  body('paymentMethod').optional().isIn(['credit_card', 'qrcode', 'bank_transfer', 'digital_wallet', 'cash']),
+  body('transactionReference').optional().trim()
+], RefundController.payOutRefund);
+
+/**
+ * @swagger
+ * /api/bookings/{bookingId}/payment-slip:
+ *   post:
+ *     summary: Upload a bank transfer slip
+ *     description: Creates a pending payment with the slip image attached. The stadium owner approves or rejects it from the payment slip queue. Images already used for another payment are refused, and slips with the same amount and transfer time are flagged.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - slip
+ *               - amount
+ *             properties:
+ *               slip:
+ *                 type: string
+ *                 format: binary
+ *                 description: Screenshot of the transfer (jpeg, jpg, png, webp; max 5MB)
+ *               amount:
+ *                 type: number
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [bank_transfer, qrcode, digital_wallet]
+ *               transferredAt:
+ *                 type: string
+ *                 format: date-time
+ *               transactionReference:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Slip submitted for review
+ *       400:
+ *         description: Validation error or missing image
+ *       403:
+ *         description: Only the customer who made the booking can upload slips
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: The same slip image was already submitted
+ */
+router.post('/:bookingId/payment-slip', [
+  authenticateToken,
+  uploadPaymentSlip.single('slip'),
+  body('amount').isFloat({ gt: 0 }),
+  body('paymentMethod').optional().isIn(['bank_transfer', 'qrcode', 'digital_wallet']),
+  body('transferredAt').optional().isISO8601(),
+  body('transactionReference').optional().trim()
+], PaymentSlipController.uploadSlip);
+
 /**
  * @swagger
  * /api/bookings/{bookingId}/assign-staff:
@@ -1250,7 +1912,7 @@ router.get('/field/:stadiumId/:fieldId/availability', [
  *         required: true
  *         schema:
  *           type: string
- *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
  *         description: End time (HH:mm)
  *     responses:
  *       200:
@@ -1380,7 +2042,7 @@ router.post('/:bookingId/send-invoice', [
 router.get('/field/:stadiumId/:fieldId/check-slot', [
   query('date').notEmpty().isISO8601(),
   query('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
-  query('endTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+  query('endTime').matches(END_TIME_PATTERN)
 ], BookingController.checkSpecificSlot);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,344 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { HolidayController } from '../controllers/holiday.controller';
+import { authenticateToken, authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+const holidayRules = [
+  body('name').optional().isString().trim().isLength({ min: 1, max: 120 }),
+  body('startDate').optional().isISO8601().withMessage('Start date must be a date'),
+  body('endDate').optional().isISO8601().withMessage('End date must be a date'),
+  body('isActive').optional().isBoolean(),
+  body('fieldIds').optional().isArray({ max: 50 }),
+  body('fieldIds.*').isMongoId()
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Holidays
+ *   description: Public holidays, platform blackouts and stadium closures
+ *
+ * components:
+ *   schemas:
+ *     Holiday:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [holiday, blackout, closure]
+ *           description: >
+ *             holiday - public holiday of a country, charged at the fields' holiday tier and closing
+ *             stadiums that close on public holidays; blackout - platform-wide closure, optionally of one
+ *             country; closure - a stadium closing some or all of its fields
+ *         name:
+ *           type: string
+ *           example: Lao New Year
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           description: Last day, inclusive
+ *         country:
+ *           type: string
+ *           example: laos
+ *         stadiumId:
+ *           type: string
+ *         fieldIds:
+ *           type: array
+ *           description: Closed fields; the whole stadium when empty
+ *           items:
+ *             type: string
+ *         source:
+ *           type: string
+ *           enum: [manual, ics, json]
+ *         isActive:
+ *           type: boolean
+ *     SpecialDay:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         type:
+ *           type: string
+ *           enum: [holiday, blackout, closure]
+ *         name:
+ *           type: string
+ *         reason:
+ *           type: string
+ *           example: Lao New Year (public holiday)
+ *         isClosed:
+ *           type: boolean
+ *           description: False for holidays the stadium stays open on and for closures of some fields only
+ *         stadiumId:
+ *           type: string
+ *         stadiumName:
+ *           type: string
+ *         fieldIds:
+ *           type: array
+ *           items:
+ *             type: string
+ */
+
+/**
+ * @swagger
+ * /api/holidays:
+ *   get:
+ *     summary: List holidays, blackouts and closures
+ *     tags: [Holidays]
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [holiday, blackout, closure]
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: stadiumId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Matching entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Holiday'
+ *   post:
+ *     summary: Add a public holiday, a blackout or a stadium closure
+ *     description: Public holidays and blackouts are added by superadmins; closures by the stadium's owner.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Holiday'
+ *               - type: object
+ *                 required: [type, name, startDate]
+ *     responses:
+ *       201:
+ *         description: Entry created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Access denied
+ */
+router.get('/', [
+  query('type').optional().isIn(['holiday', 'blackout', 'closure']),
+  query('stadiumId').optional().isMongoId(),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601()
+], HolidayController.getHolidays);
+
+router.post('/', [
+  authenticateToken,
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  body('type').isIn(['holiday', 'blackout', 'closure']).withMessage('Type must be holiday, blackout or closure'),
+  body('name').isString().trim().notEmpty().withMessage('Name is required'),
+  body('startDate').isISO8601().withMessage('Start date must be a date'),
+  body('country').optional().isString().trim().notEmpty(),
+  body('stadiumId').optional().isMongoId(),
+  ...holidayRules
+], HolidayController.createHoliday);
+
+/**
+ * @swagger
+ * /api/holidays/stadium/{stadiumId}/days:
+ *   get:
+ *     summary: Days a stadium has a holiday, blackout or closure
+ *     description: One entry per day, explaining why the stadium or some of its fields are closed. Ranges are limited to 366 days.
+ *     tags: [Holidays]
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Special days of the stadium
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SpecialDay'
+ *       404:
+ *         description: Stadium not found
+ */
+router.get('/stadium/:stadiumId/days', [
+  param('stadiumId').isMongoId(),
+  query('from').isISO8601().withMessage('From must be a date'),
+  query('to').isISO8601().withMessage('To must be a date')
+], HolidayController.getStadiumDays);
+
+/**
+ * @swagger
+ * /api/holidays/import/{country}:
+ *   post:
+ *     summary: Import a country's public holidays
+ *     description: >
+ *       Accepts an iCalendar file's content or a JSON list. Holidays imported before, matched by their
+ *       event UID or id, or else by name and date, are updated instead of added twice.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: country
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: laos
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [format]
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [ics, json]
+ *               content:
+ *                 type: string
+ *                 description: iCalendar file content, for the ics format
+ *               holidays:
+ *                 type: array
+ *                 description: Holidays, for the json format
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: string
+ *                     name:
+ *                       type: string
+ *                       example: That Luang Festival
+ *                     date:
+ *                       type: string
+ *                       format: date
+ *                     endDate:
+ *                       type: string
+ *                       format: date
+ *     responses:
+ *       201:
+ *         description: Number of holidays created and updated
+ *       400:
+ *         description: Nothing to import or invalid holidays
+ */
+router.post('/import/:country', [
+  authenticateToken,
+  authorizeRoles(['superadmin']),
+  param('country').trim().notEmpty(),
+  body('format').isIn(['ics', 'json']).withMessage('Format must be ics or json'),
+  body('content').if(body('format').equals('ics')).isString().notEmpty().withMessage('Calendar content is required'),
+  body('holidays').if(body('format').equals('json')).isArray({ min: 1, max: 500 }).withMessage('Holidays must be a list')
+], HolidayController.importHolidays);
+
+/**
+ * @swagger
+ * /api/holidays/{holidayId}:
+ *   put:
+ *     summary: Update a holiday, blackout or closure
+ *     description: Stadium owners can update their stadiums' closures; holidays and blackouts belong to superadmins.
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: holidayId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Holiday'
+ *     responses:
+ *       200:
+ *         description: Entry updated
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Entry not found
+ *   delete:
+ *     summary: Delete a holiday, blackout or closure
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: holidayId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Entry deleted
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Entry not found
+ */
+router.put('/:holidayId', [
+  authenticateToken,
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  ...holidayRules
+], HolidayController.updateHoliday);
+
+router.delete('/:holidayId', [
+  authenticateToken,
+  authorizeRoles(['superadmin', 'stadium_owner'])
+], HolidayController.deleteHoliday);
+
+export default router;
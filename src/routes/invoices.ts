@@ -188,6 +188,7 @@ router.get('/admin-history', authenticateToken, authorizeRoles(['superadmin']),
  * /api/invoices/{bookingId}/download-pdf:
  *   get:
  *     summary: Download invoice as PDF
+ *     description: The invoice receives its sequential number (e.g. INV-2026-000123) the first time it is issued and keeps it afterwards.
  *     tags: [Invoices]
  *     security:
  *       - bearerAuth: []
@@ -217,4 +218,62 @@ router.get('/admin-history', authenticateToken, authorizeRoles(['superadmin']),
  */
 router.get('/:bookingId/download-pdf', authenticateToken, InvoiceController.downloadInvoicePDF);
 
+/**
+ * @swagger
+ * /api/invoices/{bookingId}/credit-notes:
+ *   get:
+ *     summary: List credit notes issued against a booking's invoice
+ *     description: Credit notes are issued automatically when a booking is cancelled or a refund is paid out on an active booking.
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Credit notes, oldest first
+ *       400:
+ *         description: Invalid booking ID
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/:bookingId/credit-notes', authenticateToken, InvoiceController.getBookingCreditNotes);
+
+/**
+ * @swagger
+ * /api/invoices/credit-notes/{creditNoteId}/download-pdf:
+ *   get:
+ *     summary: Download a credit note as PDF
+ *     tags: [Invoices]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: creditNoteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PDF credit note downloaded successfully
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid credit note ID
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Credit note not found
+ */
+router.get('/credit-notes/:creditNoteId/download-pdf', authenticateToken, InvoiceController.downloadCreditNotePDF);
+
 export default router;
\ No newline at end of file
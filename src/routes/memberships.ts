@@ -0,0 +1,777 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { MembershipController } from '../controllers/membership.controller';
+
+const router = Router();
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const seriesRules = [
+  body('stadiumId').isMongoId().withMessage('Stadium ID is required'),
+  body('fieldId').isMongoId().withMessage('Field ID is required'),
+  body('startDate').isISO8601().withMessage('Start date must be a date'),
+  body('endDate').optional().isISO8601().withMessage('End date must be a date'),
+  body('dayOfWeek').isInt({ min: 0, max: 6 }).withMessage('Day of week must be between 0 and 6'),
+  body('startTime').matches(TIME_PATTERN).withMessage('Start time must be HH:mm'),
+  body('endTime').matches(TIME_PATTERN).withMessage('End time must be HH:mm'),
+  body('recurrencePattern').isIn(['weekly', 'biweekly', 'monthly']).withMessage('Recurrence pattern must be weekly, biweekly or monthly'),
+  body('totalOccurrences').optional().isInt({ min: 1, max: 104 }).withMessage('Total occurrences must be between 1 and 104'),
+  body('planId').optional().isMongoId().withMessage('Invalid membership plan ID'),
+  body('specialRequests').optional().isArray()
+];
+
+const seriesIdRule = param('seriesId').isMongoId().withMessage('Invalid series ID');
+const cycleIdRule = param('cycleId').isMongoId().withMessage('Invalid billing cycle ID');
+
+/**
+ * @swagger
+ * tags:
+ *   name: Memberships
+ *   description: Recurring membership series booking the same field and time on a weekly, biweekly or monthly rhythm
+ *
+ * components:
+ *   schemas:
+ *     SeriesOccurrence:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [booked, conflict, closed, skipped, paused, suspended, cancelled]
+ *           description: >
+ *             booked - has an active booking; conflict - the slot was taken; closed - holiday, blackout or
+ *             closure; skipped - left out by the member; paused and cancelled - released with the series;
+ *             suspended - released because a billing cycle was not paid
+ *         bookingId:
+ *           type: string
+ *         reason:
+ *           type: string
+ *           example: Time slot is already booked
+ *     MembershipSeries:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         stadiumId:
+ *           type: string
+ *         fieldId:
+ *           type: string
+ *         dayOfWeek:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *         startTime:
+ *           type: string
+ *           example: '18:00'
+ *         endTime:
+ *           type: string
+ *           example: '20:00'
+ *         recurrencePattern:
+ *           type: string
+ *           enum: [weekly, biweekly, monthly]
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         totalOccurrences:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [active, paused, suspended, cancelled]
+ *         pausedAt:
+ *           type: string
+ *           format: date-time
+ *         suspendedAt:
+ *           type: string
+ *           format: date-time
+ *         billing:
+ *           type: object
+ *           description: The membership plan the series is billed under, as it was when the series was created
+ *           properties:
+ *             planId:
+ *               type: string
+ *             planName:
+ *               type: string
+ *             billingCycle:
+ *               type: string
+ *               enum: [monthly, term, upfront]
+ *             occurrencesPerTerm:
+ *               type: integer
+ *             upfrontDiscountPercent:
+ *               type: number
+ *             dueDaysBefore:
+ *               type: integer
+ *             reminderDays:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *             suspendAfterDays:
+ *               type: integer
+ *         billingCycles:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MembershipBillingCycle'
+ *         occurrences:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/SeriesOccurrence'
+ *         history:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [created, paused, resumed, skipped, extended, rescheduled, payment_received, suspended, reinstated, cancelled]
+ *               changedBy:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *               timestamp:
+ *                 type: string
+ *                 format: date-time
+ *     MembershipBillingCycle:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         sequence:
+ *           type: integer
+ *         periodStart:
+ *           type: string
+ *           format: date-time
+ *         periodEnd:
+ *           type: string
+ *           format: date-time
+ *         bookingIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         amount:
+ *           type: number
+ *         paidAmount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *           example: LAK
+ *         dueDate:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [scheduled, invoiced, overdue, paid, void]
+ *           description: >
+ *             scheduled - not invoiced yet (invoices go out 7 days before the due date); void - every
+ *             occurrence of the cycle was released
+ *         invoiceId:
+ *           type: string
+ *         invoiceNumber:
+ *           type: string
+ *         paidAt:
+ *           type: string
+ *           format: date-time
+ *         remindersSent:
+ *           type: integer
+ *     MembershipSeriesRequest:
+ *       type: object
+ *       required: [stadiumId, fieldId, startDate, dayOfWeek, startTime, endTime, recurrencePattern]
+ *       properties:
+ *         stadiumId:
+ *           type: string
+ *         fieldId:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         dayOfWeek:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 6
+ *           description: 0=Sunday, 1=Monday, ..., 6=Saturday
+ *         startTime:
+ *           type: string
+ *           example: '18:00'
+ *         endTime:
+ *           type: string
+ *           example: '20:00'
+ *         recurrencePattern:
+ *           type: string
+ *           enum: [weekly, biweekly, monthly]
+ *         totalOccurrences:
+ *           type: integer
+ *           description: Planned dates, taken and closed ones included; 52 when neither this nor an end date is given
+ *         planId:
+ *           type: string
+ *           description: >
+ *             One of the stadium's membership plans. The series is then billed per cycle with one invoice
+ *             each; without a plan every occurrence is paid like a regular booking.
+ *         teamInfo:
+ *           type: object
+ *         specialRequests:
+ *           type: array
+ *           items:
+ *             type: string
+ *     MembershipSeriesResult:
+ *       type: object
+ *       properties:
+ *         series:
+ *           $ref: '#/components/schemas/MembershipSeries'
+ *         bookings:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Booking'
+ *         conflicts:
+ *           type: array
+ *           description: Dates that could not be booked, with the reason
+ *           items:
+ *             $ref: '#/components/schemas/SeriesOccurrence'
+ *     MembershipSeriesChange:
+ *       type: object
+ *       properties:
+ *         series:
+ *           $ref: '#/components/schemas/MembershipSeries'
+ *         changed:
+ *           type: integer
+ *         kept:
+ *           type: array
+ *           description: Occurrences inside the cancellation notice window, left as they were
+ *           items:
+ *             $ref: '#/components/schemas/SeriesOccurrence'
+ *         conflicts:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/OccurrencePreview'
+ *     OccurrencePreview:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *         status:
+ *           type: string
+ *           enum: [available, conflict, closed]
+ *         reason:
+ *           type: string
+ *         price:
+ *           type: number
+ *         alternatives:
+ *           type: object
+ *           description: Other times and fields on the date, for taken dates
+ */
+
+/**
+ * @swagger
+ * /api/memberships/preview:
+ *   post:
+ *     summary: Preview a membership series
+ *     description: Lists every planned date as available, taken (with alternatives) or closed, with prices. Nothing is booked.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MembershipSeriesRequest'
+ *     responses:
+ *       200:
+ *         description: Dates of the series and a summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     occurrences:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/OccurrencePreview'
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         total:
+ *                           type: integer
+ *                         available:
+ *                           type: integer
+ *                         conflicts:
+ *                           type: integer
+ *                         closed:
+ *                           type: integer
+ *                         totalAmount:
+ *                           type: number
+ *                         currency:
+ *                           type: string
+ *       400:
+ *         description: Validation error or the field's booking rules are not met
+ *       404:
+ *         description: Stadium, field or membership plan not found
+ */
+router.post('/preview', seriesRules, MembershipController.previewSeries);
+
+/**
+ * @swagger
+ * /api/memberships:
+ *   post:
+ *     summary: Create a membership series
+ *     description: Books every free planned date. Taken and closed dates are kept on the series with the reason.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MembershipSeriesRequest'
+ *     responses:
+ *       201:
+ *         description: Series created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesResult'
+ *       400:
+ *         description: Validation error or the field's booking rules are not met
+ *       404:
+ *         description: Stadium, field or membership plan not found
+ *   get:
+ *     summary: Current user's membership series
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Series, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MembershipSeries'
+ */
+router.post('/', seriesRules, MembershipController.createSeries);
+
+router.get('/', MembershipController.getMySeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}:
+ *   get:
+ *     summary: Get a membership series with its occurrences
+ *     description: Available to the member, the stadium's owner and superadmins.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The series
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ */
+router.get('/:seriesId', [seriesIdRule], MembershipController.getSeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/pause:
+ *   post:
+ *     summary: Pause a membership series
+ *     description: >
+ *       Releases the upcoming occurrences under the stadium's cancellation policy. Occurrences inside
+ *       the notice window stay booked and are returned as kept.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesChange'
+ *       400:
+ *         description: Series is not active
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ */
+router.post('/:seriesId/pause', [seriesIdRule], MembershipController.pauseSeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/resume:
+ *   post:
+ *     summary: Resume a paused membership series
+ *     description: Books the upcoming paused occurrences again; those taken or closed in the meantime are returned as conflicts.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesResult'
+ *       400:
+ *         description: Series is not paused
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ */
+router.post('/:seriesId/resume', [seriesIdRule], MembershipController.resumeSeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/occurrences/{occurrenceId}/skip:
+ *   post:
+ *     summary: Skip one upcoming occurrence
+ *     description: Cancels the occurrence's booking under the stadium's cancellation policy.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: occurrenceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Occurrence skipped
+ *       400:
+ *         description: Occurrence is not upcoming and booked, or inside the cancellation notice window
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Series or occurrence not found
+ */
+router.post('/:seriesId/occurrences/:occurrenceId/skip', [
+  seriesIdRule,
+  param('occurrenceId').isMongoId().withMessage('Invalid occurrence ID')
+], MembershipController.skipOccurrence);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/extend:
+ *   post:
+ *     summary: Extend or renew a membership series
+ *     description: Adds occurrences after the last one, up to a new end date or a number of occurrences.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *               additionalOccurrences:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Series extended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesResult'
+ *       400:
+ *         description: Validation error, series not active or the field's booking rules are not met
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ */
+router.post('/:seriesId/extend', [
+  seriesIdRule,
+  body('endDate').optional().isISO8601().withMessage('End date must be a date'),
+  body('additionalOccurrences').optional().isInt({ min: 1, max: 104 }).withMessage('Additional occurrences must be between 1 and 104'),
+  body().custom(value => {
+    if (!value?.endDate && !value?.additionalOccurrences) {
+      throw new Error('An end date or a number of additional occurrences is required');
+    }
+    return true;
+  })
+], MembershipController.extendSeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/time:
+ *   patch:
+ *     summary: Change the time of a membership series going forward
+ *     description: >
+ *       Moves every upcoming occurrence to the new time, or none of them when any would conflict.
+ *       Occurrences inside the cancellation notice window keep their time and are returned as kept.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [startTime, endTime]
+ *             properties:
+ *               startTime:
+ *                 type: string
+ *                 example: '19:00'
+ *               endTime:
+ *                 type: string
+ *                 example: '21:00'
+ *     responses:
+ *       200:
+ *         description: Time changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesChange'
+ *       400:
+ *         description: Validation error, series cancelled or the field's booking rules are not met
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ *       409:
+ *         description: The new time conflicts on some dates; the conflicts are listed and nothing was changed
+ */
+router.patch('/:seriesId/time', [
+  seriesIdRule,
+  body('startTime').matches(TIME_PATTERN).withMessage('Start time must be HH:mm'),
+  body('endTime').matches(TIME_PATTERN).withMessage('End time must be HH:mm')
+], MembershipController.changeSeriesTime);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/cancel:
+ *   post:
+ *     summary: Cancel a membership series
+ *     description: >
+ *       Cancels the upcoming occurrences under the stadium's cancellation policy, with refunds and
+ *       credit notes. Occurrences inside the notice window stay booked and are returned as kept.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/MembershipSeriesChange'
+ *       400:
+ *         description: Series already cancelled
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series not found
+ */
+router.post('/:seriesId/cancel', [seriesIdRule], MembershipController.cancelSeries);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/cycles/{cycleId}/payments:
+ *   post:
+ *     summary: Record a payment for a billing cycle
+ *     description: >
+ *       Stadium owner or superadmin only. The payment is spread over the cycle's bookings, earliest
+ *       first, and the cycle is invoiced first if it was not yet. A suspended series is booked again
+ *       once no cycle is overdue.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: cycleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, paymentMethod]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [credit_card, debit_card, bank_transfer, digital_wallet, cash, qrcode]
+ *               transactionId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     series:
+ *                       $ref: '#/components/schemas/MembershipSeries'
+ *                     cycle:
+ *                       $ref: '#/components/schemas/MembershipBillingCycle'
+ *                     reinstated:
+ *                       type: object
+ *                       description: Occurrences booked again when the payment lifted a suspension
+ *       400:
+ *         description: Validation error, series not billed per cycle, cycle already paid or void, or the payment exceeds the amount due
+ *       403:
+ *         description: Not authorized to record payments for this membership series
+ *       404:
+ *         description: Membership series or billing cycle not found
+ */
+router.post('/:seriesId/cycles/:cycleId/payments', [
+  seriesIdRule,
+  cycleIdRule,
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than 0'),
+  body('paymentMethod').isIn(['credit_card', 'debit_card', 'bank_transfer', 'digital_wallet', 'cash', 'qrcode']),
+  body('transactionId').optional().isString()
+], MembershipController.recordCyclePayment);
+
+/**
+ * @swagger
+ * /api/memberships/{seriesId}/cycles/{cycleId}/invoice:
+ *   get:
+ *     summary: Get the invoice of a billing cycle
+ *     description: One invoice per cycle, with a line for each occurrence. Available to the member, the stadium's owner and superadmins.
+ *     tags: [Memberships]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: seriesId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: cycleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The cycle's invoice
+ *       403:
+ *         description: Not authorized to manage this membership series
+ *       404:
+ *         description: Membership series, billing cycle or invoice not found
+ */
+router.get('/:seriesId/cycles/:cycleId/invoice', [seriesIdRule, cycleIdRule], MembershipController.getCycleInvoice);
+
+export default router;
@@ -0,0 +1,446 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { OpenMatchController } from '../controllers/open-match.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+const EXPERIENCE_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Open Matches
+ *   description: >
+ *     Bookings published as open games, looking for an opponent team or for individual players.
+ *     Approved requests join the booking's bill split and pay their share through their own payment link.
+ *
+ * components:
+ *   schemas:
+ *     OpenMatchRequest:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         players:
+ *           type: integer
+ *         teamName:
+ *           type: string
+ *         experience:
+ *           type: string
+ *           enum: [beginner, intermediate, advanced]
+ *         message:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, approved, rejected, withdrawn]
+ *         participantId:
+ *           type: string
+ *           description: Bill split participant created on approval
+ *         requestedAt:
+ *           type: string
+ *           format: date-time
+ *         respondedAt:
+ *           type: string
+ *           format: date-time
+ *     OpenMatch:
+ *       type: object
+ *       properties:
+ *         bookingId:
+ *           type: string
+ *         bookingDate:
+ *           type: string
+ *           format: date
+ *         startTime:
+ *           type: string
+ *           example: '18:00'
+ *         endTime:
+ *           type: string
+ *           example: '20:00'
+ *         teamName:
+ *           type: string
+ *         numberOfPlayers:
+ *           type: integer
+ *         type:
+ *           type: string
+ *           enum: [opponent, players]
+ *         skillLevel:
+ *           type: string
+ *           enum: [beginner, intermediate, advanced]
+ *           description: Experience of the organizer's team
+ *         description:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [open, full, closed]
+ *         spotsLeft:
+ *           type: integer
+ *         playersNeeded:
+ *           type: integer
+ *         pricePerPlayer:
+ *           type: number
+ *         opponentShare:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         stadium:
+ *           type: object
+ *           description: Only in search results
+ *         field:
+ *           type: object
+ *           description: Only in search results
+ */
+
+/**
+ * @swagger
+ * /api/open-matches:
+ *   get:
+ *     summary: Search open matches near a location
+ *     tags: [Open Matches]
+ *     parameters:
+ *       - in: query
+ *         name: lat
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: lng
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: radius
+ *         schema:
+ *           type: number
+ *           default: 10
+ *         description: Search radius in kilometers (default 10km)
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [opponent, players]
+ *       - in: query
+ *         name: skillLevel
+ *         schema:
+ *           type: string
+ *           enum: [beginner, intermediate, advanced]
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Open matches, soonest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/OpenMatch'
+ *                 pagination:
+ *                   type: object
+ *                 location:
+ *                   type: object
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', [
+  query('lat').exists().withMessage('Latitude is required').isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+  query('lng').exists().withMessage('Longitude is required').isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180'),
+  query('radius').optional().isFloat({ min: 0.1, max: 100 }).withMessage('Radius must be between 0.1 and 100 km'),
+  query('type').optional().isIn(['opponent', 'players']),
+  query('skillLevel').optional().isIn(EXPERIENCE_LEVELS),
+  query('from').optional().isISO8601(),
+  query('to').optional().isISO8601(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 50 })
+], OpenMatchController.search);
+
+/**
+ * @swagger
+ * /api/open-matches/bookings/{bookingId}:
+ *   get:
+ *     summary: Get an open match
+ *     description: The organizer and staff see every request; other users see their own request.
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The open match
+ *       404:
+ *         description: Booking not found or not an open match
+ *   put:
+ *     summary: Publish a booking as an open match
+ *     description: >
+ *       Looks either for an opponent team, who pays half the booking, or for a number of players.
+ *       Players pay the same as each player of the organizer's team unless a price per player is set.
+ *       Publishing again updates the listing.
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [opponent, players]
+ *               playersNeeded:
+ *                 type: integer
+ *                 description: Players type only
+ *               pricePerPlayer:
+ *                 type: number
+ *                 description: Players type only
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Open match published
+ *       400:
+ *         description: Validation error, booking cancelled or started, or prices exceed the booking total
+ *       403:
+ *         description: Only the organizer can manage this open match
+ *       404:
+ *         description: Booking not found
+ *   delete:
+ *     summary: Close an open match
+ *     description: Pending requests are rejected; approved players stay in the game.
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Open match closed
+ *       400:
+ *         description: Booking is not an open match
+ *       403:
+ *         description: Only the organizer can manage this open match
+ *       404:
+ *         description: Booking not found
+ */
+router.get('/bookings/:bookingId', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID')
+], OpenMatchController.getMatch);
+
+router.put('/bookings/:bookingId', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID'),
+  body('type').isIn(['opponent', 'players']).withMessage('Type must be opponent or players'),
+  body('playersNeeded').optional().isInt({ min: 1, max: 30 }),
+  body('pricePerPlayer').optional().isFloat({ min: 0 }),
+  body('description').optional().trim().isLength({ max: 500 })
+], OpenMatchController.publish);
+
+router.delete('/bookings/:bookingId', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID')
+], OpenMatchController.close);
+
+/**
+ * @swagger
+ * /api/open-matches/bookings/{bookingId}/requests:
+ *   post:
+ *     summary: Ask to join an open match
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               players:
+ *                 type: integer
+ *                 default: 1
+ *                 description: Players joining together, for players matches
+ *               teamName:
+ *                 type: string
+ *               experience:
+ *                 type: string
+ *                 enum: [beginner, intermediate, advanced]
+ *               message:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Request sent to the organizer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/OpenMatchRequest'
+ *       400:
+ *         description: Match closed, full or started, or not enough spots left
+ *       404:
+ *         description: Booking not found
+ *       409:
+ *         description: Already asked to join this match
+ */
+router.post('/bookings/:bookingId/requests', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID'),
+  body('players').optional().isInt({ min: 1, max: 30 }),
+  body('teamName').optional().trim().isLength({ max: 100 }),
+  body('experience').optional().isIn(EXPERIENCE_LEVELS),
+  body('message').optional().trim().isLength({ max: 500 })
+], OpenMatchController.requestToJoin);
+
+/**
+ * @swagger
+ * /api/open-matches/bookings/{bookingId}/leave:
+ *   post:
+ *     summary: Withdraw a request or leave an open match
+ *     description: Approved players are removed from the bill split, as long as they have not paid.
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Left the open match
+ *       400:
+ *         description: Already paid the share
+ *       404:
+ *         description: Booking or request not found
+ */
+router.post('/bookings/:bookingId/leave', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID')
+], OpenMatchController.leave);
+
+/**
+ * @swagger
+ * /api/open-matches/bookings/{bookingId}/requests/{requestId}/approve:
+ *   post:
+ *     summary: Approve a request
+ *     description: The requester joins the bill split with their share and is sent their payment link. The match is full once no spot is left.
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request approved
+ *       400:
+ *         description: Request already answered, not enough spots left, or shares exceed the booking total
+ *       403:
+ *         description: Only the organizer can manage this open match
+ *       404:
+ *         description: Booking or request not found
+ */
+router.post('/bookings/:bookingId/requests/:requestId/approve', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID'),
+  param('requestId').isMongoId().withMessage('Invalid request ID')
+], OpenMatchController.approve);
+
+/**
+ * @swagger
+ * /api/open-matches/bookings/{bookingId}/requests/{requestId}/reject:
+ *   post:
+ *     summary: Reject a request
+ *     tags: [Open Matches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ *       400:
+ *         description: Request already answered
+ *       403:
+ *         description: Only the organizer can manage this open match
+ *       404:
+ *         description: Booking or request not found
+ */
+router.post('/bookings/:bookingId/requests/:requestId/reject', [
+  authenticateToken,
+  param('bookingId').isMongoId().withMessage('Invalid booking ID'),
+  param('requestId').isMongoId().withMessage('Invalid request ID')
+], OpenMatchController.reject);
+
+export default router;
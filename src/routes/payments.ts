@@ -0,0 +1,172 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { PaymentController } from '../controllers/payment.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payments
+ *   description: Payment gateway intents and provider webhooks
+ */
+
+/**
+ * @swagger
+ * /api/payments/providers:
+ *   get:
+ *     summary: List available payment providers
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Provider names
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   example: [mock]
+ */
+router.get('/providers', authenticateToken, PaymentController.getProviders);
+
+/**
+ * @swagger
+ * /api/payments/intents:
+ *   post:
+ *     summary: Create a payment intent for a booking
+ *     description: Records a pending payment on the booking. The booking moves to paid or failed when the provider confirms the payment via webhook.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *         description: Repeating a request with the same key returns the original intent
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - bookingId
+ *               - provider
+ *               - paymentMethod
+ *             properties:
+ *               bookingId:
+ *                 type: string
+ *               provider:
+ *                 type: string
+ *                 example: mock
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [credit_card, qrcode, bank_transfer, digital_wallet]
+ *               amount:
+ *                 type: number
+ *                 description: Defaults to the outstanding balance, which it may not exceed
+ *               returnUrl:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Payment intent created
+ *       200:
+ *         description: Existing intent returned for a repeated idempotency key
+ *       400:
+ *         description: Validation error, unknown provider, nothing to pay or an amount above the outstanding balance
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking not found
+ */
+router.post('/intents', [
+  authenticateToken,
+  body('bookingId').isMongoId(),
+  body('provider').trim().notEmpty(),
+  body('paymentMethod').isIn(['credit_card', 'qrcode', 'bank_transfer', 'digital_wallet']),
+  body('amount').optional().isFloat({ gt: 0 }),
+  body('returnUrl').optional().isURL({ require_tld: false })
+], PaymentController.createIntent);
+
+/**
+ * @swagger
+ * /api/payments/bookings/{bookingId}/intents/{intentId}/verify:
+ *   post:
+ *     summary: Re-check a payment intent with its provider
+ *     description: Fallback for missed webhooks. Applies the provider's current status to the booking.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: bookingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: intentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Current payment and booking payment status
+ *       400:
+ *         description: The provider settled a different amount or currency than the intent
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Booking or payment intent not found
+ */
+router.post('/bookings/:bookingId/intents/:intentId/verify', authenticateToken, PaymentController.verifyIntent);
+
+/**
+ * @swagger
+ * /api/payments/webhooks/{provider}:
+ *   post:
+ *     summary: Receive a payment provider webhook
+ *     description: Called by the provider, not by clients. The request signature is verified against the raw body and each event ID is processed only once.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             example:
+ *               id: evt_123
+ *               type: payment.completed
+ *               data:
+ *                 intentId: mock_pi_abc
+ *                 amount: 150000
+ *                 currency: LAK
+ *                 transactionId: tx_789
+ *     responses:
+ *       200:
+ *         description: Event processed, ignored or already processed
+ *       400:
+ *         description: Invalid payload, or a completed payment whose amount or currency differs from the intent
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown provider
+ */
+router.post('/webhooks/:provider', PaymentController.handleWebhook);
+
+export default router;
@@ -0,0 +1,310 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { PayoutController } from '../controllers/payout.controller';
+import { authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+const listRules = [
+  query('status').optional().isIn(['pending', 'transferred']),
+  query('year').optional().isInt({ min: 2000, max: 2100 }),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Payouts
+ *   description: Owner settlements of paid bookings less service fees and refunds
+ *
+ * components:
+ *   schemas:
+ *     PayoutLine:
+ *       type: object
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [booking, refund_adjustment]
+ *           description: Adjustments are refunds paid out after the booking was settled
+ *         bookingId:
+ *           type: string
+ *         bookingNumber:
+ *           type: string
+ *         bookingDate:
+ *           type: string
+ *           format: date-time
+ *         stadiumName:
+ *           type: string
+ *         paidAmount:
+ *           type: number
+ *         refundedAmount:
+ *           type: number
+ *         taxAmount:
+ *           type: number
+ *         serviceFeePercentage:
+ *           type: number
+ *         serviceFee:
+ *           type: number
+ *         promoCredit:
+ *           type: number
+ *           description: Platform-funded promo discounts paid back to the owner
+ *         netAmount:
+ *           type: number
+ *     Payout:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         ownerId:
+ *           type: string
+ *         periodStart:
+ *           type: string
+ *           format: date-time
+ *         periodEnd:
+ *           type: string
+ *           format: date-time
+ *         currency:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, transferred]
+ *         lines:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PayoutLine'
+ *         totals:
+ *           type: object
+ *           properties:
+ *             bookings:
+ *               type: number
+ *             grossAmount:
+ *               type: number
+ *             refundedAmount:
+ *               type: number
+ *             taxAmount:
+ *               type: number
+ *             serviceFee:
+ *               type: number
+ *             promoCredit:
+ *               type: number
+ *             netAmount:
+ *               type: number
+ *         bankAccount:
+ *           type: object
+ *           description: Account the payout was transferred to
+ *         transferredAt:
+ *           type: string
+ *           format: date-time
+ *         transferReference:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /api/payouts/my:
+ *   get:
+ *     summary: Payout statements of the current stadium owner
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, transferred]
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Statements without their lines, and the amount still to be transferred
+ */
+router.get('/my', authorizeRoles(['stadium_owner']), listRules, PayoutController.getMyPayouts);
+
+/**
+ * @swagger
+ * /api/payouts:
+ *   get:
+ *     summary: Payout statements of every owner
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: ownerId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, transferred]
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Statements without their lines, and the amount still to be transferred
+ */
+router.get('/', authorizeRoles(['superadmin']), [
+  query('ownerId').optional().isMongoId(),
+  ...listRules
+], PayoutController.getPayouts);
+
+/**
+ * @swagger
+ * /api/payouts/settle:
+ *   post:
+ *     summary: Settle a month now
+ *     description: Settlement normally runs on the 1st of each month for the previous month. Pending statements are recalculated; transferred ones are left unchanged.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               month:
+ *                 type: string
+ *                 example: "2026-09"
+ *                 description: Defaults to the previous month
+ *               ownerId:
+ *                 type: string
+ *                 description: Settle a single owner
+ *     responses:
+ *       200:
+ *         description: Number of statements created, updated and skipped
+ *       400:
+ *         description: The month has not ended yet
+ */
+router.post('/settle', authorizeRoles(['superadmin']), [
+  body('month').optional().matches(/^\d{4}-(0[1-9]|1[0-2])$/).withMessage('Month must be in YYYY-MM format'),
+  body('ownerId').optional().isMongoId()
+], PayoutController.settlePayouts);
+
+/**
+ * @swagger
+ * /api/payouts/{payoutId}:
+ *   get:
+ *     summary: Get a payout statement with its booking lines
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payout statement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Payout'
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Payout not found
+ */
+router.get('/:payoutId', authorizeRoles(['superadmin', 'stadium_owner']), PayoutController.getPayout);
+
+/**
+ * @swagger
+ * /api/payouts/{payoutId}/statement:
+ *   get:
+ *     summary: Download a payout statement
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [pdf, csv]
+ *           default: pdf
+ *     responses:
+ *       200:
+ *         description: Statement file
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Payout not found
+ */
+router.get('/:payoutId/statement', authorizeRoles(['superadmin', 'stadium_owner']), [
+  query('format').optional().isIn(['pdf', 'csv'])
+], PayoutController.downloadStatement);
+
+/**
+ * @swagger
+ * /api/payouts/{payoutId}/transfer:
+ *   post:
+ *     summary: Mark a payout as transferred
+ *     description: Records the transfer to the owner's bank account from ownerProfile.bankAccountDetails.
+ *     tags: [Payouts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: payoutId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               transferReference:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payout marked as transferred
+ *       400:
+ *         description: Already transferred, nothing to transfer, or the owner has no bank account
+ *       404:
+ *         description: Payout not found
+ */
+router.post('/:payoutId/transfer', authorizeRoles(['superadmin']), [
+  body('transferReference').optional().isString().trim().isLength({ max: 100 }),
+  body('notes').optional().isString().trim().isLength({ max: 500 })
+], PayoutController.markTransferred);
+
+export default router;
@@ -0,0 +1,329 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { PromoCodeController } from '../controllers/promo-code.controller';
+import { authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+// Rules shared by create and update; create makes the core fields required
+const promoCodeRules = (isCreate: boolean) => {
+  const required = (chain: ReturnType<typeof body>) => (isCreate ? chain : chain.optional());
+
+  return [
+    required(body('discountType')).isIn(['percentage', 'fixed']),
+    required(body('discountValue')).isFloat({ gt: 0 }),
+    body('discountValue').if(body('discountType').equals('percentage')).isFloat({ gt: 0, max: 100 }),
+    required(body('validFrom')).isISO8601(),
+    required(body('validUntil')).isISO8601(),
+    body('validUntil').if(body('validFrom').exists()).custom((value, { req }) => {
+      if (new Date(value) <= new Date(req.body.validFrom)) {
+        throw new Error('validUntil must be after validFrom');
+      }
+      return true;
+    }),
+    body('description').optional().isString().trim().isLength({ max: 200 }),
+    body('maxDiscountAmount').optional().isFloat({ gt: 0 }),
+    body('usageLimit').optional().isInt({ min: 1 }),
+    body('perUserLimit').optional().isInt({ min: 1 }),
+    body('minSpend').optional().isFloat({ min: 0 }),
+    body('fieldTypes').optional().isArray(),
+    body('daysOfWeek').optional().isArray(),
+    body('daysOfWeek.*').optional().isInt({ min: 0, max: 6 }),
+    body('fundedBy').optional().isIn(['platform', 'stadium']),
+    body('isActive').optional().isBoolean()
+  ];
+};
+
+/**
+ * @swagger
+ * tags:
+ *   name: Promo Codes
+ *   description: Promotional discount codes for bookings
+ *
+ * components:
+ *   schemas:
+ *     PromoCode:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         code:
+ *           type: string
+ *           example: RAINY20
+ *         description:
+ *           type: string
+ *         discountType:
+ *           type: string
+ *           enum: [percentage, fixed]
+ *         discountValue:
+ *           type: number
+ *         maxDiscountAmount:
+ *           type: number
+ *           description: Cap for percentage codes
+ *         stadiumId:
+ *           type: string
+ *           description: Empty for platform-wide codes
+ *         fundedBy:
+ *           type: string
+ *           enum: [platform, stadium]
+ *           description: Who absorbs the discount in service fee reports
+ *         validFrom:
+ *           type: string
+ *           format: date-time
+ *         validUntil:
+ *           type: string
+ *           format: date-time
+ *         usageLimit:
+ *           type: integer
+ *         perUserLimit:
+ *           type: integer
+ *         usageCount:
+ *           type: integer
+ *         minSpend:
+ *           type: number
+ *         fieldTypes:
+ *           type: array
+ *           items:
+ *             type: string
+ *         daysOfWeek:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/promo-codes/validate:
+ *   post:
+ *     summary: Preview a booking price with a promo code
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code, stadiumId, fieldId, bookingDate, startTime, endTime]
+ *             properties:
+ *               code:
+ *                 type: string
+ *               stadiumId:
+ *                 type: string
+ *               fieldId:
+ *                 type: string
+ *               bookingDate:
+ *                 type: string
+ *                 format: date
+ *               startTime:
+ *                 type: string
+ *                 example: "18:00"
+ *               endTime:
+ *                 type: string
+ *                 example: "20:00"
+ *     responses:
+ *       200:
+ *         description: Discount and the resulting price breakdown
+ *       400:
+ *         description: The code cannot be used for this booking
+ *       404:
+ *         description: Stadium or field not found
+ */
+router.post('/validate', [
+  body('code').trim().notEmpty(),
+  body('stadiumId').isMongoId(),
+  body('fieldId').isMongoId(),
+  body('bookingDate').isISO8601(),
+  body('startTime').matches(TIME_PATTERN),
+  body('endTime').matches(TIME_PATTERN)
+], PromoCodeController.validatePromoCode);
+
+/**
+ * @swagger
+ * /api/promo-codes:
+ *   get:
+ *     summary: List promo codes
+ *     description: Superadmins see every code; stadium owners see the codes of their own stadiums.
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: stadiumId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isActive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Promo codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PromoCode'
+ *                 pagination:
+ *                   type: object
+ *   post:
+ *     summary: Create a promo code
+ *     description: Stadium owners create codes for their own stadiums, which they fund. Superadmins can also create platform-wide codes.
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/PromoCode'
+ *               - type: object
+ *                 required: [code, discountType, discountValue, validFrom, validUntil]
+ *     responses:
+ *       201:
+ *         description: Promo code created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Access denied
+ *       409:
+ *         description: Promo code already exists
+ */
+router.get('/', [
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  query('stadiumId').optional().isMongoId(),
+  query('isActive').optional().isBoolean(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], PromoCodeController.getPromoCodes);
+
+router.post('/', [
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  body('code').trim().matches(/^[A-Za-z0-9_-]{3,30}$/).withMessage('Code must be 3-30 letters, numbers, dashes or underscores'),
+  body('stadiumId').optional().isMongoId(),
+  ...promoCodeRules(true)
+], PromoCodeController.createPromoCode);
+
+/**
+ * @swagger
+ * /api/promo-codes/{promoCodeId}:
+ *   get:
+ *     summary: Get a promo code
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoCodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Promo code not found
+ *   put:
+ *     summary: Update a promo code
+ *     description: The code and stadium cannot be changed. Only superadmins can change who funds the discount.
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoCodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromoCode'
+ *     responses:
+ *       200:
+ *         description: Promo code updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Promo code not found
+ *   delete:
+ *     summary: Delete a promo code
+ *     description: Codes that have been redeemed are deactivated instead so their history is kept.
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoCodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Promo code deleted or deactivated
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Promo code not found
+ */
+router.get('/:promoCodeId', authorizeRoles(['superadmin', 'stadium_owner']), PromoCodeController.getPromoCode);
+
+router.put('/:promoCodeId', [
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  ...promoCodeRules(false)
+], PromoCodeController.updatePromoCode);
+
+router.delete('/:promoCodeId', authorizeRoles(['superadmin', 'stadium_owner']), PromoCodeController.deletePromoCode);
+
+/**
+ * @swagger
+ * /api/promo-codes/{promoCodeId}/redemptions:
+ *   get:
+ *     summary: Redemption history for a promo code
+ *     tags: [Promo Codes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: promoCodeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Redemptions with totals
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Promo code not found
+ */
+router.get('/:promoCodeId/redemptions', authorizeRoles(['superadmin', 'stadium_owner']), PromoCodeController.getRedemptions);
+
+export default router;
@@ -69,8 +69,23 @@ const router = Router();
  *                             type: number
  *                           totalRevenue:
  *                             type: number
+ *                           totalTax:
+ *                             type: number
+ *                             description: Tax collected on the owner's bookings
  *                           serviceFee:
  *                             type: number
+ *                             description: Service fee on revenue excluding tax
+ *                           promoDiscounts:
+ *                             type: object
+ *                             description: Promo code discounts split by who funded them
+ *                             properties:
+ *                               platformFunded:
+ *                                 type: number
+ *                               stadiumFunded:
+ *                                 type: number
+ *                           netServiceFee:
+ *                             type: number
+ *                             description: Service fee less platform-funded promo discounts
  *                           period:
  *                             type: object
  *                             properties:
@@ -87,6 +102,12 @@ const router = Router();
  *                           type: number
  *                         totalServiceFee:
  *                           type: number
+ *                         totalTax:
+ *                           type: number
+ *                         totalPlatformFundedDiscounts:
+ *                           type: number
+ *                         netServiceFee:
+ *                           type: number
  *                         period:
  *                           type: object
  *                           properties:
@@ -190,8 +211,21 @@ router.get('/report', authenticateToken, ServiceFeeController.getServiceFeeRepor
  *                             type: string
  *                           amount:
  *                             type: number
+ *                           tax:
+ *                             type: number
  *                           serviceFee:
  *                             type: number
+ *                             description: Service fee on the amount excluding tax
+ *                           promoDiscount:
+ *                             type: object
+ *                             properties:
+ *                               code:
+ *                                 type: string
+ *                               amount:
+ *                                 type: number
+ *                               fundedBy:
+ *                                 type: string
+ *                                 enum: [platform, stadium]
  *                     summary:
  *                       type: object
  *                       properties:
@@ -199,8 +233,21 @@ router.get('/report', authenticateToken, ServiceFeeController.getServiceFeeRepor
  *                           type: number
  *                         totalRevenue:
  *                           type: number
+ *                         totalTax:
+ *                           type: number
  *                         serviceFee:
  *                           type: number
+ *                         promoDiscounts:
+ *                           type: object
+ *                           description: Promo code discounts split by who funded them
+ *                           properties:
+ *                             platformFunded:
+ *                               type: number
+ *                             stadiumFunded:
+ *                               type: number
+ *                         netServiceFee:
+ *                           type: number
+ *                           description: Service fee less platform-funded promo discounts
  *       400:
  *         description: Invalid owner ID
  *       401:
@@ -1,15 +1,20 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, query, validationResult } from 'express-validator';
 import { StadiumController } from '../controllers/stadium.controller';
+import { PaymentSlipController } from '../controllers/payment-slip.controller';
 import { authenticateToken, authorizeRoles } from '../middleware/auth';
 import { uploadStadiumImages } from '../middleware/upload';
 import Stadium from '../models/Stadium';
 import User from '../models/User';
+import { ReservationService } from '../services/reservation.service';
 import multer from 'multer';
 
 
 const router = Router();
 
+// Slots can run until midnight, which generated slots and opening hours write as 24:00
+const END_TIME_PATTERN = /^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
 /**
  * @swagger
  * /api/stadiums:
@@ -323,6 +328,7 @@ router.post(
           // Add bank account fields
           bankAccountName: req.body.bankAccountName,
           bankAccountNumber: req.body.bankAccountNumber,
+          bankCode: req.body.bankCode,
           bankQRCodeImage: req.body.bankQRCodeImage || (files && files.bankQRCodeImage && files.bankQRCodeImage.length > 0 ? `/uploads/stadiums/${files.bankQRCodeImage[0].filename}` : undefined)
         };
 
@@ -948,6 +954,12 @@ router.put(
       if (req.body.bankAccountNumber !== undefined) {
         stadium.bankAccountNumber = req.body.bankAccountNumber;
       }
+      if (req.body.bankCode !== undefined) {
+        stadium.bankCode = req.body.bankCode;
+      }
+      if (req.body.closedOnPublicHolidays !== undefined) {
+        stadium.closedOnPublicHolidays = String(req.body.closedOnPublicHolidays) === 'true';
+      }
       // Handle bank QR code image upload
       if (files && files.bankQRCodeImage && files.bankQRCodeImage.length > 0) {
         stadium.bankQRCodeImage = `/uploads/stadiums/${files.bankQRCodeImage[0].filename}`;
@@ -961,6 +973,14 @@ router.put(
 
       await stadium.save();
 
+      // Upcoming bookings re-reserve their ground in case field compositions changed
+      if (req.body.fields) {
+        const { conflicts } = await ReservationService.backfill(new Date(), String(stadium._id));
+        if (conflicts.length > 0) {
+          console.warn(`Bookings overlapping after field changes at stadium ${stadium._id}: ${conflicts.join(', ')}`);
+        }
+      }
+
       return res.json({
         success: true,
         message: 'Stadium updated successfully',
@@ -1198,7 +1218,7 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
- *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
  *         description: End time (HH:mm)
  *     responses:
  *       200:
@@ -1269,7 +1289,7 @@ router.get(
   [
     query('date').notEmpty().isISO8601(),
     query('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
-    query('endTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    query('endTime').matches(END_TIME_PATTERN)
   ],
   StadiumController.checkStadiumSlot
 );
@@ -1479,7 +1499,7 @@ router.get(
  *         required: true
  *         schema:
  *           type: string
- *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *           pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
  *         description: End time (HH:mm)
  *     responses:
  *       200:
@@ -1532,11 +1552,84 @@ router.get(
   [
     query('date').notEmpty().isISO8601(),
     query('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
-    query('endTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
+    query('endTime').matches(END_TIME_PATTERN)
   ],
   StadiumController.checkFieldSlot
 );
 
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/fields/{fieldId}/quote:
+ *   get:
+ *     summary: Get a price quote for a field and time range
+ *     description: Applies special dates, per-slot rates, pricing tiers and seasonal rates. Loyalty discounts are applied when the booking is created.
+ *     tags: [Stadiums]
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Stadium ID
+ *       - in: path
+ *         name: fieldId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Field ID
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Booking date (YYYY-MM-DD)
+ *       - in: query
+ *         name: startTime
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$'
+ *         description: Start time (HH:mm)
+ *       - in: query
+ *         name: endTime
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$'
+ *         description: End time (HH:mm)
+ *     responses:
+ *       200:
+ *         description: Price breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/Pricing'
+ *                     - type: object
+ *                       properties:
+ *                         durationHours:
+ *                           type: number
+ *       400:
+ *         description: Invalid parameters
+ *       404:
+ *         description: Stadium or field not found
+ */
+router.get(
+  '/:stadiumId/fields/:fieldId/quote',
+  [
+    query('date').notEmpty().isISO8601(),
+    query('startTime').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/),
+    query('endTime').matches(END_TIME_PATTERN)
+  ],
+  StadiumController.getFieldQuote
+);
+
 /**
  * @swagger
  * /api/stadiums/nearby:
@@ -1627,4 +1720,360 @@ router.get(
   StadiumController.getNearbyStadiums
 );
 
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/payment-slips:
+ *   get:
+ *     summary: Payment slip review queue for a stadium
+ *     tags: [Stadiums]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Slips with their booking and customer, oldest first
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Stadium not found
+ */
+router.get(
+  '/:stadiumId/payment-slips',
+  [
+    authenticateToken,
+    authorizeRoles(['stadium_owner', 'superadmin']),
+    query('status').optional().isIn(['pending', 'approved', 'rejected']),
+    query('page').optional().isInt({ min: 1 }),
+    query('limit').optional().isInt({ min: 1, max: 100 })
+  ],
+  PaymentSlipController.getStadiumSlips
+);
+
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/payment-slips/{paymentId}/approve:
+ *   put:
+ *     summary: Approve a payment slip
+ *     description: Completes the payment, updates the booking payment status and notifies the customer.
+ *     tags: [Stadiums]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Slip approved
+ *       400:
+ *         description: Slip already reviewed
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Stadium or slip not found
+ */
+router.put(
+  '/:stadiumId/payment-slips/:paymentId/approve',
+  [authenticateToken, authorizeRoles(['stadium_owner', 'superadmin'])],
+  PaymentSlipController.approveSlip
+);
+
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/payment-slips/{paymentId}/reject:
+ *   put:
+ *     summary: Reject a payment slip
+ *     tags: [Stadiums]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: paymentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Slip rejected
+ *       400:
+ *         description: Slip already reviewed
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Stadium or slip not found
+ */
+router.put(
+  '/:stadiumId/payment-slips/:paymentId/reject',
+  [
+    authenticateToken,
+    authorizeRoles(['stadium_owner', 'superadmin']),
+    body('reason').optional().trim()
+  ],
+  PaymentSlipController.rejectSlip
+);
+
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/deposit-policy:
+ *   get:
+ *     summary: Get the deposit required to confirm a booking
+ *     tags: [Stadiums]
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deposit policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/DepositPolicy'
+ *       404:
+ *         description: Stadium not found
+ *   put:
+ *     summary: Update the deposit required to confirm a booking
+ *     description: Applies to bookings created afterwards. Pending bookings whose deposit is not received within holdMinutes are cancelled automatically.
+ *     tags: [Stadiums]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DepositPolicy'
+ *     responses:
+ *       200:
+ *         description: Deposit policy updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not authorized to manage this stadium
+ *       404:
+ *         description: Stadium not found
+ *
+ * components:
+ *   schemas:
+ *     DepositPolicy:
+ *       type: object
+ *       required: [enabled]
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *         type:
+ *           type: string
+ *           enum: [percentage, fixed]
+ *         amount:
+ *           type: number
+ *           description: Percentage of the booking total or fixed amount
+ *         balanceDue:
+ *           type: string
+ *           enum: [at_venue, before_kickoff]
+ *         balanceDueHoursBefore:
+ *           type: number
+ *           description: Hours before kickoff the balance is due when paid in advance
+ *         holdMinutes:
+ *           type: integer
+ *           description: Minutes a pending booking is held while waiting for the deposit
+ */
+router.get('/:stadiumId/deposit-policy', StadiumController.getDepositPolicy);
+
+router.put(
+  '/:stadiumId/deposit-policy',
+  [
+    authenticateToken,
+    authorizeRoles(['stadium_owner', 'superadmin']),
+    body('enabled').isBoolean().withMessage('enabled must be a boolean'),
+    body('type').if(body('enabled').equals('true')).isIn(['percentage', 'fixed']).withMessage('Type must be percentage or fixed'),
+    body('amount').if(body('enabled').equals('true')).isFloat({ gt: 0 }).withMessage('Amount must be greater than zero'),
+    body('amount').if(body('type').equals('percentage')).optional().isFloat({ max: 100 }).withMessage('Percentage cannot exceed 100'),
+    body('balanceDue').optional().isIn(['at_venue', 'before_kickoff']).withMessage('Invalid balance due option'),
+    body('balanceDueHoursBefore').optional().isFloat({ min: 0 }).withMessage('Hours before kickoff cannot be negative'),
+    body('holdMinutes').optional().isInt({ min: 5, max: 10080 }).withMessage('Hold must be between 5 minutes and 7 days')
+  ],
+  StadiumController.updateDepositPolicy
+);
+
+/**
+ * @swagger
+ * /api/stadiums/{stadiumId}/membership-plans:
+ *   get:
+ *     summary: Get the stadium's membership plans
+ *     tags: [Stadiums]
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Membership plans
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MembershipPlan'
+ *       404:
+ *         description: Stadium not found
+ *   put:
+ *     summary: Replace the stadium's membership plans
+ *     description: >
+ *       Series created under a plan keep the billing terms they were created with. Send a plan's _id to
+ *       keep it; plans left out can no longer be chosen.
+ *     tags: [Stadiums]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [plans]
+ *             properties:
+ *               plans:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/MembershipPlan'
+ *     responses:
+ *       200:
+ *         description: Membership plans updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Not authorized to manage this stadium
+ *       404:
+ *         description: Stadium not found
+ *
+ * components:
+ *   schemas:
+ *     MembershipPlan:
+ *       type: object
+ *       required: [name, billingCycle]
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: Monthly membership
+ *         billingCycle:
+ *           type: string
+ *           enum: [monthly, term, upfront]
+ *           description: >
+ *             monthly - one invoice per calendar month of occurrences; term - one invoice per
+ *             occurrencesPerTerm occurrences; upfront - one invoice for the whole series
+ *         occurrencesPerTerm:
+ *           type: integer
+ *           description: Occurrences billed together, for term plans
+ *         upfrontDiscountPercent:
+ *           type: number
+ *           description: Discount on every occurrence, for upfront plans
+ *         dueDaysBefore:
+ *           type: integer
+ *           default: 3
+ *           description: Days before the first occurrence of a cycle its payment is due
+ *         reminderDays:
+ *           type: array
+ *           default: [1, 3]
+ *           description: Days after the due date a reminder is sent for an unpaid cycle
+ *           items:
+ *             type: integer
+ *         suspendAfterDays:
+ *           type: integer
+ *           default: 7
+ *           description: Days after the due date the series' upcoming occurrences are released when a cycle is still unpaid
+ *         isActive:
+ *           type: boolean
+ *           default: true
+ */
+router.get('/:stadiumId/membership-plans', StadiumController.getMembershipPlans);
+
+router.put(
+  '/:stadiumId/membership-plans',
+  [
+    authenticateToken,
+    authorizeRoles(['stadium_owner', 'superadmin']),
+    body('plans').isArray().withMessage('Plans must be an array'),
+    body('plans.*._id').optional().isMongoId().withMessage('Invalid plan ID'),
+    body('plans.*.name').trim().notEmpty().withMessage('Plan name is required'),
+    body('plans.*.billingCycle').isIn(['monthly', 'term', 'upfront']).withMessage('Billing cycle must be monthly, term or upfront'),
+    body('plans.*.occurrencesPerTerm').optional().isInt({ min: 1, max: 104 }).withMessage('Occurrences per term must be between 1 and 104'),
+    body('plans.*.upfrontDiscountPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Upfront discount must be between 0 and 100'),
+    body('plans.*.dueDaysBefore').optional().isInt({ min: 0, max: 60 }).withMessage('Due days must be between 0 and 60'),
+    body('plans.*.reminderDays').optional().isArray().withMessage('Reminder days must be an array'),
+    body('plans.*.reminderDays.*').isInt({ min: 0, max: 60 }).withMessage('Reminder days must be between 0 and 60'),
+    body('plans.*.suspendAfterDays').optional().isInt({ min: 1, max: 90 }).withMessage('Suspension must be between 1 and 90 days'),
+    body('plans.*.isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+  ],
+  StadiumController.updateMembershipPlans
+);
+
 export default router;
\ No newline at end of file
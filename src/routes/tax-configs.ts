@@ -0,0 +1,218 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { TaxConfigController } from '../controllers/tax-config.controller';
+import { authorizeRoles } from '../middleware/auth';
+
+const router = Router();
+
+const taxConfigRules = [
+  body('rate').isFloat({ min: 0, max: 100 }).withMessage('Rate must be a percentage between 0 and 100'),
+  body('name').optional().isString().trim().isLength({ min: 1, max: 30 }),
+  body('inclusive').optional().isBoolean(),
+  body('isActive').optional().isBoolean(),
+  body('exemptions').optional().isArray(),
+  body('exemptions.*.taxId').optional().isString().trim().notEmpty(),
+  body('exemptions.*.reason').optional().isString().trim().isLength({ max: 200 }),
+  body('exemptions.*.validUntil').optional().isISO8601()
+];
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tax
+ *   description: VAT and other taxes charged on bookings
+ *
+ * components:
+ *   schemas:
+ *     TaxConfig:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         scope:
+ *           type: string
+ *           enum: [country, stadium]
+ *         country:
+ *           type: string
+ *           example: laos
+ *         stadiumId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: VAT
+ *         rate:
+ *           type: number
+ *           example: 10
+ *         inclusive:
+ *           type: boolean
+ *           description: Whether field prices already include the tax
+ *         exemptions:
+ *           type: array
+ *           description: Owners whose ownerProfile.taxId is listed here are not charged tax
+ *           items:
+ *             type: object
+ *             properties:
+ *               taxId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *               validUntil:
+ *                 type: string
+ *                 format: date-time
+ *         isActive:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/tax-configs:
+ *   get:
+ *     summary: List tax configurations
+ *     description: Superadmins see every configuration; stadium owners see their stadiums' and their countries' configurations.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tax configurations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TaxConfig'
+ */
+router.get('/', authorizeRoles(['superadmin', 'stadium_owner']), TaxConfigController.getTaxConfigs);
+
+/**
+ * @swagger
+ * /api/tax-configs/country/{country}:
+ *   put:
+ *     summary: Create or update the tax configuration for a country
+ *     description: Applies to every stadium in the country without its own configuration. Stadiums without a country are treated as in Laos.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: country
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: laos
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/TaxConfig'
+ *               - type: object
+ *                 required: [rate]
+ *     responses:
+ *       200:
+ *         description: Tax configuration updated
+ *       201:
+ *         description: Tax configuration created
+ *       400:
+ *         description: Validation error
+ */
+router.put('/country/:country', [
+  authorizeRoles(['superadmin']),
+  param('country').trim().notEmpty(),
+  ...taxConfigRules
+], TaxConfigController.upsertCountryTaxConfig);
+
+/**
+ * @swagger
+ * /api/tax-configs/stadium/{stadiumId}:
+ *   get:
+ *     summary: Tax charged on new bookings at a stadium
+ *     description: Resolves the stadium or country configuration and the owner's exemption.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Applicable tax and where it comes from
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Stadium not found
+ *   put:
+ *     summary: Create or update a stadium's tax configuration
+ *     description: Overrides the country configuration. Only superadmins can set exemptions.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: stadiumId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/TaxConfig'
+ *               - type: object
+ *                 required: [rate]
+ *     responses:
+ *       200:
+ *         description: Tax configuration updated
+ *       201:
+ *         description: Tax configuration created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Stadium not found
+ */
+router.get('/stadium/:stadiumId', authorizeRoles(['superadmin', 'stadium_owner']), TaxConfigController.getStadiumTax);
+
+router.put('/stadium/:stadiumId', [
+  authorizeRoles(['superadmin', 'stadium_owner']),
+  ...taxConfigRules
+], TaxConfigController.upsertStadiumTaxConfig);
+
+/**
+ * @swagger
+ * /api/tax-configs/{taxConfigId}:
+ *   delete:
+ *     summary: Delete a tax configuration
+ *     description: Stadium owners can delete their stadiums' configurations; country configurations belong to superadmins.
+ *     tags: [Tax]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: taxConfigId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tax configuration deleted
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Tax configuration not found
+ */
+router.delete('/:taxConfigId', authorizeRoles(['superadmin', 'stadium_owner']), TaxConfigController.deleteTaxConfig);
+
+export default router;
@@ -0,0 +1,903 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import { TournamentController } from '../controllers/tournament.controller';
+import { authenticateToken } from '../middleware/auth';
+
+const router = Router();
+
+const PAYMENT_METHODS = ['credit_card', 'debit_card', 'bank_transfer', 'digital_wallet', 'cash', 'qrcode'];
+
+const tournamentIdRule = param('tournamentId').isMongoId().withMessage('Invalid tournament ID');
+const teamIdRule = param('teamId').isMongoId().withMessage('Invalid team ID');
+const fixtureIdRule = param('fixtureId').isMongoId().withMessage('Invalid match ID');
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tournaments
+ *   description: >
+ *     Leagues and cups at a stadium. Teams register and pay a registration fee, the organizer draws
+ *     the fixtures and has them booked on the stadium's free field slots, then enters results.
+ *     Tournaments, fixtures and standings can be read without signing in.
+ *
+ * components:
+ *   schemas:
+ *     TournamentTeam:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         captainId:
+ *           type: string
+ *           description: Organizer view only
+ *         contactPhone:
+ *           type: string
+ *           description: Organizer view only
+ *         players:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [registered, confirmed, withdrawn]
+ *           description: Teams are confirmed, and drawn into the fixtures, once their registration fee is paid
+ *         group:
+ *           type: string
+ *           example: A
+ *         feeAmount:
+ *           type: number
+ *         paidAmount:
+ *           type: number
+ *         pointsAdjustment:
+ *           type: number
+ *         adjustmentReason:
+ *           type: string
+ *     TournamentFixture:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         matchNumber:
+ *           type: integer
+ *         stage:
+ *           type: string
+ *           enum: [league, group, knockout]
+ *         round:
+ *           type: integer
+ *         group:
+ *           type: string
+ *         homeTeamId:
+ *           type: string
+ *           description: Unset while a knockout match waits for earlier results
+ *         awayTeamId:
+ *           type: string
+ *         homeFrom:
+ *           type: string
+ *           description: Where a knockout team comes from, e.g. W3 for the winner of match 3 or B2 for the runner-up of group B
+ *           example: W3
+ *         awayFrom:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, scheduled, completed, cancelled]
+ *         fieldId:
+ *           type: string
+ *         bookingId:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *         startTime:
+ *           type: string
+ *           example: '18:00'
+ *         endTime:
+ *           type: string
+ *           example: '19:00'
+ *         referee:
+ *           type: object
+ *           properties:
+ *             staffId:
+ *               type: string
+ *             name:
+ *               type: string
+ *         homeScore:
+ *           type: integer
+ *         awayScore:
+ *           type: integer
+ *         homePenalties:
+ *           type: integer
+ *         awayPenalties:
+ *           type: integer
+ *         winnerTeamId:
+ *           type: string
+ *     TournamentStandingRow:
+ *       type: object
+ *       properties:
+ *         position:
+ *           type: integer
+ *         teamId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         played:
+ *           type: integer
+ *         won:
+ *           type: integer
+ *         drawn:
+ *           type: integer
+ *         lost:
+ *           type: integer
+ *         goalsFor:
+ *           type: integer
+ *         goalsAgainst:
+ *           type: integer
+ *         goalDifference:
+ *           type: integer
+ *         pointsAdjustment:
+ *           type: number
+ *         points:
+ *           type: number
+ *     Tournament:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         description:
+ *           type: string
+ *         stadiumId:
+ *           type: string
+ *         organizerId:
+ *           type: string
+ *         format:
+ *           type: string
+ *           enum: [league, knockout, groups_knockout]
+ *         fieldType:
+ *           type: string
+ *           enum: ['11v11', '7v7', '5v5', futsal, training]
+ *         fieldIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *         startDate:
+ *           type: string
+ *           format: date
+ *         endDate:
+ *           type: string
+ *           format: date
+ *         registrationDeadline:
+ *           type: string
+ *           format: date-time
+ *         maxTeams:
+ *           type: integer
+ *         registrationFee:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         matchDurationMinutes:
+ *           type: integer
+ *         legs:
+ *           type: integer
+ *           enum: [1, 2]
+ *         groupCount:
+ *           type: integer
+ *         advancePerGroup:
+ *           type: integer
+ *         points:
+ *           type: object
+ *           properties:
+ *             win:
+ *               type: number
+ *             draw:
+ *               type: number
+ *             loss:
+ *               type: number
+ *         status:
+ *           type: string
+ *           enum: [registration, in_progress, completed, cancelled]
+ *         teams:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TournamentTeam'
+ *         fixtures:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/TournamentFixture'
+ */
+
+/**
+ * @swagger
+ * /api/tournaments:
+ *   get:
+ *     summary: List tournaments
+ *     description: Cancelled tournaments are left out unless asked for by status.
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: query
+ *         name: stadiumId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [registration, in_progress, completed, cancelled]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Tournaments without their teams and fixtures, soonest first
+ *   post:
+ *     summary: Create a tournament
+ *     description: Open for registration straight away. Fixtures are played on the chosen fields, or on any active field of the field type.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, stadiumId, format, startDate]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               stadiumId:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [league, knockout, groups_knockout]
+ *               fieldType:
+ *                 type: string
+ *                 enum: ['11v11', '7v7', '5v5', futsal, training]
+ *               fieldIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *                 description: Last day fixtures can be scheduled on; 90 days after the start without one
+ *               registrationDeadline:
+ *                 type: string
+ *                 format: date-time
+ *               maxTeams:
+ *                 type: integer
+ *                 default: 16
+ *               registrationFee:
+ *                 type: number
+ *                 default: 0
+ *               matchDurationMinutes:
+ *                 type: integer
+ *                 default: 60
+ *               legs:
+ *                 type: integer
+ *                 enum: [1, 2]
+ *                 default: 1
+ *                 description: Round-robin pairs play once, or home and away
+ *               groupCount:
+ *                 type: integer
+ *                 default: 2
+ *               advancePerGroup:
+ *                 type: integer
+ *                 default: 2
+ *               points:
+ *                 type: object
+ *                 properties:
+ *                   win:
+ *                     type: number
+ *                     default: 3
+ *                   draw:
+ *                     type: number
+ *                     default: 1
+ *                   loss:
+ *                     type: number
+ *                     default: 0
+ *     responses:
+ *       201:
+ *         description: Tournament created
+ *       400:
+ *         description: Validation error, start date in the past, or no field to play on
+ *       404:
+ *         description: Stadium or field not found
+ */
+router.get('/', [
+  query('stadiumId').optional().isMongoId(),
+  query('status').optional().isIn(['registration', 'in_progress', 'completed', 'cancelled']),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 50 })
+], TournamentController.list);
+
+router.post('/', [
+  authenticateToken,
+  body('name').trim().notEmpty().isLength({ max: 100 }).withMessage('Tournament name is required'),
+  body('description').optional().trim().isLength({ max: 1000 }),
+  body('stadiumId').isMongoId().withMessage('Stadium ID is required'),
+  body('format').isIn(['league', 'knockout', 'groups_knockout']).withMessage('Format must be league, knockout or groups_knockout'),
+  body('fieldType').optional().isIn(['11v11', '7v7', '5v5', 'futsal', 'training']),
+  body('fieldIds').optional().isArray(),
+  body('fieldIds.*').isMongoId(),
+  body('startDate').isISO8601().withMessage('Start date must be a date'),
+  body('endDate').optional().isISO8601(),
+  body('registrationDeadline').optional().isISO8601(),
+  body('maxTeams').optional().isInt({ min: 2, max: 64 }),
+  body('registrationFee').optional().isFloat({ min: 0 }),
+  body('matchDurationMinutes').optional().isInt({ min: 15, max: 240 }),
+  body('legs').optional().isIn([1, 2]),
+  body('groupCount').optional().isInt({ min: 2, max: 16 }),
+  body('advancePerGroup').optional().isInt({ min: 1, max: 8 }),
+  body('points.win').optional().isFloat(),
+  body('points.draw').optional().isFloat(),
+  body('points.loss').optional().isFloat()
+], TournamentController.create);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}:
+ *   get:
+ *     summary: Get a tournament
+ *     description: Teams are listed without their captain's contact or payments.
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The tournament with its teams and fixtures
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Tournament'
+ *       404:
+ *         description: Tournament not found
+ *   delete:
+ *     summary: Cancel a tournament
+ *     description: Bookings of unplayed matches are cancelled under the stadium's cancellation policy; those it no longer allows to cancel are kept.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tournament cancelled, with the bookings kept
+ *       400:
+ *         description: Tournament already completed or cancelled
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/:tournamentId', TournamentController.getTournament);
+
+router.delete('/:tournamentId', [
+  authenticateToken,
+  tournamentIdRule
+], TournamentController.cancel);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/fixtures:
+ *   get:
+ *     summary: Fixtures and results of a tournament
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fixtures in match order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TournamentFixture'
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/:tournamentId/fixtures', TournamentController.getFixtures);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/standings:
+ *   get:
+ *     summary: Standings of a tournament
+ *     description: >
+ *       The league table, or the group tables and knockout bracket. Teams are ranked by points, then goal
+ *       difference, then goals scored; points adjustments by the organizer are included.
+ *     tags: [Tournaments]
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Standings as far as they are played
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     format:
+ *                       type: string
+ *                     table:
+ *                       type: array
+ *                       description: League format
+ *                       items:
+ *                         $ref: '#/components/schemas/TournamentStandingRow'
+ *                     groups:
+ *                       type: object
+ *                       description: Group tables by group letter
+ *                       additionalProperties:
+ *                         type: array
+ *                         items:
+ *                           $ref: '#/components/schemas/TournamentStandingRow'
+ *                     knockout:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TournamentFixture'
+ *       404:
+ *         description: Tournament not found
+ */
+router.get('/:tournamentId/standings', TournamentController.getStandings);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/teams:
+ *   get:
+ *     summary: Registered teams with contacts and fee payments
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Teams in registration order
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament not found
+ *   post:
+ *     summary: Register a team
+ *     description: The team is confirmed straight away without a registration fee, otherwise once the organizer records its payment.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               contactPhone:
+ *                 type: string
+ *                 example: "02012345678"
+ *               players:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Team registered
+ *       400:
+ *         description: Validation error, or registration closed
+ *       404:
+ *         description: Tournament not found
+ *       409:
+ *         description: Tournament full, team name taken, or the user already registered a team
+ */
+router.get('/:tournamentId/teams', [
+  authenticateToken,
+  tournamentIdRule
+], TournamentController.getTeams);
+
+router.post('/:tournamentId/teams', [
+  authenticateToken,
+  tournamentIdRule,
+  body('name').trim().notEmpty().isLength({ max: 100 }).withMessage('Team name is required'),
+  body('contactPhone').optional().trim().notEmpty(),
+  body('players').optional().isInt({ min: 1, max: 50 })
+], TournamentController.registerTeam);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/teams/{teamId}:
+ *   delete:
+ *     summary: Withdraw a team
+ *     description: By its captain or the organizer, before the fixtures are drawn. Fees already paid are settled by the organizer.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Team withdrawn
+ *       400:
+ *         description: Team already withdrawn, or fixtures drawn
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament or team not found
+ */
+router.delete('/:tournamentId/teams/:teamId', [
+  authenticateToken,
+  tournamentIdRule,
+  teamIdRule
+], TournamentController.withdrawTeam);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/teams/{teamId}/payments:
+ *   post:
+ *     summary: Record a registration fee payment
+ *     description: The team is confirmed once its fee is paid in full.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount, paymentMethod]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               paymentMethod:
+ *                 type: string
+ *                 enum: [credit_card, debit_card, bank_transfer, digital_wallet, cash, qrcode]
+ *               transactionId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payment recorded
+ *       400:
+ *         description: Validation error, team withdrawn, or payment exceeds the fee due
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament or team not found
+ */
+router.post('/:tournamentId/teams/:teamId/payments', [
+  authenticateToken,
+  tournamentIdRule,
+  teamIdRule,
+  body('amount').isFloat({ gt: 0 }).withMessage('Amount must be greater than 0'),
+  body('paymentMethod').isIn(PAYMENT_METHODS),
+  body('transactionId').optional().trim()
+], TournamentController.recordFeePayment);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/teams/{teamId}/points:
+ *   put:
+ *     summary: Adjust a team's standings points
+ *     description: Added to or deducted from the points the team earned, e.g. for a forfeit.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: teamId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [points]
+ *             properties:
+ *               points:
+ *                 type: number
+ *                 example: -3
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Points adjusted
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament or team not found
+ */
+router.put('/:tournamentId/teams/:teamId/points', [
+  authenticateToken,
+  tournamentIdRule,
+  teamIdRule,
+  body('points').isFloat().withMessage('Points must be a number'),
+  body('reason').optional().trim().isLength({ max: 200 })
+], TournamentController.adjustPoints);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/fixtures/generate:
+ *   post:
+ *     summary: Draw the fixtures
+ *     description: >
+ *       Closes registration and draws the confirmed teams, seeded in registration order: a round-robin
+ *       for leagues, a bracket with byes for the top seeds for knockouts, or snake-drawn groups followed
+ *       by a bracket keeping teams of a group apart.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fixtures drawn
+ *       400:
+ *         description: Fixtures already drawn, or not enough confirmed teams
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament not found
+ */
+router.post('/:tournamentId/fixtures/generate', [
+  authenticateToken,
+  tournamentIdRule
+], TournamentController.generateFixtures);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/fixtures/schedule:
+ *   post:
+ *     summary: Schedule fixtures on free field slots
+ *     description: >
+ *       Books the stadium's free slots for the fixtures without one, as tournament bookings of the organizer
+ *       priced like any booking. Rounds are played in order, a team plays at most once a day and knockout
+ *       rounds follow on later days. Fixtures whose booking was cancelled are scheduled again.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fixtures scheduled, and those no slot was found for with the reason
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     scheduled:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TournamentFixture'
+ *                     unscheduled:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           matchNumber:
+ *                             type: integer
+ *                           reason:
+ *                             type: string
+ *       400:
+ *         description: Fixtures not drawn yet, or tournament completed or cancelled
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament not found
+ */
+router.post('/:tournamentId/fixtures/schedule', [
+  authenticateToken,
+  tournamentIdRule
+], TournamentController.scheduleFixtures);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/fixtures/{fixtureId}/result:
+ *   put:
+ *     summary: Enter or correct the result of a match
+ *     description: >
+ *       Level knockout matches need the penalty shoot-out. Winners and final group places fill the
+ *       knockout matches waiting for them; results later matches depend on can no longer be changed.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [homeScore, awayScore]
+ *             properties:
+ *               homeScore:
+ *                 type: integer
+ *               awayScore:
+ *                 type: integer
+ *               homePenalties:
+ *                 type: integer
+ *               awayPenalties:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Result recorded
+ *       400:
+ *         description: Match not started, teams not decided, knockout match without a winner, or later matches depend on it
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament or match not found
+ */
+router.put('/:tournamentId/fixtures/:fixtureId/result', [
+  authenticateToken,
+  tournamentIdRule,
+  fixtureIdRule,
+  body('homeScore').isInt({ min: 0 }).withMessage('Home score must be 0 or more'),
+  body('awayScore').isInt({ min: 0 }).withMessage('Away score must be 0 or more'),
+  body('homePenalties').optional().isInt({ min: 0 }),
+  body('awayPenalties').optional().isInt({ min: 0 })
+], TournamentController.recordResult);
+
+/**
+ * @swagger
+ * /api/tournaments/{tournamentId}/fixtures/{fixtureId}/referee:
+ *   put:
+ *     summary: Assign a referee to a match
+ *     description: One of the stadium's active referees, available at the time and not assigned to another booking then. Replaces any referee assigned before.
+ *     tags: [Tournaments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tournamentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: fixtureId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [staffId]
+ *             properties:
+ *               staffId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Referee assigned
+ *       400:
+ *         description: Match not scheduled, or referee not available at the time
+ *       403:
+ *         description: Not authorized to manage this tournament
+ *       404:
+ *         description: Tournament, match or referee not found
+ *       409:
+ *         description: Referee already assigned at that time
+ */
+router.put('/:tournamentId/fixtures/:fixtureId/referee', [
+  authenticateToken,
+  tournamentIdRule,
+  fixtureIdRule,
+  body('staffId').isMongoId().withMessage('Staff ID is required')
+], TournamentController.assignReferee);
+
+export default router;
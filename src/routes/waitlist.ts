@@ -0,0 +1,299 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { WaitlistController } from '../controllers/waitlist.controller';
+
+const router = Router();
+
+const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+// Slots can run until midnight, which generated slots and opening hours write as 24:00
+const END_TIME_PATTERN = /^(([0-1]?[0-9]|2[0-3]):[0-5][0-9]|24:00)$/;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Waitlist
+ *   description: >
+ *     Waiting for taken slots. When a booking is cancelled, deleted or rescheduled, the freed slot is
+ *     held for the first users waiting for it and offered to them by push notification and email.
+ *
+ * components:
+ *   schemas:
+ *     WaitlistOffer:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         fieldId:
+ *           type: string
+ *         holdId:
+ *           type: string
+ *         token:
+ *           type: string
+ *           description: Identifies the offer in the claim link
+ *         offeredAt:
+ *           type: string
+ *           format: date-time
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: The slot is held until then (30 minutes by default), then offered to the next in line
+ *         status:
+ *           type: string
+ *           enum: [pending, claimed, declined, expired]
+ *     WaitlistEntry:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         userId:
+ *           type: string
+ *         stadiumId:
+ *           type: string
+ *         fieldId:
+ *           type: string
+ *         fieldType:
+ *           type: string
+ *           enum: ['11v11', '7v7', '5v5', futsal, training]
+ *           description: Set instead of fieldId when any field of the type will do
+ *         bookingDate:
+ *           type: string
+ *           format: date
+ *         startTime:
+ *           type: string
+ *           example: '18:00'
+ *         endTime:
+ *           type: string
+ *           example: '20:00'
+ *         status:
+ *           type: string
+ *           enum: [waiting, offered, booked, declined, expired, cancelled]
+ *         position:
+ *           type: integer
+ *           description: Place in line among users waiting for an overlapping slot; 0 once no longer waiting
+ *         offers:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/WaitlistOffer'
+ *         bookingId:
+ *           type: string
+ *           description: Booking created when an offer was claimed
+ */
+
+/**
+ * @swagger
+ * /api/waitlist:
+ *   post:
+ *     summary: Join the waitlist for a taken slot
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [stadiumId, bookingDate, startTime, endTime]
+ *             properties:
+ *               stadiumId:
+ *                 type: string
+ *               fieldId:
+ *                 type: string
+ *               fieldType:
+ *                 type: string
+ *                 enum: ['11v11', '7v7', '5v5', futsal, training]
+ *                 description: Required without fieldId; any field of the type will do
+ *               bookingDate:
+ *                 type: string
+ *                 format: date
+ *               startTime:
+ *                 type: string
+ *                 example: '18:00'
+ *               endTime:
+ *                 type: string
+ *                 example: '20:00'
+ *     responses:
+ *       201:
+ *         description: Added to the waitlist
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entry:
+ *                       $ref: '#/components/schemas/WaitlistEntry'
+ *                     position:
+ *                       type: integer
+ *       400:
+ *         description: Validation error or the slot has already started
+ *       404:
+ *         description: Stadium or field not found
+ *       409:
+ *         description: Already on the waitlist for the slot, or the slot is free and can be booked directly
+ *   get:
+ *     summary: Current user's waitlist entries for upcoming dates
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Entries, soonest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WaitlistEntry'
+ */
+router.post('/', [
+  body('stadiumId').isMongoId().withMessage('Stadium ID is required'),
+  body('fieldId').optional().isMongoId().withMessage('Invalid field ID'),
+  body('fieldType')
+    .if(body('fieldId').not().exists())
+    .isIn(['11v11', '7v7', '5v5', 'futsal', 'training'])
+    .withMessage('Field ID or field type is required'),
+  body('bookingDate').isISO8601().withMessage('Booking date must be a date'),
+  body('startTime').matches(TIME_PATTERN).withMessage('Start time must be HH:mm'),
+  body('endTime').matches(END_TIME_PATTERN).withMessage('End time must be HH:mm')
+], WaitlistController.join);
+
+router.get('/', WaitlistController.getMyEntries);
+
+/**
+ * @swagger
+ * /api/waitlist/{entryId}:
+ *   delete:
+ *     summary: Leave the waitlist
+ *     description: A slot currently offered to the user is passed on to the next in line.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: entryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Removed from the waitlist
+ *       400:
+ *         description: Entry already booked, declined, expired or cancelled
+ *       403:
+ *         description: Not authorized to manage this waitlist entry
+ *       404:
+ *         description: Waitlist entry not found
+ */
+router.delete('/:entryId', [
+  param('entryId').isMongoId().withMessage('Invalid waitlist entry ID')
+], WaitlistController.leave);
+
+/**
+ * @swagger
+ * /api/waitlist/offers/{token}:
+ *   get:
+ *     summary: Get the offer behind a claim link
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The offer and its waitlist entry
+ *       403:
+ *         description: The offer was made to another user
+ *       404:
+ *         description: Waitlist offer not found
+ */
+router.get('/offers/:token', WaitlistController.getOffer);
+
+/**
+ * @swagger
+ * /api/waitlist/offers/{token}/claim:
+ *   post:
+ *     summary: Claim an offer
+ *     description: Books the held slot for the user, priced as a regular booking.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: Booking created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entry:
+ *                       $ref: '#/components/schemas/WaitlistEntry'
+ *                     booking:
+ *                       $ref: '#/components/schemas/Booking'
+ *       400:
+ *         description: Offer already claimed, declined or expired
+ *       403:
+ *         description: The offer was made to another user
+ *       404:
+ *         description: Waitlist offer not found
+ *       409:
+ *         description: Time slot is no longer available
+ */
+router.post('/offers/:token/claim', WaitlistController.claimOffer);
+
+/**
+ * @swagger
+ * /api/waitlist/offers/{token}/decline:
+ *   post:
+ *     summary: Decline an offer
+ *     description: The slot is offered to the next in line straight away.
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Offer declined
+ *       400:
+ *         description: Offer already claimed, declined or expired
+ *       403:
+ *         description: The offer was made to another user
+ *       404:
+ *         description: Waitlist offer not found
+ */
+router.post('/offers/:token/decline', WaitlistController.declineOffer);
+
+export default router;
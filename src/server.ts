@@ -33,6 +33,17 @@ import serviceFeeRoutes from './routes/serviceFee'; // ✅ Import service fee ro
 import invoiceRoutes from './routes/invoices'; // ✅ Import invoice routes
 import emailTestRoutes from './routes/email-test';
 import favoriteRoutes from './routes/favorite'
+import paymentRoutes from './routes/payments';
+import promoCodeRoutes from './routes/promo-codes';
+import taxConfigRoutes from './routes/tax-configs';
+import payoutRoutes from './routes/payouts';
+import accountingRoutes from './routes/accounting';
+import billSplitRoutes from './routes/bill-splits';
+import holidayRoutes from './routes/holidays';
+import membershipRoutes from './routes/memberships';
+import waitlistRoutes from './routes/waitlist';
+import openMatchRoutes from './routes/open-matches';
+import tournamentRoutes from './routes/tournaments';
 
 // Import middleware
 import { authenticateToken, authorizeRoles } from './middleware/auth';
@@ -74,6 +85,7 @@ const createApp = (): Express => {
     origin: '*',
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    exposedHeaders: ['X-Export-Cursor', 'X-Schema-Version'],
     credentials: true
   }));
 
@@ -97,7 +109,13 @@ const createApp = (): Express => {
   app.use('/api', limiter);
 
   // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({
+    limit: '10mb',
+    // Keep the raw bytes for payment webhook signature checks
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    }
+  }));
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
   // Data sanitization
@@ -130,6 +148,17 @@ const createApp = (): Express => {
   app.use('/api/faq', faqRoutes);
   app.use('/api/email', emailTestRoutes);
   app.use('/api/favorite/stadium', authenticateToken, favoriteRoutes);
+  app.use('/api/payments', paymentRoutes);
+  app.use('/api/promo-codes', authenticateToken, promoCodeRoutes);
+  app.use('/api/tax-configs', authenticateToken, taxConfigRoutes);
+  app.use('/api/payouts', authenticateToken, payoutRoutes);
+  app.use('/api/accounting', authenticateToken, authorizeRoles(['superadmin', 'stadium_owner']), accountingRoutes);
+  app.use('/api/bill-splits', billSplitRoutes);
+  app.use('/api/holidays', holidayRoutes);
+  app.use('/api/memberships', authenticateToken, membershipRoutes);
+  app.use('/api/waitlist', authenticateToken, waitlistRoutes);
+  app.use('/api/open-matches', openMatchRoutes);
+  app.use('/api/tournaments', tournamentRoutes);
   // app.use('/api/notifications', authenticateToken, notificationRoutes);
   // ✅ Serve static files from uploads directory
 
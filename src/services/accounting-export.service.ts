@@ -0,0 +1,352 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import AccountingExport, { IAccountingExport } from '../models/AccountingExport';
+import { IPayment } from '../types/booking.types';
+import { SpreadsheetCell, XlsxWriter } from '../utils/xlsx';
+
+// Bump when a column is renamed or removed; new columns are only ever appended
+export const ACCOUNTING_SCHEMA_VERSION = 1;
+
+// Mirrors the default in ServiceFeeController
+const DEFAULT_SERVICE_FEE_PERCENTAGE = 10;
+const ACCOUNTING_TIMEZONE = 'Asia/Vientiane';
+
+// Payments are stamped before the booking is saved, so incremental exports stop a little
+// short of now to avoid skipping entries that are still being written
+const INCREMENTAL_SETTLE_MS = 60 * 1000;
+
+export type AccountingReport = 'journal' | 'ledger';
+export type AccountingFormat = 'json' | 'csv' | 'xlsx';
+
+export interface AccountingWindow {
+  from?: Date;
+  until: Date;
+  fromExclusive?: boolean; // Incremental exports start right after the previous cursor
+}
+
+export interface AccountingStadium {
+  _id: unknown;
+  name?: string;
+  serviceFeePercentage?: number;
+}
+
+export interface ExportColumn<T> {
+  key: keyof T & string;
+  header: string;
+  type: 'string' | 'number' | 'date' | 'datetime';
+}
+
+export interface LedgerRow {
+  entryId: string;
+  entryDate: Date;
+  entryType: 'payment' | 'refund';
+  bookingId: string;
+  bookingNumber?: string;
+  bookingDate: Date;
+  stadiumId: string;
+  stadiumName?: string;
+  paymentMethod: IPayment['paymentMethod'];
+  transactionReference?: string;
+  currency: string;
+  grossAmount: number;
+  taxName?: string;
+  taxRate?: number;
+  taxAmount: number;
+  revenueAmount: number;
+  serviceFeePercentage: number;
+  serviceFee: number;
+  promoCredit: number;
+  ownerNet: number;
+  bookingStatus: IBooking['status'];
+  cancelledAt?: Date;
+  cancellationFee?: number;
+  reason?: string;
+}
+
+export interface JournalLine {
+  journalId: string;
+  lineNumber: number;
+  entryDate: Date;
+  entryType: LedgerRow['entryType'];
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  currency: string;
+  bookingNumber?: string;
+  stadiumId: string;
+  stadiumName?: string;
+  description: string;
+}
+
+export const ACCOUNTS = {
+  cash: { code: '1000', name: 'Cash and Bank' },
+  promoReceivable: { code: '1200', name: 'Promo Credit Receivable' },
+  taxPayable: { code: '2100', name: 'Tax Payable' },
+  platformFeesPayable: { code: '2200', name: 'Platform Fees Payable' },
+  revenue: { code: '4000', name: 'Booking Revenue' },
+  refunds: { code: '4100', name: 'Refunds' },
+  serviceFeeExpense: { code: '6100', name: 'Service Fee Expense' }
+};
+
+export const LEDGER_COLUMNS: ExportColumn<LedgerRow>[] = [
+  { key: 'entryId', header: 'Entry ID', type: 'string' },
+  { key: 'entryDate', header: 'Entry Date', type: 'datetime' },
+  { key: 'entryType', header: 'Entry Type', type: 'string' },
+  { key: 'bookingId', header: 'Booking ID', type: 'string' },
+  { key: 'bookingNumber', header: 'Booking Number', type: 'string' },
+  { key: 'bookingDate', header: 'Booking Date', type: 'date' },
+  { key: 'stadiumId', header: 'Stadium ID', type: 'string' },
+  { key: 'stadiumName', header: 'Stadium', type: 'string' },
+  { key: 'paymentMethod', header: 'Payment Method', type: 'string' },
+  { key: 'transactionReference', header: 'Transaction Reference', type: 'string' },
+  { key: 'currency', header: 'Currency', type: 'string' },
+  { key: 'grossAmount', header: 'Gross Amount', type: 'number' },
+  { key: 'taxName', header: 'Tax Name', type: 'string' },
+  { key: 'taxRate', header: 'Tax Rate', type: 'number' },
+  { key: 'taxAmount', header: 'Tax Amount', type: 'number' },
+  { key: 'revenueAmount', header: 'Revenue Amount', type: 'number' },
+  { key: 'serviceFeePercentage', header: 'Service Fee %', type: 'number' },
+  { key: 'serviceFee', header: 'Service Fee', type: 'number' },
+  { key: 'promoCredit', header: 'Promo Credit', type: 'number' },
+  { key: 'ownerNet', header: 'Owner Net', type: 'number' },
+  { key: 'bookingStatus', header: 'Booking Status', type: 'string' },
+  { key: 'cancelledAt', header: 'Cancelled At', type: 'datetime' },
+  { key: 'cancellationFee', header: 'Cancellation Fee', type: 'number' },
+  { key: 'reason', header: 'Reason', type: 'string' }
+];
+
+export const JOURNAL_COLUMNS: ExportColumn<JournalLine>[] = [
+  { key: 'journalId', header: 'Journal ID', type: 'string' },
+  { key: 'lineNumber', header: 'Line', type: 'number' },
+  { key: 'entryDate', header: 'Entry Date', type: 'datetime' },
+  { key: 'entryType', header: 'Entry Type', type: 'string' },
+  { key: 'accountCode', header: 'Account Code', type: 'string' },
+  { key: 'accountName', header: 'Account Name', type: 'string' },
+  { key: 'debit', header: 'Debit', type: 'number' },
+  { key: 'credit', header: 'Credit', type: 'number' },
+  { key: 'currency', header: 'Currency', type: 'string' },
+  { key: 'bookingNumber', header: 'Booking Number', type: 'string' },
+  { key: 'stadiumId', header: 'Stadium ID', type: 'string' },
+  { key: 'stadiumName', header: 'Stadium', type: 'string' },
+  { key: 'description', header: 'Description', type: 'string' }
+];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class AccountingExportService {
+  /**
+   * When a payment or refund hit the books
+   */
+  static getEntryDate(payment: IPayment): Date {
+    return new Date(payment.processedAt || payment.createdAt);
+  }
+
+  /**
+   * One row per settled payment and paid-out refund within the window. Refunds carry
+   * negative amounts so the rows of a booking add up to what the owner kept.
+   */
+  static buildLedgerRows(booking: IBooking, stadium: AccountingStadium, window: AccountingWindow): LedgerRow[] {
+    const serviceFeePercentage = stadium.serviceFeePercentage || DEFAULT_SERVICE_FEE_PERCENTAGE;
+    const totalAmount = booking.pricing.totalAmount || 0;
+    const platformFunded = (booking.pricing.discounts || [])
+      .filter(discount => discount.code && discount.fundedBy === 'platform')
+      .reduce((sum, discount) => sum + discount.amount, 0);
+
+    return (booking.payments || [])
+      .filter(payment => (payment.refundId && payment.amount < 0) || (payment.status === 'completed' && payment.amount > 0))
+      .filter(payment => this.isInWindow(this.getEntryDate(payment), window))
+      .map(payment => {
+        const isRefund = payment.amount < 0;
+        const share = totalAmount > 0 ? payment.amount / totalAmount : 0;
+
+        // Tax carries no service fee, matching the service fee report and payouts
+        const taxAmount = round((booking.pricing.taxes || 0) * share);
+        const revenueAmount = round(payment.amount - taxAmount);
+        const serviceFee = round((revenueAmount * serviceFeePercentage) / 100);
+        const promoCredit = round(platformFunded * share);
+        const refund = isRefund
+          ? (booking.refunds || []).find(r => r._id && String(r._id) === String(payment.refundId))
+          : undefined;
+
+        return {
+          entryId: String(payment._id),
+          entryDate: this.getEntryDate(payment),
+          entryType: isRefund ? 'refund' : 'payment',
+          bookingId: String(booking._id),
+          bookingNumber: booking.bookingNumber,
+          bookingDate: booking.bookingDate,
+          stadiumId: String(booking.stadiumId),
+          stadiumName: stadium.name,
+          paymentMethod: payment.paymentMethod,
+          transactionReference: payment.transactionId,
+          currency: payment.currency || booking.pricing.currency,
+          grossAmount: round(payment.amount),
+          taxName: booking.pricing.taxDetails?.name,
+          taxRate: booking.pricing.taxDetails?.rate,
+          taxAmount,
+          revenueAmount,
+          serviceFeePercentage,
+          serviceFee,
+          promoCredit,
+          ownerNet: round(payment.amount - serviceFee + promoCredit),
+          bookingStatus: booking.status,
+          cancelledAt: booking.cancellation?.cancelledAt,
+          cancellationFee: booking.cancellation?.cancellationFee,
+          reason: isRefund ? refund?.reason || booking.cancellation?.reason : undefined
+        } as LedgerRow;
+      });
+  }
+
+  /**
+   * Balanced double-entry lines for ledger rows. Debits are positive postings and
+   * credits negative; zero postings are left out.
+   */
+  static buildJournalLines(rows: LedgerRow[]): JournalLine[] {
+    const lines: JournalLine[] = [];
+
+    for (const row of rows) {
+      const isRefund = row.entryType === 'refund';
+      const description = isRefund
+        ? `Refund for booking ${row.bookingNumber || row.bookingId}${row.reason ? ` (${row.reason})` : ''}`
+        : `Payment for booking ${row.bookingNumber || row.bookingId}`;
+      let lineNumber = 0;
+
+      const post = (account: { code: string; name: string }, amount: number) => {
+        const rounded = round(amount);
+        if (rounded === 0) return;
+        lines.push({
+          journalId: row.entryId,
+          lineNumber: ++lineNumber,
+          entryDate: row.entryDate,
+          entryType: row.entryType,
+          accountCode: account.code,
+          accountName: account.name,
+          debit: rounded > 0 ? rounded : 0,
+          credit: rounded < 0 ? -rounded : 0,
+          currency: row.currency,
+          bookingNumber: row.bookingNumber,
+          stadiumId: row.stadiumId,
+          stadiumName: row.stadiumName,
+          description
+        });
+      };
+
+      // Refund rows carry negative amounts, so the same postings reverse a payment
+      post(ACCOUNTS.cash, row.grossAmount);
+      post(ACCOUNTS.promoReceivable, row.promoCredit);
+      post(isRefund ? ACCOUNTS.refunds : ACCOUNTS.revenue, -(row.revenueAmount + row.promoCredit));
+      post(ACCOUNTS.taxPayable, -row.taxAmount);
+      post(ACCOUNTS.serviceFeeExpense, row.serviceFee);
+      post(ACCOUNTS.platformFeesPayable, -row.serviceFee);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Bookings with a payment or refund booked within the window
+   */
+  static async findBookings(stadiumIds: unknown[], window: AccountingWindow): Promise<IBooking[]> {
+    const range = { ...(window.from ? { [window.fromExclusive ? '$gt' : '$gte']: window.from } : {}), $lte: window.until };
+
+    return Booking.find({
+      stadiumId: { $in: stadiumIds },
+      payments: {
+        $elemMatch: {
+          $or: [
+            { processedAt: range },
+            { processedAt: { $exists: false }, createdAt: range }
+          ]
+        }
+      }
+    }).sort({ bookingDate: 1 });
+  }
+
+  static async buildLedger(stadiums: AccountingStadium[], window: AccountingWindow): Promise<LedgerRow[]> {
+    const stadiumsById = new Map(stadiums.map(stadium => [String(stadium._id), stadium]));
+    const bookings = await this.findBookings(stadiums.map(stadium => stadium._id), window);
+
+    return bookings
+      .flatMap(booking => this.buildLedgerRows(booking, stadiumsById.get(String(booking.stadiumId)) || { _id: booking.stadiumId }, window))
+      .sort((a, b) => a.entryDate.getTime() - b.entryDate.getTime() || a.entryId.localeCompare(b.entryId));
+  }
+
+  /**
+   * Upper bound for an incremental export started now
+   */
+  static getIncrementalUntil(now: Date = new Date()): Date {
+    return new Date(now.getTime() - INCREMENTAL_SETTLE_MS);
+  }
+
+  /**
+   * Where the user's previous incremental export of this report stopped
+   */
+  static async getLastCursor(userId: string, report: AccountingReport, stadiumId?: string): Promise<Date | null> {
+    const last = await AccountingExport.findOne({
+      userId,
+      report,
+      stadiumId: stadiumId || null,
+      incremental: true
+    }).sort({ until: -1 });
+
+    return last?.until || null;
+  }
+
+  static async recordExport(params: {
+    userId: string;
+    report: AccountingReport;
+    stadiumId?: string;
+    format: AccountingFormat;
+    window: AccountingWindow;
+    incremental: boolean;
+    rowCount: number;
+  }): Promise<IAccountingExport> {
+    return AccountingExport.create({
+      userId: new mongoose.Types.ObjectId(params.userId),
+      report: params.report,
+      stadiumId: params.stadiumId ? new mongoose.Types.ObjectId(params.stadiumId) : null,
+      format: params.format,
+      from: params.window.from,
+      until: params.window.until,
+      incremental: params.incremental,
+      rowCount: params.rowCount
+    });
+  }
+
+  static toCSV<T>(columns: ExportColumn<T>[], rows: T[]): string {
+    const escape = (value: SpreadsheetCell): string => {
+      let text = value === undefined || value === null ? '' : String(value);
+      // Spreadsheets run text starting with these as a formula; numbers are left as they are
+      if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    return [
+      columns.map(column => column.header),
+      ...rows.map(row => this.toCells(columns, row))
+    ].map(cells => cells.map(escape).join(',')).join('\n') + '\n';
+  }
+
+  static toWorkbook<T>(sheetName: string, columns: ExportColumn<T>[], rows: T[]): Buffer {
+    return XlsxWriter.createWorkbook(sheetName, columns.map(column => column.header), rows.map(row => this.toCells(columns, row)));
+  }
+
+  private static isInWindow(date: Date, window: AccountingWindow): boolean {
+    const afterFrom = !window.from || (window.fromExclusive ? date > window.from : date >= window.from);
+    return afterFrom && date <= window.until;
+  }
+
+  private static toCells<T>(columns: ExportColumn<T>[], row: T): SpreadsheetCell[] {
+    return columns.map(column => {
+      const value = row[column.key] as unknown;
+      if (value === undefined || value === null) return '';
+      if (column.type === 'date') return moment(value as Date).tz(ACCOUNTING_TIMEZONE).format('YYYY-MM-DD');
+      if (column.type === 'datetime') return moment(value as Date).tz(ACCOUNTING_TIMEZONE).format();
+      return value as SpreadsheetCell;
+    });
+  }
+}
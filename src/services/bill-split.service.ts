@@ -0,0 +1,486 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import Stadium from '../models/Stadium';
+import User from '../models/User';
+import { IBillSplit, IBillSplitParticipant } from '../types/booking.types';
+import { LaoPhoneUtil } from '../utils/phoneUtils';
+import { QRCodeGenerator } from '../utils/qrCodeGenerator';
+
+export interface BillSplitInvitee {
+  phone: string;
+  name?: string;
+  shareAmount?: number; // Required in custom mode
+}
+
+export interface SaveSplitParams {
+  mode: IBillSplit['mode'];
+  invitees: BillSplitInvitee[];
+  createdBy: string;
+}
+
+export interface ParticipantPaymentQR {
+  payload: string;
+  qrCodeData: string; // Base64 encoded QR code image
+  accountNumber: string;
+  accountName?: string;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class BillSplitService {
+  /**
+   * Split a booking total into the organizer's share followed by one share per invitee.
+   * Even splits use whole currency units and leave the remainder with the organizer;
+   * custom splits take the invitees' shares as given and leave the rest with the organizer.
+   */
+  static calculateShares(
+    totalAmount: number,
+    inviteeCount: number,
+    mode: IBillSplit['mode'],
+    customShares: number[] = []
+  ): number[] {
+    if (inviteeCount < 1) {
+      throw new Error('Invite at least one teammate');
+    }
+
+    if (mode === 'custom') {
+      if (customShares.length !== inviteeCount || customShares.some(share => !(share > 0))) {
+        throw new Error('Every teammate needs a share amount');
+      }
+      const organizerShare = round(totalAmount - customShares.reduce((sum, share) => sum + share, 0));
+      if (organizerShare < 0) {
+        throw new Error('Shares exceed the booking total');
+      }
+      return [organizerShare, ...customShares.map(round)];
+    }
+
+    const share = Math.floor(totalAmount / (inviteeCount + 1));
+    return [round(totalAmount - share * inviteeCount), ...Array(inviteeCount).fill(share)];
+  }
+
+  /**
+   * Create or replace the split of a booking. Existing participants keep their payment
+   * link; the split can no longer change once a teammate has paid.
+   * Returns the participants that were newly invited.
+   */
+  static async saveSplit(booking: IBooking, params: SaveSplitParams): Promise<IBillSplitParticipant[]> {
+    if (['cancelled', 'completed', 'no_show'].includes(booking.status)) {
+      throw new Error(`Cannot split a ${booking.status} booking`);
+    }
+    if (booking.paymentStatus === 'paid') {
+      throw new Error('Booking is already paid');
+    }
+    if (this.hasInviteePayments(booking)) {
+      throw new Error('Cannot change the split after teammates have paid');
+    }
+
+    const { organizer, organizerPhone } = await this.loadOrganizer(booking);
+
+    const phones = params.invitees.map(invitee => {
+      const phone = LaoPhoneUtil.normalize(invitee.phone);
+      if (!phone) {
+        throw new Error(`Invalid phone number: ${invitee.phone}`);
+      }
+      return phone;
+    });
+    if (new Set([organizerPhone, ...phones]).size !== phones.length + 1) {
+      throw new Error('Each teammate can only be invited once');
+    }
+
+    // The team size caps the split; teams without one take the size of the split
+    const playerCount = phones.length + 1;
+    if (booking.teamInfo?.numberOfPlayers) {
+      if (playerCount > booking.teamInfo.numberOfPlayers) {
+        throw new Error(`The team has only ${booking.teamInfo.numberOfPlayers} players`);
+      }
+    } else if (booking.teamInfo) {
+      booking.teamInfo.numberOfPlayers = playerCount;
+    } else {
+      booking.teamInfo = { numberOfPlayers: playerCount };
+    }
+
+    const shares = this.calculateShares(
+      booking.pricing.totalAmount,
+      phones.length,
+      params.mode,
+      params.invitees.map(invitee => Number(invitee.shareAmount))
+    );
+
+    const organizerPaid = this.getPaidAmounts(booking).get('') || 0;
+    if (organizerPaid > shares[0]) {
+      throw new Error('Amount already paid exceeds the organizer\'s share');
+    }
+
+    const users = await User.find({ phone: { $in: phones.flatMap(phone => this.getPhoneVariants(phone)) } }).select('firstName lastName phone');
+    const findUser = (phone: string) => users.find(user => LaoPhoneUtil.normalize(user.phone || '') === phone);
+
+    const previous = booking.billSplit?.participants || [];
+    const now = new Date();
+    const invited: IBillSplitParticipant[] = [];
+
+    const participants: IBillSplitParticipant[] = [organizerPhone, ...phones].map((phone, index) => {
+      const isOrganizer = index === 0;
+      const existing = previous.find(p => p.phone === phone && p.isOrganizer === isOrganizer);
+      const user = isOrganizer ? organizer : findUser(phone);
+      const participant: IBillSplitParticipant = {
+        _id: existing?._id,
+        phone,
+        name: (isOrganizer ? undefined : params.invitees[index - 1].name) || existing?.name ||
+          (user ? `${user.firstName} ${user.lastName}` : undefined),
+        userId: user?._id as mongoose.Types.ObjectId | undefined,
+        isOrganizer,
+        shareAmount: shares[index],
+        paidAmount: 0,
+        status: 'pending',
+        token: existing?.token || crypto.randomBytes(24).toString('hex'),
+        invitedAt: existing?.invitedAt || now
+      };
+      if (!existing && !isOrganizer) {
+        invited.push(participant);
+      }
+      return participant;
+    });
+
+    booking.billSplit = {
+      mode: params.mode,
+      createdBy: new mongoose.Types.ObjectId(params.createdBy),
+      createdAt: now,
+      participants
+    };
+    this.syncParticipants(booking, now);
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(params.createdBy),
+      newValues: { billSplit: { mode: params.mode, shares } },
+      notes: `Bill split ${params.mode === 'even' ? 'evenly' : 'by custom shares'} between ${playerCount} players`,
+      timestamp: now
+    } as any);
+
+    // Hand back the saved subdocuments so callers see their ids and tokens
+    return booking.billSplit.participants.filter(p => invited.some(i => i.token === p.token));
+  }
+
+  /**
+   * Add a player with a fixed share to a booking's split, taking the share off the organizer's.
+   * Nobody else's share changes, so unlike saveSplit this still works after teammates have paid.
+   */
+  static async addParticipant(
+    booking: IBooking,
+    invitee: BillSplitInvitee & { shareAmount: number; userId?: string },
+    addedBy: string
+  ): Promise<IBillSplitParticipant> {
+    if (['cancelled', 'completed', 'no_show'].includes(booking.status)) {
+      throw new Error(`Cannot split a ${booking.status} booking`);
+    }
+    const phone = LaoPhoneUtil.normalize(invitee.phone);
+    if (!phone) {
+      throw new Error(`Invalid phone number: ${invitee.phone}`);
+    }
+
+    const now = new Date();
+    if (!booking.billSplit) {
+      const { organizerPhone } = await this.loadOrganizer(booking);
+      booking.billSplit = {
+        mode: 'custom',
+        createdBy: new mongoose.Types.ObjectId(addedBy),
+        createdAt: now,
+        participants: [{
+          phone: organizerPhone,
+          isOrganizer: true,
+          shareAmount: booking.pricing.totalAmount,
+          paidAmount: 0,
+          status: 'pending',
+          token: crypto.randomBytes(24).toString('hex'),
+          invitedAt: now
+        }]
+      };
+    }
+
+    const split = booking.billSplit as IBillSplit;
+    if (split.participants.some(p => p.phone === phone)) {
+      throw new Error('Each teammate can only be invited once');
+    }
+    const organizer = split.participants.find(p => p.isOrganizer) as IBillSplitParticipant;
+    const organizerShare = round(organizer.shareAmount - invitee.shareAmount);
+    if (organizerShare < 0) {
+      throw new Error('Shares exceed the booking total');
+    }
+    if ((this.getPaidAmounts(booking).get('') || 0) > organizerShare) {
+      throw new Error('Amount already paid exceeds the organizer\'s share');
+    }
+
+    organizer.shareAmount = organizerShare;
+    split.mode = 'custom';
+    split.participants.push({
+      phone,
+      name: invitee.name,
+      userId: invitee.userId ? new mongoose.Types.ObjectId(invitee.userId) : undefined,
+      isOrganizer: false,
+      shareAmount: round(invitee.shareAmount),
+      paidAmount: 0,
+      status: 'pending',
+      token: crypto.randomBytes(24).toString('hex'),
+      invitedAt: now
+    });
+    this.syncParticipants(booking, now);
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(addedBy),
+      newValues: { billSplit: { added: phone, shareAmount: invitee.shareAmount } },
+      notes: `${invitee.name || phone} added to the bill split`,
+      timestamp: now
+    } as any);
+
+    // Hand back the saved subdocument so callers see its id and token
+    return split.participants[split.participants.length - 1];
+  }
+
+  /**
+   * Take a player who has not paid off the split; their share goes back to the organizer
+   */
+  static removeParticipant(booking: IBooking, participantId: string, removedBy: string): void {
+    const participant = this.findParticipant(booking, participantId);
+    if (!participant || participant.isOrganizer) {
+      throw new Error('Bill split participant not found');
+    }
+    if (this.getPaidAmounts(booking).has(participantId)) {
+      throw new Error('Cannot remove a teammate who has paid');
+    }
+
+    const split = booking.billSplit as IBillSplit;
+    const organizer = split.participants.find(p => p.isOrganizer) as IBillSplitParticipant;
+    organizer.shareAmount = round(organizer.shareAmount + participant.shareAmount);
+    split.participants = split.participants.filter(p => String(p._id) !== participantId);
+    if (split.participants.length === 1) {
+      booking.billSplit = undefined;
+    } else {
+      this.syncParticipants(booking);
+    }
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(removedBy),
+      notes: `${participant.name || participant.phone} removed from the bill split`,
+      timestamp: new Date()
+    } as any);
+  }
+
+  /**
+   * Drop the split while no teammate has paid; the organizer owes the whole booking again
+   */
+  static removeSplit(booking: IBooking, removedBy: string): void {
+    if (!booking.billSplit) {
+      throw new Error('Booking has no bill split');
+    }
+    if (this.hasInviteePayments(booking)) {
+      throw new Error('Cannot remove the split after teammates have paid');
+    }
+
+    booking.billSplit = undefined;
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(removedBy),
+      notes: 'Bill split removed',
+      timestamp: new Date()
+    } as any);
+  }
+
+  /**
+   * Refresh each participant's paid amount and status from the booking's settled payments,
+   * and confirm a pending booking once the split is fully funded. Payments that are not
+   * tagged with a participant count toward the organizer.
+   */
+  static syncParticipants(booking: IBooking, now: Date = new Date()): void {
+    const participants = booking.billSplit?.participants;
+    if (!participants?.length) {
+      return;
+    }
+
+    const paid = this.getPaidAmounts(booking);
+    for (const participant of participants) {
+      const key = participant.isOrganizer ? '' : String(participant._id);
+      participant.paidAmount = round(paid.get(key) || 0);
+      participant.status = participant.paidAmount >= participant.shareAmount
+        ? 'paid'
+        : participant.paidAmount > 0 ? 'partially_paid' : 'pending';
+      if (participant.status === 'paid') {
+        participant.paidAt = participant.paidAt || now;
+      } else {
+        participant.paidAt = undefined;
+      }
+    }
+
+    if (booking.status === 'pending' && booking.paymentStatus === 'paid') {
+      booking.status = 'confirmed';
+      booking.history.push({
+        action: 'confirmed',
+        changedBy: booking.userId,
+        oldValues: { status: 'pending' },
+        newValues: { status: 'confirmed' },
+        notes: 'Booking confirmed once the bill split was fully funded',
+        timestamp: now
+      } as any);
+    }
+  }
+
+  /**
+   * What a participant still has to pay, never more than the booking's open balance
+   */
+  static getAmountDue(booking: IBooking, participant: IBillSplitParticipant): number {
+    if (booking.status === 'cancelled') {
+      return 0;
+    }
+    const outstanding = booking.pricing.totalAmount - Array.from(this.getPaidAmounts(booking).values()).reduce((sum, amount) => sum + amount, 0);
+    return Math.max(0, round(Math.min(participant.shareAmount - participant.paidAmount, outstanding)));
+  }
+
+  static findParticipant(booking: IBooking, participantId: string): IBillSplitParticipant | undefined {
+    return booking.billSplit?.participants.find(p => String(p._id) === participantId);
+  }
+
+  static async findByToken(token: string): Promise<{ booking: IBooking; participant: IBillSplitParticipant } | null> {
+    const booking = await Booking.findOne({ 'billSplit.participants.token': token });
+    const participant = booking?.billSplit?.participants.find(p => p.token === token);
+    return booking && participant ? { booking, participant } : null;
+  }
+
+  static getPaymentLink(token: string): string {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/split/${token}`;
+  }
+
+  /**
+   * LAO QR for the participant's outstanding share on the stadium's bank account
+   */
+  static async buildPaymentQR(booking: IBooking, participant: IBillSplitParticipant): Promise<ParticipantPaymentQR | null> {
+    const amount = this.getAmountDue(booking, participant);
+    const stadium = await Stadium.findById(booking.stadiumId).select('name bankAccountNumber bankAccountName bankCode address.city');
+    if (amount <= 0 || !stadium?.bankAccountNumber) {
+      return null;
+    }
+
+    const payload = QRCodeGenerator.buildLaoQRPayload({
+      accountNumber: stadium.bankAccountNumber,
+      merchantName: stadium.bankAccountName || stadium.name,
+      merchantCity: stadium.address?.city,
+      bankCode: stadium.bankCode,
+      amount,
+      currency: booking.pricing.currency || 'LAK',
+      billNumber: booking.bookingNumber,
+      // Lets the owner match the transfer to the player
+      purpose: `Share ${participant.phone.slice(-4)}`
+    });
+
+    return {
+      payload,
+      qrCodeData: await QRCodeGenerator.generateQRCode(payload),
+      accountNumber: stadium.bankAccountNumber,
+      accountName: stadium.bankAccountName
+    };
+  }
+
+  /**
+   * The split as seen by the organizer and staff, with every participant's payment link
+   */
+  static getSplitView(booking: IBooking) {
+    const split = booking.billSplit as IBillSplit;
+    return {
+      mode: split.mode,
+      createdAt: split.createdAt,
+      totalAmount: booking.pricing.totalAmount,
+      currency: booking.pricing.currency || 'LAK',
+      paymentStatus: booking.paymentStatus,
+      participants: split.participants.map(participant => ({
+        _id: participant._id,
+        phone: participant.phone,
+        name: participant.name,
+        userId: participant.userId,
+        isOrganizer: participant.isOrganizer,
+        shareAmount: participant.shareAmount,
+        paidAmount: participant.paidAmount,
+        amountDue: this.getAmountDue(booking, participant),
+        status: participant.status,
+        paymentLink: this.getPaymentLink(participant.token),
+        invitedAt: participant.invitedAt,
+        paidAt: participant.paidAt
+      }))
+    };
+  }
+
+  /**
+   * The split as seen through one participant's payment link. Teammates' phones are
+   * masked and their links left out.
+   */
+  static getParticipantView(booking: IBooking, participant: IBillSplitParticipant) {
+    const split = booking.billSplit as IBillSplit;
+    return {
+      bookingNumber: booking.bookingNumber,
+      bookingDate: booking.bookingDate,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      bookingStatus: booking.status,
+      paymentStatus: booking.paymentStatus,
+      totalAmount: booking.pricing.totalAmount,
+      currency: booking.pricing.currency || 'LAK',
+      participant: {
+        _id: participant._id,
+        phone: participant.phone,
+        name: participant.name,
+        isOrganizer: participant.isOrganizer,
+        shareAmount: participant.shareAmount,
+        paidAmount: participant.paidAmount,
+        amountDue: this.getAmountDue(booking, participant),
+        status: participant.status,
+        paidAt: participant.paidAt
+      },
+      team: split.participants.map(p => ({
+        name: p.name,
+        phone: p.phone.replace(/\d(?=\d{4})/g, '*'),
+        isOrganizer: p.isOrganizer,
+        shareAmount: p.shareAmount,
+        status: p.status
+      }))
+    };
+  }
+
+  /**
+   * Settled payments per participant id; untagged payments are keyed by ''
+   */
+  private static getPaidAmounts(booking: IBooking): Map<string, number> {
+    const paid = new Map<string, number>();
+    for (const payment of booking.payments || []) {
+      if (payment.status !== 'completed' || payment.amount <= 0) {
+        continue;
+      }
+      const key = payment.participantId && this.findParticipant(booking, String(payment.participantId))?.isOrganizer === false
+        ? String(payment.participantId)
+        : '';
+      paid.set(key, (paid.get(key) || 0) + payment.amount);
+    }
+    return paid;
+  }
+
+  private static async loadOrganizer(booking: IBooking) {
+    const organizer = await User.findById(booking.userId).select('firstName lastName phone');
+    if (!organizer?.phone) {
+      throw new Error('Booking organizer not found');
+    }
+    return { organizer, organizerPhone: LaoPhoneUtil.normalize(organizer.phone) || organizer.phone };
+  }
+
+  private static hasInviteePayments(booking: IBooking): boolean {
+    return (booking.payments || []).some(
+      p => p.participantId && p.status === 'completed' && p.amount > 0 && this.findParticipant(booking, String(p.participantId))?.isOrganizer === false
+    );
+  }
+
+  /**
+   * Formats a normalized +856 number may have been stored in
+   */
+  private static getPhoneVariants(phone: string): string[] {
+    const local = phone.replace(/^\+856/, '');
+    return [phone, phone.substring(1), local, `0${local}`];
+  }
+}
@@ -0,0 +1,93 @@
+import moment from 'moment-timezone';
+import mongoose from 'mongoose';
+import { IField } from '../models/Stadium';
+import { DepositService } from './deposit.service';
+
+type FieldRef = string | mongoose.Types.ObjectId;
+
+export interface BookedRange {
+  fieldIds: FieldRef[];
+  startTime: string;
+  endTime: string;
+}
+
+// Every rule violation starts with this so controllers can answer 400 instead of 500
+const VIOLATION_PREFIX = 'Bookings on';
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A booking ending at '00:00' runs until midnight
+const toEndMinutes = (time: string): number => toMinutes(time) || MINUTES_PER_DAY;
+
+export class BookingRulesService {
+  /**
+   * Check a booking against the field's duration, granularity and lead time rules
+   */
+  static validate(field: IField, bookingDate: Date | string, startTime: string, endTime: string, now: Date = new Date()): void {
+    const rules = field.bookingRules;
+    if (!rules) return;
+
+    const start = toMinutes(startTime);
+    const duration = toEndMinutes(endTime) - start;
+    const violation = (rule: string) => new Error(`${VIOLATION_PREFIX} ${field.name} ${rule}`);
+
+    if (rules.minDurationMinutes && duration < rules.minDurationMinutes) {
+      throw violation(`must last at least ${rules.minDurationMinutes} minutes`);
+    }
+    if (rules.maxDurationMinutes && duration > rules.maxDurationMinutes) {
+      throw violation(`can last at most ${rules.maxDurationMinutes} minutes`);
+    }
+    if (rules.slotGranularityMinutes && (start % rules.slotGranularityMinutes !== 0 || duration % rules.slotGranularityMinutes !== 0)) {
+      throw violation(`must start and end on ${rules.slotGranularityMinutes}-minute steps`);
+    }
+
+    const kickoff = moment(DepositService.getBookingStart(bookingDate, startTime));
+    if (rules.minLeadHours && kickoff.diff(now, 'minutes') < rules.minLeadHours * 60) {
+      throw violation(`must be made at least ${rules.minLeadHours} hours ahead`);
+    }
+    if (rules.maxAdvanceDays && kickoff.diff(now, 'days', true) > rules.maxAdvanceDays) {
+      throw violation(`can be made at most ${rules.maxAdvanceDays} days ahead`);
+    }
+  }
+
+  static isViolation(error: any): boolean {
+    return typeof error?.message === 'string' && error.message.startsWith(`${VIOLATION_PREFIX} `);
+  }
+
+  /**
+   * Turnover time around a booking on the given fields, the longest any of them requires
+   */
+  static getBuffers(fields: IField[], fieldIds: FieldRef[]): { before: number; after: number } {
+    const ids = fieldIds.map(String);
+    const booked = fields.filter(field => ids.includes(String((field as any)._id)));
+
+    return {
+      before: Math.max(0, ...booked.map(field => field.bookingRules?.bufferBeforeMinutes || 0)),
+      after: Math.max(0, ...booked.map(field => field.bookingRules?.bufferAfterMinutes || 0))
+    };
+  }
+
+  /**
+   * Minutes of the day a booking keeps its fields busy, buffers included, end exclusive
+   */
+  static getOccupiedRange(fields: IField[], range: BookedRange): { start: number; end: number } {
+    const { before, after } = this.getBuffers(fields, range.fieldIds);
+    return {
+      start: Math.max(0, toMinutes(range.startTime) - before),
+      end: Math.min(MINUTES_PER_DAY, toEndMinutes(range.endTime) + after)
+    };
+  }
+
+  /**
+   * Whether two bookings on related fields would overlap once their buffers are added
+   */
+  static conflicts(fields: IField[], a: BookedRange, b: BookedRange): boolean {
+    const first = this.getOccupiedRange(fields, a);
+    const second = this.getOccupiedRange(fields, b);
+    return first.start < second.end && first.end > second.start;
+  }
+}
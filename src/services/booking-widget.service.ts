@@ -1,6 +1,13 @@
 import mongoose from 'mongoose';
-import Stadium from '../models/Stadium';
+import Stadium, { IField, IStadium } from '../models/Stadium';
 import Booking from '../models/Booking';
+import { PricingEngine } from './pricing-engine.service';
+import { TaxService } from './tax.service';
+import { DepositService } from './deposit.service';
+import { SLOT_UNAVAILABLE, SlotHoldService } from './slot-hold.service';
+import { BookingRulesService } from './booking-rules.service';
+import { HolidayService } from './holiday.service';
+import AvailabilityService from '../utils/availability';
 
 interface WidgetConfig {
   enabled: boolean;
@@ -77,70 +84,41 @@ export class BookingWidgetService {
     }
   }
 
-  // Get available time slots for a stadium on a specific date
-  static async getAvailability(stadiumId: string, date: string): Promise<AvailabilitySlot[]> {
+  // Get bookable time slots of a field on a specific date; the customer's own hold stays available
+  static async getAvailability(stadiumId: string, date: string, fieldId?: string, holdId?: string): Promise<AvailabilitySlot[]> {
     try {
       const stadium = await Stadium.findById(stadiumId);
       
       if (!stadium) {
         throw new Error('Stadium not found');
       }
-      
-      // Parse date manually since we don't have date-fns
-      const targetDate = new Date(date);
-      const startOfDayDate = new Date(targetDate);
-      startOfDayDate.setHours(0, 0, 0, 0);
-      
-      const endOfDayDate = new Date(targetDate);
-      endOfDayDate.setHours(23, 59, 59, 999);
-      
-      // Get existing bookings for the date
-      const existingBookings = await Booking.find({
-        stadiumId: new mongoose.Types.ObjectId(stadiumId),
-        bookingDate: {
-          $gte: startOfDayDate,
-          $lte: endOfDayDate
-        },
-        status: { $in: ['confirmed', 'pending'] }
-      });
-      
-      // Generate time slots based on stadium operating hours
-      const slots: AvailabilitySlot[] = [];
-      const openTime = (stadium as any).openingTime || '08:00';
-      const closeTime = (stadium as any).closingTime || '22:00';
-      
-      // Convert times to minutes for easier calculation
-      const [openHours, openMinutes] = openTime.split(':').map(Number);
-      const [closeHours, closeMinutes] = closeTime.split(':').map(Number);
-      const openTotalMinutes = openHours * 60 + openMinutes;
-      const closeTotalMinutes = closeHours * 60 + closeMinutes;
-      
-      // Generate 1-hour slots
-      for (let minutes = openTotalMinutes; minutes < closeTotalMinutes; minutes += 60) {
-        const hour = Math.floor(minutes / 60);
-        const minute = minutes % 60;
-        const nextHour = Math.floor((minutes + 60) / 60);
-        const nextMinute = (minutes + 60) % 60;
-        
-        const startTime = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
-        const endTime = `${String(nextHour).padStart(2, '0')}:${String(nextMinute).padStart(2, '0')}`;
-        
-        // Check if this slot is already booked
-        const isBooked = existingBookings.some((booking: any) => {
-          return (
-            (startTime >= booking.startTime && startTime < booking.endTime) ||
-            (endTime > booking.startTime && endTime <= booking.endTime) ||
-            (startTime <= booking.startTime && endTime >= booking.endTime)
-          );
-        });
-        
-        slots.push({
+
+      // Widget slots are for the requested field, or the first available one
+      const field = this.findField(stadium, fieldId);
+      if (!field) {
+        return [];
+      }
+      const { tax } = await TaxService.getTaxForStadium(stadium);
+
+      // Slots come from the field's opening hours, with bookings, buffers and holds taken out
+      const { availableSlots, unavailableSlots, calendarDay } = await AvailabilityService.getComprehensiveAvailability(
+        String((field as any)._id),
+        date,
+        field,
+        { holdId }
+      );
+
+      const slots: AvailabilitySlot[] = [
+        ...availableSlots.map(slot => ({ ...slot, available: true })),
+        ...unavailableSlots.map(slot => ({ ...slot, available: false }))
+      ]
+        .sort((a, b) => a.startTime.localeCompare(b.startTime))
+        .map(({ startTime, endTime, available }) => ({
           startTime,
           endTime,
-          price: (stadium as any).pricePerHour || 0,
-          available: !isBooked
-        });
-      }
+          price: PricingEngine.calculate({ field, bookingDate: date, startTime, endTime, tax, holiday: calendarDay.holiday }).pricing.totalAmount,
+          available
+        }));
       
       return slots;
     } catch (error) {
@@ -149,6 +127,33 @@ export class BookingWidgetService {
     }
   }
 
+  // Hold a time slot during widget checkout; the hold id is passed back when booking
+  static async holdSlot(stadiumId: string, slotData: { date: string; fieldId?: string; startTime: string; endTime: string }): Promise<any> {
+    const stadium = await Stadium.findById(stadiumId);
+    if (!stadium) {
+      throw new Error('Stadium not found');
+    }
+
+    const field = this.findField(stadium, slotData.fieldId);
+    if (!field) {
+      throw new Error('Field not found');
+    }
+
+    const availability = await this.getAvailability(stadiumId, slotData.date, slotData.fieldId);
+    const slot = availability.find(s => s.startTime === slotData.startTime && s.endTime === slotData.endTime);
+    if (!slot || !slot.available) {
+      throw new Error(SLOT_UNAVAILABLE);
+    }
+
+    return SlotHoldService.createHold({
+      stadiumId,
+      fieldId: String((field as any)._id),
+      bookingDate: slotData.date,
+      startTime: slotData.startTime,
+      endTime: slotData.endTime
+    });
+  }
+
   // Create booking through widget
   static async createBooking(stadiumId: string, bookingData: any): Promise<any> {
     try {
@@ -158,30 +163,51 @@ export class BookingWidgetService {
         throw new Error('Stadium not found');
       }
       
+      const field = this.findField(stadium, bookingData.fieldId);
+      if (!field) {
+        throw new Error('Field not found');
+      }
+      BookingRulesService.validate(field, bookingData.date, bookingData.startTime, bookingData.endTime);
+
       // Validate time slot is available
-      const availability = await this.getAvailability(stadiumId, bookingData.date);
+      const availability = await this.getAvailability(stadiumId, bookingData.date, bookingData.fieldId, bookingData.holdId);
       const slot = availability.find(s => s.startTime === bookingData.startTime && s.endTime === bookingData.endTime);
       
       if (!slot || !slot.available) {
-        throw new Error('Selected time slot is not available');
+        throw new Error(SLOT_UNAVAILABLE);
       }
+
+      const { durationHours, pricing } = PricingEngine.calculate({
+        field,
+        bookingDate: bookingData.date,
+        startTime: bookingData.startTime,
+        endTime: bookingData.endTime,
+        tax: (await TaxService.getTaxForStadium(stadium)).tax,
+        holiday: (await HolidayService.getCalendarDay(stadium, bookingData.date, (field as any)._id)).holiday
+      });
       
       // Create booking
       const booking = new Booking({
         stadiumId: new mongoose.Types.ObjectId(stadiumId),
+        fieldId: (field as any)._id,
         bookingDate: new Date(bookingData.date),
         startTime: bookingData.startTime,
         endTime: bookingData.endTime,
+        durationHours,
+        pricing,
+        deposit: DepositService.calculateDeposit(stadium.depositPolicy, pricing.totalAmount, DepositService.getBookingStart(bookingData.date, bookingData.startTime)),
         customerName: bookingData.customerName,
         customerEmail: bookingData.customerEmail,
         customerPhone: bookingData.customerPhone,
-        totalPrice: slot.price,
         status: 'pending',
         paymentStatus: 'pending',
         source: 'widget'
       });
       
       const savedBooking = await booking.save();
+      await SlotHoldService.convertHolds(savedBooking.fieldId, bookingData.date, bookingData.startTime, bookingData.endTime, {
+        holdId: bookingData.holdId
+      });
       
       // Populate stadium reference
       await savedBooking.populate('stadiumId');
@@ -192,4 +218,13 @@ export class BookingWidgetService {
       throw error;
     }
   }
+
+  // Find a field by ID, falling back to the stadium's first available field
+  private static findField(stadium: IStadium, fieldId?: string): IField | undefined {
+    const fields = stadium.fields || [];
+    if (fieldId) {
+      return fields.find((f: any) => f._id?.toString() === fieldId);
+    }
+    return fields.find(f => f.status !== 'inactive' && f.status !== 'maintenance');
+  }
 }
\ No newline at end of file
@@ -3,33 +3,17 @@ import Booking from '../models/Booking';
 import Stadium from '../models/Stadium';
 import moment from 'moment-timezone';
 import mongoose from 'mongoose';
-import { IPayment } from '../types/booking.types'; // Only import what's used
+import { IPayment, IPricing } from '../types/booking.types'; // Only import what's used
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { PricingEngine } from './pricing-engine.service';
+import { ReservationService } from './reservation.service';
 
 export class BookingService {
   /**
    * Check if a time slot is available
    */
   static async checkAvailability(fieldId: string, bookingDate: Date, startTime: string, endTime: string, excludeBookingId?: string): Promise<boolean> {
-    const query: any = {
-      fieldId,
-      bookingDate,
-      $or: [
-        {
-          $and: [
-            { startTime: { $lt: endTime } },
-            { endTime: { $gt: startTime } }
-          ]
-        }
-      ],
-      status: { $in: ['pending', 'confirmed'] }
-    };
-
-    if (excludeBookingId) {
-      query._id = { $ne: excludeBookingId };
-    }
-
-    const existingBooking = await Booking.findOne(query);
-    return !existingBooking;
+    return ReservationService.isAvailable(fieldId, bookingDate, startTime, endTime, excludeBookingId);
   }
 
   /**
@@ -52,25 +36,22 @@ export class BookingService {
   /**
    * Calculate booking pricing
    */
-  static calculatePricing(field: any, startTime: string, endTime: string, refereeCharges: any[] = []): {
+  static calculatePricing(field: any, bookingDate: Date | string, startTime: string, endTime: string, refereeCharges: any[] = []): {
     durationHours: number;
     baseAmount: number;
     totalRefereeCharges: number;
     totalAmount: number;
+    pricing: IPricing;
   } {
-    const startMoment = moment(startTime, 'HH:mm');
-    const endMoment = moment(endTime, 'HH:mm');
-    const durationHours = endMoment.diff(startMoment, 'hours', true);
-    const baseRate = field.pricing?.baseHourlyRate || 0;
-    const baseAmount = baseRate * durationHours;
+    const { durationHours, pricing } = PricingEngine.calculate({ field, bookingDate, startTime, endTime, refereeCharges });
     const totalRefereeCharges = refereeCharges.reduce((sum: number, charge: any) => sum + charge.total, 0);
-    const totalAmount = baseAmount + totalRefereeCharges;
 
     return {
       durationHours,
-      baseAmount,
+      baseAmount: pricing.baseRate * durationHours,
       totalRefereeCharges,
-      totalAmount
+      totalAmount: pricing.totalAmount,
+      pricing
     };
   }
 
@@ -132,63 +113,19 @@ export class BookingService {
   }
 
   /**
-   * Calculate cancellation refund
+   * Calculate cancellation refund using the stadium's cancellation policy
    */
-  static calculateRefund(booking: any): number {
-    const bookingDateTime = moment.tz(
-      `${booking.bookingDate.toISOString().split('T')[0]} ${booking.startTime}`,
-      'YYYY-MM-DD HH:mm',
-      'Asia/Vientiane'
-    );
-    const now = moment.tz('Asia/Vientiane');
-    const hoursUntilBooking = bookingDateTime.diff(now, 'hours');
-
-    let refundAmount = 0;
-    if (booking.paymentStatus === 'paid') {
-      if (hoursUntilBooking >= 48) {
-        refundAmount = booking.pricing.totalAmount; // Full refund
-      } else if (hoursUntilBooking >= 24) {
-        refundAmount = booking.pricing.totalAmount * 0.5; // 50% refund
-      }
-    }
-
-    return refundAmount;
+  static async calculateRefund(booking: any): Promise<number> {
+    const quote = await CancellationPolicyService.getQuote(booking);
+    return quote.refundAmount;
   }
 
   /**
-   * Check if cancellation is allowed
+   * Check if cancellation is allowed under the stadium's cancellation policy
    */
-  static isCancellationAllowed(booking: any, userRole?: string): { allowed: boolean; reason?: string } {
-    const bookingDateTime = moment.tz(
-      `${booking.bookingDate.toISOString().split('T')[0]} ${booking.startTime}`,
-      'YYYY-MM-DD HH:mm',
-      'Asia/Vientiane'
-    );
-    const now = moment.tz('Asia/Vientiane');
-    const hoursUntilBooking = bookingDateTime.diff(now, 'hours');
-
-    if (hoursUntilBooking < 24 && userRole !== 'stadium_owner' && userRole !== 'superadmin') {
-      return {
-        allowed: false,
-        reason: 'Bookings can only be cancelled 24 hours in advance'
-      };
-    }
-
-    if (booking.status === 'cancelled') {
-      return {
-        allowed: false,
-        reason: 'Booking is already cancelled'
-      };
-    }
-
-    if (booking.status === 'completed') {
-      return {
-        allowed: false,
-        reason: 'Completed bookings cannot be cancelled'
-      };
-    }
-
-    return { allowed: true };
+  static async isCancellationAllowed(booking: any, userRole?: string): Promise<{ allowed: boolean; reason?: string }> {
+    const quote = await CancellationPolicyService.getQuote(booking, { userRole });
+    return quote.allowed ? { allowed: true } : { allowed: false, reason: quote.reason };
   }
 
   /**
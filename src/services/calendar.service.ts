@@ -2,6 +2,12 @@ import Booking, { IBooking } from '../models/Booking';
 import Stadium, { IStadium } from '../models/Stadium';
 import mongoose from 'mongoose';
 import moment from 'moment';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { ReservationService } from './reservation.service';
+import { BookingRulesService } from './booking-rules.service';
+import { FieldRelationService } from './field-relation.service';
+import { CalendarStadium, HolidayService, SpecialDay } from './holiday.service';
+import { FreedSlot, WaitlistService } from './waitlist.service';
 
 export interface CalendarEvent {
   id: string;
@@ -25,6 +31,7 @@ export interface CalendarEvent {
     fieldName?: string;
     stadiumName?: string;
     membershipDetails?: {
+      seriesId?: string;
       membershipStartDate: string;
       membershipEndDate?: string;
       recurrencePattern: string;
@@ -56,6 +63,7 @@ export interface VisualCalendarData {
     events: number;
     revenue: number;
   }[];
+  specialDays: SpecialDay[]; // Holidays, blackouts and closures of the stadiums shown
 }
 
 export class CalendarService {
@@ -231,6 +239,7 @@ export class CalendarService {
             // Add membership details for membership bookings
             ...(booking.bookingType === 'membership' && booking.membershipDetails && {
               membershipDetails: {
+                seriesId: booking.membershipDetails.seriesId?.toString(),
                 membershipStartDate: booking.membershipDetails.membershipStartDate ? 
                   new Date(booking.membershipDetails.membershipStartDate).toISOString() : '',
                 membershipEndDate: booking.membershipDetails.membershipEndDate ? 
@@ -345,6 +354,7 @@ export class CalendarService {
             // Add membership details for membership bookings
             ...(booking.bookingType === 'membership' && booking.membershipDetails && {
               membershipDetails: {
+                seriesId: booking.membershipDetails.seriesId?.toString(),
                 membershipStartDate: booking.membershipDetails.membershipStartDate ? 
                   new Date(booking.membershipDetails.membershipStartDate).toISOString() : '',
                 membershipEndDate: booking.membershipDetails.membershipEndDate ? 
@@ -481,6 +491,7 @@ export class CalendarService {
             // Add membership details for membership bookings
             ...(booking.bookingType === 'membership' && booking.membershipDetails && {
               membershipDetails: {
+                seriesId: booking.membershipDetails.seriesId?.toString(),
                 membershipStartDate: booking.membershipDetails.membershipStartDate ? 
                   new Date(booking.membershipDetails.membershipStartDate).toISOString() : '',
                 membershipEndDate: booking.membershipDetails.membershipEndDate ? 
@@ -591,6 +602,7 @@ export class CalendarService {
             // Add membership details for membership bookings
             ...(booking.bookingType === 'membership' && booking.membershipDetails && {
               membershipDetails: {
+                seriesId: booking.membershipDetails.seriesId?.toString(),
                 membershipStartDate: booking.membershipDetails.membershipStartDate ? 
                   new Date(booking.membershipDetails.membershipStartDate).toISOString() : '',
                 membershipEndDate: booking.membershipDetails.membershipEndDate ? 
@@ -620,7 +632,8 @@ export class CalendarService {
   static generateVisualCalendarData(
     events: CalendarEvent[],
     startDate: Date,
-    endDate: Date
+    endDate: Date,
+    specialDays: SpecialDay[] = []
   ): VisualCalendarData {
     // Calculate summary statistics
     const eventsByStatus: Record<string, number> = {};
@@ -691,10 +704,25 @@ export class CalendarService {
         revenue: totalRevenue,
         currency
       },
-      monthlyBreakdown
+      monthlyBreakdown,
+      specialDays
     };
   }
 
+  /**
+   * Holidays, blackouts and closures of the matching stadiums, so the calendar can explain closed days
+   */
+  private static async getSpecialDays(stadiumFilter: Record<string, any>, startDate: Date, endDate: Date): Promise<SpecialDay[]> {
+    const stadiums = await Stadium.find(stadiumFilter)
+      .select('name address closedOnPublicHolidays fields._id fields.composedOf')
+      .lean();
+    return HolidayService.getSpecialDays(stadiums as CalendarStadium[], startDate, endDate);
+  }
+
+  private static getEventStadiumIds(events: CalendarEvent[]): string[] {
+    return [...new Set(events.map(event => event.stadiumId).filter((id): id is string => !!id))];
+  }
+
   /**
    * Reschedule a booking to a new date and time
    */
@@ -703,7 +731,8 @@ export class CalendarService {
     newDate: Date,
     newStartTime: string,
     newEndTime: string,
-    userId: string
+    userId: string,
+    userRole?: string
   ): Promise<IBooking> {
     try {
       const booking = await Booking.findById(bookingId);
@@ -729,26 +758,47 @@ export class CalendarService {
         throw new Error('Not authorized to reschedule this booking');
       }
 
-      // Check if the new time slot is available
-      const existingBooking = await Booking.findOne({
-        fieldId: booking.fieldId,
-        bookingDate: newDate,
-        $or: [
-          {
-            $and: [
-              { startTime: { $lt: newEndTime } },
-              { endTime: { $gt: newStartTime } }
-            ]
-          }
-        ],
-        status: { $in: ['pending', 'confirmed'] },
-        _id: { $ne: bookingId }
-      });
+      // Rescheduling moves the original slot, so it follows the same notice window as a cancellation
+      if (!isStadiumOwner) {
+        const quote = await CancellationPolicyService.getQuote(booking, { userRole });
+        if (!quote.allowed) {
+          throw new Error(quote.reason);
+        }
+      }
+
+      // The new time has to respect the booking rules of every booked field
+      const bookedFieldIds = [booking.fieldId, ...(booking.additionalFieldIds || [])].map(String);
+      const fields = await FieldRelationService.getStadiumFields(bookedFieldIds, booking.stadiumId);
+      fields
+        .filter(field => bookedFieldIds.includes(String((field as any)._id)))
+        .forEach(field => BookingRulesService.validate(field, newDate, newStartTime, newEndTime));
+
+      // Holidays the stadium closes on, platform blackouts and its closures rule out the new date
+      const stadium = await Stadium.findById(booking.stadiumId).select('address closedOnPublicHolidays fields._id fields.composedOf');
+      if (stadium) {
+        const holidays = await HolidayService.findEntries([stadium], newDate, newDate);
+        const closedDay = bookedFieldIds
+          .map(fieldId => HolidayService.describeDay(holidays, stadium, newDate, fieldId))
+          .find(day => day.isClosed);
+        if (closedDay) {
+          throw new Error(`Field is closed on this day (${closedDay.reason})`);
+        }
+      }
 
-      if (existingBooking) {
+      // Check if the new time slot is available
+      if (!(await ReservationService.isAvailable(bookedFieldIds, newDate, newStartTime, newEndTime, bookingId))) {
         throw new Error('Time slot is already booked');
       }
 
+      const freedSlot: FreedSlot = {
+        stadiumId: booking.stadiumId,
+        fieldId: booking.fieldId,
+        additionalFieldIds: booking.additionalFieldIds,
+        bookingDate: booking.bookingDate,
+        startTime: booking.startTime,
+        endTime: booking.endTime
+      };
+
       // Update the booking
       booking.bookingDate = newDate;
       booking.startTime = newStartTime;
@@ -782,6 +832,9 @@ export class CalendarService {
       } as any);
 
       await booking.save();
+
+      // Offer the slot the booking moved away from to users waiting for it
+      await WaitlistService.offerFreedSlot(freedSlot);
       
       // Populate related fields
       await booking.populate('stadiumId', 'name');
@@ -804,7 +857,8 @@ export class CalendarService {
   ): Promise<VisualCalendarData> {
     try {
       const events = await this.getUserCalendarEvents(userId, startDate, endDate);
-      return this.generateVisualCalendarData(events, startDate, endDate);
+      const specialDays = await this.getSpecialDays({ _id: { $in: this.getEventStadiumIds(events) } }, startDate, endDate);
+      return this.generateVisualCalendarData(events, startDate, endDate, specialDays);
     } catch (error) {
       throw new Error(`Failed to get user visual calendar data: ${error}`);
     }
@@ -820,7 +874,8 @@ export class CalendarService {
   ): Promise<VisualCalendarData> {
     try {
       const events = await this.getStadiumOwnerCalendarEvents(ownerId, startDate, endDate);
-      return this.generateVisualCalendarData(events, startDate, endDate);
+      const specialDays = await this.getSpecialDays({ ownerId }, startDate, endDate);
+      return this.generateVisualCalendarData(events, startDate, endDate, specialDays);
     } catch (error) {
       throw new Error(`Failed to get stadium owner visual calendar data: ${error}`);
     }
@@ -836,7 +891,12 @@ export class CalendarService {
   ): Promise<VisualCalendarData> {
     try {
       const events = await this.getAdminCalendarEvents(startDate, endDate, stadiumId);
-      return this.generateVisualCalendarData(events, startDate, endDate);
+      const specialDays = await this.getSpecialDays(
+        { _id: stadiumId ? stadiumId : { $in: this.getEventStadiumIds(events) } },
+        startDate,
+        endDate
+      );
+      return this.generateVisualCalendarData(events, startDate, endDate, specialDays);
     } catch (error) {
       throw new Error(`Failed to get admin visual calendar data: ${error}`);
     }
@@ -0,0 +1,208 @@
+import moment from 'moment-timezone';
+import { IBooking } from '../models/Booking';
+import Stadium, { IStadium, IField, ICancellationPolicy } from '../models/Stadium';
+import LoyaltyProgram from '../models/LoyaltyProgram';
+import { PaymentLedgerService } from './payment-ledger.service';
+
+export type CancellationPolicySource = 'field_booking_type' | 'field' | 'stadium_booking_type' | 'stadium' | 'default';
+
+export interface CancellationQuote {
+  allowed: boolean;
+  reason?: string;
+  hoursUntilBooking: number;
+  paidAmount: number;
+  feeAmount: number;
+  refundAmount: number;
+  currency: string;
+  policySource: CancellationPolicySource;
+  appliedTier?: {
+    minHoursBefore: number;
+    feeType: 'percentage' | 'fixed';
+    feeAmount: number;
+  };
+  loyaltyTier?: string;
+  feesWaived: boolean;
+}
+
+export interface CancellationContext {
+  userRole?: string;
+  loyaltyTier?: string;
+  now?: moment.Moment;
+}
+
+// Mirrors the rule that used to be hard-coded in BookingController.cancelBooking:
+// no cancellation inside 24h, full refund from 48h, 50% between 24h and 48h.
+export const DEFAULT_CANCELLATION_POLICY: ICancellationPolicy = {
+  allowCancellation: true,
+  minHoursBefore: 24,
+  tiers: [
+    { minHoursBefore: 48, feeType: 'percentage', feeAmount: 0 },
+    { minHoursBefore: 24, feeType: 'percentage', feeAmount: 50 }
+  ],
+  noRefundForMembership: false,
+  loyaltyOverrides: []
+};
+
+export class CancellationPolicyService {
+  /**
+   * Resolve the policy that applies to a booking, most specific first
+   */
+  static resolvePolicy(
+    stadium: IStadium | null,
+    field: IField | null | undefined,
+    bookingType?: string
+  ): { policy: ICancellationPolicy; source: CancellationPolicySource } {
+    const fieldPolicy = field?.cancellationPolicy;
+    const fieldTypeOverride = fieldPolicy?.bookingTypeOverrides?.find(o => o.bookingType === bookingType);
+    if (fieldTypeOverride) {
+      return { policy: fieldTypeOverride, source: 'field_booking_type' };
+    }
+    if (fieldPolicy && fieldPolicy.tiers && fieldPolicy.tiers.length > 0) {
+      return { policy: fieldPolicy, source: 'field' };
+    }
+
+    const stadiumPolicy = stadium?.cancellationPolicy;
+    const stadiumTypeOverride = stadiumPolicy?.bookingTypeOverrides?.find(o => o.bookingType === bookingType);
+    if (stadiumTypeOverride) {
+      return { policy: stadiumTypeOverride, source: 'stadium_booking_type' };
+    }
+    if (stadiumPolicy && stadiumPolicy.tiers && stadiumPolicy.tiers.length > 0) {
+      return { policy: stadiumPolicy, source: 'stadium' };
+    }
+
+    return { policy: DEFAULT_CANCELLATION_POLICY, source: 'default' };
+  }
+
+  /**
+   * Hours between now and the booking start, in the stadium's timezone
+   */
+  static getHoursUntilBooking(booking: IBooking, now: moment.Moment = moment.tz('Asia/Vientiane')): number {
+    const bookingDateTime = moment.tz(
+      `${new Date(booking.bookingDate).toISOString().split('T')[0]} ${booking.startTime}`,
+      'YYYY-MM-DD HH:mm',
+      'Asia/Vientiane'
+    );
+    return bookingDateTime.diff(now, 'hours');
+  }
+
+  /**
+   * Amount the customer has actually paid towards the booking
+   */
+  static getPaidAmount(booking: IBooking): number {
+    return PaymentLedgerService.getPaidAmount(booking);
+  }
+
+  /**
+   * Evaluate a policy against a booking without touching the database
+   */
+  static evaluatePolicy(
+    booking: IBooking,
+    policy: ICancellationPolicy,
+    source: CancellationPolicySource,
+    context: CancellationContext = {}
+  ): CancellationQuote {
+    const hoursUntilBooking = this.getHoursUntilBooking(booking, context.now);
+    const paidAmount = this.getPaidAmount(booking);
+    // Refunds already paid out or still open come off what the cancellation can refund
+    const { totalRefunded, pendingRefunds } = PaymentLedgerService.getTotals(booking);
+    const refundable = Math.max(0, paidAmount - totalRefunded - pendingRefunds);
+    const isPrivilegedUser = context.userRole === 'stadium_owner' || context.userRole === 'superadmin';
+    const loyaltyOverride = context.loyaltyTier
+      ? policy.loyaltyOverrides?.find(o => o.tier === context.loyaltyTier)
+      : undefined;
+
+    const quote: CancellationQuote = {
+      allowed: true,
+      hoursUntilBooking,
+      paidAmount,
+      feeAmount: 0,
+      refundAmount: 0,
+      currency: booking.pricing.currency || 'LAK',
+      policySource: source,
+      loyaltyTier: context.loyaltyTier,
+      feesWaived: false
+    };
+
+    if (booking.status === 'cancelled') {
+      return { ...quote, allowed: false, reason: 'Booking is already cancelled' };
+    }
+
+    if (booking.status === 'completed' || booking.status === 'no_show') {
+      return { ...quote, allowed: false, reason: `Bookings with status ${booking.status} cannot be cancelled` };
+    }
+
+    // Stadium owners and superadmins can always cancel
+    if (!isPrivilegedUser) {
+      if (policy.allowCancellation === false) {
+        return { ...quote, allowed: false, reason: 'This booking cannot be cancelled' };
+      }
+
+      const minHoursBefore = loyaltyOverride?.minHoursBefore ?? policy.minHoursBefore;
+      if (hoursUntilBooking < minHoursBefore) {
+        return {
+          ...quote,
+          allowed: false,
+          reason: `Bookings can only be cancelled ${minHoursBefore} hours in advance`
+        };
+      }
+    }
+
+    if (paidAmount <= 0) {
+      return quote;
+    }
+
+    if (booking.bookingType === 'membership' && policy.noRefundForMembership) {
+      return { ...quote, feeAmount: paidAmount };
+    }
+
+    if (loyaltyOverride?.waiveFees) {
+      return { ...quote, refundAmount: refundable, feesWaived: true };
+    }
+
+    // Tiers are matched from the longest notice period down
+    const appliedTier = [...(policy.tiers || [])]
+      .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+      .find(tier => hoursUntilBooking >= tier.minHoursBefore);
+
+    if (!appliedTier) {
+      return { ...quote, feeAmount: paidAmount };
+    }
+
+    const rawFee = appliedTier.feeType === 'fixed'
+      ? appliedTier.feeAmount
+      : (paidAmount * appliedTier.feeAmount) / 100;
+    const feeAmount = Math.min(paidAmount, Math.max(0, rawFee));
+
+    return {
+      ...quote,
+      feeAmount,
+      refundAmount: Math.min(refundable, paidAmount - feeAmount),
+      appliedTier: {
+        minHoursBefore: appliedTier.minHoursBefore,
+        feeType: appliedTier.feeType,
+        feeAmount: appliedTier.feeAmount
+      }
+    };
+  }
+
+  /**
+   * Build a cancellation quote for a booking, loading its stadium and the customer's loyalty tier
+   */
+  static async getQuote(
+    booking: IBooking,
+    context: CancellationContext = {},
+    stadium?: IStadium | null
+  ): Promise<CancellationQuote> {
+    const bookingStadium = stadium !== undefined ? stadium : await Stadium.findById(booking.stadiumId);
+    const field = bookingStadium?.fields?.find((f: any) => f._id?.toString() === booking.fieldId.toString());
+    const { policy, source } = this.resolvePolicy(bookingStadium, field, booking.bookingType);
+
+    let loyaltyTier = context.loyaltyTier;
+    if (!loyaltyTier && policy.loyaltyOverrides && policy.loyaltyOverrides.length > 0) {
+      const loyaltyProgram = await LoyaltyProgram.findOne({ userId: booking.userId }).select('currentTier');
+      loyaltyTier = loyaltyProgram?.currentTier;
+    }
+
+    return this.evaluatePolicy(booking, policy, source, { ...context, loyaltyTier });
+  }
+}
@@ -0,0 +1,15 @@
+import Counter from '../models/Counter';
+
+export class CounterService {
+  /**
+   * Atomically take the next number of a named sequence, starting at 1
+   */
+  static async next(key: string): Promise<number> {
+    const counter = await Counter.findOneAndUpdate(
+      { key },
+      { $inc: { seq: 1 } },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+    return counter!.seq;
+  }
+}
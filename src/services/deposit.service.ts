@@ -0,0 +1,194 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import { IDepositPolicy } from '../models/Stadium';
+import { IBookingDeposit } from '../types/booking.types';
+import { InvoiceRegistryService } from './invoice-registry.service';
+import { PromoCodeService } from './promo-code.service';
+import { RefundService } from './refund.service';
+
+const HOLD_EXPIRED_REASON = 'Deposit not received in time';
+
+export interface DepositStatus {
+  requiredAmount: number;
+  depositDue: number; // Still to pay before the booking is confirmed
+  balanceDue: IBookingDeposit['balanceDue'];
+  balanceDueAt?: Date;
+  holdExpiresAt: Date;
+  receivedAt?: Date;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class DepositService {
+  /**
+   * Kickoff time of a booking in the stadium's timezone
+   */
+  static getBookingStart(bookingDate: Date | string, startTime: string): Date {
+    return moment.tz(
+      `${new Date(bookingDate).toISOString().split('T')[0]} ${startTime}`,
+      'YYYY-MM-DD HH:mm',
+      'Asia/Vientiane'
+    ).toDate();
+  }
+
+  /**
+   * Deposit terms for a new booking, or undefined when the stadium does not ask for one
+   */
+  static calculateDeposit(
+    policy: IDepositPolicy | undefined,
+    totalAmount: number,
+    bookingStart: Date,
+    now: Date = new Date()
+  ): IBookingDeposit | undefined {
+    if (!policy?.enabled || totalAmount <= 0) {
+      return undefined;
+    }
+
+    const requiredAmount = policy.type === 'fixed'
+      ? Math.min(policy.amount, totalAmount)
+      : round((totalAmount * Math.min(policy.amount, 100)) / 100);
+    if (requiredAmount <= 0) {
+      return undefined;
+    }
+
+    // Never hold a slot past kickoff
+    const holdUntil = moment(now).add(policy.holdMinutes || 60, 'minutes').toDate();
+    const balanceDueAt = policy.balanceDue === 'before_kickoff'
+      ? moment(bookingStart).subtract(policy.balanceDueHoursBefore || 0, 'hours').toDate()
+      : bookingStart;
+
+    return {
+      requiredAmount,
+      balanceDue: policy.balanceDue || 'at_venue',
+      balanceDueAt,
+      holdExpiresAt: holdUntil < bookingStart ? holdUntil : bookingStart
+    };
+  }
+
+  static getDepositStatus(booking: IBooking, paidAmount: number): DepositStatus | null {
+    if (!booking.deposit) {
+      return null;
+    }
+
+    return {
+      requiredAmount: booking.deposit.requiredAmount,
+      depositDue: booking.deposit.receivedAt ? 0 : Math.max(0, round(booking.deposit.requiredAmount - paidAmount)),
+      balanceDue: booking.deposit.balanceDue,
+      balanceDueAt: booking.deposit.balanceDueAt,
+      holdExpiresAt: booking.deposit.holdExpiresAt,
+      receivedAt: booking.deposit.receivedAt
+    };
+  }
+
+  /**
+   * Record the deposit once settled payments cover it and confirm the pending booking.
+   * Returns true when the deposit was received by this call.
+   */
+  static markReceived(booking: IBooking, completedAmount: number, now: Date = new Date()): boolean {
+    if (!booking.deposit || booking.deposit.receivedAt || completedAmount < booking.deposit.requiredAmount) {
+      return false;
+    }
+
+    booking.deposit.receivedAt = now;
+
+    if (booking.status === 'pending') {
+      booking.status = 'confirmed';
+      booking.history.push({
+        action: 'confirmed',
+        changedBy: booking.userId,
+        oldValues: { status: 'pending' },
+        newValues: { status: 'confirmed' },
+        notes: 'Booking confirmed on receipt of the deposit',
+        timestamp: now
+      } as any);
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether a pending booking has run out of time to pay its deposit. Bookings with a
+   * transfer slip still waiting for the owner's review are kept.
+   */
+  static isHoldExpired(booking: IBooking, now: Date = new Date()): boolean {
+    if (booking.status !== 'pending' || !booking.deposit || booking.deposit.receivedAt) {
+      return false;
+    }
+
+    const awaitingReview = (booking.payments || []).some(p => p.status === 'pending' && p.slip?.reviewStatus === 'pending');
+    return !awaitingReview && new Date(booking.deposit.holdExpiresAt) <= now;
+  }
+
+  /**
+   * Cancel a booking whose deposit hold expired, giving back anything already paid
+   */
+  static releaseHold(booking: IBooking, now: Date = new Date()): void {
+    const { totalPaid } = RefundService.getTotals(booking);
+
+    booking.status = 'cancelled';
+    booking.cancellation = {
+      cancelledAt: now,
+      cancelledBy: booking.userId,
+      reason: HOLD_EXPIRED_REASON,
+      refundAmount: totalPaid,
+      cancellationFee: 0,
+      refundStatus: totalPaid > 0 ? 'requested' : 'not_applicable'
+    };
+
+    if (totalPaid > 0) {
+      RefundService.requestRefund(booking, {
+        amount: totalPaid,
+        reason: HOLD_EXPIRED_REASON,
+        requestedBy: String(booking.userId)
+      });
+    }
+
+    booking.history.push({
+      action: 'cancelled',
+      changedBy: booking.userId,
+      oldValues: { status: 'pending' },
+      newValues: { status: 'cancelled' },
+      notes: HOLD_EXPIRED_REASON,
+      timestamp: now
+    } as any);
+  }
+
+  /**
+   * Cancel pending bookings whose deposit did not arrive within the hold window,
+   * freeing their slots for other customers
+   */
+  static async releaseExpiredHolds(now: Date = new Date()): Promise<number> {
+    const candidates = await Booking.find({
+      status: 'pending',
+      'deposit.holdExpiresAt': { $lte: now },
+      'deposit.receivedAt': { $exists: false }
+    });
+
+    let released = 0;
+    for (const booking of candidates) {
+      if (!this.isHoldExpired(booking, now)) {
+        continue;
+      }
+
+      try {
+        this.releaseHold(booking, now);
+        // A deposit settled since the booking was loaded wins over the release
+        booking.$where = { status: 'pending', 'deposit.receivedAt': { $exists: false } };
+        await booking.save();
+        released++;
+
+        await PromoCodeService.releaseRedemption(booking._id as mongoose.Types.ObjectId);
+        await InvoiceRegistryService.issueCreditNote(booking, {
+          trigger: 'cancellation',
+          amount: booking.pricing.totalAmount,
+          reason: HOLD_EXPIRED_REASON
+        });
+      } catch (error) {
+        console.error(`Failed to release deposit hold for booking ${booking._id}:`, error);
+      }
+    }
+
+    return released;
+  }
+}
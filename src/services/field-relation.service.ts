@@ -0,0 +1,122 @@
+import mongoose from 'mongoose';
+import Stadium, { IField } from '../models/Stadium';
+
+type FieldRef = string | mongoose.Types.ObjectId;
+
+const idOf = (field: IField): string => String((field as any)._id);
+
+export class FieldRelationService {
+  /**
+   * Ground each field physically covers: the field itself plus every field it is
+   * composed of, recursively. Fields unknown to the stadium cover only themselves.
+   */
+  static getFootprint(fields: IField[], fieldIds: FieldRef[]): string[] {
+    const byId = new Map(fields.map(field => [idOf(field), field]));
+    const footprint = new Set<string>();
+
+    const visit = (fieldId: string) => {
+      if (footprint.has(fieldId)) return;
+      footprint.add(fieldId);
+      byId.get(fieldId)?.composedOf?.forEach(child => visit(String(child)));
+    };
+    fieldIds.forEach(fieldId => visit(String(fieldId)));
+
+    return Array.from(footprint);
+  }
+
+  /**
+   * Fields that cannot be booked at the same time as the given ones because they
+   * share ground: the fields themselves, the fields they are made of and every
+   * field built on top of any of those
+   */
+  static getRelatedIds(fields: IField[], fieldIds: FieldRef[]): string[] {
+    const footprint = new Set(this.getFootprint(fields, fieldIds));
+    const related = new Set(fieldIds.map(String));
+
+    for (const field of fields) {
+      if (this.getFootprint(fields, [idOf(field)]).some(id => footprint.has(id))) {
+        related.add(idOf(field));
+      }
+    }
+    return Array.from(related);
+  }
+
+  /**
+   * Whether any two of the given fields share ground, so booking them together is meaningless
+   */
+  static overlap(fields: IField[], fieldIds: FieldRef[]): boolean {
+    const seen = new Set<string>();
+    for (const fieldId of fieldIds) {
+      const footprint = this.getFootprint(fields, [fieldId]);
+      if (footprint.some(id => seen.has(id))) {
+        return true;
+      }
+      footprint.forEach(id => seen.add(id));
+    }
+    return false;
+  }
+
+  /**
+   * Check that every field is composed of other fields of the same stadium without cycles
+   */
+  static validateComposition(fields: IField[]): boolean {
+    const ids = new Set(fields.map(idOf));
+
+    for (const field of fields) {
+      const children = (field.composedOf || []).map(String);
+      if (children.includes(idOf(field))) {
+        throw new Error(`Field ${field.name} cannot be composed of itself`);
+      }
+      if (children.some(child => !ids.has(child))) {
+        throw new Error(`Field ${field.name} is composed of a field that does not exist in this stadium`);
+      }
+    }
+
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const byId = new Map(fields.map(field => [idOf(field), field]));
+    const visit = (field: IField) => {
+      const fieldId = idOf(field);
+      if (done.has(fieldId)) return;
+      if (visiting.has(fieldId)) {
+        throw new Error(`Field ${field.name} is part of a circular composition`);
+      }
+      visiting.add(fieldId);
+      field.composedOf?.forEach(child => visit(byId.get(String(child)) as IField));
+      visiting.delete(fieldId);
+      done.add(fieldId);
+    };
+    fields.forEach(visit);
+
+    return true;
+  }
+
+  /**
+   * Booking query condition matching bookings on any of the fields, including combined bookings
+   */
+  static bookingFilter(fieldIds: FieldRef[]): Record<string, any> {
+    const ids = fieldIds.map(fieldId => new mongoose.Types.ObjectId(String(fieldId)));
+    return { $or: [{ fieldId: { $in: ids } }, { additionalFieldIds: { $in: ids } }] };
+  }
+
+  /**
+   * Related fields looked up from their stadium, by its id or else by the first field's id
+   */
+  static async resolveRelatedIds(fieldIds: FieldRef[], stadiumId?: FieldRef): Promise<string[]> {
+    return this.getRelatedIds(await this.getStadiumFields(fieldIds, stadiumId), fieldIds);
+  }
+
+  /**
+   * Relations and booking rules of every field in the stadium, by its id or else by the first field's id
+   */
+  static async getStadiumFields(fieldIds: FieldRef[], stadiumId?: FieldRef): Promise<IField[]> {
+    if (!stadiumId && fieldIds.length === 0) {
+      return [];
+    }
+
+    const stadium = await Stadium.findOne(stadiumId ? { _id: stadiumId } : { 'fields._id': fieldIds[0] })
+      .select('fields._id fields.name fields.composedOf fields.bookingRules')
+      .lean();
+    return (stadium?.fields || []) as IField[];
+  }
+}
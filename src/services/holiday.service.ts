@@ -0,0 +1,281 @@
+import moment from 'moment-timezone';
+import mongoose from 'mongoose';
+import Holiday, { HolidayType, IHoliday } from '../models/Holiday';
+import Stadium, { IStadium } from '../models/Stadium';
+import { FieldRelationService } from './field-relation.service';
+import { TaxService } from './tax.service';
+
+type FieldRef = string | mongoose.Types.ObjectId;
+type HolidayEntry = Pick<IHoliday, 'type' | 'name' | 'startDate' | 'endDate' | 'country' | 'stadiumId' | 'fieldIds'>;
+export type CalendarStadium = Pick<IStadium, '_id' | 'address' | 'closedOnPublicHolidays' | 'fields'> & { name?: string };
+
+/**
+ * How a date differs from a stadium's regular opening hours
+ */
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  isClosed: boolean;
+  reason?: string; // Why nothing can be booked, shown to customers
+  holiday?: string; // Public holiday on the date, priced with the fields' holiday tier
+}
+
+/**
+ * A holiday, blackout or closure on one day of a stadium's calendar
+ */
+export interface SpecialDay {
+  date: string;
+  type: HolidayType;
+  name: string;
+  reason: string;
+  isClosed: boolean; // False for holidays the stadium stays open on and for closures of some fields only
+  stadiumId: string;
+  stadiumName?: string;
+  fieldIds?: string[];
+}
+
+export interface HolidayInput {
+  name: string;
+  startDate: string;
+  endDate: string;
+  externalId?: string;
+}
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const toDay = (date: Date | string): moment.Moment =>
+  typeof date === 'string'
+    ? moment.utc(date.split('T')[0], DATE_FORMAT)
+    : moment.utc(date).startOf('day');
+
+// ICS text values escape commas, semicolons, backslashes and newlines
+const unescapeIcs = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+export class HolidayService {
+  /**
+   * Read the all-day events of an iCalendar file, e.g. a country's public holiday calendar.
+   * DTEND of an all-day event is the day after it ends.
+   */
+  static parseIcs(content: string): HolidayInput[] {
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays: HolidayInput[] = [];
+    let event: Record<string, string> | null = null;
+
+    for (const line of lines) {
+      if (line.trim() === 'BEGIN:VEVENT') {
+        event = {};
+        continue;
+      }
+      if (line.trim() === 'END:VEVENT') {
+        const start = event?.DTSTART?.slice(0, 8);
+        if (event && start && event.SUMMARY) {
+          const startDate = moment.utc(start, 'YYYYMMDD');
+          const end = event.DTEND ? moment.utc(event.DTEND.slice(0, 8), 'YYYYMMDD') : startDate.clone();
+          if (event.DTEND && event.DTEND.length === 8) {
+            end.subtract(1, 'day');
+          }
+          holidays.push({
+            name: unescapeIcs(event.SUMMARY),
+            startDate: startDate.format(DATE_FORMAT),
+            endDate: moment.max(startDate, end).format(DATE_FORMAT),
+            ...(event.UID ? { externalId: event.UID.trim() } : {})
+          });
+        }
+        event = null;
+        continue;
+      }
+
+      const separator = line.indexOf(':');
+      if (!event || separator === -1) continue;
+      const property = line.slice(0, separator).split(';')[0].toUpperCase();
+      event[property] = line.slice(separator + 1);
+    }
+
+    return holidays;
+  }
+
+  /**
+   * Read a JSON holiday set: a list of { name, date } or { name, startDate, endDate, id }
+   */
+  static parseJson(items: any[]): HolidayInput[] {
+    return items.map((item, i) => {
+      const start = item.startDate || item.date;
+      if (!item.name || !start || !toDay(String(start)).isValid()) {
+        throw new Error(`Holiday ${i + 1} needs a name and a valid date`);
+      }
+
+      const startDate = toDay(String(start));
+      const endDate = item.endDate ? toDay(String(item.endDate)) : startDate;
+      return {
+        name: String(item.name).trim(),
+        startDate: startDate.format(DATE_FORMAT),
+        endDate: moment.max(startDate, endDate).format(DATE_FORMAT),
+        ...(item.id ? { externalId: String(item.id) } : {})
+      };
+    });
+  }
+
+  /**
+   * Save a country's holiday set. Holidays already imported, matched by their event id or
+   * else by name and date, are updated instead of added twice.
+   */
+  static async importHolidays(
+    country: string,
+    holidays: HolidayInput[],
+    source: IHoliday['source'],
+    userId?: string
+  ): Promise<{ created: number; updated: number }> {
+    const normalized = TaxService.normalizeCountry(country);
+    let created = 0;
+    let updated = 0;
+
+    for (const input of holidays) {
+      const startDate = toDay(input.startDate).toDate();
+      const existing = await Holiday.findOne(input.externalId
+        ? { type: 'holiday', country: normalized, externalId: input.externalId }
+        : { type: 'holiday', country: normalized, name: input.name, startDate });
+      const holiday = existing || new Holiday({ type: 'holiday', country: normalized, externalId: input.externalId });
+
+      holiday.name = input.name;
+      holiday.startDate = startDate;
+      holiday.endDate = toDay(input.endDate).toDate();
+      holiday.source = source;
+      holiday.isActive = true;
+      if (userId) {
+        holiday.createdBy = new mongoose.Types.ObjectId(userId);
+      }
+      await holiday.save();
+
+      if (existing) {
+        updated++;
+      } else {
+        created++;
+      }
+    }
+
+    return { created, updated };
+  }
+
+  /**
+   * Active holidays, blackouts and closures overlapping the range that concern any of the stadiums
+   */
+  static async findEntries(stadiums: CalendarStadium[], from: Date | string, to: Date | string): Promise<IHoliday[]> {
+    if (stadiums.length === 0) {
+      return [];
+    }
+
+    const countries = [...new Set(stadiums.map(stadium => TaxService.normalizeCountry(stadium.address?.country)))];
+    return Holiday.find({
+      isActive: true,
+      startDate: { $lte: toDay(to).toDate() },
+      endDate: { $gte: toDay(from).toDate() },
+      $or: [
+        { type: 'holiday', country: { $in: countries } },
+        { type: 'blackout', country: { $in: [null, ...countries] } },
+        { type: 'closure', stadiumId: { $in: stadiums.map(stadium => stadium._id) } }
+      ]
+    }).sort({ startDate: 1 });
+  }
+
+  /**
+   * Whether an entry concerns a stadium, and with a field given whether it closes that field.
+   * Closing a field closes the fields sharing its ground too.
+   */
+  static appliesTo(entry: HolidayEntry, stadium: CalendarStadium, fieldId?: FieldRef): boolean {
+    const country = TaxService.normalizeCountry(stadium.address?.country);
+    switch (entry.type) {
+      case 'holiday':
+        return entry.country === country;
+      case 'blackout':
+        return !entry.country || entry.country === country;
+      case 'closure':
+        if (String(entry.stadiumId) !== String(stadium._id)) return false;
+        if (!entry.fieldIds?.length) return true;
+        return !!fieldId && FieldRelationService.getRelatedIds(stadium.fields || [], entry.fieldIds).includes(String(fieldId));
+    }
+  }
+
+  /**
+   * Whether the stadium, or one of its fields, is closed on a date and which public holiday it is.
+   * Blackouts come first, then the stadium's own closures, then holidays it closes on.
+   */
+  static describeDay(entries: HolidayEntry[], stadium: CalendarStadium, date: Date | string, fieldId?: FieldRef): CalendarDay {
+    const day = toDay(date);
+    const covering = entries.filter(entry =>
+      day.isSameOrAfter(toDay(entry.startDate), 'day') &&
+      day.isSameOrBefore(toDay(entry.endDate), 'day') &&
+      this.appliesTo(entry, stadium, fieldId)
+    );
+
+    const holiday = covering.find(entry => entry.type === 'holiday');
+    const closure = covering.find(entry => entry.type === 'blackout')
+      || covering.find(entry => entry.type === 'closure')
+      || (stadium.closedOnPublicHolidays ? holiday : undefined);
+
+    return {
+      date: day.format(DATE_FORMAT),
+      isClosed: !!closure,
+      ...(closure ? { reason: this.describe(closure) } : {}),
+      ...(holiday ? { holiday: holiday.name } : {})
+    };
+  }
+
+  static async getCalendarDay(stadium: CalendarStadium, date: Date | string, fieldId?: FieldRef): Promise<CalendarDay> {
+    return this.describeDay(await this.findEntries([stadium], date, date), stadium, date, fieldId);
+  }
+
+  /**
+   * Calendar day of a field, looked up from the stadium it belongs to
+   */
+  static async getFieldCalendarDay(fieldId: FieldRef, date: Date | string): Promise<CalendarDay> {
+    const stadium = await Stadium.findOne({ 'fields._id': fieldId })
+      .select('address closedOnPublicHolidays fields._id fields.composedOf')
+      .lean();
+    return stadium
+      ? this.getCalendarDay(stadium as CalendarStadium, date, fieldId)
+      : { date: toDay(date).format(DATE_FORMAT), isClosed: false };
+  }
+
+  /**
+   * Every day in the range with a holiday, blackout or closure, per stadium
+   */
+  static async getSpecialDays(stadiums: CalendarStadium[], from: Date | string, to: Date | string): Promise<SpecialDay[]> {
+    const entries = await this.findEntries(stadiums, from, to);
+    const first = toDay(from);
+    const last = toDay(to);
+    const days: SpecialDay[] = [];
+
+    for (const entry of entries) {
+      const start = moment.max(first, toDay(entry.startDate));
+      const end = moment.min(last, toDay(entry.endDate));
+      for (const stadium of stadiums.filter(s => this.appliesTo(entry, s))) {
+        const isClosed = entry.type === 'holiday' ? !!stadium.closedOnPublicHolidays : !entry.fieldIds?.length;
+        for (const day = start.clone(); day.isSameOrBefore(end, 'day'); day.add(1, 'day')) {
+          days.push({
+            date: day.format(DATE_FORMAT),
+            type: entry.type,
+            name: entry.name,
+            reason: this.describe(entry),
+            isClosed,
+            stadiumId: String(stadium._id),
+            ...(stadium.name ? { stadiumName: stadium.name } : {}),
+            ...(entry.fieldIds?.length ? { fieldIds: entry.fieldIds.map(String) } : {})
+          });
+        }
+      }
+    }
+
+    return days.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private static describe(entry: HolidayEntry): string {
+    switch (entry.type) {
+      case 'holiday':
+        return `${entry.name} (public holiday)`;
+      case 'blackout':
+        return `${entry.name} (platform closure)`;
+      case 'closure':
+        return entry.name;
+    }
+  }
+}
@@ -0,0 +1,288 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Invoice, { IInvoice } from '../models/Invoice';
+import Stadium from '../models/Stadium';
+import User from '../models/User';
+import { IBooking } from '../models/Booking';
+import { IBillingCycle, IMembershipSeries } from '../models/MembershipSeries';
+import { CounterService } from './counter.service';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { IInvoiceData, InvoiceService } from './invoice.service';
+
+// Invoice years follow the stadiums' local calendar
+const INVOICE_TIMEZONE = 'Asia/Vientiane';
+
+// How long another request may take to number a claimed document before it is taken over
+const PENDING_TIMEOUT_MS = 30000;
+const PENDING_POLL_MS = 100;
+const PENDING_POLL_ATTEMPTS = 20;
+
+export interface CreditNoteParams {
+  trigger: 'cancellation' | 'refund';
+  amount: number;
+  reason?: string;
+  refundId?: mongoose.Types.ObjectId;
+  issuedBy?: string;
+}
+
+type DocumentType = IInvoice['documentType'];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const idOf = (value: any): string => String(value?._id ?? value);
+
+export class InvoiceRegistryService {
+  /**
+   * INV-2026-000123 for invoices, CN-2026-000004 for credit notes
+   */
+  static formatNumber(documentType: DocumentType, year: number, sequence: number): string {
+    const prefix = documentType === 'credit_note' ? 'CN' : 'INV';
+    return `${prefix}-${year}-${String(sequence).padStart(6, '0')}`;
+  }
+
+  /**
+   * Each owner has its own invoice and credit note sequence per year
+   */
+  static counterKey(documentType: DocumentType, ownerId: string, year: number): string {
+    return `${documentType}:${ownerId}:${year}`;
+  }
+
+  /**
+   * The booking's invoice, numbered and stored the first time it is issued
+   */
+  static async issueInvoice(booking: IBooking, ownerId: string, invoiceData: IInvoiceData): Promise<IInvoice> {
+    const existing = await Invoice.findOne({ ...this.invoiceFilter(booking), documentType: 'invoice' });
+    if (existing?.status === 'issued') {
+      return existing;
+    }
+    if (booking.membershipDetails?.billingCycleId) {
+      throw new Error('Membership occurrences are invoiced with their billing cycle');
+    }
+
+    return this.allocate(
+      { bookingId: booking._id, documentType: 'invoice' },
+      {
+        ownerId: new mongoose.Types.ObjectId(ownerId),
+        stadiumId: new mongoose.Types.ObjectId(idOf(booking.stadiumId)),
+        customerId: booking.userId ? new mongoose.Types.ObjectId(idOf(booking.userId)) : undefined,
+        items: invoiceData.items,
+        subtotal: invoiceData.subtotal,
+        taxes: invoiceData.taxes,
+        totalAmount: invoiceData.totalAmount,
+        currency: invoiceData.currency
+      }
+    );
+  }
+
+  /**
+   * Issue the booking's invoice from the database when no caller has built it yet
+   */
+  static async ensureInvoice(booking: IBooking): Promise<IInvoice> {
+    const existing = await Invoice.findOne({ ...this.invoiceFilter(booking), documentType: 'invoice' });
+    if (existing?.status === 'issued') {
+      return existing;
+    }
+
+    const [stadium, customer] = await Promise.all([
+      Stadium.findById(idOf(booking.stadiumId)),
+      User.findById(idOf(booking.userId))
+    ]);
+    if (!stadium) {
+      throw new Error('Stadium not found');
+    }
+
+    const invoiceData = InvoiceService.generateInvoiceData(booking, stadium, customer || ({ _id: booking.userId } as any));
+    return this.issueInvoice(booking, stadium.ownerId.toString(), invoiceData);
+  }
+
+  /**
+   * Credit part or all of the booking's invoice. Returns null when there is nothing to credit.
+   */
+  static async issueCreditNote(booking: IBooking, params: CreditNoteParams): Promise<IInvoice | null> {
+    // Bookings that were never invoiced or paid have nothing to reverse
+    let invoice: IInvoice | null = await Invoice.findOne({ ...this.invoiceFilter(booking), documentType: 'invoice', status: 'issued' });
+    if (!invoice) {
+      // Membership occurrences released before their cycle is invoiced are left off that invoice instead
+      if (CancellationPolicyService.getPaidAmount(booking) <= 0 || booking.membershipDetails?.billingCycleId) {
+        return null;
+      }
+      invoice = await this.ensureInvoice(booking);
+    }
+
+    const credited = await Invoice.find({ originalInvoiceId: invoice._id, documentType: 'credit_note' });
+    const alreadyCredited = credited.reduce((sum, note) => sum + Math.abs(note.totalAmount), 0);
+    const amount = round(Math.min(params.amount, invoice.totalAmount - alreadyCredited));
+    if (amount <= 0) {
+      return null;
+    }
+
+    // Tax is reversed in proportion to the credited share of the invoice
+    const taxes = invoice.totalAmount > 0 ? round((invoice.taxes * amount) / invoice.totalAmount) : 0;
+    const inclusive = booking.pricing.taxDetails?.inclusive !== false;
+    const subtotal = inclusive ? amount : round(amount - taxes);
+    const description = `Credit for invoice ${invoice.invoiceNumber}${params.reason ? `: ${params.reason}` : ''}`;
+
+    const filter = params.trigger === 'cancellation'
+      ? { bookingId: booking._id, trigger: 'cancellation' }
+      : { refundId: params.refundId, trigger: 'refund' };
+
+    return this.allocate(
+      { ...filter, documentType: 'credit_note' },
+      {
+        bookingId: booking._id,
+        ownerId: invoice.ownerId,
+        stadiumId: invoice.stadiumId,
+        customerId: invoice.customerId,
+        items: [{ description, quantity: 1, unitPrice: -subtotal, total: -subtotal }],
+        subtotal: -subtotal,
+        taxes: -taxes,
+        totalAmount: -amount,
+        currency: invoice.currency,
+        originalInvoiceId: invoice._id,
+        originalInvoiceNumber: invoice.invoiceNumber,
+        reason: params.reason,
+        refundId: params.refundId,
+        issuedBy: params.issuedBy ? new mongoose.Types.ObjectId(params.issuedBy) : undefined
+      }
+    );
+  }
+
+  /**
+   * One invoice for all occurrences of a membership billing cycle, numbered in the owner's sequence
+   */
+  static async issueCycleInvoice(
+    series: IMembershipSeries,
+    cycle: IBillingCycle,
+    bookings: IBooking[],
+    ownerId: string
+  ): Promise<IInvoice> {
+    const inclusive = bookings.some(booking => booking.pricing.taxDetails?.inclusive);
+    const discount = series.billing?.upfrontDiscountPercent ? ` (${series.billing.upfrontDiscountPercent}% upfront discount)` : '';
+    const items = bookings.map(booking => {
+      const net = round(booking.pricing.totalAmount - (inclusive ? 0 : booking.pricing.taxes || 0));
+      return {
+        description: `Membership ${moment(booking.bookingDate).format('YYYY-MM-DD')} ${booking.startTime}-${booking.endTime}${discount}`,
+        quantity: 1,
+        unitPrice: net,
+        total: net
+      };
+    });
+
+    return this.allocate(
+      { billingCycleId: cycle._id, documentType: 'invoice' },
+      {
+        membershipSeriesId: series._id,
+        bookingIds: bookings.map(booking => booking._id),
+        ownerId: new mongoose.Types.ObjectId(ownerId),
+        stadiumId: series.stadiumId,
+        customerId: series.userId,
+        items,
+        subtotal: round(items.reduce((sum, item) => sum + item.total, 0)),
+        taxes: round(bookings.reduce((sum, booking) => sum + (booking.pricing.taxes || 0), 0)),
+        totalAmount: round(bookings.reduce((sum, booking) => sum + booking.pricing.totalAmount, 0)),
+        currency: cycle.currency,
+        dueDate: cycle.dueDate
+      }
+    );
+  }
+
+  /**
+   * Issued invoices for a page of bookings, keyed by booking ID. Membership occurrences map
+   * to the invoice of their billing cycle.
+   */
+  static async findIssuedInvoices(bookingIds: unknown[]): Promise<Map<string, IInvoice>> {
+    const invoices = await Invoice.find({
+      $or: [{ bookingId: { $in: bookingIds } }, { bookingIds: { $in: bookingIds } }],
+      documentType: 'invoice',
+      status: 'issued'
+    });
+
+    const byBooking = new Map<string, IInvoice>();
+    for (const invoice of invoices) {
+      for (const bookingId of invoice.bookingId ? [invoice.bookingId] : invoice.bookingIds || []) {
+        byBooking.set(bookingId.toString(), invoice);
+      }
+    }
+    return byBooking;
+  }
+
+  static async getCreditNotes(bookingId: string): Promise<IInvoice[]> {
+    return Invoice.find({ bookingId, documentType: 'credit_note', status: 'issued' }).sort({ issuedAt: 1 });
+  }
+
+  /**
+   * The invoice of the booking itself or of the membership billing cycle covering it
+   */
+  private static invoiceFilter(booking: IBooking): Record<string, any> {
+    return { $or: [{ bookingId: booking._id }, { bookingIds: booking._id }] };
+  }
+
+  /**
+   * Claim the document, then take its number. Only the request that inserted the claim
+   * advances the counter, so concurrent first issues cannot leave gaps in the sequence.
+   */
+  private static async allocate(filter: Record<string, any>, fields: Record<string, any>): Promise<IInvoice> {
+    const issuedAt = new Date();
+    const year = moment.tz(issuedAt, INVOICE_TIMEZONE).year();
+    let claimed: IInvoice | null = null;
+
+    try {
+      const result = await Invoice.findOneAndUpdate(
+        filter,
+        { $setOnInsert: { ...fields, year, status: 'pending' } },
+        { upsert: true, new: true, includeResultMetadata: true }
+      );
+      if (!result.lastErrorObject?.updatedExisting) {
+        claimed = result.value;
+      } else if (result.value?.status === 'issued') {
+        return result.value;
+      }
+    } catch (error: any) {
+      // Lost the race to insert the claim
+      if (error.code !== 11000) throw error;
+    }
+
+    if (!claimed) {
+      claimed = await this.waitForNumber(filter);
+      if (claimed.status === 'issued') {
+        return claimed;
+      }
+    }
+
+    const sequence = await CounterService.next(this.counterKey(claimed.documentType, claimed.ownerId.toString(), claimed.year));
+    claimed.set({
+      sequence,
+      invoiceNumber: this.formatNumber(claimed.documentType, claimed.year, sequence),
+      issuedAt,
+      status: 'issued'
+    });
+    return claimed.save();
+  }
+
+  /**
+   * Wait for another request to number a claimed document, taking it over if that request died
+   */
+  private static async waitForNumber(filter: Record<string, any>): Promise<IInvoice> {
+    for (let attempt = 0; attempt < PENDING_POLL_ATTEMPTS; attempt++) {
+      const document = await Invoice.findOne(filter);
+      if (document?.status === 'issued') {
+        return document;
+      }
+
+      if (document && Date.now() - document.updatedAt.getTime() > PENDING_TIMEOUT_MS) {
+        const takenOver = await Invoice.findOneAndUpdate(
+          { _id: document._id, status: 'pending', updatedAt: document.updatedAt },
+          { $set: { updatedAt: new Date() } },
+          { new: true, timestamps: false }
+        );
+        if (takenOver) {
+          return takenOver;
+        }
+      }
+
+      await new Promise(resolve => setTimeout(resolve, PENDING_POLL_MS));
+    }
+
+    throw new Error('Invoice is being issued, please retry');
+  }
+}
@@ -2,6 +2,8 @@ import { IBooking } from '../models/Booking';
 import { IStadium } from '../models/Stadium';
 import { IUser } from '../models/User';
 import mongoose from 'mongoose';
+import { QRCodeGenerator } from '../utils/qrCodeGenerator';
+import { PaymentLedgerService } from './payment-ledger.service';
 
 export interface IInvoiceItem {
   description: string;
@@ -12,6 +14,7 @@ export interface IInvoiceItem {
 
 // Updated interface to include optional ownerName and QR code payment info
 export interface IInvoiceData {
+  documentType?: 'invoice' | 'credit_note';
   invoiceNumber: string;
   invoiceDate: Date;
   dueDate: Date;
@@ -35,6 +38,8 @@ export interface IInvoiceData {
     phone: string;
     ownerId: string;
     ownerName?: string; // Keep this optional
+    businessName?: string;
+    taxId?: string; // Owner's tax ID, required on VAT invoices
     accountNumber?: string;
     accountNumberImage?: string;
     // Add new bank account fields
@@ -50,16 +55,31 @@ export interface IInvoiceData {
   items: IInvoiceItem[];
   subtotal: number;
   taxes: number;
+  tax?: {
+    name: string;
+    rate: number;
+    inclusive: boolean; // Taxes are already part of subtotal and not added to the total
+    taxableAmount: number;
+    exemptionReason?: string;
+  };
   totalAmount: number;
   currency: string;
   paymentStatus: string;
+  amountPaid?: number;
+  amountRefunded?: number;
   // QR Code payment information
   qrCodePayment?: {
     qrCodeData?: string;
+    payload?: string; // LAO QR (EMVCo) string encoded in qrCodeData
     accountNumber?: string;
     accountName?: string;
   };
   notes?: string;
+  // Credit notes reference the invoice they reverse
+  creditNote?: {
+    originalInvoiceNumber?: string;
+    reason?: string;
+  };
   // Add QR code dimensions for proper 80mm layout
   qrCodeDimensions?: {
     width: number;
@@ -135,15 +155,38 @@ export class InvoiceService {
       }
     }
 
-    // Build invoice items
-    const items: IInvoiceItem[] = [
-      {
-        description: `Field Booking${fieldName}`,
-        quantity: booking.durationHours,
-        unitPrice: booking.pricing.baseRate,
-        total: booking.pricing.baseRate * booking.durationHours
-      }
-    ];
+    // Fields booked together are charged on the same invoice under their own names
+    const additionalNames = (booking.additionalFieldIds || [])
+      .map(id => stadium.fields?.find((f: any) => f._id?.toString() === id.toString())?.name)
+      .filter(Boolean);
+    if (additionalNames.length > 0) {
+      fieldName = `${fieldName || ' - Field'} + ${additionalNames.join(' + ')}`;
+    }
+
+    // Build invoice items, one per rate period when the pricing engine split the booking
+    const fieldLineItems = booking.pricing.lineItems?.filter(item => item.type === 'field') || [];
+    const items: IInvoiceItem[] = booking.additionalFieldIds?.length && fieldLineItems.length > 0
+      ? fieldLineItems.map(item => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          total: item.total
+        }))
+      : fieldLineItems.length > 1
+      ? fieldLineItems.map(item => ({
+          description: `Field Booking${fieldName} (${item.startTime}-${item.endTime})`,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          total: item.total
+        }))
+      : [
+          {
+            description: `Field Booking${fieldName}`,
+            quantity: booking.durationHours,
+            unitPrice: booking.pricing.baseRate,
+            total: booking.pricing.baseRate * booking.durationHours
+          }
+        ];
 
     // Add referee charges
     booking.pricing.refereeCharges?.forEach((charge) => {
@@ -165,24 +208,39 @@ export class InvoiceService {
       });
     });
 
-    // Calculate totals
+    // Calculate totals; tax-inclusive prices already carry their tax in the subtotal
     const subtotal = items.reduce((sum, item) => sum + item.total, 0);
     const taxes = booking.pricing.taxes || 0;
-    const totalAmount = subtotal + taxes;
+    const taxDetails = booking.pricing.taxDetails;
+    const totalAmount = taxDetails?.inclusive ? subtotal : subtotal + taxes;
+    const tax: IInvoiceData['tax'] = taxDetails
+      ? {
+          name: taxDetails.name,
+          rate: taxDetails.rate,
+          inclusive: taxDetails.inclusive,
+          taxableAmount: taxDetails.inclusive ? subtotal - taxes : subtotal,
+          exemptionReason: taxDetails.exemptionReason
+        }
+      : undefined;
+
+    // Paid-out refunds are shown against the invoice total
+    const { totalPaid: amountPaid, totalRefunded: amountRefunded } = PaymentLedgerService.getTotals(booking);
 
     // Check if stadium owner is populated with name details
     let ownerName: string | undefined = undefined;
+    let ownerProfile: IUser['ownerProfile'] = undefined;
     if (stadium.ownerId && typeof stadium.ownerId === 'object' && 'firstName' in stadium.ownerId) {
       const populatedOwner = stadium.ownerId as any;
       ownerName = `${populatedOwner.firstName || ''} ${populatedOwner.lastName || ''}`.trim() || undefined;
+      ownerProfile = populatedOwner.ownerProfile;
     }
 
+    // The seller details captured at booking time win over the owner's current profile
+    const taxId = taxDetails?.sellerTaxId || ownerProfile?.taxId;
+    const businessName = taxDetails?.sellerName || ownerProfile?.businessName;
+
     // Check for QR code payment information in the latest payment
-    let qrCodePayment: {
-      qrCodeData?: string;
-      accountNumber?: string;
-      accountName?: string;
-    } | undefined = undefined;
+    let qrCodePayment: IInvoiceData['qrCodePayment'] = undefined;
     if (booking.payments && booking.payments.length > 0) {
       const latestPayment = booking.payments[booking.payments.length - 1];
       // Type assertion to access QR code fields
@@ -196,6 +254,25 @@ export class InvoiceService {
       }
     }
 
+    // Otherwise offer a scannable LAO QR for the outstanding balance on the stadium's account
+    const outstanding = booking.pricing.totalAmount - amountPaid;
+    const awaitingPayment = ['pending', 'partially_paid', 'failed'].includes(booking.paymentStatus);
+    if (!qrCodePayment && stadium.bankAccountNumber && awaitingPayment && outstanding > 0 && booking.status !== 'cancelled') {
+      qrCodePayment = {
+        payload: QRCodeGenerator.buildLaoQRPayload({
+          accountNumber: stadium.bankAccountNumber,
+          merchantName: stadium.bankAccountName || stadium.name,
+          merchantCity: stadium.address?.city,
+          bankCode: stadium.bankCode,
+          amount: outstanding,
+          currency: booking.pricing.currency || 'LAK',
+          billNumber: booking.bookingNumber
+        }),
+        accountNumber: stadium.bankAccountNumber,
+        accountName: stadium.bankAccountName
+      };
+    }
+
     return {
       invoiceNumber,
       invoiceDate,
@@ -220,6 +297,8 @@ export class InvoiceService {
         phone: '', // Stadium model doesn't have a phone field
         ownerId: (stadium.ownerId as mongoose.Types.ObjectId).toString(),
         ownerName, // This can be undefined, which is allowed by the interface
+        businessName,
+        taxId,
         accountNumber: stadium.accountNumber,
         accountNumberImage: stadium.accountNumberImage,
         // Add new bank account fields
@@ -231,9 +310,12 @@ export class InvoiceService {
       items,
       subtotal,
       taxes,
+      tax,
       totalAmount,
       currency: booking.pricing.currency || 'LAK',
       paymentStatus: booking.paymentStatus,
+      amountPaid,
+      amountRefunded,
       qrCodePayment, // Include QR code payment information
       notes: booking.notes || '',
       // Add QR code dimensions for proper 80mm layout
@@ -243,4 +325,75 @@ export class InvoiceService {
       }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Use the number and date the invoice was issued with instead of the booking-derived draft
+   */
+  static applyIssuedNumber(invoiceData: IInvoiceData, issued: { invoiceNumber?: string; issuedAt?: Date }): IInvoiceData {
+    if (!issued.invoiceNumber || !issued.issuedAt) {
+      return invoiceData;
+    }
+
+    const dueDate = new Date(issued.issuedAt);
+    dueDate.setDate(dueDate.getDate() + 7);
+
+    return {
+      ...invoiceData,
+      invoiceNumber: issued.invoiceNumber,
+      invoiceDate: issued.issuedAt,
+      dueDate
+    };
+  }
+
+  /**
+   * Turn a booking's invoice data into a credit note with the credited lines and totals
+   */
+  static buildCreditNoteData(
+    invoiceData: IInvoiceData,
+    creditNote: Pick<IInvoiceData, 'items' | 'subtotal' | 'taxes' | 'totalAmount'> & {
+      invoiceNumber?: string;
+      issuedAt?: Date;
+      originalInvoiceNumber?: string;
+      reason?: string;
+    }
+  ): IInvoiceData {
+    return {
+      ...invoiceData,
+      documentType: 'credit_note',
+      invoiceNumber: creditNote.invoiceNumber || '',
+      invoiceDate: creditNote.issuedAt || new Date(),
+      dueDate: creditNote.issuedAt || new Date(),
+      items: creditNote.items,
+      subtotal: creditNote.subtotal,
+      taxes: creditNote.taxes,
+      totalAmount: creditNote.totalAmount,
+      tax: invoiceData.tax
+        ? {
+            ...invoiceData.tax,
+            taxableAmount: invoiceData.tax.inclusive ? creditNote.subtotal - creditNote.taxes : creditNote.subtotal
+          }
+        : undefined,
+      amountPaid: undefined,
+      amountRefunded: undefined,
+      qrCodePayment: undefined,
+      creditNote: {
+        originalInvoiceNumber: creditNote.originalInvoiceNumber,
+        reason: creditNote.reason
+      }
+    };
+  }
+
+  /**
+   * Render the invoice's LAO QR payload into a base64 image
+   */
+  static async renderPaymentQR(invoiceData: IInvoiceData): Promise<IInvoiceData> {
+    const qrCodePayment = invoiceData.qrCodePayment;
+    if (qrCodePayment?.payload && !qrCodePayment.qrCodeData) {
+      qrCodePayment.qrCodeData = await QRCodeGenerator.generateQRCode(qrCodePayment.payload, {
+        width: invoiceData.qrCodeDimensions?.width || 192,
+        margin: 2
+      });
+    }
+    return invoiceData;
+  }
+}
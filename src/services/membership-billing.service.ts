@@ -0,0 +1,257 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import { IBillingCycle, IMembershipSeries, ISeriesBilling } from '../models/MembershipSeries';
+import { IMembershipPlan, IStadium } from '../models/Stadium';
+import { IPayment } from '../types/booking.types';
+import { DiscountInput } from './pricing-engine.service';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { InvoiceRegistryService } from './invoice-registry.service';
+
+// Billing days follow the stadiums' local calendar
+const BILLING_TIMEZONE = 'Asia/Vientiane';
+
+// How long before its due date a cycle's invoice is issued
+const INVOICE_LEAD_DAYS = 7;
+
+export interface CyclePayment {
+  amount: number;
+  paymentMethod: IPayment['paymentMethod'];
+  transactionId?: string;
+}
+
+type CycleGroup = Pick<IBillingCycle, 'periodStart' | 'periodEnd' | 'bookingIds'>;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const toDay = (date: Date): moment.Moment => moment.tz(date, BILLING_TIMEZONE).startOf('day');
+
+export class MembershipBillingService {
+  /**
+   * An active membership plan of the stadium
+   */
+  static resolvePlan(stadium: Pick<IStadium, 'membershipPlans'>, planId: string): IMembershipPlan {
+    const plan = (stadium.membershipPlans || []).find(p => String(p._id) === planId && p.isActive);
+    if (!plan) {
+      throw new Error('Membership plan not found');
+    }
+    return plan;
+  }
+
+  static toBilling(plan: IMembershipPlan): ISeriesBilling {
+    return {
+      planId: plan._id as mongoose.Types.ObjectId,
+      planName: plan.name,
+      billingCycle: plan.billingCycle,
+      occurrencesPerTerm: plan.occurrencesPerTerm,
+      upfrontDiscountPercent: plan.billingCycle === 'upfront' ? plan.upfrontDiscountPercent || 0 : 0,
+      dueDaysBefore: plan.dueDaysBefore,
+      reminderDays: [...(plan.reminderDays || [])].sort((a, b) => a - b),
+      suspendAfterDays: plan.suspendAfterDays
+    };
+  }
+
+  /**
+   * Discount taken off each occurrence of a series paid upfront
+   */
+  static getDiscounts(billing?: ISeriesBilling): DiscountInput[] {
+    return billing?.upfrontDiscountPercent
+      ? [{ type: 'percentage', value: billing.upfrontDiscountPercent, description: `Upfront payment discount (${billing.upfrontDiscountPercent}%)` }]
+      : [];
+  }
+
+  /**
+   * Occurrences billed together: per calendar month, per term of a number of occurrences,
+   * or all at once
+   */
+  static groupOccurrences(occurrences: { date: Date; bookingId: mongoose.Types.ObjectId }[], billing: ISeriesBilling): CycleGroup[] {
+    const sorted = [...occurrences].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const groups: { date: Date; bookingId: mongoose.Types.ObjectId }[][] = [];
+
+    for (const occurrence of sorted) {
+      const current = groups[groups.length - 1];
+      const startsNew = !current || (
+        billing.billingCycle === 'monthly'
+          ? !toDay(occurrence.date).isSame(toDay(current[0].date), 'month')
+          : billing.billingCycle === 'term' && current.length >= (billing.occurrencesPerTerm || 1)
+      );
+      if (startsNew) {
+        groups.push([occurrence]);
+      } else {
+        current.push(occurrence);
+      }
+    }
+
+    return groups.map(group => ({
+      periodStart: group[0].date,
+      periodEnd: group[group.length - 1].date,
+      bookingIds: group.map(occurrence => occurrence.bookingId)
+    }));
+  }
+
+  /**
+   * A cycle is due the plan's number of days before its first occurrence, but never before it was billed
+   */
+  static getDueDate(periodStart: Date, billing: ISeriesBilling, now: Date = new Date()): Date {
+    return moment.max(toDay(periodStart).subtract(billing.dueDaysBefore || 0, 'days'), toDay(now)).toDate();
+  }
+
+  /**
+   * Add cycles for the booked occurrences that are not billed yet and link their bookings to them
+   */
+  static async planCycles(series: IMembershipSeries, now: Date = new Date()): Promise<IBillingCycle[]> {
+    if (!series.billing) {
+      return [];
+    }
+
+    const billed = new Set(series.billingCycles.flatMap(cycle => cycle.bookingIds.map(String)));
+    const unbilled = series.occurrences
+      .filter(o => o.status === 'booked' && o.bookingId && !billed.has(String(o.bookingId)))
+      .map(o => ({ date: o.date, bookingId: o.bookingId as mongoose.Types.ObjectId }));
+    if (unbilled.length === 0) {
+      return [];
+    }
+
+    const bookings = await Booking.find({ _id: { $in: unbilled.map(o => o.bookingId) } }).select('pricing');
+    const added: IBillingCycle[] = [];
+    for (const group of this.groupOccurrences(unbilled, series.billing)) {
+      const cycleBookings = bookings.filter(booking => group.bookingIds.some(id => String(id) === String(booking._id)));
+      const cycle: IBillingCycle = {
+        _id: new mongoose.Types.ObjectId(),
+        sequence: series.billingCycles.length + 1,
+        ...group,
+        amount: round(cycleBookings.reduce((sum, booking) => sum + booking.pricing.totalAmount, 0)),
+        paidAmount: 0,
+        currency: cycleBookings[0]?.pricing.currency || 'LAK',
+        dueDate: this.getDueDate(group.periodStart, series.billing, now),
+        status: 'scheduled',
+        remindersSent: 0
+      };
+      series.billingCycles.push(cycle);
+      added.push(cycle);
+
+      await Booking.updateMany(
+        { _id: { $in: group.bookingIds } },
+        { $set: { 'membershipDetails.billingCycleId': cycle._id } }
+      );
+    }
+
+    return added;
+  }
+
+  /**
+   * Whether a scheduled cycle is close enough to its due date to be invoiced
+   */
+  static isInvoiceDue(cycle: IBillingCycle, now: Date = new Date()): boolean {
+    return cycle.status === 'scheduled' && toDay(cycle.dueDate).subtract(INVOICE_LEAD_DAYS, 'days').isSameOrBefore(toDay(now));
+  }
+
+  /**
+   * Bookings of a cycle still to be paid for, earliest first
+   */
+  static async getCycleBookings(cycle: IBillingCycle): Promise<IBooking[]> {
+    return Booking.find({ _id: { $in: cycle.bookingIds }, status: { $ne: 'cancelled' } }).sort({ bookingDate: 1 });
+  }
+
+  /**
+   * Issue the cycle's invoice over the occurrences that are still booked
+   */
+  static async issueInvoice(series: IMembershipSeries, cycle: IBillingCycle, ownerId: string, now: Date = new Date()): Promise<void> {
+    const bookings = await this.getCycleBookings(cycle);
+    if (bookings.length === 0) {
+      cycle.status = 'void';
+      return;
+    }
+
+    const invoice = await InvoiceRegistryService.issueCycleInvoice(series, cycle, bookings, ownerId);
+    cycle.invoiceId = invoice._id as mongoose.Types.ObjectId;
+    cycle.invoiceNumber = invoice.invoiceNumber;
+    cycle.status = 'invoiced';
+    this.refreshCycle(cycle, bookings, now);
+  }
+
+  /**
+   * Bring an invoiced cycle's amounts and status in line with its bookings, which may have been
+   * paid one by one or released since
+   */
+  static refreshCycle(cycle: IBillingCycle, bookings: IBooking[], now: Date = new Date()): void {
+    if (cycle.status === 'scheduled' || cycle.status === 'void') {
+      return;
+    }
+    if (bookings.length === 0) {
+      cycle.status = 'void';
+      return;
+    }
+
+    const outstanding = round(bookings.reduce((sum, booking) => sum + PaymentGatewayService.getOutstandingAmount(booking), 0));
+    cycle.amount = round(bookings.reduce((sum, booking) => sum + booking.pricing.totalAmount, 0));
+    cycle.paidAmount = round(cycle.amount - outstanding);
+
+    if (outstanding <= 0) {
+      cycle.status = 'paid';
+      cycle.paidAt = cycle.paidAt || now;
+    } else {
+      cycle.status = toDay(cycle.dueDate).isBefore(toDay(now)) ? 'overdue' : 'invoiced';
+      cycle.paidAt = undefined;
+    }
+  }
+
+  static getDaysOverdue(cycle: IBillingCycle, now: Date = new Date()): number {
+    return cycle.status === 'overdue' ? toDay(now).diff(toDay(cycle.dueDate), 'days') : 0;
+  }
+
+  /**
+   * Whether the next of the plan's reminders is due for an overdue cycle
+   */
+  static isReminderDue(cycle: IBillingCycle, billing: ISeriesBilling, now: Date = new Date()): boolean {
+    const next = billing.reminderDays[cycle.remindersSent];
+    return cycle.status === 'overdue' && next !== undefined && this.getDaysOverdue(cycle, now) >= next;
+  }
+
+  static isSuspensionDue(cycle: IBillingCycle, billing: ISeriesBilling, now: Date = new Date()): boolean {
+    return cycle.status === 'overdue' && this.getDaysOverdue(cycle, now) >= billing.suspendAfterDays;
+  }
+
+  /**
+   * Record a payment for a cycle against its bookings, earliest first, so each occurrence
+   * shows as paid and refunds and payouts work as for any other booking
+   */
+  static async applyPayment(cycle: IBillingCycle, bookings: IBooking[], payment: CyclePayment, recordedBy: string): Promise<number> {
+    const outstanding = round(bookings.reduce((sum, booking) => sum + PaymentGatewayService.getOutstandingAmount(booking), 0));
+    if (payment.amount > outstanding) {
+      throw new Error(`Payment exceeds the ${outstanding} ${cycle.currency} due on this billing cycle`);
+    }
+
+    let remaining = payment.amount;
+    for (const booking of bookings) {
+      const amount = round(Math.min(remaining, PaymentGatewayService.getOutstandingAmount(booking)));
+      if (amount <= 0) continue;
+
+      const previousStatus = booking.paymentStatus;
+      booking.payments = booking.payments || [];
+      booking.payments.push({
+        paymentMethod: payment.paymentMethod,
+        amount,
+        currency: cycle.currency,
+        status: 'completed',
+        transactionId: payment.transactionId,
+        processedAt: new Date(),
+        createdAt: new Date()
+      });
+      PaymentGatewayService.updateBookingPaymentStatus(booking);
+      booking.history.push({
+        action: 'updated',
+        changedBy: new mongoose.Types.ObjectId(recordedBy),
+        oldValues: { paymentStatus: previousStatus },
+        newValues: { paymentStatus: booking.paymentStatus },
+        notes: `Paid with membership billing cycle ${cycle.sequence}${cycle.invoiceNumber ? ` (${cycle.invoiceNumber})` : ''}`
+      } as any);
+      await booking.save();
+
+      remaining = round(remaining - amount);
+      if (remaining <= 0) break;
+    }
+
+    return round(payment.amount - remaining);
+  }
+}
@@ -1,9 +1,21 @@
 import { IBooking } from '../models/Booking';
 import Booking from '../models/Booking';
-import Stadium from '../models/Stadium';
+import Stadium, { IField, IStadium } from '../models/Stadium';
+import MembershipSeries, { IBillingCycle, IMembershipSeries, ISeriesBilling, ISeriesOccurrence, RecurrencePattern } from '../models/MembershipSeries';
+import Invoice, { IInvoice } from '../models/Invoice';
 import mongoose from 'mongoose';
 import moment from 'moment';
 import AvailabilityService from '../utils/availability';
+import { CancellationContext, CancellationPolicyService } from './cancellation-policy.service';
+import { RefundService } from './refund.service';
+import { PricingEngine, TaxInput } from './pricing-engine.service';
+import { TaxService } from './tax.service';
+import { InvoiceRegistryService } from './invoice-registry.service';
+import { SLOT_UNAVAILABLE } from './slot-hold.service';
+import { BookingRulesService } from './booking-rules.service';
+import { HolidayService } from './holiday.service';
+import { CyclePayment, MembershipBillingService } from './membership-billing.service';
+import NotificationService from './notificationService';
 
 export interface MembershipBookingParams {
   stadiumId: string;
@@ -14,178 +26,980 @@ export interface MembershipBookingParams {
   startTime: string;
   endTime: string;
   userId: string;
-  recurrencePattern: 'weekly' | 'biweekly' | 'monthly';
+  recurrencePattern: RecurrencePattern;
   totalOccurrences?: number;
+  planId?: string; // Stadium membership plan the series is billed with; occurrences are paid one by one without
   teamInfo?: any;
   specialRequests?: string[];
 }
 
+export interface OccurrencePreview {
+  date: string;
+  status: 'available' | 'conflict' | 'closed';
+  reason?: string;
+  price?: number;
+  alternatives?: Awaited<ReturnType<typeof AvailabilityService.findAlternatives>>;
+}
+
+export interface SeriesPreview {
+  occurrences: OccurrencePreview[];
+  summary: {
+    total: number;
+    available: number;
+    conflicts: number;
+    closed: number;
+    totalAmount: number;
+    currency: string;
+  };
+}
+
+export interface SeriesResult {
+  series: IMembershipSeries;
+  bookings: IBooking[];
+  conflicts: ISeriesOccurrence[]; // Occurrences that could not be booked, with the reason
+}
+
+export interface SeriesChangeResult {
+  series: IMembershipSeries;
+  changed: number;
+  kept: ISeriesOccurrence[]; // Occurrences inside the cancellation notice window, left as they were
+  conflicts: OccurrencePreview[];
+}
+
+export interface BillingRunResult {
+  invoiced: number;
+  reminded: number;
+  suspended: number;
+  reinstated: number;
+}
+
+type OccurrenceCheck = { status: OccurrencePreview['status']; reason?: string; holiday?: string };
+
+// Occurrences planned when a series has neither an end date nor a number of occurrences
+const DEFAULT_OCCURRENCES = 52;
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const toDay = (date: Date | string): moment.Moment =>
+  typeof date === 'string' ? moment(date.split('T')[0], DATE_FORMAT) : moment(date).startOf('day');
+
 export class MembershipService {
+  /**
+   * Dates of a series: the first given weekday on or after the start date, then one per
+   * recurrence until the end date or the number of occurrences
+   */
+  static planDates(
+    startDate: Date | string,
+    dayOfWeek: number,
+    recurrencePattern: RecurrencePattern,
+    limits: { endDate?: Date | string; count?: number } = {}
+  ): string[] {
+    const date = toDay(startDate);
+    while (date.day() !== dayOfWeek) {
+      date.add(1, 'day');
+    }
+
+    const end = limits.endDate ? toDay(limits.endDate) : null;
+    const count = limits.count || DEFAULT_OCCURRENCES;
+    const dates: string[] = [];
+    for (let next = date; dates.length < count && (!end || next.isSameOrBefore(end, 'day')); next = this.getNextDate(next, recurrencePattern)) {
+      dates.push(next.format(DATE_FORMAT));
+    }
+    return dates;
+  }
+
+  /**
+   * What creating a series would book, without booking anything: each date is available,
+   * taken (with alternatives to offer) or closed for a holiday, blackout or closure
+   */
+  static async previewSeries(params: MembershipBookingParams): Promise<SeriesPreview> {
+    const { stadium, field } = await this.loadField(params.stadiumId, params.fieldId);
+    const dates = this.planDates(params.startDate, params.dayOfWeek, params.recurrencePattern, {
+      endDate: params.endDate,
+      count: params.totalOccurrences
+    });
+    if (dates.length > 0) {
+      BookingRulesService.validate(field, dates[0], params.startTime, params.endTime);
+    }
+
+    const billing = params.planId ? MembershipBillingService.toBilling(MembershipBillingService.resolvePlan(stadium, params.planId)) : undefined;
+    const { tax } = await TaxService.getTaxForStadium(stadium);
+    const holdOwner = { userId: params.userId };
+    const occurrences: OccurrencePreview[] = [];
+    for (const date of dates) {
+      const check = await this.checkOccurrence(stadium, params.fieldId, date, params.startTime, params.endTime);
+      occurrences.push({
+        date,
+        status: check.status,
+        ...(check.reason ? { reason: check.reason } : {}),
+        ...(check.status === 'available'
+          ? { price: this.price(field, date, params.startTime, params.endTime, tax, check.holiday, billing).totalAmount }
+          : {}),
+        ...(check.status === 'conflict'
+          ? { alternatives: await AvailabilityService.findAlternatives(stadium, params.fieldId, date, params.startTime, params.endTime, holdOwner) }
+          : {})
+      });
+    }
+
+    const count = (status: OccurrencePreview['status']) => occurrences.filter(o => o.status === status).length;
+    return {
+      occurrences,
+      summary: {
+        total: occurrences.length,
+        available: count('available'),
+        conflicts: count('conflict'),
+        closed: count('closed'),
+        totalAmount: occurrences.reduce((sum, o) => sum + (o.price || 0), 0),
+        currency: field.pricing.currency || 'LAK'
+      }
+    };
+  }
+
+  /**
+   * Create a membership series and book every date that is free. Taken and closed dates
+   * are kept on the series with the reason, so nothing is skipped silently.
+   */
+  static async createSeries(params: MembershipBookingParams): Promise<SeriesResult> {
+    const { stadium, field } = await this.loadField(params.stadiumId, params.fieldId);
+    const dates = this.planDates(params.startDate, params.dayOfWeek, params.recurrencePattern, {
+      endDate: params.endDate,
+      count: params.totalOccurrences
+    });
+    if (dates.length === 0) {
+      throw new Error('Membership series has no dates between its start and end date');
+    }
+
+    // The field's booking rules are checked on the first occurrence; the rest of the
+    // series repeats the same times, so advance limits do not cut it short
+    BookingRulesService.validate(field, dates[0], params.startTime, params.endTime);
+    const plan = params.planId ? MembershipBillingService.resolvePlan(stadium, params.planId) : undefined;
+
+    const series = new MembershipSeries({
+      userId: new mongoose.Types.ObjectId(params.userId),
+      stadiumId: new mongoose.Types.ObjectId(params.stadiumId),
+      fieldId: new mongoose.Types.ObjectId(params.fieldId),
+      dayOfWeek: params.dayOfWeek,
+      startTime: params.startTime,
+      endTime: params.endTime,
+      recurrencePattern: params.recurrencePattern,
+      startDate: params.startDate,
+      endDate: params.endDate,
+      totalOccurrences: params.totalOccurrences,
+      teamInfo: params.teamInfo,
+      specialRequests: params.specialRequests || [],
+      occurrences: [],
+      billing: plan ? MembershipBillingService.toBilling(plan) : undefined,
+      billingCycles: [],
+      history: [{ action: 'created', changedBy: new mongoose.Types.ObjectId(params.userId) }]
+    });
+    await series.save();
+
+    const bookings = await this.bookOccurrences(series, stadium, field, dates, params.userId);
+    await this.billOccurrences(series, stadium, bookings);
+    await series.save();
+
+    return { series, bookings, conflicts: series.occurrences.filter(o => o.status !== 'booked') };
+  }
+
   /**
    * Create a series of recurring membership bookings
    */
   static async createMembershipBookings(params: MembershipBookingParams): Promise<IBooking[]> {
-    const {
-      stadiumId,
-      fieldId,
-      startDate,
-      endDate,
-      dayOfWeek,
-      startTime,
-      endTime,
-      userId,
-      recurrencePattern,
-      totalOccurrences
-    } = params;
+    return (await this.createSeries(params)).bookings;
+  }
+
+  static async getSeries(seriesId: string, userId: string, userRole?: string): Promise<IMembershipSeries> {
+    return this.findManageable(seriesId, userId, userRole);
+  }
+
+  static async getUserSeries(userId: string): Promise<IMembershipSeries[]> {
+    return MembershipSeries.find({ userId: new mongoose.Types.ObjectId(userId) }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Release every upcoming occurrence until the series is resumed
+   */
+  static async pauseSeries(seriesId: string, userId: string, userRole?: string): Promise<SeriesChangeResult> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    if (series.status !== 'active') {
+      throw new Error(`Membership series is ${series.status}`);
+    }
 
+    const stadium = await Stadium.findById(series.stadiumId);
+    const { changed, kept } = await this.releaseOccurrences(series, this.getUpcoming(series, ['booked']), 'paused', 'Membership series paused', userId, stadium, userRole);
+
+    series.status = 'paused';
+    series.pausedAt = new Date();
+    series.history.push({ action: 'paused', changedBy: new mongoose.Types.ObjectId(userId), timestamp: new Date() });
+    await series.save();
+
+    return { series, changed, kept, conflicts: [] };
+  }
+
+  /**
+   * Book the upcoming paused occurrences again; those taken in the meantime are reported
+   */
+  static async resumeSeries(seriesId: string, userId: string, userRole?: string): Promise<SeriesResult> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    if (series.status !== 'paused') {
+      throw new Error(`Membership series is ${series.status}`);
+    }
+
+    const { bookings, conflicts } = await this.restoreOccurrences(series, 'paused', userId);
+
+    series.status = 'active';
+    series.pausedAt = undefined;
+    series.history.push({ action: 'resumed', changedBy: new mongoose.Types.ObjectId(userId), timestamp: new Date() });
+    await series.save();
+
+    return { series, bookings, conflicts };
+  }
+
+  /**
+   * Book the upcoming occurrences released by a pause or a suspension again
+   */
+  private static async restoreOccurrences(
+    series: IMembershipSeries,
+    status: ISeriesOccurrence['status'],
+    userId: string
+  ): Promise<{ bookings: IBooking[]; conflicts: ISeriesOccurrence[] }> {
+    const { stadium, field } = await this.loadField(String(series.stadiumId), String(series.fieldId));
+    const { tax } = await TaxService.getTaxForStadium(stadium);
     const bookings: IBooking[] = [];
-    let currentDate = new Date(startDate);
-    let occurrenceCount = 0;
-    const maxOccurrences = totalOccurrences || 52; // Default to 52 weeks if not specified
-
-    // Adjust the start date to the specified day of the week
-    while (currentDate.getDay() !== dayOfWeek) {
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-
-    // Continue creating bookings until we reach the end date or max occurrences
-    while (
-      (endDate ? currentDate <= new Date(endDate) : true) && 
-      occurrenceCount < maxOccurrences
-    ) {
-      // Check field availability for this date
-      const isAvailable = await this.checkFieldAvailability(
-        fieldId,
-        currentDate,
-        startTime,
-        endTime
-      );
-
-      if (isAvailable) {
-        // Create the booking
-        const booking = new Booking({
-          userId: new mongoose.Types.ObjectId(userId),
-          stadiumId: new mongoose.Types.ObjectId(stadiumId),
-          fieldId: new mongoose.Types.ObjectId(fieldId),
-          bookingDate: new Date(currentDate),
-          startTime,
-          endTime,
-          durationHours: this.calculateDuration(startTime, endTime),
-          pricing: await this.calculatePricing(stadiumId, fieldId, startTime, endTime),
-          status: 'confirmed',
-          paymentStatus: 'pending',
-          bookingType: 'membership',
-          teamInfo: params.teamInfo,
-          specialRequests: params.specialRequests || [],
-          membershipDetails: {
-            membershipStartDate: startDate,
-            membershipEndDate: endDate,
-            recurrencePattern,
-            recurrenceDayOfWeek: dayOfWeek,
-            nextBookingDate: this.getNextDate(currentDate, recurrencePattern),
-            totalOccurrences: totalOccurrences,
-            completedOccurrences: occurrenceCount + 1,
-            isActive: true
-          },
-          history: [{
-            action: 'created',
-            changedBy: new mongoose.Types.ObjectId(userId),
-            notes: 'Membership booking created'
-          }]
-        });
+    const restored = this.getUpcoming(series, [status]);
+
+    for (const occurrence of restored) {
+      const date = toDay(occurrence.date).format(DATE_FORMAT);
+      const check = await this.checkOccurrence(stadium, String(series.fieldId), date, series.startTime, series.endTime, occurrence.bookingId);
+      if (check.status !== 'available') {
+        occurrence.status = check.status;
+        occurrence.reason = check.reason;
+        continue;
+      }
 
+      const booking = occurrence.bookingId ? await Booking.findById(occurrence.bookingId) : null;
+      if (booking) {
+        this.detachFromInvoicedCycle(series, booking);
+      }
+      const saved = booking
+        ? await this.reactivateBooking(booking, series, field, date, tax, check.holiday, userId)
+        : await this.createOccurrenceBooking(series, field, date, tax, check.holiday, series.occurrences.indexOf(occurrence) + 1);
+      if (saved) {
+        bookings.push(saved);
+        occurrence.status = 'booked';
+        occurrence.bookingId = saved._id as mongoose.Types.ObjectId;
+        occurrence.reason = undefined;
+      } else {
+        occurrence.status = 'conflict';
+        occurrence.reason = 'Time slot is already booked';
+      }
+    }
+
+    // Occurrences not covered by a cycle still to be invoiced are billed like new ones
+    await this.billOccurrences(series, stadium, bookings);
+    return { bookings, conflicts: restored.filter(o => o.status !== 'booked') };
+  }
+
+  /**
+   * Leave out a single upcoming occurrence, subject to the cancellation policy
+   */
+  static async skipOccurrence(seriesId: string, occurrenceId: string, userId: string, userRole?: string): Promise<IMembershipSeries> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    const occurrence = series.occurrences.find(o => String(o._id) === occurrenceId);
+    if (!occurrence) {
+      throw new Error('Occurrence not found');
+    }
+    if (occurrence.status !== 'booked' || !this.getUpcoming(series, ['booked']).includes(occurrence)) {
+      throw new Error('Only upcoming booked occurrences can be skipped');
+    }
+
+    const stadium = await Stadium.findById(series.stadiumId);
+    const { kept } = await this.releaseOccurrences(series, [occurrence], 'skipped', 'Occurrence skipped', userId, stadium, userRole);
+    if (kept.length > 0) {
+      throw new Error('Occurrence is inside the cancellation notice window and can no longer be skipped');
+    }
+
+    series.history.push({
+      action: 'skipped',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: toDay(occurrence.date).format(DATE_FORMAT),
+      timestamp: new Date()
+    });
+    await series.save();
+    return series;
+  }
+
+  /**
+   * Add occurrences after the last one, up to a new end date or a number of occurrences.
+   * Renewing a series that has run out works the same way.
+   */
+  static async extendSeries(
+    seriesId: string,
+    extension: { endDate?: Date; additionalOccurrences?: number },
+    userId: string,
+    userRole?: string
+  ): Promise<SeriesResult> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    if (series.status !== 'active') {
+      throw new Error(`Membership series is ${series.status}`);
+    }
+
+    const last = series.occurrences.reduce<Date>((latest, o) => (o.date > latest ? o.date : latest), series.startDate);
+    const today = moment().startOf('day');
+    const next = moment.max(this.getNextDate(toDay(last), series.recurrencePattern), today);
+    const dates = this.planDates(next.toDate(), series.dayOfWeek, series.recurrencePattern, {
+      endDate: extension.endDate,
+      count: extension.additionalOccurrences
+    });
+    if (dates.length === 0) {
+      throw new Error('Membership series has no dates between its start and end date');
+    }
+
+    const { stadium, field } = await this.loadField(String(series.stadiumId), String(series.fieldId));
+    BookingRulesService.validate(field, dates[0], series.startTime, series.endTime);
+
+    const before = series.occurrences.length;
+    const bookings = await this.bookOccurrences(series, stadium, field, dates, userId);
+    await this.billOccurrences(series, stadium, bookings);
+    series.endDate = extension.endDate || (series.endDate ? toDay(dates[dates.length - 1]).toDate() : undefined);
+    if (series.totalOccurrences) {
+      series.totalOccurrences = series.occurrences.length;
+    }
+    series.history.push({
+      action: 'extended',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: `${dates.length} occurrences added`,
+      timestamp: new Date()
+    });
+    await series.save();
+
+    return { series, bookings, conflicts: series.occurrences.slice(before).filter(o => o.status !== 'booked') };
+  }
+
+  /**
+   * Move the upcoming occurrences to a new time. Nothing moves when any of them would
+   * conflict; occurrences inside the cancellation notice window keep their time.
+   */
+  static async changeSeriesTime(
+    seriesId: string,
+    times: { startTime: string; endTime: string },
+    userId: string,
+    userRole?: string
+  ): Promise<SeriesChangeResult> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    if (series.status === 'cancelled') {
+      throw new Error('Membership series is cancelled');
+    }
+
+    const { stadium, field } = await this.loadField(String(series.stadiumId), String(series.fieldId));
+    const upcoming = this.getUpcoming(series, ['booked']);
+    const bookings = await Booking.find({ _id: { $in: upcoming.map(o => o.bookingId) }, status: { $in: ACTIVE_STATUSES } });
+    if (upcoming.length > 0) {
+      BookingRulesService.validate(field, upcoming[0].date, times.startTime, times.endTime);
+    }
+
+    const movable: { occurrence: ISeriesOccurrence; booking: IBooking; holiday?: string }[] = [];
+    const kept: ISeriesOccurrence[] = [];
+    const conflicts: OccurrencePreview[] = [];
+    for (const occurrence of upcoming) {
+      const booking = bookings.find(b => String(b._id) === String(occurrence.bookingId));
+      if (!booking) continue;
+
+      if (!(await CancellationPolicyService.getQuote(booking, this.getPolicyContext(stadium, userId, userRole), stadium)).allowed) {
+        kept.push(occurrence);
+        continue;
+      }
+
+      const date = toDay(occurrence.date).format(DATE_FORMAT);
+      const check = await this.checkOccurrence(stadium, String(series.fieldId), date, times.startTime, times.endTime, booking._id as mongoose.Types.ObjectId);
+      if (check.status === 'available') {
+        movable.push({ occurrence, booking, holiday: check.holiday });
+      } else {
+        conflicts.push({ date, status: check.status, reason: check.reason });
+      }
+    }
+
+    if (conflicts.length > 0) {
+      return { series, changed: 0, kept, conflicts };
+    }
+
+    const { tax } = await TaxService.getTaxForStadium(stadium);
+    let changed = 0;
+    for (const { occurrence, booking, holiday } of movable) {
+      const oldValues = { startTime: booking.startTime, endTime: booking.endTime };
+      booking.startTime = times.startTime;
+      booking.endTime = times.endTime;
+      booking.durationHours = this.calculateDuration(times.startTime, times.endTime);
+      booking.pricing = this.price(field, toDay(occurrence.date).format(DATE_FORMAT), times.startTime, times.endTime, tax, holiday, series.billing);
+      booking.history.push({
+        action: 'updated',
+        changedBy: new mongoose.Types.ObjectId(userId),
+        oldValues,
+        newValues: { startTime: times.startTime, endTime: times.endTime },
+        notes: 'Membership series time changed'
+      } as any);
+
+      try {
         await booking.save();
-        bookings.push(booking);
-        occurrenceCount++;
+        changed++;
+      } catch (error: any) {
+        // Taken since the check; this occurrence keeps its time
+        if (error.message !== SLOT_UNAVAILABLE) {
+          throw error;
+        }
+        conflicts.push({ date: toDay(occurrence.date).format(DATE_FORMAT), status: 'conflict', reason: 'Time slot is already booked' });
       }
+    }
 
-      // Move to the next date based on recurrence pattern
-      currentDate = this.getNextDate(currentDate, recurrencePattern);
+    series.history.push({
+      action: 'rescheduled',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: `${series.startTime}-${series.endTime} to ${times.startTime}-${times.endTime}`,
+      timestamp: new Date()
+    });
+    series.startTime = times.startTime;
+    series.endTime = times.endTime;
+    await series.save();
+
+    return { series, changed, kept, conflicts };
+  }
+
+  /**
+   * Cancel the upcoming occurrences of a series, applying the cancellation policy to each
+   */
+  static async cancelSeries(seriesId: string, userId: string, userRole?: string): Promise<SeriesChangeResult> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    if (series.status === 'cancelled') {
+      throw new Error('Membership series is cancelled');
     }
 
-    return bookings;
+    const stadium = await Stadium.findById(series.stadiumId);
+    const { changed, kept } = await this.releaseOccurrences(series, this.getUpcoming(series, ['booked']), 'cancelled', 'Membership series cancelled', userId, stadium, userRole);
+    this.getUpcoming(series, ['paused', 'suspended', 'conflict', 'closed']).forEach(occurrence => {
+      occurrence.status = 'cancelled';
+    });
+
+    series.status = 'cancelled';
+    series.history.push({ action: 'cancelled', changedBy: new mongoose.Types.ObjectId(userId), timestamp: new Date() });
+    await series.save();
+
+    return { series, changed, kept, conflicts: [] };
+  }
+
+  /**
+   * Record a payment the stadium received for a billing cycle, reinstating the series once
+   * nothing is overdue any more
+   */
+  static async recordCyclePayment(
+    seriesId: string,
+    cycleId: string,
+    payment: CyclePayment,
+    userId: string,
+    userRole?: string
+  ): Promise<{ series: IMembershipSeries; cycle: IBillingCycle; reinstated?: SeriesResult }> {
+    const { series, stadium } = await this.findBilled(seriesId, userId, userRole);
+    const cycle = series.billingCycles.find(c => String(c._id) === cycleId);
+    if (!cycle) {
+      throw new Error('Billing cycle not found');
+    }
+    if (cycle.status === 'paid' || cycle.status === 'void') {
+      throw new Error(`Billing cycle is ${cycle.status}`);
+    }
+
+    // Paying ahead of the invoice date issues the invoice straight away
+    if (cycle.status === 'scheduled') {
+      await MembershipBillingService.issueInvoice(series, cycle, stadium.ownerId.toString());
+    }
+
+    const bookings = await MembershipBillingService.getCycleBookings(cycle);
+    const applied = await MembershipBillingService.applyPayment(cycle, bookings, payment, userId);
+    MembershipBillingService.refreshCycle(cycle, bookings);
+    series.history.push({
+      action: 'payment_received',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: `Cycle ${cycle.sequence}: ${applied} ${cycle.currency}`,
+      timestamp: new Date()
+    });
+
+    const reinstated = await this.reinstateIfSettled(series, userId);
+    await series.save();
+
+    return { series, cycle, ...(reinstated ? { reinstated } : {}) };
+  }
+
+  /**
+   * The invoice issued for a billing cycle
+   */
+  static async getCycleInvoice(seriesId: string, cycleId: string, userId: string, userRole?: string): Promise<IInvoice> {
+    const series = await this.findManageable(seriesId, userId, userRole);
+    const cycle = series.billingCycles.find(c => String(c._id) === cycleId);
+    const invoice = cycle?.invoiceId ? await Invoice.findOne({ _id: cycle.invoiceId, status: 'issued' }) : null;
+    if (!invoice) {
+      throw new Error('Invoice not found');
+    }
+    return invoice;
+  }
+
+  /**
+   * Daily billing run: issue invoices coming due, send reminders for overdue cycles, suspend
+   * series overdue for too long and reinstate those paid since
+   */
+  static async runBilling(now: Date = new Date()): Promise<BillingRunResult> {
+    const result: BillingRunResult = { invoiced: 0, reminded: 0, suspended: 0, reinstated: 0 };
+    const candidates = await MembershipSeries.find({
+      billing: { $exists: true },
+      'billingCycles.status': { $in: ['scheduled', 'invoiced', 'overdue'] }
+    });
+
+    for (const series of candidates) {
+      try {
+        const billing = series.billing as ISeriesBilling;
+        const stadium = await Stadium.findById(series.stadiumId).select('ownerId name');
+        if (!stadium) continue;
+
+        for (const cycle of series.billingCycles) {
+          if (MembershipBillingService.isInvoiceDue(cycle, now)) {
+            await MembershipBillingService.issueInvoice(series, cycle, stadium.ownerId.toString(), now);
+            if (cycle.status !== 'void') result.invoiced++;
+          } else if (cycle.status === 'invoiced' || cycle.status === 'overdue') {
+            MembershipBillingService.refreshCycle(cycle, await MembershipBillingService.getCycleBookings(cycle), now);
+          }
+
+          if (MembershipBillingService.isSuspensionDue(cycle, billing, now) && series.status === 'active') {
+            await this.suspendForNonPayment(series, cycle, now);
+            await NotificationService.sendMembershipPaymentReminder(series, cycle, stadium.name, true);
+            result.suspended++;
+          } else if (MembershipBillingService.isReminderDue(cycle, billing, now)) {
+            await NotificationService.sendMembershipPaymentReminder(series, cycle, stadium.name, false);
+            cycle.remindersSent++;
+            cycle.lastReminderAt = now;
+            result.reminded++;
+          }
+        }
+
+        if (await this.reinstateIfSettled(series, String(series.userId))) {
+          result.reinstated++;
+        }
+        series.markModified('billingCycles');
+        await series.save();
+      } catch (error) {
+        console.error(`Failed to run billing for membership series ${series._id}:`, error);
+      }
+    }
+
+    return result;
   }
 
   /**
-   * Check if a field is available for booking on a specific date and time
+   * Add billing cycles for newly booked occurrences and issue the invoices already coming due
    */
-  private static async checkFieldAvailability(
+  private static async billOccurrences(series: IMembershipSeries, stadium: IStadium, bookings: IBooking[]): Promise<void> {
+    const cycles = await MembershipBillingService.planCycles(series);
+    for (const cycle of cycles) {
+      bookings
+        .filter(booking => cycle.bookingIds.some(id => String(id) === String(booking._id)) && booking.membershipDetails)
+        .forEach(booking => {
+          booking.membershipDetails!.billingCycleId = cycle._id;
+        });
+
+      if (MembershipBillingService.isInvoiceDue(cycle)) {
+        await MembershipBillingService.issueInvoice(series, cycle, stadium.ownerId.toString());
+      }
+    }
+  }
+
+  /**
+   * A booking released after its cycle was invoiced is billed again in a new cycle when it is booked again
+   */
+  private static detachFromInvoicedCycle(series: IMembershipSeries, booking: IBooking): void {
+    const cycle = series.billingCycles.find(c => String(c._id) === String(booking.membershipDetails?.billingCycleId));
+    if (!cycle || cycle.status === 'scheduled') {
+      return;
+    }
+
+    cycle.bookingIds = cycle.bookingIds.filter(id => String(id) !== String(booking._id));
+    booking.membershipDetails!.billingCycleId = undefined;
+  }
+
+  /**
+   * Release the unpaid upcoming occurrences beyond the overdue cycles while they are overdue.
+   * The overdue cycles' own occurrences stay booked and owed.
+   */
+  private static async suspendForNonPayment(series: IMembershipSeries, cycle: IBillingCycle, now: Date): Promise<void> {
+    const overdue = new Set(series.billingCycles.filter(c => c.status === 'overdue').flatMap(c => c.bookingIds.map(String)));
+    const upcoming = this.getUpcoming(series, ['booked']).filter(o => !overdue.has(String(o.bookingId)));
+    const paid = await Booking.find({ _id: { $in: upcoming.map(o => o.bookingId) }, paymentStatus: 'paid' }).select('_id');
+    const unpaid = upcoming.filter(o => !paid.some(booking => String(booking._id) === String(o.bookingId)));
+
+    const stadium = await Stadium.findById(series.stadiumId);
+    const reason = `Membership payment overdue (billing cycle ${cycle.sequence})`;
+    await this.releaseOccurrences(series, unpaid, 'suspended', reason, String(series.userId), stadium);
+
+    series.status = 'suspended';
+    series.suspendedAt = now;
+    series.history.push({ action: 'suspended', changedBy: series.userId, notes: reason, timestamp: now });
+  }
+
+  /**
+   * Book a suspended series' released occurrences again once no cycle is overdue
+   */
+  private static async reinstateIfSettled(series: IMembershipSeries, userId: string): Promise<SeriesResult | null> {
+    if (series.status !== 'suspended' || series.billingCycles.some(cycle => cycle.status === 'overdue')) {
+      return null;
+    }
+
+    const { bookings, conflicts } = await this.restoreOccurrences(series, 'suspended', userId);
+    series.status = 'active';
+    series.suspendedAt = undefined;
+    series.history.push({ action: 'reinstated', changedBy: new mongoose.Types.ObjectId(userId), timestamp: new Date() });
+
+    return { series, bookings, conflicts };
+  }
+
+  /**
+   * Whether the field is open and free for an occurrence
+   */
+  private static async checkOccurrence(
+    stadium: IStadium,
     fieldId: string,
-    date: Date,
+    date: string,
     startTime: string,
-    endTime: string
-  ): Promise<boolean> {
-    // Use the existing availability service for consistency
-    return await AvailabilityService.checkFieldAvailability(
+    endTime: string,
+    excludeBookingId?: mongoose.Types.ObjectId
+  ): Promise<OccurrenceCheck> {
+    const calendarDay = await HolidayService.getCalendarDay(stadium, date, fieldId);
+    if (calendarDay.isClosed) {
+      return { status: 'closed', reason: calendarDay.reason };
+    }
+
+    const isAvailable = await AvailabilityService.checkFieldAvailability(
       fieldId,
-      date.toISOString().split('T')[0],
+      date,
       startTime,
-      endTime
+      endTime,
+      excludeBookingId ? String(excludeBookingId) : null
     );
+    return isAvailable
+      ? { status: 'available', holiday: calendarDay.holiday }
+      : { status: 'conflict', reason: 'Time slot is already booked' };
   }
 
   /**
-   * Calculate the duration in hours between start and end times
+   * Book the dates for a series, recording each as booked or with why it could not be
    */
-  private static calculateDuration(startTime: string, endTime: string): number {
-    const start = moment(startTime, 'HH:mm');
-    const end = moment(endTime, 'HH:mm');
-    return end.diff(start, 'hours', true);
+  private static async bookOccurrences(
+    series: IMembershipSeries,
+    stadium: IStadium,
+    field: IField,
+    dates: string[],
+    userId: string
+  ): Promise<IBooking[]> {
+    const { tax } = await TaxService.getTaxForStadium(stadium);
+    const bookings: IBooking[] = [];
+
+    for (const date of dates) {
+      const check = await this.checkOccurrence(stadium, String(series.fieldId), date, series.startTime, series.endTime);
+      if (check.status !== 'available') {
+        series.occurrences.push({ date: toDay(date).toDate(), status: check.status, reason: check.reason });
+        continue;
+      }
+
+      const booking = await this.createOccurrenceBooking(series, field, date, tax, check.holiday, series.occurrences.length + 1, userId);
+      series.occurrences.push(booking
+        ? { date: toDay(date).toDate(), status: 'booked', bookingId: booking._id as mongoose.Types.ObjectId }
+        // Taken since the availability check
+        : { date: toDay(date).toDate(), status: 'conflict', reason: 'Time slot is already booked' });
+      if (booking) {
+        bookings.push(booking);
+      }
+    }
+
+    return bookings;
   }
 
   /**
-   * Calculate pricing for a booking
+   * Save the booking of one occurrence; null when another booking took the slot first
    */
-  private static async calculatePricing(
-    stadiumId: string,
-    fieldId: string,
-    startTime: string,
-    endTime: string
-  ): Promise<any> {
-    // Fetch the stadium and field to get actual pricing information
+  private static async createOccurrenceBooking(
+    series: IMembershipSeries,
+    field: IField,
+    date: string,
+    tax: TaxInput | undefined,
+    holiday: string | undefined,
+    sequence: number,
+    userId: string = String(series.userId)
+  ): Promise<IBooking | null> {
+    const booking = new Booking({
+      userId: series.userId,
+      stadiumId: series.stadiumId,
+      fieldId: series.fieldId,
+      bookingDate: new Date(date),
+      startTime: series.startTime,
+      endTime: series.endTime,
+      durationHours: this.calculateDuration(series.startTime, series.endTime),
+      pricing: this.price(field, date, series.startTime, series.endTime, tax, holiday, series.billing),
+      status: 'confirmed',
+      paymentStatus: 'pending',
+      bookingType: 'membership',
+      teamInfo: series.teamInfo,
+      specialRequests: series.specialRequests || [],
+      membershipDetails: {
+        seriesId: series._id,
+        membershipStartDate: series.startDate,
+        membershipEndDate: series.endDate,
+        recurrencePattern: series.recurrencePattern,
+        recurrenceDayOfWeek: series.dayOfWeek,
+        totalOccurrences: series.totalOccurrences,
+        nextBookingDate: this.getNextDate(toDay(date), series.recurrencePattern).toDate(),
+        completedOccurrences: sequence,
+        isActive: true
+      },
+      history: [{
+        action: 'created',
+        changedBy: new mongoose.Types.ObjectId(userId),
+        notes: 'Membership booking created'
+      }]
+    });
+
+    try {
+      await booking.save();
+      return booking;
+    } catch (error: any) {
+      if (error.message !== SLOT_UNAVAILABLE) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Book a released occurrence again. Its booking document is reused because a booking
+   * for the same field and times already exists; anything paid was settled on release.
+   */
+  private static async reactivateBooking(
+    booking: IBooking,
+    series: IMembershipSeries,
+    field: IField,
+    date: string,
+    tax: TaxInput | undefined,
+    holiday: string | undefined,
+    userId: string
+  ): Promise<IBooking | null> {
+    booking.status = 'confirmed';
+    booking.paymentStatus = 'pending';
+    booking.cancellation = undefined;
+    booking.startTime = series.startTime;
+    booking.endTime = series.endTime;
+    booking.durationHours = this.calculateDuration(series.startTime, series.endTime);
+    booking.pricing = this.price(field, date, series.startTime, series.endTime, tax, holiday, series.billing);
+    if (booking.membershipDetails) {
+      booking.membershipDetails.isActive = true;
+    }
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      newValues: { status: 'confirmed' },
+      notes: 'Membership series resumed'
+    } as any);
+
+    try {
+      await booking.save();
+      return booking;
+    } catch (error: any) {
+      if (error.message !== SLOT_UNAVAILABLE) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Cancel the bookings of occurrences and mark them; those the cancellation policy no
+   * longer allows to cancel stay booked and are returned as kept
+   */
+  private static async releaseOccurrences(
+    series: IMembershipSeries,
+    occurrences: ISeriesOccurrence[],
+    status: ISeriesOccurrence['status'],
+    reason: string,
+    userId: string,
+    stadium: IStadium | null,
+    userRole?: string
+  ): Promise<{ changed: number; kept: ISeriesOccurrence[] }> {
+    const bookings = await Booking.find({ _id: { $in: occurrences.map(o => o.bookingId) } });
+    const kept: ISeriesOccurrence[] = [];
+    let changed = 0;
+
+    for (const occurrence of occurrences) {
+      const booking = bookings.find(b => String(b._id) === String(occurrence.bookingId));
+      if (booking && ACTIVE_STATUSES.includes(booking.status) && !(await this.cancelBooking(booking, userId, reason, stadium, userRole))) {
+        kept.push(occurrence);
+        continue;
+      }
+      occurrence.status = status;
+      occurrence.reason = reason;
+      changed++;
+    }
+
+    series.markModified('occurrences');
+    return { changed, kept };
+  }
+
+  /**
+   * Cancel one booking of a series with the policy's fee and refund; false when the policy
+   * no longer allows it, e.g. inside the notice window
+   */
+  private static async cancelBooking(booking: IBooking, userId: string, reason: string, stadium: IStadium | null, userRole?: string): Promise<boolean> {
+    const quote = await CancellationPolicyService.getQuote(booking, this.getPolicyContext(stadium, userId, userRole), stadium);
+    if (!quote.allowed) {
+      return false;
+    }
+
+    booking.status = 'cancelled';
+    if (booking.membershipDetails) {
+      booking.membershipDetails.isActive = false;
+    }
+    booking.cancellation = {
+      cancelledAt: new Date(),
+      cancelledBy: new mongoose.Types.ObjectId(userId),
+      reason,
+      refundAmount: quote.refundAmount,
+      cancellationFee: quote.feeAmount,
+      refundStatus: quote.refundAmount > 0 ? 'requested' : 'not_applicable'
+    };
+    if (quote.refundAmount > 0) {
+      RefundService.requestRefund(booking, {
+        amount: quote.refundAmount,
+        reason,
+        requestedBy: userId
+      });
+    }
+    booking.history.push({
+      action: 'cancelled',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: reason
+    } as any);
+
+    await booking.save();
+
+    await InvoiceRegistryService.issueCreditNote(booking, {
+      trigger: 'cancellation',
+      amount: booking.pricing.totalAmount - quote.feeAmount,
+      reason,
+      issuedBy: userId
+    });
+    return true;
+  }
+
+  /**
+   * Whom the cancellation policy treats the user as: the stadium's owner and superadmins are
+   * not held to the customer's notice window and fee
+   */
+  private static getPolicyContext(stadium: IStadium | null, userId: string, userRole?: string): CancellationContext {
+    const managesStadium = userRole === 'superadmin' || (userRole === 'stadium_owner' && !!stadium && stadium.ownerId.toString() === userId);
+    return managesStadium ? { userRole } : {};
+  }
+
+  /**
+   * Occurrences from today on in the given states
+   */
+  private static getUpcoming(series: IMembershipSeries, statuses: ISeriesOccurrence['status'][]): ISeriesOccurrence[] {
+    const today = moment().startOf('day');
+    return series.occurrences.filter(o => statuses.includes(o.status) && toDay(o.date).isSameOrAfter(today, 'day'));
+  }
+
+  /**
+   * The series if the user booked it, owns its stadium or is a superadmin
+   */
+  private static async findManageable(seriesId: string, userId: string, userRole?: string): Promise<IMembershipSeries> {
+    const series = mongoose.isValidObjectId(seriesId) ? await MembershipSeries.findById(seriesId) : null;
+    if (!series) {
+      throw new Error('Membership series not found');
+    }
+
+    if (series.userId.toString() !== userId && userRole !== 'superadmin') {
+      const stadium = await Stadium.findById(series.stadiumId).select('ownerId');
+      if (!stadium || stadium.ownerId.toString() !== userId) {
+        throw new Error('Not authorized to manage this membership series');
+      }
+    }
+
+    return series;
+  }
+
+  /**
+   * A series billed per cycle, if the user owns its stadium or is a superadmin; members pay the stadium
+   */
+  private static async findBilled(seriesId: string, userId: string, userRole?: string): Promise<{ series: IMembershipSeries; stadium: IStadium }> {
+    const series = mongoose.isValidObjectId(seriesId) ? await MembershipSeries.findById(seriesId) : null;
+    const stadium = series && await Stadium.findById(series.stadiumId);
+    if (!series || !stadium) {
+      throw new Error('Membership series not found');
+    }
+    if (userRole !== 'superadmin' && stadium.ownerId.toString() !== userId) {
+      throw new Error('Not authorized to record payments for this membership series');
+    }
+    if (!series.billing) {
+      throw new Error('Membership series is not billed per cycle');
+    }
+    return { series, stadium };
+  }
+
+  private static async loadField(stadiumId: string, fieldId: string): Promise<{ stadium: IStadium; field: IField }> {
     const stadium = await Stadium.findById(stadiumId);
     if (!stadium || !stadium.fields) {
       throw new Error('Stadium not found');
     }
 
-    // Find the field in the stadium's fields array
-    // Note: When fields are populated from MongoDB, they will have _id properties
-    // but TypeScript doesn't know this, so we need to cast appropriately
     const field = stadium.fields.find((f: any) => f._id && f._id.toString() === fieldId);
     if (!field) {
       throw new Error('Field not found');
     }
+    return { stadium, field };
+  }
 
-    const duration = this.calculateDuration(startTime, endTime);
-    const baseRate = field.pricing.baseHourlyRate || 0;
-    const totalAmount = baseRate * duration;
+  /**
+   * Each occurrence is priced for its own date so seasonal, special date and holiday rates apply
+   */
+  private static price(
+    field: IField,
+    date: string,
+    startTime: string,
+    endTime: string,
+    tax?: TaxInput,
+    holiday?: string,
+    billing?: ISeriesBilling
+  ) {
+    return PricingEngine.calculate({
+      field,
+      bookingDate: date,
+      startTime,
+      endTime,
+      tax,
+      holiday,
+      discounts: MembershipBillingService.getDiscounts(billing)
+    }).pricing;
+  }
 
-    return {
-      baseRate,
-      totalAmount,
-      currency: field.pricing.currency || 'LAK'
-    };
+  /**
+   * Calculate the duration in hours between start and end times
+   */
+  private static calculateDuration(startTime: string, endTime: string): number {
+    return PricingEngine.getDurationHours(startTime, endTime);
   }
 
   /**
    * Get the next date based on recurrence pattern
    */
-  private static getNextDate(date: Date, pattern: 'weekly' | 'biweekly' | 'monthly'): Date {
-    const nextDate = new Date(date);
-    
+  private static getNextDate(date: moment.Moment, pattern: RecurrencePattern): moment.Moment {
     switch (pattern) {
       case 'weekly':
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
+        return date.clone().add(7, 'days');
       case 'biweekly':
-        nextDate.setDate(nextDate.getDate() + 14);
-        break;
+        return date.clone().add(14, 'days');
       case 'monthly':
-        nextDate.setMonth(nextDate.getMonth() + 1);
-        break;
+        return date.clone().add(1, 'month');
     }
-    
-    return nextDate;
   }
 
   /**
@@ -199,12 +1013,11 @@ export class MembershipService {
   }
 
   /**
-   * Cancel a membership booking series
+   * Cancel the membership series a booking belongs to
    */
   static async cancelMembershipBookings(bookingId: string, userId: string): Promise<void> {
-    // Find the booking to get membership details
     const booking = await Booking.findById(bookingId);
-    
+
     if (!booking || booking.bookingType !== 'membership') {
       throw new Error('Membership booking not found');
     }
@@ -214,26 +1027,26 @@ export class MembershipService {
       throw new Error('Not authorized to cancel this membership');
     }
 
-    // Cancel all future bookings in the series
-    await Booking.updateMany(
-      {
-        'membershipDetails.membershipStartDate': booking.membershipDetails?.membershipStartDate,
-        bookingDate: { $gte: new Date() },
-        status: { $in: ['pending', 'confirmed'] }
-      },
-      {
-        $set: {
-          status: 'cancelled',
-          'membershipDetails.isActive': false
-        },
-        $push: {
-          history: {
-            action: 'cancelled',
-            changedBy: new mongoose.Types.ObjectId(userId),
-            notes: 'Membership series cancelled'
-          }
-        }
-      }
-    );
+    if (booking.membershipDetails?.seriesId) {
+      await this.cancelSeries(String(booking.membershipDetails.seriesId), userId);
+      return;
+    }
+
+    // Bookings made before series existed are matched on their own user, field and series start
+    const seriesBookings = await Booking.find({
+      userId: booking.userId,
+      stadiumId: booking.stadiumId,
+      fieldId: booking.fieldId,
+      bookingType: 'membership',
+      'membershipDetails.membershipStartDate': booking.membershipDetails?.membershipStartDate,
+      bookingDate: { $gte: new Date() },
+      status: { $in: ACTIVE_STATUSES }
+    });
+
+    const stadium = await Stadium.findById(booking.stadiumId);
+    for (const seriesBooking of seriesBookings) {
+      // Occurrences already inside the policy's notice window stay booked
+      await this.cancelBooking(seriesBooking, userId, 'Membership series cancelled', stadium);
+    }
   }
-}
\ No newline at end of file
+}
@@ -105,6 +105,126 @@ class NotificationService {
     }
   }
 
+  async sendPaymentSlipReviewed(booking: any, approved: boolean, amount: number, reason?: string): Promise<void> {
+    try {
+      const user = await User.findById(booking.userId);
+      const stadium = await Stadium.findById(booking.stadiumId);
+
+      if (!user || !stadium || !user.email) return;
+
+      const emailContent = approved
+        ? `
+        Dear ${user.firstName},
+
+        Your bank transfer of ${amount.toLocaleString()} ${booking.pricing.currency || 'LAK'} for booking ${booking.bookingNumber} at ${stadium.name} has been verified.
+
+        Thank you for your payment!
+      `
+        : `
+        Dear ${user.firstName},
+
+        We could not verify the payment slip you submitted for booking ${booking.bookingNumber} at ${stadium.name}.
+        ${reason ? `\n        Reason: ${reason}\n` : ''}
+        Please upload a new slip or contact the stadium.
+      `;
+
+      await this.emailTransporter.sendMail({
+        from: process.env.FROM_EMAIL || process.env.SMTP_USER,
+        to: user.email,
+        subject: `Payment ${approved ? 'Verified' : 'Not Verified'} - ${booking.bookingNumber}`,
+        text: emailContent
+      });
+    } catch (error) {
+      console.error('Failed to send payment slip review email:', error);
+    }
+  }
+
+  async sendBillSplitInvite(booking: any, participant: any, paymentLink: string): Promise<void> {
+    try {
+      const stadium = await Stadium.findById(booking.stadiumId);
+      const amount = `${participant.shareAmount.toLocaleString()} ${booking.pricing.currency || 'LAK'}`;
+      const smsContent = `You've been invited to share booking ${booking.bookingNumber}${stadium ? ` at ${stadium.name}` : ''} on ${moment(booking.bookingDate).format('YYYY-MM-DD')} ${booking.startTime}. Your share: ${amount}. Pay here: ${paymentLink}`;
+
+      const user = participant.userId ? await User.findById(participant.userId) : null;
+      if (!user?.email) return;
+
+      await this.emailTransporter.sendMail({
+        from: process.env.FROM_EMAIL || process.env.SMTP_USER,
+        to: user.email,
+        subject: `Your share of booking ${booking.bookingNumber}`,
+        text: `
+        Dear ${user.firstName},
+
+        ${smsContent}
+      `
+      });
+    } catch (error) {
+      console.error('Failed to send bill split invite:', error);
+    }
+  }
+
+  async sendMembershipPaymentReminder(series: any, cycle: any, stadiumName: string, suspended: boolean): Promise<void> {
+    try {
+      const user = await User.findById(series.userId);
+      if (!user || !user.email) return;
+
+      const outstanding = `${(cycle.amount - cycle.paidAmount).toLocaleString()} ${cycle.currency}`;
+      const emailContent = `
+        Dear ${user.firstName},
+
+        Payment for your membership at ${stadiumName} was due on ${moment(cycle.dueDate).format('YYYY-MM-DD')} and has not been received.
+
+        - Invoice: ${cycle.invoiceNumber || '-'}
+        - Period: ${moment(cycle.periodStart).format('YYYY-MM-DD')} to ${moment(cycle.periodEnd).format('YYYY-MM-DD')}
+        - Amount due: ${outstanding}
+
+        ${suspended
+          ? 'Your upcoming membership bookings have been released until the payment is received. They are booked again when you pay, as long as the slots are still free.'
+          : 'Please pay the stadium soon to keep your upcoming membership bookings.'}
+      `;
+
+      await this.emailTransporter.sendMail({
+        from: process.env.FROM_EMAIL || process.env.SMTP_USER,
+        to: user.email,
+        subject: `${suspended ? 'Membership Suspended' : 'Membership Payment Overdue'} - ${stadiumName}`,
+        text: emailContent
+      });
+    } catch (error) {
+      console.error('Failed to send membership payment reminder:', error);
+    }
+  }
+
+  async sendWaitlistOffer(entry: any, offer: any, stadiumName: string, fieldName: string | undefined, claimLink: string): Promise<void> {
+    try {
+      const user = await User.findById(entry.userId);
+      if (!user || !user.email) return;
+
+      const emailContent = `
+        Dear ${user.firstName},
+
+        A slot you were waiting for has become free and is held for you:
+
+        - Stadium: ${stadiumName}
+        - Field: ${fieldName || 'Field'}
+        - Date: ${moment.utc(entry.bookingDate).format('YYYY-MM-DD')}
+        - Time: ${entry.startTime} - ${entry.endTime}
+
+        Claim it before ${moment(offer.expiresAt).tz('Asia/Vientiane').format('YYYY-MM-DD HH:mm')}: ${claimLink}
+
+        After that the slot is offered to the next person on the waitlist.
+      `;
+
+      await this.emailTransporter.sendMail({
+        from: process.env.FROM_EMAIL || process.env.SMTP_USER,
+        to: user.email,
+        subject: `Slot available - ${stadiumName}`,
+        text: emailContent
+      });
+    } catch (error) {
+      console.error('Failed to send waitlist offer:', error);
+    }
+  }
+
   async sendInvoiceEmail(booking: any, invoiceData: any, recipientEmail: string): Promise<void> {
     try {
       const user = await User.findById(booking.userId);
@@ -160,6 +280,12 @@ Payment Status: ${invoiceData.paymentStatus.charAt(0).toUpperCase() + invoiceDat
 `;
       }
 
+      if (invoiceData.qrCodePayment?.qrCodeData) {
+        invoiceText += `
+Scan the attached LAO QR code with your banking app to pay.
+`;
+      }
+
       invoiceText += `
 Thank you for your booking!
 Please keep this invoice for your records.
@@ -169,7 +295,12 @@ Please keep this invoice for your records.
         from: process.env.FROM_EMAIL || process.env.SMTP_USER,
         to: recipientEmail,
         subject: `Invoice - ${invoiceData.invoiceNumber} for Booking ${invoiceData.booking.bookingNumber}`,
-        text: invoiceText
+        text: invoiceText,
+        attachments: invoiceData.qrCodePayment?.qrCodeData ? [{
+          filename: `${invoiceData.invoiceNumber}-qr.png`,
+          content: Buffer.from(invoiceData.qrCodePayment.qrCodeData, 'base64'),
+          contentType: 'image/png'
+        }] : undefined
       });
 
       console.log(`Invoice email sent to ${recipientEmail}`);
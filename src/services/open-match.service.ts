@@ -0,0 +1,349 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import Stadium from '../models/Stadium';
+import User from '../models/User';
+import { IBillSplitParticipant, IOpenMatch, IOpenMatchRequest } from '../types/booking.types';
+import { BillSplitService } from './bill-split.service';
+import { DepositService } from './deposit.service';
+
+export interface PublishParams {
+  type: IOpenMatch['type'];
+  playersNeeded?: number;
+  pricePerPlayer?: number;
+  description?: string;
+}
+
+export interface JoinRequestParams {
+  players?: number;
+  teamName?: string;
+  experience?: IOpenMatchRequest['experience'];
+  message?: string;
+}
+
+export interface OpenMatchSearchParams {
+  lat: number;
+  lng: number;
+  radius: number; // km
+  type?: IOpenMatch['type'];
+  skillLevel?: IOpenMatch['skillLevel'];
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+// Stadiums looked at around the searched location, nearest first
+const MAX_NEARBY_STADIUMS = 100;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class OpenMatchService {
+  /**
+   * Spots still free: players for players matches, a single team for opponent matches
+   */
+  static getSpotsLeft(openMatch: Pick<IOpenMatch, 'type' | 'playersNeeded' | 'requests'>): number {
+    const approved = openMatch.requests.filter(request => request.status === 'approved');
+    if (openMatch.type === 'opponent') {
+      return approved.length > 0 ? 0 : 1;
+    }
+    return Math.max(0, (openMatch.playersNeeded || 0) - approved.reduce((sum, request) => sum + request.players, 0));
+  }
+
+  /**
+   * Share of the booking a request pays once approved
+   */
+  static getShare(openMatch: Pick<IOpenMatch, 'type' | 'pricePerPlayer' | 'opponentShare'>, players: number): number {
+    return openMatch.type === 'opponent'
+      ? openMatch.opponentShare || 0
+      : round((openMatch.pricePerPlayer || 0) * players);
+  }
+
+  /**
+   * Default shares: the opponent team pays half the booking, and each joining player the same
+   * as every player of the organizer's team, in whole currency units
+   */
+  static getDefaultShare(booking: Pick<IBooking, 'pricing' | 'teamInfo'>, type: IOpenMatch['type'], playersNeeded = 1): number {
+    const total = booking.pricing.totalAmount;
+    return type === 'opponent'
+      ? Math.floor(total / 2)
+      : Math.floor(total / ((booking.teamInfo?.numberOfPlayers || 1) + playersNeeded));
+  }
+
+  /**
+   * Publish a booking for others to join, or change what it is looking for
+   */
+  static publish(booking: IBooking, params: PublishParams, userId: string, now: Date = new Date()): IOpenMatch {
+    this.assertJoinable(booking, now);
+
+    const requests = booking.openMatch?.requests || [];
+    const approved = requests.filter(request => request.status === 'approved');
+    if (approved.length > 0 && booking.openMatch?.type !== params.type) {
+      throw new Error('Cannot change the match type after requests were approved');
+    }
+
+    const openMatch: IOpenMatch = {
+      type: params.type,
+      skillLevel: booking.teamInfo?.experience,
+      description: params.description,
+      status: 'open',
+      publishedAt: booking.openMatch?.publishedAt || now,
+      requests
+    };
+
+    if (params.type === 'players') {
+      const playersNeeded = params.playersNeeded || 1;
+      if (playersNeeded < approved.reduce((sum, request) => sum + request.players, 0)) {
+        throw new Error('More players were already approved');
+      }
+      openMatch.playersNeeded = playersNeeded;
+      openMatch.pricePerPlayer = params.pricePerPlayer ?? this.getDefaultShare(booking, 'players', playersNeeded);
+      if (openMatch.pricePerPlayer * playersNeeded > booking.pricing.totalAmount) {
+        throw new Error('Player prices exceed the booking total');
+      }
+    } else {
+      openMatch.opponentShare = booking.openMatch?.opponentShare ?? this.getDefaultShare(booking, 'opponent');
+    }
+    openMatch.status = this.getSpotsLeft(openMatch) > 0 ? 'open' : 'full';
+
+    booking.openMatch = openMatch;
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      newValues: { openMatch: { type: openMatch.type, playersNeeded: openMatch.playersNeeded } },
+      notes: params.type === 'opponent' ? 'Published as looking for an opponent' : `Published as looking for ${openMatch.playersNeeded} players`,
+      timestamp: now
+    } as any);
+
+    return booking.openMatch as IOpenMatch;
+  }
+
+  /**
+   * Stop taking requests; pending requests are turned down and approved players stay
+   */
+  static close(booking: IBooking, userId: string, now: Date = new Date()): void {
+    const openMatch = this.getOpenMatch(booking);
+    openMatch.status = 'closed';
+    openMatch.requests
+      .filter(request => request.status === 'pending')
+      .forEach(request => {
+        request.status = 'rejected';
+        request.respondedAt = now;
+      });
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: 'Open match closed',
+      timestamp: now
+    } as any);
+  }
+
+  /**
+   * Ask to join an open match as the opponent team or as players
+   */
+  static requestToJoin(booking: IBooking, userId: string, params: JoinRequestParams, now: Date = new Date()): IOpenMatchRequest {
+    const openMatch = this.getOpenMatch(booking);
+    this.assertJoinable(booking, now);
+    if (openMatch.status !== 'open') {
+      throw new Error(`Open match is ${openMatch.status}`);
+    }
+    if (booking.userId.toString() === userId) {
+      throw new Error('Cannot join your own match');
+    }
+    if (this.findActiveRequest(openMatch, userId)) {
+      throw new Error('Already asked to join this match');
+    }
+
+    const players = params.players || 1;
+    if (openMatch.type === 'players' && players > this.getSpotsLeft(openMatch)) {
+      throw new Error(`Only ${this.getSpotsLeft(openMatch)} spots left`);
+    }
+
+    openMatch.requests.push({
+      userId: new mongoose.Types.ObjectId(userId),
+      players,
+      teamName: params.teamName,
+      experience: params.experience,
+      message: params.message,
+      status: 'pending',
+      requestedAt: now
+    });
+    return openMatch.requests[openMatch.requests.length - 1];
+  }
+
+  /**
+   * Approve a request: the requester joins the booking's bill split with their share
+   * and the match fills up once no spot is left
+   */
+  static async approve(booking: IBooking, requestId: string, userId: string, now: Date = new Date()): Promise<IBillSplitParticipant> {
+    const openMatch = this.getOpenMatch(booking);
+    const request = this.getPendingRequest(openMatch, requestId);
+    this.assertJoinable(booking, now);
+    if (openMatch.type === 'players' ? request.players > this.getSpotsLeft(openMatch) : this.getSpotsLeft(openMatch) === 0) {
+      throw new Error('Not enough spots left');
+    }
+
+    const requester = await User.findById(request.userId).select('firstName lastName phone');
+    if (!requester?.phone) {
+      throw new Error('Requester has no phone number to share the cost with');
+    }
+
+    const participant = await BillSplitService.addParticipant(booking, {
+      phone: requester.phone,
+      name: request.teamName || `${requester.firstName} ${requester.lastName}`,
+      userId: String(requester._id),
+      shareAmount: this.getShare(openMatch, request.players)
+    }, userId);
+
+    request.status = 'approved';
+    request.respondedAt = now;
+    request.participantId = participant._id;
+    if (this.getSpotsLeft(openMatch) === 0) {
+      openMatch.status = 'full';
+      // Nobody else fits any more
+      openMatch.requests
+        .filter(other => other.status === 'pending')
+        .forEach(other => {
+          other.status = 'rejected';
+          other.respondedAt = now;
+        });
+    }
+    return participant;
+  }
+
+  static reject(booking: IBooking, requestId: string, now: Date = new Date()): IOpenMatchRequest {
+    const request = this.getPendingRequest(this.getOpenMatch(booking), requestId);
+    request.status = 'rejected';
+    request.respondedAt = now;
+    return request;
+  }
+
+  /**
+   * Withdraw the user's request. Approved players leave the bill split, as long as they have not paid.
+   */
+  static leave(booking: IBooking, userId: string, now: Date = new Date()): IOpenMatchRequest {
+    const openMatch = this.getOpenMatch(booking);
+    const request = this.findActiveRequest(openMatch, userId);
+    if (!request) {
+      throw new Error('Open match request not found');
+    }
+
+    if (request.status === 'approved' && request.participantId) {
+      BillSplitService.removeParticipant(booking, String(request.participantId), userId);
+    }
+    request.status = 'withdrawn';
+    request.respondedAt = now;
+    if (openMatch.status === 'full' && this.getSpotsLeft(openMatch) > 0) {
+      openMatch.status = 'open';
+    }
+    return request;
+  }
+
+  /**
+   * Open matches at stadiums around a location, soonest first
+   */
+  static async search(params: OpenMatchSearchParams, now: Date = new Date()) {
+    const stadiums = await Stadium.find({
+      status: 'active',
+      'address.coordinates': {
+        $near: {
+          $geometry: { type: 'Point', coordinates: [params.lng, params.lat] },
+          $maxDistance: params.radius * 1000
+        }
+      }
+    })
+      .select('name address fields._id fields.name fields.fieldType')
+      .limit(MAX_NEARBY_STADIUMS);
+
+    const today = new Date(moment(now).tz('Asia/Vientiane').format('YYYY-MM-DD'));
+    const from = params.from && params.from > today ? params.from : today;
+    const query: Record<string, any> = {
+      stadiumId: { $in: stadiums.map(stadium => stadium._id) },
+      status: { $in: ['pending', 'confirmed'] },
+      'openMatch.status': 'open',
+      bookingDate: { $gte: from, ...(params.to ? { $lte: params.to } : {}) }
+    };
+    if (params.type) query['openMatch.type'] = params.type;
+    if (params.skillLevel) query['openMatch.skillLevel'] = params.skillLevel;
+
+    const [bookings, total] = await Promise.all([
+      Booking.find(query)
+        .sort({ bookingDate: 1, startTime: 1 })
+        .skip((params.page - 1) * params.limit)
+        .limit(params.limit),
+      Booking.countDocuments(query)
+    ]);
+
+    const matches = bookings
+      // Today's games that already kicked off are no longer joinable
+      .filter(booking => DepositService.getBookingStart(booking.bookingDate, booking.startTime) > now)
+      .map(booking => {
+        const stadium = stadiums.find(s => String(s._id) === String(booking.stadiumId));
+        const field = stadium?.fields?.find(f => String((f as any)._id) === String(booking.fieldId));
+        return {
+          ...this.getListing(booking),
+          stadium: stadium && { _id: stadium._id, name: stadium.name, address: stadium.address },
+          field: field && { _id: (field as any)._id, name: field.name, fieldType: field.fieldType }
+        };
+      });
+
+    return { matches, total };
+  }
+
+  /**
+   * What other users see of an open match: no requesters, phones or payment links
+   */
+  static getListing(booking: IBooking) {
+    const openMatch = this.getOpenMatch(booking);
+    return {
+      bookingId: booking._id,
+      bookingDate: booking.bookingDate,
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      teamName: booking.teamInfo?.teamName,
+      numberOfPlayers: booking.teamInfo?.numberOfPlayers,
+      type: openMatch.type,
+      skillLevel: openMatch.skillLevel,
+      description: openMatch.description,
+      status: openMatch.status,
+      spotsLeft: this.getSpotsLeft(openMatch),
+      playersNeeded: openMatch.playersNeeded,
+      pricePerPlayer: openMatch.pricePerPlayer,
+      opponentShare: openMatch.opponentShare,
+      currency: booking.pricing.currency || 'LAK'
+    };
+  }
+
+  static findActiveRequest(openMatch: IOpenMatch, userId: string): IOpenMatchRequest | undefined {
+    return openMatch.requests.find(request =>
+      request.userId.toString() === userId && (request.status === 'pending' || request.status === 'approved'));
+  }
+
+  private static getOpenMatch(booking: IBooking): IOpenMatch {
+    if (!booking.openMatch) {
+      throw new Error('Booking is not an open match');
+    }
+    return booking.openMatch;
+  }
+
+  private static getPendingRequest(openMatch: IOpenMatch, requestId: string): IOpenMatchRequest {
+    const request = openMatch.requests.find(r => String(r._id) === requestId);
+    if (!request) {
+      throw new Error('Open match request not found');
+    }
+    if (request.status !== 'pending') {
+      throw new Error(`Open match request is ${request.status}`);
+    }
+    return request;
+  }
+
+  private static assertJoinable(booking: IBooking, now: Date): void {
+    if (!['pending', 'confirmed'].includes(booking.status)) {
+      throw new Error(`Cannot open a ${booking.status} booking`);
+    }
+    if (DepositService.getBookingStart(booking.bookingDate, booking.startTime) <= now) {
+      throw new Error('Open match has already started');
+    }
+  }
+}
@@ -0,0 +1,358 @@
+import { IncomingHttpHeaders } from 'http';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import PaymentWebhookEvent from '../models/PaymentWebhookEvent';
+import { IPayment } from '../types/booking.types';
+import {
+  GatewayPaymentStatus,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentWebhookEvent as ProviderWebhookEvent,
+  ProviderRefundResult
+} from '../types/payment.types';
+import { BillSplitService } from './bill-split.service';
+import { DepositService } from './deposit.service';
+import { MockPaymentProvider } from './payment-providers/mock.provider';
+
+export const PAYMENT_MISMATCH = 'Payment amount or currency does not match the payment intent';
+export const AMOUNT_EXCEEDS_OUTSTANDING = 'Payment amount exceeds the outstanding balance';
+
+export interface CreateBookingIntentParams {
+  provider: string;
+  paymentMethod: IPayment['paymentMethod'];
+  amount?: number;
+  idempotencyKey?: string;
+  returnUrl?: string;
+  participantId?: string; // Bill-split participant paying their share
+  createdBy: string;
+}
+
+export interface WebhookResult {
+  duplicate: boolean;
+  ignored: boolean;
+  event: ProviderWebhookEvent;
+  bookingId?: string;
+  paymentStatus?: string;
+}
+
+export class PaymentGatewayService {
+  private static providers = new Map<string, PaymentProvider>();
+
+  /**
+   * Make a provider available under its name
+   */
+  static registerProvider(provider: PaymentProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  static getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown payment provider: ${name}`);
+    }
+    return provider;
+  }
+
+  static listProviders(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Create a gateway payment intent for a booking and record it as a pending payment.
+   * Repeating the call with the same idempotency key returns the existing intent.
+   */
+  static async createIntent(
+    booking: IBooking,
+    params: CreateBookingIntentParams
+  ): Promise<{ payment: IPayment; intent: PaymentIntent | null; reused: boolean }> {
+    const provider = this.getProvider(params.provider);
+
+    if (params.idempotencyKey) {
+      const existing = (booking.payments || []).find(
+        p => p.provider === provider.name && p.idempotencyKey === params.idempotencyKey
+      );
+      if (existing) {
+        return { payment: existing, intent: null, reused: true };
+      }
+    }
+
+    const outstanding = this.getOutstandingAmount(booking);
+    if (outstanding <= 0) {
+      throw new Error('Booking has no outstanding balance');
+    }
+    const amount = params.amount ?? outstanding;
+    if (amount <= 0) {
+      throw new Error('Payment amount must be greater than zero');
+    }
+    // Customers may pay part of the balance but never more than is owed
+    if (amount > outstanding) {
+      throw new Error(`${AMOUNT_EXCEEDS_OUTSTANDING} of ${outstanding}`);
+    }
+
+    const intent = await provider.createIntent({
+      bookingId: (booking._id as mongoose.Types.ObjectId).toString(),
+      bookingNumber: booking.bookingNumber,
+      amount,
+      currency: booking.pricing.currency || 'LAK',
+      paymentMethod: params.paymentMethod,
+      description: `Booking ${booking.bookingNumber}`,
+      returnUrl: params.returnUrl,
+      idempotencyKey: params.idempotencyKey
+    });
+
+    const payment: IPayment = {
+      paymentMethod: params.paymentMethod,
+      amount: intent.amount,
+      currency: intent.currency,
+      status: 'pending',
+      provider: provider.name,
+      intentId: intent.intentId,
+      idempotencyKey: params.idempotencyKey,
+      participantId: params.participantId ? new mongoose.Types.ObjectId(params.participantId) : undefined,
+      qrCodeData: intent.qrCodeData,
+      gatewayResponse: intent.raw,
+      createdAt: new Date()
+    };
+
+    if (!Array.isArray(booking.payments)) {
+      booking.payments = [];
+    }
+    booking.payments.push(payment);
+
+    this.addHistory(booking, params.createdBy, `Payment intent ${intent.intentId} created via ${provider.name}`, {
+      intentId: intent.intentId
+    });
+
+    return { payment: booking.payments[booking.payments.length - 1], intent, reused: false };
+  }
+
+  /**
+   * Ask the provider for the current state of an intent and apply it to the booking
+   */
+  static async verifyIntent(booking: IBooking, intentId: string): Promise<IPayment> {
+    const payment = this.findPayment(booking, intentId);
+    const provider = this.getProvider(payment.provider as string);
+    const verification = await provider.verifyPayment(intentId);
+
+    if (verification.status === 'completed') {
+      this.assertMatchesPayment(payment, verification);
+    }
+    this.applyGatewayStatus(booking, payment, verification.status, {
+      transactionId: verification.transactionId,
+      gatewayResponse: verification.raw
+    });
+
+    return payment;
+  }
+
+  /**
+   * Verify, de-duplicate and apply an incoming provider webhook
+   */
+  static async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | string,
+    headers: IncomingHttpHeaders,
+    payload: any
+  ): Promise<WebhookResult> {
+    const provider = this.getProvider(providerName);
+
+    if (!provider.verifyWebhookSignature(rawBody, headers)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = provider.parseWebhook(payload, headers);
+
+    // The unique (provider, eventId) index doubles as the idempotency lock
+    let record;
+    try {
+      record = await PaymentWebhookEvent.create({
+        provider: provider.name,
+        eventId: event.eventId,
+        type: event.type,
+        intentId: event.intentId,
+        payload: event.raw
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return { duplicate: true, ignored: false, event };
+      }
+      throw error;
+    }
+
+    try {
+      const booking = await Booking.findOne({
+        'payments.provider': provider.name,
+        'payments.intentId': event.intentId
+      });
+
+      const status = this.getStatusForEvent(event.type);
+      if (!booking || !status) {
+        record.status = 'ignored';
+        record.processedAt = new Date();
+        await record.save();
+        return { duplicate: false, ignored: true, event };
+      }
+
+      const payment = this.findPayment(booking, event.intentId);
+      if (status === 'completed') {
+        this.assertMatchesPayment(payment, event);
+      }
+      this.applyGatewayStatus(booking, payment, status, {
+        transactionId: event.transactionId,
+        gatewayResponse: event.raw
+      });
+      await booking.save();
+
+      record.status = 'processed';
+      record.bookingId = booking._id as mongoose.Types.ObjectId;
+      record.processedAt = new Date();
+      await record.save();
+
+      return {
+        duplicate: false,
+        ignored: false,
+        event,
+        bookingId: (booking._id as mongoose.Types.ObjectId).toString(),
+        paymentStatus: booking.paymentStatus
+      };
+    } catch (error) {
+      // Release the lock so the provider's retry can be processed
+      await PaymentWebhookEvent.deleteOne({ _id: record._id });
+      throw error;
+    }
+  }
+
+  /**
+   * Refund through the gateway that took the original payment, if any
+   */
+  static async refundThroughGateway(booking: IBooking, amount: number, reason?: string): Promise<ProviderRefundResult | null> {
+    const gatewayPayment = [...(booking.payments || [])]
+      .reverse()
+      .find(p => p.provider && p.intentId && p.status === 'completed' && p.amount > 0);
+
+    if (!gatewayPayment) {
+      return null;
+    }
+
+    const provider = this.getProvider(gatewayPayment.provider as string);
+    return provider.refund({
+      intentId: gatewayPayment.intentId as string,
+      transactionId: gatewayPayment.transactionId,
+      amount,
+      currency: gatewayPayment.currency,
+      reason
+    });
+  }
+
+  /**
+   * Move a pending or failed booking to paid or failed based on its completed payments
+   */
+  static updateBookingPaymentStatus(booking: IBooking): void {
+    if (!['pending', 'partially_paid', 'failed'].includes(booking.paymentStatus)) {
+      BillSplitService.syncParticipants(booking);
+      return;
+    }
+
+    const payments = booking.payments || [];
+    const totalCompleted = payments
+      .filter(p => p.status === 'completed')
+      .reduce((sum, p) => sum + p.amount, 0);
+
+    if (totalCompleted >= booking.pricing.totalAmount) {
+      booking.paymentStatus = 'paid';
+    } else if (totalCompleted > 0) {
+      booking.paymentStatus = 'partially_paid';
+    } else if (payments.length > 0 && payments.every(p => p.status === 'failed' || p.status === 'cancelled')) {
+      booking.paymentStatus = 'failed';
+    } else {
+      booking.paymentStatus = 'pending';
+    }
+
+    DepositService.markReceived(booking, totalCompleted);
+    BillSplitService.syncParticipants(booking);
+  }
+
+  static getOutstandingAmount(booking: IBooking): number {
+    const completed = (booking.payments || [])
+      .filter(p => p.status === 'completed')
+      .reduce((sum, p) => sum + p.amount, 0);
+    return Math.max(0, booking.pricing.totalAmount - completed);
+  }
+
+  private static applyGatewayStatus(
+    booking: IBooking,
+    payment: IPayment,
+    status: GatewayPaymentStatus,
+    details: { transactionId?: string; gatewayResponse?: any }
+  ): void {
+    // Settled payments are final; late or replayed events must not reopen them
+    if (payment.status !== 'pending' || status === 'pending') {
+      return;
+    }
+
+    const previousStatus = booking.paymentStatus;
+
+    payment.status = status;
+    payment.transactionId = details.transactionId || payment.transactionId;
+    payment.gatewayResponse = details.gatewayResponse ?? payment.gatewayResponse;
+    payment.processedAt = new Date();
+
+    this.updateBookingPaymentStatus(booking);
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: booking.userId,
+      oldValues: { paymentStatus: previousStatus },
+      newValues: { paymentStatus: booking.paymentStatus },
+      notes: `Payment ${payment.intentId} ${status} via ${payment.provider}`,
+      timestamp: new Date()
+    } as any);
+  }
+
+  private static getStatusForEvent(type: ProviderWebhookEvent['type']): GatewayPaymentStatus | null {
+    switch (type) {
+      case 'payment.completed':
+        return 'completed';
+      case 'payment.failed':
+        return 'failed';
+      case 'payment.cancelled':
+        return 'cancelled';
+      default:
+        // Refund confirmations are informational; refunds are settled by RefundService
+        return null;
+    }
+  }
+
+  /**
+   * Refuse to settle a payment for a different amount or currency than the intent was created for
+   */
+  private static assertMatchesPayment(payment: IPayment, settled: { amount?: number; currency?: string }): void {
+    if (settled.amount !== payment.amount || settled.currency !== payment.currency) {
+      throw new Error(PAYMENT_MISMATCH);
+    }
+  }
+
+  private static findPayment(booking: IBooking, intentId: string): IPayment {
+    const payment = (booking.payments || []).find(p => p.intentId === intentId);
+    if (!payment) {
+      throw new Error('Payment intent not found');
+    }
+    return payment;
+  }
+
+  private static addHistory(booking: IBooking, changedBy: string, notes: string, newValues: Record<string, any>): void {
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(changedBy),
+      newValues,
+      notes,
+      timestamp: new Date()
+    } as any);
+  }
+}
+
+// The mock provider settles payments on a webhook anyone holding its secret can sign, so it
+// is only available outside production and never with a default secret
+if (process.env.NODE_ENV !== 'production' && process.env.MOCK_PAYMENT_WEBHOOK_SECRET) {
+  PaymentGatewayService.registerProvider(new MockPaymentProvider(process.env.MOCK_PAYMENT_WEBHOOK_SECRET));
+}
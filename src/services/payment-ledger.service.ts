@@ -0,0 +1,49 @@
+import { IBooking } from '../models/Booking';
+
+export interface RefundTotals {
+  totalPaid: number;
+  totalRefunded: number;
+  pendingRefunds: number;
+  netPaid: number;
+}
+
+type LedgerBooking = Pick<IBooking, 'payments' | 'refunds' | 'paymentStatus' | 'pricing'>;
+
+/**
+ * Amounts read from a booking's payment ledger. Only reads the booking, so invoices can
+ * use it without loading any models.
+ */
+export class PaymentLedgerService {
+  /**
+   * Amount the customer has actually paid towards the booking
+   */
+  static getPaidAmount(booking: LedgerBooking): number {
+    const completedPayments = (booking.payments || []).filter(p => p.status === 'completed' && p.amount > 0);
+    if (completedPayments.length > 0) {
+      return completedPayments.reduce((sum, p) => sum + p.amount, 0);
+    }
+    // Bookings marked paid without ledger entries are treated as paid in full
+    return ['paid', 'partially_refunded', 'refunded'].includes(booking.paymentStatus) ? booking.pricing.totalAmount : 0;
+  }
+
+  /**
+   * Gross, refunded and net amounts for a booking's payment ledger
+   */
+  static getTotals(booking: LedgerBooking): RefundTotals {
+    const totalPaid = this.getPaidAmount(booking);
+    // Paid-out refunds are recorded as negative ledger entries
+    const totalRefunded = (booking.payments || [])
+      .filter(p => p.refundId && p.amount < 0)
+      .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+    const pendingRefunds = (booking.refunds || [])
+      .filter(r => r.status === 'requested' || r.status === 'approved')
+      .reduce((sum, r) => sum + r.amount, 0);
+
+    return {
+      totalPaid,
+      totalRefunded,
+      pendingRefunds,
+      netPaid: totalPaid - totalRefunded
+    };
+  }
+}
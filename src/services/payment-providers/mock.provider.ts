@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import {
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentVerification,
+  PaymentWebhookEvent,
+  ProviderRefundParams,
+  ProviderRefundResult
+} from '../../types/payment.types';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+/**
+ * Local provider for development and tests. Intents live in memory and are
+ * settled by posting a signed webhook to /api/payments/webhooks/mock. Only
+ * registered outside production when MOCK_PAYMENT_WEBHOOK_SECRET is set.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private intents = new Map<string, PaymentIntent>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const intentId = `mock_pi_${crypto.randomBytes(12).toString('hex')}`;
+    const intent: PaymentIntent = {
+      provider: this.name,
+      intentId,
+      status: 'pending',
+      amount: params.amount,
+      currency: params.currency,
+      checkoutUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/mock-checkout/${intentId}`,
+      expiresAt: new Date(Date.now() + 30 * 60 * 1000),
+      raw: { bookingNumber: params.bookingNumber }
+    };
+
+    this.intents.set(intentId, intent);
+    return intent;
+  }
+
+  async verifyPayment(intentId: string): Promise<PaymentVerification> {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new Error('Payment intent not found');
+    }
+
+    return {
+      intentId,
+      status: intent.status,
+      amount: intent.amount,
+      currency: intent.currency,
+      transactionId: intent.status === 'completed' ? `mock_tx_${intentId}` : undefined
+    };
+  }
+
+  async refund(params: ProviderRefundParams): Promise<ProviderRefundResult> {
+    return {
+      refundReference: `mock_re_${crypto.randomBytes(8).toString('hex')}`,
+      status: 'completed',
+      amount: params.amount
+    };
+  }
+
+  /**
+   * HMAC-SHA256 of the raw request body, hex encoded
+   */
+  sign(rawBody: Buffer | string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(rawBody).digest('hex');
+  }
+
+  verifyWebhookSignature(rawBody: Buffer | string, headers: IncomingHttpHeaders): boolean {
+    const signature = headers[MOCK_SIGNATURE_HEADER];
+    if (typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(rawBody));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  parseWebhook(payload: any): PaymentWebhookEvent {
+    if (!payload?.id || !payload?.type || !payload?.data?.intentId) {
+      throw new Error('Invalid webhook payload');
+    }
+
+    const event: PaymentWebhookEvent = {
+      eventId: payload.id,
+      type: payload.type,
+      intentId: payload.data.intentId,
+      amount: payload.data.amount,
+      currency: payload.data.currency,
+      transactionId: payload.data.transactionId,
+      raw: payload
+    };
+
+    // Keep the in-memory intent in step so verifyPayment reflects the webhook, unless it
+    // would complete the intent for a different amount than it was created for
+    const intent = this.intents.get(event.intentId);
+    const matchesIntent = event.amount === intent?.amount && event.currency === intent?.currency;
+    if (intent && event.type.startsWith('payment.') && (matchesIntent || event.type !== 'payment.completed')) {
+      intent.status = event.type.split('.')[1] as PaymentIntent['status'];
+    }
+
+    return event;
+  }
+}
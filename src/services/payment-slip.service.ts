@@ -0,0 +1,252 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import Booking, { IBooking } from '../models/Booking';
+import { IPayment } from '../types/booking.types';
+import NotificationService from './notificationService';
+import { PaymentGatewayService } from './payment-gateway.service';
+
+// Transfers of the same amount this close together are flagged for the owner
+const DUPLICATE_TRANSFER_WINDOW_MINUTES = 5;
+
+export interface SubmitSlipParams {
+  filePath: string;
+  imageUrl: string;
+  amount: number;
+  paymentMethod?: IPayment['paymentMethod'];
+  transferredAt?: Date;
+  transactionReference?: string;
+  submittedBy: string;
+}
+
+export interface SlipQueueFilters {
+  status?: 'pending' | 'approved' | 'rejected';
+  page?: number;
+  limit?: number;
+}
+
+export class PaymentSlipService {
+  /**
+   * SHA-256 of the uploaded slip image
+   */
+  static hashFile(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+  }
+
+  /**
+   * Attach an uploaded slip to a booking as a pending payment
+   */
+  static async submitSlip(booking: IBooking, params: SubmitSlipParams): Promise<IPayment> {
+    const imageHash = this.hashFile(params.filePath);
+
+    // The exact same image can never pay for two bookings. A rejected slip paid for
+    // nothing, so it may be submitted again.
+    const reused = await Booking.findOne({
+      payments: { $elemMatch: { 'slip.imageHash': imageHash, 'slip.reviewStatus': { $ne: 'rejected' } } }
+    }).select('bookingNumber');
+    if (reused) {
+      throw new Error(`This payment slip was already submitted for booking ${reused.bookingNumber}`);
+    }
+
+    const possibleDuplicateOf = params.transferredAt
+      ? await this.findMatchingTransfer(booking, params.amount, params.transferredAt)
+      : undefined;
+
+    const now = new Date();
+    const payment: IPayment = {
+      paymentMethod: params.paymentMethod || 'bank_transfer',
+      amount: params.amount,
+      currency: booking.pricing.currency || 'LAK',
+      status: 'pending',
+      transactionId: params.transactionReference,
+      slip: {
+        imageUrl: params.imageUrl,
+        imageHash,
+        transferredAt: params.transferredAt,
+        transactionReference: params.transactionReference,
+        reviewStatus: 'pending',
+        submittedBy: new mongoose.Types.ObjectId(params.submittedBy),
+        submittedAt: now,
+        possibleDuplicateOf
+      },
+      createdAt: now
+    };
+
+    if (!Array.isArray(booking.payments)) {
+      booking.payments = [];
+    }
+    booking.payments.push(payment);
+
+    this.addHistory(booking, params.submittedBy, `Payment slip for ${params.amount} ${payment.currency} submitted for review`, {
+      slipStatus: 'pending'
+    });
+
+    return booking.payments[booking.payments.length - 1];
+  }
+
+  /**
+   * Paginated slips for a stadium's review queue, oldest first
+   */
+  static async getReviewQueue(stadiumId: string, filters: SlipQueueFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const match: Record<string, any> = {
+      'payments.slip': { $exists: true },
+      ...(filters.status ? { 'payments.slip.reviewStatus': filters.status } : {})
+    };
+
+    const pipeline: any[] = [
+      { $match: { stadiumId: new mongoose.Types.ObjectId(stadiumId), 'payments.slip': { $exists: true } } },
+      { $unwind: '$payments' },
+      { $match: match },
+      { $sort: { 'payments.slip.submittedAt': 1 } }
+    ];
+
+    const [result] = await Booking.aggregate([
+      ...pipeline,
+      {
+        $facet: {
+          slips: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: 'users',
+                localField: 'userId',
+                foreignField: '_id',
+                as: 'customer',
+                pipeline: [{ $project: { firstName: 1, lastName: 1, phone: 1, email: 1 } }]
+              }
+            },
+            {
+              $project: {
+                _id: 0,
+                bookingId: '$_id',
+                bookingNumber: 1,
+                bookingDate: 1,
+                startTime: 1,
+                endTime: 1,
+                totalAmount: '$pricing.totalAmount',
+                paymentStatus: 1,
+                customer: { $arrayElemAt: ['$customer', 0] },
+                payment: '$payments'
+              }
+            }
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
+
+    const total = result?.total[0]?.count || 0;
+
+    return {
+      slips: result?.slips || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Find the booking that holds a slip payment for a stadium
+   */
+  static async findBookingForSlip(stadiumId: string, paymentId: string): Promise<IBooking | null> {
+    return Booking.findOne({
+      stadiumId: new mongoose.Types.ObjectId(stadiumId),
+      'payments._id': new mongoose.Types.ObjectId(paymentId)
+    });
+  }
+
+  /**
+   * Approve or reject a slip, update the booking's payment status and notify the customer
+   */
+  static async reviewSlip(
+    booking: IBooking,
+    paymentId: string,
+    params: { approve: boolean; reviewedBy: string; reason?: string }
+  ): Promise<IPayment> {
+    const payment = (booking.payments || []).find((p: any) => p._id?.toString() === paymentId);
+    if (!payment || !payment.slip) {
+      throw new Error('Payment slip not found');
+    }
+
+    if (payment.slip.reviewStatus !== 'pending') {
+      throw new Error(`Payment slip has already been reviewed. Current status: ${payment.slip.reviewStatus}`);
+    }
+
+    const now = new Date();
+    const previousStatus = booking.paymentStatus;
+
+    payment.slip.reviewStatus = params.approve ? 'approved' : 'rejected';
+    payment.slip.reviewedBy = new mongoose.Types.ObjectId(params.reviewedBy);
+    payment.slip.reviewedAt = now;
+    payment.slip.rejectionReason = params.approve ? undefined : params.reason;
+    payment.status = params.approve ? 'completed' : 'failed';
+    payment.processedAt = now;
+
+    PaymentGatewayService.updateBookingPaymentStatus(booking);
+
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(params.reviewedBy),
+      oldValues: { paymentStatus: previousStatus },
+      newValues: { paymentStatus: booking.paymentStatus, slipStatus: payment.slip.reviewStatus },
+      notes: params.approve
+        ? `Payment slip for ${payment.amount} ${payment.currency} approved`
+        : `Payment slip rejected${params.reason ? `: ${params.reason}` : ''}`,
+      timestamp: now
+    } as any);
+
+    await booking.save();
+    await NotificationService.sendPaymentSlipReviewed(booking, params.approve, payment.amount, params.reason);
+
+    return payment;
+  }
+
+  /**
+   * Another slip for the same stadium with the same amount and transfer time
+   */
+  private static async findMatchingTransfer(
+    booking: IBooking,
+    amount: number,
+    transferredAt: Date
+  ): Promise<mongoose.Types.ObjectId | undefined> {
+    const windowMs = DUPLICATE_TRANSFER_WINDOW_MINUTES * 60 * 1000;
+    const match = await Booking.findOne({
+      stadiumId: booking.stadiumId,
+      payments: {
+        $elemMatch: {
+          amount,
+          'slip.reviewStatus': { $ne: 'rejected' },
+          'slip.transferredAt': {
+            $gte: new Date(transferredAt.getTime() - windowMs),
+            $lte: new Date(transferredAt.getTime() + windowMs)
+          }
+        }
+      }
+    }).select('payments');
+
+    const matchedPayment = match?.payments?.find((p: any) =>
+      p.amount === amount &&
+      p.slip?.transferredAt &&
+      p.slip.reviewStatus !== 'rejected' &&
+      Math.abs(p.slip.transferredAt.getTime() - transferredAt.getTime()) <= windowMs
+    ) as any;
+
+    return matchedPayment?._id;
+  }
+
+  private static addHistory(booking: IBooking, changedBy: string, notes: string, newValues: Record<string, any>): void {
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(changedBy),
+      newValues,
+      notes,
+      timestamp: new Date()
+    } as any);
+  }
+}
@@ -0,0 +1,236 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import Payout, { IPayout, IPayoutLine, IPayoutTotals } from '../models/Payout';
+import Stadium from '../models/Stadium';
+import User from '../models/User';
+import { CancellationPolicyService } from './cancellation-policy.service';
+
+// Mirrors the default in ServiceFeeController
+const DEFAULT_SERVICE_FEE_PERCENTAGE = 10;
+const SETTLEMENT_TIMEZONE = 'Asia/Vientiane';
+
+export interface PayoutPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface SettlementStadium {
+  name?: string;
+  serviceFeePercentage?: number;
+}
+
+export interface SettlementResult {
+  period: PayoutPeriod;
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PayoutService {
+  /**
+   * A calendar month in local time; defaults to the month before the current one
+   */
+  static getMonthlyPeriod(month?: string, now: Date = new Date()): PayoutPeriod {
+    const start = month
+      ? moment.tz(month, 'YYYY-MM', SETTLEMENT_TIMEZONE).startOf('month')
+      : moment.tz(now, SETTLEMENT_TIMEZONE).subtract(1, 'month').startOf('month');
+
+    return {
+      start: start.toDate(),
+      end: start.clone().endOf('month').toDate()
+    };
+  }
+
+  /**
+   * Refunds paid out on a booking within a window of processing dates
+   */
+  static getRefundedAmount(booking: IBooking, from?: Date, until?: Date): number {
+    return (booking.payments || [])
+      .filter(p => p.refundId && p.amount < 0)
+      .filter(p => {
+        const processedAt = p.processedAt ? new Date(p.processedAt) : null;
+        if (!processedAt) return !from;
+        return (!from || processedAt >= from) && (!until || processedAt <= until);
+      })
+      .reduce((sum, p) => sum + Math.abs(p.amount), 0);
+  }
+
+  /**
+   * Settlement line for a booking played in the period. Refunds paid out after the period
+   * ends are left for later statements as adjustments.
+   */
+  static buildBookingLine(booking: IBooking, stadium: SettlementStadium, period: PayoutPeriod): IPayoutLine {
+    const paidAmount = CancellationPolicyService.getPaidAmount(booking);
+    const refundedAmount = this.getRefundedAmount(booking, undefined, period.end);
+    return this.buildLine('booking', booking, stadium, paidAmount, refundedAmount);
+  }
+
+  /**
+   * Negative line for refunds paid out in the period on a booking settled in an earlier period
+   */
+  static buildAdjustmentLine(booking: IBooking, stadium: SettlementStadium, period: PayoutPeriod): IPayoutLine | null {
+    const refundedAmount = this.getRefundedAmount(booking, period.start, period.end);
+    if (refundedAmount <= 0) {
+      return null;
+    }
+    return this.buildLine('refund_adjustment', booking, stadium, 0, refundedAmount);
+  }
+
+  static summarize(lines: IPayoutLine[]): IPayoutTotals {
+    const sum = (key: keyof IPayoutLine) => round(lines.reduce((total, line) => total + (line[key] as number), 0));
+
+    return {
+      bookings: lines.filter(line => line.type === 'booking').length,
+      grossAmount: sum('paidAmount'),
+      refundedAmount: sum('refundedAmount'),
+      taxAmount: sum('taxAmount'),
+      serviceFee: sum('serviceFee'),
+      promoCredit: sum('promoCredit'),
+      netAmount: sum('netAmount')
+    };
+  }
+
+  /**
+   * Create or refresh an owner's statement for a period. Transferred statements are never changed.
+   */
+  static async settleOwner(ownerId: string, period: PayoutPeriod): Promise<{ payout: IPayout | null; action: 'created' | 'updated' | 'skipped' }> {
+    const existing = await Payout.findOne({ ownerId, periodStart: period.start, periodEnd: period.end });
+    if (existing?.status === 'transferred') {
+      return { payout: existing, action: 'skipped' };
+    }
+
+    const stadiums = await Stadium.find({ ownerId }).select('name serviceFeePercentage');
+    const stadiumsById = new Map(stadiums.map(stadium => [String(stadium._id), stadium]));
+    const stadiumIds = stadiums.map(stadium => stadium._id);
+
+    const [bookings, lateRefundBookings] = await Promise.all([
+      Booking.find({
+        stadiumId: { $in: stadiumIds },
+        bookingDate: { $gte: period.start, $lte: period.end },
+        status: { $in: ['confirmed', 'completed', 'cancelled', 'no_show'] },
+        paymentStatus: { $in: ['partially_paid', 'paid', 'partially_refunded', 'refunded'] }
+      }).sort({ bookingDate: 1 }),
+      Booking.find({
+        stadiumId: { $in: stadiumIds },
+        bookingDate: { $lt: period.start },
+        payments: { $elemMatch: { refundId: { $exists: true }, processedAt: { $gte: period.start, $lte: period.end } } }
+      }).sort({ bookingDate: 1 })
+    ]);
+
+    const lines: IPayoutLine[] = [
+      ...bookings.map(booking => this.buildBookingLine(booking, stadiumsById.get(booking.stadiumId.toString()) || {}, period)),
+      ...lateRefundBookings
+        .map(booking => this.buildAdjustmentLine(booking, stadiumsById.get(booking.stadiumId.toString()) || {}, period))
+        .filter((line): line is IPayoutLine => line !== null)
+    ];
+
+    if (lines.length === 0) {
+      return { payout: existing, action: 'skipped' };
+    }
+
+    const payout = existing || new Payout({
+      ownerId: new mongoose.Types.ObjectId(ownerId),
+      periodStart: period.start,
+      periodEnd: period.end
+    });
+    payout.set({
+      currency: bookings[0]?.pricing.currency || lateRefundBookings[0]?.pricing.currency || 'LAK',
+      lines,
+      totals: this.summarize(lines),
+      generatedAt: new Date()
+    });
+    await payout.save();
+
+    return { payout, action: existing ? 'updated' : 'created' };
+  }
+
+  /**
+   * Settle every active stadium owner for a period
+   */
+  static async settlePeriod(period: PayoutPeriod): Promise<SettlementResult> {
+    const owners = await User.find({ role: 'stadium_owner', status: 'active' }).select('_id');
+    const result: SettlementResult = { period, created: 0, updated: 0, skipped: 0 };
+
+    for (const owner of owners) {
+      try {
+        const { action } = await this.settleOwner(String(owner._id), period);
+        result[action]++;
+      } catch (error) {
+        console.error(`Failed to settle payouts for owner ${owner._id}:`, error);
+        result.skipped++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Statement lines as CSV for the owner's bookkeeping
+   */
+  static toCSV(payout: Pick<IPayout, 'lines' | 'totals' | 'currency'>): string {
+    const escape = (value: unknown): string => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const header = ['Type', 'Booking Number', 'Booking Date', 'Stadium', 'Paid', 'Refunded', 'Tax', 'Service Fee %', 'Service Fee', 'Promo Credit', 'Net', 'Currency'];
+    const rows = payout.lines.map(line => [
+      line.type,
+      line.bookingNumber,
+      moment(line.bookingDate).format('YYYY-MM-DD'),
+      line.stadiumName,
+      line.paidAmount,
+      line.refundedAmount,
+      line.taxAmount,
+      line.serviceFeePercentage,
+      line.serviceFee,
+      line.promoCredit,
+      line.netAmount,
+      payout.currency
+    ]);
+    const totals = payout.totals;
+    rows.push(['total', '', '', '', totals.grossAmount, totals.refundedAmount, totals.taxAmount, '', totals.serviceFee, totals.promoCredit, totals.netAmount, payout.currency]);
+
+    return [header, ...rows].map(row => row.map(escape).join(',')).join('\n') + '\n';
+  }
+
+  private static buildLine(
+    type: IPayoutLine['type'],
+    booking: IBooking,
+    stadium: SettlementStadium,
+    paidAmount: number,
+    refundedAmount: number
+  ): IPayoutLine {
+    const serviceFeePercentage = stadium.serviceFeePercentage || DEFAULT_SERVICE_FEE_PERCENTAGE;
+    const totalAmount = booking.pricing.totalAmount || 0;
+    const retained = paidAmount - refundedAmount;
+    const share = totalAmount > 0 ? retained / totalAmount : 0;
+
+    // Tax carries no service fee, matching the service fee report
+    const taxAmount = round((booking.pricing.taxes || 0) * share);
+    const serviceFee = round(((retained - taxAmount) * serviceFeePercentage) / 100);
+    const platformFunded = (booking.pricing.discounts || [])
+      .filter(discount => discount.code && discount.fundedBy === 'platform')
+      .reduce((sum, discount) => sum + discount.amount, 0);
+    const promoCredit = round(platformFunded * share);
+
+    return {
+      type,
+      bookingId: booking._id as mongoose.Types.ObjectId,
+      bookingNumber: booking.bookingNumber,
+      bookingDate: booking.bookingDate,
+      stadiumId: booking.stadiumId,
+      stadiumName: stadium.name,
+      paidAmount: round(paidAmount),
+      refundedAmount: round(refundedAmount),
+      taxAmount,
+      serviceFeePercentage,
+      serviceFee,
+      promoCredit,
+      netAmount: round(retained - serviceFee + promoCredit)
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import moment from 'moment-timezone';
+import { IField, ITimeSlot } from '../models/Stadium';
+import LoyaltyProgram, { LOYALTY_TIERS } from '../models/LoyaltyProgram';
+import { IDiscount, IPricing, IPricingLineItem, IRefereeCharge, ITaxDetails } from '../types/booking.types';
+
+export type RateSource = NonNullable<IPricingLineItem['rateSource']>;
+
+export interface DiscountInput {
+  type: 'percentage' | 'fixed';
+  value: number;
+  maxAmount?: number;
+  description?: string;
+  promoCodeId?: IDiscount['promoCodeId'];
+  code?: string;
+  fundedBy?: IDiscount['fundedBy'];
+}
+
+export interface TaxInput {
+  rate: number; // Percentage, e.g. 10 for 10% VAT
+  inclusive?: boolean;
+  description?: string;
+  sellerTaxId?: string;
+  sellerName?: string;
+  exemptionReason?: string; // Set when the seller is exempt and rate is 0
+}
+
+export interface PricingParams {
+  field: IField;
+  additionalFields?: IField[]; // Booked together with field and charged on the same booking
+  bookingDate: Date | string;
+  startTime: string;
+  endTime: string;
+  refereeCharges?: IRefereeCharge[];
+  discounts?: DiscountInput[];
+  loyalty?: { tier: string; discountPercentage: number };
+  tax?: TaxInput;
+  holiday?: string; // Public holiday on the booking date, charged at the fields' holiday tier
+}
+
+export interface ResolvedRate {
+  rate: number;
+  source: RateSource;
+  label?: string;
+}
+
+export interface PricingResult {
+  durationHours: number;
+  pricing: IPricing;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A slot ending at 00:00 runs until midnight
+const toEndMinutes = (time: string): number => toMinutes(time) || MINUTES_PER_DAY;
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PricingEngine {
+  /**
+   * Hourly rate for a field at a given minute of the day, most specific rule first:
+   * special date slot, holiday tier on a public holiday, weekly schedule slot, pricing tier,
+   * seasonal rate, base rate
+   */
+  static resolveRate(field: IField, bookingDate: Date | string, minuteOfDay: number, holiday?: string): ResolvedRate {
+    const day = this.toDay(bookingDate);
+    const dayOfWeek = day.day();
+
+    const specialDate = field.specialDates?.find(special => moment.utc(special.date).isSame(day, 'day'));
+    const specialSlotRate = this.findSlotRate(specialDate?.timeSlots, minuteOfDay);
+    if (specialSlotRate !== undefined) {
+      return { rate: specialSlotRate, source: 'special_date', label: specialDate?.reason || 'Special date' };
+    }
+
+    const isWithin = (tier: { startTime: string; endTime: string }) =>
+      minuteOfDay >= toMinutes(tier.startTime) && minuteOfDay < toEndMinutes(tier.endTime);
+
+    const holidayTier = holiday
+      ? field.pricing.pricingTiers?.find(t => t.isActive && t.name === 'holiday' && isWithin(t))
+      : undefined;
+    if (holidayTier) {
+      return { rate: holidayTier.hourlyRate, source: 'holiday', label: holiday };
+    }
+
+    const schedule = field.availabilitySchedule?.find(s => s.dayOfWeek === dayOfWeek);
+    const scheduleSlotRate = this.findSlotRate(schedule?.timeSlots, minuteOfDay);
+    if (scheduleSlotRate !== undefined) {
+      return { rate: scheduleSlotRate, source: 'time_slot' };
+    }
+
+    const tier = field.pricing.pricingTiers?.find(t =>
+      t.isActive &&
+      t.name !== 'holiday' &&
+      t.daysOfWeek.includes(dayOfWeek) &&
+      isWithin(t)
+    );
+    if (tier) {
+      return { rate: tier.hourlyRate, source: 'pricing_tier', label: tier.name };
+    }
+
+    const season = field.pricing.seasonalRates?.find(s =>
+      s.rate !== undefined &&
+      day.isSameOrAfter(moment.utc(s.startDate), 'day') &&
+      day.isSameOrBefore(moment.utc(s.endDate), 'day')
+    );
+    if (season) {
+      return { rate: season.rate, source: 'seasonal', label: season.season };
+    }
+
+    return { rate: field.pricing.baseHourlyRate || 0, source: 'base' };
+  }
+
+  /**
+   * Loyalty tier discount for a customer, if they have one
+   */
+  static async getLoyaltyDiscount(userId: string): Promise<PricingParams['loyalty']> {
+    if (!userId) return undefined;
+
+    const program = await LoyaltyProgram.findOne({ userId }).select('currentTier');
+    const tier = LOYALTY_TIERS.find(t => t.name === program?.currentTier);
+    return tier && tier.discountPercentage > 0
+      ? { tier: tier.name, discountPercentage: tier.discountPercentage }
+      : undefined;
+  }
+
+  /**
+   * Length of a booking in hours; an end time of 00:00 is midnight at the end of the day
+   */
+  static getDurationHours(startTime: string, endTime: string): number {
+    return (toEndMinutes(endTime) - toMinutes(startTime)) / 60;
+  }
+
+  /**
+   * Price a booking and return the breakdown to store on the booking
+   */
+  static calculate(params: PricingParams): PricingResult {
+    const { field } = params;
+    const currency = field.pricing.currency || 'LAK';
+    const startMinutes = toMinutes(params.startTime);
+    const endMinutes = toEndMinutes(params.endTime);
+    const durationHours = this.getDurationHours(params.startTime, params.endTime);
+
+    if (durationHours <= 0) {
+      throw new Error('End time must be after start time');
+    }
+
+    const lineItems: IPricingLineItem[] = [field, ...(params.additionalFields || [])]
+      .flatMap(bookedField => this.buildFieldLineItems({ ...params, field: bookedField }, startMinutes, endMinutes));
+    const fieldAmount = lineItems.reduce((sum, item) => sum + item.total, 0);
+
+    const refereeCharges = params.refereeCharges || [];
+    refereeCharges.forEach(charge => {
+      lineItems.push({
+        type: 'referee',
+        description: `Referee service: ${charge.refereeName}`,
+        quantity: charge.hours,
+        unitPrice: charge.rate,
+        total: round(charge.total)
+      });
+    });
+
+    const subtotal = round(fieldAmount + refereeCharges.reduce((sum, charge) => sum + charge.total, 0));
+
+    // Discounts are stored with the amount actually taken off, like applyDiscount does
+    const discounts: IDiscount[] = [];
+    let net = subtotal;
+    for (const discount of params.discounts || []) {
+      const raw = discount.type === 'percentage' ? (net * discount.value) / 100 : discount.value;
+      const capped = discount.maxAmount !== undefined ? Math.min(raw, discount.maxAmount) : raw;
+      const amount = round(Math.min(net, Math.max(0, capped)));
+      if (amount <= 0) continue;
+
+      const description = discount.description || `${discount.type} discount`;
+      discounts.push({
+        type: discount.type,
+        amount,
+        description,
+        ...(discount.code ? { promoCodeId: discount.promoCodeId, code: discount.code, fundedBy: discount.fundedBy } : {})
+      });
+      lineItems.push({ type: 'discount', description, quantity: 1, unitPrice: -amount, total: -amount });
+      net = round(net - amount);
+    }
+
+    if (params.loyalty && params.loyalty.discountPercentage > 0 && net > 0) {
+      const amount = round((net * params.loyalty.discountPercentage) / 100);
+      const description = `${params.loyalty.tier} member discount (${params.loyalty.discountPercentage}%)`;
+      discounts.push({ type: 'percentage', amount, description });
+      lineItems.push({ type: 'loyalty_discount', description, quantity: 1, unitPrice: -amount, total: -amount });
+      net = round(net - amount);
+    }
+
+    let taxes = 0;
+    let totalAmount = net;
+    let taxDetails: ITaxDetails | undefined;
+    if (params.tax) {
+      taxDetails = {
+        name: params.tax.description || 'VAT',
+        rate: params.tax.rate,
+        inclusive: !!params.tax.inclusive,
+        sellerTaxId: params.tax.sellerTaxId,
+        sellerName: params.tax.sellerName,
+        exemptionReason: params.tax.exemptionReason
+      };
+    }
+    if (params.tax && params.tax.rate > 0) {
+      if (params.tax.inclusive) {
+        taxes = round(net - net / (1 + params.tax.rate / 100));
+      } else {
+        taxes = round((net * params.tax.rate) / 100);
+        totalAmount = round(net + taxes);
+      }
+      lineItems.push({
+        type: 'tax',
+        description: `${params.tax.description || 'VAT'} ${params.tax.rate}%${params.tax.inclusive ? ' (included)' : ''}`,
+        quantity: 1,
+        unitPrice: taxes,
+        total: params.tax.inclusive ? 0 : taxes
+      });
+    }
+
+    return {
+      durationHours,
+      pricing: {
+        // Effective hourly rate of all fields, so baseRate * durationHours still equals the field charge
+        baseRate: round(fieldAmount / durationHours),
+        subtotal,
+        totalAmount,
+        currency,
+        taxes,
+        ...(taxDetails ? { taxDetails } : {}),
+        refereeCharges,
+        discounts,
+        lineItems
+      }
+    };
+  }
+
+  /**
+   * Split the booking window wherever the applicable rate changes and merge equal neighbours
+   */
+  private static buildFieldLineItems(params: PricingParams, startMinutes: number, endMinutes: number): IPricingLineItem[] {
+    const breakpoints = new Set<number>([startMinutes, endMinutes]);
+    const addBreakpoint = (time?: string) => {
+      if (!time) return;
+      const minutes = toMinutes(time);
+      if (minutes > startMinutes && minutes < endMinutes) {
+        breakpoints.add(minutes);
+      }
+    };
+
+    const { field } = params;
+    field.pricing.pricingTiers?.forEach(t => { addBreakpoint(t.startTime); addBreakpoint(t.endTime); });
+    field.availabilitySchedule?.forEach(s => s.timeSlots?.forEach(slot => { addBreakpoint(slot.startTime); addBreakpoint(slot.endTime); }));
+    field.specialDates?.forEach(s => s.timeSlots?.forEach(slot => { addBreakpoint(slot.startTime); addBreakpoint(slot.endTime); }));
+
+    const points = Array.from(breakpoints).sort((a, b) => a - b);
+    const items: IPricingLineItem[] = [];
+
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i];
+      const to = points[i + 1];
+      const { rate, source, label } = this.resolveRate(field, params.bookingDate, from, params.holiday);
+      const hours = (to - from) / 60;
+      const previous = items[items.length - 1];
+
+      if (previous && previous.unitPrice === rate && previous.rateSource === source && previous.endTime === toTime(from)) {
+        previous.quantity += hours;
+        previous.total = round(previous.unitPrice * previous.quantity);
+        previous.endTime = toTime(to);
+        previous.description = this.describeFieldItem(field, previous.startTime as string, previous.endTime, label);
+        continue;
+      }
+
+      items.push({
+        type: 'field',
+        description: this.describeFieldItem(field, toTime(from), toTime(to), label),
+        quantity: hours,
+        unitPrice: rate,
+        total: round(rate * hours),
+        rateSource: source,
+        startTime: toTime(from),
+        endTime: toTime(to)
+      });
+    }
+
+    return items;
+  }
+
+  private static describeFieldItem(field: IField, startTime: string, endTime: string, label?: string): string {
+    return `Field Booking - ${field.name} ${startTime}-${endTime}${label ? ` (${label})` : ''}`;
+  }
+
+  private static findSlotRate(slots: ITimeSlot[] | undefined, minuteOfDay: number): number | undefined {
+    const slot = slots?.find(s =>
+      minuteOfDay >= toMinutes(s.startTime) &&
+      minuteOfDay < toEndMinutes(s.endTime) &&
+      (s.hourlyRate !== undefined || s.specialRate !== undefined)
+    );
+    return slot ? (slot.hourlyRate ?? slot.specialRate) : undefined;
+  }
+
+  private static toDay(bookingDate: Date | string): moment.Moment {
+    return typeof bookingDate === 'string'
+      ? moment.utc(bookingDate.split('T')[0], 'YYYY-MM-DD')
+      : moment.utc(bookingDate).startOf('day');
+  }
+}
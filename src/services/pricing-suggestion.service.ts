@@ -0,0 +1,333 @@
+import moment from 'moment-timezone';
+import Booking from '../models/Booking';
+import { IField, IPricingTier, IStadium } from '../models/Stadium';
+import { PricingEngine } from './pricing-engine.service';
+import { SlotGeneratorService } from './slot-generator.service';
+
+// Occupancy thresholds for raising or discounting an hour
+const PEAK_OCCUPANCY = 0.8;
+const LOW_OCCUPANCY = 0.3;
+const PEAK_INCREASE = 0.15;
+const OFF_PEAK_DISCOUNT = 0.15;
+
+// Demand response to price: busy slots barely react, empty slots react strongly
+const PEAK_ELASTICITY = -0.5;
+const OFF_PEAK_ELASTICITY = -1.5;
+
+// Fields without opening hours or a weekly schedule are assumed open during these hours
+const DEFAULT_OPEN_HOUR = 8;
+const DEFAULT_CLOSE_HOUR = 22;
+
+const MIN_BOOKINGS_FOR_SUGGESTIONS = 10;
+const WEEKS_PER_MONTH = 52 / 12;
+
+export interface BookingWindow {
+  bookingDate: Date;
+  startTime: string;
+  endTime: string;
+}
+
+export interface OccupancyCell {
+  dayOfWeek: number;
+  hour: number;
+  bookedHours: number;
+  occupancy: number;
+}
+
+export interface PricingSuggestion {
+  fieldId: string;
+  fieldName: string;
+  type: 'peak' | 'off_peak';
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  averageOccupancy: number;
+  currentRate: number;
+  suggestedRate: number;
+  changePercentage: number;
+  revenueImpact: {
+    currentWeekly: number;
+    projectedWeekly: number;
+    weeklyChange: number;
+    monthlyChange: number;
+  };
+}
+
+export interface ApplySuggestionInput {
+  fieldId: string;
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  hourlyRate: number;
+  description?: string;
+}
+
+interface HourBlock {
+  type: PricingSuggestion['type'];
+  dayOfWeek: number;
+  startHour: number;
+  endHour: number;
+  currentRate: number;
+  occupancies: number[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toEndMinutes = (time: string): number => toMinutes(time) || MINUTES_PER_DAY;
+
+// Pricing tiers run until midnight by ending at 00:00
+const hourToTime = (hour: number): string => `${String(hour % 24).padStart(2, '0')}:00`;
+
+const hourToRangeTime = (hour: number): string => `${String(hour).padStart(2, '0')}:00`;
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PricingSuggestionService {
+  /**
+   * Share of weeks each open hour of the week was booked. Opening hours are those of the
+   * coming week from the reference date.
+   */
+  static buildOccupancyGrid(field: IField, bookings: BookingWindow[], weeks: number, referenceDate: Date = new Date()): OccupancyCell[] {
+    const booked = new Map<string, number>();
+
+    for (const booking of bookings) {
+      const dayOfWeek = moment.utc(booking.bookingDate).day();
+      const start = toMinutes(booking.startTime);
+      const end = toEndMinutes(booking.endTime);
+
+      for (let hour = Math.floor(start / 60); hour * 60 < end; hour++) {
+        const overlap = Math.min(end, (hour + 1) * 60) - Math.max(start, hour * 60);
+        if (overlap > 0) {
+          const key = `${dayOfWeek}:${hour}`;
+          booked.set(key, (booked.get(key) || 0) + overlap / 60);
+        }
+      }
+    }
+
+    const cells: OccupancyCell[] = [];
+    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+      const date = this.nextDateForDay(referenceDate, dayOfWeek);
+      for (let hour = 0; hour < 24; hour++) {
+        if (!this.isOpen(field, date, hour)) continue;
+
+        const bookedHours = booked.get(`${dayOfWeek}:${hour}`) || 0;
+        cells.push({
+          dayOfWeek,
+          hour,
+          bookedHours: round(bookedHours),
+          occupancy: round(Math.min(1, bookedHours / weeks))
+        });
+      }
+    }
+
+    return cells;
+  }
+
+  /**
+   * Turn an occupancy grid into peak and off-peak tier suggestions for a field
+   */
+  static suggestForField(fieldId: string, field: IField, cells: OccupancyCell[], referenceDate: Date = new Date()): PricingSuggestion[] {
+    const blocks: HourBlock[] = [];
+
+    for (let dayOfWeek = 0; dayOfWeek < 7; dayOfWeek++) {
+      const rateDate = this.nextDateForDay(referenceDate, dayOfWeek);
+      let current: HourBlock | null = null;
+
+      for (const cell of cells.filter(c => c.dayOfWeek === dayOfWeek).sort((a, b) => a.hour - b.hour)) {
+        const resolved = PricingEngine.resolveRate(field, rateDate, cell.hour * 60);
+        const currentRate = resolved.rate;
+
+        // Per-slot rates take precedence over tiers, so a suggested tier would have no effect there
+        const type = resolved.source === 'time_slot' || resolved.source === 'special_date'
+          ? null
+          : cell.occupancy >= PEAK_OCCUPANCY ? 'peak' : cell.occupancy <= LOW_OCCUPANCY ? 'off_peak' : null;
+
+        if (current && type === current.type && current.endHour === cell.hour && current.currentRate === currentRate) {
+          current.endHour = cell.hour + 1;
+          current.occupancies.push(cell.occupancy);
+          continue;
+        }
+
+        if (current) blocks.push(current);
+        current = type
+          ? { type, dayOfWeek, startHour: cell.hour, endHour: cell.hour + 1, currentRate, occupancies: [cell.occupancy] }
+          : null;
+      }
+
+      if (current) blocks.push(current);
+    }
+
+    // The same window on several days becomes one tier
+    const merged = new Map<string, HourBlock & { days: number[] }>();
+    for (const block of blocks) {
+      const key = `${block.type}:${block.startHour}:${block.endHour}:${block.currentRate}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.days.push(block.dayOfWeek);
+        existing.occupancies.push(...block.occupancies);
+      } else {
+        merged.set(key, { ...block, days: [block.dayOfWeek], occupancies: [...block.occupancies] });
+      }
+    }
+
+    const currency = field.pricing.currency || 'LAK';
+    const suggestions: PricingSuggestion[] = [];
+
+    for (const block of merged.values()) {
+      const change = block.type === 'peak' ? PEAK_INCREASE : -OFF_PEAK_DISCOUNT;
+      const suggestedRate = this.roundRate(block.currentRate * (1 + change), currency);
+      if (suggestedRate === block.currentRate || block.currentRate <= 0) continue;
+
+      const actualChange = (suggestedRate - block.currentRate) / block.currentRate;
+      const elasticity = block.type === 'peak' ? PEAK_ELASTICITY : OFF_PEAK_ELASTICITY;
+      const currentWeekly = block.occupancies.reduce((sum, occupancy) => sum + occupancy * block.currentRate, 0);
+      const projectedWeekly = block.occupancies.reduce((sum, occupancy) => {
+        const projectedOccupancy = Math.min(1, Math.max(0, occupancy * (1 + elasticity * actualChange)));
+        return sum + projectedOccupancy * suggestedRate;
+      }, 0);
+
+      suggestions.push({
+        fieldId,
+        fieldName: field.name,
+        type: block.type,
+        daysOfWeek: block.days.sort((a, b) => a - b),
+        startTime: hourToTime(block.startHour),
+        endTime: hourToTime(block.endHour),
+        averageOccupancy: round(block.occupancies.reduce((sum, o) => sum + o, 0) / block.occupancies.length),
+        currentRate: block.currentRate,
+        suggestedRate,
+        changePercentage: round(actualChange * 100),
+        revenueImpact: {
+          currentWeekly: round(currentWeekly),
+          projectedWeekly: round(projectedWeekly),
+          weeklyChange: round(projectedWeekly - currentWeekly),
+          monthlyChange: round((projectedWeekly - currentWeekly) * WEEKS_PER_MONTH)
+        }
+      });
+    }
+
+    return suggestions.sort((a, b) => b.revenueImpact.weeklyChange - a.revenueImpact.weeklyChange);
+  }
+
+  /**
+   * Pricing suggestions for every field of a stadium from its recent bookings
+   */
+  static async getSuggestions(stadium: IStadium, options: { weeks?: number; fieldId?: string } = {}) {
+    const weeks = options.weeks || 12;
+    const endDate = moment.utc().startOf('day').toDate();
+    const startDate = moment.utc(endDate).subtract(weeks, 'weeks').toDate();
+
+    const bookings = await Booking.find({
+      stadiumId: stadium._id,
+      bookingDate: { $gte: startDate, $lt: endDate },
+      status: { $in: ['confirmed', 'completed'] }
+    }).select('fieldId bookingDate startTime endTime');
+
+    const fields = (stadium.fields || [])
+      .map(field => ({ fieldId: String((field as any)._id), field }))
+      .filter(({ fieldId }) => !options.fieldId || fieldId === options.fieldId);
+
+    const results = fields.map(({ fieldId, field }) => {
+      const fieldBookings = bookings.filter(booking => booking.fieldId.toString() === fieldId);
+      const cells = this.buildOccupancyGrid(field, fieldBookings, weeks);
+      const suggestions = fieldBookings.length >= MIN_BOOKINGS_FOR_SUGGESTIONS
+        ? this.suggestForField(fieldId, field, cells)
+        : [];
+
+      return {
+        fieldId,
+        fieldName: field.name,
+        bookingsAnalyzed: fieldBookings.length,
+        averageOccupancy: cells.length
+          ? round(cells.reduce((sum, cell) => sum + cell.occupancy, 0) / cells.length)
+          : 0,
+        occupancy: cells,
+        suggestions,
+        message: fieldBookings.length < MIN_BOOKINGS_FOR_SUGGESTIONS
+          ? `At least ${MIN_BOOKINGS_FOR_SUGGESTIONS} bookings are needed to suggest prices`
+          : undefined,
+        projectedMonthlyChange: round(suggestions.reduce((sum, s) => sum + s.revenueImpact.monthlyChange, 0))
+      };
+    });
+
+    return {
+      period: { startDate, endDate, weeks },
+      currency: stadium.fields?.[0]?.pricing?.currency || 'LAK',
+      fields: results,
+      projectedMonthlyChange: round(results.reduce((sum, field) => sum + field.projectedMonthlyChange, 0))
+    };
+  }
+
+  /**
+   * Write accepted suggestions into the fields' pricing tiers, replacing earlier suggested
+   * tiers for the same days and times
+   */
+  static applySuggestions(stadium: IStadium, suggestions: ApplySuggestionInput[]): Record<string, IPricingTier[]> {
+    const byField = new Map<string, ApplySuggestionInput[]>();
+    for (const suggestion of suggestions) {
+      byField.set(suggestion.fieldId, [...(byField.get(suggestion.fieldId) || []), suggestion]);
+    }
+
+    const updated: Record<string, IPricingTier[]> = {};
+
+    for (const [fieldId, fieldSuggestions] of byField) {
+      const field = stadium.fields?.find((f: any) => f._id?.toString() === fieldId);
+      if (!field) {
+        throw new Error(`Field not found: ${fieldId}`);
+      }
+
+      const tiers: IPricingTier[] = fieldSuggestions.map(suggestion => ({
+        name: 'custom',
+        description: suggestion.description || `Demand-based rate ${suggestion.startTime}-${suggestion.endTime}`,
+        startTime: suggestion.startTime,
+        endTime: suggestion.endTime,
+        daysOfWeek: suggestion.daysOfWeek,
+        hourlyRate: suggestion.hourlyRate,
+        isActive: true,
+        source: 'demand_suggestion'
+      }));
+
+      // An earlier suggestion keeps the days the new ones do not cover for its time window
+      const isReplaced = (tier: IPricingTier, dayOfWeek: number) => tiers.some(next =>
+        next.startTime === tier.startTime && next.endTime === tier.endTime && next.daysOfWeek.includes(dayOfWeek));
+      const existingTiers = field.pricing.pricingTiers || [];
+      const earlierSuggestions = existingTiers
+        .filter(tier => tier.source === 'demand_suggestion')
+        .filter(tier => {
+          tier.daysOfWeek = tier.daysOfWeek.filter(dayOfWeek => !isReplaced(tier, dayOfWeek));
+          return tier.daysOfWeek.length > 0;
+        });
+      const manualTiers = existingTiers.filter(tier => tier.source !== 'demand_suggestion');
+
+      // Suggested tiers go first so they win over overlapping manual tiers
+      field.pricing.pricingTiers = [...tiers, ...earlierSuggestions, ...manualTiers];
+      updated[fieldId] = field.pricing.pricingTiers;
+    }
+
+    return updated;
+  }
+
+  private static isOpen(field: IField, date: string, hour: number): boolean {
+    if (!field.openingHours?.length && !field.availabilitySchedule?.length) {
+      return hour >= DEFAULT_OPEN_HOUR && hour < DEFAULT_CLOSE_HOUR;
+    }
+
+    return SlotGeneratorService.isOpen(field, date, hourToRangeTime(hour), hourToRangeTime(hour + 1));
+  }
+
+  private static nextDateForDay(referenceDate: Date, dayOfWeek: number): string {
+    const date = moment.utc(referenceDate).startOf('day');
+    date.add((dayOfWeek - date.day() + 7) % 7, 'days');
+    return date.format('YYYY-MM-DD');
+  }
+
+  // LAK prices are quoted in thousands
+  private static roundRate(rate: number, currency: string): number {
+    return currency === 'LAK' ? Math.round(rate / 1000) * 1000 : Math.round(rate);
+  }
+}
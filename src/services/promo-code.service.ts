@@ -0,0 +1,233 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import PromoCode, { IPromoCode } from '../models/PromoCode';
+import PromoRedemption, { IPromoRedemption } from '../models/PromoRedemption';
+import { IBooking } from '../models/Booking';
+import { DiscountInput } from './pricing-engine.service';
+
+export interface PromoEligibilityContext {
+  stadiumId: string;
+  fieldType?: string;
+  bookingDate: Date | string;
+  subtotal: number;
+  currency?: string;
+  now?: Date;
+}
+
+export interface PromoCodeFilters {
+  stadiumId?: string | string[];
+  isActive?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export class PromoCodeService {
+  /**
+   * Codes are stored and matched in upper case
+   */
+  static normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Check a code's restrictions against a booking, throwing the first one that fails
+   */
+  static assertEligible(promo: Pick<IPromoCode, 'isActive' | 'validFrom' | 'validUntil' | 'stadiumId' | 'minSpend' | 'fieldTypes' | 'daysOfWeek' | 'usageLimit' | 'usageCount'>, context: PromoEligibilityContext): void {
+    const now = context.now || new Date();
+
+    if (!promo.isActive) {
+      throw new Error('Promo code is not active');
+    }
+
+    if (now < promo.validFrom) {
+      throw new Error('Promo code is not yet valid');
+    }
+
+    if (now > promo.validUntil) {
+      throw new Error('Promo code has expired');
+    }
+
+    if (promo.stadiumId && promo.stadiumId.toString() !== context.stadiumId.toString()) {
+      throw new Error('Promo code is not valid for this stadium');
+    }
+
+    if (promo.usageLimit !== undefined && promo.usageLimit !== null && promo.usageCount >= promo.usageLimit) {
+      throw new Error('Promo code usage limit reached');
+    }
+
+    if (promo.minSpend && context.subtotal < promo.minSpend) {
+      throw new Error(`Promo code requires a minimum spend of ${promo.minSpend} ${context.currency || 'LAK'}`);
+    }
+
+    if (promo.fieldTypes?.length && (!context.fieldType || !promo.fieldTypes.includes(context.fieldType))) {
+      throw new Error('Promo code is not valid for this field type');
+    }
+
+    if (promo.daysOfWeek?.length) {
+      const bookingDay = typeof context.bookingDate === 'string'
+        ? moment.utc(context.bookingDate.split('T')[0], 'YYYY-MM-DD').day()
+        : moment.utc(context.bookingDate).day();
+      if (!promo.daysOfWeek.includes(bookingDay)) {
+        throw new Error('Promo code is not valid on this day');
+      }
+    }
+  }
+
+  /**
+   * Look up a code and confirm a customer may use it for a booking
+   */
+  static async resolve(code: string, userId: string, context: PromoEligibilityContext): Promise<IPromoCode> {
+    const promo = await PromoCode.findOne({ code: this.normalizeCode(code) });
+    if (!promo) {
+      throw new Error('Promo code not found');
+    }
+
+    this.assertEligible(promo, context);
+
+    if (promo.perUserLimit) {
+      const used = await PromoRedemption.countDocuments({
+        promoCodeId: promo._id,
+        userId: new mongoose.Types.ObjectId(userId),
+        status: 'applied'
+      });
+      if (used >= promo.perUserLimit) {
+        throw new Error('Promo code has already been used the maximum number of times');
+      }
+    }
+
+    return promo;
+  }
+
+  /**
+   * Discount to pass to the pricing engine for a code
+   */
+  static toDiscountInput(promo: IPromoCode): DiscountInput {
+    return {
+      type: promo.discountType,
+      value: promo.discountValue,
+      maxAmount: promo.maxDiscountAmount,
+      description: `Promo code ${promo.code}`,
+      promoCodeId: promo._id as mongoose.Types.ObjectId,
+      code: promo.code,
+      fundedBy: promo.fundedBy
+    };
+  }
+
+  /**
+   * Record a redemption against a booking, claiming one use of the code
+   */
+  static async redeem(promo: IPromoCode, booking: IBooking): Promise<IPromoRedemption> {
+    const discount = booking.pricing.discounts?.find(d => d.code === promo.code);
+    if (!discount) {
+      throw new Error('Promo code did not apply to this booking');
+    }
+
+    // Claim the use atomically so concurrent bookings cannot exceed the global cap
+    const claimed = await PromoCode.findOneAndUpdate(
+      {
+        _id: promo._id,
+        $or: [
+          { usageLimit: { $exists: false } },
+          { usageLimit: null },
+          { $expr: { $lt: ['$usageCount', '$usageLimit'] } }
+        ]
+      },
+      { $inc: { usageCount: 1 } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      throw new Error('Promo code usage limit reached');
+    }
+
+    return PromoRedemption.create({
+      promoCodeId: promo._id,
+      code: promo.code,
+      userId: booking.userId,
+      bookingId: booking._id,
+      stadiumId: booking.stadiumId,
+      discountAmount: discount.amount,
+      currency: booking.pricing.currency || 'LAK',
+      fundedBy: promo.fundedBy
+    });
+  }
+
+  /**
+   * Void a booking's redemptions and give the uses back to their codes
+   */
+  static async releaseRedemption(bookingId: mongoose.Types.ObjectId | string): Promise<void> {
+    const redemptions = await PromoRedemption.find({ bookingId, status: 'applied' });
+
+    for (const redemption of redemptions) {
+      const voided = await PromoRedemption.findOneAndUpdate(
+        { _id: redemption._id, status: 'applied' },
+        { status: 'voided', voidedAt: new Date() }
+      );
+      if (voided) {
+        await PromoCode.updateOne(
+          { _id: redemption.promoCodeId, usageCount: { $gt: 0 } },
+          { $inc: { usageCount: -1 } }
+        );
+      }
+    }
+  }
+
+  /**
+   * Paginated promo codes, newest first
+   */
+  static async list(filters: PromoCodeFilters = {}) {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const query: Record<string, any> = {};
+
+    if (Array.isArray(filters.stadiumId)) {
+      query.stadiumId = { $in: filters.stadiumId.map(id => new mongoose.Types.ObjectId(id)) };
+    } else if (filters.stadiumId) {
+      query.stadiumId = new mongoose.Types.ObjectId(filters.stadiumId);
+    }
+
+    if (filters.isActive !== undefined) {
+      query.isActive = filters.isActive;
+    }
+
+    const [promoCodes, total] = await Promise.all([
+      PromoCode.find(query)
+        .populate('stadiumId', 'name')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PromoCode.countDocuments(query)
+    ]);
+
+    return {
+      promoCodes,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Redemptions of a code with totals split by status
+   */
+  static async getRedemptions(promoCodeId: string) {
+    const redemptions = await PromoRedemption.find({ promoCodeId })
+      .populate('userId', 'firstName lastName email')
+      .populate('bookingId', 'bookingNumber bookingDate status')
+      .sort({ createdAt: -1 });
+
+    const applied = redemptions.filter(r => r.status === 'applied');
+
+    return {
+      redemptions,
+      summary: {
+        totalRedemptions: applied.length,
+        voidedRedemptions: redemptions.length - applied.length,
+        totalDiscount: applied.reduce((sum, r) => sum + r.discountAmount, 0)
+      }
+    };
+  }
+}
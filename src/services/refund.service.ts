@@ -0,0 +1,204 @@
+import mongoose from 'mongoose';
+import { IBooking } from '../models/Booking';
+import Stadium from '../models/Stadium';
+import { IPayment, IRefund } from '../types/booking.types';
+import { PaymentLedgerService, RefundTotals } from './payment-ledger.service';
+
+export interface RefundRequestParams {
+  amount?: number;
+  reason?: string;
+  requestedBy: string;
+}
+
+export interface RefundPayoutParams {
+  paymentMethod?: IPayment['paymentMethod'];
+  transactionReference?: string;
+  processedBy: string;
+}
+
+export class RefundService {
+  /**
+   * Check whether a user may review refunds for the booking's stadium
+   */
+  static async canManageRefunds(booking: IBooking, userId?: string, userRole?: string): Promise<boolean> {
+    if (userRole === 'superadmin') {
+      return true;
+    }
+
+    if (userRole !== 'stadium_owner' || !userId) {
+      return false;
+    }
+
+    const stadium = await Stadium.findById(booking.stadiumId).select('ownerId');
+    return !!stadium && stadium.ownerId.toString() === userId;
+  }
+
+  /**
+   * Gross, refunded and net amounts for a booking's payment ledger
+   */
+  static getTotals(booking: IBooking): RefundTotals {
+    return PaymentLedgerService.getTotals(booking);
+  }
+
+  /**
+   * Open a refund request against a booking
+   */
+  static requestRefund(booking: IBooking, params: RefundRequestParams): IRefund {
+    const { totalPaid, totalRefunded, pendingRefunds } = this.getTotals(booking);
+    const refundable = totalPaid - totalRefunded - pendingRefunds;
+    const amount = params.amount ?? booking.cancellation?.refundAmount ?? refundable;
+
+    if (amount <= 0) {
+      throw new Error('Refund amount must be greater than zero');
+    }
+
+    if (amount > refundable) {
+      throw new Error(`Refund amount exceeds the refundable balance of ${refundable}`);
+    }
+
+    const refund: IRefund = {
+      _id: new mongoose.Types.ObjectId(),
+      amount,
+      currency: booking.pricing.currency || 'LAK',
+      status: 'requested',
+      reason: params.reason,
+      requestedBy: new mongoose.Types.ObjectId(params.requestedBy),
+      requestedAt: new Date()
+    };
+
+    if (!Array.isArray(booking.refunds)) {
+      booking.refunds = [];
+    }
+    booking.refunds.push(refund);
+
+    this.syncCancellationRefund(booking, 'requested');
+    this.addHistory(booking, params.requestedBy, `Refund of ${amount} ${refund.currency} requested`, { refundStatus: 'requested' });
+
+    return booking.refunds[booking.refunds.length - 1];
+  }
+
+  /**
+   * Approve a requested refund
+   */
+  static approveRefund(booking: IBooking, refundId: string, reviewedBy: string): IRefund {
+    const refund = this.findRefund(booking, refundId);
+
+    if (refund.status !== 'requested') {
+      throw new Error(`Refund cannot be approved. Current status: ${refund.status}`);
+    }
+
+    refund.status = 'approved';
+    refund.reviewedBy = new mongoose.Types.ObjectId(reviewedBy);
+    refund.reviewedAt = new Date();
+
+    this.syncCancellationRefund(booking, 'approved');
+    this.addHistory(booking, reviewedBy, `Refund of ${refund.amount} ${refund.currency} approved`, { refundStatus: 'approved' });
+
+    return refund;
+  }
+
+  /**
+   * Reject a requested or approved refund
+   */
+  static rejectRefund(booking: IBooking, refundId: string, reviewedBy: string, rejectionReason?: string): IRefund {
+    const refund = this.findRefund(booking, refundId);
+
+    if (refund.status !== 'requested' && refund.status !== 'approved') {
+      throw new Error(`Refund cannot be rejected. Current status: ${refund.status}`);
+    }
+
+    refund.status = 'rejected';
+    refund.reviewedBy = new mongoose.Types.ObjectId(reviewedBy);
+    refund.reviewedAt = new Date();
+    refund.rejectionReason = rejectionReason;
+
+    this.syncCancellationRefund(booking, 'rejected');
+    this.addHistory(booking, reviewedBy, `Refund rejected${rejectionReason ? `: ${rejectionReason}` : ''}`, { refundStatus: 'rejected' });
+
+    return refund;
+  }
+
+  /**
+   * Mark an approved refund as paid out and record it in the payment ledger
+   */
+  static markPaidOut(booking: IBooking, refundId: string, params: RefundPayoutParams): IRefund {
+    const refund = this.findRefund(booking, refundId);
+
+    if (refund.status !== 'approved') {
+      throw new Error(`Only approved refunds can be paid out. Current status: ${refund.status}`);
+    }
+
+    const now = new Date();
+    const paymentMethod = params.paymentMethod || this.getOriginalPaymentMethod(booking);
+
+    refund.status = 'paid_out';
+    refund.paidOutAt = now;
+    refund.paymentMethod = paymentMethod;
+    refund.transactionReference = params.transactionReference;
+
+    if (!Array.isArray(booking.payments)) {
+      booking.payments = [];
+    }
+    booking.payments.push({
+      paymentMethod,
+      amount: -refund.amount,
+      currency: refund.currency,
+      status: 'refunded',
+      transactionId: params.transactionReference,
+      refundId: refund._id,
+      processedAt: now,
+      createdAt: now
+    });
+
+    this.updatePaymentStatus(booking);
+    this.syncCancellationRefund(booking, 'paid_out');
+    this.addHistory(booking, params.processedBy, `Refund of ${refund.amount} ${refund.currency} paid out via ${paymentMethod}`, {
+      refundStatus: 'paid_out',
+      paymentStatus: booking.paymentStatus
+    });
+
+    return refund;
+  }
+
+  /**
+   * Move the booking to refunded or partially_refunded once refunds have been paid out
+   */
+  static updatePaymentStatus(booking: IBooking): void {
+    const { totalPaid, totalRefunded } = this.getTotals(booking);
+
+    if (totalRefunded <= 0) {
+      return;
+    }
+
+    booking.paymentStatus = totalRefunded >= totalPaid ? 'refunded' : 'partially_refunded';
+  }
+
+  private static findRefund(booking: IBooking, refundId: string): IRefund {
+    const refund = (booking.refunds || []).find(r => r._id?.toString() === refundId);
+    if (!refund) {
+      throw new Error('Refund not found');
+    }
+    return refund;
+  }
+
+  private static getOriginalPaymentMethod(booking: IBooking): IPayment['paymentMethod'] {
+    const lastPayment = [...(booking.payments || [])].reverse().find(p => p.status === 'completed' && p.amount > 0);
+    return lastPayment?.paymentMethod || 'bank_transfer';
+  }
+
+  private static syncCancellationRefund(booking: IBooking, refundStatus: IRefund['status']): void {
+    if (booking.cancellation) {
+      booking.cancellation.refundStatus = refundStatus;
+    }
+  }
+
+  private static addHistory(booking: IBooking, changedBy: string, notes: string, newValues: Record<string, any>): void {
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(changedBy),
+      newValues,
+      notes,
+      timestamp: new Date()
+    } as any);
+  }
+}
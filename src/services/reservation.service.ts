@@ -0,0 +1,165 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import SlotReservation, { ISlotReservation } from '../models/SlotReservation';
+import { BookingRulesService } from './booking-rules.service';
+import { FieldRelationService } from './field-relation.service';
+import { SLOT_UNAVAILABLE } from './slot-hold.service';
+
+// Bookings in these states occupy their field
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+const MINUTES_PER_DAY = 24 * 60;
+
+type ReservableBooking = Pick<IBooking, '_id' | 'stadiumId' | 'fieldId' | 'additionalFieldIds' | 'bookingDate' | 'startTime' | 'endTime' | 'status'>;
+type FieldRef = string | mongoose.Types.ObjectId;
+
+export class ReservationService {
+  static getDay(bookingDate: Date | string): string {
+    return new Date(bookingDate).toISOString().split('T')[0];
+  }
+
+  /**
+   * Minutes since midnight covered by a time range, end exclusive. A range ending at
+   * '00:00' runs until midnight.
+   */
+  static getMinutes(startTime: string, endTime: string): number[] {
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const end = toMinutes(endTime) || MINUTES_PER_DAY;
+    const minutes: number[] = [];
+    for (let minute = toMinutes(startTime); minute < end; minute++) {
+      minutes.push(minute);
+    }
+    return minutes;
+  }
+
+  /**
+   * Whether no other booking occupies any minute of the range, buffers included, on the
+   * fields or the ground they share with other fields
+   */
+  static async isAvailable(
+    fieldIds: FieldRef | FieldRef[],
+    bookingDate: Date | string,
+    startTime: string,
+    endTime: string,
+    excludeBookingId?: string | null
+  ): Promise<boolean> {
+    if (this.getMinutes(startTime, endTime).length === 0) {
+      return true;
+    }
+
+    const ids = Array.isArray(fieldIds) ? fieldIds : [fieldIds];
+    const fields = await FieldRelationService.getStadiumFields(ids);
+    const { start, end } = BookingRulesService.getOccupiedRange(fields, { fieldIds: ids, startTime, endTime });
+    const query: any = {
+      fieldId: { $in: FieldRelationService.getFootprint(fields, ids) },
+      day: this.getDay(bookingDate),
+      minute: { $gte: start, $lt: end }
+    };
+    if (excludeBookingId) {
+      query.bookingId = { $ne: excludeBookingId };
+    }
+
+    return !(await SlotReservation.exists(query));
+  }
+
+  /**
+   * Make a booking's reservations match its fields, date, times and status. Throws when
+   * another booking already holds any of the minutes, keeping the previous reservations.
+   * A field composed of smaller fields reserves their minutes too, so booking either
+   * the whole or a part blocks the other. The fields' buffers are reserved as well.
+   */
+  static async sync(booking: ReservableBooking): Promise<void> {
+    const bookingId = booking._id as mongoose.Types.ObjectId;
+    if (!ACTIVE_STATUSES.includes(booking.status)) {
+      await this.release(bookingId);
+      return;
+    }
+
+    const fieldIds = [booking.fieldId, ...(booking.additionalFieldIds || [])];
+    const fields = await FieldRelationService.getStadiumFields(fieldIds, booking.stadiumId);
+    const footprint = FieldRelationService.getFootprint(fields, fieldIds);
+    const day = this.getDay(booking.bookingDate);
+    const { start, end } = BookingRulesService.getOccupiedRange(fields, { fieldIds, startTime: booking.startTime, endTime: booking.endTime });
+    const minutes = Array.from({ length: Math.max(0, end - start) }, (_, i) => start + i);
+    const keyOf = (fieldId: unknown, minute: number) => `${fieldId}:${minute}`;
+    const wanted = new Set(footprint.flatMap(fieldId => minutes.map(minute => keyOf(fieldId, minute))));
+    const isWanted = (reservation: ISlotReservation) =>
+      reservation.day === day && wanted.has(keyOf(reservation.fieldId, reservation.minute));
+
+    const owned = await SlotReservation.find({ bookingId }).select('fieldId day minute');
+    const kept = new Set(owned.filter(isWanted).map(reservation => keyOf(reservation.fieldId, reservation.minute)));
+
+    // Every booking inserts in the same field and minute order, so of two overlapping
+    // bookings the one first to claim their earliest shared minute wins
+    const missing = footprint.slice().sort()
+      .flatMap(fieldId => minutes.filter(minute => !kept.has(keyOf(fieldId, minute))).map(minute => ({ fieldId, minute })));
+
+    if (missing.length > 0) {
+      const expiresAt = moment.utc(day).add(2, 'days').toDate();
+      const missingByField = footprint
+        .map(fieldId => ({ fieldId, day, minute: { $in: missing.filter(m => m.fieldId === fieldId).map(m => m.minute) } }))
+        .filter(condition => condition.minute.$in.length > 0);
+
+      try {
+        await SlotReservation.insertMany(
+          missing.map(({ fieldId, minute }) => ({ fieldId, day, minute, bookingId, expiresAt })),
+          { ordered: true }
+        );
+      } catch (error: any) {
+        if (error.code !== 11000) {
+          throw error;
+        }
+
+        const taken = await SlotReservation.exists({ $or: missingByField, bookingId: { $ne: bookingId } });
+        if (taken) {
+          await SlotReservation.deleteMany({ $or: missingByField, bookingId });
+          throw new Error(SLOT_UNAVAILABLE);
+        }
+
+        // Only this booking's own minutes were in the way, claimed by a concurrent sync
+        return this.sync(booking);
+      }
+    }
+
+    const stale = owned.filter(reservation => !isWanted(reservation)).map(reservation => reservation._id);
+    if (stale.length > 0) {
+      await SlotReservation.deleteMany({ _id: { $in: stale } });
+    }
+  }
+
+  static async release(bookingId: mongoose.Types.ObjectId | string): Promise<void> {
+    await SlotReservation.deleteMany({ bookingId });
+  }
+
+  /**
+   * Reserve upcoming bookings saved before reservations existed, or of a stadium whose
+   * field composition changed. Overlapping bookings are reported and left for the stadium to resolve.
+   */
+  static async backfill(now: Date = new Date(), stadiumId?: string): Promise<{ reserved: number; conflicts: string[] }> {
+    const bookings = await Booking.find({
+      ...(stadiumId ? { stadiumId } : {}),
+      status: { $in: ACTIVE_STATUSES },
+      bookingDate: { $gte: moment(now).utc().startOf('day').toDate() }
+    }).select('bookingNumber stadiumId fieldId additionalFieldIds bookingDate startTime endTime status');
+
+    let reserved = 0;
+    const conflicts: string[] = [];
+    for (const booking of bookings) {
+      try {
+        await this.sync(booking);
+        reserved++;
+      } catch (error: any) {
+        if (error.message !== SLOT_UNAVAILABLE) {
+          throw error;
+        }
+        conflicts.push(booking.bookingNumber);
+      }
+    }
+
+    return { reserved, conflicts };
+  }
+}
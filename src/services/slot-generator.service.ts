@@ -0,0 +1,154 @@
+import moment from 'moment-timezone';
+import { IField, ISpecialDate, ITimeRange } from '../models/Stadium';
+import { PricingEngine } from './pricing-engine.service';
+import { CalendarDay } from './holiday.service';
+
+export interface ScheduledSlot {
+  startTime: string;
+  endTime: string;
+  rate: number;
+  currency: string;
+  isAvailable: boolean; // False for hand-entered slots switched off in the schedule
+}
+
+export interface SlotOptions {
+  durationMinutes?: number;
+  granularityMinutes?: number;
+}
+
+// A stretch of the day from the schedule; generated ones are cut into slots
+type ScheduleEntry = ITimeRange & { isAvailable: boolean; generated: boolean };
+
+// Slot length when neither the caller nor the field's minimum duration sets one
+const DEFAULT_DURATION_MINUTES = 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export class SlotGeneratorService {
+  static findSpecialDate(field: IField, date: Date | string): ISpecialDate | undefined {
+    const day = this.toDay(date);
+    return field.specialDates?.find(special => moment.utc(special.date).isSame(day, 'day'));
+  }
+
+  /**
+   * Times a field can be booked on a date, most specific rule first: a holiday, blackout or
+   * closure from the calendar, a closure or opening hours set for the date on the field, its
+   * hand-entered slots, the weekday's opening hours, then the weekday's hand-entered slots
+   */
+  static getOpenPeriods(field: IField, date: Date | string, day?: CalendarDay): ITimeRange[] {
+    return this.getSchedule(field, date, day)
+      .filter(entry => entry.isAvailable)
+      .map(({ startTime, endTime }) => ({ startTime, endTime }));
+  }
+
+  /**
+   * Whether the whole range falls inside one of the field's open periods for the date
+   */
+  static isOpen(field: IField, date: Date | string, startTime: string, endTime: string, day?: CalendarDay): boolean {
+    const start = toMinutes(startTime);
+    const end = toMinutes(endTime);
+    return this.getOpenPeriods(field, date, day)
+      .some(period => toMinutes(period.startTime) <= start && toMinutes(period.endTime) >= end);
+  }
+
+  /**
+   * Bookable slots for a field on a date. Opening hours are cut into slots of the requested
+   * duration, or the field's minimum duration, starting every granularity step; hand-entered
+   * slots are returned as they were entered. On a public holiday slots are priced at the holiday tier.
+   */
+  static generateSlots(field: IField, date: Date | string, options: SlotOptions = {}, day?: CalendarDay): ScheduledSlot[] {
+    const currency = field.pricing.currency || 'LAK';
+    const rules = field.bookingRules || {};
+    const duration = options.durationMinutes || rules.minDurationMinutes || DEFAULT_DURATION_MINUTES;
+    const granularity = options.granularityMinutes || rules.slotGranularityMinutes;
+    const toSlot = (startTime: string, endTime: string, isAvailable = true): ScheduledSlot => ({
+      startTime,
+      endTime,
+      rate: PricingEngine.resolveRate(field, date, toMinutes(startTime), day?.holiday).rate,
+      currency,
+      isAvailable
+    });
+
+    const slots: ScheduledSlot[] = [];
+    for (const entry of this.getSchedule(field, date, day)) {
+      if (!entry.generated) {
+        slots.push(toSlot(entry.startTime, entry.endTime, entry.isAvailable));
+        continue;
+      }
+
+      // Without a configured granularity slots follow each other from the opening time;
+      // with one they start on its multiples from midnight, like the booking rules require
+      const open = toMinutes(entry.startTime);
+      const close = toMinutes(entry.endTime);
+      const step = granularity || duration;
+      const base = granularity ? 0 : open;
+      for (let start = base + Math.ceil((open - base) / step) * step; start + duration <= close; start += step) {
+        slots.push(toSlot(toTime(start), toTime(start + duration)));
+      }
+    }
+
+    return slots.sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+  }
+
+  private static getSchedule(field: IField, date: Date | string, day?: CalendarDay): ScheduleEntry[] {
+    if (day?.isClosed) {
+      return [];
+    }
+
+    const special = this.findSpecialDate(field, date);
+    if (special?.isClosed) {
+      return [];
+    }
+    if (special?.openTime && special.closeTime) {
+      return this.subtractBreaks({ startTime: special.openTime, endTime: special.closeTime }, special.breaks);
+    }
+    if (special?.timeSlots?.length) {
+      return special.timeSlots.map(slot => ({ startTime: slot.startTime, endTime: slot.endTime, isAvailable: slot.isAvailable !== false, generated: false }));
+    }
+
+    const dayOfWeek = this.toDay(date).day();
+    const hours = field.openingHours?.find(h => h.dayOfWeek === dayOfWeek);
+    if (hours) {
+      return this.subtractBreaks({ startTime: hours.openTime, endTime: hours.closeTime }, hours.breaks);
+    }
+
+    const schedule = field.availabilitySchedule?.find(s => s.dayOfWeek === dayOfWeek);
+    return (schedule?.timeSlots || [])
+      .map(slot => ({ startTime: slot.startTime, endTime: slot.endTime, isAvailable: slot.isAvailable !== false, generated: false }));
+  }
+
+  /**
+   * Split opening hours into the periods between breaks
+   */
+  private static subtractBreaks(hours: ITimeRange, breaks: ITimeRange[] = []): ScheduleEntry[] {
+    const periods: ScheduleEntry[] = [];
+    let cursor = toMinutes(hours.startTime);
+    const close = toMinutes(hours.endTime);
+
+    const sorted = breaks.slice().sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+    for (const pause of sorted) {
+      const from = Math.max(cursor, toMinutes(pause.startTime));
+      if (from > cursor && cursor < close) {
+        periods.push({ startTime: toTime(cursor), endTime: toTime(Math.min(from, close)), isAvailable: true, generated: true });
+      }
+      cursor = Math.max(cursor, toMinutes(pause.endTime));
+    }
+    if (cursor < close) {
+      periods.push({ startTime: toTime(cursor), endTime: toTime(close), isAvailable: true, generated: true });
+    }
+
+    return periods;
+  }
+
+  private static toDay(date: Date | string): moment.Moment {
+    return typeof date === 'string'
+      ? moment.utc(date.split('T')[0], 'YYYY-MM-DD')
+      : moment.utc(date).startOf('day');
+  }
+}
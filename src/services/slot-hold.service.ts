@@ -0,0 +1,190 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import SlotHold, { ISlotHold } from '../models/SlotHold';
+import { FieldRelationService } from './field-relation.service';
+import { ReservationService } from './reservation.service';
+
+export const SLOT_UNAVAILABLE = 'Time slot is no longer available';
+
+// How long a selected slot stays reserved while the customer checks out
+const HOLD_MINUTES = Number(process.env.SLOT_HOLD_MINUTES) || 10;
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A range ending at '00:00' runs until midnight
+const toEndMinutes = (time: string): number => toMinutes(time) || MINUTES_PER_DAY;
+
+export interface HoldOwner {
+  userId?: string;
+  holdId?: string; // Anonymous checkouts prove ownership with the hold id
+}
+
+export interface CreateHoldParams {
+  stadiumId: string;
+  fieldId: string;
+  bookingDate: string | Date;
+  startTime: string;
+  endTime: string;
+  userId?: string;
+  holdMinutes?: number; // Longer holds, e.g. for a slot offered to a waitlisted user
+}
+
+export class SlotHoldService {
+  /**
+   * Whether two time ranges share a minute; times may be written with or without a leading zero
+   */
+  static overlaps(a: { startTime: string; endTime: string }, b: { startTime: string; endTime: string }): boolean {
+    return toMinutes(a.startTime) < toEndMinutes(b.endTime) && toEndMinutes(a.endTime) > toMinutes(b.startTime);
+  }
+
+  static isOwnedBy(hold: Pick<ISlotHold, '_id' | 'userId'>, owner: HoldOwner = {}): boolean {
+    return (!!owner.userId && hold.userId?.toString() === owner.userId) ||
+      (!!owner.holdId && String(hold._id) === owner.holdId);
+  }
+
+  /**
+   * Unexpired holds on a field, or on fields sharing its ground, for a day, leaving out the caller's own
+   */
+  static async getActiveHolds(fieldId: string, bookingDate: string | Date, owner: HoldOwner = {}, now: Date = new Date()): Promise<ISlotHold[]> {
+    const holds = await SlotHold.find({
+      fieldId: { $in: await FieldRelationService.resolveRelatedIds([fieldId]) },
+      bookingDate: new Date(bookingDate),
+      expiresAt: { $gt: now }
+    }).select('startTime endTime userId expiresAt');
+
+    return holds.filter(hold => !this.isOwnedBy(hold, owner));
+  }
+
+  /**
+   * Unexpired holds on any field of a stadium within a date range, leaving out the caller's own
+   */
+  static async getActiveStadiumHolds(stadiumId: string, from: Date, until: Date, owner: HoldOwner = {}, now: Date = new Date()): Promise<ISlotHold[]> {
+    const holds = await SlotHold.find({
+      stadiumId,
+      bookingDate: { $gte: from, $lte: until },
+      expiresAt: { $gt: now }
+    }).select('fieldId startTime endTime userId expiresAt');
+
+    return holds.filter(hold => !this.isOwnedBy(hold, owner));
+  }
+
+  /**
+   * Reserve a slot for the checkout window. Holding a slot again extends the
+   * caller's existing hold. Throws when the slot is booked or held by someone else.
+   */
+  static async createHold(params: CreateHoldParams, now: Date = new Date()): Promise<ISlotHold> {
+    const bookingDate = new Date(params.bookingDate);
+    const owner: HoldOwner = { userId: params.userId };
+
+    // Expired holds may not have been swept yet and must not block the unique index
+    await SlotHold.deleteMany({ fieldId: params.fieldId, bookingDate, expiresAt: { $lte: now } });
+
+    if (!(await ReservationService.isAvailable(params.fieldId, bookingDate, params.startTime, params.endTime))) {
+      throw new Error(SLOT_UNAVAILABLE);
+    }
+
+    // A customer moving to another slot gives up the overlapping one they held
+    if (params.userId) {
+      await this.deleteOverlapping({ fieldId: params.fieldId, bookingDate, userId: params.userId }, params);
+    }
+
+    let hold: ISlotHold;
+    try {
+      hold = await SlotHold.create({
+        stadiumId: params.stadiumId,
+        fieldId: params.fieldId,
+        bookingDate,
+        startTime: params.startTime,
+        endTime: params.endTime,
+        userId: params.userId,
+        expiresAt: moment(now).add(params.holdMinutes || HOLD_MINUTES, 'minutes').toDate()
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error(SLOT_UNAVAILABLE);
+      }
+      throw error;
+    }
+
+    // The unique index only covers identical slots; a concurrent overlapping hold
+    // makes both requests back off rather than risk a double booking
+    const competing = (await this.getActiveHolds(params.fieldId, bookingDate, owner, now))
+      .some(other => String(other._id) !== String(hold._id) && this.overlaps(other, params));
+    if (competing) {
+      await SlotHold.deleteOne({ _id: hold._id });
+      throw new Error(SLOT_UNAVAILABLE);
+    }
+
+    return hold;
+  }
+
+  /**
+   * Give up a hold. Anonymous holds can be released by anyone with their id.
+   */
+  static async releaseHold(holdId: string, userId?: string): Promise<boolean> {
+    const hold = await SlotHold.findById(holdId);
+    if (!hold) {
+      return false;
+    }
+    if (hold.userId && hold.userId.toString() !== userId) {
+      throw new Error('Access denied');
+    }
+
+    await SlotHold.deleteOne({ _id: hold._id });
+    return true;
+  }
+
+  /**
+   * Whether someone other than the caller holds part of the range
+   */
+  static async isHeldByOthers(
+    fieldId: string,
+    bookingDate: string | Date,
+    startTime: string,
+    endTime: string,
+    owner: HoldOwner = {}
+  ): Promise<boolean> {
+    const holds = await this.getActiveHolds(fieldId, bookingDate, owner);
+    return holds.some(hold => this.overlaps(hold, { startTime, endTime }));
+  }
+
+  /**
+   * Remove the caller's holds covered by a booking that was just created, on any of its fields
+   */
+  static async convertHolds(
+    fieldId: string | mongoose.Types.ObjectId | (string | mongoose.Types.ObjectId)[],
+    bookingDate: string | Date,
+    startTime: string,
+    endTime: string,
+    owner: HoldOwner
+  ): Promise<void> {
+    const ownership: any[] = [];
+    if (owner.userId) ownership.push({ userId: owner.userId });
+    if (owner.holdId && mongoose.isValidObjectId(owner.holdId)) ownership.push({ _id: owner.holdId });
+    if (ownership.length === 0) {
+      return;
+    }
+
+    await this.deleteOverlapping({
+      fieldId: { $in: Array.isArray(fieldId) ? fieldId : [fieldId] },
+      bookingDate: new Date(bookingDate),
+      $or: ownership
+    }, { startTime, endTime });
+  }
+
+  /**
+   * Delete the holds matching the filter that overlap the range. Times are stored as
+   * entered, so the overlap is worked out in minutes rather than in the query.
+   */
+  private static async deleteOverlapping(filter: Record<string, any>, range: { startTime: string; endTime: string }): Promise<void> {
+    const holds = await SlotHold.find(filter).select('startTime endTime');
+    const overlapping = holds.filter(hold => this.overlaps(hold, range)).map(hold => hold._id);
+    if (overlapping.length > 0) {
+      await SlotHold.deleteMany({ _id: { $in: overlapping } });
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import TaxConfig, { ITaxConfig } from '../models/TaxConfig';
+import User, { IOwnerProfile } from '../models/User';
+import { IStadium } from '../models/Stadium';
+import { TaxInput } from './pricing-engine.service';
+
+// Stadiums without a country in their address are taxed as Lao businesses
+export const DEFAULT_TAX_COUNTRY = 'laos';
+
+export type TaxConfigSource = 'stadium' | 'country' | 'none';
+
+export interface ResolvedTax {
+  tax?: TaxInput;
+  source: TaxConfigSource;
+  configId?: string;
+}
+
+type TaxStadium = Pick<IStadium, '_id' | 'ownerId' | 'address'>;
+
+export class TaxService {
+  static normalizeCountry(country?: string): string {
+    return (country || DEFAULT_TAX_COUNTRY).trim().toLowerCase();
+  }
+
+  /**
+   * Pick the stadium's own configuration over its country's and apply the owner's exemption
+   */
+  static resolveTax(
+    configs: { stadium?: ITaxConfig | null; country?: ITaxConfig | null },
+    ownerProfile?: IOwnerProfile | null,
+    now: Date = new Date()
+  ): ResolvedTax {
+    const stadiumConfig = configs.stadium?.isActive ? configs.stadium : null;
+    const countryConfig = configs.country?.isActive ? configs.country : null;
+    const config = stadiumConfig || countryConfig;
+    const source: TaxConfigSource = stadiumConfig ? 'stadium' : countryConfig ? 'country' : 'none';
+
+    const seller = {
+      sellerTaxId: ownerProfile?.taxId || undefined,
+      sellerName: ownerProfile?.businessName || undefined
+    };
+
+    if (!config) {
+      return { source };
+    }
+
+    const exemption = seller.sellerTaxId
+      ? (config.exemptions || []).find(e =>
+        e.taxId.trim() === seller.sellerTaxId!.trim() && (!e.validUntil || e.validUntil >= now))
+      : undefined;
+
+    return {
+      source,
+      configId: String(config._id),
+      tax: {
+        rate: exemption ? 0 : config.rate,
+        inclusive: config.inclusive,
+        description: config.name || 'VAT',
+        ...seller,
+        ...(exemption ? { exemptionReason: exemption.reason || 'Tax exempt' } : {})
+      }
+    };
+  }
+
+  /**
+   * Tax that applies to bookings at a stadium
+   */
+  static async getTaxForStadium(stadium: TaxStadium): Promise<ResolvedTax> {
+    const [stadiumConfig, countryConfig, owner] = await Promise.all([
+      TaxConfig.findOne({ scope: 'stadium', stadiumId: stadium._id }),
+      TaxConfig.findOne({ scope: 'country', country: this.normalizeCountry(stadium.address?.country) }),
+      User.findById(stadium.ownerId).select('ownerProfile')
+    ]);
+
+    return this.resolveTax({ stadium: stadiumConfig, country: countryConfig }, owner?.ownerProfile);
+  }
+}
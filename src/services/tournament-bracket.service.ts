@@ -0,0 +1,279 @@
+import { ITournamentFixture, ITournamentPoints, ITournamentTeam, TournamentFormat } from '../models/Tournament';
+
+export interface FixtureDraft {
+  matchNumber: number;
+  stage: ITournamentFixture['stage'];
+  round: number;
+  group?: string;
+  home?: string; // Team ID, when known
+  away?: string;
+  homeFrom?: string; // Otherwise where the team comes from, see ITournamentFixture
+  awayFrom?: string;
+}
+
+export interface FormatOptions {
+  legs?: 1 | 2;
+  groupCount?: number;
+  advancePerGroup?: number;
+}
+
+export interface StandingRow {
+  position: number;
+  teamId: string;
+  name: string;
+  group?: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  pointsAdjustment: number;
+  points: number;
+}
+
+// A knockout entrant: a team already known, or where it will come from
+type Entrant = { teamId?: string; from?: string };
+
+type StandingTeam = Pick<ITournamentTeam, '_id' | 'name' | 'group' | 'pointsAdjustment'>;
+type ResultFixture = Pick<ITournamentFixture,
+  'matchNumber' | 'stage' | 'group' | 'status' | 'homeTeamId' | 'awayTeamId' | 'homeScore' | 'awayScore' | 'winnerTeamId'>;
+
+const GROUP_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export class TournamentBracketService {
+  /**
+   * Every fixture of a tournament for its confirmed teams, in playing order and numbered from 1.
+   * Teams are seeded in the order given.
+   */
+  static generate(format: TournamentFormat, teamIds: string[], options: FormatOptions = {}): { fixtures: FixtureDraft[]; groups: Record<string, string[]> } {
+    if (teamIds.length < 2) {
+      throw new Error('Tournament needs at least 2 confirmed teams');
+    }
+
+    if (format === 'league') {
+      return { fixtures: this.roundRobin(teamIds, options.legs || 1, 'league'), groups: {} };
+    }
+
+    if (format === 'knockout') {
+      return { fixtures: this.knockout(teamIds.map(teamId => ({ teamId }))), groups: {} };
+    }
+
+    const groupCount = options.groupCount || 2;
+    const advancePerGroup = options.advancePerGroup || 2;
+    if (groupCount < 2 || teamIds.length < groupCount * 2) {
+      throw new Error('Tournament needs at least 2 groups of 2 teams');
+    }
+    const groups = this.drawGroups(teamIds, groupCount);
+    const smallest = Math.min(...Object.values(groups).map(ids => ids.length));
+    if (advancePerGroup < 1 || advancePerGroup > smallest) {
+      throw new Error(`Tournament groups can only send 1 to ${smallest} teams through`);
+    }
+
+    // Matchday by matchday, so every group plays its first round before any plays its second
+    const groupFixtures = Object.entries(groups)
+      .flatMap(([group, ids]) => this.roundRobin(ids, options.legs || 1, 'group', group))
+      .sort((a, b) => a.round - b.round || (a.group || '').localeCompare(b.group || '') || a.matchNumber - b.matchNumber)
+      .map((fixture, index) => ({ ...fixture, matchNumber: index + 1 }));
+
+    // Group winners are seeded first, then the runners-up and so on, which keeps teams of a group apart
+    const letters = Object.keys(groups);
+    const entrants: Entrant[] = [];
+    for (let position = 1; position <= advancePerGroup; position++) {
+      letters.forEach(letter => entrants.push({ from: `${letter}${position}` }));
+    }
+
+    return { fixtures: [...groupFixtures, ...this.knockout(entrants, groupFixtures.length + 1)], groups };
+  }
+
+  /**
+   * Round-robin by the circle method: each round every team plays once, or sits out with an odd
+   * number of teams. With two legs the second half repeats the first with home and away swapped.
+   */
+  static roundRobin(teamIds: string[], legs: 1 | 2 = 1, stage: 'league' | 'group' = 'league', group?: string, firstMatchNumber = 1): FixtureDraft[] {
+    const slots: (string | null)[] = teamIds.length % 2 ? [...teamIds, null] : [...teamIds];
+    const rounds = slots.length - 1;
+    const fixtures: FixtureDraft[] = [];
+
+    for (let round = 0; round < rounds; round++) {
+      for (let i = 0; i < slots.length / 2; i++) {
+        const a = slots[i];
+        const b = slots[slots.length - 1 - i];
+        if (!a || !b) continue;
+
+        // Alternate the fixed team between home and away from round to round
+        const [home, away] = i === 0 && round % 2 ? [b, a] : [a, b];
+        fixtures.push({ matchNumber: 0, stage, round: round + 1, group, home, away });
+      }
+      slots.splice(1, 0, slots.pop() as string | null);
+    }
+
+    if (legs === 2) {
+      fixtures.push(...fixtures.map(fixture => ({ ...fixture, round: fixture.round + rounds, home: fixture.away, away: fixture.home })));
+    }
+
+    return fixtures.map((fixture, index) => ({ ...fixture, matchNumber: firstMatchNumber + index }));
+  }
+
+  /**
+   * Spread seeded teams over groups A, B, ... in a snake, so each group gets a similar mix of seeds
+   */
+  static drawGroups(teamIds: string[], groupCount: number): Record<string, string[]> {
+    const groups: Record<string, string[]> = {};
+    for (let i = 0; i < groupCount; i++) {
+      groups[GROUP_LETTERS[i]] = [];
+    }
+    teamIds.forEach((teamId, index) => {
+      const lap = Math.floor(index / groupCount);
+      const slot = index % groupCount;
+      groups[GROUP_LETTERS[lap % 2 ? groupCount - 1 - slot : slot]].push(teamId);
+    });
+    return groups;
+  }
+
+  /**
+   * Single elimination bracket for seeded entrants. The bracket is rounded up to a power of two
+   * and the top seeds get the byes, going straight into the second round.
+   */
+  static knockout(entrants: Entrant[], firstMatchNumber = 1): FixtureDraft[] {
+    let size = 1;
+    while (size < entrants.length) size *= 2;
+
+    // Standard seeding, 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight, so the top seeds meet last
+    let order = [1];
+    while (order.length < size) {
+      const length = order.length * 2;
+      order = order.flatMap(seed => [seed, length + 1 - seed]);
+    }
+
+    const fixtures: FixtureDraft[] = [];
+    const addMatch = (round: number, home: Entrant, away: Entrant): Entrant => {
+      const matchNumber = firstMatchNumber + fixtures.length;
+      fixtures.push({
+        matchNumber,
+        stage: 'knockout',
+        round,
+        home: home.teamId,
+        away: away.teamId,
+        homeFrom: home.from,
+        awayFrom: away.from
+      });
+      return { from: `W${matchNumber}` };
+    };
+
+    let slots: Entrant[] = [];
+    for (let i = 0; i < size; i += 2) {
+      const home = entrants[order[i] - 1];
+      const away = entrants[order[i + 1] - 1];
+      slots.push(home && away ? addMatch(1, home, away) : home || away);
+    }
+
+    for (let round = 2; slots.length > 1; round++) {
+      const next: Entrant[] = [];
+      for (let i = 0; i < slots.length; i += 2) {
+        next.push(addMatch(round, slots[i], slots[i + 1]));
+      }
+      slots = next;
+    }
+
+    return fixtures;
+  }
+
+  /**
+   * Side winning a match, on penalties if level; null for a draw
+   */
+  static getWinner(result: Pick<ITournamentFixture, 'homeScore' | 'awayScore' | 'homePenalties' | 'awayPenalties'>): 'home' | 'away' | null {
+    const home = result.homeScore || 0;
+    const away = result.awayScore || 0;
+    if (home !== away) {
+      return home > away ? 'home' : 'away';
+    }
+    if (result.homePenalties !== undefined && result.awayPenalties !== undefined && result.homePenalties !== result.awayPenalties) {
+      return result.homePenalties > result.awayPenalties ? 'home' : 'away';
+    }
+    return null;
+  }
+
+  /**
+   * League table from the completed league or group fixtures of the teams: points, then goal
+   * difference, then goals scored. Points adjustments by the organizer are included.
+   */
+  static getStandings(teams: StandingTeam[], fixtures: ResultFixture[], points: ITournamentPoints): StandingRow[] {
+    const rows = new Map<string, StandingRow>(teams.map(team => [String(team._id), {
+      position: 0,
+      teamId: String(team._id),
+      name: team.name,
+      group: team.group,
+      played: 0,
+      won: 0,
+      drawn: 0,
+      lost: 0,
+      goalsFor: 0,
+      goalsAgainst: 0,
+      goalDifference: 0,
+      pointsAdjustment: team.pointsAdjustment || 0,
+      points: team.pointsAdjustment || 0
+    }]));
+
+    const record = (row: StandingRow | undefined, scored: number, conceded: number) => {
+      if (!row) return;
+      row.played++;
+      row.goalsFor += scored;
+      row.goalsAgainst += conceded;
+      row.goalDifference = row.goalsFor - row.goalsAgainst;
+      if (scored > conceded) {
+        row.won++;
+        row.points += points.win;
+      } else if (scored === conceded) {
+        row.drawn++;
+        row.points += points.draw;
+      } else {
+        row.lost++;
+        row.points += points.loss;
+      }
+    };
+
+    fixtures
+      .filter(fixture => fixture.stage !== 'knockout' && fixture.status === 'completed')
+      .forEach(fixture => {
+        const home = fixture.homeScore || 0;
+        const away = fixture.awayScore || 0;
+        record(rows.get(String(fixture.homeTeamId)), home, away);
+        record(rows.get(String(fixture.awayTeamId)), away, home);
+      });
+
+    return [...rows.values()]
+      .sort((a, b) =>
+        b.points - a.points ||
+        b.goalDifference - a.goalDifference ||
+        b.goalsFor - a.goalsFor ||
+        a.name.localeCompare(b.name))
+      .map((row, index) => ({ ...row, position: index + 1 }));
+  }
+
+  /**
+   * Team a knockout source stands for once decided: the winner of a completed match, or a
+   * final group position once every match of the group was played
+   */
+  static resolveSource(source: string, teams: StandingTeam[], fixtures: ResultFixture[], points: ITournamentPoints): string | undefined {
+    const winnerOf = source.match(/^W(\d+)$/);
+    if (winnerOf) {
+      const fixture = fixtures.find(f => f.matchNumber === Number(winnerOf[1]));
+      return fixture?.status === 'completed' && fixture.winnerTeamId ? String(fixture.winnerTeamId) : undefined;
+    }
+
+    const groupPlace = source.match(/^([A-Z])(\d+)$/);
+    if (groupPlace) {
+      const [, group, position] = groupPlace;
+      const groupFixtures = fixtures.filter(f => f.stage === 'group' && f.group === group);
+      if (groupFixtures.length === 0 || groupFixtures.some(f => f.status !== 'completed')) {
+        return undefined;
+      }
+      const table = this.getStandings(teams.filter(team => team.group === group), groupFixtures, points);
+      return table[Number(position) - 1]?.teamId;
+    }
+
+    return undefined;
+  }
+}
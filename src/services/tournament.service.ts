@@ -0,0 +1,770 @@
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Booking, { IBooking } from '../models/Booking';
+import Stadium, { IField, IStadium } from '../models/Stadium';
+import Tournament, { ITournament, ITournamentFeePayment, ITournamentFixture, ITournamentTeam, TournamentFormat } from '../models/Tournament';
+import AvailabilityService from '../utils/availability';
+import { LaoPhoneUtil } from '../utils/phoneUtils';
+import { CancellationPolicyService } from './cancellation-policy.service';
+import { DepositService } from './deposit.service';
+import { CalendarDay, HolidayService } from './holiday.service';
+import { InvoiceRegistryService } from './invoice-registry.service';
+import { PricingEngine, TaxInput } from './pricing-engine.service';
+import { RefundService } from './refund.service';
+import { SLOT_UNAVAILABLE } from './slot-hold.service';
+import { SlotGeneratorService } from './slot-generator.service';
+import { TaxService } from './tax.service';
+import { StandingRow, TournamentBracketService } from './tournament-bracket.service';
+
+export interface TournamentParams {
+  name: string;
+  description?: string;
+  stadiumId: string;
+  format: TournamentFormat;
+  fieldType?: ITournament['fieldType'];
+  fieldIds?: string[];
+  startDate: string;
+  endDate?: string;
+  registrationDeadline?: string;
+  maxTeams?: number;
+  registrationFee?: number;
+  matchDurationMinutes?: number;
+  legs?: 1 | 2;
+  groupCount?: number;
+  advancePerGroup?: number;
+  points?: ITournament['points'];
+}
+
+export interface TeamRegistration {
+  name: string;
+  contactPhone?: string;
+  players?: number;
+}
+
+export interface FixtureResult {
+  homeScore: number;
+  awayScore: number;
+  homePenalties?: number;
+  awayPenalties?: number;
+}
+
+export interface ScheduleResult {
+  scheduled: ITournamentFixture[];
+  unscheduled: { matchNumber: number; reason: string }[];
+}
+
+export interface TournamentStandings {
+  format: TournamentFormat;
+  table?: StandingRow[]; // league
+  groups?: Record<string, StandingRow[]>; // groups_knockout
+  knockout?: ITournamentFixture[]; // knockout and groups_knockout
+}
+
+// Fixture days follow the stadiums' local calendar
+const TOURNAMENT_TIMEZONE = 'Asia/Vientiane';
+
+// How far ahead fixtures are looked for when the tournament has no end date
+const MAX_SCHEDULE_DAYS = 90;
+
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const toDateString = (date: Date | string): string =>
+  typeof date === 'string' ? date.split('T')[0] : moment.utc(date).format(DATE_FORMAT);
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export class TournamentService {
+  static async create(params: TournamentParams, userId: string, now: Date = new Date()): Promise<ITournament> {
+    const stadium = mongoose.isValidObjectId(params.stadiumId) ? await Stadium.findById(params.stadiumId) : null;
+    if (!stadium || stadium.status !== 'active') {
+      throw new Error('Stadium not found');
+    }
+
+    const tournament = new Tournament({
+      name: params.name,
+      description: params.description,
+      stadiumId: stadium._id,
+      organizerId: new mongoose.Types.ObjectId(userId),
+      format: params.format,
+      fieldType: params.fieldType,
+      fieldIds: params.fieldIds || [],
+      startDate: new Date(toDateString(params.startDate)),
+      endDate: params.endDate ? new Date(toDateString(params.endDate)) : undefined,
+      registrationDeadline: params.registrationDeadline ? new Date(params.registrationDeadline) : undefined,
+      maxTeams: params.maxTeams,
+      registrationFee: params.registrationFee,
+      currency: stadium.fields?.[0]?.pricing?.currency || 'LAK',
+      matchDurationMinutes: params.matchDurationMinutes,
+      legs: params.legs,
+      groupCount: params.format === 'groups_knockout' ? params.groupCount || 2 : undefined,
+      advancePerGroup: params.format === 'groups_knockout' ? params.advancePerGroup || 2 : undefined,
+      points: params.points
+    });
+
+    if (this.getFields(tournament, stadium).length === 0) {
+      throw new Error(params.fieldIds?.length ? 'Field not found' : 'Stadium has no active field of the tournament\'s type');
+    }
+    if (toDateString(params.startDate) < moment(now).tz(TOURNAMENT_TIMEZONE).format(DATE_FORMAT)) {
+      throw new Error('Tournament cannot start in the past');
+    }
+    if (tournament.endDate && tournament.endDate < tournament.startDate) {
+      throw new Error('Tournament end date must be on or after its start date');
+    }
+
+    await tournament.save();
+    return tournament;
+  }
+
+  static async list(filter: { stadiumId?: string; status?: ITournament['status'] }, page: number, limit: number) {
+    const query: Record<string, any> = { status: filter.status || { $ne: 'cancelled' } };
+    if (filter.stadiumId) query.stadiumId = filter.stadiumId;
+
+    const [tournaments, total] = await Promise.all([
+      Tournament.find(query)
+        .select('-teams -fixtures')
+        .populate('stadiumId', 'name address')
+        .sort({ startDate: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      Tournament.countDocuments(query)
+    ]);
+    return { tournaments, total };
+  }
+
+  static async get(tournamentId: string): Promise<ITournament> {
+    const tournament = mongoose.isValidObjectId(tournamentId) ? await Tournament.findById(tournamentId) : null;
+    if (!tournament) {
+      throw new Error('Tournament not found');
+    }
+    return tournament;
+  }
+
+  /**
+   * What anyone may see of a tournament: teams without their captain's contact or payments
+   */
+  static getPublicView(tournament: ITournament) {
+    const { teams, ...rest } = tournament.toObject();
+    return {
+      ...rest,
+      teams: (teams as ITournamentTeam[])
+        .filter(team => team.status !== 'withdrawn')
+        .map(({ _id, name, players, status, group }) => ({ _id, name, players, status, group }))
+    };
+  }
+
+  /**
+   * Register a team while registration is open. Teams are drawn into the fixtures once their fee is paid.
+   */
+  static async registerTeam(tournamentId: string, userId: string, registration: TeamRegistration, now: Date = new Date()): Promise<{ tournament: ITournament; team: ITournamentTeam }> {
+    const tournament = await this.get(tournamentId);
+    if (tournament.status !== 'registration' || tournament.fixtures.length > 0) {
+      throw new Error('Tournament registration is closed');
+    }
+    if (tournament.registrationDeadline && tournament.registrationDeadline < now) {
+      throw new Error('Tournament registration deadline has passed');
+    }
+
+    const active = tournament.teams.filter(team => team.status !== 'withdrawn');
+    if (active.length >= tournament.maxTeams) {
+      throw new Error('Tournament is full');
+    }
+    if (active.some(team => team.name.toLowerCase() === registration.name.trim().toLowerCase())) {
+      throw new Error('A team with this name is already registered');
+    }
+    if (active.some(team => team.captainId.toString() === userId)) {
+      throw new Error('You have already registered a team');
+    }
+
+    const contactPhone = registration.contactPhone ? LaoPhoneUtil.normalize(registration.contactPhone) : undefined;
+    if (contactPhone === null) {
+      throw new Error(`Invalid phone number: ${registration.contactPhone}`);
+    }
+
+    tournament.teams.push({
+      name: registration.name,
+      captainId: new mongoose.Types.ObjectId(userId),
+      contactPhone,
+      players: registration.players,
+      status: tournament.registrationFee > 0 ? 'registered' : 'confirmed',
+      feeAmount: tournament.registrationFee,
+      paidAmount: 0,
+      payments: [],
+      pointsAdjustment: 0,
+      registeredAt: now
+    });
+    await tournament.save();
+
+    return { tournament, team: tournament.teams[tournament.teams.length - 1] };
+  }
+
+  /**
+   * Withdraw a team before the fixtures are drawn; fees already paid are settled by the organizer
+   */
+  static async withdrawTeam(tournamentId: string, teamId: string, userId: string, userRole?: string): Promise<ITournamentTeam> {
+    const tournament = await this.get(tournamentId);
+    const team = this.getTeam(tournament, teamId);
+    if (team.captainId.toString() !== userId) {
+      await this.assertManager(tournament, userId, userRole);
+    }
+    if (team.status === 'withdrawn') {
+      throw new Error('Team has already withdrawn');
+    }
+    if (tournament.fixtures.length > 0) {
+      throw new Error('Teams cannot withdraw once fixtures are drawn');
+    }
+
+    team.status = 'withdrawn';
+    await tournament.save();
+    return team;
+  }
+
+  /**
+   * Record a registration fee the organizer received; the team is confirmed once it is paid in full
+   */
+  static async recordFeePayment(
+    tournamentId: string,
+    teamId: string,
+    payment: Pick<ITournamentFeePayment, 'amount' | 'paymentMethod' | 'transactionId'>,
+    userId: string,
+    userRole?: string
+  ): Promise<ITournamentTeam> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    const team = this.getTeam(tournament, teamId);
+    if (team.status === 'withdrawn') {
+      throw new Error('Team has withdrawn');
+    }
+    if (payment.amount > team.feeAmount - team.paidAmount) {
+      throw new Error('Payment exceeds the registration fee due');
+    }
+
+    team.payments.push({ ...payment, receivedBy: new mongoose.Types.ObjectId(userId), receivedAt: new Date() });
+    team.paidAmount += payment.amount;
+    if (team.paidAmount >= team.feeAmount) {
+      team.status = 'confirmed';
+    }
+    await tournament.save();
+    return team;
+  }
+
+  /**
+   * Add or deduct standings points of a team, e.g. for a forfeit or misconduct
+   */
+  static async adjustPoints(tournamentId: string, teamId: string, points: number, reason: string | undefined, userId: string, userRole?: string): Promise<ITournamentTeam> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    const team = this.getTeam(tournament, teamId);
+    team.pointsAdjustment = points;
+    team.adjustmentReason = reason;
+    await tournament.save();
+    return team;
+  }
+
+  /**
+   * Close registration and draw the fixtures for the confirmed teams, in the order they registered:
+   * round-robin for leagues, a seeded bracket for knockouts, or groups followed by a bracket
+   */
+  static async generateFixtures(tournamentId: string, userId: string, userRole?: string): Promise<ITournament> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    if (tournament.status !== 'registration') {
+      throw new Error(`Tournament is ${tournament.status.replace('_', ' ')}`);
+    }
+
+    const teams = tournament.teams.filter(team => team.status === 'confirmed');
+    const { fixtures, groups } = TournamentBracketService.generate(tournament.format, teams.map(team => String(team._id)), {
+      legs: tournament.legs,
+      groupCount: tournament.groupCount,
+      advancePerGroup: tournament.advancePerGroup
+    });
+
+    Object.entries(groups).forEach(([group, teamIds]) => {
+      teams.filter(team => teamIds.includes(String(team._id))).forEach(team => { team.group = group; });
+    });
+    tournament.fixtures = fixtures.map(draft => ({
+      matchNumber: draft.matchNumber,
+      stage: draft.stage,
+      round: draft.round,
+      group: draft.group,
+      homeTeamId: draft.home ? new mongoose.Types.ObjectId(draft.home) : undefined,
+      awayTeamId: draft.away ? new mongoose.Types.ObjectId(draft.away) : undefined,
+      homeFrom: draft.homeFrom,
+      awayFrom: draft.awayFrom,
+      status: 'pending'
+    }));
+    tournament.status = 'in_progress';
+
+    await tournament.save();
+    return tournament;
+  }
+
+  /**
+   * Book free slots of the stadium's fields for the fixtures without one, in match order. Rounds
+   * are played in order, a team plays at most once a day and knockout rounds follow on later days
+   * than the matches they depend on. Fixtures whose booking was cancelled are scheduled again.
+   */
+  static async scheduleFixtures(tournamentId: string, userId: string, userRole?: string, now: Date = new Date()): Promise<ScheduleResult> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    if (tournament.status !== 'in_progress') {
+      throw new Error(tournament.status === 'registration' ? 'Tournament fixtures are not drawn yet' : `Tournament is ${tournament.status}`);
+    }
+
+    const stadium = await Stadium.findById(tournament.stadiumId);
+    if (!stadium) {
+      throw new Error('Stadium not found');
+    }
+    await this.releaseCancelledFixtures(tournament);
+
+    const fields = this.getFields(tournament, stadium);
+    const { tax } = await TaxService.getTaxForStadium(stadium);
+    const today = moment(now).tz(TOURNAMENT_TIMEZONE).format(DATE_FORMAT);
+    const first = moment.max(moment.utc(toDateString(tournament.startDate)), moment.utc(today));
+    const last = tournament.endDate ? moment.utc(toDateString(tournament.endDate)) : first.clone().add(MAX_SCHEDULE_DAYS, 'days');
+    const calendar = new Map<string, CalendarDay>();
+    const result: ScheduleResult = { scheduled: [], unscheduled: [] };
+
+    const pending = tournament.fixtures
+      .filter(fixture => fixture.status === 'pending')
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+
+    for (const fixture of pending) {
+      const earliest = this.getEarliestDate(tournament, fixture);
+      if (earliest === null) {
+        result.unscheduled.push({ matchNumber: fixture.matchNumber, reason: 'Earlier round is not scheduled yet' });
+        continue;
+      }
+
+      let booked = false;
+      for (let day = moment.max(first, moment.utc(earliest)).clone(); !booked && day.isSameOrBefore(last, 'day'); day.add(1, 'day')) {
+        const date = day.format(DATE_FORMAT);
+        if (this.playsOn(tournament, fixture, date)) continue;
+
+        for (const field of fields) {
+          const fieldId = String((field as any)._id);
+          const key = `${fieldId}:${date}`;
+          if (!calendar.has(key)) {
+            calendar.set(key, await HolidayService.getCalendarDay(stadium, date, fieldId));
+          }
+          const calendarDay = calendar.get(key) as CalendarDay;
+          if (calendarDay.isClosed) continue;
+
+          const slots = SlotGeneratorService.generateSlots(field, date, { durationMinutes: tournament.matchDurationMinutes }, calendarDay)
+            .filter(slot => slot.isAvailable && DepositService.getBookingStart(date, slot.startTime) > now);
+          for (const slot of slots) {
+            if (!(await AvailabilityService.checkFieldAvailability(fieldId, date, slot.startTime, slot.endTime))) continue;
+
+            const booking = await this.createFixtureBooking(tournament, fixture, field, date, slot.startTime, slot.endTime, tax, calendarDay.holiday, userId);
+            if (!booking) continue;
+
+            fixture.status = 'scheduled';
+            fixture.fieldId = (field as any)._id;
+            fixture.bookingId = booking._id as mongoose.Types.ObjectId;
+            fixture.date = new Date(date);
+            fixture.startTime = slot.startTime;
+            fixture.endTime = slot.endTime;
+            // Saved match by match so no booking is left without its fixture
+            await tournament.save();
+            result.scheduled.push(fixture);
+            booked = true;
+            break;
+          }
+          if (booked) break;
+        }
+      }
+
+      if (!booked) {
+        result.unscheduled.push({ matchNumber: fixture.matchNumber, reason: 'No free slot before the tournament ends' });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Enter or correct the result of a match. Winners and group places fill the knockout matches
+   * waiting for them, and the tournament completes with its last result.
+   */
+  static async recordResult(
+    tournamentId: string,
+    fixtureId: string,
+    result: FixtureResult,
+    userId: string,
+    userRole?: string,
+    now: Date = new Date()
+  ): Promise<{ tournament: ITournament; fixture: ITournamentFixture }> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    if (tournament.status !== 'in_progress' && tournament.status !== 'completed') {
+      throw new Error(tournament.status === 'registration' ? 'Tournament fixtures are not drawn yet' : `Tournament is ${tournament.status}`);
+    }
+
+    const fixture = this.getFixture(tournament, fixtureId);
+    if (fixture.status === 'cancelled') {
+      throw new Error('Match is cancelled');
+    }
+    if (!fixture.homeTeamId || !fixture.awayTeamId) {
+      throw new Error('Match teams are not decided yet');
+    }
+    if (fixture.date && fixture.startTime && DepositService.getBookingStart(fixture.date, fixture.startTime) > now) {
+      throw new Error('Match has not started yet');
+    }
+    if (fixture.status === 'completed' && this.getDependents(tournament, fixture).some(f => f.status === 'completed')) {
+      throw new Error('Cannot change a result later matches depend on');
+    }
+
+    const winner = TournamentBracketService.getWinner(result);
+    if (fixture.stage === 'knockout' && !winner) {
+      throw new Error('Knockout matches need a winner: enter the penalty shoot-out');
+    }
+
+    fixture.homeScore = result.homeScore;
+    fixture.awayScore = result.awayScore;
+    fixture.homePenalties = fixture.stage === 'knockout' ? result.homePenalties : undefined;
+    fixture.awayPenalties = fixture.stage === 'knockout' ? result.awayPenalties : undefined;
+    fixture.winnerTeamId = winner === 'home' ? fixture.homeTeamId : winner === 'away' ? fixture.awayTeamId : undefined;
+    fixture.status = 'completed';
+    fixture.resultEnteredBy = new mongoose.Types.ObjectId(userId);
+    fixture.resultEnteredAt = now;
+
+    this.advance(tournament);
+    const remaining = tournament.fixtures.filter(f => f.status !== 'completed' && f.status !== 'cancelled');
+    tournament.status = remaining.length === 0 ? 'completed' : 'in_progress';
+
+    await tournament.save();
+    return { tournament, fixture };
+  }
+
+  /**
+   * Assign one of the stadium's referees to a scheduled match, replacing any referee assigned before
+   */
+  static async assignReferee(tournamentId: string, fixtureId: string, staffId: string, userId: string, userRole?: string): Promise<ITournamentFixture> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    const fixture = this.getFixture(tournament, fixtureId);
+    if (fixture.status !== 'scheduled' || !fixture.date || !fixture.startTime || !fixture.endTime) {
+      throw new Error('Match is not scheduled');
+    }
+
+    const [stadium, booking] = await Promise.all([
+      Stadium.findById(tournament.stadiumId).select('staff'),
+      Booking.findById(fixture.bookingId)
+    ]);
+    const referee = stadium?.staff?.find((staff: any) => String(staff._id) === staffId && staff.role === 'referee');
+    if (!stadium || !referee || !booking) {
+      throw new Error('Referee not found');
+    }
+
+    const date = toDateString(fixture.date);
+    const available = await AvailabilityService.getAvailableReferees(stadium.staff || [], date, fixture.startTime, fixture.endTime);
+    if (!available.some(staff => String(staff._id) === staffId)) {
+      throw new Error('Referee is not available at that time');
+    }
+
+    const busy = await Booking.exists({
+      _id: { $ne: booking._id },
+      stadiumId: tournament.stadiumId,
+      bookingDate: fixture.date,
+      status: { $in: ACTIVE_STATUSES },
+      'assignedStaff.staffId': new mongoose.Types.ObjectId(staffId),
+      startTime: { $lt: fixture.endTime },
+      endTime: { $gt: fixture.startTime }
+    });
+    if (busy) {
+      throw new Error('Referee is already assigned at that time');
+    }
+
+    booking.assignedStaff = (booking.assignedStaff || []).filter(staff => staff.role !== 'referee');
+    booking.assignedStaff.push({
+      staffId: new mongoose.Types.ObjectId(staffId),
+      staffName: referee.name,
+      role: 'referee',
+      assignedAt: new Date()
+    } as any);
+    booking.history.push({
+      action: 'updated',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: `Referee ${referee.name} assigned`
+    } as any);
+    await booking.save();
+
+    fixture.referee = { staffId: new mongoose.Types.ObjectId(staffId), name: referee.name };
+    await tournament.save();
+    return fixture;
+  }
+
+  /**
+   * League table, group tables and the knockout bracket, as far as they are played
+   */
+  static getStandings(tournament: ITournament): TournamentStandings {
+    const teams = tournament.teams.filter(team => team.status === 'confirmed');
+    const standings: TournamentStandings = { format: tournament.format };
+
+    if (tournament.format === 'league') {
+      standings.table = TournamentBracketService.getStandings(teams, tournament.fixtures, tournament.points);
+      return standings;
+    }
+
+    if (tournament.format === 'groups_knockout') {
+      const letters = [...new Set(teams.map(team => team.group).filter(Boolean) as string[])].sort();
+      standings.groups = Object.fromEntries(letters.map(letter => [
+        letter,
+        TournamentBracketService.getStandings(
+          teams.filter(team => team.group === letter),
+          tournament.fixtures.filter(fixture => fixture.group === letter),
+          tournament.points
+        )
+      ]));
+    }
+    standings.knockout = tournament.fixtures.filter(fixture => fixture.stage === 'knockout');
+    return standings;
+  }
+
+  /**
+   * Cancel a tournament and the bookings of its unplayed matches under the stadium's cancellation
+   * policy; bookings the policy no longer lets go of stay with the organizer
+   */
+  static async cancel(tournamentId: string, reason: string, userId: string, userRole?: string): Promise<{ tournament: ITournament; kept: IBooking[] }> {
+    const tournament = await this.getManageable(tournamentId, userId, userRole);
+    if (tournament.status === 'completed' || tournament.status === 'cancelled') {
+      throw new Error(`Tournament is ${tournament.status}`);
+    }
+
+    const unplayed = tournament.fixtures.filter(fixture => fixture.status === 'pending' || fixture.status === 'scheduled');
+    const [stadium, bookings] = await Promise.all([
+      Stadium.findById(tournament.stadiumId),
+      Booking.find({ _id: { $in: unplayed.map(fixture => fixture.bookingId).filter(Boolean) }, status: { $in: ACTIVE_STATUSES } })
+    ]);
+
+    const kept: IBooking[] = [];
+    for (const booking of bookings) {
+      if (!(await this.cancelBooking(booking, reason, userId, stadium))) {
+        kept.push(booking);
+      }
+    }
+    unplayed.forEach(fixture => { fixture.status = 'cancelled'; });
+    tournament.status = 'cancelled';
+
+    await tournament.save();
+    return { tournament, kept };
+  }
+
+  /**
+   * Fill knockout matches with the teams their sources stand for, as results come in
+   */
+  private static advance(tournament: ITournament): void {
+    const teams = tournament.teams.filter(team => team.status === 'confirmed');
+    for (const fixture of tournament.fixtures) {
+      if (fixture.status === 'completed' || fixture.status === 'cancelled') continue;
+
+      const resolve = (source?: string) => {
+        const teamId = source && TournamentBracketService.resolveSource(source, teams, tournament.fixtures, tournament.points);
+        return teamId ? new mongoose.Types.ObjectId(teamId) : undefined;
+      };
+      if (fixture.homeFrom) fixture.homeTeamId = resolve(fixture.homeFrom);
+      if (fixture.awayFrom) fixture.awayTeamId = resolve(fixture.awayFrom);
+    }
+  }
+
+  /**
+   * Knockout matches a result feeds into: the winner's next match, or the matches taking group places
+   */
+  private static getDependents(tournament: ITournament, fixture: ITournamentFixture): ITournamentFixture[] {
+    const feeds = (source?: string) => !!source && (fixture.stage === 'knockout'
+      ? source === `W${fixture.matchNumber}`
+      : fixture.stage === 'group' && new RegExp(`^${fixture.group}\\d+$`).test(source));
+    return tournament.fixtures.filter(f => feeds(f.homeFrom) || feeds(f.awayFrom));
+  }
+
+  /**
+   * First day a fixture can be played, or null while a round it follows is not scheduled
+   */
+  private static getEarliestDate(tournament: ITournament, fixture: ITournamentFixture): string | null {
+    let previous: ITournamentFixture[];
+    let nextDay = false;
+    if (fixture.stage !== 'knockout') {
+      previous = tournament.fixtures.filter(f => f.stage === fixture.stage && f.round === fixture.round - 1);
+    } else if (fixture.round > 1) {
+      previous = tournament.fixtures.filter(f => f.stage === 'knockout' && f.round === fixture.round - 1);
+      nextDay = true;
+    } else {
+      previous = tournament.fixtures.filter(f => f.stage === 'group');
+      nextDay = true;
+    }
+
+    previous = previous.filter(f => f.status !== 'cancelled');
+    if (previous.some(f => !f.date)) {
+      return null;
+    }
+    if (previous.length === 0) {
+      return toDateString(tournament.startDate);
+    }
+
+    const latest = moment.max(previous.map(f => moment.utc(f.date)));
+    return (nextDay ? latest.add(1, 'day') : latest).format(DATE_FORMAT);
+  }
+
+  /**
+   * Whether either team of a fixture already plays another match of the tournament on the date
+   */
+  private static playsOn(tournament: ITournament, fixture: ITournamentFixture, date: string): boolean {
+    const teamIds = [fixture.homeTeamId, fixture.awayTeamId].filter(Boolean).map(String);
+    return tournament.fixtures.some(other =>
+      other !== fixture &&
+      other.date && toDateString(other.date) === date &&
+      [other.homeTeamId, other.awayTeamId].some(teamId => teamId && teamIds.includes(String(teamId))));
+  }
+
+  /**
+   * Put fixtures whose booking was cancelled or deleted back in line to be scheduled
+   */
+  private static async releaseCancelledFixtures(tournament: ITournament): Promise<void> {
+    const scheduled = tournament.fixtures.filter(fixture => fixture.status === 'scheduled');
+    if (scheduled.length === 0) return;
+
+    const active = await Booking.find({ _id: { $in: scheduled.map(fixture => fixture.bookingId) }, status: { $in: ACTIVE_STATUSES } }).select('_id');
+    const activeIds = new Set(active.map(booking => String(booking._id)));
+    scheduled
+      .filter(fixture => !activeIds.has(String(fixture.bookingId)))
+      .forEach(fixture => {
+        fixture.status = 'pending';
+        fixture.fieldId = undefined;
+        fixture.bookingId = undefined;
+        fixture.date = undefined;
+        fixture.startTime = undefined;
+        fixture.endTime = undefined;
+        fixture.referee = undefined;
+      });
+  }
+
+  /**
+   * Save the booking of a fixture on the organizer's account; null when another booking took the slot first
+   */
+  private static async createFixtureBooking(
+    tournament: ITournament,
+    fixture: ITournamentFixture,
+    field: IField,
+    date: string,
+    startTime: string,
+    endTime: string,
+    tax: TaxInput | undefined,
+    holiday: string | undefined,
+    userId: string
+  ): Promise<IBooking | null> {
+    const booking = new Booking({
+      userId: tournament.organizerId,
+      stadiumId: tournament.stadiumId,
+      fieldId: (field as any)._id,
+      bookingDate: new Date(date),
+      startTime,
+      endTime,
+      durationHours: (toMinutes(endTime) - toMinutes(startTime)) / 60,
+      pricing: PricingEngine.calculate({ field, bookingDate: date, startTime, endTime, tax, holiday }).pricing,
+      status: 'confirmed',
+      paymentStatus: 'pending',
+      bookingType: 'tournament',
+      notes: `${tournament.name}: match ${fixture.matchNumber}`,
+      tournamentDetails: {
+        tournamentId: tournament._id,
+        fixtureId: fixture._id,
+        matchNumber: fixture.matchNumber
+      },
+      history: [{
+        action: 'created',
+        changedBy: new mongoose.Types.ObjectId(userId),
+        notes: 'Tournament fixture scheduled'
+      }]
+    });
+
+    try {
+      await booking.save();
+      return booking;
+    } catch (error: any) {
+      // A cancelled booking left on the exact slot trips the unique slot index
+      if (error.message !== SLOT_UNAVAILABLE && error.code !== 11000) {
+        throw error;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Cancel a fixture booking with the policy's fee and refund; false when the policy no longer allows it
+   */
+  private static async cancelBooking(booking: IBooking, reason: string, userId: string, stadium: IStadium | null): Promise<boolean> {
+    const quote = await CancellationPolicyService.getQuote(booking, {}, stadium);
+    if (!quote.allowed) {
+      return false;
+    }
+
+    booking.status = 'cancelled';
+    booking.cancellation = {
+      cancelledAt: new Date(),
+      cancelledBy: new mongoose.Types.ObjectId(userId),
+      reason,
+      refundAmount: quote.refundAmount,
+      cancellationFee: quote.feeAmount,
+      refundStatus: quote.refundAmount > 0 ? 'requested' : 'not_applicable'
+    };
+    if (quote.refundAmount > 0) {
+      RefundService.requestRefund(booking, { amount: quote.refundAmount, reason, requestedBy: userId });
+    }
+    booking.history.push({
+      action: 'cancelled',
+      changedBy: new mongoose.Types.ObjectId(userId),
+      notes: reason
+    } as any);
+    await booking.save();
+
+    await InvoiceRegistryService.issueCreditNote(booking, {
+      trigger: 'cancellation',
+      amount: booking.pricing.totalAmount - quote.feeAmount,
+      reason,
+      issuedBy: userId
+    });
+    return true;
+  }
+
+  /**
+   * Active fields the tournament is played on: the chosen ones, or all of its field type
+   */
+  private static getFields(tournament: ITournament, stadium: IStadium): IField[] {
+    const fieldIds = tournament.fieldIds.map(String);
+    return (stadium.fields || []).filter((field: any) =>
+      (field.status || 'active') === 'active' &&
+      (fieldIds.length > 0 ? fieldIds.includes(String(field._id)) : !tournament.fieldType || field.fieldType === tournament.fieldType));
+  }
+
+  private static getTeam(tournament: ITournament, teamId: string): ITournamentTeam {
+    const team = tournament.teams.find(t => String(t._id) === teamId);
+    if (!team) {
+      throw new Error('Team not found');
+    }
+    return team;
+  }
+
+  private static getFixture(tournament: ITournament, fixtureId: string): ITournamentFixture {
+    const fixture = tournament.fixtures.find(f => String(f._id) === fixtureId);
+    if (!fixture) {
+      throw new Error('Match not found');
+    }
+    return fixture;
+  }
+
+  /**
+   * The tournament if the user organizes it, owns its stadium or is a superadmin
+   */
+  static async getManageable(tournamentId: string, userId: string, userRole?: string): Promise<ITournament> {
+    const tournament = await this.get(tournamentId);
+    await this.assertManager(tournament, userId, userRole);
+    return tournament;
+  }
+
+  private static async assertManager(tournament: ITournament, userId: string, userRole?: string): Promise<void> {
+    if (tournament.organizerId.toString() === userId || userRole === 'superadmin') {
+      return;
+    }
+    const stadium = await Stadium.findById(tournament.stadiumId).select('ownerId');
+    if (!stadium || stadium.ownerId.toString() !== userId) {
+      throw new Error('Not authorized to manage this tournament');
+    }
+  }
+}
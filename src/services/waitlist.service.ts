@@ -0,0 +1,489 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import moment from 'moment-timezone';
+import Waitlist, { IWaitlist, IWaitlistOffer } from '../models/Waitlist';
+import Booking, { IBooking } from '../models/Booking';
+import SlotHold from '../models/SlotHold';
+import Stadium, { IField, IStadium } from '../models/Stadium';
+import AvailabilityService from '../utils/availability';
+import { SLOT_UNAVAILABLE, SlotHoldService } from './slot-hold.service';
+import { FieldRelationService } from './field-relation.service';
+import { BookingRulesService } from './booking-rules.service';
+import { HolidayService } from './holiday.service';
+import { PricingEngine } from './pricing-engine.service';
+import { TaxService } from './tax.service';
+import { DepositService } from './deposit.service';
+import NotificationService from './notificationService';
+
+// How long a waitlisted user has to claim a slot offered to them
+const OFFER_MINUTES = Number(process.env.WAITLIST_OFFER_MINUTES) || 30;
+
+export interface JoinWaitlistParams {
+  userId: string;
+  stadiumId: string;
+  fieldId?: string;
+  fieldType?: IField['fieldType'];
+  bookingDate: string;
+  startTime: string;
+  endTime: string;
+}
+
+// A slot given up by a cancelled, deleted or rescheduled booking
+export type FreedSlot = Pick<IBooking, 'stadiumId' | 'fieldId' | 'additionalFieldIds' | 'bookingDate' | 'startTime' | 'endTime'>;
+
+export interface WaitlistSweepResult {
+  expired: number;
+  offered: number;
+}
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const toEndMinutes = (time: string): number => toMinutes(time) || MINUTES_PER_DAY;
+
+const toTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Times are stored as zero-padded HH:mm, with 24:00 for midnight at the end of the day,
+// so the overlap queries can compare them as strings
+const toSlotTimes = (startTime: string, endTime: string): { startTime: string; endTime: string } => ({
+  startTime: toTime(toMinutes(startTime)),
+  endTime: toTime(toEndMinutes(endTime))
+});
+
+// Booking dates are stored as UTC midnight of the stadium's local day
+const toDateString = (date: Date): string => moment.utc(date).format(DATE_FORMAT);
+
+const getToday = (now: Date): Date => new Date(moment(now).tz('Asia/Vientiane').format(DATE_FORMAT));
+
+export class WaitlistService {
+  /**
+   * Put the user in line for a slot that is taken, on a field or on any field of a type
+   */
+  static async join(params: JoinWaitlistParams, now: Date = new Date()): Promise<{ entry: IWaitlist; position: number }> {
+    const stadium = await Stadium.findById(params.stadiumId);
+    if (!stadium) {
+      throw new Error('Stadium not found');
+    }
+    const fields = this.getCandidateFields(stadium, params);
+    if (fields.length === 0) {
+      throw new Error('Field not found');
+    }
+    const { startTime, endTime } = toSlotTimes(params.startTime, params.endTime);
+    if (endTime <= startTime) {
+      throw new Error('End time must be after start time');
+    }
+    if (DepositService.getBookingStart(params.bookingDate, startTime) <= now) {
+      throw new Error('Waitlist slot must be in the future');
+    }
+
+    const bookingDate = new Date(params.bookingDate);
+    const duplicate = await Waitlist.exists({
+      userId: params.userId,
+      stadiumId: params.stadiumId,
+      ...(params.fieldId ? { fieldId: params.fieldId } : { fieldType: params.fieldType }),
+      bookingDate,
+      startTime,
+      endTime,
+      status: { $in: ['waiting', 'offered'] }
+    });
+    if (duplicate) {
+      throw new Error('Already on the waitlist for this slot');
+    }
+
+    const entry = new Waitlist({
+      userId: new mongoose.Types.ObjectId(params.userId),
+      stadiumId: stadium._id,
+      ...(params.fieldId ? { fieldId: new mongoose.Types.ObjectId(params.fieldId) } : { fieldType: params.fieldType }),
+      bookingDate,
+      startTime,
+      endTime,
+      offers: []
+    });
+
+    // Nobody needs to wait for a slot that is free right now
+    if (await this.findOpenField(entry, stadium)) {
+      throw new Error('Time slot is available; book it directly');
+    }
+
+    await entry.save();
+    return { entry, position: await this.getPosition(entry) };
+  }
+
+  /**
+   * Place in line among users waiting for an overlapping slot of the stadium on the same day
+   */
+  static async getPosition(entry: IWaitlist): Promise<number> {
+    if (entry.status !== 'waiting') {
+      return 0;
+    }
+
+    const ahead = await Waitlist.countDocuments({
+      _id: { $ne: entry._id },
+      stadiumId: entry.stadiumId,
+      bookingDate: entry.bookingDate,
+      status: 'waiting',
+      startTime: { $lt: entry.endTime },
+      endTime: { $gt: entry.startTime },
+      createdAt: { $lt: entry.createdAt }
+    });
+    return ahead + 1;
+  }
+
+  /**
+   * The user's current and past waitlist entries for upcoming dates, soonest first
+   */
+  static async getUserEntries(userId: string, now: Date = new Date()): Promise<IWaitlist[]> {
+    return Waitlist.find({
+      userId,
+      bookingDate: { $gte: getToday(now) }
+    })
+      .populate('stadiumId', 'name')
+      .sort({ bookingDate: 1, startTime: 1 });
+  }
+
+  /**
+   * Leave the waitlist; a slot held for the user goes to the next in line
+   */
+  static async leave(entryId: string, userId: string): Promise<IWaitlist> {
+    const entry = mongoose.isValidObjectId(entryId) ? await Waitlist.findById(entryId) : null;
+    if (!entry) {
+      throw new Error('Waitlist entry not found');
+    }
+    if (entry.userId.toString() !== userId) {
+      throw new Error('Not authorized to manage this waitlist entry');
+    }
+    if (entry.status !== 'waiting' && entry.status !== 'offered') {
+      throw new Error(`Waitlist entry is ${entry.status}`);
+    }
+
+    const offer = this.getPendingOffer(entry);
+    entry.status = 'cancelled';
+    if (offer) {
+      await this.closeOffer(entry, offer, 'declined');
+    } else {
+      await entry.save();
+    }
+    return entry;
+  }
+
+  /**
+   * Offer a freed slot to the users waiting for it, first come first served. Each offer holds
+   * the slot for the user, so those further down the line only get what is left.
+   * Never throws: the booking change that freed the slot has already happened.
+   */
+  static async offerFreedSlot(slot: FreedSlot, now: Date = new Date()): Promise<number> {
+    try {
+      const stadium = await Stadium.findById(slot.stadiumId);
+      if (!stadium?.fields) {
+        return 0;
+      }
+
+      const freedIds = FieldRelationService.getRelatedIds(stadium.fields, [slot.fieldId, ...(slot.additionalFieldIds || [])]);
+      const freedTypes = stadium.fields
+        .filter(field => freedIds.includes(String((field as any)._id)))
+        .map(field => field.fieldType);
+
+      const { startTime, endTime } = toSlotTimes(slot.startTime, slot.endTime);
+      const candidates = await Waitlist.find({
+        stadiumId: stadium._id,
+        bookingDate: slot.bookingDate,
+        status: 'waiting',
+        startTime: { $lt: endTime },
+        endTime: { $gt: startTime },
+        $or: [
+          { fieldId: { $in: freedIds } },
+          { fieldId: { $exists: false }, fieldType: { $in: freedTypes } }
+        ]
+      }).sort({ createdAt: 1 });
+
+      let offered = 0;
+      for (const entry of candidates) {
+        if (await this.makeOffer(entry, stadium, now)) {
+          offered++;
+        }
+      }
+      return offered;
+    } catch (error) {
+      console.error('Failed to offer freed slot to the waitlist:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * An offer made to the user, with the entry it was made for
+   */
+  static async getOffer(token: string, userId: string): Promise<{ entry: IWaitlist; offer: IWaitlistOffer }> {
+    const entry = await Waitlist.findOne({ 'offers.token': token });
+    const offer = entry?.offers.find(o => o.token === token);
+    if (!entry || !offer) {
+      throw new Error('Waitlist offer not found');
+    }
+    if (entry.userId.toString() !== userId) {
+      throw new Error('Not authorized to claim this waitlist offer');
+    }
+    return { entry, offer };
+  }
+
+  /**
+   * Page where the user claims or declines an offer
+   */
+  static getClaimLink(token: string): string {
+    return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/waitlist/offers/${token}`;
+  }
+
+  /**
+   * Turn an offer into a booking for the slot held for the user
+   */
+  static async claimOffer(token: string, userId: string, now: Date = new Date()): Promise<{ entry: IWaitlist; booking: IBooking }> {
+    const { entry, offer } = await this.getOffer(token, userId);
+    this.assertPending(offer, now);
+
+    const stadium = await Stadium.findById(entry.stadiumId);
+    const field = stadium?.fields?.find(f => String((f as any)._id) === String(offer.fieldId));
+    if (!stadium || !field) {
+      throw new Error('Field not found');
+    }
+
+    const date = toDateString(entry.bookingDate);
+    const { durationHours, pricing } = PricingEngine.calculate({
+      field,
+      bookingDate: date,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      loyalty: await PricingEngine.getLoyaltyDiscount(userId),
+      tax: (await TaxService.getTaxForStadium(stadium)).tax,
+      holiday: (await HolidayService.getCalendarDay(stadium, date, offer.fieldId)).holiday
+    });
+
+    // Create booking; the booking number is assigned on save
+    const booking = new Booking({
+      userId: entry.userId,
+      stadiumId: stadium._id,
+      fieldId: offer.fieldId,
+      bookingDate: entry.bookingDate,
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      durationHours,
+      pricing,
+      deposit: DepositService.calculateDeposit(stadium.depositPolicy, pricing.totalAmount, DepositService.getBookingStart(date, entry.startTime)),
+      bookingType: 'regular',
+      history: [{
+        action: 'created',
+        changedBy: entry.userId,
+        newValues: { status: 'pending' },
+        notes: 'Booking created from waitlist offer'
+      }]
+    });
+
+    try {
+      await booking.save();
+    } catch (error: any) {
+      if (error.code === 11000 || error.message === SLOT_UNAVAILABLE) {
+        throw new Error(SLOT_UNAVAILABLE);
+      }
+      throw error;
+    }
+
+    // The offer's hold turns into the booking
+    await SlotHoldService.convertHolds(offer.fieldId, date, entry.startTime, entry.endTime, { userId, holdId: String(offer.holdId) });
+
+    offer.status = 'claimed';
+    offer.respondedAt = now;
+    entry.status = 'booked';
+    entry.bookingId = booking._id as mongoose.Types.ObjectId;
+    await entry.save();
+
+    return { entry, booking };
+  }
+
+  /**
+   * Turn an offer down; the slot goes to the next in line
+   */
+  static async declineOffer(token: string, userId: string, now: Date = new Date()): Promise<IWaitlist> {
+    const { entry, offer } = await this.getOffer(token, userId);
+    this.assertPending(offer, now);
+
+    entry.status = 'declined';
+    await this.closeOffer(entry, offer, 'declined', now);
+    return entry;
+  }
+
+  /**
+   * Expire offers that were not claimed in time, passing their slots on, and drop entries
+   * whose slot has started
+   */
+  static async sweep(now: Date = new Date()): Promise<WaitlistSweepResult> {
+    const result: WaitlistSweepResult = { expired: 0, offered: 0 };
+
+    const lapsed = await Waitlist.find({
+      status: 'offered',
+      offers: { $elemMatch: { status: 'pending', expiresAt: { $lte: now } } }
+    });
+    for (const entry of lapsed) {
+      const offer = this.getPendingOffer(entry);
+      if (!offer) continue;
+
+      entry.status = 'expired';
+      result.offered += await this.closeOffer(entry, offer, 'expired', now);
+      result.expired++;
+    }
+
+    const started = await Waitlist.find({
+      status: 'waiting',
+      bookingDate: { $lte: getToday(now) }
+    });
+    for (const entry of started) {
+      if (DepositService.getBookingStart(entry.bookingDate, entry.startTime) > now) continue;
+      entry.status = 'expired';
+      await entry.save();
+      result.expired++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Hold the first open field matching the entry for the user and tell them
+   */
+  private static async makeOffer(entry: IWaitlist, stadium: IStadium, now: Date): Promise<boolean> {
+    if (DepositService.getBookingStart(entry.bookingDate, entry.startTime) <= now) {
+      return false;
+    }
+
+    const fieldId = await this.findOpenField(entry, stadium, now);
+    if (!fieldId) {
+      return false;
+    }
+
+    let holdId: mongoose.Types.ObjectId;
+    let expiresAt: Date;
+    try {
+      const hold = await SlotHoldService.createHold({
+        stadiumId: String(stadium._id),
+        fieldId,
+        bookingDate: entry.bookingDate,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+        userId: String(entry.userId),
+        holdMinutes: OFFER_MINUTES
+      }, now);
+      holdId = hold._id as mongoose.Types.ObjectId;
+      expiresAt = hold.expiresAt;
+    } catch (error: any) {
+      if (error.message === SLOT_UNAVAILABLE) {
+        return false;
+      }
+      throw error;
+    }
+
+    const offer: IWaitlistOffer = {
+      fieldId: new mongoose.Types.ObjectId(fieldId),
+      holdId,
+      token: crypto.randomBytes(24).toString('hex'),
+      offeredAt: now,
+      expiresAt,
+      status: 'pending'
+    };
+    entry.offers.push(offer);
+    entry.status = 'offered';
+    await entry.save();
+
+    await this.notifyOffer(entry, offer, stadium);
+    return true;
+  }
+
+  /**
+   * Close a pending offer, give up its hold and offer the slot to the next in line
+   */
+  private static async closeOffer(
+    entry: IWaitlist,
+    offer: IWaitlistOffer,
+    status: 'declined' | 'expired',
+    now: Date = new Date()
+  ): Promise<number> {
+    offer.status = status;
+    offer.respondedAt = now;
+    await entry.save();
+    await SlotHold.deleteOne({ _id: offer.holdId });
+
+    return this.offerFreedSlot({
+      stadiumId: entry.stadiumId,
+      fieldId: offer.fieldId,
+      bookingDate: entry.bookingDate,
+      startTime: entry.startTime,
+      endTime: entry.endTime
+    }, now);
+  }
+
+  /**
+   * The entry's field, or its stadium's active fields of the entry's type
+   */
+  private static getCandidateFields(stadium: IStadium, entry: Pick<IWaitlist, 'fieldType'> & { fieldId?: mongoose.Types.ObjectId | string }): IField[] {
+    return (stadium.fields || []).filter(field => entry.fieldId
+      ? String((field as any)._id) === String(entry.fieldId)
+      : field.fieldType === entry.fieldType && (field.status || 'active') === 'active');
+  }
+
+  /**
+   * A field the entry's slot can be booked on right now: open that day, within the field's
+   * booking rules and neither booked nor held by someone else
+   */
+  private static async findOpenField(entry: IWaitlist, stadium: IStadium, now: Date = new Date()): Promise<string | null> {
+    const date = toDateString(entry.bookingDate);
+    const holidays = await HolidayService.findEntries([stadium], date, date);
+
+    for (const field of this.getCandidateFields(stadium, entry)) {
+      const fieldId = String((field as any)._id);
+      if (HolidayService.describeDay(holidays, stadium, date, fieldId).isClosed) continue;
+      try {
+        BookingRulesService.validate(field, date, entry.startTime, entry.endTime, now);
+      } catch (error) {
+        if (BookingRulesService.isViolation(error)) continue;
+        throw error;
+      }
+      if (await AvailabilityService.checkFieldAvailability(fieldId, date, entry.startTime, entry.endTime, null, { userId: String(entry.userId) })) {
+        return fieldId;
+      }
+    }
+    return null;
+  }
+
+  private static getPendingOffer(entry: IWaitlist): IWaitlistOffer | undefined {
+    return entry.offers.find(offer => offer.status === 'pending');
+  }
+
+  private static assertPending(offer: IWaitlistOffer, now: Date): void {
+    if (offer.status === 'pending' && offer.expiresAt <= now) {
+      throw new Error('Waitlist offer is expired');
+    }
+    if (offer.status !== 'pending') {
+      throw new Error(`Waitlist offer is ${offer.status}`);
+    }
+  }
+
+  private static async notifyOffer(entry: IWaitlist, offer: IWaitlistOffer, stadium: IStadium): Promise<void> {
+    const field = stadium.fields?.find(f => String((f as any)._id) === String(offer.fieldId));
+    const claimLink = this.getClaimLink(offer.token);
+    const slot = `${toDateString(entry.bookingDate)} ${entry.startTime}-${entry.endTime}`;
+
+    try {
+      // Loaded on use: the push service needs its VAPID keys as soon as it is imported
+      const { PushNotificationService } = await import('./push-notification.service');
+      await PushNotificationService.sendNotificationToUser(String(entry.userId), {
+        title: 'A slot you waited for is free',
+        body: `${stadium.name}${field ? ` (${field.name})` : ''} on ${slot} is held for you until ${moment(offer.expiresAt).tz('Asia/Vientiane').format('HH:mm')}`,
+        url: claimLink
+      });
+    } catch (error) {
+      // Users without push subscriptions, or servers without push configured, still get the email
+    }
+
+    await NotificationService.sendWaitlistOffer(entry, offer, stadium.name, field?.name, claimLink);
+  }
+}
@@ -13,9 +13,24 @@ export interface IDiscount {
   type: 'percentage' | 'fixed';
   amount: number;
   description?: string;
+  promoCodeId?: Types.ObjectId;
+  code?: string;
+  fundedBy?: 'platform' | 'stadium';
+}
+
+export interface IPricingLineItem {
+  type: 'field' | 'referee' | 'discount' | 'loyalty_discount' | 'tax';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  rateSource?: 'special_date' | 'time_slot' | 'pricing_tier' | 'seasonal' | 'holiday' | 'base';
+  startTime?: string;
+  endTime?: string;
 }
 
 export interface IPayment {
+  _id?: Types.ObjectId;
   paymentMethod: 'credit_card' | 'debit_card' | 'bank_transfer' | 'digital_wallet' | 'cash' | 'qrcode';
   amount: number;
   currency: string;
@@ -26,10 +41,46 @@ export interface IPayment {
   accountName?: string; // Account holder name
   transactionId?: string;
   gatewayResponse?: any;
+  refundId?: Types.ObjectId; // Set on negative entries recorded when a refund is paid out
+  provider?: string; // Payment gateway that processed the payment
+  intentId?: string; // Gateway payment intent reference
+  idempotencyKey?: string;
+  slip?: IPaymentSlip; // Bank transfer screenshot awaiting owner review
+  participantId?: Types.ObjectId; // Bill-split participant whose share this pays
   processedAt?: Date;
   createdAt: Date;
 }
 
+export interface IPaymentSlip {
+  imageUrl: string;
+  imageHash: string;
+  transferredAt?: Date;
+  transactionReference?: string;
+  reviewStatus: 'pending' | 'approved' | 'rejected';
+  submittedBy: Types.ObjectId;
+  submittedAt: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  possibleDuplicateOf?: Types.ObjectId; // Payment with the same amount and transfer time
+}
+
+export interface IRefund {
+  _id?: Types.ObjectId;
+  amount: number;
+  currency: string;
+  status: 'requested' | 'approved' | 'paid_out' | 'rejected';
+  reason?: string;
+  requestedBy: Types.ObjectId;
+  requestedAt: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  paymentMethod?: IPayment['paymentMethod'];
+  transactionReference?: string;
+  paidOutAt?: Date;
+}
+
 export interface IAssignedStaff {
   staffId: Types.ObjectId;
   staffName: string;
@@ -46,11 +97,58 @@ export interface ITeamInfo {
   experience?: 'beginner' | 'intermediate' | 'advanced';
 }
 
+export interface IBillSplitParticipant {
+  _id?: Types.ObjectId;
+  phone: string; // Normalized +856 number
+  name?: string;
+  userId?: Types.ObjectId; // Registered user with this phone, if any
+  isOrganizer: boolean;
+  shareAmount: number;
+  paidAmount: number;
+  status: 'pending' | 'partially_paid' | 'paid';
+  token: string; // Secret for the participant's payment link
+  invitedAt: Date;
+  paidAt?: Date;
+}
+
+export interface IBillSplit {
+  mode: 'even' | 'custom';
+  createdBy: Types.ObjectId;
+  createdAt: Date;
+  participants: IBillSplitParticipant[];
+}
+
+export interface IOpenMatchRequest {
+  _id?: Types.ObjectId;
+  userId: Types.ObjectId;
+  players: number; // Spots asked for; the team's size for opponent requests
+  teamName?: string;
+  experience?: ITeamInfo['experience'];
+  message?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'withdrawn';
+  participantId?: Types.ObjectId; // Bill split participant paying the requester's share once approved
+  requestedAt: Date;
+  respondedAt?: Date;
+}
+
+export interface IOpenMatch {
+  type: 'opponent' | 'players'; // Seeking an opponent team, or individual players
+  skillLevel?: ITeamInfo['experience']; // The organizer's team experience
+  playersNeeded?: number; // Players matches
+  pricePerPlayer?: number; // Share each joining player pays
+  opponentShare?: number; // Share the opponent team pays
+  description?: string;
+  status: 'open' | 'full' | 'closed';
+  publishedAt: Date;
+  requests: IOpenMatchRequest[];
+}
+
 export interface ICancellation {
   cancelledAt: Date;
   cancelledBy: Types.ObjectId;
   reason?: string;
   refundAmount?: number;
+  cancellationFee?: number;
   refundStatus?: string;
 }
 
@@ -63,13 +161,33 @@ export interface IHistoryItem {
   timestamp?: Date;
 }
 
+export interface IBookingDeposit {
+  requiredAmount: number; // Amount that must be paid to confirm the booking
+  balanceDue: 'at_venue' | 'before_kickoff';
+  balanceDueAt?: Date;
+  holdExpiresAt: Date; // Pending booking is released if the deposit has not arrived by then
+  receivedAt?: Date;
+}
+
+export interface ITaxDetails {
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  sellerTaxId?: string;
+  sellerName?: string;
+  exemptionReason?: string;
+}
+
 export interface IPricing {
   baseRate: number;
+  subtotal?: number;
   totalAmount: number;
   currency: string;
   taxes?: number;
+  taxDetails?: ITaxDetails;
   refereeCharges?: IRefereeCharge[];
   discounts?: IDiscount[];
+  lineItems?: IPricingLineItem[];
 }
 
 export interface IBooking extends Document {
@@ -77,19 +195,24 @@ export interface IBooking extends Document {
   userId: Types.ObjectId;
   stadiumId: Types.ObjectId;
   fieldId: Types.ObjectId;
+  additionalFieldIds?: Types.ObjectId[]; // Further fields booked together with fieldId
   bookingDate: Date;
   startTime: string;
   endTime: string;
   durationHours: number;
   pricing: IPricing;
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
+  paymentStatus: 'pending' | 'partially_paid' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
   bookingType?: 'regular' | 'tournament' | 'training' | 'event';
   teamInfo?: ITeamInfo;
   notes?: string;
   specialRequests?: string[];
   assignedStaff?: IAssignedStaff[];
   payments?: IPayment[];
+  refunds?: IRefund[];
   cancellation?: ICancellation;
+  deposit?: IBookingDeposit;
+  billSplit?: IBillSplit;
+  openMatch?: IOpenMatch;
   history: IHistoryItem[];
 }
\ No newline at end of file
@@ -32,7 +32,7 @@ export type UserRole = 'superadmin' | 'stadium_owner' | 'general_user';
 
 export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
 
-export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+export type PaymentStatus = 'pending' | 'partially_paid' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
 
 export interface Coordinates {
   type: 'Point';
@@ -8,6 +8,7 @@ declare global {
         role: string;
         email: string;
       };
+      rawBody?: Buffer;
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { IncomingHttpHeaders } from 'http';
+import { IPayment } from './booking.types';
+
+export type GatewayPaymentStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface CreatePaymentIntentParams {
+  bookingId: string;
+  bookingNumber: string;
+  amount: number;
+  currency: string;
+  paymentMethod: IPayment['paymentMethod'];
+  description?: string;
+  returnUrl?: string;
+  idempotencyKey?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PaymentIntent {
+  provider: string;
+  intentId: string;
+  status: GatewayPaymentStatus;
+  amount: number;
+  currency: string;
+  checkoutUrl?: string;
+  qrCodeData?: string;
+  expiresAt?: Date;
+  raw?: any;
+}
+
+export interface PaymentVerification {
+  intentId: string;
+  status: GatewayPaymentStatus;
+  amount: number;
+  currency: string;
+  transactionId?: string;
+  raw?: any;
+}
+
+export interface ProviderRefundParams {
+  intentId: string;
+  transactionId?: string;
+  amount: number;
+  currency: string;
+  reason?: string;
+}
+
+export interface ProviderRefundResult {
+  refundReference: string;
+  status: 'pending' | 'completed' | 'failed';
+  amount: number;
+  raw?: any;
+}
+
+export type PaymentWebhookEventType =
+  | 'payment.completed'
+  | 'payment.failed'
+  | 'payment.cancelled'
+  | 'refund.completed';
+
+export interface PaymentWebhookEvent {
+  eventId: string;
+  type: PaymentWebhookEventType;
+  intentId: string;
+  amount?: number;
+  currency?: string;
+  transactionId?: string;
+  raw: any;
+}
+
+/**
+ * Contract every payment gateway (card processor, Lao bank or e-wallet) has to implement
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  verifyPayment(intentId: string): Promise<PaymentVerification>;
+  refund(params: ProviderRefundParams): Promise<ProviderRefundResult>;
+  verifyWebhookSignature(rawBody: Buffer | string, headers: IncomingHttpHeaders): boolean;
+  parseWebhook(payload: any, headers: IncomingHttpHeaders): PaymentWebhookEvent;
+}
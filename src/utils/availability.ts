@@ -1,6 +1,12 @@
 import moment from 'moment-timezone';
-import Booking from '../models/Booking';
-import { IField } from '../models/Stadium';
+import Booking, { IBooking } from '../models/Booking';
+import { IField, IStadium } from '../models/Stadium';
+import { BookingRulesService } from '../services/booking-rules.service';
+import { FieldRelationService } from '../services/field-relation.service';
+import { CalendarDay, HolidayService } from '../services/holiday.service';
+import { ReservationService } from '../services/reservation.service';
+import { HoldOwner, SlotHoldService } from '../services/slot-hold.service';
+import { SlotGeneratorService, SlotOptions } from '../services/slot-generator.service';
 
 interface ITimeSlot {
   startTime: string;
@@ -16,10 +22,19 @@ interface IUnavailableSlot {
   rate: number;
   currency: string;
   reason: string;
-  status: 'schedule_unavailable' | 'booked';
+  status: 'schedule_unavailable' | 'booked' | 'held';
   bookingStatus?: string;
+  holdExpiresAt?: Date;
 }
 
+interface ISlotAlternatives {
+  sameField: ITimeSlot[];
+  otherFields: (ITimeSlot & { fieldId: string; fieldName: string })[];
+}
+
+// Alternatives offered when a requested slot is taken
+const MAX_ALTERNATIVES = 5;
+
 interface IAvailableReferee {
   _id: string;
   name: string;
@@ -29,124 +44,86 @@ interface IAvailableReferee {
   currency: string;
 }
 
-// Define interface for the actual slot structure from field data
-interface IFieldTimeSlot {
-  startTime: string;
-  endTime: string;
-  isAvailable: boolean;
-  specialRate?: number; // Optional special rate
-}
-
 class AvailabilityService {
   static async checkFieldAvailability(
-    fieldId: string,
+    fieldId: string | string[],
     date: string,
     startTime: string,
     endTime: string,
-    excludeBookingId: string | null = null
+    excludeBookingId: string | null = null,
+    holdOwner: HoldOwner = {}
   ): Promise<boolean> {
-    // Allow booking for future dates by removing the past date check
-    const query: any = {
-      fieldId,
-      bookingDate: new Date(date),
-      status: { $in: ['pending', 'confirmed'] },
-      $or: [
-        {
-          $and: [
-            { startTime: { $lt: endTime } },
-            { endTime: { $gt: startTime } }
-          ]
-        }
-      ]
-    };
+    if (!(await ReservationService.isAvailable(fieldId, date, startTime, endTime, excludeBookingId))) {
+      return false;
+    }
 
-    if (excludeBookingId) {
-      query._id = { $ne: excludeBookingId };
+    // Slots someone else is checking out are not available either
+    for (const id of Array.isArray(fieldId) ? fieldId : [fieldId]) {
+      if (await SlotHoldService.isHeldByOthers(id, date, startTime, endTime, holdOwner)) {
+        return false;
+      }
     }
+    return true;
+  }
 
-    const conflictingBooking = await Booking.findOne(query);
-    return !conflictingBooking;
+  /**
+   * Whether a booking on a related field, with both sides' buffers, leaves no room for the slot
+   */
+  static isBlockedBy(
+    fields: IField[],
+    fieldId: string,
+    slot: { startTime: string; endTime: string },
+    booking: Pick<IBooking, 'fieldId' | 'additionalFieldIds' | 'startTime' | 'endTime'>
+  ): boolean {
+    return BookingRulesService.conflicts(
+      fields,
+      { fieldIds: [fieldId], startTime: slot.startTime, endTime: slot.endTime },
+      { fieldIds: [booking.fieldId, ...(booking.additionalFieldIds || [])], startTime: booking.startTime, endTime: booking.endTime }
+    );
   }
 
   static async getAvailableTimeSlots(
     fieldId: string,
     date: string,
-    field: IField
+    field: IField,
+    holdOwner: HoldOwner = {},
+    options: SlotOptions = {}
   ): Promise<ITimeSlot[]> {
-    const availableSlots: ITimeSlot[] = [];
-
-    const dayOfWeek = moment(date).day();
-
-    // Get regular schedule for the day
-    const daySchedule = field.availabilitySchedule?.find((schedule: { dayOfWeek: number; }) => 
-      schedule.dayOfWeek === dayOfWeek
-    );
-
-    if (!daySchedule) {
-      return availableSlots;
-    }
-
-    // Check for special dates
-    const specialDate = field.specialDates?.find((special: { date: moment.MomentInput; }) => 
-      moment(special.date).isSame(moment(date), 'day')
-    );
-
-    const timeSlots = specialDate ? specialDate.timeSlots : daySchedule.timeSlots;
-
-    // Get existing bookings for the date
-    const existingBookings = await Booking.find({
-      fieldId,
-      bookingDate: new Date(date),
-      status: { $in: ['pending', 'confirmed'] }
-    }).select('startTime endTime');
-
-    // Filter available slots
-    for (const slot of timeSlots as IFieldTimeSlot[]) {
-      if (!slot.isAvailable) continue;
-
-      const isSlotAvailable = !existingBookings.some(booking => 
-        (booking.startTime < slot.endTime && booking.endTime > slot.startTime)
-      );
-
-      if (isSlotAvailable) {
-        availableSlots.push({
-          startTime: slot.startTime,
-          endTime: slot.endTime,
-          rate: slot.specialRate || field.pricing.baseHourlyRate,
-          currency: 'LAK'
-        });
-      }
-    }
-
-    return availableSlots;
+    const { availableSlots } = await this.getComprehensiveAvailability(fieldId, date, field, holdOwner, options);
+    return availableSlots.map(({ startTime, endTime, rate, currency }) => ({ startTime, endTime, rate, currency }));
   }
 
+  /**
+   * The field's generated slots for a date, each marked available or with the reason it is not:
+   * switched off in the schedule, booked on this or a related field (buffers included) or held.
+   * The calendar day tells whether a holiday, blackout or closure applies.
+   */
   static async getComprehensiveAvailability(
     fieldId: string,
     date: string,
-    field: IField
+    field: IField,
+    holdOwner: HoldOwner = {},
+    options: SlotOptions = {}
   ): Promise<{
     availableSlots: ITimeSlot[];
     unavailableSlots: IUnavailableSlot[];
+    calendarDay: CalendarDay;
     summary: {
       totalSlots: number;
       availableCount: number;
       unavailableCount: number;
     };
   }> {
-    const dayOfWeek = moment(date).day();
     const availableSlots: ITimeSlot[] = [];
     const unavailableSlots: IUnavailableSlot[] = [];
+    const calendarDay = await HolidayService.getFieldCalendarDay(fieldId, date);
+    const timeSlots = SlotGeneratorService.generateSlots(field, date, options, calendarDay);
 
-    // Get regular schedule for the day
-    const daySchedule = field.availabilitySchedule?.find((schedule: { dayOfWeek: number; }) => 
-      schedule.dayOfWeek === dayOfWeek
-    );
-
-    if (!daySchedule) {
+    if (timeSlots.length === 0) {
       return {
-        availableSlots: [],
-        unavailableSlots: [],
+        availableSlots,
+        unavailableSlots,
+        calendarDay,
         summary: {
           totalSlots: 0,
           availableCount: 0,
@@ -155,27 +132,22 @@ class AvailabilityService {
       };
     }
 
-    // Check for special dates
-    const specialDate = field.specialDates?.find((special: { date: moment.MomentInput; }) => 
-      moment(special.date).isSame(moment(date), 'day')
-    );
-
-    const timeSlots = specialDate ? specialDate.timeSlots : daySchedule.timeSlots;
-
     // Get existing bookings for the date
+    const fields = await FieldRelationService.getStadiumFields([fieldId]);
     const existingBookings = await Booking.find({
-      fieldId,
+      ...FieldRelationService.bookingFilter(FieldRelationService.getRelatedIds(fields, [fieldId])),
       bookingDate: new Date(date),
       status: { $in: ['pending', 'confirmed'] }
-    }).select('startTime endTime status');
+    }).select('fieldId additionalFieldIds startTime endTime status');
+    const holds = await SlotHoldService.getActiveHolds(fieldId, date, holdOwner);
 
     // Process each time slot
-    for (const slot of timeSlots as IFieldTimeSlot[]) {
+    for (const slot of timeSlots) {
       const slotData = {
         startTime: slot.startTime,
         endTime: slot.endTime,
-        rate: slot.specialRate || field.pricing.baseHourlyRate,
-        currency: 'LAK'
+        rate: slot.rate,
+        currency: slot.currency
       };
 
       // Check if slot is marked as unavailable in schedule
@@ -188,10 +160,8 @@ class AvailabilityService {
         continue;
       }
 
-      // Check for booking conflicts
-      const conflictingBooking = existingBookings.find(booking => 
-        (booking.startTime < slot.endTime && booking.endTime > slot.startTime)
-      );
+      // Check for booking conflicts, turnover buffers included
+      const conflictingBooking = existingBookings.find(booking => this.isBlockedBy(fields, fieldId, slot, booking));
 
       if (conflictingBooking) {
         unavailableSlots.push({
@@ -200,6 +170,17 @@ class AvailabilityService {
           status: 'booked',
           bookingStatus: conflictingBooking.status
         });
+        continue;
+      }
+
+      const hold = holds.find(h => SlotHoldService.overlaps(h, slot));
+      if (hold) {
+        unavailableSlots.push({
+          ...slotData,
+          reason: 'Temporarily held by another customer',
+          status: 'held',
+          holdExpiresAt: hold.expiresAt
+        });
       } else {
         availableSlots.push({
           ...slotData,
@@ -208,17 +189,54 @@ class AvailabilityService {
       }
     }
 
-    const result = {
+    return {
       availableSlots,
       unavailableSlots,
+      calendarDay,
       summary: {
         totalSlots: timeSlots.length,
         availableCount: availableSlots.length,
         unavailableCount: unavailableSlots.length
       }
     };
+  }
+
+  /**
+   * Free slots to offer instead of a taken one: other slots on the same field that day,
+   * closest to the requested time first, and the same time on the stadium's other fields
+   */
+  static async findAlternatives(
+    stadium: IStadium,
+    fieldId: string,
+    date: string,
+    startTime: string,
+    endTime: string,
+    holdOwner: HoldOwner = {}
+  ): Promise<ISlotAlternatives> {
+    const toMinutes = (time: string) => moment(time, 'HH:mm').hours() * 60 + moment(time, 'HH:mm').minutes();
+    const requested = toMinutes(startTime);
+    const fields = (stadium.fields || []).filter(f => f.status === 'active');
+
+    const field = fields.find((f: any) => f._id?.toString() === fieldId);
+    const sameField = field
+      ? (await this.getAvailableTimeSlots(fieldId, date, field, holdOwner))
+        .sort((a, b) => Math.abs(toMinutes(a.startTime) - requested) - Math.abs(toMinutes(b.startTime) - requested))
+        .slice(0, MAX_ALTERNATIVES)
+      : [];
+
+    const otherFields: ISlotAlternatives['otherFields'] = [];
+    for (const other of fields) {
+      const otherId = (other as any)._id?.toString();
+      if (!otherId || otherId === fieldId || otherFields.length >= MAX_ALTERNATIVES) continue;
+
+      const slot = (await this.getAvailableTimeSlots(otherId, date, other, holdOwner))
+        .find(s => s.startTime === startTime && s.endTime === endTime);
+      if (slot) {
+        otherFields.push({ ...slot, fieldId: otherId, fieldName: other.name });
+      }
+    }
 
-    return result;
+    return { sameField, otherFields };
   }
 
   static async getAvailableReferees(
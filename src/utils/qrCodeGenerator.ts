@@ -1,7 +1,128 @@
 // src/utils/qrCodeGenerator.ts
 import QRCode from 'qrcode';
 
+export interface LaoQRPayloadParams {
+  accountNumber: string;
+  merchantName: string;
+  merchantCity?: string;
+  bankCode?: string; // Acquirer IIN registered with LAPNet
+  amount?: number;
+  currency?: string;
+  billNumber?: string; // Usually the booking number
+  purpose?: string;
+}
+
+// ISO 4217 numeric codes for the currencies we accept
+const EMV_CURRENCY_CODES: Record<string, string> = {
+  LAK: '418',
+  THB: '764',
+  USD: '840',
+  CNY: '156'
+};
+
+// Globally unique identifier for the LAPNet merchant account template (tag 38)
+const LAO_QR_GUID = process.env.LAO_QR_GUID || 'A005266284';
+
+// MCC 7941: commercial sports, athletic fields
+const STADIUM_MERCHANT_CATEGORY = '7941';
+
 export class QRCodeGenerator {
+  /**
+   * Encode a single EMVCo TLV field: two-digit id, two-digit length, value
+   */
+  static formatTLV(id: string, value: string): string {
+    if (value.length > 99) {
+      throw new Error(`EMVCo field ${id} is longer than 99 characters`);
+    }
+    return `${id}${value.length.toString().padStart(2, '0')}${value}`;
+  }
+
+  /**
+   * CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF) as four uppercase hex digits
+   */
+  static crc16(data: string): string {
+    let crc = 0xffff;
+    const bytes = Buffer.from(data, 'utf8');
+
+    for (const byte of bytes) {
+      crc ^= byte << 8;
+      for (let i = 0; i < 8; i++) {
+        crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+        crc &= 0xffff;
+      }
+    }
+
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+  }
+
+  /**
+   * Build an EMVCo merchant-presented payload in the LAO QR (LAPNet) layout.
+   * Payloads with an amount are dynamic (point of initiation 12), others static (11).
+   */
+  static buildLaoQRPayload(params: LaoQRPayloadParams): string {
+    const currency = (params.currency || 'LAK').toUpperCase();
+    const currencyCode = EMV_CURRENCY_CODES[currency];
+    if (!currencyCode) {
+      throw new Error(`Unsupported QR payment currency: ${currency}`);
+    }
+
+    const isDynamic = params.amount !== undefined && params.amount > 0;
+
+    const merchantAccount =
+      this.formatTLV('00', LAO_QR_GUID) +
+      (params.bankCode ? this.formatTLV('01', params.bankCode) : '') +
+      this.formatTLV('02', params.accountNumber);
+
+    // Tag 59 only allows the EMV common character set; Lao names go in the language template
+    const asciiName = this.toEmvText(params.merchantName, 25) || 'STADIUM';
+    const hasLocalName = asciiName !== params.merchantName.trim().substring(0, 25);
+
+    let payload =
+      this.formatTLV('00', '01') +
+      this.formatTLV('01', isDynamic ? '12' : '11') +
+      this.formatTLV('38', merchantAccount) +
+      this.formatTLV('52', STADIUM_MERCHANT_CATEGORY) +
+      this.formatTLV('53', currencyCode);
+
+    if (isDynamic) {
+      // LAK has no minor unit
+      const amount = currency === 'LAK'
+        ? Math.round(params.amount as number).toString()
+        : (params.amount as number).toFixed(2);
+      payload += this.formatTLV('54', amount);
+    }
+
+    payload +=
+      this.formatTLV('58', 'LA') +
+      this.formatTLV('59', asciiName) +
+      this.formatTLV('60', this.toEmvText(params.merchantCity || 'Vientiane', 15) || 'Vientiane');
+
+    const additionalData =
+      (params.billNumber ? this.formatTLV('01', this.toEmvText(params.billNumber, 25)) : '') +
+      (params.purpose ? this.formatTLV('08', this.toEmvText(params.purpose, 25)) : '');
+    if (additionalData) {
+      payload += this.formatTLV('62', additionalData);
+    }
+
+    if (hasLocalName) {
+      payload += this.formatTLV('64',
+        this.formatTLV('00', 'lo') +
+        this.formatTLV('01', params.merchantName.trim().substring(0, 25))
+      );
+    }
+
+    // The CRC covers everything up to and including its own id and length
+    payload += '6304';
+    return payload + this.crc16(payload);
+  }
+
+  /**
+   * Strip characters outside the EMV common character set and cap the length
+   */
+  private static toEmvText(value: string, maxLength: number): string {
+    return value.replace(/[^\x20-\x7E]/g, '').trim().substring(0, maxLength);
+  }
+
   /**
    * Generate QR code as base64 data URL
    * @param data - Data to encode in QR code
@@ -31,7 +152,7 @@ export class QRCodeGenerator {
   }
 
   /**
-   * Generate QR code for bank transfer payment
+   * Generate a LAO QR (EMVCo) code for a bank transfer payment
    * @param accountInfo - Bank account information
    * @returns Base64 encoded QR code image
    */
@@ -40,22 +161,25 @@ export class QRCodeGenerator {
       accountNumber: string;
       accountName: string;
       bankName?: string;
+      bankCode?: string;
       amount?: number;
       currency?: string;
       description?: string;
+      reference?: string;
+      merchantCity?: string;
     }
   ): Promise<string> {
     try {
-      // Create a standardized string format for bank transfers
-      const qrData = [
-        'BANK_TRANSFER',
-        accountInfo.bankName || 'BANK',
-        accountInfo.accountNumber,
-        accountInfo.accountName,
-        accountInfo.amount ? `${accountInfo.amount}` : '',
-        accountInfo.currency || 'LAK',
-        accountInfo.description || ''
-      ].join('|');
+      const qrData = this.buildLaoQRPayload({
+        accountNumber: accountInfo.accountNumber,
+        merchantName: accountInfo.accountName || accountInfo.bankName || '',
+        merchantCity: accountInfo.merchantCity,
+        bankCode: accountInfo.bankCode,
+        amount: accountInfo.amount,
+        currency: accountInfo.currency,
+        billNumber: accountInfo.reference,
+        purpose: accountInfo.description
+      });
 
       return await this.generateQRCode(qrData, {
         width: 250,
@@ -4,6 +4,10 @@ import Booking from '../models/Booking';
 import User from '../models/User';
 import NotificationService from '../services/notificationService';
 import { LoyaltyController } from '../controllers/loyalty.controller';
+import { PayoutService } from '../services/payout.service';
+import { DepositService } from '../services/deposit.service';
+import { MembershipService } from '../services/membership.service';
+import { WaitlistService } from '../services/waitlist.service';
 import { Types } from 'mongoose';
 
 class SchedulerService {
@@ -20,6 +24,30 @@ class SchedulerService {
       await this.updateCompletedBookings();
     });
 
+    // Release pending bookings whose deposit did not arrive in time
+    cron.schedule('*/5 * * * *', async () => {
+      await this.releaseExpiredDepositHolds();
+    });
+
+    // Pass waitlist offers that were not claimed in time on to the next in line
+    cron.schedule('*/5 * * * *', async () => {
+      await this.sweepWaitlist();
+    });
+
+    // Settle the previous month's owner payouts on the 1st at 2 AM
+    cron.schedule('0 2 1 * *', async () => {
+      await this.settleOwnerPayouts();
+    }, {
+      timezone: 'Asia/Vientiane'
+    });
+
+    // Invoice membership billing cycles, send payment reminders and suspend unpaid series daily at 8 AM
+    cron.schedule('0 8 * * *', async () => {
+      await this.runMembershipBilling();
+    }, {
+      timezone: 'Asia/Vientiane'
+    });
+
     console.log('Scheduler initialized');
   }
 
@@ -126,6 +154,42 @@ class SchedulerService {
       console.error('Failed to update completed bookings:', error);
     }
   }
+
+  static async releaseExpiredDepositHolds(): Promise<void> {
+    try {
+      const released = await DepositService.releaseExpiredHolds();
+      if (released > 0) {
+        console.log(`Cancelled ${released} bookings whose deposit was not received`);
+      }
+    } catch (error) {
+      console.error('Failed to release expired deposit holds:', error);
+    }
+  }
+
+  static async sweepWaitlist(): Promise<void> {
+    try {
+      await WaitlistService.sweep();
+    } catch (error) {
+      console.error('Failed to sweep the waitlist:', error);
+    }
+  }
+
+  static async settleOwnerPayouts(): Promise<void> {
+    try {
+      const result = await PayoutService.settlePeriod(PayoutService.getMonthlyPeriod());
+      console.log(`Settled owner payouts: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`);
+    } catch (error) {
+      console.error('Failed to settle owner payouts:', error);
+    }
+  }
+
+  static async runMembershipBilling(): Promise<void> {
+    try {
+      await MembershipService.runBilling();
+    } catch (error) {
+      console.error('Failed to run membership billing:', error);
+    }
+  }
 }
 
 export default SchedulerService;
\ No newline at end of file
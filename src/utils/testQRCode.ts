@@ -10,7 +10,8 @@ async function testQRCode() {
       bankName: 'Lao Development Bank',
       amount: 500000,
       currency: 'LAK',
-      description: 'Booking Payment'
+      description: 'Booking Payment',
+      reference: 'BK1234567890'
     });
     
     console.log('Bank Transfer QR Code Generated:');